@@ -9,8 +9,11 @@ module.exports = {
   testMatch: [
     '<rootDir>/packages/**/*.integration.spec.ts',
     '<rootDir>/apps/**/*.integration.spec.ts',
+    '<rootDir>/tests/**/*.integration.spec.ts',
   ],
 
+  testPathIgnorePatterns: ['/node_modules/', '/dist/', '/build/', '/coverage/'],
+
   // 测试环境
   testEnvironment: 'node',
 
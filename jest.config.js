@@ -13,7 +13,14 @@ module.exports = {
   testMatch: ['<rootDir>/packages/**/*.spec.ts', '<rootDir>/apps/**/*.spec.ts'],
 
   // 忽略的测试文件
-  testPathIgnorePatterns: ['/node_modules/', '/dist/', '/build/', '/coverage/'],
+  // 集成测试需要外部服务，由 jest-integration.config.js 单独运行
+  testPathIgnorePatterns: [
+    '/node_modules/',
+    '/dist/',
+    '/build/',
+    '/coverage/',
+    '\\.integration\\.spec\\.ts$',
+  ],
 
   // 模块文件扩展名
   moduleFileExtensions: ['ts', 'tsx', 'js', 'jsx', 'json'],
@@ -0,0 +1,12 @@
+/**
+ * Jest集成测试设置文件
+ *
+ * 集成测试连接真实的数据库、Redis等外部服务，
+ * 超时、租约和延迟任务依赖真实时钟，因此恢复jest.setup.js中被固定的Date.now()。
+ *
+ * @fileoverview Jest集成测试环境设置
+ * @author AI开发团队
+ * @since 1.0.0
+ */
+
+global.Date.now = () => new Date().getTime();
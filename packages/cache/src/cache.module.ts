@@ -9,6 +9,7 @@
  * - 缓存键工厂
  * - 缓存失效服务
  * - 缓存预热服务
+ * - 缓存失效广播
  * - 缓存装饰器和拦截器
  *
  * 遵循DDD和Clean Architecture原则，提供统一的缓存管理功能。
@@ -19,6 +20,7 @@ import { EventEmitterModule } from '@nestjs/event-emitter';
 import { ClsModule } from 'nestjs-cls';
 import { ScheduleModule } from '@nestjs/schedule';
 import { ConfigModule } from '@nestjs/config';
+import type { IEventBus } from '@aiofix/core';
 
 // 导入配置
 import { cacheConfig, CacheConfig } from './config/cache.config';
@@ -29,6 +31,7 @@ import { MemoryCacheService } from './services/memory-cache.service';
 import { CacheManagerService } from './services/cache-manager.service';
 import { CacheInvalidationService } from './services/cache-invalidation.service';
 import { CacheWarmupService } from './services/cache-warmup.service';
+import { CacheInvalidationBus } from './services/cache-invalidation-bus.service';
 
 // 导入工厂
 import { CacheKeyFactory } from './factories/cache-key.factory';
@@ -63,6 +66,8 @@ export interface CacheModuleOptions {
   warmup?: boolean;
   /** 是否启用拦截器 */
   interceptors?: boolean;
+  /** 事件总线，提供时缓存失效服务在模块初始化时订阅EVENT规则的事件 */
+  eventBus?: IEventBus;
 }
 
 /**
@@ -90,6 +95,7 @@ export class CacheModule {
 
       warmup = true,
       interceptors = true,
+      eventBus,
     } = options;
 
     const moduleConfig: DynamicModule = {
@@ -191,6 +197,26 @@ export class CacheModule {
           inject: [cacheConfig.KEY],
         },
 
+        // 缓存失效广播配置，只有内存层和Redis层同时启用时才需要
+        {
+          provide: 'CACHE_INVALIDATION_BUS_CONFIG',
+          useFactory: (defaultConfig: CacheConfig) => ({
+            ...defaultConfig.bus,
+            ...config.bus,
+            enabled:
+              memory &&
+              redis &&
+              (config.bus?.enabled ?? defaultConfig.bus.enabled),
+          }),
+          inject: [cacheConfig.KEY],
+        },
+
+        // 缓存失效服务订阅的事件总线
+        {
+          provide: 'CACHE_EVENT_BUS',
+          useValue: eventBus ?? null,
+        },
+
         // 缓存预热配置
         {
           provide: 'CACHE_WARMUP_CONFIG',
@@ -250,6 +276,7 @@ export class CacheModule {
         CacheManagerService,
         CacheInvalidationService,
         CacheWarmupService,
+        CacheInvalidationBus,
 
         // 拦截器
         ...(interceptors
@@ -269,6 +296,7 @@ export class CacheModule {
         'MEMORY_CACHE_CONFIG',
         'CACHE_MANAGER_CONFIG',
         'CACHE_INVALIDATION_CONFIG',
+        'CACHE_INVALIDATION_BUS_CONFIG',
         'CACHE_WARMUP_CONFIG',
         'CACHE_INTERCEPTOR_OPTIONS',
 
@@ -279,6 +307,7 @@ export class CacheModule {
         CacheKeyFactory,
         CacheInvalidationService,
         CacheWarmupService,
+        CacheInvalidationBus,
 
         // 导出拦截器
         ...(interceptors
@@ -7,6 +7,7 @@
  * - 内存缓存配置
  * - 缓存管理器配置
  * - 缓存失效配置
+ * - 缓存失效广播配置
  * - 缓存键配置
  *
  * 遵循配置管理最佳实践，支持环境变量和默认值。
@@ -14,6 +15,11 @@
 
 import { registerAs } from '@nestjs/config';
 import { CacheStrategy } from '../interfaces/cache.interface';
+import type { CacheSerializer } from '../interfaces/cache.interface';
+import type {
+  CacheCodecConfig,
+  CacheCompression,
+} from '../services/cache-codec';
 
 /**
  * @interface CacheConfig
@@ -34,6 +40,8 @@ export interface CacheConfig {
     sentinel: boolean;
     sentinels?: Array<{ host: string; port: number }>;
     name?: string;
+    scanCount: number;
+    codec: CacheCodecConfig;
   };
 
   /** 内存缓存配置 */
@@ -68,6 +76,13 @@ export interface CacheConfig {
     enableStats: boolean;
     enableEvents: boolean;
     monitoringInterval: number;
+    maxCascadeDepth: number;
+  };
+
+  /** 缓存失效广播配置 */
+  bus: {
+    enabled: boolean;
+    channel: string;
   };
 
   /** 缓存键配置 */
@@ -127,6 +142,30 @@ export const createCacheConfig = (): CacheConfig => ({
       ? JSON.parse(process.env.REDIS_SENTINELS)
       : undefined,
     name: process.env.REDIS_NAME ?? 'mymaster',
+    scanCount: parseInt(process.env.REDIS_SCAN_COUNT ?? '500'),
+    codec: {
+      serializer:
+        (process.env.CACHE_CODEC_SERIALIZER as CacheSerializer | undefined) ??
+        'json',
+      compression:
+        (process.env.CACHE_CODEC_COMPRESSION as CacheCompression | '') ||
+        undefined,
+      compressionThreshold: parseInt(
+        process.env.CACHE_CODEC_COMPRESSION_THRESHOLD ?? '1024',
+      ),
+      encryption: process.env.CACHE_ENCRYPTION_KEYS
+        ? {
+            keys: JSON.parse(process.env.CACHE_ENCRYPTION_KEYS) as Record<
+              string,
+              string
+            >,
+            currentKeyId: process.env.CACHE_ENCRYPTION_KEY_ID ?? '',
+            namespaces: process.env.CACHE_ENCRYPTION_NAMESPACES
+              ? process.env.CACHE_ENCRYPTION_NAMESPACES.split(',')
+              : undefined,
+          }
+        : undefined,
+    },
   },
 
   memory: {
@@ -168,6 +207,14 @@ export const createCacheConfig = (): CacheConfig => ({
     monitoringInterval: parseInt(
       process.env.CACHE_INVALIDATION_MONITORING_INTERVAL ?? '60000',
     ),
+    maxCascadeDepth: parseInt(
+      process.env.CACHE_INVALIDATION_MAX_CASCADE_DEPTH ?? '5',
+    ),
+  },
+
+  bus: {
+    enabled: process.env.CACHE_INVALIDATION_BUS_ENABLED !== 'false',
+    channel: process.env.CACHE_INVALIDATION_BUS_CHANNEL ?? 'cache:invalidation',
   },
 
   key: {
@@ -44,6 +44,27 @@ export const CACHE_EVICT_METADATA = 'cache_evict_metadata';
  */
 export const CACHE_EVICT_ALL_METADATA = 'cache_evict_all_metadata';
 
+/**
+ * @constant CACHE_TAGS_METADATA
+ * @description 缓存标签元数据键名
+ */
+export const CACHE_TAGS_METADATA = 'cache_tags_metadata';
+
+/**
+ * @type CacheTagsResolver
+ * @description 缓存标签或按方法参数生成标签的函数
+ */
+export type CacheTagsResolver = string[] | ((args: unknown[]) => string[]);
+
+/**
+ * @interface CacheableOptions
+ * @description Cacheable装饰器选项，标签可以按方法参数生成
+ */
+export interface CacheableOptions extends Partial<Omit<ICacheOptions, 'tags'>> {
+  /** 失效标签，如 (args) => [`role:${args[0]}`] */
+  tags?: CacheTagsResolver;
+}
+
 /**
  * @function CacheKey
  * @description 缓存键装饰器
@@ -73,6 +94,15 @@ export const CacheOptions = (
   options: Partial<ICacheOptions>,
 ): MethodDecorator => SetMetadata(CACHE_OPTIONS_METADATA, options);
 
+/**
+ * @function CacheTags
+ * @description 缓存标签装饰器，写入缓存时把键登记到这些标签下，之后可按标签失效
+ * @param {CacheTagsResolver} tags 标签或标签生成函数
+ * @returns {Function} 装饰器函数
+ */
+export const CacheTags = (tags: CacheTagsResolver): MethodDecorator =>
+  SetMetadata(CACHE_TAGS_METADATA, tags);
+
 /**
  * @function CacheEvict
  * @description 缓存失效装饰器
@@ -94,16 +124,17 @@ export const CacheEvictAll = (namespace?: string): MethodDecorator =>
 
 /**
  * @function Cacheable
- * @description 缓存装饰器组合
+ * @description 缓存装饰器组合，由CacheInterceptor通过getOrLoad加载，
+ * 可在options中配置staleWhileRevalidate、earlyExpiryBeta和lockTimeout
  * @param {string | ((args: any[]) => string)} key 缓存键
  * @param {number} ttl 过期时间（毫秒）
- * @param {Partial<CacheOptions>} options 缓存选项
+ * @param {CacheableOptions} options 缓存选项，tags会应用为CacheTags
  * @returns {Function} 装饰器函数
  */
 export const Cacheable = (
   key: string | ((args: unknown[]) => string),
   ttl?: number,
-  options?: Partial<ICacheOptions>,
+  options?: CacheableOptions,
 ) => {
   return (
     target: unknown,
@@ -120,7 +151,12 @@ export const Cacheable = (
 
     // 应用选项装饰器（如果提供）
     if (options) {
-      CacheOptions(options)(target as object, propertyKey, descriptor);
+      const { tags, ...cacheOptions } = options;
+      CacheOptions(cacheOptions)(target as object, propertyKey, descriptor);
+
+      if (tags) {
+        CacheTags(tags)(target as object, propertyKey, descriptor);
+      }
     }
 
     return descriptor;
@@ -175,7 +175,7 @@ describe('CacheKeyFactory', () => {
       const result = factory.toString(cacheKey);
 
       expect(result).toBe(
-        'v2:test-namespace:tenant:tenant-123:user:user-456:tags:tag1,tag2:test-key',
+        'v2:{test-namespace}:tenant:tenant-123:user:user-456:tags:tag1,tag2:test-key',
       );
     });
 
@@ -200,7 +200,7 @@ describe('CacheKeyFactory', () => {
 
       const result = factory.toString(cacheKey);
 
-      expect(result).toBe('v1:test-namespace:test-key');
+      expect(result).toBe('v1:{test-namespace}:test-key');
     });
   });
 
@@ -242,6 +242,18 @@ describe('CacheKeyFactory', () => {
       });
     });
 
+    it('should parse the hash-tagged namespace written by toString', () => {
+      const cacheKey: CacheKey = {
+        key: 'test-key',
+        namespace: 'test-namespace',
+        version: 'v1',
+        tenantId: 'tenant-123',
+        tags: [],
+      };
+
+      expect(factory.parse(factory.toString(cacheKey))).toEqual(cacheKey);
+    });
+
     it('should parse cache key with only namespace', () => {
       const keyString = 'v1:test-namespace:test-key';
       const result = factory.parse(keyString);
@@ -262,7 +274,33 @@ describe('CacheKeyFactory', () => {
         tenantId: 'tenant-123',
       });
 
-      expect(result).toBe('v1:test-namespace:tenant:tenant-123:user:*:profile');
+      expect(result).toBe(
+        'v1:{test-namespace}:tenant:tenant-123:user:*:profile',
+      );
+    });
+
+    it('should create a namespace pattern for any version', () => {
+      const result = factory.createNamespacePattern('Test Namespace');
+
+      expect(result).toBe('*:{test_namespace}:*');
+      expect(
+        factory.matchPattern(
+          factory.createNamespace('Test Namespace', 'key', { version: 'v3' }),
+          result,
+        ),
+      ).toBe(true);
+    });
+  });
+
+  describe('createTagKey', () => {
+    it('should wrap the sanitized tag in a hash tag', () => {
+      expect(factory.createTagKey('role:r-1')).toBe('tag:{role_r-1}');
+    });
+
+    it('should reject empty tags', () => {
+      expect(() => factory.createTagKey('  ')).toThrow(
+        'Tag must be a non-empty string',
+      );
     });
   });
 
@@ -275,7 +313,7 @@ describe('CacheKeyFactory', () => {
         tags: [],
       };
 
-      const pattern = 'v1:test-namespace:tenant:tenant-123:user-123-profile';
+      const pattern = 'v1:{test-namespace}:tenant:tenant-123:user-123-profile';
       const result = factory.matchPattern(cacheKey, pattern);
 
       expect(result).toBe(true);
@@ -289,7 +327,7 @@ describe('CacheKeyFactory', () => {
         tags: [],
       };
 
-      const pattern = 'v1:test-namespace:tenant:tenant-123:user-*-profile';
+      const pattern = 'v1:{test-namespace}:tenant:tenant-123:user-*-profile';
       const result = factory.matchPattern(cacheKey, pattern);
 
       expect(result).toBe(true);
@@ -303,7 +341,7 @@ describe('CacheKeyFactory', () => {
         tags: [],
       };
 
-      const pattern = 'v1:test-namespace:tenant:tenant-123:user-456-profile';
+      const pattern = 'v1:{test-namespace}:tenant:tenant-123:user-456-profile';
       const result = factory.matchPattern(cacheKey, pattern);
 
       expect(result).toBe(false);
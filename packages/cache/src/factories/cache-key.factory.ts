@@ -27,6 +27,10 @@ import { minimatch } from 'minimatch';
  * - 用户隔离键创建
  * - 标签键创建
  * - 键字符串转换
+ *
+ * 键字符串格式为 版本:{命名空间}:tenant:租户:user:用户:tags:标签:键名。
+ * 命名空间用Redis Cluster哈希标签 {} 包裹，同一命名空间的键落在同一个槽位，
+ * 清除命名空间时可以在一个节点上分批删除。
  */
 @Injectable()
 export class CacheKeyFactory implements ICacheKeyFactory {
@@ -141,9 +145,9 @@ export class CacheKeyFactory implements ICacheKeyFactory {
     // 添加版本号（总是添加默认版本号，确保序列化和反序列化一致）
     parts.push(cacheKey.version ?? this.DEFAULT_VERSION);
 
-    // 添加命名空间
+    // 添加命名空间（哈希标签）
     if (cacheKey.namespace) {
-      parts.push(cacheKey.namespace);
+      parts.push(`{${cacheKey.namespace}}`);
     }
 
     // 添加租户ID
@@ -196,8 +200,8 @@ export class CacheKeyFactory implements ICacheKeyFactory {
       parts[currentIndex] !== 'tags' &&
       currentIndex < parts.length - 1
     ) {
-      // 确保不是最后一个部分（键名）
-      cacheKey.namespace = parts[currentIndex];
+      // 确保不是最后一个部分（键名），兼容没有哈希标签的旧格式
+      cacheKey.namespace = parts[currentIndex].replace(/^\{(.*)\}$/, '$1');
       currentIndex++;
     }
 
@@ -254,9 +258,9 @@ export class CacheKeyFactory implements ICacheKeyFactory {
       parts.push(this.DEFAULT_VERSION);
     }
 
-    // 添加命名空间
+    // 添加命名空间（哈希标签）
     if (options?.namespace) {
-      parts.push(this.sanitizeNamespace(options.namespace));
+      parts.push(`{${this.sanitizeNamespace(options.namespace)}}`);
     }
 
     // 添加租户ID
@@ -280,6 +284,32 @@ export class CacheKeyFactory implements ICacheKeyFactory {
     return parts.join(this.DEFAULT_SEPARATOR);
   }
 
+  /**
+   * @method createNamespacePattern
+   * @description 创建匹配命名空间下所有键的模式，不限版本
+   * @param namespace 命名空间
+   * @returns 模式字符串
+   */
+  createNamespacePattern(namespace: string): string {
+    return ['*', `{${this.sanitizeNamespace(namespace)}}`, '*'].join(
+      this.DEFAULT_SEPARATOR,
+    );
+  }
+
+  /**
+   * @method createTagKey
+   * @description 创建标签索引键，格式为 tag:{标签}，每个标签的索引独占一个哈希槽
+   * @param tag 标签
+   * @returns 标签索引键
+   */
+  createTagKey(tag: string): string {
+    const [sanitized] = this.sanitizeTags([tag]);
+    if (!sanitized) {
+      throw new Error('Tag must be a non-empty string');
+    }
+    return ['tag', `{${sanitized}}`].join(this.DEFAULT_SEPARATOR);
+  }
+
   /**
    * @method matchPattern
    * @description 检查键是否匹配模式
@@ -46,6 +46,19 @@ export { MemoryCacheService } from './services/memory-cache.service';
 export { CacheManagerService } from './services/cache-manager.service';
 export { CacheInvalidationService } from './services/cache-invalidation.service';
 export { CacheWarmupService } from './services/cache-warmup.service';
+export { CacheInvalidationBus } from './services/cache-invalidation-bus.service';
+export type {
+  CacheInvalidationBusConfig,
+  CacheInvalidationMessage,
+} from './services/cache-invalidation-bus.service';
+export { CacheCodec } from './services/cache-codec';
+export type {
+  CacheCodecConfig,
+  CacheCodecOptions,
+  CacheCompression,
+  CacheEncryptionConfig,
+} from './services/cache-codec';
+export { RedisMessageQueue } from './services/redis-message-queue.service';
 
 // 导出工厂
 export { CacheKeyFactory } from './factories/cache-key.factory';
@@ -57,6 +70,7 @@ export {
   CacheOptions as CacheOptionsDecorator,
   CacheEvict,
   CacheEvictAll,
+  CacheTags,
   Cacheable,
   CacheEvictable,
   CacheKeyPattern,
@@ -66,6 +80,10 @@ export {
   CacheUnless,
   CacheSync,
 } from './decorators/cache.decorator';
+export type {
+  CacheableOptions,
+  CacheTagsResolver,
+} from './decorators/cache.decorator';
 
 // 导出拦截器
 export {
@@ -88,5 +106,8 @@ export type {
   CacheWarmupConfig,
 } from './services/cache-warmup.service';
 
+// 导出消息队列相关类型
+export type { RedisMessageQueueOptions } from './services/redis-message-queue.service';
+
 // 导出拦截器相关类型
 export type { CacheInterceptorOptions } from './interceptors/cache.interceptor';
@@ -20,7 +20,7 @@ import {
   Type,
   mixin,
 } from '@nestjs/common';
-import { Observable, of } from 'rxjs';
+import { Observable, from, lastValueFrom, of } from 'rxjs';
 import { tap } from 'rxjs/operators';
 import { Reflector } from '@nestjs/core';
 import type { ICacheService } from '../interfaces/cache.interface';
@@ -32,7 +32,9 @@ import {
   CACHE_OPTIONS_METADATA,
   CACHE_EVICT_METADATA,
   CACHE_EVICT_ALL_METADATA,
+  CACHE_TAGS_METADATA,
 } from '../decorators/cache.decorator';
+import type { CacheTagsResolver } from '../decorators/cache.decorator';
 import { PinoLoggerService, LogContext } from '@aiofix/logging';
 
 /**
@@ -102,6 +104,10 @@ export class CacheInterceptor implements NestInterceptor {
       CACHE_EVICT_ALL_METADATA,
       handler,
     );
+    const cacheTags = this.reflector.get<CacheTagsResolver>(
+      CACHE_TAGS_METADATA,
+      handler,
+    );
 
     // 如果没有缓存配置，直接执行
     if (!cacheKey && !cacheEvict && !cacheEvictAll) {
@@ -123,6 +129,7 @@ export class CacheInterceptor implements NestInterceptor {
         cacheKey,
         cacheTtl,
         cacheOptions,
+        cacheTags,
       );
     }
 
@@ -165,12 +172,13 @@ export class CacheInterceptor implements NestInterceptor {
   /**
    * @private
    * @method handleCacheGetSet
-   * @description 处理缓存获取和设置
+   * @description 处理缓存获取和设置，缓存服务支持getOrLoad时通过它加载，热点键过期时只执行一次原始方法
    * @param next 下一个处理器
    * @param args 参数数组
    * @param cacheKey 缓存键
    * @param cacheTtl TTL
    * @param cacheOptions 缓存选项
+   * @param cacheTags 缓存标签
    * @returns Observable
    */
   private async handleCacheGetSet(
@@ -179,9 +187,22 @@ export class CacheInterceptor implements NestInterceptor {
     cacheKey: string | ((args: unknown[]) => string),
     cacheTtl?: number,
     cacheOptions?: Partial<CacheOptions>,
+    cacheTags?: CacheTagsResolver,
   ): Promise<Observable<unknown>> {
     const key = this.generateCacheKey(cacheKey, args);
     const ttl = cacheTtl || this.options.defaultTtl;
+    const tags = resolveCacheTags(cacheTags, args);
+
+    if (this.cacheService.getOrLoad) {
+      // 原始方法的错误直接抛给调用方，缓存读写错误由缓存服务内部处理
+      return from(
+        this.cacheService.getOrLoad(
+          key,
+          () => lastValueFrom(next.handle(), { defaultValue: undefined }),
+          { ttl, tags, ...cacheOptions },
+        ),
+      );
+    }
 
     try {
       // 尝试从缓存获取
@@ -204,6 +225,7 @@ export class CacheInterceptor implements NestInterceptor {
             this.cacheService
               .set(key, data, {
                 ttl,
+                tags,
                 ...cacheOptions,
               })
               .then(() => {
@@ -428,6 +450,11 @@ export class CacheSetInterceptor implements NestInterceptor {
       handler,
     );
 
+    const cacheTags = this.reflector.get<CacheTagsResolver>(
+      CACHE_TAGS_METADATA,
+      handler,
+    );
+
     if (!cacheKey) {
       return next.handle();
     }
@@ -435,12 +462,13 @@ export class CacheSetInterceptor implements NestInterceptor {
     const args = this.getArguments(context);
     const key = this.generateCacheKey(cacheKey, args);
     const ttl = cacheTtl || 3600000; // 默认1小时
+    const tags = resolveCacheTags(cacheTags, args);
 
     return next.handle().pipe(
       tap(data => {
         if (data !== null && data !== undefined) {
           this.cacheService
-            .set(key, data, { ttl, ...cacheOptions })
+            .set(key, data, { ttl, tags, ...cacheOptions })
             .then(() => {
               this.logger.debug(`Cache set: ${key.key}`, LogContext.CACHE);
             })
@@ -475,3 +503,17 @@ export class CacheSetInterceptor implements NestInterceptor {
     return this.keyFactory.create(keyString);
   }
 }
+
+/**
+ * @function resolveCacheTags
+ * @description 按方法参数解析缓存标签
+ * @param cacheTags 标签或标签生成函数
+ * @param args 参数数组
+ * @returns 标签列表，未配置时返回undefined
+ */
+function resolveCacheTags(
+  cacheTags: CacheTagsResolver | undefined,
+  args: unknown[],
+): string[] | undefined {
+  return typeof cacheTags === 'function' ? cacheTags(args) : cacheTags;
+}
@@ -19,6 +19,12 @@ export enum CacheStrategy {
   TTL = 'ttl', // 基于时间过期
 }
 
+/**
+ * @type CacheSerializer
+ * @description 缓存值序列化格式：json与旧条目兼容；structured使用结构化克隆，保留Date、Map、Set、BigInt
+ */
+export type CacheSerializer = 'json' | 'structured';
+
 /**
  * @interface CacheOptions
  * @description 缓存选项接口
@@ -32,16 +38,28 @@ export interface CacheOptions {
   ttl?: number;
   /** 最大缓存项数量 */
   maxSize?: number;
-  /** 是否启用压缩 */
+  /** 是否压缩，不设置时按编解码配置的阈值判断 */
   compress?: boolean;
-  /** 是否启用加密 */
+  /** 是否加密，不设置时按编解码配置的命名空间判断 */
   encrypt?: boolean;
+  /** 序列化格式，不设置时使用编解码配置 */
+  serializer?: CacheSerializer;
   /** 重试次数 */
   retries?: number;
   /** 重试延迟（毫秒） */
   retryDelay?: number;
   /** 连接超时（毫秒） */
   timeout?: number;
+  /** 失效标签，如 tenant:t1、role:r1，与键上的标签一起写入标签索引 */
+  tags?: string[];
+  /** 过期后继续返回旧值的宽限期（毫秒），期间getOrLoad在后台刷新 */
+  staleWhileRevalidate?: number;
+  /** 概率提前过期系数（XFetch的beta），大于0时getOrLoad在临近过期时按概率提前刷新 */
+  earlyExpiryBeta?: number;
+  /** getOrLoad分布式锁的持有时间和等待上限（毫秒） */
+  lockTimeout?: number;
+  /** 加载耗时（毫秒），由getOrLoad写入，用于概率提前过期 */
+  loadTime?: number;
 }
 
 /**
@@ -74,6 +92,10 @@ export interface CacheValue<T = unknown> {
   createdAt: number;
   /** 过期时间 */
   expiresAt?: number;
+  /** 新鲜期截止时间，设置了staleWhileRevalidate时之后到expiresAt之间为旧值 */
+  staleAt?: number;
+  /** 加载耗时（毫秒） */
+  loadTime?: number;
   /** 访问次数 */
   accessCount: number;
   /** 最后访问时间 */
@@ -141,6 +163,39 @@ export interface CacheHealth {
   lastCheck: number;
 }
 
+/**
+ * @interface CacheScanProgress
+ * @description 按模式删除的进度
+ */
+export interface CacheScanProgress {
+  /** 已扫描到的匹配键数量 */
+  scanned: number;
+  /** 已删除的键数量 */
+  deleted: number;
+}
+
+/**
+ * @interface CacheScanResult
+ * @description 按模式删除的结果
+ */
+export interface CacheScanResult extends CacheScanProgress {
+  /** 是否在扫描完成前被中止 */
+  aborted: boolean;
+}
+
+/**
+ * @interface CacheScanOptions
+ * @description 按模式删除的选项
+ */
+export interface CacheScanOptions {
+  /** 每次扫描的键数量提示，也是每批删除的大致键数 */
+  batchSize?: number;
+  /** 中止信号，触发后在当前批次删除完成后停止 */
+  signal?: AbortSignal;
+  /** 每删除一批后回调 */
+  onProgress?: (progress: CacheScanProgress) => void;
+}
+
 /**
  * @interface ICacheService
  * @description 缓存服务接口
@@ -154,6 +209,46 @@ export interface ICacheService {
    */
   get<T = unknown>(key: CacheKey): Promise<T | null>;
 
+  /**
+   * @method getEntry
+   * @description 获取包含过期信息的缓存条目（可选实现）
+   * @param {CacheKey} key 缓存键
+   * @returns {Promise<CacheValue<T> | null>} 缓存条目或null
+   */
+  getEntry?<T = unknown>(key: CacheKey): Promise<CacheValue<T> | null>;
+
+  /**
+   * @method getOrLoad
+   * @description 获取缓存值，未命中时用loader加载并写入缓存，同一个键的并发加载只执行一次（可选实现）
+   * @param {CacheKey} key 缓存键
+   * @param {() => Promise<T>} loader 加载函数
+   * @param {Partial<CacheOptions>} options 缓存选项
+   * @returns {Promise<T>} 缓存值或加载结果
+   */
+  getOrLoad?<T = unknown>(
+    key: CacheKey,
+    loader: () => Promise<T>,
+    options?: Partial<CacheOptions>,
+  ): Promise<T>;
+
+  /**
+   * @method acquireLock
+   * @description 获取键的分布式加载锁（可选实现）
+   * @param {CacheKey} key 缓存键
+   * @param {number} ttl 锁持有时间（毫秒）
+   * @returns {Promise<string | null>} 锁令牌，锁被占用时返回null
+   */
+  acquireLock?(key: CacheKey, ttl: number): Promise<string | null>;
+
+  /**
+   * @method releaseLock
+   * @description 释放分布式加载锁，只有持有令牌的一方能释放（可选实现）
+   * @param {CacheKey} key 缓存键
+   * @param {string} token 锁令牌
+   * @returns {Promise<boolean>} 是否释放
+   */
+  releaseLock?(key: CacheKey, token: string): Promise<boolean>;
+
   /**
    * @method set
    * @description 设置缓存值
@@ -192,6 +287,26 @@ export interface ICacheService {
    */
   clear(namespace?: string): Promise<boolean>;
 
+  /**
+   * @method deleteByPattern
+   * @description 按glob模式分批删除缓存键，删除过程中不阻塞其他缓存操作（可选实现）
+   * @param {string} pattern 键字符串的glob模式，如 "v1:{user}:tenant:t1:*"
+   * @param {CacheScanOptions} options 扫描选项
+   * @returns {Promise<CacheScanResult>} 删除结果
+   */
+  deleteByPattern?(
+    pattern: string,
+    options?: CacheScanOptions,
+  ): Promise<CacheScanResult>;
+
+  /**
+   * @method invalidateByTag
+   * @description 原子地删除带有指定标签的所有缓存键及该标签的索引（可选实现）
+   * @param {string} tag 标签
+   * @returns {Promise<number>} 删除的键数量
+   */
+  invalidateByTag?(tag: string): Promise<number>;
+
   /**
    * @method getStats
    * @description 获取缓存统计
@@ -366,6 +481,22 @@ export interface ICacheKeyFactory {
    * @returns {CacheKey} 缓存键
    */
   parse(keyString: string): CacheKey;
+
+  /**
+   * @method createNamespacePattern
+   * @description 创建匹配命名空间下所有键（任意版本）的模式
+   * @param {string} namespace 命名空间
+   * @returns {string} 模式字符串
+   */
+  createNamespacePattern(namespace: string): string;
+
+  /**
+   * @method createTagKey
+   * @description 创建标签索引键，索引中保存带有该标签的缓存键
+   * @param {string} tag 标签
+   * @returns {string} 标签索引键
+   */
+  createTagKey(tag: string): string;
 }
 
 /**
@@ -470,6 +601,8 @@ export interface RedisConfig {
   sentinels?: Array<{ host: string; port: number }>;
   /** 主节点名称 */
   name?: string;
+  /** 按模式删除时每次SCAN的COUNT */
+  scanCount?: number;
 }
 
 /**
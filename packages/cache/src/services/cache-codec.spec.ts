@@ -0,0 +1,148 @@
+import { describe, it, expect } from '@jest/globals';
+import { CacheCodec } from './cache-codec';
+import type { CacheKey, CacheValue } from '../interfaces/cache.interface';
+
+describe('CacheCodec', () => {
+  const key1 = Buffer.alloc(32, 1).toString('base64');
+  const key2 = Buffer.alloc(32, 2).toString('base64');
+  const sessionKey: CacheKey = {
+    key: 's1',
+    namespace: 'session',
+    tenantId: 't1',
+  };
+
+  const entryOf = <T>(value: T): CacheValue<T> => ({
+    value,
+    createdAt: 1000,
+    accessCount: 0,
+    lastAccessed: 1000,
+  });
+
+  it('should keep plain JSON entries readable without a header', async () => {
+    const codec = new CacheCodec();
+    const entry = entryOf({ data: 'test-data' });
+
+    const encoded = await codec.encode(entry, { key: 'k' }, 'test:k');
+
+    expect(encoded).toBe(JSON.stringify(entry));
+    await expect(
+      codec.decode(encoded, { key: 'k' }, 'test:k'),
+    ).resolves.toEqual({ entry, options: {} });
+  });
+
+  it('should preserve rich types with the structured serializer', async () => {
+    const codec = new CacheCodec({ serializer: 'structured' });
+    const value = {
+      at: new Date(5000),
+      roles: new Map([['admin', new Set(['read'])]]),
+      quota: 10n,
+    };
+
+    const encoded = await codec.encode(entryOf(value), { key: 'k' }, 'test:k');
+    const { entry, options } = await codec.decode<typeof value>(
+      encoded,
+      { key: 'k' },
+      'test:k',
+    );
+
+    // v8反序列化的对象属于Jest沙箱外的上下文，按方法断言而不是toEqual
+    expect(entry.value.at.getTime()).toBe(5000);
+    expect(entry.value.roles.get('admin')?.has('read')).toBe(true);
+    expect(entry.value.quota).toBe(10n);
+    expect(options).toEqual({ serializer: 'structured', compress: false });
+  });
+
+  it('should compress values at or above the threshold', async () => {
+    const large = entryOf('x'.repeat(4096));
+    const small = entryOf('x');
+
+    for (const compression of ['gzip', 'brotli'] as const) {
+      const codec = new CacheCodec({ compression, compressionThreshold: 1024 });
+
+      const encoded = await codec.encode(large, { key: 'k' }, 'test:k');
+      expect(Buffer.byteLength(encoded)).toBeLessThan(1024);
+      await expect(
+        codec.decode(encoded, { key: 'k' }, 'test:k'),
+      ).resolves.toEqual({
+        entry: large,
+        options: { serializer: 'json', compress: true },
+      });
+      expect(await codec.encode(small, { key: 'k' }, 'test:k')).toBe(
+        JSON.stringify(small),
+      );
+      expect(
+        await codec.encode(large, { key: 'k' }, 'test:k', { compress: false }),
+      ).toBe(JSON.stringify(large));
+    }
+  });
+
+  it('should encrypt sensitive namespaces with per-tenant keys', async () => {
+    const codec = new CacheCodec({
+      encryption: {
+        keys: { k1: key1 },
+        currentKeyId: 'k1',
+        namespaces: ['session'],
+      },
+    });
+    const entry = entryOf({ token: 'secret-token' });
+
+    const encoded = await codec.encode(entry, sessionKey, 'test:s1');
+
+    expect(Buffer.isBuffer(encoded)).toBe(true);
+    expect(encoded.toString('latin1')).not.toContain('secret-token');
+    await expect(codec.decode(encoded, sessionKey, 'test:s1')).resolves.toEqual(
+      {
+        entry,
+        options: { serializer: 'json', compress: false, encrypt: true },
+      },
+    );
+    await expect(
+      codec.decode(encoded, { ...sessionKey, tenantId: 't2' }, 'test:s1'),
+    ).rejects.toThrow();
+    await expect(
+      codec.decode(encoded, sessionKey, 'test:s2'),
+    ).rejects.toThrow();
+    expect(
+      await codec.encode(entry, { key: 'p1', namespace: 'public' }, 'test:p1'),
+    ).toBe(JSON.stringify(entry));
+  });
+
+  it('should read entries written with a rotated key', async () => {
+    const entry = entryOf('value');
+    const before = new CacheCodec({
+      encryption: { keys: { k1: key1 }, currentKeyId: 'k1' },
+    });
+    const after = new CacheCodec({
+      encryption: { keys: { k1: key1, k2: key2 }, currentKeyId: 'k2' },
+    });
+
+    const encoded = await before.encode(entry, sessionKey, 'test:s1');
+
+    await expect(after.decode(encoded, sessionKey, 'test:s1')).resolves.toEqual(
+      {
+        entry,
+        options: { serializer: 'json', compress: false, encrypt: true },
+      },
+    );
+    await expect(
+      new CacheCodec({
+        encryption: { keys: { k2: key2 }, currentKeyId: 'k2' },
+      }).decode(encoded, sessionKey, 'test:s1'),
+    ).rejects.toThrow('Cache encryption key not found: k1');
+  });
+
+  it('should reject invalid encryption configuration', () => {
+    expect(
+      () =>
+        new CacheCodec({
+          encryption: { keys: { k1: 'c2hvcnQ=' }, currentKeyId: 'k1' },
+        }),
+    ).toThrow('Invalid cache encryption key: k1');
+    expect(
+      () =>
+        new CacheCodec({
+          encryption: { keys: { k1: key1 }, currentKeyId: 'k2' },
+        }),
+    ).toThrow('Cache encryption key not found: k2');
+  });
+});
@@ -0,0 +1,360 @@
+/**
+ * @file cache-codec.ts
+ * @description 缓存值编解码
+ *
+ * 该文件实现了Redis缓存值的编解码管道，包括：
+ * - JSON或结构化克隆（v8）序列化
+ * - 超过阈值时gzip或brotli压缩
+ * - 按租户派生密钥的AES-256-GCM加密
+ * - 编码头，旧的纯JSON条目仍可读取
+ */
+
+import {
+  createCipheriv,
+  createDecipheriv,
+  hkdfSync,
+  randomBytes,
+} from 'crypto';
+import { promisify } from 'util';
+import { deserialize, serialize } from 'v8';
+import { brotliCompress, brotliDecompress, gunzip, gzip } from 'zlib';
+import type {
+  CacheKey,
+  CacheOptions,
+  CacheSerializer,
+  CacheValue,
+} from '../interfaces/cache.interface';
+
+/**
+ * @type CacheCompression
+ * @description 压缩算法
+ */
+export type CacheCompression = 'gzip' | 'brotli';
+
+/**
+ * @interface CacheEncryptionConfig
+ * @description 缓存加密配置接口
+ */
+export interface CacheEncryptionConfig {
+  /** 主密钥，键为密钥ID，值为base64编码的32字节密钥；轮换时保留旧密钥以读取旧条目 */
+  keys: Record<string, string>;
+  /** 写入时使用的密钥ID */
+  currentKeyId: string;
+  /** 需要加密的命名空间，不设置时加密所有条目 */
+  namespaces?: string[];
+}
+
+/**
+ * @interface CacheCodecConfig
+ * @description 缓存编解码配置接口
+ */
+export interface CacheCodecConfig {
+  /** 序列化格式，默认json */
+  serializer?: CacheSerializer;
+  /** 压缩算法，不设置时不压缩 */
+  compression?: CacheCompression;
+  /** 序列化后达到该字节数才压缩 */
+  compressionThreshold?: number;
+  /** 加密配置，不设置时不加密 */
+  encryption?: CacheEncryptionConfig;
+}
+
+/**
+ * @type CacheCodecOptions
+ * @description 单次写入的编码选项；decode返回条目的原编码选项，重新写入时不会降级
+ */
+export type CacheCodecOptions = Pick<
+  CacheOptions,
+  'serializer' | 'compress' | 'encrypt'
+>;
+
+/** 编码头的魔数，纯JSON条目以{开头，不会与之冲突 */
+const MAGIC = Buffer.from([0x00, 0x63]);
+
+/** 编码头版本 */
+const VERSION = 1;
+
+/** 固定部分长度：魔数、版本、序列化格式、压缩算法、密钥ID长度 */
+const HEADER_LENGTH = MAGIC.length + 4;
+
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+const KEY_LENGTH = 32;
+
+/** 默认压缩阈值（字节） */
+const DEFAULT_COMPRESSION_THRESHOLD = 1024;
+
+const SERIALIZERS: CacheSerializer[] = ['json', 'structured'];
+const COMPRESSIONS: Array<CacheCompression | undefined> = [
+  undefined,
+  'gzip',
+  'brotli',
+];
+
+const compressors = {
+  gzip: promisify(gzip),
+  brotli: promisify(brotliCompress),
+};
+
+const decompressors = {
+  gzip: promisify(gunzip),
+  brotli: promisify(brotliDecompress),
+};
+
+/**
+ * @class CacheCodec
+ * @description
+ * 把缓存条目编码为Redis中存储的值。
+ *
+ * 流程：序列化 → 压缩 → 加密。不需要任何处理的JSON条目仍按纯JSON字符串写入，
+ * 未升级的实例可以继续读取；其他条目写入编码头：
+ *
+ * 魔数(2) | 版本(1) | 序列化格式(1) | 压缩算法(1) | 密钥ID长度(1) | 密钥ID | IV(12) | 认证标签(16) | 数据
+ *
+ * 没有加密时密钥ID长度为0，也没有IV和认证标签。加密密钥由主密钥按租户用HKDF派生，
+ * 编码头和Redis键作为附加认证数据，密文不能被复制到其他键或租户下解密。
+ *
+ * 结构化克隆保留Date、Map、Set、BigInt等类型，但与JSON一样不保留类的原型。
+ */
+export class CacheCodec {
+  private readonly masterKeys = new Map<string, Buffer>();
+  private readonly derivedKeys = new Map<string, Buffer>();
+
+  /**
+   * @param config 编解码配置
+   * @throws {Error} 加密密钥长度不正确或currentKeyId不存在时抛出
+   */
+  constructor(private readonly config: CacheCodecConfig = {}) {
+    const encryption = config.encryption;
+    if (!encryption) {
+      return;
+    }
+
+    for (const [keyId, key] of Object.entries(encryption.keys)) {
+      const bytes = Buffer.from(key, 'base64');
+      if (bytes.length !== KEY_LENGTH || Buffer.byteLength(keyId) > 255) {
+        throw new Error(`Invalid cache encryption key: ${keyId}`);
+      }
+      this.masterKeys.set(keyId, bytes);
+    }
+    if (!this.masterKeys.has(encryption.currentKeyId)) {
+      throw new Error(
+        `Cache encryption key not found: ${encryption.currentKeyId}`,
+      );
+    }
+  }
+
+  /**
+   * @method encode
+   * @description 编码缓存条目
+   * @param entry 缓存条目
+   * @param key 缓存键，用于选择是否加密和派生租户密钥
+   * @param keyString Redis键
+   * @param options 单次写入的编码选项，覆盖配置
+   * @returns 纯JSON字符串或带编码头的二进制数据
+   * @throws {Error} 要求加密但没有配置加密密钥时抛出
+   */
+  async encode<T>(
+    entry: CacheValue<T>,
+    key: CacheKey,
+    keyString: string,
+    options?: CacheCodecOptions,
+  ): Promise<string | Buffer> {
+    const serializer = options?.serializer ?? this.config.serializer ?? 'json';
+    let payload =
+      serializer === 'json'
+        ? Buffer.from(JSON.stringify(entry), 'utf8')
+        : serialize(entry);
+
+    const compression = this.selectCompression(payload.length, options);
+    if (compression) {
+      payload = await compressors[compression](payload);
+    }
+
+    const encrypt = options?.encrypt ?? this.shouldEncrypt(key);
+    if (serializer === 'json' && !compression && !encrypt) {
+      return payload.toString('utf8');
+    }
+
+    const keyId = encrypt ? this.getCurrentKeyId() : '';
+    const header = Buffer.concat([
+      MAGIC,
+      Buffer.from([
+        VERSION,
+        SERIALIZERS.indexOf(serializer),
+        COMPRESSIONS.indexOf(compression),
+        Buffer.byteLength(keyId),
+      ]),
+      Buffer.from(keyId, 'utf8'),
+    ]);
+    if (!encrypt) {
+      return Buffer.concat([header, payload]);
+    }
+
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv(
+      'aes-256-gcm',
+      this.getKey(keyId, key.tenantId),
+      iv,
+    );
+    cipher.setAAD(Buffer.concat([header, Buffer.from(keyString, 'utf8')]));
+    const ciphertext = Buffer.concat([cipher.update(payload), cipher.final()]);
+    return Buffer.concat([header, iv, cipher.getAuthTag(), ciphertext]);
+  }
+
+  /**
+   * @method decode
+   * @description 解码缓存条目，没有编码头的数据按纯JSON解析
+   * @param data Redis中存储的值
+   * @param key 缓存键
+   * @param keyString Redis键
+   * @returns 缓存条目和它的编码选项
+   * @throws {Error} 编码头无法识别、密钥不存在或认证失败时抛出
+   */
+  async decode<T>(
+    data: Buffer | string,
+    key: CacheKey,
+    keyString: string,
+  ): Promise<{ entry: CacheValue<T>; options: CacheCodecOptions }> {
+    const buffer = typeof data === 'string' ? Buffer.from(data, 'utf8') : data;
+    if (!buffer.subarray(0, MAGIC.length).equals(MAGIC)) {
+      return {
+        entry: JSON.parse(buffer.toString('utf8')) as CacheValue<T>,
+        options: {},
+      };
+    }
+
+    const [version, serializerId, compressionId, keyIdLength] = buffer.subarray(
+      MAGIC.length,
+      HEADER_LENGTH,
+    );
+    const serializer = SERIALIZERS[serializerId];
+    const compression = COMPRESSIONS[compressionId];
+    if (
+      version !== VERSION ||
+      serializer === undefined ||
+      compressionId >= COMPRESSIONS.length
+    ) {
+      throw new Error(`Unsupported cache value encoding: ${keyString}`);
+    }
+
+    const headerEnd = HEADER_LENGTH + keyIdLength;
+    let payload = buffer.subarray(headerEnd);
+    if (keyIdLength > 0) {
+      const keyId = buffer.toString('utf8', HEADER_LENGTH, headerEnd);
+      const decipher = createDecipheriv(
+        'aes-256-gcm',
+        this.getKey(keyId, key.tenantId),
+        payload.subarray(0, IV_LENGTH),
+      );
+      decipher.setAAD(
+        Buffer.concat([
+          buffer.subarray(0, headerEnd),
+          Buffer.from(keyString, 'utf8'),
+        ]),
+      );
+      decipher.setAuthTag(
+        payload.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH),
+      );
+      payload = Buffer.concat([
+        decipher.update(payload.subarray(IV_LENGTH + AUTH_TAG_LENGTH)),
+        decipher.final(),
+      ]);
+    }
+
+    if (compression) {
+      payload = await decompressors[compression](payload);
+    }
+
+    return {
+      entry:
+        serializer === 'json'
+          ? (JSON.parse(payload.toString('utf8')) as CacheValue<T>)
+          : (deserialize(payload) as CacheValue<T>),
+      options: {
+        serializer,
+        compress: compression !== undefined,
+        // 未加密的条目由配置决定，重新写入时可以按新配置加密
+        encrypt: keyIdLength > 0 ? true : undefined,
+      },
+    };
+  }
+
+  /**
+   * @private
+   * @method selectCompression
+   * @description 选择压缩算法：compress为true时总是压缩，未指定时按阈值判断
+   */
+  private selectCompression(
+    size: number,
+    options?: CacheCodecOptions,
+  ): CacheCompression | undefined {
+    if (options?.compress === false) {
+      return undefined;
+    }
+    if (options?.compress) {
+      return this.config.compression ?? 'gzip';
+    }
+    const threshold =
+      this.config.compressionThreshold ?? DEFAULT_COMPRESSION_THRESHOLD;
+    return size >= threshold ? this.config.compression : undefined;
+  }
+
+  /**
+   * @private
+   * @method shouldEncrypt
+   * @description 配置了加密且键的命名空间需要加密时返回true
+   */
+  private shouldEncrypt(key: CacheKey): boolean {
+    const encryption = this.config.encryption;
+    if (!encryption) {
+      return false;
+    }
+    return (
+      !encryption.namespaces ||
+      (key.namespace !== undefined &&
+        encryption.namespaces.includes(key.namespace))
+    );
+  }
+
+  /**
+   * @private
+   * @method getCurrentKeyId
+   * @description 获取写入使用的密钥ID
+   */
+  private getCurrentKeyId(): string {
+    if (!this.config.encryption) {
+      throw new Error('Cache encryption key is not configured');
+    }
+    return this.config.encryption.currentKeyId;
+  }
+
+  /**
+   * @private
+   * @method getKey
+   * @description 由主密钥按租户派生加密密钥，没有租户的键使用共享的派生密钥
+   */
+  private getKey(keyId: string, tenantId?: string): Buffer {
+    const id = `${keyId}:${tenantId ?? ''}`;
+    let key = this.derivedKeys.get(id);
+    if (key) {
+      return key;
+    }
+
+    const masterKey = this.masterKeys.get(keyId);
+    if (!masterKey) {
+      throw new Error(`Cache encryption key not found: ${keyId}`);
+    }
+    key = Buffer.from(
+      hkdfSync(
+        'sha256',
+        masterKey,
+        Buffer.alloc(0),
+        `cache:tenant:${tenantId ?? ''}`,
+        KEY_LENGTH,
+      ),
+    );
+    this.derivedKeys.set(id, key);
+    return key;
+  }
+}
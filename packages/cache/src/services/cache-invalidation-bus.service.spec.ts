@@ -0,0 +1,134 @@
+import { describe, it, beforeEach, expect, jest } from '@jest/globals';
+import { CacheInvalidationBus } from './cache-invalidation-bus.service';
+import { RedisCacheService } from './redis-cache.service';
+import { MemoryCacheService } from './memory-cache.service';
+import { PinoLoggerService } from '@aiofix/logging';
+
+const flushMessages = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('CacheInvalidationBus', () => {
+  let redisCache: jest.Mocked<RedisCacheService>;
+  let memoryCache: jest.Mocked<MemoryCacheService>;
+  let logger: jest.Mocked<PinoLoggerService>;
+  let onMessage: (message: string) => void;
+  let onReconnect: () => void;
+  let unsubscribe: jest.Mock<() => Promise<void>>;
+  let bus: CacheInvalidationBus;
+
+  beforeEach(async () => {
+    unsubscribe = jest.fn(async () => undefined);
+    redisCache = {
+      publish: jest.fn(async () => 1),
+      subscribe: jest.fn(
+        async (
+          _channel: string,
+          message: (message: string) => void,
+          reconnect?: () => void,
+        ) => {
+          onMessage = message;
+          onReconnect = reconnect ?? (() => undefined);
+          return unsubscribe;
+        },
+      ),
+    } as unknown as jest.Mocked<RedisCacheService>;
+    memoryCache = {
+      delete: jest.fn(async () => true),
+      clear: jest.fn(async () => true),
+      invalidateByTag: jest.fn(async () => 1),
+      deleteByPattern: jest.fn(async () => ({
+        scanned: 1,
+        deleted: 1,
+        aborted: false,
+      })),
+    } as unknown as jest.Mocked<MemoryCacheService>;
+    logger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+    } as unknown as jest.Mocked<PinoLoggerService>;
+
+    bus = new CacheInvalidationBus(
+      { channel: 'test:invalidation' },
+      redisCache,
+      memoryCache,
+      logger,
+    );
+    await bus.onApplicationBootstrap();
+  });
+
+  it('should publish messages tagged with the instance id', async () => {
+    await bus.publish({ type: 'tag', tag: 'user:1' });
+
+    expect(redisCache.subscribe).toHaveBeenCalledWith(
+      'test:invalidation',
+      expect.any(Function),
+      expect.any(Function),
+    );
+    expect(redisCache.publish).toHaveBeenCalledWith(
+      'test:invalidation',
+      JSON.stringify({ type: 'tag', tag: 'user:1', origin: bus.instanceId }),
+    );
+  });
+
+  it('should ignore messages published by itself', async () => {
+    onMessage(
+      JSON.stringify({
+        type: 'key',
+        key: { key: 'user:1' },
+        origin: bus.instanceId,
+      }),
+    );
+    await flushMessages();
+
+    expect(memoryCache.delete).not.toHaveBeenCalled();
+  });
+
+  it('should evict local entries for messages from other instances', async () => {
+    const origin = 'other-instance';
+    onMessage(JSON.stringify({ type: 'key', key: { key: 'user:1' }, origin }));
+    onMessage(JSON.stringify({ type: 'tag', tag: 'user:1', origin }));
+    onMessage(
+      JSON.stringify({ type: 'namespace', namespace: 'users', origin }),
+    );
+    onMessage(JSON.stringify({ type: 'pattern', pattern: 'user:*', origin }));
+    onMessage(JSON.stringify({ type: 'clear', origin }));
+    onMessage('not-json');
+    await flushMessages();
+
+    expect(memoryCache.delete).toHaveBeenCalledWith({ key: 'user:1' });
+    expect(memoryCache.invalidateByTag).toHaveBeenCalledWith('user:1');
+    expect(memoryCache.clear).toHaveBeenCalledWith('users');
+    expect(memoryCache.deleteByPattern).toHaveBeenCalledWith('user:*');
+    expect(memoryCache.clear).toHaveBeenCalledWith();
+    expect(logger.warn).toHaveBeenCalledTimes(1);
+    expect(redisCache.publish).not.toHaveBeenCalled();
+  });
+
+  it('should clear the local cache after the subscriber reconnects', async () => {
+    onReconnect();
+    await flushMessages();
+
+    expect(memoryCache.clear).toHaveBeenCalledWith();
+  });
+
+  it('should not subscribe or publish when disabled', async () => {
+    const disabled = new CacheInvalidationBus(
+      { enabled: false },
+      redisCache,
+      memoryCache,
+      logger,
+    );
+    redisCache.subscribe.mockClear();
+
+    await disabled.onApplicationBootstrap();
+    await disabled.publish({ type: 'clear' });
+
+    expect(redisCache.subscribe).not.toHaveBeenCalled();
+    expect(redisCache.publish).not.toHaveBeenCalled();
+  });
+
+  it('should unsubscribe on module destroy', async () => {
+    await bus.onModuleDestroy();
+
+    expect(unsubscribe).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * @file cache-invalidation-bus.service.ts
+ * @description 缓存失效广播
+ *
+ * 该文件实现了多实例之间的L1缓存一致性，包括：
+ * - 通过Redis频道广播键、标签、命名空间和模式失效
+ * - 收到其他实例的广播后从本地内存缓存中删除
+ * - 忽略自己发布的消息
+ * - 订阅连接重连后清空本地内存缓存
+ */
+
+import {
+  Injectable,
+  Inject,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import type { CacheKey } from '../interfaces/cache.interface';
+import { RedisCacheService } from './redis-cache.service';
+import { MemoryCacheService } from './memory-cache.service';
+import { PinoLoggerService, LogContext } from '@aiofix/logging';
+
+/**
+ * @interface CacheInvalidationBusConfig
+ * @description 缓存失效广播配置接口
+ */
+export interface CacheInvalidationBusConfig {
+  /** 是否启用广播 */
+  enabled?: boolean;
+  /** Redis频道 */
+  channel?: string;
+}
+
+/**
+ * @type CacheInvalidationMessage
+ * @description 失效消息
+ */
+export type CacheInvalidationMessage =
+  | { type: 'key'; key: CacheKey }
+  | { type: 'tag'; tag: string }
+  | { type: 'namespace'; namespace: string }
+  | { type: 'pattern'; pattern: string }
+  | { type: 'clear' };
+
+/**
+ * @type CacheInvalidationEnvelope
+ * @description 频道上传输的失效消息，带发布实例标识
+ */
+type CacheInvalidationEnvelope = CacheInvalidationMessage & {
+  /** 发布实例标识 */
+  origin: string;
+};
+
+/**
+ * @class CacheInvalidationBus
+ * @description
+ * 缓存失效广播服务。
+ *
+ * 每个实例的CacheManagerService在L1（内存）之下共用L2（Redis），一个实例写入或删除后，
+ * 其他实例的L1仍保留旧值。本服务在写入、删除和失效后向Redis频道广播，其他实例收到后
+ * 只删除自己L1中的对应条目，L2已由发布方处理。
+ *
+ * 职责：
+ * 1. 发布：消息带本实例标识，发布失败只记录日志
+ * 2. 接收：忽略本实例发布的消息；直接操作MemoryCacheService，不会再次广播，避免循环
+ * 3. 对账：Redis发布订阅不保存消息，订阅连接重连后无法知道断线期间错过了哪些失效，
+ *    因此清空本地L1，之后从L2重新加载
+ */
+@Injectable()
+export class CacheInvalidationBus
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  /** 实例标识 */
+  readonly instanceId = randomUUID();
+
+  private readonly config: Required<CacheInvalidationBusConfig>;
+  private unsubscribe?: () => Promise<void>;
+
+  constructor(
+    @Inject('CACHE_INVALIDATION_BUS_CONFIG') config: CacheInvalidationBusConfig,
+    private readonly redisCache: RedisCacheService,
+    private readonly memoryCache: MemoryCacheService,
+    @Inject(PinoLoggerService) private readonly logger: PinoLoggerService,
+  ) {
+    this.config = {
+      enabled: true,
+      channel: 'cache:invalidation',
+      ...config,
+    };
+  }
+
+  /**
+   * @method onApplicationBootstrap
+   * @description 在Redis连接建立后订阅失效频道
+   */
+  async onApplicationBootstrap(): Promise<void> {
+    if (!this.config.enabled) {
+      return;
+    }
+
+    this.unsubscribe = await this.redisCache.subscribe(
+      this.config.channel,
+      message => void this.handleMessage(message),
+      () => void this.reconcile(),
+    );
+    this.logger.info(
+      `Cache invalidation bus subscribed: ${this.config.channel}`,
+      LogContext.CACHE,
+    );
+  }
+
+  /**
+   * @method onModuleDestroy
+   * @description 取消订阅
+   */
+  async onModuleDestroy(): Promise<void> {
+    await this.unsubscribe?.();
+    this.unsubscribe = undefined;
+  }
+
+  /**
+   * @method publish
+   * @description 广播失效消息
+   * @param message 失效消息
+   */
+  async publish(message: CacheInvalidationMessage): Promise<void> {
+    if (!this.config.enabled) {
+      return;
+    }
+
+    const envelope: CacheInvalidationEnvelope = {
+      ...message,
+      origin: this.instanceId,
+    };
+    try {
+      await this.redisCache.publish(
+        this.config.channel,
+        JSON.stringify(envelope),
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Failed to publish cache invalidation: ${message.type}`,
+        LogContext.CACHE,
+        undefined,
+        error as Error,
+      );
+    }
+  }
+
+  /**
+   * @private
+   * @method handleMessage
+   * @description 处理其他实例的失效消息，从本地L1中删除对应条目
+   * @param raw 消息JSON
+   */
+  private async handleMessage(raw: string): Promise<void> {
+    let envelope: CacheInvalidationEnvelope;
+    try {
+      envelope = JSON.parse(raw) as CacheInvalidationEnvelope;
+    } catch (error) {
+      this.logger.warn(
+        'Malformed cache invalidation message',
+        LogContext.CACHE,
+        undefined,
+        error as Error,
+      );
+      return;
+    }
+
+    // 本实例发布的消息，本地L1已在写入时更新
+    if (envelope.origin === this.instanceId) {
+      return;
+    }
+
+    try {
+      switch (envelope.type) {
+        case 'key':
+          await this.memoryCache.delete(envelope.key);
+          break;
+        case 'tag':
+          await this.memoryCache.invalidateByTag(envelope.tag);
+          break;
+        case 'namespace':
+          await this.memoryCache.clear(envelope.namespace);
+          break;
+        case 'pattern':
+          await this.memoryCache.deleteByPattern(envelope.pattern);
+          break;
+        case 'clear':
+          await this.memoryCache.clear();
+          break;
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Failed to apply cache invalidation: ${envelope.type}`,
+        LogContext.CACHE,
+        undefined,
+        error as Error,
+      );
+    }
+  }
+
+  /**
+   * @private
+   * @method reconcile
+   * @description 订阅重连后清空本地L1
+   */
+  private async reconcile(): Promise<void> {
+    this.logger.warn(
+      'Cache invalidation bus reconnected, clearing local memory cache',
+      LogContext.CACHE,
+    );
+    await this.memoryCache.clear();
+  }
+}
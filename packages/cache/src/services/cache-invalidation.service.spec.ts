@@ -8,7 +8,10 @@ import {
 } from './cache-invalidation.service';
 import { ICacheService } from '../interfaces/cache.interface';
 import { ICacheKeyFactory } from '../interfaces/cache.interface';
+import { CacheKeyFactory } from '../factories/cache-key.factory';
+import { CacheManagerService } from './cache-manager.service';
 import { CacheKey } from '../interfaces/cache.interface';
+import type { DomainEvent, IEventBus, IEventHandler } from '@aiofix/core';
 import { PinoLoggerService } from '@aiofix/logging';
 import {
   describe,
@@ -156,6 +159,14 @@ class MockCacheKeyFactory implements ICacheKeyFactory {
       namespace: parts.length > 1 ? parts[0] : undefined,
     };
   }
+
+  createNamespacePattern(namespace: string): string {
+    return `${namespace}:*`;
+  }
+
+  createTagKey(tag: string): string {
+    return `tag:{${tag}}`;
+  }
 }
 
 describe('CacheInvalidationService', () => {
@@ -384,6 +395,39 @@ describe('CacheInvalidationService', () => {
       expect(result.namespaces).toContain('test-namespace');
     });
 
+    it('should delete wildcard and prefix targets through deleteByPattern', async () => {
+      const deleteByPattern = jest.fn<
+        NonNullable<ICacheService['deleteByPattern']>
+      >(async () => ({
+        scanned: 2,
+        deleted: 2,
+        aborted: false,
+      }));
+      Object.assign(mockCacheService, { deleteByPattern });
+
+      const wildcard = await service.invalidate(
+        ['v1:{users}:tenant:*'],
+        InvalidationStrategy.WILDCARD,
+      );
+      const prefix = await service.invalidate(
+        ['v1:{users}:tenant:t[1]'],
+        InvalidationStrategy.PREFIX,
+      );
+
+      expect(wildcard.keys).toEqual(['v1:{users}:tenant:*']);
+      expect(prefix.namespaces).toEqual(['v1:{users}:tenant:t[1]']);
+      expect(deleteByPattern).toHaveBeenNthCalledWith(
+        1,
+        'v1:{users}:tenant:*',
+        { batchSize: 10 },
+      );
+      expect(deleteByPattern).toHaveBeenNthCalledWith(
+        2,
+        'v1:{users}:tenant:t\\[1\\]*',
+        { batchSize: 10 },
+      );
+    });
+
     it('should invalidate batch', async () => {
       const result = await service.invalidate(
         ['test-namespace:key1', 'test-namespace:key2', 'other-namespace:key3'],
@@ -474,6 +518,495 @@ describe('CacheInvalidationService', () => {
     });
   });
 
+  describe('event-driven invalidation', () => {
+    let handlers: Map<string, IEventHandler>;
+    let eventBus: jest.Mocked<IEventBus>;
+
+    /**
+     * @function createEvent
+     * @description 创建只包含规则所需字段的领域事件
+     */
+    const createEvent = (
+      eventType: string,
+      aggregateId: string,
+      data: Record<string, unknown> = {},
+    ) =>
+      ({
+        aggregateId,
+        getEventType: () => eventType,
+        toJSON: () => ({ aggregateId, ...data }),
+      }) as unknown as DomainEvent;
+
+    beforeEach(() => {
+      handlers = new Map();
+      eventBus = {
+        subscribe: jest.fn(
+          async (eventType: string, handler: IEventHandler) => {
+            handlers.set(eventType, handler);
+            return `sub-${eventType}`;
+          },
+        ),
+        unsubscribe: jest.fn(async () => undefined),
+      } as unknown as jest.Mocked<IEventBus>;
+    });
+
+    it('should subscribe once per event type, including rules added after start', async () => {
+      service.addRule({
+        name: 'user-profile',
+        strategy: InvalidationStrategy.EXACT,
+        pattern: 'users:${aggregateId}',
+        trigger: InvalidationTrigger.EVENT,
+        eventType: 'UserUpdated',
+        enabled: true,
+        priority: 1,
+      });
+      service.addRule({
+        name: 'user-permissions',
+        strategy: InvalidationStrategy.EXACT,
+        pattern: 'permissions:${aggregateId}',
+        trigger: InvalidationTrigger.EVENT,
+        eventType: 'UserUpdated',
+        enabled: true,
+        priority: 2,
+      });
+
+      await service.start(eventBus);
+      service.addRule({
+        name: 'role',
+        strategy: InvalidationStrategy.EXACT,
+        pattern: 'roles:${aggregateId}',
+        trigger: InvalidationTrigger.EVENT,
+        eventType: 'RoleUpdated',
+        enabled: true,
+        priority: 1,
+      });
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(eventBus.subscribe).toHaveBeenCalledTimes(2);
+      expect([...handlers.keys()]).toEqual(['UserUpdated', 'RoleUpdated']);
+
+      await service.stop();
+      expect(eventBus.unsubscribe).toHaveBeenCalledWith('sub-UserUpdated');
+      expect(eventBus.unsubscribe).toHaveBeenCalledWith('sub-RoleUpdated');
+    });
+
+    it('should invalidate through the cache manager and subscribe the module event bus on init', async () => {
+      const cacheManager = new MockCacheService();
+      const moduleService = new CacheInvalidationService(
+        mockConfig,
+        mockKeyFactory,
+        mockEventEmitter,
+        mockLogger,
+        cacheManager as unknown as CacheManagerService,
+        eventBus,
+      );
+      moduleService.addRule({
+        name: 'user-profile',
+        strategy: InvalidationStrategy.EXACT,
+        pattern: 'users:${aggregateId}',
+        trigger: InvalidationTrigger.EVENT,
+        eventType: 'UserUpdated',
+        enabled: true,
+        priority: 1,
+      });
+      const key = mockKeyFactory.create('user-1', { namespace: 'users' });
+      await cacheManager.set(key, 'profile');
+
+      await moduleService.onModuleInit();
+      await handlers
+        .get('UserUpdated')!
+        .handle(createEvent('UserUpdated', 'user-1'));
+
+      expect(await cacheManager.exists(key)).toBe(false);
+
+      await moduleService.onModuleDestroy();
+      expect(eventBus.unsubscribe).toHaveBeenCalledWith('sub-UserUpdated');
+    });
+
+    it('should invalidate keys interpolated from event fields and count rule hits', async () => {
+      service.addRule({
+        id: 'user-profile',
+        name: 'user-profile',
+        strategy: InvalidationStrategy.EXACT,
+        pattern: 'users:${aggregateId}',
+        trigger: InvalidationTrigger.EVENT,
+        eventType: 'UserUpdated',
+        enabled: true,
+        priority: 1,
+      });
+      await mockCacheService.set(
+        mockKeyFactory.create('user-1', { namespace: 'users' }),
+        'profile',
+      );
+      await mockCacheService.set(
+        mockKeyFactory.create('user-2', { namespace: 'users' }),
+        'profile',
+      );
+      await service.start(eventBus);
+
+      await handlers
+        .get('UserUpdated')!
+        .handle(createEvent('UserUpdated', 'user-1'));
+
+      expect(
+        await mockCacheService.exists(
+          mockKeyFactory.create('user-1', { namespace: 'users' }),
+        ),
+      ).toBe(false);
+      expect(
+        await mockCacheService.exists(
+          mockKeyFactory.create('user-2', { namespace: 'users' }),
+        ),
+      ).toBe(true);
+      expect(service.getStats().ruleHits).toEqual({ 'user-profile': 1 });
+      expect(service.getStats().triggerUsage[InvalidationTrigger.EVENT]).toBe(
+        1,
+      );
+    });
+
+    it('should keep hash tags when invalidating keys built by CacheKeyFactory', async () => {
+      const keyFactory = new CacheKeyFactory();
+      const keyService = new CacheInvalidationService(
+        mockConfig,
+        keyFactory,
+        mockEventEmitter,
+        mockLogger,
+      );
+      keyService.setCacheService(mockCacheService);
+      const userKey = keyFactory.create('user-1', {
+        namespace: 'users',
+        tenantId: 'tenant-1',
+      });
+      await mockCacheService.set(userKey, 'profile');
+      const deleteKey = jest.spyOn(mockCacheService, 'delete');
+      keyService.addRule({
+        name: 'user-profile',
+        strategy: InvalidationStrategy.EXACT,
+        pattern: 'v1:{users}:tenant:${tenantId}:${aggregateId}',
+        trigger: InvalidationTrigger.EVENT,
+        eventType: 'UserUpdated',
+        enabled: true,
+        priority: 1,
+      });
+
+      try {
+        const [result] = await keyService.handleEvent(
+          createEvent('UserUpdated', 'user-1', { tenantId: 'tenant-1' }),
+        );
+
+        expect(result.keys).toEqual([keyFactory.toString(userKey)]);
+        expect(deleteKey).toHaveBeenCalledWith({ ...userKey, version: 'v1' });
+        expect(await mockCacheService.exists(userKey)).toBe(false);
+      } finally {
+        keyService.onDestroy();
+      }
+    });
+
+    it('should escape wildcard characters in event fields and skip rules with missing fields', async () => {
+      const deleteByPattern = jest.fn<
+        NonNullable<ICacheService['deleteByPattern']>
+      >(async () => ({
+        scanned: 0,
+        deleted: 0,
+        aborted: false,
+      }));
+      Object.assign(mockCacheService, { deleteByPattern });
+      service.addRule({
+        name: 'permission-added',
+        strategy: InvalidationStrategy.WILDCARD,
+        pattern: 'permissions:${tenantId}:${roleId}:*',
+        trigger: InvalidationTrigger.EVENT,
+        eventType: 'PermissionAdded',
+        enabled: true,
+        priority: 1,
+      });
+
+      const [matched] = await service.handleEvent(
+        createEvent('PermissionAdded', 'role-1', {
+          tenantId: 'tenant-1',
+          roleId: 'role*',
+        }),
+      );
+      const [missing] = await service.handleEvent(
+        createEvent('PermissionAdded', 'role-1', { tenantId: 'tenant-1' }),
+      );
+
+      expect(matched.success).toBe(true);
+      expect(deleteByPattern).toHaveBeenCalledTimes(1);
+      expect(deleteByPattern).toHaveBeenCalledWith(
+        'permissions:tenant-1:role\\*:*',
+        expect.anything(),
+      );
+      expect(missing.error).toBe('Pattern field missing from context');
+    });
+  });
+
+  describe('scheduled and dependency invalidation', () => {
+    const cacheKey = (namespace: string, key: string) =>
+      mockKeyFactory.create(key, { namespace });
+
+    it('should run scheduled rules at each cron time', async () => {
+      jest.useFakeTimers({ now: new Date('2024-01-01T03:29:00') });
+      try {
+        service.addRule({
+          id: 'nightly-reports',
+          name: 'nightly-reports',
+          strategy: InvalidationStrategy.EXACT,
+          pattern: 'reports:daily',
+          trigger: InvalidationTrigger.SCHEDULED,
+          schedule: '30 3 * * *',
+          enabled: true,
+          priority: 1,
+        });
+        await mockCacheService.set(cacheKey('reports', 'daily'), 'report');
+
+        await jest.advanceTimersByTimeAsync(59_000);
+        expect(
+          await mockCacheService.exists(cacheKey('reports', 'daily')),
+        ).toBe(true);
+
+        await jest.advanceTimersByTimeAsync(1_000);
+        expect(
+          await mockCacheService.exists(cacheKey('reports', 'daily')),
+        ).toBe(false);
+
+        await jest.advanceTimersByTimeAsync(24 * 60 * 60 * 1000);
+        expect(service.getStats().ruleHits).toEqual({ 'nightly-reports': 2 });
+        expect(
+          service.getStats().triggerUsage[InvalidationTrigger.SCHEDULED],
+        ).toBe(2);
+      } finally {
+        service.removeRule('nightly-reports');
+        jest.useRealTimers();
+      }
+    });
+
+    it('should reject scheduled rules without a valid schedule', () => {
+      const rule = {
+        name: 'bad-schedule',
+        strategy: InvalidationStrategy.EXACT,
+        pattern: 'reports:daily',
+        trigger: InvalidationTrigger.SCHEDULED,
+        enabled: true,
+        priority: 1,
+      };
+
+      expect(service.addRule(rule)).toBe(false);
+      expect(service.addRule({ ...rule, schedule: '0 25 * * *' })).toBe(false);
+      expect(service.getAllRules()).toHaveLength(0);
+    });
+
+    it('should not keep the process alive for scheduled rules', () => {
+      service.addRule({
+        id: 'nightly-reports',
+        name: 'nightly-reports',
+        strategy: InvalidationStrategy.EXACT,
+        pattern: 'reports:daily',
+        trigger: InvalidationTrigger.SCHEDULED,
+        schedule: '30 3 * * *',
+        enabled: true,
+        priority: 1,
+      });
+
+      const timers = (
+        service as unknown as { scheduleTimers: Map<string, NodeJS.Timeout> }
+      ).scheduleTimers;
+      expect(timers.get('nightly-reports')?.hasRef()).toBe(false);
+    });
+
+    it('should cascade to dependent rules with the same context', async () => {
+      service.addRule({
+        id: 'user',
+        name: 'user',
+        strategy: InvalidationStrategy.EXACT,
+        pattern: 'users:${aggregateId}',
+        trigger: InvalidationTrigger.MANUAL,
+        enabled: true,
+        priority: 1,
+      });
+      service.addRule({
+        id: 'user-summary',
+        name: 'user-summary',
+        strategy: InvalidationStrategy.EXACT,
+        pattern: 'summaries:${aggregateId}',
+        trigger: InvalidationTrigger.DEPENDENCY,
+        dependencies: ['user'],
+        enabled: true,
+        priority: 1,
+      });
+      service.addRule({
+        id: 'dashboard',
+        name: 'dashboard',
+        strategy: InvalidationStrategy.EXACT,
+        pattern: 'dashboards:${aggregateId}',
+        trigger: InvalidationTrigger.DEPENDENCY,
+        dependencies: ['user-summary'],
+        enabled: true,
+        priority: 1,
+      });
+      for (const namespace of ['users', 'summaries', 'dashboards']) {
+        await mockCacheService.set(cacheKey(namespace, 'user-1'), 'value');
+      }
+
+      const result = await service.invalidateByRule('user', {
+        aggregateId: 'user-1',
+      });
+
+      expect(result.metadata?.cascadedRules).toEqual([
+        'user-summary',
+        'dashboard',
+      ]);
+      for (const namespace of ['users', 'summaries', 'dashboards']) {
+        expect(
+          await mockCacheService.exists(cacheKey(namespace, 'user-1')),
+        ).toBe(false);
+      }
+      expect(
+        service.getStats().triggerUsage[InvalidationTrigger.DEPENDENCY],
+      ).toBe(2);
+    });
+
+    it('should cascade from directly invalidated keys and tags', async () => {
+      const invalidateByTag = jest.fn<
+        NonNullable<ICacheService['invalidateByTag']>
+      >(async () => 1);
+      Object.assign(mockCacheService, { invalidateByTag });
+      service.addRule({
+        id: 'user',
+        name: 'user',
+        strategy: InvalidationStrategy.EXACT,
+        pattern: 'users:${aggregateId}',
+        trigger: InvalidationTrigger.MANUAL,
+        enabled: true,
+        priority: 1,
+      });
+      service.addRule({
+        id: 'user-summary',
+        name: 'user-summary',
+        strategy: InvalidationStrategy.EXACT,
+        pattern: 'summaries:${aggregateId}',
+        trigger: InvalidationTrigger.DEPENDENCY,
+        dependencies: ['user'],
+        enabled: true,
+        priority: 1,
+      });
+      service.addRule({
+        id: 'report-tag',
+        name: 'report-tag',
+        strategy: InvalidationStrategy.TAG,
+        pattern: 'report:${report.id}',
+        trigger: InvalidationTrigger.MANUAL,
+        enabled: true,
+        priority: 1,
+      });
+      service.addRule({
+        id: 'report-export',
+        name: 'report-export',
+        strategy: InvalidationStrategy.EXACT,
+        pattern: 'exports:${report.id}',
+        trigger: InvalidationTrigger.DEPENDENCY,
+        dependencies: ['report-tag'],
+        enabled: true,
+        priority: 1,
+      });
+      for (const [namespace, key] of [
+        ['users', 'user-1'],
+        ['summaries', 'user-1'],
+        ['summaries', 'user-2'],
+        ['exports', 'r1'],
+      ]) {
+        await mockCacheService.set(cacheKey(namespace, key), 'value');
+      }
+
+      const keyResult = await service.invalidate('users:user-1');
+      const tagResult = await service.invalidate(
+        'report:r1',
+        InvalidationStrategy.TAG,
+      );
+
+      expect(keyResult.metadata?.cascadedRules).toEqual(['user-summary']);
+      expect(tagResult.metadata?.cascadedRules).toEqual(['report-export']);
+      expect(invalidateByTag).toHaveBeenCalledWith('report:r1');
+      expect(
+        await mockCacheService.exists(cacheKey('summaries', 'user-1')),
+      ).toBe(false);
+      expect(
+        await mockCacheService.exists(cacheKey('summaries', 'user-2')),
+      ).toBe(true);
+      expect(await mockCacheService.exists(cacheKey('exports', 'r1'))).toBe(
+        false,
+      );
+    });
+
+    it('should reject dependency cycles', () => {
+      service.addRule({
+        id: 'a',
+        name: 'a',
+        strategy: InvalidationStrategy.EXACT,
+        pattern: 'a:1',
+        trigger: InvalidationTrigger.MANUAL,
+        enabled: true,
+        priority: 1,
+      });
+      service.addRule({
+        id: 'b',
+        name: 'b',
+        strategy: InvalidationStrategy.EXACT,
+        pattern: 'b:1',
+        trigger: InvalidationTrigger.DEPENDENCY,
+        dependencies: ['a'],
+        enabled: true,
+        priority: 1,
+      });
+
+      expect(
+        service.updateRule('a', {
+          trigger: InvalidationTrigger.DEPENDENCY,
+          dependencies: ['b'],
+        }),
+      ).toBe(false);
+      expect(service.getRule('a')?.trigger).toBe(InvalidationTrigger.MANUAL);
+    });
+
+    it('should stop cascading at the maximum depth', async () => {
+      service.addRule({
+        id: 'rule-0',
+        name: 'rule-0',
+        strategy: InvalidationStrategy.EXACT,
+        pattern: 'chain:0',
+        trigger: InvalidationTrigger.MANUAL,
+        enabled: true,
+        priority: 1,
+      });
+      for (let i = 1; i <= 7; i++) {
+        service.addRule({
+          id: `rule-${i}`,
+          name: `rule-${i}`,
+          strategy: InvalidationStrategy.EXACT,
+          pattern: `chain:${i}`,
+          trigger: InvalidationTrigger.DEPENDENCY,
+          dependencies: [`rule-${i - 1}`],
+          enabled: true,
+          priority: 1,
+        });
+      }
+
+      const result = await service.invalidateByRule('rule-0');
+
+      expect(result.metadata?.cascadedRules).toEqual([
+        'rule-1',
+        'rule-2',
+        'rule-3',
+        'rule-4',
+        'rule-5',
+      ]);
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        'Invalidation cascade depth limit reached at rule: rule-5',
+        expect.anything(),
+      );
+    });
+  });
+
   describe('statistics', () => {
     it('should get invalidation stats', () => {
       const stats = service.getStats();
@@ -612,6 +1145,11 @@ describe('CacheInvalidationService', () => {
     });
 
     it('should handle tag invalidation', async () => {
+      const invalidateByTag = jest.fn<
+        NonNullable<ICacheService['invalidateByTag']>
+      >(async () => 2);
+      Object.assign(mockCacheService, { invalidateByTag });
+
       const result = await service.invalidate(
         ['user-tag'],
         InvalidationStrategy.TAG,
@@ -619,6 +1157,17 @@ describe('CacheInvalidationService', () => {
 
       expect(result.success).toBe(true);
       expect(result.invalidatedTags).toBe(1);
+      expect(invalidateByTag).toHaveBeenCalledWith('user-tag');
+    });
+
+    it('should skip tags when the cache service has no tag index', async () => {
+      const result = await service.invalidate(
+        ['user-tag'],
+        InvalidationStrategy.TAG,
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.invalidatedTags).toBe(0);
     });
 
     it('should handle wildcard invalidation', async () => {
@@ -1,11 +1,23 @@
-import { Injectable, Inject } from '@nestjs/common';
+import {
+  Injectable,
+  Inject,
+  OnModuleDestroy,
+  OnModuleInit,
+  Optional,
+} from '@nestjs/common';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import { v4 as uuidv4 } from 'uuid';
 
 import type { ICacheService } from '../interfaces/cache.interface';
 import type { ICacheKeyFactory } from '../interfaces/cache.interface';
 import type { InvalidationResult } from '../interfaces/cache.interface';
+import type { DomainEvent, IEventBus, IEventHandler } from '@aiofix/core';
 import { PinoLoggerService, LogContext } from '@aiofix/logging';
+import { CronSchedule } from './cron-schedule';
+import { CacheManagerService } from './cache-manager.service';
+
+/** setTimeout支持的最大延迟（毫秒），更远的触发时间分段等待 */
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
 
 /**
  * @enum InvalidationStrategy
@@ -63,7 +75,7 @@ export interface InvalidationRule {
   readonly description?: string;
   /** 失效策略 */
   readonly strategy: InvalidationStrategy;
-  /** 匹配模式 */
+  /** 匹配模式，可用${字段}引用执行上下文，如v1:{users}:${aggregateId}:*，不带$的{users}是哈希标签 */
   readonly pattern: string;
   /** 触发器 */
   readonly trigger: InvalidationTrigger;
@@ -73,11 +85,11 @@ export interface InvalidationRule {
   readonly priority: number;
   /** 条件表达式 */
   readonly condition?: string;
-  /** 依赖规则 */
+  /** 依赖规则，DEPENDENCY规则在这些规则执行后级联执行 */
   readonly dependencies?: string[];
-  /** 定时表达式 */
+  /** 定时表达式，SCHEDULED规则按此Cron表达式执行 */
   readonly schedule?: string;
-  /** 事件类型 */
+  /** 事件类型，与DomainEvent.getEventType()一致 */
   readonly eventType?: string;
   /** 标签 */
   readonly tags?: string[];
@@ -113,6 +125,8 @@ export interface InvalidationStats {
   strategyUsage: Record<InvalidationStrategy, number>;
   /** 各触发器使用统计 */
   triggerUsage: Record<InvalidationTrigger, number>;
+  /** 各规则命中次数，按规则ID统计 */
+  ruleHits: Record<string, number>;
 }
 
 /**
@@ -141,6 +155,26 @@ export interface CacheInvalidationConfig {
   enableEvents?: boolean;
   /** 监控间隔（毫秒） */
   monitoringInterval?: number;
+  /** 依赖级联的最大深度 */
+  maxCascadeDepth?: number;
+}
+
+/**
+ * @interface InvalidateOptions
+ * @description
+ * 缓存失效选项接口。
+ */
+export interface InvalidateOptions {
+  /** 命名空间 */
+  namespace?: string;
+  /** 标签 */
+  tags?: string[];
+  /** 超时时间（毫秒） */
+  timeout?: number;
+  /** 重试次数 */
+  retries?: number;
+  /** 附加到失效结果的元数据 */
+  metadata?: Record<string, unknown>;
 }
 
 /**
@@ -155,11 +189,30 @@ export interface CacheInvalidationConfig {
  * 4. 支持批量失效和并发处理
  * 5. 提供详细的统计和监控
  * 6. 支持依赖关系和条件表达式
+ * 7. 调用start后订阅事件总线，领域事件按EVENT规则自动失效缓存
+ * 8. SCHEDULED规则按Cron表达式定时执行
+ * 9. 规则执行后级联执行依赖它的DEPENDENCY规则，添加规则时拒绝循环依赖，级联深度受maxCascadeDepth限制；
+ *    直接失效键或标签时，模式匹配该键或标签的规则的依赖规则同样级联执行
+ *
+ * @example
+ * ```typescript
+ * invalidationService.addRule({
+ *   name: 'user-updated',
+ *   strategy: InvalidationStrategy.WILDCARD,
+ *   pattern: 'v1:{users}:${aggregateId}:*',
+ *   trigger: InvalidationTrigger.EVENT,
+ *   eventType: 'UserUpdated',
+ *   enabled: true,
+ *   priority: 1,
+ * });
+ * // 通过CacheModule.forRoot({ eventBus })注册时在模块初始化时自动订阅，否则手动启动
+ * await invalidationService.start(eventBus);
+ * ```
  *
  * @implements {ICacheService}
  */
 @Injectable()
-export class CacheInvalidationService {
+export class CacheInvalidationService implements OnModuleInit, OnModuleDestroy {
   /**
    * 失效规则映射
    */
@@ -185,11 +238,30 @@ export class CacheInvalidationService {
    */
   private monitoringTimer?: NodeJS.Timeout;
 
+  /**
+   * 事件总线
+   */
+  private eventBus: IEventBus | null = null;
+
+  /**
+   * 事件订阅，按事件类型记录订阅ID
+   */
+  private readonly eventSubscriptions = new Map<string, string>();
+
+  /**
+   * 定时规则的定时器，按规则ID记录
+   */
+  private readonly scheduleTimers = new Map<string, NodeJS.Timeout>();
+
   constructor(
     @Inject('CACHE_INVALIDATION_CONFIG') config: CacheInvalidationConfig,
     @Inject('ICacheKeyFactory') private readonly keyFactory: ICacheKeyFactory,
     private readonly eventEmitter: EventEmitter2,
     @Inject(PinoLoggerService) private readonly logger: PinoLoggerService,
+    @Optional() private readonly cacheManager?: CacheManagerService,
+    @Optional()
+    @Inject('CACHE_EVENT_BUS')
+    private readonly moduleEventBus?: IEventBus | null,
   ) {
     this.config = {
       enabled: true,
@@ -202,6 +274,7 @@ export class CacheInvalidationService {
       enableStats: true,
       enableEvents: true,
       monitoringInterval: 60000,
+      maxCascadeDepth: 5,
       ...config,
     };
 
@@ -211,6 +284,32 @@ export class CacheInvalidationService {
     this.logger.info('CacheInvalidationService initialized', LogContext.CACHE);
   }
 
+  /**
+   * @method onModuleInit
+   * @description
+   * 模块初始化时使用CacheManagerService作为失效目标，规则失效会同时清除L1和L2并经失效广播通知其他实例；
+   * 模块配置了事件总线时订阅EVENT规则的事件
+   * @returns {Promise<void>}
+   */
+  async onModuleInit(): Promise<void> {
+    if (!this.cacheService && this.cacheManager) {
+      this.setCacheService(this.cacheManager);
+    }
+    if (this.moduleEventBus) {
+      await this.start(this.moduleEventBus);
+    }
+  }
+
+  /**
+   * @method onModuleDestroy
+   * @description 模块销毁时取消事件订阅并清理定时器
+   * @returns {Promise<void>}
+   */
+  async onModuleDestroy(): Promise<void> {
+    await this.stop();
+    this.onDestroy();
+  }
+
   /**
    * @method setCacheService
    * @description 设置缓存服务实例
@@ -245,8 +344,11 @@ export class CacheInvalidationService {
         createdAt: now,
         updatedAt: now,
       };
+      this.validateRule(fullRule);
 
       this.rules.set(ruleId, fullRule);
+      this.subscribeRule(fullRule);
+      this.scheduleRule(fullRule);
 
       this.logger.info(
         `Added invalidation rule: ${rule.name}`,
@@ -286,6 +388,7 @@ export class CacheInvalidationService {
         throw new Error(`Invalidation rule not found: ${ruleId}`);
       }
       this.rules.delete(ruleId);
+      this.unscheduleRule(ruleId);
 
       this.logger.info(
         `Removed invalidation rule: ${rule.name}`,
@@ -330,8 +433,11 @@ export class CacheInvalidationService {
         ...updates,
         updatedAt: new Date(),
       };
+      this.validateRule(updatedRule);
 
       this.rules.set(ruleId, updatedRule);
+      this.subscribeRule(updatedRule);
+      this.scheduleRule(updatedRule);
 
       this.logger.info(
         `Updated invalidation rule: ${updatedRule.name}`,
@@ -378,22 +484,45 @@ export class CacheInvalidationService {
 
   /**
    * @method invalidate
-   * @description 执行缓存失效
+   * @description 执行缓存失效，失效键或标签后级联执行依赖匹配规则的DEPENDENCY规则
    * @param target 失效目标（键、模式、标签等）
    * @param strategy 失效策略
    * @param options 失效选项
-   * @returns {Promise<InvalidationResult>} 失效结果
+   * @returns {Promise<InvalidationResult>} 失效结果，metadata.cascadedRules为级联执行的规则ID
    */
   async invalidate(
     target: string | string[],
     strategy: InvalidationStrategy = this.config.defaultStrategy!,
-    options?: {
-      namespace?: string;
-      tags?: string[];
-      timeout?: number;
-      retries?: number;
-      metadata?: Record<string, unknown>;
-    },
+    options?: InvalidateOptions,
+  ): Promise<InvalidationResult> {
+    const result = await this.applyInvalidation(target, strategy, options);
+    if (!result.success) {
+      return result;
+    }
+
+    const cascadedRules = await this.cascadeFromTargets(
+      Array.isArray(target) ? target : [target],
+      strategy,
+    );
+    if (cascadedRules.length > 0) {
+      result.metadata = { ...result.metadata, cascadedRules };
+    }
+    return result;
+  }
+
+  /**
+   * @private
+   * @method applyInvalidation
+   * @description 按策略失效目标，不级联
+   * @param target 失效目标（键、模式、标签等）
+   * @param strategy 失效策略
+   * @param options 失效选项
+   * @returns {Promise<InvalidationResult>} 失效结果
+   */
+  private async applyInvalidation(
+    target: string | string[],
+    strategy: InvalidationStrategy,
+    options?: InvalidateOptions,
   ): Promise<InvalidationResult> {
     const startTime = Date.now();
     const targets = Array.isArray(target) ? target : [target];
@@ -494,14 +623,33 @@ export class CacheInvalidationService {
 
   /**
    * @method invalidateByRule
-   * @description 根据规则执行缓存失效
+   * @description 根据规则执行缓存失效，规则模式中的{字段}用执行上下文中的值替换
    * @param ruleId 规则ID
-   * @param _context 执行上下文
+   * @param _context 执行上下文，字段可以用点号访问嵌套属性
    * @returns {Promise<InvalidationResult>} 失效结果
    */
   async invalidateByRule(
     ruleId: string,
     _context?: Record<string, unknown>,
+  ): Promise<InvalidationResult> {
+    return this.executeRule(ruleId, _context, new Set(), 0);
+  }
+
+  /**
+   * @private
+   * @method executeRule
+   * @description 执行规则，成功后级联执行依赖它的DEPENDENCY规则
+   * @param ruleId 规则ID
+   * @param _context 执行上下文，级联时原样传递
+   * @param executed 本次级联中已执行的规则，同一规则只执行一次
+   * @param depth 级联深度，直接执行的规则为0
+   * @returns {Promise<InvalidationResult>} 失效结果，metadata.cascadedRules为级联执行的规则ID
+   */
+  private async executeRule(
+    ruleId: string,
+    _context: Record<string, unknown> | undefined,
+    executed: Set<string>,
+    depth: number,
   ): Promise<InvalidationResult> {
     const rule = this.getRule(ruleId);
     if (!rule) {
@@ -572,9 +720,239 @@ export class CacheInvalidationService {
       }
     }
 
-    return this.invalidate(rule.pattern, rule.strategy, {
+    // 通配符模式中的字段值按字面匹配，避免事件数据扩大失效范围
+    const pattern = interpolatePattern(
+      rule.pattern,
+      _context ?? {},
+      rule.strategy === InvalidationStrategy.WILDCARD ? escapeGlob : String,
+    );
+    if (pattern === null) {
+      this.logger.warn(
+        `Invalidation rule pattern references missing context field: ${rule.name}`,
+        LogContext.CACHE,
+      );
+      return {
+        invalidatedKeys: 0,
+        invalidatedNamespaces: 0,
+        invalidatedTags: 0,
+        keys: [],
+        namespaces: [],
+        tags: [],
+        invalidatedAt: new Date(),
+        executionTime: 0,
+        success: false,
+        error: 'Pattern field missing from context',
+      };
+    }
+
+    this.stats.ruleHits[rule.id] = (this.stats.ruleHits[rule.id] ?? 0) + 1;
+    this.stats.triggerUsage[rule.trigger]++;
+    executed.add(rule.id);
+
+    const result = await this.applyInvalidation(pattern, rule.strategy, {
       metadata: { ruleId, ruleName: rule.name, _context },
     });
+    if (!result.success) {
+      return result;
+    }
+
+    const cascadedRules = await this.cascade(rule, _context, executed, depth);
+    if (cascadedRules.length > 0) {
+      result.metadata = { ...result.metadata, cascadedRules };
+    }
+    return result;
+  }
+
+  /**
+   * @private
+   * @method cascade
+   * @description 按优先级执行依赖指定规则的DEPENDENCY规则
+   * @param rule 已执行的规则
+   * @param _context 执行上下文
+   * @param executed 本次级联中已执行的规则
+   * @param depth 已执行规则的级联深度
+   * @returns {Promise<string[]>} 级联执行的规则ID
+   */
+  private async cascade(
+    rule: InvalidationRule,
+    _context: Record<string, unknown> | undefined,
+    executed: Set<string>,
+    depth: number,
+  ): Promise<string[]> {
+    const dependents = this.getAllRules(true)
+      .filter(
+        dependent =>
+          dependent.trigger === InvalidationTrigger.DEPENDENCY &&
+          dependent.dependencies?.includes(rule.id) &&
+          !executed.has(dependent.id),
+      )
+      .sort((a, b) => a.priority - b.priority);
+    if (dependents.length === 0) {
+      return [];
+    }
+
+    if (depth >= this.config.maxCascadeDepth!) {
+      this.logger.warn(
+        `Invalidation cascade depth limit reached at rule: ${rule.name}`,
+        LogContext.CACHE,
+      );
+      return [];
+    }
+
+    const cascadedRules: string[] = [];
+    for (const dependent of dependents) {
+      // 菱形依赖时可能已由其他分支执行
+      if (executed.has(dependent.id)) {
+        continue;
+      }
+      try {
+        const result = await this.executeRule(
+          dependent.id,
+          _context,
+          executed,
+          depth + 1,
+        );
+        if (result.success) {
+          cascadedRules.push(
+            dependent.id,
+            ...((result.metadata?.cascadedRules as string[] | undefined) ?? []),
+          );
+        }
+      } catch (error) {
+        this.logger.warn(
+          `Failed to cascade invalidation rule: ${dependent.name}`,
+          LogContext.CACHE,
+          undefined,
+          error as Error,
+        );
+      }
+    }
+
+    this.emitEvent('rule_cascaded', { rule, cascadedRules });
+    return cascadedRules;
+  }
+
+  /**
+   * @private
+   * @method cascadeFromTargets
+   * @description 直接失效键或标签后，找出模式匹配目标的规则，级联执行依赖它们的DEPENDENCY规则，
+   * 模式中${字段}匹配到的值作为级联的执行上下文
+   * @param targets 失效目标
+   * @param strategy 失效策略，只处理EXACT和TAG
+   * @returns {Promise<string[]>} 级联执行的规则ID
+   */
+  private async cascadeFromTargets(
+    targets: string[],
+    strategy: InvalidationStrategy,
+  ): Promise<string[]> {
+    if (
+      strategy !== InvalidationStrategy.EXACT &&
+      strategy !== InvalidationStrategy.TAG
+    ) {
+      return [];
+    }
+
+    const sources = this.getAllRules(true)
+      .filter(rule => rule.strategy === strategy)
+      .sort((a, b) => a.priority - b.priority);
+    const cascadedRules: string[] = [];
+    for (const target of targets) {
+      const executed = new Set<string>();
+      for (const rule of sources) {
+        const context = matchPattern(rule.pattern, target);
+        if (!context) {
+          continue;
+        }
+        executed.add(rule.id);
+        cascadedRules.push(...(await this.cascade(rule, context, executed, 0)));
+      }
+    }
+    return cascadedRules;
+  }
+
+  /**
+   * @method start
+   * @description 订阅事件总线，为每个EVENT规则的事件类型注册处理器；之后添加的规则自动订阅
+   * @param {IEventBus} eventBus 事件总线
+   * @returns {Promise<void>}
+   */
+  async start(eventBus: IEventBus): Promise<void> {
+    if (this.eventBus) {
+      return;
+    }
+    this.eventBus = eventBus;
+
+    const eventTypes = new Set(
+      this.getAllRules()
+        .filter(rule => rule.trigger === InvalidationTrigger.EVENT)
+        .map(rule => rule.eventType)
+        .filter((eventType): eventType is string => !!eventType),
+    );
+    for (const eventType of eventTypes) {
+      await this.subscribeEventType(eventType);
+    }
+  }
+
+  /**
+   * @method stop
+   * @description 取消所有事件订阅
+   * @returns {Promise<void>}
+   */
+  async stop(): Promise<void> {
+    if (!this.eventBus) {
+      return;
+    }
+    const eventBus = this.eventBus;
+    this.eventBus = null;
+
+    for (const subscriptionId of this.eventSubscriptions.values()) {
+      if (subscriptionId) {
+        await eventBus.unsubscribe(subscriptionId);
+      }
+    }
+    this.eventSubscriptions.clear();
+  }
+
+  /**
+   * @method handleEvent
+   * @description 按优先级执行匹配事件类型的EVENT规则，规则模式可引用事件字段
+   * @param {DomainEvent} event 领域事件
+   * @returns {Promise<InvalidationResult[]>} 各规则的失效结果
+   */
+  async handleEvent(event: DomainEvent): Promise<InvalidationResult[]> {
+    if (!this.config.enabled) {
+      return [];
+    }
+
+    const eventType = event.getEventType();
+    const rules = this.getAllRules(true)
+      .filter(
+        rule =>
+          rule.trigger === InvalidationTrigger.EVENT &&
+          rule.eventType === eventType,
+      )
+      .sort((a, b) => a.priority - b.priority);
+
+    const context: Record<string, unknown> = {
+      ...event.toJSON(),
+      aggregateId: event.aggregateId,
+      eventType,
+    };
+
+    const results: InvalidationResult[] = [];
+    for (const rule of rules) {
+      try {
+        results.push(await this.invalidateByRule(rule.id, context));
+      } catch (error) {
+        this.logger.warn(
+          `Failed to apply invalidation rule ${rule.name} for event ${eventType}`,
+          LogContext.CACHE,
+          undefined,
+          error as Error,
+        );
+      }
+    }
+    return results;
   }
 
   /**
@@ -601,6 +979,9 @@ export class CacheInvalidationService {
    */
   onDestroy(): void {
     this.stopMonitoring();
+    for (const ruleId of [...this.scheduleTimers.keys()]) {
+      this.unscheduleRule(ruleId);
+    }
     this.logger.info('CacheInvalidationService destroyed', LogContext.CACHE);
   }
 
@@ -635,6 +1016,226 @@ export class CacheInvalidationService {
         },
         {} as Record<InvalidationTrigger, number>,
       ),
+      ruleHits: {},
+    };
+  }
+
+  /**
+   * @private
+   * @method validateRule
+   * @description 校验定时表达式和依赖关系
+   * @param rule 失效规则
+   * @throws {Error} 定时规则缺少或有错误的Cron表达式，或依赖关系存在循环时抛出
+   */
+  private validateRule(rule: InvalidationRule): void {
+    if (rule.trigger === InvalidationTrigger.SCHEDULED) {
+      if (!rule.schedule) {
+        throw new Error(
+          `Scheduled invalidation rule requires a schedule: ${rule.name}`,
+        );
+      }
+      CronSchedule.parse(rule.schedule);
+    }
+
+    // 沿DEPENDENCY规则的依赖向上查找，回到自身即为循环
+    const pending = this.getCascadeSources(rule);
+    const visited = new Set<string>();
+    while (pending.length > 0) {
+      const id = pending.pop()!;
+      if (id === rule.id) {
+        throw new Error(`Invalidation rule dependency cycle: ${rule.name}`);
+      }
+      if (visited.has(id)) {
+        continue;
+      }
+      visited.add(id);
+
+      const source = this.rules.get(id);
+      if (source) {
+        pending.push(...this.getCascadeSources(source));
+      }
+    }
+  }
+
+  /**
+   * @private
+   * @method getCascadeSources
+   * @description 获取会级联触发规则的上游规则
+   * @param rule 失效规则
+   * @returns {string[]} 上游规则ID
+   */
+  private getCascadeSources(rule: InvalidationRule): string[] {
+    return rule.trigger === InvalidationTrigger.DEPENDENCY
+      ? [...(rule.dependencies ?? [])]
+      : [];
+  }
+
+  /**
+   * @private
+   * @method scheduleRule
+   * @description 为启用的SCHEDULED规则安排下一次执行，规则变化时重新安排
+   * @param rule 失效规则
+   */
+  private scheduleRule(rule: InvalidationRule): void {
+    this.unscheduleRule(rule.id);
+    if (
+      !this.config.enabled ||
+      !rule.enabled ||
+      rule.trigger !== InvalidationTrigger.SCHEDULED ||
+      !rule.schedule
+    ) {
+      return;
+    }
+
+    const runAt = CronSchedule.parse(rule.schedule).next(new Date(Date.now()));
+    if (!runAt) {
+      this.logger.warn(
+        `Invalidation rule schedule never fires: ${rule.name}`,
+        LogContext.CACHE,
+      );
+      return;
+    }
+    this.startTimer(rule.id, runAt);
+  }
+
+  /**
+   * @private
+   * @method startTimer
+   * @description 启动定时器，超过setTimeout上限时分段等待
+   * @param ruleId 规则ID
+   * @param runAt 执行时间
+   */
+  private startTimer(ruleId: string, runAt: Date): void {
+    const delay = Math.min(runAt.getTime() - Date.now(), MAX_TIMER_DELAY);
+    const timer = setTimeout(
+      () => {
+        if (Date.now() < runAt.getTime()) {
+          this.startTimer(ruleId, runAt);
+          return;
+        }
+        void this.runScheduledRule(ruleId, runAt);
+      },
+      Math.max(delay, 0),
+    );
+    // 定时规则不阻止进程退出
+    timer.unref();
+    this.scheduleTimers.set(ruleId, timer);
+  }
+
+  /**
+   * @private
+   * @method runScheduledRule
+   * @description 先安排下一次执行，再执行规则，执行上下文包含scheduledAt
+   * @param ruleId 规则ID
+   * @param runAt 本次执行时间
+   */
+  private async runScheduledRule(ruleId: string, runAt: Date): Promise<void> {
+    const rule = this.getRule(ruleId);
+    if (!rule) {
+      return;
+    }
+    this.scheduleRule(rule);
+
+    try {
+      await this.invalidateByRule(ruleId, {
+        scheduledAt: runAt.toISOString(),
+      });
+    } catch (error) {
+      this.logger.error(
+        `Scheduled invalidation failed: ${rule.name}`,
+        LogContext.CACHE,
+        undefined,
+        error as Error,
+      );
+    }
+  }
+
+  /**
+   * @private
+   * @method unscheduleRule
+   * @description 取消规则的定时器
+   * @param ruleId 规则ID
+   */
+  private unscheduleRule(ruleId: string): void {
+    const timer = this.scheduleTimers.get(ruleId);
+    if (timer) {
+      clearTimeout(timer);
+      this.scheduleTimers.delete(ruleId);
+    }
+  }
+
+  /**
+   * @private
+   * @method subscribeRule
+   * @description 事件总线已启动时，为新的EVENT规则订阅事件类型
+   * @param rule 失效规则
+   */
+  private subscribeRule(rule: InvalidationRule): void {
+    if (
+      !this.eventBus ||
+      rule.trigger !== InvalidationTrigger.EVENT ||
+      !rule.eventType
+    ) {
+      return;
+    }
+
+    const eventType = rule.eventType;
+    this.subscribeEventType(eventType).catch(error =>
+      this.logger.error(
+        `Failed to subscribe invalidation rules to event: ${eventType}`,
+        LogContext.CACHE,
+        undefined,
+        error as Error,
+      ),
+    );
+  }
+
+  /**
+   * @private
+   * @method subscribeEventType
+   * @description 订阅事件类型，每个事件类型只订阅一次
+   * @param eventType 事件类型
+   */
+  private async subscribeEventType(eventType: string): Promise<void> {
+    if (!this.eventBus || this.eventSubscriptions.has(eventType)) {
+      return;
+    }
+
+    // 先占位，避免并发添加规则时重复订阅
+    const eventBus = this.eventBus;
+    this.eventSubscriptions.set(eventType, '');
+    try {
+      const subscriptionId = await eventBus.subscribe(
+        eventType,
+        this.createEventHandler(eventType),
+      );
+      // 订阅期间已调用stop
+      if (this.eventBus !== eventBus) {
+        await eventBus.unsubscribe(subscriptionId);
+        return;
+      }
+      this.eventSubscriptions.set(eventType, subscriptionId);
+    } catch (error) {
+      this.eventSubscriptions.delete(eventType);
+      throw error;
+    }
+  }
+
+  /**
+   * @private
+   * @method createEventHandler
+   * @description 创建事件处理器
+   * @param eventType 事件类型
+   * @returns {IEventHandler} 事件处理器
+   */
+  private createEventHandler(eventType: string): IEventHandler {
+    return {
+      handle: async (event: DomainEvent): Promise<void> => {
+        await this.handleEvent(event);
+      },
+      canHandle: (type: string): boolean => type === eventType,
+      getEventType: (): string => eventType,
+      getHandlerName: (): string => `CacheInvalidationService:${eventType}`,
     };
   }
 
@@ -677,13 +1278,14 @@ export class CacheInvalidationService {
    * @returns {Promise<string[]>} 失效的键列表
    */
   private async invalidatePrefix(prefixes: string[]): Promise<string[]> {
-    // 这里需要缓存服务支持前缀查询，简化实现
     const invalidatedKeys: string[] = [];
 
     for (const prefix of prefixes) {
       try {
-        // 假设缓存服务支持按命名空间清除
-        const cleared = await this.cacheService!.clear(prefix);
+        // 缓存服务支持按模式删除时按键前缀删除，否则按命名空间清除
+        const cleared = this.cacheService!.deleteByPattern
+          ? await this.deleteByPattern(`${escapeGlob(prefix)}*`)
+          : await this.cacheService!.clear(prefix);
         if (cleared) {
           invalidatedKeys.push(prefix);
         }
@@ -729,11 +1331,17 @@ export class CacheInvalidationService {
 
     for (const pattern of patterns) {
       try {
-        // 仅记录模式，实际匹配依赖具体缓存实现
-        this.logger.debug(
-          `Wildcard invalidation pattern: ${pattern}`,
-          LogContext.CACHE,
-        );
+        if (!this.cacheService!.deleteByPattern) {
+          this.logger.debug(
+            `Cache service does not support wildcard invalidation: ${pattern}`,
+            LogContext.CACHE,
+          );
+          continue;
+        }
+
+        if (await this.deleteByPattern(pattern)) {
+          invalidatedKeys.push(pattern);
+        }
       } catch (error) {
         this.logger.warn(
           `Failed to invalidate wildcard pattern: ${pattern}`,
@@ -747,6 +1355,24 @@ export class CacheInvalidationService {
     return invalidatedKeys;
   }
 
+  /**
+   * @private
+   * @method deleteByPattern
+   * @description 通过缓存服务分批删除匹配模式的键
+   * @param pattern glob模式
+   * @returns {Promise<boolean>} 是否删除完成（未被中止）
+   */
+  private async deleteByPattern(pattern: string): Promise<boolean> {
+    const result = await this.cacheService!.deleteByPattern!(pattern, {
+      batchSize: this.config.batchSize,
+    });
+    this.logger.debug(
+      `Pattern invalidation ${pattern}: ${result.deleted} keys deleted`,
+      LogContext.CACHE,
+    );
+    return !result.aborted;
+  }
+
   /**
    * @private
    * @method invalidateRegex
@@ -785,13 +1411,23 @@ export class CacheInvalidationService {
    * @returns {Promise<string[]>} 失效的标签列表
    */
   private async invalidateTags(tags: string[]): Promise<string[]> {
-    // 简化实现，实际需要缓存服务支持标签查询
     const invalidatedTags: string[] = [];
 
     for (const tag of tags) {
       try {
-        // 这里需要缓存服务支持标签失效
-        this.logger.debug(`Tag invalidation: ${tag}`, LogContext.CACHE);
+        if (!this.cacheService!.invalidateByTag) {
+          this.logger.debug(
+            `Cache service does not support tag invalidation: ${tag}`,
+            LogContext.CACHE,
+          );
+          continue;
+        }
+
+        const deleted = await this.cacheService!.invalidateByTag(tag);
+        this.logger.debug(
+          `Tag invalidation ${tag}: ${deleted} keys deleted`,
+          LogContext.CACHE,
+        );
         invalidatedTags.push(tag);
       } catch (error) {
         this.logger.warn(
@@ -1023,3 +1659,93 @@ export class CacheInvalidationService {
     }
   }
 }
+
+/**
+ * @function interpolatePattern
+ * @description 用上下文字段替换模式中的${字段}，字段可以用点号访问嵌套属性；
+ * 不带$的{...}是Redis Cluster哈希标签，按字面保留
+ * @param pattern 模式
+ * @param context 上下文
+ * @param format 字段值的格式化函数
+ * @returns 替换后的模式；引用的字段不存在或不是基本类型时为null
+ */
+function interpolatePattern(
+  pattern: string,
+  context: Record<string, unknown>,
+  format: (value: string) => string,
+): string | null {
+  let missing = false;
+  const result = pattern.replace(/\$\{([\w.]+)\}/g, (_match, path: string) => {
+    const value = path
+      .split('.')
+      .reduce<unknown>(
+        (current, field) =>
+          current !== null && typeof current === 'object'
+            ? (current as Record<string, unknown>)[field]
+            : undefined,
+        context,
+      );
+    if (
+      typeof value !== 'string' &&
+      typeof value !== 'number' &&
+      typeof value !== 'boolean'
+    ) {
+      missing = true;
+      return '';
+    }
+    return format(String(value));
+  });
+  return missing ? null : result;
+}
+
+/**
+ * @function matchPattern
+ * @description 判断目标是否匹配规则模式，模式中的${字段}匹配任意非空内容，其余部分按字面匹配
+ * @param pattern 规则模式
+ * @param target 失效目标
+ * @returns 匹配到的字段值，字段路径含点号时还原为嵌套对象；不匹配时为null
+ */
+function matchPattern(
+  pattern: string,
+  target: string,
+): Record<string, unknown> | null {
+  const paths: string[] = [];
+  const source = pattern
+    .split(/\$\{([\w.]+)\}/)
+    .map((part, index) => {
+      if (index % 2 === 1) {
+        paths.push(part);
+        return '(.+?)';
+      }
+      return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  const match = new RegExp(`^${source}$`).exec(target);
+  if (!match) {
+    return null;
+  }
+
+  const context: Record<string, unknown> = {};
+  paths.forEach((path, index) => {
+    const fields = path.split('.');
+    let current = context;
+    for (const field of fields.slice(0, -1)) {
+      if (current[field] === null || typeof current[field] !== 'object') {
+        current[field] = {};
+      }
+      current = current[field] as Record<string, unknown>;
+    }
+    current[fields[fields.length - 1]] = match[index + 1];
+  });
+  return context;
+}
+
+/**
+ * @function escapeGlob
+ * @description 转义glob特殊字符，使字符串按字面匹配
+ * @param value 原始字符串
+ * @returns 转义后的字符串
+ */
+function escapeGlob(value: string): string {
+  return value.replace(/[*?[\]\\]/g, '\\$&');
+}
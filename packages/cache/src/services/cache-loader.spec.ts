@@ -0,0 +1,192 @@
+import {
+  describe,
+  it,
+  beforeEach,
+  afterEach,
+  expect,
+  jest,
+} from '@jest/globals';
+import { CacheLoader } from './cache-loader';
+import type {
+  CacheKey,
+  CacheValue,
+  ICacheService,
+} from '../interfaces/cache.interface';
+import { PinoLoggerService } from '@aiofix/logging';
+
+/**
+ * @function createCache
+ * @description 创建以key.key为键的模拟缓存服务
+ */
+function createCache(entries: Map<string, CacheValue>) {
+  return {
+    get: jest.fn(async (key: CacheKey) => entries.get(key.key)?.value ?? null),
+    getEntry: jest.fn(async (key: CacheKey) => entries.get(key.key) ?? null),
+    set: jest.fn(async (key: CacheKey, value: unknown) => {
+      entries.set(key.key, {
+        value,
+        createdAt: 0,
+        accessCount: 0,
+        lastAccessed: 0,
+      });
+      return true;
+    }),
+    delete: jest.fn(async () => true),
+    exists: jest.fn(async () => true),
+    clear: jest.fn(async () => true),
+    getStats: jest.fn(),
+    getHealth: jest.fn(),
+    resetStats: jest.fn(),
+  } as unknown as jest.Mocked<ICacheService>;
+}
+
+const flushBackground = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('CacheLoader', () => {
+  const key: CacheKey = { key: 'permissions:t1:u1' };
+  let entries: Map<string, CacheValue>;
+  let cache: jest.Mocked<ICacheService>;
+  let logger: jest.Mocked<PinoLoggerService>;
+  let loader: CacheLoader;
+
+  beforeEach(() => {
+    entries = new Map();
+    cache = createCache(entries);
+    logger = {
+      debug: jest.fn(),
+      warn: jest.fn(),
+    } as unknown as jest.Mocked<PinoLoggerService>;
+    loader = new CacheLoader(cache, logger);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should run the loader once for concurrent misses', async () => {
+    let resolveLoad: (value: string[]) => void = () => undefined;
+    const load = jest.fn(
+      () => new Promise<string[]>(resolve => (resolveLoad = resolve)),
+    );
+
+    const results = Promise.all([
+      loader.load(key, load, { ttl: 1000 }),
+      loader.load(key, load, { ttl: 1000 }),
+      loader.load(key, load, { ttl: 1000 }),
+    ]);
+    await flushBackground();
+    resolveLoad(['user:read']);
+
+    expect(await results).toEqual([
+      ['user:read'],
+      ['user:read'],
+      ['user:read'],
+    ]);
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(cache.set).toHaveBeenCalledTimes(1);
+    expect(cache.set).toHaveBeenCalledWith(key, ['user:read'], {
+      ttl: 1000,
+      loadTime: expect.any(Number),
+    });
+  });
+
+  it('should return a fresh value without loading', async () => {
+    entries.set(key.key, {
+      value: 'cached',
+      createdAt: 0,
+      accessCount: 0,
+      lastAccessed: 0,
+      expiresAt: Date.now() + 1000,
+    });
+    const load = jest.fn(async () => 'loaded');
+
+    expect(await loader.load(key, load)).toBe('cached');
+    expect(load).not.toHaveBeenCalled();
+  });
+
+  it('should serve a stale value and refresh it in the background', async () => {
+    entries.set(key.key, {
+      value: 'stale',
+      createdAt: 0,
+      accessCount: 0,
+      lastAccessed: 0,
+      staleAt: Date.now() - 1,
+      expiresAt: Date.now() + 1000,
+    });
+    const load = jest.fn(async () => 'fresh');
+
+    const [first, second] = await Promise.all([
+      loader.load(key, load, { ttl: 1000, staleWhileRevalidate: 5000 }),
+      loader.load(key, load, { ttl: 1000, staleWhileRevalidate: 5000 }),
+    ]);
+    await flushBackground();
+
+    expect(first).toBe('stale');
+    expect(second).toBe('stale');
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(entries.get(key.key)?.value).toBe('fresh');
+  });
+
+  it('should refresh early when the XFetch check fires', async () => {
+    entries.set(key.key, {
+      value: 'cached',
+      createdAt: 0,
+      accessCount: 0,
+      lastAccessed: 0,
+      loadTime: 1000,
+      expiresAt: Date.now() + 10,
+    });
+    jest.spyOn(Math, 'random').mockReturnValue(0.01);
+    const load = jest.fn(async () => 'fresh');
+
+    expect(await loader.load(key, load, { earlyExpiryBeta: 1 })).toBe('cached');
+    await flushBackground();
+
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('should wait for the process holding the lock instead of loading', async () => {
+    cache.acquireLock = jest.fn(async () => null);
+    cache.releaseLock = jest.fn(async () => true);
+    cache.get
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce('from-peer');
+    const load = jest.fn(async () => 'loaded');
+
+    expect(await loader.load(key, load, { lockTimeout: 1000 })).toBe(
+      'from-peer',
+    );
+    expect(load).not.toHaveBeenCalled();
+    expect(cache.releaseLock).not.toHaveBeenCalled();
+  });
+
+  it('should release the lock after loading and not cache empty results', async () => {
+    cache.acquireLock = jest.fn(async () => 'token-1');
+    cache.releaseLock = jest.fn(async () => true);
+
+    expect(await loader.load(key, async () => null)).toBeNull();
+    expect(cache.set).toHaveBeenCalledTimes(1);
+    expect(cache.set).toHaveBeenCalledWith(
+      { key: 'permissions:t1:u1:__empty__' },
+      true,
+      { ttl: 1000 },
+    );
+    expect(entries.has(key.key)).toBe(false);
+    expect(cache.acquireLock).toHaveBeenCalledWith(key, 10000);
+    expect(cache.releaseLock).toHaveBeenCalledWith(key, 'token-1');
+  });
+
+  it('should stop waiting when the process holding the lock loads nothing', async () => {
+    cache.acquireLock = jest.fn(async () => null);
+    cache.releaseLock = jest.fn(async () => true);
+    const peer = new CacheLoader(createCache(entries), logger);
+    await peer.load(key, async () => undefined);
+    const load = jest.fn(async () => 'loaded');
+
+    const startedAt = Date.now();
+    expect(await loader.load(key, load, { lockTimeout: 10000 })).toBeNull();
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+    expect(load).not.toHaveBeenCalled();
+  });
+});
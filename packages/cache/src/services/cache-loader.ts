@@ -0,0 +1,340 @@
+/**
+ * @file cache-loader.ts
+ * @description 缓存加载器
+ *
+ * 该文件实现了getOrLoad的防击穿加载流程，包括：
+ * - 进程内single-flight
+ * - 基于分布式锁的跨进程single-flight
+ * - stale-while-revalidate
+ * - 概率提前过期（XFetch）
+ */
+
+import type {
+  ICacheService,
+  CacheKey,
+  CacheValue,
+  CacheOptions,
+} from '../interfaces/cache.interface';
+import { PinoLoggerService, LogContext } from '@aiofix/logging';
+
+/** 默认锁持有时间和等待上限（毫秒） */
+const DEFAULT_LOCK_TIMEOUT = 10000;
+
+/** 等待其他进程加载时的轮询间隔（毫秒） */
+const LOCK_RETRY_DELAY = 50;
+
+/** loader返回空值时空结果标记的过期时间（毫秒），只需覆盖等待方的几次轮询 */
+const EMPTY_MARKER_TTL = 1000;
+
+/**
+ * @class CacheLoader
+ * @description
+ * 为缓存服务实现getOrLoad，热点键过期时避免所有并发请求同时回源。
+ *
+ * 流程：
+ * 1. 读取缓存条目，新鲜时直接返回；临近过期时按XFetch概率在后台刷新
+ * 2. 过了新鲜期但仍在staleWhileRevalidate宽限期内时返回旧值，并在后台刷新
+ * 3. 未命中时同一个键在进程内只加载一次，其他调用等待同一个Promise
+ * 4. 缓存服务支持分布式锁时，只有拿到锁的进程加载，其他进程轮询等待缓存写入，
+ *    等待超过lockTimeout后自行加载
+ *
+ * 后台刷新拿不到锁时跳过，由持锁的进程刷新。loader返回null或undefined时不写入缓存，
+ * 只写入短期的空结果标记，等待的进程看到标记后直接返回null，不再轮询到lockTimeout。
+ */
+export class CacheLoader {
+  /** 未命中时正在进行的加载 */
+  private readonly inFlight = new Map<string, Promise<unknown>>();
+
+  /** 正在进行的后台刷新 */
+  private readonly refreshing = new Set<string>();
+
+  constructor(
+    private readonly cache: ICacheService,
+    private readonly logger: PinoLoggerService,
+  ) {}
+
+  /**
+   * @method load
+   * @description 获取缓存值，未命中时加载
+   * @param key 缓存键
+   * @param loader 加载函数
+   * @param options 缓存选项
+   * @returns 缓存值或加载结果
+   * @throws loader抛出的错误
+   */
+  async load<T>(
+    key: CacheKey,
+    loader: () => Promise<T>,
+    options?: Partial<CacheOptions>,
+  ): Promise<T> {
+    const entry = await this.readEntry<T>(key);
+    if (entry) {
+      if (this.shouldRefresh(entry, options)) {
+        this.refreshInBackground(key, loader, options);
+      }
+      return entry.value;
+    }
+
+    const id = flightKey(key);
+    const pending = this.inFlight.get(id);
+    if (pending) {
+      return pending as Promise<T>;
+    }
+
+    const promise = this.loadWithLock(key, loader, options).finally(() =>
+      this.inFlight.delete(id),
+    );
+    this.inFlight.set(id, promise);
+    return promise;
+  }
+
+  /**
+   * @private
+   * @method readEntry
+   * @description 读取缓存条目，缓存服务不支持getEntry时只有值，视为始终新鲜
+   */
+  private async readEntry<T>(key: CacheKey): Promise<CacheValue<T> | null> {
+    if (this.cache.getEntry) {
+      return this.cache.getEntry<T>(key);
+    }
+
+    const value = await this.cache.get<T>(key);
+    return value === null
+      ? null
+      : { value, createdAt: 0, accessCount: 0, lastAccessed: 0 };
+  }
+
+  /**
+   * @private
+   * @method shouldRefresh
+   * @description 判断是否需要后台刷新：已过新鲜期，或按XFetch概率提前刷新
+   *
+   * XFetch：now - loadTime * beta * ln(random) >= staleAt 时刷新，
+   * 越接近过期、加载越慢，刷新的概率越高。
+   */
+  private shouldRefresh<T>(
+    entry: CacheValue<T>,
+    options?: Partial<CacheOptions>,
+  ): boolean {
+    const staleAt = entry.staleAt ?? entry.expiresAt;
+    if (staleAt === undefined) {
+      return false;
+    }
+
+    const now = Date.now();
+    if (now >= staleAt) {
+      return true;
+    }
+
+    const beta = options?.earlyExpiryBeta ?? 0;
+    if (beta <= 0 || !entry.loadTime) {
+      return false;
+    }
+    return now - entry.loadTime * beta * Math.log(Math.random()) >= staleAt;
+  }
+
+  /**
+   * @private
+   * @method refreshInBackground
+   * @description 在后台重新加载，同一个键同时只有一次刷新，失败只记录日志
+   */
+  private refreshInBackground<T>(
+    key: CacheKey,
+    loader: () => Promise<T>,
+    options?: Partial<CacheOptions>,
+  ): void {
+    const id = flightKey(key);
+    if (this.refreshing.has(id) || this.inFlight.has(id)) {
+      return;
+    }
+
+    this.refreshing.add(id);
+    void (async () => {
+      const token = await this.tryAcquireLock(key, options);
+      if (token === null) {
+        return;
+      }
+      try {
+        await this.loadAndStore(key, loader, options);
+      } finally {
+        await this.releaseLock(key, token);
+      }
+    })()
+      .catch(error =>
+        this.logger.warn(
+          `Background cache refresh failed: ${key.key}`,
+          LogContext.CACHE,
+          undefined,
+          error as Error,
+        ),
+      )
+      .finally(() => this.refreshing.delete(id));
+  }
+
+  /**
+   * @private
+   * @method loadWithLock
+   * @description 未命中时加载：拿到锁则加载，锁被占用则等待其他进程写入缓存
+   */
+  private async loadWithLock<T>(
+    key: CacheKey,
+    loader: () => Promise<T>,
+    options?: Partial<CacheOptions>,
+  ): Promise<T> {
+    const token = await this.tryAcquireLock(key, options);
+
+    if (token === null) {
+      const loaded = await this.waitForValue<T>(
+        key,
+        options?.lockTimeout ?? DEFAULT_LOCK_TIMEOUT,
+      );
+      if (loaded) {
+        return loaded.value;
+      }
+      // 等待超时，持锁的进程可能已失败，自行加载
+      this.logger.debug(
+        `Timed out waiting for cache load, loading locally: ${key.key}`,
+        LogContext.CACHE,
+      );
+    }
+
+    try {
+      return await this.loadAndStore(key, loader, options);
+    } finally {
+      await this.releaseLock(key, token);
+    }
+  }
+
+  /**
+   * @private
+   * @method loadAndStore
+   * @description 执行loader并把结果和加载耗时写入缓存，结果为空时写入空结果标记
+   */
+  private async loadAndStore<T>(
+    key: CacheKey,
+    loader: () => Promise<T>,
+    options?: Partial<CacheOptions>,
+  ): Promise<T> {
+    const startTime = Date.now();
+    const value = await loader();
+
+    if (value !== null && value !== undefined) {
+      await this.cache.set(key, value, {
+        ...options,
+        loadTime: Date.now() - startTime,
+      });
+    } else {
+      await this.cache.set(emptyMarkerKey(key), true, {
+        ttl: EMPTY_MARKER_TTL,
+      });
+    }
+
+    return value;
+  }
+
+  /**
+   * @private
+   * @method waitForValue
+   * @description 按固定间隔轮询缓存，直到值或空结果标记被写入，或超时
+   * @returns 加载结果，空结果时value为null；超时返回null
+   */
+  private async waitForValue<T>(
+    key: CacheKey,
+    timeout: number,
+  ): Promise<{ value: T } | null> {
+    const attempts = Math.ceil(timeout / LOCK_RETRY_DELAY);
+    for (let attempt = 0; attempt < attempts; attempt++) {
+      await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_DELAY));
+      const value = await this.cache.get<T>(key);
+      if (value !== null) {
+        return { value };
+      }
+      if ((await this.cache.get<boolean>(emptyMarkerKey(key))) !== null) {
+        return { value: null as T };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * @private
+   * @method tryAcquireLock
+   * @description 获取分布式锁，缓存服务不支持锁或加锁失败时按已持有处理，只依赖进程内single-flight
+   * @returns 锁令牌；不需要释放时为undefined；锁被其他进程占用时为null
+   */
+  private async tryAcquireLock(
+    key: CacheKey,
+    options?: Partial<CacheOptions>,
+  ): Promise<string | null | undefined> {
+    if (!this.cache.acquireLock) {
+      return undefined;
+    }
+
+    try {
+      return await this.cache.acquireLock(
+        key,
+        options?.lockTimeout ?? DEFAULT_LOCK_TIMEOUT,
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Failed to acquire cache load lock: ${key.key}`,
+        LogContext.CACHE,
+        undefined,
+        error as Error,
+      );
+      return undefined;
+    }
+  }
+
+  /**
+   * @private
+   * @method releaseLock
+   * @description 释放分布式锁，失败时锁在持有时间到期后自动释放
+   */
+  private async releaseLock(
+    key: CacheKey,
+    token: string | null | undefined,
+  ): Promise<void> {
+    if (!token || !this.cache.releaseLock) {
+      return;
+    }
+
+    try {
+      await this.cache.releaseLock(key, token);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to release cache load lock: ${key.key}`,
+        LogContext.CACHE,
+        undefined,
+        error as Error,
+      );
+    }
+  }
+}
+
+/**
+ * @function emptyMarkerKey
+ * @description 生成空结果标记的缓存键，与原键同命名空间、租户和标签
+ * @param key 缓存键
+ * @returns 标记键
+ */
+function emptyMarkerKey(key: CacheKey): CacheKey {
+  return { ...key, key: `${key.key}:__empty__` };
+}
+
+/**
+ * @function flightKey
+ * @description 生成进程内single-flight使用的键标识
+ * @param key 缓存键
+ * @returns 键标识
+ */
+function flightKey(key: CacheKey): string {
+  return JSON.stringify([
+    key.version,
+    key.namespace,
+    key.tenantId,
+    key.userId,
+    [...(key.tags ?? [])].sort(),
+    key.key,
+  ]);
+}
@@ -13,6 +13,7 @@ import {
   CacheKey,
 } from '../interfaces/cache.interface';
 import { PinoLoggerService } from '@aiofix/logging';
+import { CacheInvalidationBus } from './cache-invalidation-bus.service';
 
 /**
  * @class MockCacheService
@@ -157,6 +158,14 @@ class MockCacheKeyFactory implements ICacheKeyFactory {
       namespace: parts.length > 1 ? parts[0] : undefined,
     };
   }
+
+  createNamespacePattern(namespace: string): string {
+    return `${namespace}:*`;
+  }
+
+  createTagKey(tag: string): string {
+    return `tag:{${tag}}`;
+  }
 }
 
 describe('CacheManagerService', () => {
@@ -345,6 +354,41 @@ describe('CacheManagerService', () => {
       expect(exists).toBe(true);
     });
 
+    it('should broadcast writes and invalidations to other instances', async () => {
+      const bus = {
+        publish: jest.fn(async () => undefined),
+      } as unknown as jest.Mocked<CacheInvalidationBus>;
+      const busService = new CacheManagerService(
+        mockConfig,
+        mockEventEmitter,
+        mockLogger,
+        bus,
+      );
+      busService.addLayer({
+        name: 'layer1',
+        priority: 1,
+        service: mockLayer1,
+        enabled: true,
+      });
+      const key = mockKeyFactory.createNamespace('test-namespace', 'test-key');
+
+      try {
+        await busService.set(key, { data: 'test-value' });
+        await busService.delete(key);
+        await busService.clear('test-namespace');
+        await busService.clear();
+      } finally {
+        busService.onDestroy();
+      }
+
+      expect(bus.publish.mock.calls).toEqual([
+        [{ type: 'key', key }],
+        [{ type: 'key', key }],
+        [{ type: 'namespace', namespace: 'test-namespace' }],
+        [{ type: 'clear' }],
+      ]);
+    });
+
     it('should clear all layers', async () => {
       const key = mockKeyFactory.createNamespace('test-namespace', 'test-key');
       const value = { data: 'test-value' };
@@ -1,4 +1,5 @@
-import { Injectable, Inject } from '@nestjs/common';
+import { Injectable, Inject, Optional } from '@nestjs/common';
+import { randomUUID } from 'crypto';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 
 import type { ICacheService } from '../interfaces/cache.interface';
@@ -6,11 +7,16 @@ import type { ICacheService } from '../interfaces/cache.interface';
 import type {
   CacheOptions,
   CacheKey,
+  CacheValue,
   CacheStats,
   CacheHealth,
+  CacheScanOptions,
+  CacheScanResult,
 } from '../interfaces/cache.interface';
 import { CacheStrategy } from '../interfaces/cache.interface';
 import { PinoLoggerService, LogContext } from '@aiofix/logging';
+import { CacheLoader } from './cache-loader';
+import { CacheInvalidationBus } from './cache-invalidation-bus.service';
 
 /**
  * @interface CacheManagerConfig
@@ -86,6 +92,8 @@ export interface CacheManagerStats extends CacheStats {
  * 4. 监控缓存性能和健康状态
  * 5. 处理缓存失效和更新
  * 6. 提供缓存统计和分析
+ * 7. 防击穿的getOrLoad，分布式锁由第一个支持加锁的缓存层提供
+ * 8. 写入、删除和失效后通过CacheInvalidationBus通知其他实例删除各自的L1条目
  *
  * @implements {ICacheService}
  */
@@ -131,10 +139,16 @@ export class CacheManagerService implements ICacheService {
    */
   private totalResponseTime = 0;
 
+  /**
+   * getOrLoad加载器
+   */
+  private readonly loader: CacheLoader;
+
   constructor(
     @Inject('CACHE_MANAGER_CONFIG') config: CacheManagerConfig,
     private readonly eventEmitter: EventEmitter2,
     @Inject(PinoLoggerService) private readonly logger: PinoLoggerService,
+    @Optional() private readonly invalidationBus?: CacheInvalidationBus,
   ) {
     this.config = {
       enabled: true,
@@ -148,6 +162,7 @@ export class CacheManagerService implements ICacheService {
     };
 
     this.stats = this.initializeStats();
+    this.loader = new CacheLoader(this, logger);
     this.initializeLayers();
     this.startMonitoring();
     this.startCleanup();
@@ -203,6 +218,89 @@ export class CacheManagerService implements ICacheService {
     }
   }
 
+  /**
+   * @method getEntry
+   * @description 按优先级从缓存层获取包含过期信息的缓存条目，不提升到高优先级层
+   * @param key 缓存键
+   * @returns {Promise<CacheValue<T> | null>} 缓存条目
+   */
+  async getEntry<T = unknown>(key: CacheKey): Promise<CacheValue<T> | null> {
+    for (const layer of this.getSortedLayers()) {
+      if (!layer.enabled) continue;
+
+      try {
+        if (layer.service.getEntry) {
+          const entry = await layer.service.getEntry<T>(key);
+          if (entry) {
+            return entry;
+          }
+          continue;
+        }
+
+        const value = await layer.service.get<T>(key);
+        if (value !== null) {
+          return { value, createdAt: 0, accessCount: 0, lastAccessed: 0 };
+        }
+      } catch (error) {
+        this.logger.warn(
+          `Failed to get cache entry from layer ${layer.name}: ${key.key}`,
+          LogContext.CACHE,
+          undefined,
+          error as Error,
+        );
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * @method getOrLoad
+   * @description 获取缓存值，未命中时加载并写入所有缓存层，同一个键的并发加载只执行一次
+   * @param key 缓存键
+   * @param loader 加载函数
+   * @param options 缓存选项
+   * @returns {Promise<T>} 缓存值或加载结果
+   */
+  async getOrLoad<T = unknown>(
+    key: CacheKey,
+    loader: () => Promise<T>,
+    options?: Partial<CacheOptions>,
+  ): Promise<T> {
+    return this.loader.load(key, loader, {
+      ...this.config.defaultOptions,
+      ...options,
+    });
+  }
+
+  /**
+   * @method acquireLock
+   * @description 通过第一个支持加锁的缓存层获取加载锁
+   * @param key 缓存键
+   * @param ttl 锁持有时间（毫秒）
+   * @returns {Promise<string | null>} 锁令牌，锁被占用时返回null
+   */
+  async acquireLock(key: CacheKey, ttl: number): Promise<string | null> {
+    const layer = this.getLockLayer();
+    return layer?.service.acquireLock
+      ? layer.service.acquireLock(key, ttl)
+      : randomUUID();
+  }
+
+  /**
+   * @method releaseLock
+   * @description 释放加载锁
+   * @param key 缓存键
+   * @param token 锁令牌
+   * @returns {Promise<boolean>} 是否释放
+   */
+  async releaseLock(key: CacheKey, token: string): Promise<boolean> {
+    const layer = this.getLockLayer();
+    return layer?.service.releaseLock
+      ? layer.service.releaseLock(key, token)
+      : true;
+  }
+
   /**
    * @method set
    * @description 设置缓存值
@@ -245,6 +343,10 @@ export class CacheManagerService implements ICacheService {
         }
       }
 
+      if (success) {
+        await this.invalidationBus?.publish({ type: 'key', key });
+      }
+
       this.updateStats(startTime);
       return success;
     } catch (error) {
@@ -291,6 +393,8 @@ export class CacheManagerService implements ICacheService {
         }
       }
 
+      await this.invalidationBus?.publish({ type: 'key', key });
+
       this.updateStats(startTime);
       return success;
     } catch (error) {
@@ -375,6 +479,12 @@ export class CacheManagerService implements ICacheService {
         }
       }
 
+      await this.invalidationBus?.publish(
+        namespace === undefined
+          ? { type: 'clear' }
+          : { type: 'namespace', namespace },
+      );
+
       this.updateStats(startTime);
       return success;
     } catch (error) {
@@ -389,6 +499,93 @@ export class CacheManagerService implements ICacheService {
     }
   }
 
+  /**
+   * @method deleteByPattern
+   * @description 在所有支持按模式删除的缓存层中删除匹配的键，进度和结果为各层之和
+   * @param {string} pattern 键字符串的glob模式
+   * @param {CacheScanOptions} options 扫描选项
+   * @returns {Promise<CacheScanResult>} 删除结果
+   */
+  async deleteByPattern(
+    pattern: string,
+    options?: CacheScanOptions,
+  ): Promise<CacheScanResult> {
+    const startTime = Date.now();
+    const total: CacheScanResult = { scanned: 0, deleted: 0, aborted: false };
+
+    for (const layer of this.getSortedLayers()) {
+      if (!layer.enabled || layer.readOnly || !layer.service.deleteByPattern) {
+        continue;
+      }
+
+      try {
+        const base = { scanned: total.scanned, deleted: total.deleted };
+        const result = await layer.service.deleteByPattern(pattern, {
+          ...options,
+          onProgress: progress =>
+            options?.onProgress?.({
+              scanned: base.scanned + progress.scanned,
+              deleted: base.deleted + progress.deleted,
+            }),
+        });
+        total.scanned += result.scanned;
+        total.deleted += result.deleted;
+        this.emitEvent('cache_clear', { layer: layer.name, pattern });
+
+        if (result.aborted) {
+          total.aborted = true;
+          break;
+        }
+      } catch (error) {
+        this.logger.warn(
+          `Failed to delete pattern from cache layer ${layer.name}`,
+          LogContext.CACHE,
+          undefined,
+          error as Error,
+        );
+      }
+    }
+
+    await this.invalidationBus?.publish({ type: 'pattern', pattern });
+
+    this.updateStats(startTime);
+    return total;
+  }
+
+  /**
+   * @method invalidateByTag
+   * @description 在所有支持标签索引的缓存层中删除带有指定标签的键
+   * @param {string} tag 标签
+   * @returns {Promise<number>} 各层删除的键数量之和
+   */
+  async invalidateByTag(tag: string): Promise<number> {
+    const startTime = Date.now();
+    let deleted = 0;
+
+    for (const layer of this.getSortedLayers()) {
+      if (!layer.enabled || layer.readOnly || !layer.service.invalidateByTag) {
+        continue;
+      }
+
+      try {
+        deleted += await layer.service.invalidateByTag(tag);
+        this.emitEvent('cache_clear', { layer: layer.name, tag });
+      } catch (error) {
+        this.logger.warn(
+          `Failed to invalidate tag in cache layer ${layer.name}: ${tag}`,
+          LogContext.CACHE,
+          undefined,
+          error as Error,
+        );
+      }
+    }
+
+    await this.invalidationBus?.publish({ type: 'tag', tag });
+
+    this.updateStats(startTime);
+    return deleted;
+  }
+
   /**
    * @method getStats
    * @description 获取缓存统计信息
@@ -714,6 +911,18 @@ export class CacheManagerService implements ICacheService {
       .sort((a, b) => a.priority - b.priority);
   }
 
+  /**
+   * @private
+   * @method getLockLayer
+   * @description 获取第一个支持分布式锁的启用缓存层
+   * @returns {CacheLayerConfig | undefined} 缓存层
+   */
+  private getLockLayer(): CacheLayerConfig | undefined {
+    return this.getSortedLayers().find(
+      layer => layer.enabled && layer.service.acquireLock !== undefined,
+    );
+  }
+
   /**
    * @private
    * @method promoteToHigherLayer
@@ -0,0 +1,44 @@
+import { describe, it, expect } from '@jest/globals';
+import { CronSchedule } from './cron-schedule';
+
+describe('CronSchedule', () => {
+  const at = (text: string) => new Date(text);
+
+  it('should find the next run of a nightly schedule', () => {
+    const schedule = CronSchedule.parse('30 3 * * *');
+
+    expect(schedule.next(at('2024-01-01T01:00:00'))).toEqual(
+      at('2024-01-01T03:30:00'),
+    );
+    expect(schedule.next(at('2024-01-01T03:30:00'))).toEqual(
+      at('2024-01-02T03:30:00'),
+    );
+  });
+
+  it('should support seconds, steps, ranges and lists', () => {
+    expect(
+      CronSchedule.parse('*/15 * * * * *').next(at('2024-01-01T00:00:20')),
+    ).toEqual(at('2024-01-01T00:00:30'));
+    expect(
+      CronSchedule.parse('0 9-17/4 * * 1,3').next(at('2024-01-01T17:30:00')),
+    ).toEqual(at('2024-01-03T09:00:00'));
+  });
+
+  it('should match either day of month or day of week when both are set', () => {
+    // 2024-01-05是周五，周日写作7
+    expect(
+      CronSchedule.parse('0 0 5 * 7').next(at('2024-01-02T00:00:00')),
+    ).toEqual(at('2024-01-05T00:00:00'));
+  });
+
+  it('should reject malformed expressions and return null for impossible dates', () => {
+    expect(() => CronSchedule.parse('* * *')).toThrow(
+      'Invalid cron expression: * * *',
+    );
+    expect(() => CronSchedule.parse('60 * * * *')).toThrow();
+    expect(() => CronSchedule.parse('0 0 * * mon')).toThrow();
+    expect(
+      CronSchedule.parse('0 0 30 2 *').next(at('2024-01-01T00:00:00')),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * @file cron-schedule.ts
+ * @description Cron表达式解析
+ *
+ * 该文件实现了失效规则定时触发所需的Cron表达式解析，包括：
+ * - 5段（分 时 日 月 周）和6段（秒 分 时 日 月 周）表达式，与CronExpression常量兼容
+ * - *、数字、范围（a-b）、列表（a,b）和步长（/n）
+ * - 按本地时区计算下一次触发时间
+ */
+
+/**
+ * @interface CronField
+ * @description 字段取值范围
+ */
+interface CronField {
+  readonly min: number;
+  readonly max: number;
+}
+
+/** 秒、分、时、日、月、周的取值范围，周日可写作0或7 */
+const FIELDS: readonly CronField[] = [
+  { min: 0, max: 59 },
+  { min: 0, max: 59 },
+  { min: 0, max: 23 },
+  { min: 1, max: 31 },
+  { min: 1, max: 12 },
+  { min: 0, max: 7 },
+];
+
+/** 查找下一次触发时间的最大范围（年），超过时视为表达式永远不会触发 */
+const MAX_LOOKAHEAD_YEARS = 5;
+
+/**
+ * @class CronSchedule
+ * @description
+ * 解析后的Cron表达式。
+ *
+ * 日和周都不以*开头时，与标准Cron一致，满足其中之一即可触发。
+ *
+ * @example
+ * ```typescript
+ * const schedule = CronSchedule.parse('0 3 * * *'); // 每天3点
+ * schedule.next(new Date());
+ * ```
+ */
+export class CronSchedule {
+  private constructor(
+    private readonly seconds: number[],
+    private readonly minutes: Set<number>,
+    private readonly hours: Set<number>,
+    private readonly days: Set<number>,
+    private readonly months: Set<number>,
+    private readonly weekdays: Set<number>,
+    private readonly restrictDay: boolean,
+    private readonly restrictWeekday: boolean,
+  ) {}
+
+  /**
+   * @method parse
+   * @description 解析Cron表达式
+   * @param expression Cron表达式
+   * @returns 解析结果
+   * @throws {Error} 表达式格式不正确时抛出
+   */
+  static parse(expression: string): CronSchedule {
+    const parts = expression.trim().split(/\s+/);
+    if (parts.length !== 5 && parts.length !== 6) {
+      throw new Error(`Invalid cron expression: ${expression}`);
+    }
+    if (parts.length === 5) {
+      parts.unshift('0');
+    }
+
+    const values = parts.map((part, index) =>
+      parseField(part, FIELDS[index], expression),
+    );
+    // 周日统一为0
+    if (values[5].delete(7)) {
+      values[5].add(0);
+    }
+
+    return new CronSchedule(
+      [...values[0]].sort((a, b) => a - b),
+      values[1],
+      values[2],
+      values[3],
+      values[4],
+      values[5],
+      !parts[3].startsWith('*'),
+      !parts[5].startsWith('*'),
+    );
+  }
+
+  /**
+   * @method next
+   * @description 计算指定时间之后的下一次触发时间
+   * @param after 起始时间
+   * @returns 下一次触发时间；表达式永远不会触发时为null（如2月30日）
+   */
+  next(after: Date): Date | null {
+    const candidate = new Date(after.getTime());
+    candidate.setSeconds(0, 0);
+    const limit = new Date(after.getTime());
+    limit.setFullYear(limit.getFullYear() + MAX_LOOKAHEAD_YEARS);
+
+    // 不匹配的字段直接跳到下一个月、日、时，避免逐分钟遍历
+    while (candidate.getTime() <= limit.getTime()) {
+      if (!this.months.has(candidate.getMonth() + 1)) {
+        candidate.setMonth(candidate.getMonth() + 1, 1);
+        candidate.setHours(0, 0);
+      } else if (!this.matchesDay(candidate)) {
+        candidate.setDate(candidate.getDate() + 1);
+        candidate.setHours(0, 0);
+      } else if (!this.hours.has(candidate.getHours())) {
+        candidate.setHours(candidate.getHours() + 1, 0);
+      } else if (!this.minutes.has(candidate.getMinutes())) {
+        candidate.setMinutes(candidate.getMinutes() + 1);
+      } else {
+        for (const second of this.seconds) {
+          const time = new Date(candidate.getTime());
+          time.setSeconds(second);
+          if (time.getTime() > after.getTime()) {
+            return time;
+          }
+        }
+        candidate.setMinutes(candidate.getMinutes() + 1);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * @private
+   * @method matchesDay
+   * @description 检查日和周字段是否匹配
+   */
+  private matchesDay(date: Date): boolean {
+    const day = this.days.has(date.getDate());
+    const weekday = this.weekdays.has(date.getDay());
+    if (this.restrictDay && this.restrictWeekday) {
+      return day || weekday;
+    }
+    return day && weekday;
+  }
+}
+
+/**
+ * @function parseField
+ * @description 解析单个字段
+ * @param part 字段表达式
+ * @param field 取值范围
+ * @param expression 完整表达式，用于错误信息
+ * @returns 字段允许的取值
+ * @throws {Error} 字段格式不正确或超出范围时抛出
+ */
+function parseField(
+  part: string,
+  field: CronField,
+  expression: string,
+): Set<number> {
+  const values = new Set<number>();
+
+  for (const item of part.split(',')) {
+    const match = /^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/.exec(item);
+    if (!match) {
+      throw new Error(`Invalid cron expression: ${expression}`);
+    }
+
+    const [range, stepText] = [match[1], match[2]];
+    let [start, end] = [field.min, field.max];
+    if (range !== '*') {
+      const [from, to] = range.split('-').map(Number);
+      start = from;
+      // a/n 表示从a开始到最大值
+      end = to ?? (stepText ? field.max : from);
+    }
+    const step = stepText ? Number(stepText) : 1;
+
+    if (start < field.min || end > field.max || start > end || step < 1) {
+      throw new Error(`Invalid cron expression: ${expression}`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
@@ -180,6 +180,47 @@ describe('MemoryCacheService', () => {
     });
   });
 
+  describe('tag invalidation', () => {
+    it('should delete every key written with the tag', async () => {
+      const admin = keyFactory.create('perm:admin:read');
+      const tagged = keyFactory.createTagged('perm:admin:write', ['role:r1']);
+      const other = keyFactory.create('perm:guest:read');
+
+      await service.set(admin, true, { tags: ['role:r1'] });
+      await service.set(tagged, true);
+      await service.set(other, true, { tags: ['role:r2'] });
+
+      expect(await service.invalidateByTag('role:r1')).toBe(2);
+      expect(await service.get(admin)).toBeNull();
+      expect(await service.get(tagged)).toBeNull();
+      expect(await service.get(other)).toBe(true);
+      expect(await service.invalidateByTag('role:r1')).toBe(0);
+    });
+
+    it('should drop keys from the tag index when they are removed', async () => {
+      const key = keyFactory.create('perm:admin:read');
+
+      await service.set(key, true, { tags: ['role:r1'], ttl: 50 });
+      // 测试环境固定了Date.now，手动推进时钟使条目过期
+      const originalNow = Date.now;
+      const expiredAt = originalNow() + 100;
+      Date.now = () => expiredAt;
+      try {
+        await service.get(key);
+      } finally {
+        Date.now = originalNow;
+      }
+
+      expect((service as any).tagIndex.size).toBe(0);
+
+      await service.set(key, true, { tags: ['role:r1'] });
+      await service.set(key, true, { tags: ['role:r2'] });
+
+      expect(await service.invalidateByTag('role:r1')).toBe(0);
+      expect(await service.get(key)).toBe(true);
+    });
+  });
+
   describe('cache strategies', () => {
     it('should use LRU strategy for eviction', async () => {
       // 设置最大大小为2
@@ -7,9 +7,13 @@ import {
   CacheStats,
   CacheHealth,
   CacheStrategy,
+  CacheScanOptions,
+  CacheScanResult,
 } from '../interfaces/cache.interface';
 import type { ICacheKeyFactory } from '../interfaces/cache.interface';
 import { PinoLoggerService, LogContext } from '@aiofix/logging';
+import { minimatch } from 'minimatch';
+import { CacheLoader } from './cache-loader';
 
 /**
  * @interface MemoryCacheConfig
@@ -65,6 +69,8 @@ interface MemoryCacheEntry<T = unknown> {
  * 3. 完整的统计信息和健康检查
  * 4. 线程安全的并发访问
  * 5. 可配置的压缩和加密功能
+ * 6. 标签索引，条目被删除、过期或驱逐时同步移出索引
+ * 7. 防击穿的getOrLoad，同一个键的并发加载只执行一次
  */
 @Injectable()
 export class MemoryCacheService implements ICacheService, OnModuleDestroy {
@@ -77,6 +83,9 @@ export class MemoryCacheService implements ICacheService, OnModuleDestroy {
   /** 访问频率映射（用于LFU策略） */
   private readonly accessFrequency = new Map<string, number>();
 
+  /** 标签索引：标签索引键 -> 带有该标签的键字符串 */
+  private readonly tagIndex = new Map<string, Set<string>>();
+
   /** 配置选项 */
   private readonly config: Required<MemoryCacheConfig>;
 
@@ -99,13 +108,16 @@ export class MemoryCacheService implements ICacheService, OnModuleDestroy {
   /** 是否已销毁 */
   private isDestroyed = false;
 
+  /** getOrLoad加载器 */
+  private readonly loader: CacheLoader;
+
   constructor(
-    @Inject('MEMORY_CACHE_CONFIG')
+    @Inject('MEMORY_CACHE_CONFIG') config: MemoryCacheConfig,
     @Inject('ICacheKeyFactory')
     private readonly keyFactory: ICacheKeyFactory,
     @Inject(PinoLoggerService) private readonly logger: PinoLoggerService,
   ) {
-    // 设置默认配置
+    // 合并默认配置
     this.config = {
       defaultTtl: 300000, // 5分钟
       maxSize: 1000,
@@ -113,7 +125,9 @@ export class MemoryCacheService implements ICacheService, OnModuleDestroy {
       cleanupInterval: 60000, // 1分钟
       enableCompression: false,
       enableEncryption: false,
+      ...config,
     };
+    this.loader = new CacheLoader(this, logger);
 
     // 启动清理定时器
     this.startCleanupTimer();
@@ -141,6 +155,7 @@ export class MemoryCacheService implements ICacheService, OnModuleDestroy {
     this.cache.clear();
     this.accessOrder.length = 0;
     this.accessFrequency.clear();
+    this.tagIndex.clear();
 
     this.logger.info('MemoryCacheService destroyed', LogContext.CACHE);
   }
@@ -152,6 +167,17 @@ export class MemoryCacheService implements ICacheService, OnModuleDestroy {
    * @returns {Promise<T | null>} 缓存值或null
    */
   async get<T = unknown>(key: CacheKey): Promise<T | null> {
+    const entry = await this.getEntry<T>(key);
+    return entry ? entry.value : null;
+  }
+
+  /**
+   * @method getEntry
+   * @description 获取包含过期信息的缓存条目
+   * @param {CacheKey} key 缓存键
+   * @returns {Promise<CacheValue<T> | null>} 缓存条目或null
+   */
+  async getEntry<T = unknown>(key: CacheKey): Promise<CacheValue<T> | null> {
     try {
       const keyString = this.keyFactory.toString(key);
       const entry = this.cache.get(keyString);
@@ -166,6 +192,7 @@ export class MemoryCacheService implements ICacheService, OnModuleDestroy {
         this.cache.delete(keyString);
         this.removeFromAccessOrder(keyString);
         this.accessFrequency.delete(keyString);
+        this.removeFromTagIndex(keyString, entry.value.tags);
         this.stats.expiredEntries++;
         this.updateStats(false);
         return null;
@@ -177,7 +204,7 @@ export class MemoryCacheService implements ICacheService, OnModuleDestroy {
       // 更新统计
       this.updateStats(true);
 
-      return entry.value.value as T;
+      return entry.value as CacheValue<T>;
     } catch (error) {
       this.logger.error(
         `Error getting cache value: ${(error as Error).message}`,
@@ -190,6 +217,22 @@ export class MemoryCacheService implements ICacheService, OnModuleDestroy {
     }
   }
 
+  /**
+   * @method getOrLoad
+   * @description 获取缓存值，未命中时加载，同一个键的并发加载只执行一次
+   * @param {CacheKey} key 缓存键
+   * @param {() => Promise<T>} loader 加载函数
+   * @param {Partial<CacheOptions>} options 缓存选项
+   * @returns {Promise<T>} 缓存值或加载结果
+   */
+  async getOrLoad<T = unknown>(
+    key: CacheKey,
+    loader: () => Promise<T>,
+    options?: Partial<CacheOptions>,
+  ): Promise<T> {
+    return this.loader.load(key, loader, options);
+  }
+
   /**
    * @method set
    * @description 设置缓存值
@@ -207,6 +250,12 @@ export class MemoryCacheService implements ICacheService, OnModuleDestroy {
       const keyString = this.keyFactory.toString(key);
       const strategy = options?.strategy ?? this.config.defaultStrategy;
       const ttl = options?.ttl ?? this.config.defaultTtl;
+      const tags = [
+        ...new Set([...(key.tags ?? []), ...(options?.tags ?? [])]),
+      ];
+      // 宽限期内保留旧值，实际过期时间为ttl加宽限期
+      const staleWindow = options?.staleWhileRevalidate ?? 0;
+      const now = Date.now();
 
       // 计算值大小
       const valueSize = this.calculateSize(value);
@@ -214,12 +263,14 @@ export class MemoryCacheService implements ICacheService, OnModuleDestroy {
       // 创建缓存值
       const cacheValue: CacheValue<T> = {
         value,
-        createdAt: Date.now(),
-        expiresAt: ttl > 0 ? Date.now() + ttl : undefined,
+        createdAt: now,
+        expiresAt: ttl > 0 ? now + ttl + staleWindow : undefined,
+        staleAt: ttl > 0 && staleWindow > 0 ? now + ttl : undefined,
+        loadTime: options?.loadTime,
         accessCount: 0,
         lastAccessed: Date.now(),
         version: key.version,
-        tags: key.tags,
+        tags,
         metadata: {
           strategy,
           compressed: this.config.enableCompression,
@@ -246,6 +297,7 @@ export class MemoryCacheService implements ICacheService, OnModuleDestroy {
       const existingEntry = this.cache.get(keyString);
       if (existingEntry) {
         this.stats.totalSize -= existingEntry.size;
+        this.removeFromTagIndex(keyString, existingEntry.value.tags);
         // 不减少 totalEntries，因为我们要替换它
       } else {
         // 只有新键才增加 totalEntries
@@ -255,6 +307,7 @@ export class MemoryCacheService implements ICacheService, OnModuleDestroy {
       this.cache.set(keyString, entry);
       this.addToAccessOrder(keyString);
       this.accessFrequency.set(keyString, 0);
+      this.addToTagIndex(keyString, tags);
 
       // 更新统计
       this.stats.totalSize += valueSize;
@@ -294,6 +347,7 @@ export class MemoryCacheService implements ICacheService, OnModuleDestroy {
       this.cache.delete(keyString);
       this.removeFromAccessOrder(keyString);
       this.accessFrequency.delete(keyString);
+      this.removeFromTagIndex(keyString, entry.value.tags);
 
       // 更新统计
       this.stats.totalEntries = this.cache.size;
@@ -335,6 +389,7 @@ export class MemoryCacheService implements ICacheService, OnModuleDestroy {
         this.cache.delete(keyString);
         this.removeFromAccessOrder(keyString);
         this.accessFrequency.delete(keyString);
+        this.removeFromTagIndex(keyString, entry.value.tags);
         this.stats.expiredEntries++;
         return false;
       }
@@ -412,6 +467,7 @@ export class MemoryCacheService implements ICacheService, OnModuleDestroy {
             this.cache.delete(keyString);
             this.removeFromAccessOrder(keyString);
             this.accessFrequency.delete(keyString);
+            this.removeFromTagIndex(keyString, entry.value.tags);
             this.stats.totalSize -= entry.size;
           }
         }
@@ -426,6 +482,7 @@ export class MemoryCacheService implements ICacheService, OnModuleDestroy {
         this.cache.clear();
         this.accessOrder.length = 0;
         this.accessFrequency.clear();
+        this.tagIndex.clear();
         this.stats.totalEntries = 0;
         this.stats.totalSize = 0;
         this.stats.averageSize = 0;
@@ -443,6 +500,86 @@ export class MemoryCacheService implements ICacheService, OnModuleDestroy {
     }
   }
 
+  /**
+   * @method deleteByPattern
+   * @description 按glob模式删除缓存键，模式语法与Redis缓存一致
+   * @param {string} pattern 键字符串的glob模式
+   * @param {CacheScanOptions} options 扫描选项
+   * @returns {Promise<CacheScanResult>} 删除结果
+   */
+  async deleteByPattern(
+    pattern: string,
+    options?: CacheScanOptions,
+  ): Promise<CacheScanResult> {
+    if (options?.signal?.aborted) {
+      return { scanned: 0, deleted: 0, aborted: true };
+    }
+
+    const keysToDelete = [...this.cache.keys()].filter(keyString =>
+      minimatch(keyString, pattern),
+    );
+
+    for (const keyString of keysToDelete) {
+      const entry = this.cache.get(keyString);
+      if (entry) {
+        this.cache.delete(keyString);
+        this.removeFromAccessOrder(keyString);
+        this.accessFrequency.delete(keyString);
+        this.removeFromTagIndex(keyString, entry.value.tags);
+        this.stats.totalSize -= entry.size;
+      }
+    }
+
+    this.stats.totalEntries = this.cache.size;
+    this.stats.averageSize =
+      this.stats.totalEntries > 0
+        ? this.stats.totalSize / this.stats.totalEntries
+        : 0;
+
+    const progress = {
+      scanned: keysToDelete.length,
+      deleted: keysToDelete.length,
+    };
+    if (keysToDelete.length > 0) {
+      options?.onProgress?.({ ...progress });
+    }
+    return { ...progress, aborted: false };
+  }
+
+  /**
+   * @method invalidateByTag
+   * @description 删除带有指定标签的所有缓存键，在一次同步执行中完成，不会与写入交错
+   * @param {string} tag 标签
+   * @returns {Promise<number>} 删除的键数量
+   */
+  async invalidateByTag(tag: string): Promise<number> {
+    const keyStrings = this.tagIndex.get(this.keyFactory.createTagKey(tag));
+    if (!keyStrings) {
+      return 0;
+    }
+
+    let deleted = 0;
+    for (const keyString of [...keyStrings]) {
+      const entry = this.cache.get(keyString);
+      if (entry) {
+        this.cache.delete(keyString);
+        this.removeFromAccessOrder(keyString);
+        this.accessFrequency.delete(keyString);
+        this.removeFromTagIndex(keyString, entry.value.tags);
+        this.stats.totalSize -= entry.size;
+        deleted++;
+      }
+    }
+
+    this.stats.totalEntries = this.cache.size;
+    this.stats.averageSize =
+      this.stats.totalEntries > 0
+        ? this.stats.totalSize / this.stats.totalEntries
+        : 0;
+
+    return deleted;
+  }
+
   /**
    * @method getStats
    * @description 获取缓存统计
@@ -543,6 +680,7 @@ export class MemoryCacheService implements ICacheService, OnModuleDestroy {
         this.cache.delete(keyString);
         this.removeFromAccessOrder(keyString);
         this.accessFrequency.delete(keyString);
+        this.removeFromTagIndex(keyString, entry.value.tags);
         this.stats.totalSize -= entry.size;
         this.stats.expiredEntries++;
       }
@@ -638,6 +776,39 @@ export class MemoryCacheService implements ICacheService, OnModuleDestroy {
     }
   }
 
+  /**
+   * @private
+   * @method addToTagIndex
+   * @description 把键加入其标签的索引
+   * @param {string} keyString 键字符串
+   * @param {string[]} tags 标签
+   */
+  private addToTagIndex(keyString: string, tags?: string[]): void {
+    for (const tag of tags ?? []) {
+      const tagKey = this.keyFactory.createTagKey(tag);
+      const keyStrings = this.tagIndex.get(tagKey) ?? new Set<string>();
+      keyStrings.add(keyString);
+      this.tagIndex.set(tagKey, keyStrings);
+    }
+  }
+
+  /**
+   * @private
+   * @method removeFromTagIndex
+   * @description 把键移出其标签的索引，索引为空时一并删除
+   * @param {string} keyString 键字符串
+   * @param {string[]} tags 标签
+   */
+  private removeFromTagIndex(keyString: string, tags?: string[]): void {
+    for (const tag of tags ?? []) {
+      const tagKey = this.keyFactory.createTagKey(tag);
+      const keyStrings = this.tagIndex.get(tagKey);
+      if (keyStrings?.delete(keyString) && keyStrings.size === 0) {
+        this.tagIndex.delete(tagKey);
+      }
+    }
+  }
+
   /**
    * @private
    * @method evictEntry
@@ -698,6 +869,7 @@ export class MemoryCacheService implements ICacheService, OnModuleDestroy {
         this.cache.delete(keyToEvict);
         this.removeFromAccessOrder(keyToEvict);
         this.accessFrequency.delete(keyToEvict);
+        this.removeFromTagIndex(keyToEvict, entry.value.tags);
         this.stats.totalSize -= entry.size;
         this.stats.evictedEntries++;
         this.stats.totalEntries = this.cache.size;
@@ -715,6 +887,7 @@ export class MemoryCacheService implements ICacheService, OnModuleDestroy {
           this.cache.delete(keyToEvict);
           this.removeFromAccessOrder(keyToEvict);
           this.accessFrequency.delete(keyToEvict);
+          this.removeFromTagIndex(keyToEvict, entry.value.tags);
           this.stats.totalSize -= entry.size;
           this.stats.evictedEntries++;
           this.stats.totalEntries = this.cache.size;
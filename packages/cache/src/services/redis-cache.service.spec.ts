@@ -39,11 +39,15 @@ describe('RedisCacheService', () => {
     mockRedis = {
       ping: jest.fn(),
       get: jest.fn(),
+      getBuffer: jest.fn(),
       set: jest.fn(),
       setex: jest.fn(),
       del: jest.fn(),
       exists: jest.fn(),
       keys: jest.fn(),
+      scan: jest.fn(),
+      unlink: jest.fn(),
+      eval: jest.fn(),
       flushdb: jest.fn(),
       info: jest.fn(),
       quit: jest.fn(),
@@ -82,6 +86,12 @@ describe('RedisCacheService', () => {
             toString: jest.fn().mockReturnValue('test:key'),
             parse: jest.fn().mockReturnValue({ key: 'test:key' }),
             createPattern: jest.fn().mockReturnValue('test:*'),
+            createNamespacePattern: jest
+              .fn()
+              .mockImplementation((namespace: string) => `*:{${namespace}}:*`),
+            createTagKey: jest
+              .fn()
+              .mockImplementation((tag: string) => `tag:{${tag}}`),
             matchPattern: jest.fn().mockReturnValue(true),
             extractNamespace: jest.fn().mockReturnValue('test'),
             extractTenantId: jest.fn().mockReturnValue('123'),
@@ -105,7 +115,7 @@ describe('RedisCacheService', () => {
 
     // 设置默认的mock返回值
     mockRedis.ping.mockResolvedValue('PONG');
-    mockRedis.get.mockResolvedValue(null);
+    mockRedis.getBuffer.mockResolvedValue(null);
     mockRedis.set.mockResolvedValue('OK');
     mockRedis.setex.mockResolvedValue('OK');
     mockRedis.del.mockResolvedValue(1);
@@ -180,13 +190,17 @@ describe('RedisCacheService', () => {
         },
       };
 
-      mockRedis.get.mockResolvedValue(JSON.stringify(cacheValue));
+      mockRedis.getBuffer.mockResolvedValue(
+        Buffer.from(JSON.stringify(cacheValue)),
+      );
       mockRedis.set.mockResolvedValue('OK');
 
       const result = await service.get(key);
 
       expect(result).toEqual({ data: 'test-data' });
-      expect(mockRedis.get).toHaveBeenCalledWith(keyFactory.toString(key));
+      expect(mockRedis.getBuffer).toHaveBeenCalledWith(
+        keyFactory.toString(key),
+      );
       expect(mockRedis.set).toHaveBeenCalledWith(
         keyFactory.toString(key),
         expect.stringContaining('"accessCount":1'),
@@ -195,7 +209,7 @@ describe('RedisCacheService', () => {
 
     it('should return null for non-existent key', async () => {
       const key = keyFactory.create('non-existent-key');
-      mockRedis.get.mockResolvedValue(null);
+      mockRedis.getBuffer.mockResolvedValue(null);
 
       const result = await service.get(key);
 
@@ -212,7 +226,9 @@ describe('RedisCacheService', () => {
         lastAccessed: Date.now() - 2000,
       };
 
-      mockRedis.get.mockResolvedValue(JSON.stringify(expiredValue));
+      mockRedis.getBuffer.mockResolvedValue(
+        Buffer.from(JSON.stringify(expiredValue)),
+      );
       mockRedis.del.mockResolvedValue(1);
 
       const result = await service.get(key);
@@ -223,7 +239,7 @@ describe('RedisCacheService', () => {
 
     it('should handle Redis error', async () => {
       const key = keyFactory.create('error-key');
-      mockRedis.get.mockRejectedValue(new Error('Redis error'));
+      mockRedis.getBuffer.mockRejectedValue(new Error('Redis error'));
 
       const result = await service.get(key);
 
@@ -264,6 +280,82 @@ describe('RedisCacheService', () => {
       );
     });
 
+    it('should register the key under every tag with the same TTL', async () => {
+      const key = keyFactory.create('test-key');
+
+      const result = await service.set(key, true, {
+        ttl: 60000,
+        tags: ['role:r1', 'tenant:t1'],
+      });
+
+      expect(result).toBe(true);
+      expect(mockRedis.setex).toHaveBeenCalledWith(
+        'test:key',
+        60,
+        expect.stringContaining('"tags":["role:r1","tenant:t1"]'),
+      );
+      expect(mockRedis.eval).toHaveBeenCalledWith(
+        expect.stringContaining('SADD'),
+        2,
+        'tag:{role:r1}',
+        'tag:{tenant:t1}',
+        'test:key',
+        60000,
+      );
+    });
+
+    it('should keep the value for the stale-while-revalidate window', async () => {
+      const key = keyFactory.create('test-key');
+
+      await service.set(key, 'value', {
+        ttl: 60000,
+        staleWhileRevalidate: 30000,
+        loadTime: 120,
+      });
+
+      expect(mockRedis.setex).toHaveBeenCalledWith(
+        'test:key',
+        90,
+        expect.any(String),
+      );
+      const stored = JSON.parse(mockRedis.setex.mock.calls[0][2] as string);
+      expect(stored.staleAt).toBe(Date.now() + 60000);
+      expect(stored.expiresAt).toBe(Date.now() + 90000);
+      expect(stored.loadTime).toBe(120);
+    });
+
+    it('should encrypt values in configured namespaces and read them back', async () => {
+      const encrypted = new RedisCacheService(
+        {
+          ...mockConfig,
+          codec: {
+            encryption: {
+              keys: { k1: Buffer.alloc(32, 1).toString('base64') },
+              currentKeyId: 'k1',
+              namespaces: ['session'],
+            },
+          },
+        },
+        keyFactory as any,
+        service['logger'],
+      );
+      (encrypted as any).redis = mockRedis;
+      (encrypted as any).isConnected = true;
+      const key = { key: 's1', namespace: 'session', tenantId: 't1' };
+
+      await encrypted.set(key, { token: 'secret-token' });
+
+      const stored = mockRedis.set.mock.calls[0][1] as unknown as Buffer;
+      expect(Buffer.isBuffer(stored)).toBe(true);
+      expect(stored.toString('latin1')).not.toContain('secret-token');
+
+      mockRedis.getBuffer.mockResolvedValue(stored);
+      await expect(encrypted.get(key)).resolves.toEqual({
+        token: 'secret-token',
+      });
+      expect(Buffer.isBuffer(mockRedis.set.mock.calls[1][1])).toBe(true);
+    });
+
     it('should handle Redis error', async () => {
       const key = keyFactory.create('error-key');
       const value = { data: 'test-data' };
@@ -346,18 +438,25 @@ describe('RedisCacheService', () => {
       expect(mockRedis.flushdb).toHaveBeenCalled();
     });
 
-    it('should clear cache by namespace', async () => {
+    it('should clear cache by namespace with SCAN instead of KEYS', async () => {
       const namespace = 'test-namespace';
-      const keys = ['test-namespace:key1', 'test-namespace:key2'];
+      const keys = ['v1:{test-namespace}:key1', 'v1:{test-namespace}:key2'];
 
-      mockRedis.keys.mockResolvedValue(keys);
-      mockRedis.del.mockResolvedValue(2);
+      mockRedis.scan.mockResolvedValue(['0', keys]);
+      mockRedis.unlink.mockResolvedValue(2);
 
       const result = await service.clear(namespace);
 
       expect(result).toBe(true);
-      expect(mockRedis.keys).toHaveBeenCalledWith(`${namespace}:*`);
-      expect(mockRedis.del).toHaveBeenCalledWith(...keys);
+      expect(mockRedis.scan).toHaveBeenCalledWith(
+        '0',
+        'MATCH',
+        `*:{${namespace}}:*`,
+        'COUNT',
+        500,
+      );
+      expect(mockRedis.unlink).toHaveBeenCalledWith(...keys);
+      expect(mockRedis.keys).not.toHaveBeenCalled();
     });
 
     it('should handle Redis error', async () => {
@@ -369,6 +468,186 @@ describe('RedisCacheService', () => {
     });
   });
 
+  describe('deleteByPattern', () => {
+    it('should follow the SCAN cursor and unlink each batch', async () => {
+      mockRedis.scan
+        .mockResolvedValueOnce(['17', ['a:1', 'a:2']])
+        .mockResolvedValueOnce(['42', []])
+        .mockResolvedValueOnce(['0', ['a:3']]);
+      mockRedis.unlink.mockResolvedValueOnce(2).mockResolvedValueOnce(1);
+      const onProgress = jest.fn();
+
+      const result = await service.deleteByPattern('a:*', {
+        batchSize: 2,
+        onProgress,
+      });
+
+      expect(result).toEqual({ scanned: 3, deleted: 3, aborted: false });
+      expect(mockRedis.scan).toHaveBeenNthCalledWith(
+        2,
+        '17',
+        'MATCH',
+        'a:*',
+        'COUNT',
+        2,
+      );
+      expect(mockRedis.unlink).toHaveBeenCalledTimes(2);
+      expect(onProgress).toHaveBeenNthCalledWith(1, {
+        scanned: 2,
+        deleted: 2,
+      });
+      expect(onProgress).toHaveBeenNthCalledWith(2, {
+        scanned: 3,
+        deleted: 3,
+      });
+    });
+
+    it('should stop between batches when aborted', async () => {
+      const controller = new AbortController();
+      mockRedis.scan.mockResolvedValue(['5', ['a:1']]);
+      mockRedis.unlink.mockImplementation(async () => {
+        controller.abort();
+        return 1;
+      });
+
+      const result = await service.deleteByPattern('a:*', {
+        signal: controller.signal,
+      });
+
+      expect(result).toEqual({ scanned: 1, deleted: 1, aborted: true });
+      expect(mockRedis.scan).toHaveBeenCalledTimes(1);
+    });
+
+    it('should scan every master and unlink by hash tag in cluster mode', async () => {
+      const master1 = {
+        scan: jest.fn().mockResolvedValue(['0', ['v1:{a}:1']]),
+      };
+      const master2 = {
+        scan: jest
+          .fn()
+          .mockResolvedValue(['0', ['v1:{a}:2', 'v1:{b}:1', 'plain']]),
+      };
+      const cluster = {
+        nodes: jest.fn().mockReturnValue([master1, master2]),
+        unlink: jest.fn(async (...keys: string[]) => keys.length),
+      };
+      (service as any).redis = cluster;
+      (service as any).config = {
+        ...mockConfig,
+        cluster: true,
+        nodes: [{ host: 'localhost', port: 7000 }],
+      };
+
+      const result = await service.deleteByPattern('v1:*');
+
+      expect(cluster.nodes).toHaveBeenCalledWith('master');
+      expect(master1.scan).toHaveBeenCalled();
+      expect(master2.scan).toHaveBeenCalled();
+      expect(cluster.unlink).toHaveBeenCalledWith('v1:{a}:1');
+      expect(cluster.unlink).toHaveBeenCalledWith('v1:{a}:2');
+      expect(cluster.unlink).toHaveBeenCalledWith('v1:{b}:1');
+      expect(cluster.unlink).toHaveBeenCalledWith('plain');
+      expect(result).toEqual({ scanned: 4, deleted: 4, aborted: false });
+    });
+  });
+
+  describe('load lock', () => {
+    it('should acquire the lock with SET NX PX next to the key', async () => {
+      const key = keyFactory.create('test-key');
+      mockRedis.set.mockResolvedValueOnce('OK').mockResolvedValueOnce(null);
+
+      const token = await service.acquireLock(key, 5000);
+      const second = await service.acquireLock(key, 5000);
+
+      expect(token).toEqual(expect.any(String));
+      expect(second).toBeNull();
+      expect(mockRedis.set).toHaveBeenCalledWith(
+        'lock:test:key',
+        token,
+        'PX',
+        5000,
+        'NX',
+      );
+    });
+
+    it('should release the lock only with the owning token', async () => {
+      const key = keyFactory.create('test-key');
+      mockRedis.eval.mockResolvedValueOnce(1).mockResolvedValueOnce(0);
+
+      expect(await service.releaseLock(key, 'token-1')).toBe(true);
+      expect(await service.releaseLock(key, 'token-2')).toBe(false);
+      expect(mockRedis.eval).toHaveBeenCalledWith(
+        expect.stringContaining("redis.call('GET', KEYS[1]) == ARGV[1]"),
+        1,
+        'lock:test:key',
+        'token-1',
+      );
+    });
+
+    it('should load a missing key once and cache the result', async () => {
+      const key = keyFactory.create('test-key');
+      mockRedis.getBuffer.mockResolvedValue(null);
+      mockRedis.set.mockResolvedValue('OK');
+      mockRedis.eval.mockResolvedValue(1);
+      const loader = jest.fn(async () => ['user:read']);
+
+      const results = await Promise.all([
+        service.getOrLoad(key, loader, { ttl: 60000 }),
+        service.getOrLoad(key, loader, { ttl: 60000 }),
+      ]);
+
+      expect(results).toEqual([['user:read'], ['user:read']]);
+      expect(loader).toHaveBeenCalledTimes(1);
+      expect(mockRedis.setex).toHaveBeenCalledWith(
+        'test:key',
+        60,
+        expect.stringContaining('"value":["user:read"]'),
+      );
+    });
+  });
+
+  describe('invalidateByTag', () => {
+    it('should delete the tagged keys and the tag set in one script', async () => {
+      mockRedis.eval.mockResolvedValue(3);
+
+      const deleted = await service.invalidateByTag('role:r1');
+
+      expect(deleted).toBe(3);
+      expect(mockRedis.eval).toHaveBeenCalledTimes(1);
+      expect(mockRedis.eval).toHaveBeenCalledWith(
+        expect.stringContaining('UNLINK'),
+        1,
+        'tag:{role:r1}',
+      );
+    });
+
+    it('should take the tag set atomically and unlink members by hash tag in cluster mode', async () => {
+      const cluster = {
+        eval: jest
+          .fn()
+          .mockResolvedValue(['v1:{perm}:1', 'v1:{perm}:2', 'v1:{user}:1']),
+        unlink: jest.fn(async (...keys: string[]) => keys.length),
+      };
+      (service as any).redis = cluster;
+      (service as any).config = {
+        ...mockConfig,
+        cluster: true,
+        nodes: [{ host: 'localhost', port: 7000 }],
+      };
+
+      const deleted = await service.invalidateByTag('role:r1');
+
+      expect(deleted).toBe(3);
+      expect(cluster.eval).toHaveBeenCalledWith(
+        expect.stringContaining('SMEMBERS'),
+        1,
+        'tag:{role:r1}',
+      );
+      expect(cluster.unlink).toHaveBeenCalledWith('v1:{perm}:1', 'v1:{perm}:2');
+      expect(cluster.unlink).toHaveBeenCalledWith('v1:{user}:1');
+    });
+  });
+
   describe('getStats', () => {
     it('should return cache statistics', async () => {
       const redisInfo = `
@@ -7,6 +7,11 @@
  * - 缓存统计和健康检查
  * - 连接管理和错误处理
  * - 序列化和反序列化
+ * - 基于SCAN的按模式删除
+ * - 基于标签索引的失效
+ * - 防击穿的getOrLoad和分布式加载锁
+ * - 频道发布和订阅
+ * - 可配置的序列化、压缩和加密
  *
  * 遵循DDD和Clean Architecture原则，提供高性能的分布式缓存。
  */
@@ -18,6 +23,7 @@ import {
   Inject,
 } from '@nestjs/common';
 import Redis, { Cluster } from 'ioredis';
+import { randomUUID } from 'crypto';
 import {
   ICacheService,
   CacheKey,
@@ -27,9 +33,13 @@ import {
   CacheHealth,
   CacheType,
   CacheStrategy,
+  CacheScanOptions,
+  CacheScanResult,
 } from '../interfaces/cache.interface';
 import type { ICacheKeyFactory } from '../interfaces/cache.interface';
 import { PinoLoggerService, LogContext } from '@aiofix/logging';
+import { CacheLoader } from './cache-loader';
+import { CacheCodec, CacheCodecConfig } from './cache-codec';
 
 /**
  * @interface RedisConfig
@@ -62,8 +72,73 @@ export interface RedisConfig {
   sentinels?: Array<{ host: string; port: number }>;
   /** 主节点名称 */
   name?: string;
+  /** 按模式删除时每次SCAN的COUNT */
+  scanCount?: number;
+  /** 缓存值编解码配置 */
+  codec?: CacheCodecConfig;
 }
 
+/**
+ * @constant REGISTER_TAG_SCRIPT
+ * @description 把缓存键加入标签集合，并让集合与其中存活最久的成员一起过期
+ *
+ * KEYS: 标签集合；ARGV[1]: 缓存键；ARGV[2]: 缓存键的过期毫秒数，0为不过期
+ */
+const REGISTER_TAG_SCRIPT = `
+local ttl = tonumber(ARGV[2])
+for i = 1, #KEYS do
+  local current = redis.call('PTTL', KEYS[i])
+  redis.call('SADD', KEYS[i], ARGV[1])
+  if ttl == 0 then
+    redis.call('PERSIST', KEYS[i])
+  elseif current == -2 or (current >= 0 and current < ttl) then
+    redis.call('PEXPIRE', KEYS[i], ttl)
+  end
+end
+return #KEYS
+`;
+
+/**
+ * @constant INVALIDATE_TAG_SCRIPT
+ * @description 删除标签集合中的所有缓存键和集合本身，单机模式下在一个脚本内完成
+ *
+ * KEYS[1]: 标签集合。UNLINK分块执行，避免unpack超出Lua栈限制。
+ */
+const INVALIDATE_TAG_SCRIPT = `
+local members = redis.call('SMEMBERS', KEYS[1])
+local deleted = 0
+for i = 1, #members, 500 do
+  deleted = deleted + redis.call('UNLINK', unpack(members, i, math.min(i + 499, #members)))
+end
+redis.call('DEL', KEYS[1])
+return deleted
+`;
+
+/**
+ * @constant TAKE_TAG_MEMBERS_SCRIPT
+ * @description 取出并删除标签集合，集群模式下成员分布在不同槽位，由调用方再分组删除
+ *
+ * KEYS[1]: 标签集合
+ */
+const TAKE_TAG_MEMBERS_SCRIPT = `
+local members = redis.call('SMEMBERS', KEYS[1])
+redis.call('DEL', KEYS[1])
+return members
+`;
+
+/**
+ * @constant RELEASE_LOCK_SCRIPT
+ * @description 令牌匹配时才删除锁，避免释放已过期后被其他进程重新获取的锁
+ *
+ * KEYS[1]: 锁键；ARGV[1]: 锁令牌
+ */
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
 /**
  * @class RedisCacheService
  * @description Redis缓存服务实现
@@ -73,6 +148,16 @@ export interface RedisConfig {
  * - 缓存统计和健康检查
  * - 连接管理和错误处理
  * - 序列化和反序列化
+ *
+ * 按模式删除（deleteByPattern、clear(namespace)）使用增量SCAN和分批UNLINK，
+ * 不会像KEYS那样阻塞Redis；集群模式下逐个扫描主节点，并按哈希标签分组删除，避免跨槽位命令。
+ *
+ * 写入带标签的值时，缓存键被加入每个标签的Redis集合（tag:{标签}），集合与其中存活最久的成员
+ * 一起过期。先写值再登记标签，并发失效时新值最多多存活一次，但不会脱离索引。
+ *
+ * getOrLoad的跨进程single-flight使用 lock:缓存键 上的 SET NX PX 锁，锁键与缓存键在同一个槽位。
+ *
+ * 缓存值经CacheCodec编码后写入，读取时按编码头解码；更新访问统计时按条目原来的编码重新写入。
  */
 @Injectable()
 export class RedisCacheService
@@ -91,12 +176,17 @@ export class RedisCacheService
     evictedEntries: 0,
     lastReset: Date.now(),
   };
+  private readonly loader: CacheLoader;
+  private readonly codec: CacheCodec;
 
   constructor(
     @Inject('REDIS_CONFIG') private readonly config: RedisConfig,
     @Inject('ICacheKeyFactory') private readonly keyFactory: ICacheKeyFactory,
     @Inject('PinoLoggerService') private readonly logger: PinoLoggerService,
-  ) {}
+  ) {
+    this.loader = new CacheLoader(this, logger);
+    this.codec = new CacheCodec(config.codec);
+  }
 
   /**
    * @method onModuleInit
@@ -218,7 +308,7 @@ export class RedisCacheService
   async get<T = unknown>(key: CacheKey): Promise<T | null> {
     try {
       const keyString = this.keyFactory.toString(key);
-      const result = await this.redis.get(keyString);
+      const result = await this.redis.getBuffer(keyString);
 
       if (result === null) {
         this.stats.misses++;
@@ -229,7 +319,11 @@ export class RedisCacheService
       this.stats.hits++;
       this.updateHitRate();
 
-      const cacheValue: CacheValue<T> = JSON.parse(result) as CacheValue<T>;
+      const { entry: cacheValue, options } = await this.codec.decode<T>(
+        result,
+        key,
+        keyString,
+      );
 
       // 检查是否过期
       if (cacheValue.expiresAt && Date.now() > cacheValue.expiresAt) {
@@ -243,7 +337,10 @@ export class RedisCacheService
       // 更新访问统计
       cacheValue.accessCount++;
       cacheValue.lastAccessed = Date.now();
-      await this.redis.set(keyString, JSON.stringify(cacheValue));
+      await this.redis.set(
+        keyString,
+        await this.codec.encode(cacheValue, key, keyString, options),
+      );
 
       return cacheValue.value;
     } catch (error) {
@@ -259,6 +356,98 @@ export class RedisCacheService
     }
   }
 
+  /**
+   * @method getEntry
+   * @description 获取包含过期信息的缓存条目，不更新访问统计
+   * @param key 缓存键
+   * @returns 缓存条目或null
+   */
+  async getEntry<T = unknown>(key: CacheKey): Promise<CacheValue<T> | null> {
+    try {
+      const keyString = this.keyFactory.toString(key);
+      const result = await this.redis.getBuffer(keyString);
+      const cacheValue =
+        result === null
+          ? null
+          : (await this.codec.decode<T>(result, key, keyString)).entry;
+
+      if (
+        !cacheValue ||
+        (cacheValue.expiresAt && Date.now() > cacheValue.expiresAt)
+      ) {
+        this.stats.misses++;
+        this.updateHitRate();
+        return null;
+      }
+
+      this.stats.hits++;
+      this.updateHitRate();
+      return cacheValue;
+    } catch (error) {
+      this.logger.error(
+        'Error getting cache entry',
+        LogContext.CACHE,
+        undefined,
+        error as Error,
+      );
+      this.stats.misses++;
+      this.updateHitRate();
+      return null;
+    }
+  }
+
+  /**
+   * @method getOrLoad
+   * @description 获取缓存值，未命中时加载，跨进程同一个键同时只有一个加载
+   * @param key 缓存键
+   * @param loader 加载函数
+   * @param options 缓存选项
+   * @returns 缓存值或加载结果
+   */
+  async getOrLoad<T = unknown>(
+    key: CacheKey,
+    loader: () => Promise<T>,
+    options?: Partial<CacheOptions>,
+  ): Promise<T> {
+    return this.loader.load(key, loader, options);
+  }
+
+  /**
+   * @method acquireLock
+   * @description 获取键的加载锁
+   * @param key 缓存键
+   * @param ttl 锁持有时间（毫秒）
+   * @returns 锁令牌，锁被占用时返回null
+   */
+  async acquireLock(key: CacheKey, ttl: number): Promise<string | null> {
+    const token = randomUUID();
+    const result = await this.redis.set(
+      this.getLockKey(key),
+      token,
+      'PX',
+      ttl,
+      'NX',
+    );
+    return result === 'OK' ? token : null;
+  }
+
+  /**
+   * @method releaseLock
+   * @description 释放键的加载锁
+   * @param key 缓存键
+   * @param token 锁令牌
+   * @returns 是否释放
+   */
+  async releaseLock(key: CacheKey, token: string): Promise<boolean> {
+    const released = await this.redis.eval(
+      RELEASE_LOCK_SCRIPT,
+      1,
+      this.getLockKey(key),
+      token,
+    );
+    return released === 1;
+  }
+
   /**
    * @method set
    * @description 设置缓存值
@@ -275,6 +464,10 @@ export class RedisCacheService
     try {
       const keyString = this.keyFactory.toString(key);
       const now = Date.now();
+      const tags = mergeTags(key.tags, options?.tags);
+      // 宽限期内保留旧值，实际过期时间为ttl加宽限期
+      const staleWindow = options?.staleWhileRevalidate ?? 0;
+      const storeTtl = options?.ttl ? options.ttl + staleWindow : undefined;
 
       const cacheValue: CacheValue<T> = {
         value,
@@ -282,7 +475,8 @@ export class RedisCacheService
         accessCount: 0,
         lastAccessed: now,
         version: key.version,
-        tags: key.tags,
+        tags,
+        loadTime: options?.loadTime,
         metadata: {
           type: CacheType.REDIS,
           strategy: options?.strategy ?? CacheStrategy.TTL,
@@ -290,24 +484,41 @@ export class RedisCacheService
       };
 
       // 设置过期时间
-      if (options?.ttl) {
-        cacheValue.expiresAt = now + options.ttl;
+      if (options?.ttl && storeTtl) {
+        cacheValue.expiresAt = now + storeTtl;
+        if (staleWindow > 0) {
+          cacheValue.staleAt = now + options.ttl;
+        }
       }
 
-      const serializedValue = JSON.stringify(cacheValue);
-      const valueSize = Buffer.byteLength(serializedValue, 'utf8');
+      const serializedValue = await this.codec.encode(
+        cacheValue,
+        key,
+        keyString,
+        options,
+      );
+      const valueSize = Buffer.byteLength(serializedValue);
 
       // 使用Redis的EXPIRE命令设置过期时间
-      if (options?.ttl) {
+      if (storeTtl) {
         await this.redis.setex(
           keyString,
-          Math.ceil(options.ttl / 1000),
+          Math.ceil(storeTtl / 1000),
           serializedValue,
         );
       } else {
         await this.redis.set(keyString, serializedValue);
       }
 
+      // 登记标签索引，与setex一样按整秒计算过期时间
+      if (tags.length > 0) {
+        await this.registerTags(
+          keyString,
+          tags,
+          storeTtl ? Math.ceil(storeTtl / 1000) * 1000 : 0,
+        );
+      }
+
       // 更新统计
       this.stats.totalEntries++;
       this.stats.totalSize += valueSize;
@@ -380,19 +591,16 @@ export class RedisCacheService
    * @method clear
    * @description 清空缓存
    * @param namespace 命名空间（可选）
-   * @returns 是否成功
+   * @returns 是否成功，指定命名空间时删除未完成也返回false
    */
   async clear(namespace?: string): Promise<boolean> {
     try {
       if (namespace) {
-        // 使用模式匹配删除指定命名空间的所有键
-        const pattern = `${namespace}:*`;
-        const keys = await this.redis.keys(pattern);
-
-        if (keys.length > 0) {
-          await this.redis.del(...keys);
-          this.stats.totalEntries -= keys.length;
-        }
+        // 增量扫描删除指定命名空间的所有键
+        const result = await this.deleteByPattern(
+          this.keyFactory.createNamespacePattern(namespace),
+        );
+        return !result.aborted;
       } else {
         // 清空整个数据库
         await this.redis.flushdb();
@@ -413,6 +621,175 @@ export class RedisCacheService
     }
   }
 
+  /**
+   * @method deleteByPattern
+   * @description 按glob模式分批删除缓存键
+   *
+   * 流程：
+   * 1. 对每个主节点（非集群时即当前连接）执行 SCAN cursor MATCH pattern COUNT n
+   * 2. 每批扫描结果立即用UNLINK删除，集群模式下按哈希标签分组，同组的键在同一槽位
+   * 3. 每批删除后回调onProgress，批次之间检查中止信号
+   *
+   * SCAN可能重复返回同一个键，重复的键UNLINK返回0，不影响删除数量。
+   *
+   * @param pattern 键字符串的glob模式
+   * @param options 扫描选项
+   * @returns 删除结果
+   * @throws 当扫描或删除失败时抛出，已删除的键不会恢复
+   */
+  async deleteByPattern(
+    pattern: string,
+    options?: CacheScanOptions,
+  ): Promise<CacheScanResult> {
+    const count = options?.batchSize ?? this.config.scanCount ?? 500;
+    const progress = { scanned: 0, deleted: 0 };
+    let aborted = false;
+
+    try {
+      for (const node of this.getScanNodes()) {
+        let cursor = '0';
+        do {
+          if (options?.signal?.aborted) {
+            aborted = true;
+            break;
+          }
+
+          const [nextCursor, keys] = await node.scan(
+            cursor,
+            'MATCH',
+            pattern,
+            'COUNT',
+            count,
+          );
+          cursor = nextCursor;
+
+          if (keys.length > 0) {
+            progress.scanned += keys.length;
+            progress.deleted += await this.unlinkKeys(keys);
+            options?.onProgress?.({ ...progress });
+          }
+        } while (cursor !== '0');
+
+        if (aborted) {
+          break;
+        }
+      }
+    } finally {
+      this.stats.totalEntries = Math.max(
+        0,
+        this.stats.totalEntries - progress.deleted,
+      );
+    }
+
+    if (aborted) {
+      this.logger.warn(
+        `Pattern deletion aborted: ${pattern}, deleted ${progress.deleted} keys`,
+        LogContext.CACHE,
+      );
+    }
+
+    return { ...progress, aborted };
+  }
+
+  /**
+   * @method invalidateByTag
+   * @description 删除带有指定标签的所有缓存键
+   *
+   * 单机模式下读取集合、删除成员和删除集合在一个Lua脚本中原子完成。
+   * 集群模式下成员可能分布在多个槽位：先用脚本原子地取出并删除集合，之后写入的键进入新集合，
+   * 再按哈希标签分组删除取出的成员。
+   *
+   * @param tag 标签
+   * @returns 删除的键数量
+   * @throws 当Redis命令失败时抛出
+   */
+  async invalidateByTag(tag: string): Promise<number> {
+    const tagKey = this.keyFactory.createTagKey(tag);
+    let deleted = 0;
+
+    if (!this.isCluster(this.redis)) {
+      deleted = (await this.redis.eval(
+        INVALIDATE_TAG_SCRIPT,
+        1,
+        tagKey,
+      )) as number;
+    } else {
+      const members = (await this.redis.eval(
+        TAKE_TAG_MEMBERS_SCRIPT,
+        1,
+        tagKey,
+      )) as string[];
+      for (let i = 0; i < members.length; i += 500) {
+        deleted += await this.unlinkKeys(members.slice(i, i + 500));
+      }
+    }
+
+    this.stats.totalEntries = Math.max(0, this.stats.totalEntries - deleted);
+    return deleted;
+  }
+
+  /**
+   * @method publish
+   * @description 向频道发布消息
+   * @param channel 频道
+   * @param message 消息
+   * @returns 收到消息的订阅者数量
+   */
+  async publish(channel: string, message: string): Promise<number> {
+    return this.redis.publish(channel, message);
+  }
+
+  /**
+   * @method subscribe
+   * @description 用独立连接订阅频道
+   *
+   * 订阅连接断线重连后ioredis会自动重新订阅，并回调onReconnect，断线期间发布的消息已经丢失。
+   *
+   * @param channel 频道
+   * @param onMessage 消息回调
+   * @param onReconnect 重连后的回调
+   * @returns 取消订阅并关闭订阅连接的函数
+   */
+  async subscribe(
+    channel: string,
+    onMessage: (message: string) => void,
+    onReconnect?: () => void,
+  ): Promise<() => Promise<void>> {
+    const subscriber = this.redis.duplicate();
+    let ready = false;
+
+    subscriber.on('ready', () => {
+      if (ready) {
+        this.logger.info(
+          `Redis subscriber reconnected: ${channel}`,
+          LogContext.CACHE,
+        );
+        onReconnect?.();
+      }
+      ready = true;
+    });
+    subscriber.on('error', error => {
+      this.logger.warn(
+        `Redis subscriber error: ${channel}`,
+        LogContext.CACHE,
+        undefined,
+        error as Error,
+      );
+    });
+    subscriber.on('message', (receivedChannel: string, message: string) => {
+      if (receivedChannel === channel) {
+        onMessage(message);
+      }
+    });
+
+    await subscriber.subscribe(channel);
+
+    return async () => {
+      await subscriber.unsubscribe(channel);
+      await subscriber.quit();
+    };
+  }
+
   /**
    * @method getStats
    * @description 获取缓存统计
@@ -496,6 +873,91 @@ export class RedisCacheService
     };
   }
 
+  /**
+   * @private getScanNodes
+   * @description 获取需要扫描的节点，集群模式下为所有主节点
+   */
+  private getScanNodes(): Redis[] {
+    return this.isCluster(this.redis)
+      ? this.redis.nodes('master')
+      : [this.redis as Redis];
+  }
+
+  /**
+   * @private isCluster
+   * @description 是否为集群连接，与connect中创建连接的条件一致
+   */
+  private isCluster(redis: Redis | Cluster): redis is Cluster {
+    return Boolean(this.config.cluster && this.config.nodes);
+  }
+
+  /**
+   * @private getLockKey
+   * @description 获取键的加载锁键，保留缓存键的哈希标签
+   */
+  private getLockKey(key: CacheKey): string {
+    return `lock:${this.keyFactory.toString(key)}`;
+  }
+
+  /**
+   * @private registerTags
+   * @description 把缓存键登记到标签集合，集群模式下每个标签集合在不同槽位，逐个执行
+   * @param keyString 缓存键
+   * @param tags 标签
+   * @param ttl 缓存键的过期毫秒数，0为不过期
+   */
+  private async registerTags(
+    keyString: string,
+    tags: string[],
+    ttl: number,
+  ): Promise<void> {
+    const tagKeys = tags.map(tag => this.keyFactory.createTagKey(tag));
+
+    if (!this.isCluster(this.redis)) {
+      await this.redis.eval(
+        REGISTER_TAG_SCRIPT,
+        tagKeys.length,
+        ...tagKeys,
+        keyString,
+        ttl,
+      );
+      return;
+    }
+
+    const cluster = this.redis;
+    await Promise.all(
+      tagKeys.map(tagKey =>
+        cluster.eval(REGISTER_TAG_SCRIPT, 1, tagKey, keyString, ttl),
+      ),
+    );
+  }
+
+  /**
+   * @private unlinkKeys
+   * @description 删除一批键，集群模式下按哈希标签分组，每组一条UNLINK
+   * @param keys 键列表
+   * @returns 删除的键数量
+   */
+  private async unlinkKeys(keys: string[]): Promise<number> {
+    if (!this.isCluster(this.redis)) {
+      return this.redis.unlink(...keys);
+    }
+
+    const groups = new Map<string, string[]>();
+    for (const key of keys) {
+      const slotKey = getHashTag(key) ?? key;
+      const group = groups.get(slotKey) ?? [];
+      group.push(key);
+      groups.set(slotKey, group);
+    }
+
+    const cluster = this.redis;
+    const deleted = await Promise.all(
+      [...groups.values()].map(group => cluster.unlink(...group)),
+    );
+    return deleted.reduce((sum, value) => sum + value, 0);
+  }
+
   /**
    * @private updateHitRate
    * @description 更新命中率
@@ -505,3 +967,29 @@ export class RedisCacheService
     this.stats.hitRate = total > 0 ? this.stats.hits / total : 0;
   }
 }
+
+/**
+ * @function getHashTag
+ * @description 按Redis Cluster规则提取键的哈希标签：第一个 { 与其后第一个 } 之间的非空内容
+ * @param key 键
+ * @returns 哈希标签，没有时返回undefined
+ */
+function getHashTag(key: string): string | undefined {
+  const start = key.indexOf('{');
+  if (start === -1) {
+    return undefined;
+  }
+  const end = key.indexOf('}', start + 1);
+  return end > start + 1 ? key.slice(start + 1, end) : undefined;
+}
+
+/**
+ * @function mergeTags
+ * @description 合并键上的标签和写入选项中的标签并去重
+ * @param keyTags 键上的标签
+ * @param optionTags 写入选项中的标签
+ * @returns 标签列表
+ */
+function mergeTags(keyTags?: string[], optionTags?: string[]): string[] {
+  return [...new Set([...(keyTags ?? []), ...(optionTags ?? [])])];
+}
@@ -0,0 +1,173 @@
+/**
+ * @file redis-message-queue.integration.spec.ts
+ * @description Redis消息队列集成测试，在本地Redis容器上运行消息队列契约测试
+ */
+
+import Redis from 'ioredis';
+import { RedisContainer, StartedRedisContainer } from '@testcontainers/redis';
+import { DomainEvent, EventTypeRegistry, JobOptions } from '@aiofix/core';
+import { PinoLoggerService } from '@aiofix/logging';
+import { describeMessageQueueContract } from '../../../../tests/utils/message-queue.contract';
+import { RedisMessageQueue } from './redis-message-queue.service';
+
+class ParcelShippedEvent extends DomainEvent {
+  constructor(aggregateId: string) {
+    super(aggregateId);
+  }
+
+  toJSON(): Record<string, unknown> {
+    return {};
+  }
+}
+
+let container: StartedRedisContainer;
+let redis: Redis;
+let run = 0;
+
+const logger = {
+  info: jest.fn(),
+  error: jest.fn(),
+} as unknown as PinoLoggerService;
+
+beforeAll(async () => {
+  container = await new RedisContainer('redis:7-alpine').start();
+  redis = new Redis(container.getConnectionUrl());
+}, 60000);
+
+afterAll(async () => {
+  await redis.quit();
+  await container.stop();
+});
+
+describeMessageQueueContract(
+  'RedisMessageQueue',
+  async registry =>
+    new RedisMessageQueue(redis, logger, {
+      keyPrefix: `mq-contract-${++run}:`,
+      pollIntervalMs: 50,
+      eventTypeRegistry: registry,
+    }),
+);
+
+describe('RedisMessageQueue across processes', () => {
+  const registry = new EventTypeRegistry().register(ParcelShippedEvent, {
+    deserialize: ({ aggregateId }) => new ParcelShippedEvent(aggregateId),
+  });
+  const options = {
+    keyPrefix: 'mq-shared:',
+    pollIntervalMs: 50,
+    leaseMs: 200,
+    eventTypeRegistry: registry,
+  };
+
+  beforeEach(() => {
+    jest.spyOn(Date, 'now').mockImplementation(() => new Date().getTime());
+  });
+
+  afterEach(async () => {
+    await new RedisMessageQueue(redis, logger, options).deleteQueue(
+      'domain-events',
+    );
+  });
+
+  it('should deliver messages published by another instance', async () => {
+    const producer = new RedisMessageQueue(redis, logger, options);
+    await producer.publishEvent(new ParcelShippedEvent('parcel-1'));
+
+    const consumer = new RedisMessageQueue(redis, logger, options);
+    const received: string[] = [];
+    await consumer.consumeEvents('domain-events', async event => {
+      received.push(event.aggregateId);
+    });
+    await consumer.start();
+
+    await new Promise(resolve => setTimeout(resolve, 300));
+    await consumer.stop();
+
+    expect(received).toEqual(['parcel-1']);
+  });
+
+  /**
+   * 启动一个处理器永不返回的实例，随后断开其Redis连接模拟进程崩溃
+   */
+  const crashWhileProcessing = async (
+    event: ParcelShippedEvent,
+    publishOptions: JobOptions,
+  ): Promise<void> => {
+    const connection = new Redis(container.getConnectionUrl());
+    const crashed = new RedisMessageQueue(connection, logger, options);
+    let claimed = false;
+    await crashed.consumeEvents('domain-events', () => {
+      claimed = true;
+      return new Promise(() => {});
+    });
+    await crashed.start();
+    await crashed.publishEvent(event, publishOptions);
+    while (!claimed) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    void crashed.stop();
+    connection.disconnect();
+  };
+
+  it('should redeliver messages whose lease expired', async () => {
+    await crashWhileProcessing(new ParcelShippedEvent('parcel-2'), {
+      backoff: { type: 'fixed', delay: 0 },
+    });
+
+    const survivor = new RedisMessageQueue(redis, logger, options);
+    const received: string[] = [];
+    await survivor.consumeEvents('domain-events', async event => {
+      received.push(event.aggregateId);
+    });
+    await survivor.start();
+
+    await new Promise(resolve => setTimeout(resolve, 600));
+    await survivor.stop();
+
+    expect(received).toEqual(['parcel-2']);
+  });
+
+  it('should count an expired lease as a failed attempt', async () => {
+    await crashWhileProcessing(new ParcelShippedEvent('parcel-3'), {
+      attempts: 1,
+    });
+
+    const survivor = new RedisMessageQueue(redis, logger, options);
+    const received: string[] = [];
+    await survivor.consumeEvents('domain-events', async event => {
+      received.push(event.aggregateId);
+    });
+    await survivor.start();
+
+    await new Promise(resolve => setTimeout(resolve, 600));
+    const [deadLetter] = await survivor.getDeadLetters('domain-events');
+    await survivor.stop();
+
+    expect(received).toEqual([]);
+    expect(deadLetter.message.attempts).toBe(1);
+    expect(deadLetter.reason).toContain('expired');
+  });
+
+  it('should renew the lease while a slow handler runs', async () => {
+    const received: string[] = [];
+    const slow = new RedisMessageQueue(redis, logger, options);
+    await slow.consumeEvents('domain-events', async event => {
+      await new Promise(resolve => setTimeout(resolve, 600));
+      received.push(event.aggregateId);
+    });
+    const other = new RedisMessageQueue(redis, logger, options);
+    await other.consumeEvents('domain-events', async event => {
+      received.push(event.aggregateId);
+    });
+
+    await slow.start();
+    await slow.publishEvent(new ParcelShippedEvent('parcel-4'));
+    await other.start();
+
+    await new Promise(resolve => setTimeout(resolve, 900));
+    await Promise.all([slow.stop(), other.stop()]);
+
+    expect(received).toEqual(['parcel-4']);
+  });
+});
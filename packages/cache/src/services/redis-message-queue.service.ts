@@ -0,0 +1,959 @@
+/**
+ * @file redis-message-queue.service.ts
+ * @description 基于Redis的消息队列
+ *
+ * 该文件实现了持久化的IMessageQueue，多个进程（gateway、monolith、microservices）
+ * 可以共享同一组队列：
+ * - 消息、延迟任务、处理中任务和死信都保存在Redis中，进程重启不丢失
+ * - 占用消息使用Lua脚本原子执行，同一消息不会被两个进程同时处理
+ * - 处理中的消息带有租约，处理期间定期续约；进程崩溃后租约到期的消息记为一次失败，
+ *   按退避重新入队（至少一次投递），重试耗尽后进入死信队列
+ */
+
+import type { Cluster, Redis } from 'ioredis';
+import {
+  calculateRetryDelay,
+  createDefaultQueueConfig,
+  createDomainEventMessage,
+  createQueueMessage,
+  DeadLetter,
+  DeadLetterEdit,
+  DeadLetterNotFoundError,
+  DomainEvent,
+  EventTypeRegistry,
+  eventTypeRegistry as defaultEventTypeRegistry,
+  FailedJob,
+  IMessage,
+  IMessageQueue,
+  JobOptions,
+  PoisonMessageError,
+  prepareRequeue,
+  QueueConfig,
+  QueueStatistics,
+  recordMessageFailure,
+  restoreDomainEvent,
+  SerializedDomainEvent,
+  toFailedJob,
+} from '@aiofix/core';
+import { PinoLoggerService, LogContext } from '@aiofix/logging';
+
+/**
+ * @interface RedisMessageQueueOptions
+ * @description Redis消息队列配置选项
+ */
+export interface RedisMessageQueueOptions {
+  /** 键前缀，默认 'mq:' */
+  keyPrefix?: string;
+  /** 轮询间隔（毫秒），默认1000 */
+  pollIntervalMs?: number;
+  /** 处理中消息的租约时长（毫秒），处理期间每隔三分之一租约续约一次，默认30000 */
+  leaseMs?: number;
+  /** 事件类型注册表，默认使用全局注册表 */
+  eventTypeRegistry?: EventTypeRegistry;
+}
+
+/**
+ * 原子占用消息：队列未暂停时按分数弹出消息并登记租约。
+ * KEYS: waiting, active, messages, paused
+ * ARGV: 租约到期时间, 数量
+ */
+const CLAIM_SCRIPT = `
+if redis.call('EXISTS', KEYS[4]) == 1 then
+  return {}
+end
+local popped = redis.call('ZPOPMIN', KEYS[1], ARGV[2])
+local result = {}
+for i = 1, #popped, 2 do
+  local id = popped[i]
+  local payload = redis.call('HGET', KEYS[3], id)
+  if payload then
+    redis.call('ZADD', KEYS[2], ARGV[1], id)
+    table.insert(result, payload)
+  end
+end
+return result
+`;
+
+/**
+ * @class MessageLeaseExpiredError
+ * @description 处理中消息的租约到期（处理进程崩溃或失联）时记录的失败原因
+ */
+class MessageLeaseExpiredError extends Error {
+  constructor(messageId: string) {
+    super(`Lease of message ${messageId} expired before it was acknowledged`);
+    this.name = 'MessageLeaseExpiredError';
+  }
+}
+
+/** 等待队列分数中优先级的权重，同一优先级内按入队序号排序 */
+const PRIORITY_WEIGHT = 1e12;
+
+/**
+ * @class RedisMessageQueue
+ * @description
+ * Redis消息队列实现，与InMemoryMessageQueue遵循相同的契约。
+ *
+ * 数据结构（每个队列的键带有 {queueName} 哈希标签，兼容Redis集群）：
+ * - config：队列配置（JSON）
+ * - waiting：有序集合，分数 = 优先级 * 权重 + 入队序号，数值越小越先处理
+ * - delayed：有序集合，分数为可执行时间
+ * - active：有序集合，分数为租约到期时间，处理期间由心跳续约
+ * - messages：哈希，消息ID到消息JSON
+ * - dead / dead-index：死信JSON和按进入时间排序的索引
+ * - paused：暂停标记
+ * - stats：完成数量和累计处理时间
+ *
+ * 任务选项：
+ * 1. delay：进入delayed，到期后移入waiting
+ * 2. priority：数值越小越先处理
+ * 3. attempts / backoff：失败后按退避延迟重试，耗尽后进入死信队列
+ *
+ * @example
+ * ```typescript
+ * const redis = new Redis(redisConfig.connection);
+ * const messageQueue = new RedisMessageQueue(redis, logger, {
+ *   pollIntervalMs: 500,
+ * });
+ * await messageQueue.consumeEvents('domain-events', handleEvent);
+ * await messageQueue.start();
+ * ```
+ * @since 1.0.0
+ */
+export class RedisMessageQueue implements IMessageQueue {
+  private readonly keyPrefix: string;
+  private readonly pollIntervalMs: number;
+  private readonly leaseMs: number;
+  private readonly eventTypeRegistry: EventTypeRegistry;
+
+  private readonly queueConfigs: Map<string, QueueConfig> = new Map();
+  private readonly consumers: Map<
+    string,
+    (message: IMessage) => Promise<void>
+  > = new Map();
+  private readonly processing: Map<string, number> = new Map();
+  private readonly polling: Set<string> = new Set();
+  private readonly inFlight: Set<Promise<void>> = new Set();
+
+  private isStarted = false;
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private readonly redis: Redis | Cluster,
+    private readonly logger: PinoLoggerService,
+    options: RedisMessageQueueOptions = {},
+  ) {
+    this.keyPrefix = options.keyPrefix ?? 'mq:';
+    this.pollIntervalMs = options.pollIntervalMs ?? 1000;
+    this.leaseMs = options.leaseMs ?? 30000;
+    this.eventTypeRegistry =
+      options.eventTypeRegistry ?? defaultEventTypeRegistry;
+  }
+
+  async publishEvent(event: DomainEvent, options?: JobOptions): Promise<void> {
+    await this.publishSerializedEvent(
+      this.eventTypeRegistry.serialize(event),
+      options,
+    );
+  }
+
+  async publishSerializedEvent(
+    event: SerializedDomainEvent,
+    options?: JobOptions,
+  ): Promise<void> {
+    const message = createDomainEventMessage(event, options);
+    await this.enqueueMessage('domain-events', message);
+    this.logger.info(
+      `Published domain event: ${event.eventType}`,
+      LogContext.CACHE,
+    );
+  }
+
+  async publishCommand(command: object, options?: JobOptions): Promise<void> {
+    const message = createQueueMessage('COMMAND', command, options);
+    await this.enqueueMessage('commands', message);
+    this.logger.info(
+      `Published command: ${message.commandType ?? 'Unknown'}`,
+      LogContext.CACHE,
+    );
+  }
+
+  async publishQuery(query: object, options?: JobOptions): Promise<void> {
+    const message = createQueueMessage('QUERY', query, options);
+    await this.enqueueMessage('queries', message);
+    this.logger.info(
+      `Published query: ${message.queryType ?? 'Unknown'}`,
+      LogContext.CACHE,
+    );
+  }
+
+  async publishIntegrationEvent(
+    integrationEvent: object,
+    options?: JobOptions,
+  ): Promise<void> {
+    const message = createQueueMessage(
+      'INTEGRATION_EVENT',
+      integrationEvent,
+      options,
+    );
+    await this.enqueueMessage('integration-events', message);
+    this.logger.info(
+      `Published integration event: ${integrationEvent.constructor.name}`,
+      LogContext.CACHE,
+    );
+  }
+
+  async consumeEvents(
+    queueName: string,
+    processor: (event: DomainEvent) => Promise<void>,
+  ): Promise<void> {
+    await this.consumeMessages(queueName, async (message: IMessage) => {
+      if (message.type === 'DOMAIN_EVENT') {
+        let event: DomainEvent;
+        try {
+          event = restoreDomainEvent(message, this.eventTypeRegistry);
+        } catch (error) {
+          throw new PoisonMessageError(message.id, error);
+        }
+        await processor(event);
+      }
+    });
+  }
+
+  async consumeCommands(
+    queueName: string,
+    processor: (command: unknown) => Promise<void>,
+  ): Promise<void> {
+    await this.consumeMessages(queueName, async (message: IMessage) => {
+      if (message.type === 'COMMAND') {
+        await processor(message.data);
+      }
+    });
+  }
+
+  async consumeQueries(
+    queueName: string,
+    processor: (query: unknown) => Promise<void>,
+  ): Promise<void> {
+    await this.consumeMessages(queueName, async (message: IMessage) => {
+      if (message.type === 'QUERY') {
+        await processor(message.data);
+      }
+    });
+  }
+
+  async createQueue(config: QueueConfig): Promise<void> {
+    await this.redis.set(
+      this.key(config.name, 'config'),
+      JSON.stringify(config),
+    );
+    this.queueConfigs.set(config.name, config);
+    this.logger.info(`Created queue: ${config.name}`, LogContext.CACHE);
+  }
+
+  async deleteQueue(queueName: string): Promise<void> {
+    await this.redis.del(
+      this.key(queueName, 'config'),
+      this.key(queueName, 'paused'),
+      this.key(queueName, 'stats'),
+      this.key(queueName, 'seq'),
+      ...this.dataKeys(queueName),
+    );
+    this.queueConfigs.delete(queueName);
+    this.consumers.delete(queueName);
+    this.logger.info(`Deleted queue: ${queueName}`, LogContext.CACHE);
+  }
+
+  async getQueueStatistics(queueName: string): Promise<QueueStatistics> {
+    const config = await this.getQueueConfig(queueName);
+    const results = await this.redis
+      .multi()
+      .zcard(this.key(queueName, 'waiting'))
+      .zcard(this.key(queueName, 'active'))
+      .zcard(this.key(queueName, 'delayed'))
+      .zcard(this.key(queueName, 'dead-index'))
+      .zrange(this.key(queueName, 'dead-index'), 0, 0, 'WITHSCORES')
+      .exists(this.key(queueName, 'paused'))
+      .hmget(this.key(queueName, 'stats'), 'completed', 'processingTime')
+      .exec();
+    const [waiting, active, delayed, deadLettered, oldest, paused, stats] = (
+      results ?? []
+    ).map(([error, value]) => {
+      if (error) {
+        throw error;
+      }
+      return value;
+    }) as [number, number, number, number, string[], number, (string | null)[]];
+
+    const completed = Number(stats[0] ?? 0);
+    const processingTime = Number(stats[1] ?? 0);
+
+    return {
+      name: queueName,
+      waiting,
+      active,
+      completed,
+      failed: deadLettered,
+      delayed,
+      deadLettered,
+      oldestDeadLetteredAt:
+        oldest.length > 0 ? new Date(Number(oldest[1])) : undefined,
+      paused: paused === 1,
+      concurrency: config?.concurrency ?? 1,
+      averageProcessingTime: completed > 0 ? processingTime / completed : 0,
+      throughput: 0, // 简化实现，不计算吞吐量
+    };
+  }
+
+  async pauseQueue(queueName: string): Promise<void> {
+    await this.redis.set(this.key(queueName, 'paused'), '1');
+    this.logger.info(`Queue paused: ${queueName}`, LogContext.CACHE);
+  }
+
+  async resumeQueue(queueName: string): Promise<void> {
+    await this.redis.del(this.key(queueName, 'paused'));
+    this.logger.info(`Queue resumed: ${queueName}`, LogContext.CACHE);
+    void this.pollQueue(queueName);
+  }
+
+  async clearQueue(queueName: string): Promise<void> {
+    await this.redis.del(...this.dataKeys(queueName));
+    this.logger.info(`Cleared queue: ${queueName}`, LogContext.CACHE);
+  }
+
+  async retryFailedJobs(queueName: string): Promise<number> {
+    const deadLetters = await this.getDeadLetters(queueName, -1);
+
+    let retryCount = 0;
+    for (const deadLetter of deadLetters) {
+      if (await this.takeDeadLetter(queueName, deadLetter.id)) {
+        await this.enqueueMessage(queueName, prepareRequeue(deadLetter));
+        retryCount++;
+      }
+    }
+
+    this.logger.info(
+      `Retried ${retryCount} failed jobs in queue: ${queueName}`,
+      LogContext.CACHE,
+    );
+    return retryCount;
+  }
+
+  async getFailedJobs(
+    queueName: string,
+    limit: number = 100,
+  ): Promise<FailedJob[]> {
+    const deadLetters = await this.getDeadLetters(queueName, limit);
+    return deadLetters.map(toFailedJob);
+  }
+
+  async getDeadLetters(
+    queueName: string,
+    limit: number = 100,
+  ): Promise<DeadLetter[]> {
+    if (limit === 0) {
+      return [];
+    }
+
+    const ids = await this.redis.zrange(
+      this.key(queueName, 'dead-index'),
+      0,
+      limit < 0 ? -1 : limit - 1,
+    );
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const payloads = await this.redis.hmget(
+      this.key(queueName, 'dead'),
+      ...ids,
+    );
+    return payloads
+      .filter((payload): payload is string => payload !== null)
+      .map(payload => parseDeadLetter(payload));
+  }
+
+  async requeueDeadLetter(
+    queueName: string,
+    deadLetterId: string,
+    edit: DeadLetterEdit = {},
+  ): Promise<void> {
+    const deadLetter = await this.takeDeadLetter(queueName, deadLetterId);
+    if (!deadLetter) {
+      throw new DeadLetterNotFoundError(queueName, deadLetterId);
+    }
+
+    await this.enqueueMessage(queueName, prepareRequeue(deadLetter, edit));
+    this.logger.info(
+      `Requeued dead letter ${deadLetterId} to queue: ${queueName}`,
+      LogContext.CACHE,
+    );
+  }
+
+  async discardDeadLetter(
+    queueName: string,
+    deadLetterId: string,
+  ): Promise<void> {
+    const deadLetter = await this.takeDeadLetter(queueName, deadLetterId);
+    if (!deadLetter) {
+      throw new DeadLetterNotFoundError(queueName, deadLetterId);
+    }
+
+    this.logger.info(
+      `Discarded dead letter ${deadLetterId} from queue: ${queueName}`,
+      LogContext.CACHE,
+    );
+  }
+
+  async start(): Promise<void> {
+    if (this.isStarted) {
+      return;
+    }
+
+    this.isStarted = true;
+    this.pollTimer = setInterval(() => {
+      for (const queueName of this.consumers.keys()) {
+        void this.pollQueue(queueName);
+      }
+    }, this.pollIntervalMs);
+
+    this.logger.info('Message queue started', LogContext.CACHE);
+  }
+
+  /**
+   * @method stop
+   * @description 停止轮询并等待本进程正在处理的消息完成
+   * @returns {Promise<void>}
+   */
+  async stop(): Promise<void> {
+    if (!this.isStarted) {
+      return;
+    }
+
+    this.isStarted = false;
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+
+    await Promise.allSettled(Array.from(this.inFlight));
+    this.logger.info('Message queue stopped', LogContext.CACHE);
+  }
+
+  isRunning(): boolean {
+    return this.isStarted;
+  }
+
+  /**
+   * @method enqueueMessage
+   * @description 保存消息并放入等待队列或延迟队列
+   * @param {string} queueName 队列名称
+   * @param {IMessage} message 消息
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async enqueueMessage(
+    queueName: string,
+    message: IMessage,
+  ): Promise<void> {
+    // 确保队列存在
+    if (!(await this.getQueueConfig(queueName))) {
+      await this.createQueue(createDefaultQueueConfig(queueName));
+    }
+
+    await this.redis.hset(
+      this.key(queueName, 'messages'),
+      message.id,
+      JSON.stringify(message),
+    );
+
+    if (message.delay && message.delay > 0) {
+      await this.redis.zadd(
+        this.key(queueName, 'delayed'),
+        Date.now() + message.delay,
+        message.id,
+      );
+      return;
+    }
+
+    await this.pushWaiting(queueName, message);
+    void this.pollQueue(queueName);
+  }
+
+  /**
+   * @method pushWaiting
+   * @description 按优先级和入队顺序放入等待队列
+   * @param {string} queueName 队列名称
+   * @param {IMessage} message 消息
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async pushWaiting(
+    queueName: string,
+    message: IMessage,
+  ): Promise<void> {
+    const sequence = await this.redis.incr(this.key(queueName, 'seq'));
+    await this.redis.zadd(
+      this.key(queueName, 'waiting'),
+      message.priority * PRIORITY_WEIGHT + sequence,
+      message.id,
+    );
+  }
+
+  private async consumeMessages(
+    queueName: string,
+    processor: (message: IMessage) => Promise<void>,
+  ): Promise<void> {
+    this.consumers.set(queueName, processor);
+    this.logger.info(
+      `Started consuming messages from queue: ${queueName}`,
+      LogContext.CACHE,
+    );
+  }
+
+  /**
+   * @method pollQueue
+   * @description 迁移到期的延迟任务和租约过期的任务，并在并发上限内占用消息处理
+   * @param {string} queueName 队列名称
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async pollQueue(queueName: string): Promise<void> {
+    const processor = this.consumers.get(queueName);
+    if (!this.isStarted || !processor || this.polling.has(queueName)) {
+      return;
+    }
+
+    this.polling.add(queueName);
+    try {
+      await this.promoteDue(queueName);
+      await this.expireLeases(queueName);
+
+      const config = await this.getQueueConfig(queueName);
+      const available =
+        (config?.concurrency ?? 1) - (this.processing.get(queueName) ?? 0);
+      if (available <= 0) {
+        return;
+      }
+
+      const payloads = (await this.redis.eval(
+        CLAIM_SCRIPT,
+        4,
+        this.key(queueName, 'waiting'),
+        this.key(queueName, 'active'),
+        this.key(queueName, 'messages'),
+        this.key(queueName, 'paused'),
+        Date.now() + this.leaseMs,
+        available,
+      )) as string[];
+
+      for (const payload of payloads) {
+        this.dispatch(queueName, parseMessage(payload), processor);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to poll queue ${queueName}`,
+        LogContext.CACHE,
+        { queueName },
+        error as Error,
+      );
+    } finally {
+      this.polling.delete(queueName);
+    }
+  }
+
+  /**
+   * @method promoteDue
+   * @description 将到期的延迟任务移回等待队列
+   * @param {string} queueName 队列名称
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async promoteDue(queueName: string): Promise<void> {
+    for (const message of await this.takeDue(queueName, 'delayed')) {
+      await this.pushWaiting(queueName, message);
+    }
+  }
+
+  /**
+   * @method expireLeases
+   * @description 将租约过期的处理中任务记为一次失败，按退避重试或进入死信队列
+   * @param {string} queueName 队列名称
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async expireLeases(queueName: string): Promise<void> {
+    for (const message of await this.takeDue(queueName, 'active')) {
+      await this.handleFailure(
+        queueName,
+        message,
+        new MessageLeaseExpiredError(message.id),
+      );
+    }
+  }
+
+  /**
+   * @method takeDue
+   * @description 从延迟集合或处理中集合移除分数已到期的消息
+   * @param {string} queueName 队列名称
+   * @param {'delayed' | 'active'} source 来源集合
+   * @returns {Promise<IMessage[]>} 由本进程移除的消息
+   * @private
+   *
+   * 多个进程同时迁移时，只有ZREM成功的进程取得消息。
+   */
+  private async takeDue(
+    queueName: string,
+    source: 'delayed' | 'active',
+  ): Promise<IMessage[]> {
+    const sourceKey = this.key(queueName, source);
+    const dueIds = await this.redis.zrangebyscore(
+      sourceKey,
+      '-inf',
+      Date.now(),
+      'LIMIT',
+      0,
+      100,
+    );
+
+    const taken: IMessage[] = [];
+    for (const id of dueIds) {
+      if ((await this.redis.zrem(sourceKey, id)) === 0) {
+        continue;
+      }
+
+      const payload = await this.redis.hget(
+        this.key(queueName, 'messages'),
+        id,
+      );
+      if (payload) {
+        taken.push(parseMessage(payload));
+      }
+    }
+    return taken;
+  }
+
+  /**
+   * @method dispatch
+   * @description 处理一条已占用的消息，完成后继续轮询
+   * @param {string} queueName 队列名称
+   * @param {IMessage} message 消息
+   * @param {Function} processor 处理器函数
+   * @private
+   */
+  private dispatch(
+    queueName: string,
+    message: IMessage,
+    processor: (message: IMessage) => Promise<void>,
+  ): void {
+    this.processing.set(queueName, (this.processing.get(queueName) ?? 0) + 1);
+
+    const task = this.processMessage(queueName, message, processor).finally(
+      () => {
+        this.processing.set(
+          queueName,
+          (this.processing.get(queueName) ?? 1) - 1,
+        );
+        this.inFlight.delete(task);
+        void this.pollQueue(queueName);
+      },
+    );
+    this.inFlight.add(task);
+  }
+
+  /**
+   * @method processMessage
+   * @description 处理单条消息并确认，失败时交由失败处理流程
+   * @param {string} queueName 队列名称
+   * @param {IMessage} message 消息
+   * @param {Function} processor 处理器函数
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async processMessage(
+    queueName: string,
+    message: IMessage,
+    processor: (message: IMessage) => Promise<void>,
+  ): Promise<void> {
+    const startedAt = Date.now();
+    try {
+      await this.withLeaseHeartbeat(queueName, message.id, () =>
+        processor(message),
+      );
+    } catch (error) {
+      await this.handleFailure(queueName, message, error).catch(
+        (failureError: unknown) => {
+          this.logger.error(
+            `Failed to record failure of message ${message.id}`,
+            LogContext.CACHE,
+            { queueName, messageId: message.id },
+            failureError as Error,
+          );
+        },
+      );
+      return;
+    }
+
+    await this.redis
+      .multi()
+      .zrem(this.key(queueName, 'active'), message.id)
+      .hdel(this.key(queueName, 'messages'), message.id)
+      .hincrby(this.key(queueName, 'stats'), 'completed', 1)
+      .hincrby(
+        this.key(queueName, 'stats'),
+        'processingTime',
+        Date.now() - startedAt,
+      )
+      .exec();
+  }
+
+  /**
+   * @method withLeaseHeartbeat
+   * @description 执行处理器期间定期续约，避免耗时的处理被当作崩溃重新投递
+   * @param {string} queueName 队列名称
+   * @param {string} messageId 消息ID
+   * @param {Function} task 处理任务
+   * @returns {Promise<void>}
+   * @private
+   *
+   * 续约使用ZADD XX，消息已被确认或移出处理中集合时不会重新登记。
+   */
+  private async withLeaseHeartbeat(
+    queueName: string,
+    messageId: string,
+    task: () => Promise<void>,
+  ): Promise<void> {
+    const heartbeat = setInterval(
+      () => {
+        this.redis
+          .zadd(
+            this.key(queueName, 'active'),
+            'XX',
+            Date.now() + this.leaseMs,
+            messageId,
+          )
+          .catch((error: unknown) => {
+            this.logger.error(
+              `Failed to renew lease of message ${messageId}`,
+              LogContext.CACHE,
+              { queueName, messageId },
+              error as Error,
+            );
+          });
+      },
+      Math.max(Math.floor(this.leaseMs / 3), 1),
+    );
+    heartbeat.unref();
+
+    try {
+      await task();
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  /**
+   * @method handleFailure
+   * @description 记录失败并决定重试或进入死信队列
+   * @param {string} queueName 队列名称
+   * @param {IMessage} message 消息
+   * @param {unknown} error 错误
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async handleFailure(
+    queueName: string,
+    message: IMessage,
+    error: unknown,
+  ): Promise<void> {
+    const failedMessage = recordMessageFailure(message, error);
+    const failure = failedMessage.failures![failedMessage.failures!.length - 1];
+    const poison = error instanceof PoisonMessageError;
+
+    if (poison || failedMessage.attempts >= failedMessage.maxAttempts) {
+      const deadLetter: DeadLetter = {
+        id: message.id,
+        queueName,
+        message: failedMessage,
+        reason: failure.error,
+        stack: failure.stack,
+        poison,
+        deadLetteredAt: failure.failedAt,
+      };
+      await this.redis
+        .multi()
+        .zrem(this.key(queueName, 'active'), message.id)
+        .hdel(this.key(queueName, 'messages'), message.id)
+        .hset(
+          this.key(queueName, 'dead'),
+          message.id,
+          JSON.stringify(deadLetter),
+        )
+        .zadd(
+          this.key(queueName, 'dead-index'),
+          deadLetter.deadLetteredAt.getTime(),
+          message.id,
+        )
+        .exec();
+      this.logger.error(
+        `Message ${message.id} moved to dead-letter queue of ${queueName} after ${failedMessage.attempts} attempt(s): ${failure.error}`,
+        LogContext.CACHE,
+        { queueName, messageId: message.id, attempts: failedMessage.attempts },
+      );
+      return;
+    }
+
+    const delay = calculateRetryDelay(
+      failedMessage,
+      await this.getQueueConfig(queueName),
+    );
+    await this.redis
+      .multi()
+      .hset(
+        this.key(queueName, 'messages'),
+        message.id,
+        JSON.stringify(failedMessage),
+      )
+      .zrem(this.key(queueName, 'active'), message.id)
+      .zadd(this.key(queueName, 'delayed'), Date.now() + delay, message.id)
+      .exec();
+  }
+
+  /**
+   * @method takeDeadLetter
+   * @description 从死信队列中移除并返回指定死信，不存在时返回null
+   * @param {string} queueName 队列名称
+   * @param {string} deadLetterId 死信ID
+   * @returns {Promise<DeadLetter | null>} 死信
+   * @private
+   */
+  private async takeDeadLetter(
+    queueName: string,
+    deadLetterId: string,
+  ): Promise<DeadLetter | null> {
+    const payload = await this.redis.hget(
+      this.key(queueName, 'dead'),
+      deadLetterId,
+    );
+    if (
+      !payload ||
+      (await this.redis.zrem(
+        this.key(queueName, 'dead-index'),
+        deadLetterId,
+      )) === 0
+    ) {
+      return null;
+    }
+
+    await this.redis.hdel(this.key(queueName, 'dead'), deadLetterId);
+    return parseDeadLetter(payload);
+  }
+
+  /**
+   * @method getQueueConfig
+   * @description 获取队列配置，优先使用本地缓存
+   * @param {string} queueName 队列名称
+   * @returns {Promise<QueueConfig | undefined>} 队列配置
+   * @private
+   */
+  private async getQueueConfig(
+    queueName: string,
+  ): Promise<QueueConfig | undefined> {
+    const cached = this.queueConfigs.get(queueName);
+    if (cached) {
+      return cached;
+    }
+
+    const payload = await this.redis.get(this.key(queueName, 'config'));
+    if (!payload) {
+      return undefined;
+    }
+
+    const config = JSON.parse(payload) as QueueConfig;
+    this.queueConfigs.set(queueName, config);
+    return config;
+  }
+
+  /**
+   * @method key
+   * @description 生成队列的Redis键，队列名称作为哈希标签保证同一队列的键位于同一槽
+   * @param {string} queueName 队列名称
+   * @param {string} suffix 键后缀
+   * @returns {string} Redis键
+   * @private
+   */
+  private key(queueName: string, suffix: string): string {
+    return `${this.keyPrefix}{${queueName}}:${suffix}`;
+  }
+
+  /**
+   * @method dataKeys
+   * @description 获取队列中保存消息的所有键
+   * @param {string} queueName 队列名称
+   * @returns {string[]} Redis键
+   * @private
+   */
+  private dataKeys(queueName: string): string[] {
+    return [
+      'waiting',
+      'delayed',
+      'active',
+      'messages',
+      'dead',
+      'dead-index',
+    ].map(suffix => this.key(queueName, suffix));
+  }
+}
+
+/**
+ * @function parseMessage
+ * @description 解析消息JSON并还原日期字段
+ * @param {string} payload 消息JSON
+ * @returns {IMessage} 消息
+ */
+function parseMessage(payload: string): IMessage {
+  return reviveMessage(JSON.parse(payload) as IMessage);
+}
+
+/**
+ * @function parseDeadLetter
+ * @description 解析死信JSON并还原日期字段
+ * @param {string} payload 死信JSON
+ * @returns {DeadLetter} 死信
+ */
+function parseDeadLetter(payload: string): DeadLetter {
+  const deadLetter = JSON.parse(payload) as DeadLetter;
+  return {
+    ...deadLetter,
+    message: reviveMessage(deadLetter.message),
+    deadLetteredAt: new Date(deadLetter.deadLetteredAt),
+  };
+}
+
+/**
+ * @function reviveMessage
+ * @description 将JSON中的日期字符串还原为Date
+ * @param {IMessage} message 反序列化后的消息
+ * @returns {IMessage} 消息
+ */
+function reviveMessage(message: IMessage): IMessage {
+  return {
+    ...message,
+    timestamp: new Date(message.timestamp),
+    occurredOn: message.occurredOn ? new Date(message.occurredOn) : undefined,
+    eventMetadata: message.eventMetadata
+      ? {
+          ...message.eventMetadata,
+          timestamp: new Date(message.eventMetadata.timestamp),
+        }
+      : undefined,
+    metadata: {
+      ...message.metadata,
+      timestamp: new Date(message.metadata.timestamp),
+      originalTimestamp: new Date(message.metadata.originalTimestamp),
+    },
+    failures: message.failures?.map(failure => ({
+      ...failure,
+      failedAt: new Date(failure.failedAt),
+    })),
+  };
+}
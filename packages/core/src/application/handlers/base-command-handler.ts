@@ -1,4 +1,5 @@
 import { ICommandHandler } from './command-handler.interface';
+import { ICommandRetryPolicy } from './command-retry-policy';
 
 /**
  * @class BaseCommandHandler
@@ -10,6 +11,7 @@ import { ICommandHandler } from './command-handler.interface';
  * 2. 提供统一的错误处理机制
  * 3. 提供事务管理支持
  * 4. 提供日志记录和监控支持
+ * 5. 按重试策略重新执行失败的命令（如并发冲突）
  *
  * 设计原则：
  * 1. 所有命令处理器都应该继承此基类
@@ -46,8 +48,8 @@ export abstract class BaseCommandHandler<TCommand, TResult>
       // 验证命令
       await this.validateCommand(command);
 
-      // 执行具体的处理逻辑
-      return await this.execute(command);
+      // 执行具体的处理逻辑，按重试策略重新执行
+      return await this.executeWithRetry(command);
     } catch (error) {
       // 记录错误日志
       this.logError(command, error as Error);
@@ -64,6 +66,49 @@ export abstract class BaseCommandHandler<TCommand, TResult>
    */
   protected abstract execute(command: TCommand): Promise<TResult>;
 
+  /**
+   * @method getRetryPolicy
+   * @description 获取重试策略，子类可以重写，默认不重试
+   * @returns {ICommandRetryPolicy | undefined} 重试策略
+   * @protected
+   */
+  protected getRetryPolicy(): ICommandRetryPolicy | undefined {
+    return undefined;
+  }
+
+  /**
+   * @method executeWithRetry
+   * @description 执行命令，失败时按重试策略等待后重新执行
+   * @param {TCommand} command 命令对象
+   * @returns {Promise<TResult>} 处理结果
+   * @private
+   */
+  private async executeWithRetry(command: TCommand): Promise<TResult> {
+    const retryPolicy = this.getRetryPolicy();
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.execute(command);
+      } catch (error) {
+        if (
+          !retryPolicy ||
+          attempt >= retryPolicy.maxAttempts ||
+          !retryPolicy.shouldRetry(error, attempt)
+        ) {
+          throw error;
+        }
+
+        console.warn(
+          `Retrying ${this.getCommandType()} command after attempt ${attempt}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+        const delay = retryPolicy.getDelay(attempt);
+        if (delay > 0) {
+          await new Promise(resolve => setTimeout(resolve, delay));
+        }
+      }
+    }
+  }
+
   /**
    * @method validateCommand
    * @description 验证命令的有效性，子类可以重写
@@ -0,0 +1,78 @@
+import { Command } from '../commands/command';
+import { ICommandDispatcher } from '../sagas/saga.interface';
+import { ICommandHandler } from './command-handler.interface';
+
+/**
+ * @class CommandHandlerNotFoundError
+ * @description 命令类型没有注册处理器时抛出的错误
+ */
+export class CommandHandlerNotFoundError extends Error {
+  constructor(public readonly commandType: string) {
+    super(`No command handler registered for ${commandType}`);
+    this.name = 'CommandHandlerNotFoundError';
+  }
+}
+
+/**
+ * @class CommandDispatcher
+ * @description
+ * 命令分发器，按命令类型把命令交给注册的命令处理器。
+ *
+ * 分发规则：
+ * 1. 处理器以getCommandType()的返回值注册，每种命令类型只能有一个处理器
+ * 2. 命令以commandType（构造函数名称）查找处理器
+ * 3. 比较时忽略Command后缀，BaseCommandHandler返回的CreateUser与命令类型CreateUserCommand匹配
+ *
+ * @example
+ * ```typescript
+ * const dispatcher = new CommandDispatcher()
+ *   .register(new CreateUserCommandHandler(userRepository));
+ *
+ * await dispatcher.dispatch(new CreateUserCommand(email, password, tenantId));
+ * ```
+ * @since 1.0.0
+ */
+export class CommandDispatcher implements ICommandDispatcher {
+  private readonly handlers: Map<string, ICommandHandler<Command, unknown>> =
+    new Map();
+
+  /**
+   * @method register
+   * @description 注册命令处理器
+   * @param {ICommandHandler} handler 命令处理器
+   * @returns {this} 当前分发器，支持链式调用
+   * @throws {Error} 命令类型已注册处理器时抛出
+   */
+  register<TCommand extends Command, TResult>(
+    handler: ICommandHandler<TCommand, TResult>,
+  ): this {
+    const commandType = handler.getCommandType();
+    const key = this.normalize(commandType);
+    if (this.handlers.has(key)) {
+      throw new Error(
+        `Command handler for ${commandType} is already registered`,
+      );
+    }
+    this.handlers.set(key, handler);
+    return this;
+  }
+
+  /**
+   * @method dispatch
+   * @description 分发命令到对应的处理器
+   * @param {Command} command 命令
+   * @returns {Promise<unknown>} 命令处理结果
+   * @throws {CommandHandlerNotFoundError} 命令类型没有注册处理器时抛出
+   */
+  async dispatch(command: Command): Promise<unknown> {
+    const handler = this.handlers.get(this.normalize(command.commandType));
+    if (!handler) {
+      throw new CommandHandlerNotFoundError(command.commandType);
+    }
+    return handler.handle(command);
+  }
+
+  private normalize(commandType: string): string {
+    return commandType.replace(/Command$/, '');
+  }
+}
@@ -0,0 +1,87 @@
+import { ConcurrencyConflictError } from '../../domain/services/conflict-resolver.service';
+
+/**
+ * @interface ICommandRetryPolicy
+ * @description 命令重试策略接口，BaseCommandHandler在execute失败时据此决定是否重新执行
+ */
+export interface ICommandRetryPolicy {
+  /**
+   * 最大执行次数（包含首次执行）
+   */
+  readonly maxAttempts: number;
+
+  /**
+   * @method shouldRetry
+   * @description 判断失败后是否重试
+   * @param {unknown} error 本次执行抛出的错误
+   * @param {number} attempt 已执行次数，从1开始
+   * @returns {boolean} 是否重试
+   */
+  shouldRetry(error: unknown, attempt: number): boolean;
+
+  /**
+   * @method getDelay
+   * @description 获取下一次执行前的等待时间
+   * @param {number} attempt 已执行次数，从1开始
+   * @returns {number} 等待毫秒数
+   */
+  getDelay(attempt: number): number;
+}
+
+/**
+ * @interface ConcurrencyRetryPolicyOptions
+ * @description 并发冲突重试策略配置选项
+ */
+export interface ConcurrencyRetryPolicyOptions {
+  readonly maxAttempts?: number; // 最大执行次数，默认3
+  readonly delayMs?: number; // 首次重试前的等待时间，默认50
+  readonly backoffMultiplier?: number; // 退避倍数，默认2
+  readonly maxDelayMs?: number; // 最大等待时间，默认1000
+}
+
+/**
+ * @class ConcurrencyRetryPolicy
+ * @description
+ * 并发冲突重试策略，仅在ConcurrencyConflictError时重试。
+ *
+ * 重试语义：
+ * 每次重试都会重新调用execute，命令处理器应在execute中重新加载聚合根，
+ * 基于最新状态重新执行业务规则，而不是重放上一次的事件。
+ *
+ * @example
+ * ```typescript
+ * class UpdateTenantCommandHandler extends BaseCommandHandler<UpdateTenantCommand, void> {
+ *   protected getRetryPolicy(): ICommandRetryPolicy {
+ *     return new ConcurrencyRetryPolicy({ maxAttempts: 5 });
+ *   }
+ * }
+ * ```
+ * @since 1.0.0
+ */
+export class ConcurrencyRetryPolicy implements ICommandRetryPolicy {
+  readonly maxAttempts: number;
+  private readonly delayMs: number;
+  private readonly backoffMultiplier: number;
+  private readonly maxDelayMs: number;
+
+  constructor(options: ConcurrencyRetryPolicyOptions = {}) {
+    this.maxAttempts = options.maxAttempts ?? 3;
+    this.delayMs = options.delayMs ?? 50;
+    this.backoffMultiplier = options.backoffMultiplier ?? 2;
+    this.maxDelayMs = options.maxDelayMs ?? 1000;
+    if (!Number.isInteger(this.maxAttempts) || this.maxAttempts < 1) {
+      throw new Error('maxAttempts must be a positive integer');
+    }
+  }
+
+  shouldRetry(error: unknown): boolean {
+    return error instanceof ConcurrencyConflictError;
+  }
+
+  getDelay(attempt: number): number {
+    return Math.min(
+      this.delayMs * Math.pow(this.backoffMultiplier, attempt - 1),
+      this.maxDelayMs,
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { DomainEvent } from '../../domain/domain-event';
+import { Command } from '../commands/command';
+import { ISaga, SagaContext } from './saga.interface';
+
+/**
+ * @class BaseSaga
+ * @description
+ * Saga基类，提供补偿和超时的默认实现。
+ *
+ * 默认行为：
+ * 1. compensate：没有补偿命令，子类按步骤名称返回撤销命令
+ * 2. onTimeout：以超时原因调用fail，逆序补偿已完成的步骤
+ *
+ * @template TData 流程数据类型
+ *
+ * @example
+ * ```typescript
+ * class TenantOnboardingSaga extends BaseSaga<OnboardingData> {
+ *   readonly sagaType = 'tenant-onboarding';
+ *   readonly startedBy = ['TenantCreatedEvent'];
+ *   readonly eventTypes = ['TenantCreatedEvent', 'AdminUserCreatedEvent'];
+ *
+ *   correlate(event: DomainEvent): string | undefined {
+ *     return event.metadata.tenantId;
+ *   }
+ *
+ *   async handle(event: DomainEvent, context: SagaContext<OnboardingData>) {
+ *     if (event instanceof TenantCreatedEvent) {
+ *       context.setTimeout(10 * 60 * 1000);
+ *       await context.send('admin-user', new CreateAdminUserCommand(...));
+ *     }
+ *   }
+ *
+ *   compensate(step: string, data: OnboardingData): Command | undefined {
+ *     return step === 'admin-user' ? new DeleteUserCommand(...) : undefined;
+ *   }
+ * }
+ * ```
+ * @abstract
+ * @since 1.0.0
+ */
+export abstract class BaseSaga<TData = Record<string, unknown>>
+  implements ISaga<TData>
+{
+  abstract readonly sagaType: string;
+  abstract readonly startedBy: string[];
+  abstract readonly eventTypes: string[];
+
+  abstract correlate(event: DomainEvent): string | undefined;
+
+  abstract createInitialData(event: DomainEvent): TData;
+
+  abstract handle(
+    event: DomainEvent,
+    context: SagaContext<TData>,
+  ): Promise<void>;
+
+  /**
+   * @method compensate
+   * @description 返回撤销指定步骤的补偿命令，默认不补偿
+   * @param {string} _step 步骤名称
+   * @param {TData} _data 流程数据
+   * @returns {Command | undefined} 补偿命令
+   */
+  compensate(_step: string, _data: TData): Command | undefined {
+    return undefined;
+  }
+
+  /**
+   * @method onTimeout
+   * @description 流程超时时调用，默认标记失败并进入补偿
+   * @param {SagaContext<TData>} context Saga上下文
+   * @returns {Promise<void>}
+   */
+  async onTimeout(context: SagaContext<TData>): Promise<void> {
+    context.fail(`Saga ${this.sagaType} timed out`);
+  }
+}
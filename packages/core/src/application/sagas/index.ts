@@ -0,0 +1,4 @@
+export * from './saga.interface';
+export * from './base-saga';
+export * from './saga-manager';
+export * from './saga-test-harness';
@@ -0,0 +1,341 @@
+import { describe, it, beforeEach, expect, jest } from '@jest/globals';
+import { DomainEvent } from '../../domain/domain-event';
+import { IEventBus } from '../../domain/interfaces/event-bus.interface';
+import { IEventHandler } from '../../domain/interfaces/event-handler.interface';
+import { Command } from '../commands/command';
+import { BaseCommandHandler } from '../handlers/base-command-handler';
+import {
+  CommandDispatcher,
+  CommandHandlerNotFoundError,
+} from '../handlers/command-dispatcher';
+import { BaseSaga } from './base-saga';
+import { InMemorySagaStore, SagaManager } from './saga-manager';
+import { SagaContext } from './saga.interface';
+import { SagaTestHarness } from './saga-test-harness';
+
+class TenantCreatedEvent extends DomainEvent {
+  constructor(
+    tenantId: string,
+    public readonly adminEmail: string,
+  ) {
+    super(tenantId);
+  }
+
+  toJSON(): Record<string, unknown> {
+    return { adminEmail: this.adminEmail };
+  }
+}
+
+class AdminUserCreatedEvent extends DomainEvent {
+  constructor(
+    userId: string,
+    public readonly tenantId: string,
+  ) {
+    super(userId);
+  }
+
+  toJSON(): Record<string, unknown> {
+    return { tenantId: this.tenantId };
+  }
+}
+
+class DefaultRolesAssignedEvent extends DomainEvent {
+  constructor(
+    userId: string,
+    public readonly tenantId: string,
+  ) {
+    super(userId);
+  }
+
+  toJSON(): Record<string, unknown> {
+    return { tenantId: this.tenantId };
+  }
+}
+
+class TenantCommand extends Command {
+  constructor(
+    public readonly tenantId: string,
+    public readonly userId?: string,
+  ) {
+    super();
+  }
+
+  toJSON(): Record<string, unknown> {
+    return { tenantId: this.tenantId, userId: this.userId };
+  }
+}
+
+class CreateAdminUserCommand extends TenantCommand {}
+class AssignDefaultRolesCommand extends TenantCommand {}
+class SendWelcomeNotificationCommand extends TenantCommand {}
+class DeleteUserCommand extends TenantCommand {}
+class RevokeRolesCommand extends TenantCommand {}
+
+type OnboardingData = {
+  tenantId: string;
+  adminEmail: string;
+  adminUserId?: string;
+};
+
+/**
+ * 租户开通流程：租户 → 管理员用户 → 默认角色 → 欢迎通知
+ */
+class TenantOnboardingSaga extends BaseSaga<OnboardingData> {
+  readonly sagaType = 'tenant-onboarding';
+  readonly startedBy = ['TenantCreatedEvent'];
+  readonly eventTypes = [
+    'TenantCreatedEvent',
+    'AdminUserCreatedEvent',
+    'DefaultRolesAssignedEvent',
+  ];
+
+  correlate(event: DomainEvent): string | undefined {
+    if (event instanceof TenantCreatedEvent) {
+      return event.aggregateId;
+    }
+    if (
+      event instanceof AdminUserCreatedEvent ||
+      event instanceof DefaultRolesAssignedEvent
+    ) {
+      return event.tenantId;
+    }
+    return undefined;
+  }
+
+  createInitialData(event: DomainEvent): OnboardingData {
+    const created = event as TenantCreatedEvent;
+    return { tenantId: created.aggregateId, adminEmail: created.adminEmail };
+  }
+
+  async handle(
+    event: DomainEvent,
+    context: SagaContext<OnboardingData>,
+  ): Promise<void> {
+    const { tenantId } = context.data;
+
+    if (event instanceof TenantCreatedEvent) {
+      context.setTimeout(60_000);
+      await context.send('admin-user', new CreateAdminUserCommand(tenantId));
+    } else if (event instanceof AdminUserCreatedEvent) {
+      context.update({ adminUserId: event.aggregateId });
+      await context.send(
+        'default-roles',
+        new AssignDefaultRolesCommand(tenantId, event.aggregateId),
+      );
+    } else if (event instanceof DefaultRolesAssignedEvent) {
+      await context.send(
+        'welcome-notification',
+        new SendWelcomeNotificationCommand(tenantId, event.aggregateId),
+      );
+      context.complete();
+    }
+  }
+
+  compensate(step: string, data: OnboardingData): Command | undefined {
+    switch (step) {
+      case 'admin-user':
+        return new DeleteUserCommand(data.tenantId, data.adminUserId);
+      case 'default-roles':
+        return new RevokeRolesCommand(data.tenantId, data.adminUserId);
+      default:
+        return undefined;
+    }
+  }
+}
+
+describe('SagaManager', () => {
+  let harness: SagaTestHarness<OnboardingData>;
+
+  beforeEach(() => {
+    harness = new SagaTestHarness(new TenantOnboardingSaga());
+  });
+
+  it('should drive the workflow to completion', async () => {
+    await harness.publish(
+      new TenantCreatedEvent('tenant-1', 'admin@acme.test'),
+      new AdminUserCreatedEvent('user-1', 'tenant-1'),
+      new DefaultRolesAssignedEvent('user-1', 'tenant-1'),
+    );
+
+    expect(harness.commandTypes).toEqual([
+      'CreateAdminUserCommand',
+      'AssignDefaultRolesCommand',
+      'SendWelcomeNotificationCommand',
+    ]);
+    const state = await harness.getState('tenant-1');
+    expect(state).toMatchObject({
+      status: 'completed',
+      data: { adminUserId: 'user-1', adminEmail: 'admin@acme.test' },
+      completedSteps: ['admin-user', 'default-roles', 'welcome-notification'],
+      version: 3,
+    });
+    expect(state?.deadline).toBeUndefined();
+  });
+
+  it('should ignore duplicate events and events without a running saga', async () => {
+    const created = new TenantCreatedEvent('tenant-1', 'admin@acme.test');
+
+    await harness.publish(
+      new AdminUserCreatedEvent('user-9', 'tenant-9'),
+      created,
+      created,
+    );
+
+    expect(harness.commandTypes).toEqual(['CreateAdminUserCommand']);
+    await expect(harness.getState('tenant-9')).resolves.toBeNull();
+    expect((await harness.getState('tenant-1'))?.processedEventIds).toEqual([
+      created.eventId,
+    ]);
+  });
+
+  it('should compensate completed steps in reverse order when a step fails', async () => {
+    harness.failCommand('SendWelcomeNotificationCommand');
+
+    await harness.publish(
+      new TenantCreatedEvent('tenant-1', 'admin@acme.test'),
+      new AdminUserCreatedEvent('user-1', 'tenant-1'),
+      new DefaultRolesAssignedEvent('user-1', 'tenant-1'),
+    );
+
+    expect(harness.commandTypes).toEqual([
+      'CreateAdminUserCommand',
+      'AssignDefaultRolesCommand',
+      'SendWelcomeNotificationCommand',
+      'RevokeRolesCommand',
+      'DeleteUserCommand',
+    ]);
+    expect(harness.dispatchedCommands[4]).toMatchObject({ userId: 'user-1' });
+    await expect(harness.getState('tenant-1')).resolves.toMatchObject({
+      status: 'compensated',
+      completedSteps: [],
+      lastError: 'SendWelcomeNotificationCommand failed',
+    });
+  });
+
+  it('should compensate when the workflow times out', async () => {
+    await harness.publish(
+      new TenantCreatedEvent('tenant-1', 'admin@acme.test'),
+    );
+
+    await expect(harness.advanceTime(59_999)).resolves.toBe(0);
+    await expect(harness.advanceTime(1)).resolves.toBe(1);
+
+    expect(harness.commandTypes).toEqual([
+      'CreateAdminUserCommand',
+      'DeleteUserCommand',
+    ]);
+    await expect(harness.getState('tenant-1')).resolves.toMatchObject({
+      status: 'compensated',
+      lastError: 'Saga tenant-onboarding timed out',
+    });
+
+    // 已结束的流程不再响应事件
+    await harness.publish(new AdminUserCreatedEvent('user-1', 'tenant-1'));
+    expect(harness.commandTypes).toHaveLength(2);
+  });
+
+  it('should keep failed compensation steps for a later retry', async () => {
+    harness
+      .failCommand('AssignDefaultRolesCommand')
+      .failCommand('DeleteUserCommand');
+
+    await harness.publish(
+      new TenantCreatedEvent('tenant-1', 'admin@acme.test'),
+      new AdminUserCreatedEvent('user-1', 'tenant-1'),
+    );
+
+    await expect(harness.getState('tenant-1')).resolves.toMatchObject({
+      status: 'failed',
+      completedSteps: ['admin-user'],
+      lastError:
+        'Compensation of step admin-user failed: DeleteUserCommand failed',
+    });
+
+    harness.succeedCommand('DeleteUserCommand');
+    const state = await harness.manager.retryCompensation(
+      'tenant-onboarding',
+      'tenant-1',
+    );
+
+    expect(state).toMatchObject({ status: 'compensated', completedSteps: [] });
+    expect(harness.commandTypes.slice(-2)).toEqual([
+      'DeleteUserCommand',
+      'DeleteUserCommand',
+    ]);
+  });
+
+  it('should reject concurrent modifications of the same saga', async () => {
+    const store = new InMemorySagaStore();
+    await harness.publish(
+      new TenantCreatedEvent('tenant-1', 'admin@acme.test'),
+    );
+    const state = (await harness.getState('tenant-1'))!;
+
+    await store.save(state, 0);
+    await expect(store.save({ ...state, version: 2 }, 0)).rejects.toMatchObject(
+      { name: 'SagaConcurrencyError', actualVersion: 1 },
+    );
+  });
+
+  it('should route events from the event bus to command handlers', async () => {
+    const handled: string[] = [];
+
+    class CreateAdminUserCommandHandler extends BaseCommandHandler<
+      CreateAdminUserCommand,
+      void
+    > {
+      protected async execute(command: CreateAdminUserCommand): Promise<void> {
+        handled.push(command.tenantId);
+      }
+    }
+
+    const subscriptions = new Map<string, IEventHandler>();
+    const eventBus = {
+      subscribe: jest.fn(async (eventType: string, handler: IEventHandler) => {
+        subscriptions.set(eventType, handler);
+        return `subscription-${eventType}`;
+      }),
+      unsubscribe: jest.fn(async () => undefined),
+    } as unknown as IEventBus;
+    const manager = new SagaManager(
+      new InMemorySagaStore(),
+      new CommandDispatcher().register(new CreateAdminUserCommandHandler()),
+    ).register(new TenantOnboardingSaga());
+
+    await manager.start(eventBus);
+    expect(Array.from(subscriptions.keys())).toEqual([
+      'TenantCreatedEvent',
+      'AdminUserCreatedEvent',
+      'DefaultRolesAssignedEvent',
+    ]);
+    await subscriptions
+      .get('TenantCreatedEvent')!
+      .handle(new TenantCreatedEvent('tenant-1', 'admin@acme.test'));
+    await manager.stop();
+
+    expect(handled).toEqual(['tenant-1']);
+    await expect(
+      manager.getState('tenant-onboarding', 'tenant-1'),
+    ).resolves.toMatchObject({ status: 'running', version: 1 });
+  });
+});
+
+describe('CommandDispatcher', () => {
+  it('should reject commands without a registered handler', async () => {
+    await expect(
+      new CommandDispatcher().dispatch(new DeleteUserCommand('tenant-1')),
+    ).rejects.toBeInstanceOf(CommandHandlerNotFoundError);
+  });
+
+  it('should reject duplicate handler registrations', () => {
+    const handler = {
+      handle: jest.fn(async () => undefined),
+      getCommandType: () => 'DeleteUserCommand',
+      getDescription: () => 'deletes users',
+    };
+
+    const dispatcher = new CommandDispatcher().register(handler);
+
+    expect(() => dispatcher.register(handler)).toThrow('already registered');
+  });
+});
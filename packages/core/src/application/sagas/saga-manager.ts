@@ -0,0 +1,609 @@
+import { v4 as uuidv4 } from 'uuid';
+import { DomainEvent } from '../../domain/domain-event';
+import { IEventBus } from '../../domain/interfaces/event-bus.interface';
+import { IEventHandler } from '../../domain/interfaces/event-handler.interface';
+import { Command } from '../commands/command';
+import {
+  ICommandDispatcher,
+  ISaga,
+  ISagaStore,
+  SagaContext,
+  SagaState,
+  SagaStatus,
+} from './saga.interface';
+
+/**
+ * @class SagaConcurrencyError
+ * @description 保存Saga状态时版本号不一致抛出的错误，说明实例已被其他进程修改
+ */
+export class SagaConcurrencyError extends Error {
+  constructor(
+    public readonly sagaType: string,
+    public readonly correlationId: string,
+    public readonly expectedVersion: number,
+    public readonly actualVersion: number,
+  ) {
+    super(
+      `Saga ${sagaType}/${correlationId} expected version ${expectedVersion} but found ${actualVersion}`,
+    );
+    this.name = 'SagaConcurrencyError';
+  }
+}
+
+/**
+ * @class SagaNotFoundError
+ * @description Saga类型未注册或实例不存在时抛出的错误
+ */
+export class SagaNotFoundError extends Error {
+  constructor(
+    public readonly sagaType: string,
+    public readonly correlationId?: string,
+  ) {
+    super(
+      correlationId === undefined
+        ? `Saga ${sagaType} is not registered`
+        : `Saga ${sagaType}/${correlationId} not found`,
+    );
+    this.name = 'SagaNotFoundError';
+  }
+}
+
+/**
+ * @class InMemorySagaStore
+ * @description 内存Saga状态存储，适用于测试和单进程场景
+ */
+export class InMemorySagaStore implements ISagaStore {
+  private readonly states: Map<string, SagaState> = new Map();
+
+  async load(
+    sagaType: string,
+    correlationId: string,
+  ): Promise<SagaState | null> {
+    const state = this.states.get(this.key(sagaType, correlationId));
+    return state ? this.copy(state) : null;
+  }
+
+  async save(state: SagaState, expectedVersion: number): Promise<void> {
+    const key = this.key(state.sagaType, state.correlationId);
+    const actualVersion = this.states.get(key)?.version ?? 0;
+    if (actualVersion !== expectedVersion) {
+      throw new SagaConcurrencyError(
+        state.sagaType,
+        state.correlationId,
+        expectedVersion,
+        actualVersion,
+      );
+    }
+    this.states.set(key, this.copy(state));
+  }
+
+  async findTimedOut(now: Date): Promise<SagaState[]> {
+    return Array.from(this.states.values())
+      .filter(
+        state =>
+          state.status === 'running' &&
+          state.deadline !== undefined &&
+          state.deadline.getTime() <= now.getTime(),
+      )
+      .map(state => this.copy(state));
+  }
+
+  private key(sagaType: string, correlationId: string): string {
+    return `${sagaType}:${correlationId}`;
+  }
+
+  private copy(state: SagaState): SagaState {
+    return {
+      ...state,
+      data: JSON.parse(JSON.stringify(state.data)) as SagaState['data'],
+      completedSteps: [...state.completedSteps],
+      processedEventIds: [...state.processedEventIds],
+    };
+  }
+}
+
+/**
+ * @class SagaExecution
+ * @description 单次事件处理或超时处理中的Saga上下文，收集修改后生成新的状态
+ */
+class SagaExecution<TData> implements SagaContext<TData> {
+  private status: SagaStatus;
+  private currentData: TData;
+  private readonly completedSteps: string[];
+  private deadline?: Date;
+  private lastError?: string;
+
+  constructor(
+    private readonly state: SagaState<TData>,
+    private readonly dispatcher: ICommandDispatcher,
+    private readonly clock: () => number,
+  ) {
+    this.status = state.status;
+    this.currentData = state.data;
+    this.completedSteps = [...state.completedSteps];
+    this.deadline = state.deadline;
+    this.lastError = state.lastError;
+  }
+
+  get sagaId(): string {
+    return this.state.sagaId;
+  }
+
+  get correlationId(): string {
+    return this.state.correlationId;
+  }
+
+  get data(): Readonly<TData> {
+    return this.currentData;
+  }
+
+  update(patch: Partial<TData>): void {
+    this.currentData = { ...this.currentData, ...patch };
+  }
+
+  async send(step: string, command: Command): Promise<unknown> {
+    const result = await this.dispatcher.dispatch(command);
+    this.completedSteps.push(step);
+    return result;
+  }
+
+  setTimeout(ms: number): void {
+    this.deadline = new Date(this.clock() + ms);
+  }
+
+  clearTimeout(): void {
+    this.deadline = undefined;
+  }
+
+  complete(): void {
+    if (this.status === 'running') {
+      this.status = 'completed';
+      this.deadline = undefined;
+    }
+  }
+
+  fail(reason: string): void {
+    this.status = 'compensating';
+    this.lastError = reason;
+    this.deadline = undefined;
+  }
+
+  /**
+   * @method toState
+   * @description 生成处理后的状态，版本号加一
+   * @param {string} [processedEventId] 本次处理的事件ID
+   * @returns {SagaState<TData>} 新状态
+   */
+  toState(processedEventId?: string): SagaState<TData> {
+    return {
+      ...this.state,
+      status: this.status,
+      data: this.currentData,
+      completedSteps: this.completedSteps,
+      processedEventIds: processedEventId
+        ? [...this.state.processedEventIds, processedEventId]
+        : this.state.processedEventIds,
+      deadline: this.deadline,
+      lastError: this.lastError,
+      version: this.state.version + 1,
+      updatedAt: new Date(this.clock()),
+    };
+  }
+}
+
+/**
+ * @interface SagaManagerOptions
+ * @description Saga管理器配置选项
+ */
+export interface SagaManagerOptions {
+  readonly timeoutCheckIntervalMs?: number; // 超时检查间隔，默认1000
+  readonly clock?: () => number; // 当前时间，默认Date.now，测试中可替换
+}
+
+/**
+ * @class SagaManager
+ * @description
+ * Saga管理器，把领域事件路由到Saga实例并持久化流程状态。
+ *
+ * 处理流程：
+ * 1. 按Saga声明的事件类型订阅事件总线
+ * 2. 通过correlate提取关联ID，加载实例；启动事件在实例不存在时创建新实例
+ * 3. 已处理过的事件（按事件ID）和已结束的实例直接忽略
+ * 4. 调用Saga处理事件，处理中抛出的错误视为失败
+ * 5. 保存状态；失败时逆序执行已完成步骤的补偿命令
+ * 6. 定时检查到期的实例并调用onTimeout
+ *
+ * 同一实例的事件在本进程内串行处理；多进程之间依靠存储的版本号检测冲突。
+ *
+ * @param {ISagaStore} store Saga状态存储
+ * @param {ICommandDispatcher} dispatcher 命令分发器
+ * @param {SagaManagerOptions} options 配置选项
+ *
+ * @example
+ * ```typescript
+ * const manager = new SagaManager(sagaStore, commandDispatcher);
+ * manager.register(new TenantOnboardingSaga());
+ *
+ * await manager.start(eventBus);
+ * // 关闭时
+ * await manager.stop();
+ * ```
+ * @since 1.0.0
+ */
+export class SagaManager {
+  private readonly sagas: Map<string, ISaga<unknown>> = new Map();
+  private readonly instanceQueues: Map<string, Promise<unknown>> = new Map();
+  private readonly timeoutCheckIntervalMs: number;
+  private readonly clock: () => number;
+
+  private eventBus: IEventBus | null = null;
+  private subscriptionIds: string[] = [];
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private readonly store: ISagaStore,
+    private readonly dispatcher: ICommandDispatcher,
+    options: SagaManagerOptions = {},
+  ) {
+    this.timeoutCheckIntervalMs = options.timeoutCheckIntervalMs ?? 1000;
+    this.clock = options.clock ?? ((): number => Date.now());
+  }
+
+  /**
+   * @method register
+   * @description 注册Saga，必须在start之前调用
+   * @param {ISaga} saga Saga
+   * @returns {this} 当前管理器，支持链式调用
+   * @throws {Error} Saga类型已注册时抛出
+   */
+  register<TData>(saga: ISaga<TData>): this {
+    if (this.sagas.has(saga.sagaType)) {
+      throw new Error(`Saga ${saga.sagaType} is already registered`);
+    }
+    this.sagas.set(saga.sagaType, saga);
+    return this;
+  }
+
+  /**
+   * @method start
+   * @description 订阅事件总线并开始定时检查超时
+   * @param {IEventBus} eventBus 事件总线
+   * @returns {Promise<void>}
+   */
+  async start(eventBus: IEventBus): Promise<void> {
+    if (this.eventBus) {
+      return;
+    }
+    this.eventBus = eventBus;
+
+    const eventTypes = new Set(
+      Array.from(this.sagas.values()).flatMap(saga => saga.eventTypes),
+    );
+    for (const eventType of eventTypes) {
+      this.subscriptionIds.push(
+        await eventBus.subscribe(eventType, this.createHandler(eventType)),
+      );
+    }
+
+    this.timer = setInterval(() => {
+      this.checkTimeouts().catch(error =>
+        console.error('Saga timeout check failed:', error),
+      );
+    }, this.timeoutCheckIntervalMs);
+
+    console.log(`Saga manager started with ${this.sagas.size} sagas`);
+  }
+
+  /**
+   * @method stop
+   * @description 取消订阅、停止超时检查，等待进行中的处理完成
+   * @returns {Promise<void>}
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    if (this.eventBus) {
+      for (const subscriptionId of this.subscriptionIds.splice(0)) {
+        await this.eventBus.unsubscribe(subscriptionId);
+      }
+      this.eventBus = null;
+    }
+
+    await Promise.allSettled(Array.from(this.instanceQueues.values()));
+    console.log('Saga manager stopped');
+  }
+
+  /**
+   * @method handleEvent
+   * @description 把事件交给所有关心该事件类型的Saga处理
+   * @param {DomainEvent} event 领域事件
+   * @returns {Promise<void>}
+   */
+  async handleEvent(event: DomainEvent): Promise<void> {
+    for (const saga of this.sagas.values()) {
+      if (!saga.eventTypes.includes(event.eventType)) {
+        continue;
+      }
+
+      const correlationId = saga.correlate(event);
+      if (correlationId === undefined) {
+        continue;
+      }
+
+      await this.serialize(saga.sagaType, correlationId, () =>
+        this.processEvent(saga, correlationId, event),
+      );
+    }
+  }
+
+  /**
+   * @method checkTimeouts
+   * @description 处理已到超时时间的实例
+   * @returns {Promise<number>} 处理的实例数量
+   */
+  async checkTimeouts(): Promise<number> {
+    const now = this.clock();
+    const expired = await this.store.findTimedOut(new Date(now));
+    let handled = 0;
+
+    for (const candidate of expired) {
+      const saga = this.sagas.get(candidate.sagaType);
+      if (!saga) {
+        continue;
+      }
+
+      await this.serialize(saga.sagaType, candidate.correlationId, async () => {
+        const state = await this.store.load(
+          saga.sagaType,
+          candidate.correlationId,
+        );
+        // 加载后重新检查，实例可能已在等待期间被事件推进
+        if (
+          !state ||
+          state.status !== 'running' ||
+          !state.deadline ||
+          state.deadline.getTime() > now
+        ) {
+          return;
+        }
+
+        const execution = new SagaExecution(state, this.dispatcher, this.clock);
+        execution.clearTimeout();
+        try {
+          await saga.onTimeout(execution);
+        } catch (error) {
+          execution.fail(this.describeError(error));
+        }
+        await this.persist(saga, execution.toState(), state.version);
+        handled++;
+      });
+    }
+
+    return handled;
+  }
+
+  /**
+   * @method retryCompensation
+   * @description 重新执行补偿失败或中断的实例的剩余补偿
+   * @param {string} sagaType Saga类型
+   * @param {string} correlationId 关联ID
+   * @returns {Promise<SagaState>} 补偿后的状态
+   * @throws {SagaNotFoundError} Saga未注册或实例不存在时抛出
+   * @throws {Error} 实例不处于failed或compensating状态时抛出
+   */
+  async retryCompensation(
+    sagaType: string,
+    correlationId: string,
+  ): Promise<SagaState> {
+    const saga = this.sagas.get(sagaType);
+    if (!saga) {
+      throw new SagaNotFoundError(sagaType);
+    }
+
+    return this.serialize(sagaType, correlationId, async () => {
+      const state = await this.store.load(sagaType, correlationId);
+      if (!state) {
+        throw new SagaNotFoundError(sagaType, correlationId);
+      }
+      if (state.status !== 'failed' && state.status !== 'compensating') {
+        throw new Error(
+          `Saga ${sagaType}/${correlationId} is ${state.status} and cannot be compensated`,
+        );
+      }
+      return this.compensate(saga, state);
+    });
+  }
+
+  /**
+   * @method getState
+   * @description 获取实例状态
+   * @param {string} sagaType Saga类型
+   * @param {string} correlationId 关联ID
+   * @returns {Promise<SagaState | null>} 实例状态
+   */
+  async getState(
+    sagaType: string,
+    correlationId: string,
+  ): Promise<SagaState | null> {
+    return this.store.load(sagaType, correlationId);
+  }
+
+  /**
+   * @method processEvent
+   * @description 在实例上处理一个事件
+   * @param {ISaga} saga Saga
+   * @param {string} correlationId 关联ID
+   * @param {DomainEvent} event 领域事件
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async processEvent(
+    saga: ISaga<unknown>,
+    correlationId: string,
+    event: DomainEvent,
+  ): Promise<void> {
+    const state =
+      (await this.store.load(saga.sagaType, correlationId)) ??
+      (saga.startedBy.includes(event.eventType)
+        ? this.createState(saga, correlationId, event)
+        : null);
+
+    if (
+      !state ||
+      state.status !== 'running' ||
+      state.processedEventIds.includes(event.eventId)
+    ) {
+      return;
+    }
+
+    const execution = new SagaExecution(state, this.dispatcher, this.clock);
+    try {
+      await saga.handle(event, execution);
+    } catch (error) {
+      execution.fail(this.describeError(error));
+    }
+
+    await this.persist(saga, execution.toState(event.eventId), state.version);
+  }
+
+  /**
+   * @method persist
+   * @description 保存状态，状态为compensating时继续执行补偿
+   * @param {ISaga} saga Saga
+   * @param {SagaState} state 新状态
+   * @param {number} expectedVersion 保存前的版本号
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async persist(
+    saga: ISaga<unknown>,
+    state: SagaState,
+    expectedVersion: number,
+  ): Promise<void> {
+    await this.store.save(state, expectedVersion);
+    if (state.status === 'compensating') {
+      await this.compensate(saga, state);
+    }
+  }
+
+  /**
+   * @method compensate
+   * @description 逆序执行已完成步骤的补偿命令，某一步失败时停止并标记为failed
+   * @param {ISaga} saga Saga
+   * @param {SagaState} state 当前状态
+   * @returns {Promise<SagaState>} 补偿后的状态
+   * @private
+   */
+  private async compensate(
+    saga: ISaga<unknown>,
+    state: SagaState,
+  ): Promise<SagaState> {
+    const remainingSteps = [...state.completedSteps];
+    let status: SagaStatus = 'compensated';
+    let lastError = state.lastError;
+
+    while (remainingSteps.length > 0) {
+      const step = remainingSteps[remainingSteps.length - 1];
+      try {
+        const command = saga.compensate(step, state.data);
+        if (command) {
+          await this.dispatcher.dispatch(command);
+        }
+        remainingSteps.pop();
+      } catch (error) {
+        status = 'failed';
+        lastError = `Compensation of step ${step} failed: ${this.describeError(error)}`;
+        break;
+      }
+    }
+
+    const next: SagaState = {
+      ...state,
+      status,
+      completedSteps: remainingSteps,
+      lastError,
+      version: state.version + 1,
+      updatedAt: new Date(this.clock()),
+    };
+    await this.store.save(next, state.version);
+
+    if (status === 'failed') {
+      console.error(`Saga ${state.sagaType}/${state.correlationId} failed:`, {
+        error: lastError,
+      });
+    }
+    return next;
+  }
+
+  /**
+   * @method createState
+   * @description 由启动事件创建新实例的初始状态
+   * @private
+   */
+  private createState(
+    saga: ISaga<unknown>,
+    correlationId: string,
+    event: DomainEvent,
+  ): SagaState {
+    const now = new Date(this.clock());
+    return {
+      sagaId: uuidv4(),
+      sagaType: saga.sagaType,
+      correlationId,
+      status: 'running',
+      data: saga.createInitialData(event) as SagaState['data'],
+      completedSteps: [],
+      processedEventIds: [],
+      version: 0,
+      startedAt: now,
+      updatedAt: now,
+    };
+  }
+
+  /**
+   * @method serialize
+   * @description 同一实例的处理串行执行，前一次处理失败不影响后续处理
+   * @private
+   */
+  private serialize<T>(
+    sagaType: string,
+    correlationId: string,
+    work: () => Promise<T>,
+  ): Promise<T> {
+    const key = `${sagaType}:${correlationId}`;
+    const previous = this.instanceQueues.get(key) ?? Promise.resolve();
+    const run = previous.then(work);
+    const settled = run.catch(() => undefined);
+
+    this.instanceQueues.set(key, settled);
+    void settled.then(() => {
+      if (this.instanceQueues.get(key) === settled) {
+        this.instanceQueues.delete(key);
+      }
+    });
+    return run;
+  }
+
+  /**
+   * @method createHandler
+   * @description 创建事件总线处理器
+   * @param {string} eventType 事件类型
+   * @returns {IEventHandler} 事件处理器
+   * @private
+   */
+  private createHandler(eventType: string): IEventHandler {
+    return {
+      handle: (event: DomainEvent): Promise<void> => this.handleEvent(event),
+      canHandle: (type: string): boolean => type === eventType,
+      getEventType: (): string => eventType,
+      getHandlerName: (): string => `SagaManager:${eventType}`,
+    };
+  }
+
+  private describeError(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
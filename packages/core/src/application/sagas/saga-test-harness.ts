@@ -0,0 +1,138 @@
+import { DomainEvent } from '../../domain/domain-event';
+import { Command } from '../commands/command';
+import { ISaga, SagaState } from './saga.interface';
+import { InMemorySagaStore, SagaManager } from './saga-manager';
+
+/**
+ * @class SagaTestHarness
+ * @description
+ * Saga内存测试工具，不依赖事件总线和真实命令处理器。
+ *
+ * 提供能力：
+ * 1. 按顺序投递事件，记录Saga发送的所有命令（包括补偿命令）
+ * 2. 指定某种命令失败，验证补偿流程
+ * 3. 推进虚拟时钟并触发超时检查
+ *
+ * @template TData 流程数据类型
+ *
+ * @example
+ * ```typescript
+ * const harness = new SagaTestHarness(new TenantOnboardingSaga());
+ * harness.failCommand('AssignDefaultRolesCommand');
+ *
+ * await harness.publish(new TenantCreatedEvent('tenant-1', 'Acme'));
+ *
+ * expect(harness.commandTypes).toEqual([
+ *   'CreateAdminUserCommand',
+ *   'AssignDefaultRolesCommand',
+ *   'DeleteUserCommand',
+ * ]);
+ * expect((await harness.getState('tenant-1'))?.status).toBe('compensated');
+ * ```
+ * @since 1.0.0
+ */
+export class SagaTestHarness<TData = Record<string, unknown>> {
+  readonly store = new InMemorySagaStore();
+  readonly manager: SagaManager;
+  readonly dispatchedCommands: Command[] = [];
+
+  private readonly failures: Map<string, Error> = new Map();
+  private currentTime: number;
+
+  constructor(
+    private readonly saga: ISaga<TData>,
+    startTime: number = Date.now(),
+  ) {
+    this.currentTime = startTime;
+    this.manager = new SagaManager(
+      this.store,
+      { dispatch: (command): Promise<unknown> => this.dispatch(command) },
+      { clock: (): number => this.currentTime },
+    ).register(saga);
+  }
+
+  /**
+   * 已发送命令的类型，按发送顺序排列
+   */
+  get commandTypes(): string[] {
+    return this.dispatchedCommands.map(command => command.commandType);
+  }
+
+  /**
+   * 虚拟时钟的当前时间
+   */
+  get now(): Date {
+    return new Date(this.currentTime);
+  }
+
+  /**
+   * @method failCommand
+   * @description 指定某种命令之后的发送都失败
+   * @param {string} commandType 命令类型
+   * @param {Error} [error] 失败时抛出的错误
+   * @returns {this} 当前测试工具，支持链式调用
+   */
+  failCommand(
+    commandType: string,
+    error: Error = new Error(`${commandType} failed`),
+  ): this {
+    this.failures.set(commandType, error);
+    return this;
+  }
+
+  /**
+   * @method succeedCommand
+   * @description 取消某种命令的失败设置
+   * @param {string} commandType 命令类型
+   * @returns {this} 当前测试工具，支持链式调用
+   */
+  succeedCommand(commandType: string): this {
+    this.failures.delete(commandType);
+    return this;
+  }
+
+  /**
+   * @method publish
+   * @description 按顺序投递事件，等待每个事件处理完成
+   * @param {DomainEvent[]} events 领域事件
+   * @returns {Promise<void>}
+   */
+  async publish(...events: DomainEvent[]): Promise<void> {
+    for (const event of events) {
+      await this.manager.handleEvent(event);
+    }
+  }
+
+  /**
+   * @method advanceTime
+   * @description 推进虚拟时钟并处理到期的实例
+   * @param {number} ms 推进的毫秒数
+   * @returns {Promise<number>} 超时处理的实例数量
+   */
+  async advanceTime(ms: number): Promise<number> {
+    this.currentTime += ms;
+    return this.manager.checkTimeouts();
+  }
+
+  /**
+   * @method getState
+   * @description 获取实例状态
+   * @param {string} correlationId 关联ID
+   * @returns {Promise<SagaState<TData> | null>} 实例状态
+   */
+  async getState(correlationId: string): Promise<SagaState<TData> | null> {
+    return (await this.manager.getState(
+      this.saga.sagaType,
+      correlationId,
+    )) as SagaState<TData> | null;
+  }
+
+  private async dispatch(command: Command): Promise<unknown> {
+    this.dispatchedCommands.push(command);
+    const failure = this.failures.get(command.commandType);
+    if (failure) {
+      throw failure;
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,227 @@
+import { DomainEvent } from '../../domain/domain-event';
+import { Command } from '../commands/command';
+
+/**
+ * @type SagaStatus
+ * @description Saga实例状态
+ *
+ * 状态流转：
+ * 1. running：等待事件并发送命令
+ * 2. completed：流程正常结束
+ * 3. compensating：步骤失败或超时，正在逆序执行补偿命令
+ * 4. compensated：补偿全部完成
+ * 5. failed：补偿命令执行失败，需要人工处理或调用retryCompensation
+ */
+export type SagaStatus =
+  | 'running'
+  | 'completed'
+  | 'compensating'
+  | 'compensated'
+  | 'failed';
+
+/**
+ * @interface SagaState
+ * @description Saga实例的持久化状态，data和completedSteps必须可以序列化为JSON
+ * @template TData 流程数据类型
+ */
+export interface SagaState<TData = Record<string, unknown>> {
+  readonly sagaId: string;
+  readonly sagaType: string;
+  readonly correlationId: string; // 关联ID，同一流程的所有事件映射到同一个值
+  readonly status: SagaStatus;
+  readonly data: TData;
+  readonly completedSteps: readonly string[]; // 已成功的步骤，按完成顺序排列
+  readonly processedEventIds: readonly string[]; // 已处理的事件ID，用于去重
+  readonly deadline?: Date; // 超时时间，到期后调用onTimeout
+  readonly lastError?: string;
+  readonly version: number; // 乐观锁版本号，新实例为0
+  readonly startedAt: Date;
+  readonly updatedAt: Date;
+}
+
+/**
+ * @interface ISagaStore
+ * @description
+ * Saga状态存储接口。
+ *
+ * 存储要求：
+ * 1. 按sagaType和correlationId唯一定位实例
+ * 2. 保存时比较版本号，版本不一致时抛出SagaConcurrencyError
+ * 3. 能够查询已到超时时间的运行中实例
+ */
+export interface ISagaStore {
+  /**
+   * @method load
+   * @description 加载Saga实例
+   * @param {string} sagaType Saga类型
+   * @param {string} correlationId 关联ID
+   * @returns {Promise<SagaState | null>} 实例状态，不存在时返回null
+   */
+  load(sagaType: string, correlationId: string): Promise<SagaState | null>;
+
+  /**
+   * @method save
+   * @description 保存Saga实例，state.version为保存后的版本号
+   * @param {SagaState} state 实例状态
+   * @param {number} expectedVersion 保存前的版本号，新实例为0
+   * @returns {Promise<void>}
+   */
+  save(state: SagaState, expectedVersion: number): Promise<void>;
+
+  /**
+   * @method findTimedOut
+   * @description 查询超时时间早于指定时间的运行中实例
+   * @param {Date} now 当前时间
+   * @returns {Promise<SagaState[]>} 已超时的实例
+   */
+  findTimedOut(now: Date): Promise<SagaState[]>;
+}
+
+/**
+ * @interface ICommandDispatcher
+ * @description 命令分发器接口，Saga通过它把命令交给对应的命令处理器
+ */
+export interface ICommandDispatcher {
+  /**
+   * @method dispatch
+   * @description 分发命令
+   * @param {Command} command 命令
+   * @returns {Promise<unknown>} 命令处理结果
+   */
+  dispatch(command: Command): Promise<unknown>;
+}
+
+/**
+ * @interface SagaContext
+ * @description Saga处理事件时可用的上下文，修改在事件处理完成后统一保存
+ * @template TData 流程数据类型
+ */
+export interface SagaContext<TData> {
+  readonly sagaId: string;
+  readonly correlationId: string;
+  readonly data: Readonly<TData>;
+
+  /**
+   * @method update
+   * @description 合并更新流程数据
+   * @param {Partial<TData>} patch 要更新的字段
+   * @returns {void}
+   */
+  update(patch: Partial<TData>): void;
+
+  /**
+   * @method send
+   * @description 发送命令，成功后记录步骤；命令失败时错误向上抛出并触发补偿
+   * @param {string} step 步骤名称，补偿时传给compensate
+   * @param {Command} command 命令
+   * @returns {Promise<unknown>} 命令处理结果
+   */
+  send(step: string, command: Command): Promise<unknown>;
+
+  /**
+   * @method setTimeout
+   * @description 设置超时，从当前时间起计算，覆盖之前的超时设置
+   * @param {number} ms 超时毫秒数
+   * @returns {void}
+   */
+  setTimeout(ms: number): void;
+
+  /**
+   * @method clearTimeout
+   * @description 取消超时
+   * @returns {void}
+   */
+  clearTimeout(): void;
+
+  /**
+   * @method complete
+   * @description 标记流程完成
+   * @returns {void}
+   */
+  complete(): void;
+
+  /**
+   * @method fail
+   * @description 标记流程失败，事件处理完成后逆序补偿已完成的步骤
+   * @param {string} reason 失败原因
+   * @returns {void}
+   */
+  fail(reason: string): void;
+}
+
+/**
+ * @interface ISaga
+ * @description
+ * Saga（流程管理器）接口，协调跨聚合根的长流程。
+ *
+ * Saga职责：
+ * 1. 声明启动流程的事件和参与流程的事件
+ * 2. 从事件中提取关联ID，定位流程实例
+ * 3. 根据事件发送下一步命令
+ * 4. 为已完成的步骤提供补偿命令
+ *
+ * 处理要求：
+ * 事件按事件ID去重，但命令在状态保存前发送，进程在两步之间退出时命令可能重复，
+ * 因此命令处理器应当是幂等的。
+ *
+ * @template TData 流程数据类型
+ * @since 1.0.0
+ */
+export interface ISaga<TData = Record<string, unknown>> {
+  /**
+   * Saga类型，作为状态存储的键，必须唯一
+   */
+  readonly sagaType: string;
+
+  /**
+   * 启动新实例的事件类型
+   */
+  readonly startedBy: string[];
+
+  /**
+   * 参与流程的所有事件类型（包含startedBy）
+   */
+  readonly eventTypes: string[];
+
+  /**
+   * @method correlate
+   * @description 从事件中提取关联ID，返回undefined时忽略该事件
+   * @param {DomainEvent} event 领域事件
+   * @returns {string | undefined} 关联ID
+   */
+  correlate(event: DomainEvent): string | undefined;
+
+  /**
+   * @method createInitialData
+   * @description 由启动事件创建流程数据
+   * @param {DomainEvent} event 启动事件
+   * @returns {TData} 流程数据
+   */
+  createInitialData(event: DomainEvent): TData;
+
+  /**
+   * @method handle
+   * @description 处理事件，通过上下文发送命令和更新流程数据
+   * @param {DomainEvent} event 领域事件
+   * @param {SagaContext<TData>} context Saga上下文
+   * @returns {Promise<void>}
+   */
+  handle(event: DomainEvent, context: SagaContext<TData>): Promise<void>;
+
+  /**
+   * @method compensate
+   * @description 返回撤销指定步骤的补偿命令，返回undefined表示该步骤无需补偿
+   * @param {string} step 步骤名称
+   * @param {TData} data 流程数据
+   * @returns {Command | undefined} 补偿命令
+   */
+  compensate(step: string, data: TData): Command | undefined;
+
+  /**
+   * @method onTimeout
+   * @description 流程超时时调用，可以重新设置超时或调用fail进入补偿
+   * @param {SagaContext<TData>} context Saga上下文
+   * @returns {Promise<void>}
+   */
+  onTimeout(context: SagaContext<TData>): Promise<void>;
+}
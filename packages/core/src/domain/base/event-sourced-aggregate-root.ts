@@ -25,6 +25,7 @@ import { DomainEvent } from '../domain-event';
  * 5. 为事件存储和重放提供基础支持
  *
  * @property {DomainEvent[]} domainEvents 未提交的领域事件列表
+ * @property {number} version 聚合根版本号
  *
  * @example
  * ```typescript
@@ -53,6 +54,21 @@ export abstract class EventSourcedAggregateRoot {
    */
   private domainEvents: DomainEvent[] = [];
 
+  /**
+   * 聚合根版本号
+   * 等于已提交（或从历史重放）的事件数量，用于乐观并发控制
+   */
+  private _version: number = 0;
+
+  /**
+   * @getter version
+   * @description 获取聚合根当前版本号（不含未提交事件）
+   * @returns {number} 版本号
+   */
+  public get version(): number {
+    return this._version;
+  }
+
   /**
    * @method addDomainEvent
    * @description
@@ -214,6 +230,97 @@ export abstract class EventSourcedAggregateRoot {
    * ```
    */
   public markEventsAsCommitted(): void {
+    this._version += this.domainEvents.length;
     this.clearDomainEvents();
   }
+
+  /**
+   * @method loadFromHistory
+   * @description
+   * 从历史事件重建聚合根状态。每个事件都会通过handleEvent以历史模式重放，
+   * 并相应地推进聚合根版本号。
+   *
+   * @param {DomainEvent[]} events 按版本号升序排列的历史事件
+   * @returns {void}
+   *
+   * @example
+   * ```typescript
+   * const aggregate = new UserAggregate();
+   * aggregate.loadFromHistory(await eventStore.getEvents(userId));
+   * ```
+   */
+  public loadFromHistory(events: DomainEvent[]): void {
+    for (const event of events) {
+      this.handleEvent(event, true);
+      this._version++;
+    }
+  }
+
+  /**
+   * @method restoreFromSnapshot
+   * @description
+   * 从快照恢复聚合根状态，并将版本号设置为快照版本。
+   * 之后只需重放快照版本之后的事件即可得到最新状态。
+   *
+   * @param {Record<string, unknown>} data 快照数据
+   * @param {number} version 快照对应的聚合根版本号
+   * @returns {void}
+   */
+  public restoreFromSnapshot(
+    data: Record<string, unknown>,
+    version: number,
+  ): void {
+    this.fromSnapshot(data);
+    this._version = version;
+  }
+
+  /**
+   * @method captureSnapshot
+   * @description 捕获聚合根当前状态的快照数据，子类未重写toSnapshot时返回null，表示不支持快照
+   * @returns {Record<string, unknown> | null} 快照数据
+   */
+  public captureSnapshot(): Record<string, unknown> | null {
+    return this.toSnapshot();
+  }
+
+  /**
+   * @method handleEvent
+   * @description
+   * 处理领域事件，更新聚合根状态。子类应重写此方法以支持事件重放，
+   * 默认实现不做任何处理。
+   *
+   * @param {DomainEvent} _event 领域事件
+   * @param {boolean} _isFromHistory 是否来自历史事件重放
+   * @returns {void}
+   * @protected
+   */
+  protected handleEvent(_event: DomainEvent, _isFromHistory: boolean): void {
+    // 默认不处理事件，由子类重写
+  }
+
+  /**
+   * @method toSnapshot
+   * @description
+   * 将聚合根状态序列化为快照数据。子类需同时重写此方法和fromSnapshot以支持快照，
+   * 默认返回null，仓储不会为该聚合根创建快照。
+   * @returns {Record<string, unknown> | null} 快照数据
+   * @protected
+   */
+  protected toSnapshot(): Record<string, unknown> | null {
+    return null;
+  }
+
+  /**
+   * @method fromSnapshot
+   * @description 从快照数据恢复聚合根状态，子类重写toSnapshot时必须同时重写此方法
+   * @param {Record<string, unknown>} _data 快照数据
+   * @returns {void}
+   * @throws {Error} 子类未重写此方法时抛出，避免以空状态加上快照版本号继续重放
+   * @protected
+   */
+  protected fromSnapshot(_data: Record<string, unknown>): void {
+    throw new Error(
+      `${this.constructor.name} does not support restoring from snapshots`,
+    );
+  }
 }
@@ -16,6 +16,16 @@ export interface EventMetadata {
   readonly version: string; // 应用版本
 }
 
+/**
+ * @interface DomainEventIdentity
+ * @description 事件身份信息，从存储中还原事件时沿用原始值而不是重新生成
+ */
+export interface DomainEventIdentity {
+  readonly eventId: string;
+  readonly occurredOn: Date;
+  readonly metadata: EventMetadata;
+}
+
 /**
  * @class DomainEvent
  * @description
@@ -68,6 +78,17 @@ export interface EventMetadata {
  * @since 1.0.0
  */
 export abstract class DomainEvent {
+  /**
+   * 事件类型名称
+   * 默认使用类名；不同限界上下文存在同名事件类时，子类覆盖此属性以区分事件类型
+   */
+  static readonly eventTypeName?: string;
+
+  /**
+   * 正在还原的事件身份信息，仅在restore期间由下一个构造的事件消费
+   */
+  private static pendingIdentity?: DomainEventIdentity;
+
   /**
    * 事件的唯一标识符
    * 使用UUID确保全局唯一性
@@ -126,12 +147,16 @@ export abstract class DomainEvent {
       throw new Error('事件版本号必须大于等于1');
     }
 
-    this.eventId = uuidv4();
+    const restored = DomainEvent.pendingIdentity;
+    DomainEvent.pendingIdentity = undefined;
+    const eventClass = this.constructor as typeof DomainEvent;
+
+    this.eventId = restored?.eventId ?? uuidv4();
     this.aggregateId = aggregateId;
-    this.occurredOn = new Date();
-    this.eventType = this.constructor.name;
+    this.occurredOn = restored?.occurredOn ?? new Date();
+    this.eventType = eventClass.eventTypeName ?? eventClass.name;
     this.eventVersion = eventVersion;
-    this.metadata = {
+    this.metadata = restored?.metadata ?? {
       timestamp: new Date(),
       source: 'domain',
       version: '1.0.0',
@@ -139,6 +164,28 @@ export abstract class DomainEvent {
     };
   }
 
+  /**
+   * 以原始身份信息还原事件
+   *
+   * 在factory中构造的第一个事件沿用给定的事件ID、发生时间和元数据，
+   * 供事件反序列化使用，避免在构造后覆盖只读属性。
+   *
+   * @param {DomainEventIdentity} identity 原始身份信息
+   * @param {() => T} factory 构造事件的函数
+   * @returns {T} 还原后的事件
+   */
+  public static restore<T extends DomainEvent>(
+    identity: DomainEventIdentity,
+    factory: () => T,
+  ): T {
+    DomainEvent.pendingIdentity = identity;
+    try {
+      return factory();
+    } finally {
+      DomainEvent.pendingIdentity = undefined;
+    }
+  }
+
   /**
    * 将事件转换为JSON格式
    *
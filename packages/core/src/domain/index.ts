@@ -15,6 +15,14 @@ export * from './services/event-processor.service';
 export * from './services/event-store.service';
 export * from './services/event-bus.service';
 export * from './services/message-queue.service';
+export * from './services/event-type-registry.service';
+export * from './services/event-upcaster.service';
+export * from './services/file-system-event-archive.service';
+export * from './services/projection-engine.service';
+export * from './services/outbox-relay.service';
+
+// 仓储基类
+export * from './repositories/event-sourced.repository';
 
 // 工具类（如果存在）
 // export * from './utils';
@@ -0,0 +1,43 @@
+import { DomainEvent } from '../domain-event';
+
+/**
+ * @interface EventConflict
+ * @description 一次乐观并发冲突的上下文
+ */
+export interface EventConflict {
+  readonly aggregateId: string;
+  readonly expectedVersion: number; // 写入方加载聚合根时的版本
+  readonly currentVersion: number; // 存储中的当前版本
+  readonly attemptedEvents: readonly DomainEvent[]; // 本次尝试写入的事件
+  readonly conflictingEvents: readonly DomainEvent[]; // expectedVersion之后已提交的事件
+}
+
+/**
+ * @interface IConflictResolver
+ * @description
+ * 冲突解决器接口，判断并发写入的事件能否自动合并。
+ *
+ * 判断标准：
+ * 尝试写入的事件与已提交的事件可交换（按任意顺序应用结果相同）时返回true，
+ * 仓储会在当前版本之后重新写入，并把已提交的事件应用到内存中的聚合根。
+ * 例如两次UserPreferencesUpdated修改不同的偏好键。
+ *
+ * @example
+ * ```typescript
+ * const resolver: IConflictResolver = {
+ *   canResolve: conflict =>
+ *     conflict.attemptedEvents.every(e => e instanceof TenantTagAddedEvent) &&
+ *     conflict.conflictingEvents.every(e => e instanceof TenantTagAddedEvent),
+ * };
+ * ```
+ * @since 1.0.0
+ */
+export interface IConflictResolver {
+  /**
+   * @method canResolve
+   * @description 判断冲突能否通过在当前版本之后重新写入来解决
+   * @param {EventConflict} conflict 冲突上下文
+   * @returns {boolean} 事件是否可交换
+   */
+  canResolve(conflict: EventConflict): boolean;
+}
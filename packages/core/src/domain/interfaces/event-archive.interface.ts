@@ -0,0 +1,92 @@
+import { StoredEvent } from './event-store.interface';
+
+/**
+ * @interface ArchiveSegment
+ * @description 归档段信息，对应归档后端中的一批事件
+ */
+export interface ArchiveSegment {
+  readonly segmentId: string;
+  readonly createdAt: Date;
+  readonly eventCount: number;
+  readonly byteSize: number;
+  readonly checksum: string; // sha256，十六进制
+  readonly fromDate: Date; // 段内最早事件的发生时间
+  readonly toDate: Date; // 段内最晚事件的发生时间
+  readonly aggregates: Record<
+    string,
+    { readonly fromVersion: number; readonly toVersion: number }
+  >;
+}
+
+/**
+ * @interface ArchiveManifest
+ * @description 归档清单，记录所有归档段
+ */
+export interface ArchiveManifest {
+  readonly formatVersion: number;
+  readonly segments: ArchiveSegment[];
+}
+
+/**
+ * @interface ArchiveVerificationResult
+ * @description 归档完整性校验结果
+ */
+export interface ArchiveVerificationResult {
+  readonly valid: boolean;
+  readonly checkedSegments: number;
+  readonly corruptedSegments: string[];
+  readonly missingSegments: string[];
+}
+
+/**
+ * @interface IEventArchive
+ * @description
+ * 事件归档后端接口，负责冷存储中历史事件的写入、读取和完整性校验。
+ *
+ * 归档职责：
+ * 1. 以段为单位写入从热存储移出的事件
+ * 2. 维护记录所有段及其校验和的清单
+ * 3. 按聚合根读取已归档的事件流
+ * 4. 校验归档数据的完整性
+ *
+ * @example
+ * ```typescript
+ * const archive = new FileSystemEventArchive('/var/lib/aiofix/event-archive');
+ * const eventStore = new InMemoryEventStore({ eventArchive: archive });
+ * await eventStore.archiveEvents(new Date('2024-01-01'));
+ * ```
+ * @since 1.0.0
+ */
+export interface IEventArchive {
+  /**
+   * @method writeSegment
+   * @description 写入一批事件作为新的归档段，写入成功后才会记录到清单
+   * @param {StoredEvent[]} events 要归档的事件
+   * @returns {Promise<ArchiveSegment>} 写入的归档段信息
+   */
+  writeSegment(events: StoredEvent[]): Promise<ArchiveSegment>;
+
+  /**
+   * @method readStream
+   * @description 读取聚合根已归档的事件，按版本号升序返回
+   * @param {string} aggregateId 聚合根ID
+   * @param {number} [fromVersion] 起始版本号，可选
+   * @returns {Promise<StoredEvent[]>} 已归档的事件
+   * @throws {ArchiveIntegrityError} 当归档段校验和不匹配时抛出
+   */
+  readStream(aggregateId: string, fromVersion?: number): Promise<StoredEvent[]>;
+
+  /**
+   * @method getManifest
+   * @description 获取归档清单
+   * @returns {Promise<ArchiveManifest>} 归档清单
+   */
+  getManifest(): Promise<ArchiveManifest>;
+
+  /**
+   * @method verify
+   * @description 校验所有归档段的完整性
+   * @returns {Promise<ArchiveVerificationResult>} 校验结果
+   */
+  verify(): Promise<ArchiveVerificationResult>;
+}
@@ -14,6 +14,8 @@ export interface StoredEvent {
   readonly occurredOn: Date;
   readonly storedAt: Date;
   readonly streamVersion: number; // 事件流版本号
+  readonly schemaVersion?: number; // 事件结构版本号，缺省视为1
+  readonly globalPosition?: number; // 存储内全局递增的位置，用于投影检查点
 }
 
 /**
@@ -28,6 +30,17 @@ export interface EventStream {
   readonly hasMore: boolean;
 }
 
+/**
+ * @interface EventStreamOptions
+ * @description 事件流读取选项
+ */
+export interface EventStreamOptions {
+  /**
+   * 是否包含已归档到冷存储的事件，默认只读取热存储
+   */
+  readonly includeArchived?: boolean;
+}
+
 /**
  * @interface EventStoreQuery
  * @description 事件存储查询条件
@@ -35,6 +48,8 @@ export interface EventStream {
 export interface EventStoreQuery {
   readonly aggregateId?: string;
   readonly eventType?: string;
+  readonly eventTypes?: string[]; // 匹配任一事件类型
+  readonly afterPosition?: number; // 只返回全局位置大于此值的事件
   readonly fromDate?: Date;
   readonly toDate?: Date;
   readonly fromVersion?: number;
@@ -108,7 +123,7 @@ export interface IEventStore {
    * @param {number} expectedVersion 期望的版本号，用于乐观并发控制
    * @param {EventMetadata} [metadata] 事件元数据，可选
    * @returns {Promise<void>}
-   * @throws {ConcurrencyError} 当版本冲突时抛出
+   * @throws {ConcurrencyConflictError} 当版本冲突时抛出
    * @throws {ValidationError} 当事件无效时抛出
    *
    * 保存流程：
@@ -145,17 +160,19 @@ export interface IEventStore {
    * @param {string} aggregateId 聚合根ID
    * @param {number} fromVersion 起始版本号
    * @param {number} limit 限制数量
+   * @param {EventStreamOptions} [options] 读取选项，可选
    * @returns {Promise<EventStream>} 事件流
    */
   getEventStream(
     aggregateId: string,
     fromVersion?: number,
     limit?: number,
+    options?: EventStreamOptions,
   ): Promise<EventStream>;
 
   /**
    * @method queryEvents
-   * @description 查询事件
+   * @description 查询事件，结果按全局位置升序排列
    * @param {EventStoreQuery} query 查询条件
    * @returns {Promise<EventStoreResult>} 查询结果
    */
@@ -183,25 +200,31 @@ export interface IEventStore {
    * @param {string} aggregateId 聚合根ID
    * @param {any} aggregateState 聚合根状态
    * @param {number} version 版本号
+   * @param {string} [aggregateType] 聚合根类型，可选
    * @returns {Promise<void>}
    */
   createSnapshot(
     aggregateId: string,
     aggregateState: any,
     version: number,
+    aggregateType?: string,
   ): Promise<void>;
 
   /**
    * @method getSnapshot
    * @description 获取聚合根的最新快照
    * @param {string} aggregateId 聚合根ID
+   * @param {number} [maxVersion] 快照版本上限，可选，用于获取指定版本之前的快照
    * @returns {Promise<IAggregateSnapshot | null>} 快照或null
    */
-  getSnapshot(aggregateId: string): Promise<IAggregateSnapshot | null>;
+  getSnapshot(
+    aggregateId: string,
+    maxVersion?: number,
+  ): Promise<IAggregateSnapshot | null>;
 
   /**
    * @method deleteSnapshot
-   * @description 删除聚合根的快照
+   * @description 删除聚合根的所有快照
    * @param {string} aggregateId 聚合根ID
    * @returns {Promise<void>}
    */
@@ -233,12 +256,19 @@ export interface IEventStore {
 
   /**
    * @method archiveEvents
-   * @description 归档旧事件
+   * @description 将旧事件从热存储移入归档后端
    * @param {Date} beforeDate 归档此日期之前的事件
    * @returns {Promise<number>} 归档的事件数量
    */
   archiveEvents(beforeDate: Date): Promise<number>;
 
+  /**
+   * @method hasArchivedEvents
+   * @description 是否有事件已移入归档后端，按全局位置查询（queryEvents）不会返回这些事件
+   * @returns {Promise<boolean>} 是否存在已归档的事件
+   */
+  hasArchivedEvents(): Promise<boolean>;
+
   /**
    * @method getEventStatistics
    * @description 获取事件统计信息
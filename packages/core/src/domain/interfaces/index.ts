@@ -1,8 +1,12 @@
 // 事件驱动架构接口
 export * from './event-store.interface';
+export * from './event-archive.interface';
 export * from './event-bus.interface';
 export * from './message-queue.interface';
 export * from './event-handler.interface';
+export * from './projection.interface';
+export * from './outbox.interface';
+export * from './conflict-resolver.interface';
 
 // 数据隔离接口
 export * from './data-isolation.interface';
@@ -1,4 +1,5 @@
-import { DomainEvent } from '../domain-event';
+import { DomainEvent, EventMetadata } from '../domain-event';
+import { SerializedDomainEvent } from '../services/event-type-registry.service';
 
 /**
  * @interface IMessage
@@ -11,6 +12,10 @@ export interface IMessage {
   readonly commandType?: string;
   readonly queryType?: string;
   readonly aggregateId?: string;
+  readonly eventId?: string; // 领域事件ID，仅领域事件消息
+  readonly schemaVersion?: number; // 领域事件结构版本号，仅领域事件消息
+  readonly occurredOn?: Date; // 领域事件发生时间，仅领域事件消息
+  readonly eventMetadata?: EventMetadata; // 领域事件元数据，仅领域事件消息
   readonly data: Record<string, unknown>;
   readonly metadata: MessageMetadata;
   readonly timestamp: Date;
@@ -18,6 +23,46 @@ export interface IMessage {
   readonly delay?: number; // 延迟执行时间（毫秒）
   readonly attempts: number;
   readonly maxAttempts: number;
+  readonly backoff?: JobOptions['backoff']; // 失败重试的退避策略，缺省时使用队列配置
+  readonly failures?: readonly MessageFailure[]; // 处理失败记录，按尝试顺序排列
+}
+
+/**
+ * @interface MessageFailure
+ * @description 消息的一次处理失败记录
+ */
+export interface MessageFailure {
+  readonly attempt: number; // 第几次尝试，从1开始
+  readonly error: string;
+  readonly stack?: string;
+  readonly failedAt: Date;
+}
+
+/**
+ * @interface DeadLetter
+ * @description
+ * 死信，重试耗尽或无法处理的消息。
+ *
+ * 死信保留原始消息及其全部失败记录，运维人员可以检查、修改后重新入队或丢弃。
+ */
+export interface DeadLetter {
+  readonly id: string; // 等于原始消息ID
+  readonly queueName: string;
+  readonly message: IMessage;
+  readonly reason: string; // 最后一次失败的原因
+  readonly stack?: string;
+  readonly poison: boolean; // 无法反序列化的消息，未经重试直接进入死信队列
+  readonly deadLetteredAt: Date;
+}
+
+/**
+ * @interface DeadLetterEdit
+ * @description 死信重新入队前对消息的修改
+ */
+export interface DeadLetterEdit {
+  readonly data?: Record<string, unknown>;
+  readonly priority?: number;
+  readonly maxAttempts?: number;
 }
 
 /**
@@ -116,6 +161,21 @@ export interface IMessageQueue {
    */
   publishEvent(event: DomainEvent, options?: JobOptions): Promise<void>;
 
+  /**
+   * @method publishSerializedEvent
+   * @description
+   * 发布已序列化的领域事件，原样转发载荷，不经过事件类反序列化。
+   * 供发件箱中继等转发场景使用，发布进程无需加载事件类。
+   * @param {SerializedDomainEvent} event 序列化的领域事件
+   * @param {JobOptions} [options] 任务选项
+   * @returns {Promise<void>}
+   * @throws {MessagePublishError} 当消息发布失败时抛出
+   */
+  publishSerializedEvent(
+    event: SerializedDomainEvent,
+    options?: JobOptions,
+  ): Promise<void>;
+
   /**
    * @method publishCommand
    * @description 发布命令到消息队列
@@ -256,6 +316,40 @@ export interface IMessageQueue {
    */
   getFailedJobs(queueName: string, limit?: number): Promise<FailedJob[]>;
 
+  /**
+   * @method getDeadLetters
+   * @description 获取死信队列中的消息，按进入死信队列的顺序排列
+   * @param {string} queueName 队列名称
+   * @param {number} [limit=100] 限制数量
+   * @returns {Promise<DeadLetter[]>} 死信列表
+   */
+  getDeadLetters(queueName: string, limit?: number): Promise<DeadLetter[]>;
+
+  /**
+   * @method requeueDeadLetter
+   * @description 将死信（可先修改）重新放回原队列，尝试次数清零，失败记录保留
+   * @param {string} queueName 队列名称
+   * @param {string} deadLetterId 死信ID
+   * @param {DeadLetterEdit} [edit] 对消息的修改
+   * @returns {Promise<void>}
+   * @throws {DeadLetterNotFoundError} 当死信不存在时抛出
+   */
+  requeueDeadLetter(
+    queueName: string,
+    deadLetterId: string,
+    edit?: DeadLetterEdit,
+  ): Promise<void>;
+
+  /**
+   * @method discardDeadLetter
+   * @description 丢弃死信
+   * @param {string} queueName 队列名称
+   * @param {string} deadLetterId 死信ID
+   * @returns {Promise<void>}
+   * @throws {DeadLetterNotFoundError} 当死信不存在时抛出
+   */
+  discardDeadLetter(queueName: string, deadLetterId: string): Promise<void>;
+
   /**
    * @method start
    * @description 启动消息队列
@@ -289,6 +383,8 @@ export interface QueueStatistics {
   readonly completed: number;
   readonly failed: number;
   readonly delayed: number;
+  readonly deadLettered: number; // 死信数量
+  readonly oldestDeadLetteredAt?: Date; // 最早进入死信队列的时间
   readonly paused: boolean;
   readonly concurrency: number;
   readonly averageProcessingTime: number; // 毫秒
@@ -0,0 +1,60 @@
+import { SerializedDomainEvent } from '../services/event-type-registry.service';
+
+/**
+ * @interface OutboxMessage
+ * @description
+ * 发件箱消息，与聚合根在同一事务中写入，由中继进程投递到消息队列。
+ *
+ * 消息ID即领域事件ID，作为幂等键：中继保证至少一次投递，
+ * 消费者应按事件ID去重。
+ */
+export interface OutboxMessage {
+  readonly messageId: string; // 幂等键，等于领域事件ID
+  readonly aggregateId: string;
+  readonly eventType: string;
+  readonly tenantId?: string;
+  readonly payload: SerializedDomainEvent;
+  readonly attempts: number;
+  readonly createdAt: Date;
+  readonly availableAt: Date; // 早于此时间不会被投递，用于失败退避
+  readonly lastError?: string;
+}
+
+/**
+ * @interface IOutboxStore
+ * @description
+ * 发件箱存储接口，供中继进程读取和确认待投递的消息。
+ *
+ * 排序约定：
+ * 1. claimPending按写入顺序返回消息
+ * 2. 同一聚合根中存在未到期（退避中）或被其他中继占用的更早消息时，
+ *    之后的消息不会被返回，从而保证同一聚合根内的投递顺序
+ */
+export interface IOutboxStore {
+  /**
+   * @method claimPending
+   * @description 占用一批待投递的消息，占用期间其他中继不会读取这些消息
+   * @param {number} limit 最大数量
+   * @param {number} leaseMs 占用时长（毫秒），超时后消息可被重新占用
+   * @returns {Promise<OutboxMessage[]>} 按写入顺序排列的消息
+   */
+  claimPending(limit: number, leaseMs: number): Promise<OutboxMessage[]>;
+
+  /**
+   * @method markPublished
+   * @description 标记消息已投递
+   * @param {string[]} messageIds 消息ID列表
+   * @returns {Promise<void>}
+   */
+  markPublished(messageIds: string[]): Promise<void>;
+
+  /**
+   * @method markFailed
+   * @description 记录投递失败，消息在retryAt之后重新可投递
+   * @param {string} messageId 消息ID
+   * @param {string} error 错误信息
+   * @param {Date} retryAt 下次投递时间
+   * @returns {Promise<void>}
+   */
+  markFailed(messageId: string, error: string, retryAt: Date): Promise<void>;
+}
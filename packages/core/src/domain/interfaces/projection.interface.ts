@@ -0,0 +1,121 @@
+import { DomainEvent } from '../domain-event';
+
+/**
+ * @interface IProjection
+ * @description
+ * 投影接口，负责根据领域事件构建查询侧的读模型。
+ *
+ * 投影职责：
+ * 1. 声明关心的事件类型
+ * 2. 按全局位置顺序处理事件并更新读模型
+ * 3. 重建时清空读模型
+ *
+ * 处理要求：
+ * 检查点在每批事件处理后保存，进程在批次中途退出时，
+ * 重启后会重新处理检查点之后的事件，因此handle应当是幂等的。
+ *
+ * @example
+ * ```typescript
+ * class TenantListProjection implements IProjection {
+ *   readonly name = 'tenant-list';
+ *   readonly eventTypes = ['TenantCreatedEvent', 'TenantStatusChangedEvent'];
+ *
+ *   async handle(event: DomainEvent): Promise<void> {
+ *     // 更新读模型
+ *   }
+ *
+ *   async reset(): Promise<void> {
+ *     // 清空读模型
+ *   }
+ * }
+ * ```
+ * @since 1.0.0
+ */
+export interface IProjection {
+  /**
+   * 投影名称，作为检查点的键，必须唯一
+   */
+  readonly name: string;
+
+  /**
+   * 投影订阅的事件类型
+   */
+  readonly eventTypes: string[];
+
+  /**
+   * @method handle
+   * @description 处理领域事件，更新读模型
+   * @param {DomainEvent} event 领域事件
+   * @param {number} position 事件的全局位置
+   * @returns {Promise<void>}
+   */
+  handle(event: DomainEvent, position: number): Promise<void>;
+
+  /**
+   * @method reset
+   * @description 清空读模型，重建投影前调用
+   * @returns {Promise<void>}
+   */
+  reset(): Promise<void>;
+}
+
+/**
+ * @interface ProjectionCheckpoint
+ * @description 投影检查点，记录投影已处理到的全局位置
+ */
+export interface ProjectionCheckpoint {
+  readonly projectionName: string;
+  readonly position: number;
+  readonly updatedAt: Date;
+}
+
+/**
+ * @interface IProjectionCheckpointStore
+ * @description 投影检查点存储接口，读模型所在的数据库通常也保存检查点
+ */
+export interface IProjectionCheckpointStore {
+  /**
+   * @method load
+   * @description 读取投影的检查点
+   * @param {string} projectionName 投影名称
+   * @returns {Promise<ProjectionCheckpoint | null>} 检查点，不存在时返回null
+   */
+  load(projectionName: string): Promise<ProjectionCheckpoint | null>;
+
+  /**
+   * @method save
+   * @description 保存投影的检查点
+   * @param {ProjectionCheckpoint} checkpoint 检查点
+   * @returns {Promise<void>}
+   */
+  save(checkpoint: ProjectionCheckpoint): Promise<void>;
+
+  /**
+   * @method delete
+   * @description 删除投影的检查点
+   * @param {string} projectionName 投影名称
+   * @returns {Promise<void>}
+   */
+  delete(projectionName: string): Promise<void>;
+}
+
+/**
+ * @type ProjectionState
+ * @description 投影运行状态
+ */
+export type ProjectionState = 'idle' | 'catching-up' | 'rebuilding' | 'failed';
+
+/**
+ * @interface ProjectionStatus
+ * @description 投影状态和延迟信息
+ */
+export interface ProjectionStatus {
+  readonly name: string;
+  readonly state: ProjectionState;
+  readonly position: number; // 检查点位置
+  readonly lag: number; // 检查点之后尚未处理的事件数量
+  readonly eventsProcessed: number; // 本进程内处理的事件数量
+  readonly live: boolean; // 是否订阅了事件总线
+  readonly lastProcessedAt?: Date;
+  readonly lastError?: string;
+}
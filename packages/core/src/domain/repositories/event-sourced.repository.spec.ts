@@ -0,0 +1,252 @@
+import { describe, it, beforeEach, expect, jest } from '@jest/globals';
+import { EventSourcedAggregateRoot } from '../base/event-sourced-aggregate-root';
+import { DomainEvent } from '../domain-event';
+import { InMemoryEventStore } from '../services/event-store.service';
+import { EventTypeRegistry } from '../services/event-type-registry.service';
+import {
+  EventSourcedRepository,
+  EveryNEventsSnapshotPolicy,
+  ISnapshotPolicy,
+} from './event-sourced.repository';
+
+/**
+ * @class CounterIncrementedEvent
+ * @description 测试用计数器递增事件
+ */
+class CounterIncrementedEvent extends DomainEvent {
+  constructor(
+    aggregateId: string,
+    public readonly amount: number,
+  ) {
+    super(aggregateId);
+  }
+
+  toJSON(): Record<string, unknown> {
+    return { amount: this.amount };
+  }
+}
+
+/**
+ * @class CounterAggregate
+ * @description 测试用计数器聚合根
+ */
+class CounterAggregate extends EventSourcedAggregateRoot {
+  public total = 0;
+  public replayedEvents = 0;
+
+  constructor(public readonly id: string) {
+    super();
+  }
+
+  increment(amount: number): void {
+    const event = new CounterIncrementedEvent(this.id, amount);
+    this.handleEvent(event, false);
+    this.addDomainEvent(event);
+  }
+
+  protected handleEvent(event: DomainEvent, isFromHistory: boolean): void {
+    if (event.getEventType() === 'CounterIncrementedEvent') {
+      this.total += event.toJSON().amount as number;
+      if (isFromHistory) {
+        this.replayedEvents++;
+      }
+    }
+  }
+
+  protected toSnapshot(): Record<string, unknown> {
+    return { total: this.total };
+  }
+
+  protected fromSnapshot(data: Record<string, unknown>): void {
+    this.total = data.total as number;
+  }
+}
+
+const registry = new EventTypeRegistry().register(CounterIncrementedEvent, {
+  deserialize: ({ aggregateId, data }) =>
+    new CounterIncrementedEvent(aggregateId, data.amount as number),
+});
+
+class CounterRepository extends EventSourcedRepository<CounterAggregate> {
+  protected getAggregateType(): string {
+    return 'CounterAggregate';
+  }
+
+  protected createEmptyAggregate(aggregateId: string): CounterAggregate {
+    return new CounterAggregate(aggregateId);
+  }
+}
+
+describe('EventSourcedRepository', () => {
+  let eventStore: InMemoryEventStore;
+  let repository: CounterRepository;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    eventStore = new InMemoryEventStore({ eventTypeRegistry: registry });
+    repository = new CounterRepository(
+      eventStore,
+      new EveryNEventsSnapshotPolicy(3),
+    );
+  });
+
+  it('should return null for unknown aggregates', async () => {
+    await expect(repository.load('missing')).resolves.toBeNull();
+  });
+
+  it('should advance the aggregate version when events are committed', async () => {
+    const counter = new CounterAggregate('counter-1');
+    counter.increment(1);
+    counter.increment(2);
+
+    await repository.save(counter.id, counter);
+
+    expect(counter.version).toBe(2);
+    expect(counter.getDomainEvents()).toHaveLength(0);
+    await expect(eventStore.getAggregateVersion('counter-1')).resolves.toBe(2);
+  });
+
+  it('should create a snapshot when the policy interval is crossed', async () => {
+    const counter = new CounterAggregate('counter-1');
+    counter.increment(1);
+    counter.increment(2);
+    await repository.save(counter.id, counter);
+    await expect(eventStore.getSnapshot('counter-1')).resolves.toBeNull();
+
+    counter.increment(3);
+    counter.increment(4);
+    await repository.save(counter.id, counter);
+
+    const snapshot = await eventStore.getSnapshot('counter-1');
+    expect(snapshot).toMatchObject({
+      aggregateId: 'counter-1',
+      aggregateType: 'CounterAggregate',
+      version: 4,
+      data: { total: 10 },
+    });
+  });
+
+  it('should skip snapshots for aggregates that do not support them', async () => {
+    class PlainAggregate extends EventSourcedAggregateRoot {}
+    const plain = new PlainAggregate();
+    expect(plain.captureSnapshot()).toBeNull();
+    expect(() => plain.restoreFromSnapshot({}, 3)).toThrow(
+      'PlainAggregate does not support restoring from snapshots',
+    );
+
+    const counter = new CounterAggregate('counter-1');
+    jest.spyOn(counter, 'captureSnapshot').mockReturnValue(null);
+    for (let i = 1; i <= 4; i++) {
+      counter.increment(i);
+    }
+    await repository.save(counter.id, counter);
+
+    await expect(eventStore.getSnapshot('counter-1')).resolves.toBeNull();
+  });
+
+  it('should replay only the events after the latest snapshot', async () => {
+    const counter = new CounterAggregate('counter-1');
+    for (let i = 1; i <= 4; i++) {
+      counter.increment(i);
+      await repository.save(counter.id, counter);
+    }
+
+    const loaded = await repository.load('counter-1');
+
+    expect(loaded?.total).toBe(10);
+    expect(loaded?.version).toBe(4);
+    expect(loaded?.replayedEvents).toBe(1);
+  });
+
+  it('should rebuild from full history when no snapshot exists', async () => {
+    const neverPolicy: ISnapshotPolicy = { shouldSnapshot: () => false };
+    repository = new CounterRepository(eventStore, neverPolicy);
+    const counter = new CounterAggregate('counter-1');
+    counter.increment(5);
+    counter.increment(6);
+    await repository.save(counter.id, counter);
+
+    const loaded = await repository.load('counter-1');
+
+    expect(loaded?.total).toBe(11);
+    expect(loaded?.replayedEvents).toBe(2);
+  });
+
+  it('should reject saves from a stale aggregate version', async () => {
+    const counter = new CounterAggregate('counter-1');
+    counter.increment(1);
+    await repository.save(counter.id, counter);
+
+    const stale = new CounterAggregate('counter-1');
+    stale.increment(1);
+
+    await expect(repository.save(stale.id, stale)).rejects.toThrow(
+      'Version conflict',
+    );
+  });
+});
+
+describe('EveryNEventsSnapshotPolicy', () => {
+  it('should trigger when a save crosses an interval boundary', () => {
+    const policy = new EveryNEventsSnapshotPolicy(50);
+
+    expect(policy.shouldSnapshot(48, 51)).toBe(true);
+    expect(policy.shouldSnapshot(51, 52)).toBe(false);
+    expect(policy.shouldSnapshot(0, 50)).toBe(true);
+  });
+
+  it('should reject non-positive intervals', () => {
+    expect(() => new EveryNEventsSnapshotPolicy(0)).toThrow();
+  });
+});
+
+describe('InMemoryEventStore snapshots', () => {
+  let eventStore: InMemoryEventStore;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    eventStore = new InMemoryEventStore({
+      maxSnapshotsPerAggregate: 2,
+      eventTypeRegistry: registry,
+    });
+    const events = [1, 2, 3, 4].map(
+      amount => new CounterIncrementedEvent('counter-1', amount),
+    );
+    await eventStore.saveEvents('counter-1', events, 0);
+  });
+
+  it('should keep snapshots versioned and bounded by the retention limit', async () => {
+    await eventStore.createSnapshot('counter-1', { total: 1 }, 1);
+    await eventStore.createSnapshot('counter-1', { total: 3 }, 2);
+    await eventStore.createSnapshot('counter-1', { total: 10 }, 4);
+
+    await expect(eventStore.getSnapshotVersions('counter-1')).resolves.toEqual([
+      2, 4,
+    ]);
+    await expect(eventStore.getSnapshot('counter-1', 3)).resolves.toMatchObject(
+      { version: 2, data: { total: 3 } },
+    );
+  });
+
+  it('should isolate stored snapshots from caller mutations', async () => {
+    const state = { total: 1 };
+    await eventStore.createSnapshot('counter-1', state, 1);
+    state.total = 99;
+
+    const snapshot = await eventStore.getSnapshot('counter-1');
+    expect(snapshot?.data).toEqual({ total: 1 });
+  });
+
+  it('should reject snapshots beyond the current aggregate version', async () => {
+    await expect(
+      eventStore.createSnapshot('counter-1', { total: 0 }, 5),
+    ).rejects.toThrow('current version is 4');
+  });
+
+  it('should delete all snapshots of an aggregate', async () => {
+    await eventStore.createSnapshot('counter-1', { total: 1 }, 1);
+    await eventStore.deleteSnapshot('counter-1');
+
+    await expect(eventStore.getSnapshot('counter-1')).resolves.toBeNull();
+  });
+});
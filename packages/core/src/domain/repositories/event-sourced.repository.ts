@@ -0,0 +1,269 @@
+import { EventSourcedAggregateRoot } from '../base/event-sourced-aggregate-root';
+import { DomainEvent, EventMetadata } from '../domain-event';
+import { IConflictResolver } from '../interfaces/conflict-resolver.interface';
+import { IEventStore } from '../interfaces/event-store.interface';
+import { ConcurrencyConflictError } from '../services/conflict-resolver.service';
+
+/**
+ * @interface ISnapshotPolicy
+ * @description 快照策略接口，决定聚合根保存后是否需要创建快照
+ */
+export interface ISnapshotPolicy {
+  /**
+   * @method shouldSnapshot
+   * @description 判断是否需要创建快照
+   * @param {number} previousVersion 保存前的聚合根版本号
+   * @param {number} currentVersion 保存后的聚合根版本号
+   * @returns {boolean} 是否需要创建快照
+   */
+  shouldSnapshot(previousVersion: number, currentVersion: number): boolean;
+}
+
+/**
+ * @class EveryNEventsSnapshotPolicy
+ * @description
+ * 每N个事件创建一次快照的策略。当一次保存跨越了N的整数倍版本边界时触发快照，
+ * 即使单次保存提交了多个事件也不会错过快照点。
+ *
+ * @example
+ * ```typescript
+ * const policy = new EveryNEventsSnapshotPolicy(50);
+ * policy.shouldSnapshot(48, 51); // true
+ * policy.shouldSnapshot(51, 52); // false
+ * ```
+ * @since 1.0.0
+ */
+export class EveryNEventsSnapshotPolicy implements ISnapshotPolicy {
+  constructor(private readonly interval: number) {
+    if (!Number.isInteger(interval) || interval < 1) {
+      throw new Error('Snapshot interval must be a positive integer');
+    }
+  }
+
+  shouldSnapshot(previousVersion: number, currentVersion: number): boolean {
+    return (
+      Math.floor(currentVersion / this.interval) >
+      Math.floor(previousVersion / this.interval)
+    );
+  }
+}
+
+/**
+ * @class NeverSnapshotPolicy
+ * @description 从不创建快照的策略，适用于事件历史较短的聚合根
+ * @since 1.0.0
+ */
+export class NeverSnapshotPolicy implements ISnapshotPolicy {
+  shouldSnapshot(_previousVersion: number, _currentVersion: number): boolean {
+    return false;
+  }
+}
+
+/**
+ * @class EventSourcedRepository
+ * @description
+ * 支持快照的事件溯源仓储基类，负责聚合根的加载和保存。
+ *
+ * 加载流程：
+ * 1. 获取聚合根的最新快照
+ * 2. 从快照恢复聚合根状态和版本号
+ * 3. 仅重放快照版本之后的事件
+ *
+ * 保存流程：
+ * 1. 以聚合根当前版本作为期望版本保存未提交事件
+ * 2. 版本冲突且冲突解决器判断事件可交换时，在当前版本之后重新保存
+ * 3. 标记事件已提交，把并发提交的事件应用到聚合根，推进聚合根版本号
+ * 4. 根据快照策略决定是否创建快照
+ *
+ * 快照创建失败不会影响保存结果，事件已经持久化，
+ * 下一次加载只会重放更多的事件。
+ *
+ * @template T 聚合根类型
+ *
+ * @example
+ * ```typescript
+ * class TenantRepository extends EventSourcedRepository<TenantAggregate> {
+ *   constructor(eventStore: IEventStore) {
+ *     super(eventStore, new EveryNEventsSnapshotPolicy(100));
+ *   }
+ *
+ *   protected getAggregateType(): string {
+ *     return 'TenantAggregate';
+ *   }
+ *
+ *   protected createEmptyAggregate(): TenantAggregate {
+ *     return new TenantAggregate();
+ *   }
+ * }
+ *
+ * const tenant = await tenantRepository.load('tenant-123');
+ * ```
+ * @abstract
+ * @since 1.0.0
+ */
+export abstract class EventSourcedRepository<
+  T extends EventSourcedAggregateRoot,
+> {
+  /**
+   * 冲突解决后重新保存的最大次数，避免在高争用下无限重试
+   */
+  private static readonly MAX_CONFLICT_RESOLUTIONS = 3;
+
+  constructor(
+    protected readonly eventStore: IEventStore,
+    protected readonly snapshotPolicy: ISnapshotPolicy = new NeverSnapshotPolicy(),
+    protected readonly conflictResolver?: IConflictResolver,
+  ) {}
+
+  /**
+   * @method load
+   * @description 加载聚合根，优先使用快照，仅重放快照之后的事件
+   * @param {string} aggregateId 聚合根ID
+   * @returns {Promise<T | null>} 聚合根，不存在时返回null
+   */
+  async load(aggregateId: string): Promise<T | null> {
+    const aggregate = this.createEmptyAggregate(aggregateId);
+    const snapshot = await this.eventStore.getSnapshot(aggregateId);
+
+    let fromVersion = 1;
+    if (snapshot) {
+      aggregate.restoreFromSnapshot(snapshot.data, snapshot.version);
+      fromVersion = snapshot.version + 1;
+    }
+
+    const events = await this.eventStore.getEvents(aggregateId, fromVersion);
+    if (!snapshot && events.length === 0) {
+      return null;
+    }
+
+    aggregate.loadFromHistory(events);
+    return aggregate;
+  }
+
+  /**
+   * @method save
+   * @description 保存聚合根的未提交事件，并按快照策略创建快照
+   * @param {string} aggregateId 聚合根ID
+   * @param {T} aggregate 聚合根
+   * @param {EventMetadata} [metadata] 事件元数据，可选
+   * @returns {Promise<void>}
+   * @throws {ConcurrencyConflictError} 当版本冲突且无法自动解决时抛出
+   * @throws {Error} 当事件无效时抛出
+   */
+  async save(
+    aggregateId: string,
+    aggregate: T,
+    metadata?: EventMetadata,
+  ): Promise<void> {
+    const events = aggregate.getDomainEvents();
+    if (events.length === 0) {
+      return;
+    }
+
+    const previousVersion = aggregate.version;
+    const concurrentEvents = await this.saveResolvingConflicts(
+      aggregateId,
+      events,
+      previousVersion,
+      metadata,
+    );
+    aggregate.markEventsAsCommitted();
+    aggregate.loadFromHistory(concurrentEvents);
+
+    if (
+      this.snapshotPolicy.shouldSnapshot(previousVersion, aggregate.version)
+    ) {
+      await this.snapshot(aggregateId, aggregate);
+    }
+  }
+
+  /**
+   * @method saveResolvingConflicts
+   * @description 保存事件，版本冲突可解决时在当前版本之后重新保存
+   * @param {string} aggregateId 聚合根ID
+   * @param {DomainEvent[]} events 未提交事件
+   * @param {number} expectedVersion 期望版本号
+   * @param {EventMetadata} [metadata] 事件元数据
+   * @returns {Promise<DomainEvent[]>} 期望版本之后由其他写入方提交的事件
+   * @private
+   */
+  private async saveResolvingConflicts(
+    aggregateId: string,
+    events: DomainEvent[],
+    expectedVersion: number,
+    metadata?: EventMetadata,
+  ): Promise<DomainEvent[]> {
+    const concurrentEvents: DomainEvent[] = [];
+    let version = expectedVersion;
+
+    for (let resolutions = 0; ; resolutions++) {
+      try {
+        await this.eventStore.saveEvents(
+          aggregateId,
+          events,
+          version,
+          metadata,
+        );
+        return concurrentEvents;
+      } catch (error) {
+        if (
+          !(error instanceof ConcurrencyConflictError) ||
+          error.currentVersion < version ||
+          resolutions >= EventSourcedRepository.MAX_CONFLICT_RESOLUTIONS ||
+          !this.conflictResolver?.canResolve(error)
+        ) {
+          throw error;
+        }
+
+        concurrentEvents.push(...error.conflictingEvents);
+        version = error.currentVersion;
+      }
+    }
+  }
+
+  /**
+   * @method snapshot
+   * @description 立即为聚合根创建快照，聚合根不支持快照时跳过
+   * @param {string} aggregateId 聚合根ID
+   * @param {T} aggregate 聚合根
+   * @returns {Promise<void>}
+   */
+  async snapshot(aggregateId: string, aggregate: T): Promise<void> {
+    const data = aggregate.captureSnapshot();
+    if (!data) {
+      return;
+    }
+
+    try {
+      await this.eventStore.createSnapshot(
+        aggregateId,
+        data,
+        aggregate.version,
+        this.getAggregateType(),
+      );
+    } catch (error) {
+      console.warn(
+        `Failed to create snapshot for aggregate ${aggregateId} at version ${aggregate.version}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * @method getAggregateType
+   * @description 获取聚合根类型名称，记录在快照中
+   * @returns {string} 聚合根类型
+   * @protected
+   * @abstract
+   */
+  protected abstract getAggregateType(): string;
+
+  /**
+   * @method createEmptyAggregate
+   * @description 创建用于重建状态的空聚合根实例
+   * @param {string} aggregateId 聚合根ID
+   * @returns {T} 空聚合根
+   * @protected
+   * @abstract
+   */
+  protected abstract createEmptyAggregate(aggregateId: string): T;
+}
@@ -0,0 +1,297 @@
+import { describe, it, beforeEach, expect, jest } from '@jest/globals';
+import { BaseCommandHandler } from '../../application/handlers/base-command-handler';
+import {
+  ConcurrencyRetryPolicy,
+  ICommandRetryPolicy,
+} from '../../application/handlers/command-retry-policy';
+import { EventSourcedAggregateRoot } from '../base/event-sourced-aggregate-root';
+import { DomainEvent } from '../domain-event';
+import { EventSourcedRepository } from '../repositories/event-sourced.repository';
+import {
+  CommutingEventsConflictResolver,
+  ConcurrencyConflictError,
+} from './conflict-resolver.service';
+import { InMemoryEventStore } from './event-store.service';
+import { EventTypeRegistry } from './event-type-registry.service';
+
+/**
+ * @class UserPreferencesUpdatedEvent
+ * @description 测试用偏好设置更新事件
+ */
+class UserPreferencesUpdatedEvent extends DomainEvent {
+  constructor(
+    aggregateId: string,
+    public readonly key: string,
+    public readonly value: string,
+  ) {
+    super(aggregateId);
+  }
+
+  toJSON(): Record<string, unknown> {
+    return { key: this.key, value: this.value };
+  }
+}
+
+/**
+ * @class UserPreferencesAggregate
+ * @description 测试用偏好设置聚合根
+ */
+class UserPreferencesAggregate extends EventSourcedAggregateRoot {
+  public preferences: Record<string, string> = {};
+
+  constructor(public readonly id: string) {
+    super();
+  }
+
+  set(key: string, value: string): void {
+    const event = new UserPreferencesUpdatedEvent(this.id, key, value);
+    this.handleEvent(event, false);
+    this.addDomainEvent(event);
+  }
+
+  protected handleEvent(event: DomainEvent, _isFromHistory: boolean): void {
+    if (event instanceof UserPreferencesUpdatedEvent) {
+      this.preferences = { ...this.preferences, [event.key]: event.value };
+    }
+  }
+}
+
+const registry = new EventTypeRegistry().register(UserPreferencesUpdatedEvent, {
+  deserialize: ({ aggregateId, data }) =>
+    new UserPreferencesUpdatedEvent(
+      aggregateId,
+      data.key as string,
+      data.value as string,
+    ),
+});
+
+const differentKeys = new CommutingEventsConflictResolver().register(
+  'UserPreferencesUpdatedEvent',
+  'UserPreferencesUpdatedEvent',
+  (a, b) =>
+    (a as UserPreferencesUpdatedEvent).key !==
+    (b as UserPreferencesUpdatedEvent).key,
+);
+
+class PreferencesRepository extends EventSourcedRepository<UserPreferencesAggregate> {
+  protected getAggregateType(): string {
+    return 'UserPreferencesAggregate';
+  }
+
+  protected createEmptyAggregate(
+    aggregateId: string,
+  ): UserPreferencesAggregate {
+    return new UserPreferencesAggregate(aggregateId);
+  }
+}
+
+describe('optimistic concurrency conflicts', () => {
+  let eventStore: InMemoryEventStore;
+
+  beforeEach(async () => {
+    eventStore = new InMemoryEventStore({ eventTypeRegistry: registry });
+    await eventStore.saveEvents(
+      'user-1',
+      [new UserPreferencesUpdatedEvent('user-1', 'theme', 'light')],
+      0,
+    );
+  });
+
+  /**
+   * 模拟两个管理员同时编辑：都在版本1加载，第一个先提交
+   */
+  const loadTwice = async (
+    repository: PreferencesRepository,
+  ): Promise<[UserPreferencesAggregate, UserPreferencesAggregate]> => [
+    (await repository.load('user-1'))!,
+    (await repository.load('user-1'))!,
+  ];
+
+  it('should throw a typed error carrying the current version and conflicting events', async () => {
+    const committed = new UserPreferencesUpdatedEvent(
+      'user-1',
+      'theme',
+      'dark',
+    );
+    const attempted = new UserPreferencesUpdatedEvent('user-1', 'lang', 'en');
+    await eventStore.saveEvents('user-1', [committed], 1);
+
+    const error = await eventStore
+      .saveEvents('user-1', [attempted], 1)
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ConcurrencyConflictError);
+    expect(error).toMatchObject({
+      aggregateId: 'user-1',
+      expectedVersion: 1,
+      currentVersion: 2,
+      attemptedEvents: [attempted],
+    });
+    const { conflictingEvents } = error as ConcurrencyConflictError;
+    expect(conflictingEvents).toHaveLength(1);
+    expect(conflictingEvents[0]).toBeInstanceOf(UserPreferencesUpdatedEvent);
+    expect(conflictingEvents[0]).toMatchObject({
+      key: committed.key,
+      value: committed.value,
+    });
+  });
+
+  it('should rebase commuting events and apply the concurrent ones to the aggregate', async () => {
+    const repository = new PreferencesRepository(
+      eventStore,
+      undefined,
+      differentKeys,
+    );
+    const [first, second] = await loadTwice(repository);
+    first.set('theme', 'dark');
+    second.set('lang', 'en');
+
+    await repository.save('user-1', first);
+    await repository.save('user-1', second);
+
+    expect(second.version).toBe(3);
+    expect(second.preferences).toEqual({ theme: 'dark', lang: 'en' });
+    await expect(eventStore.getAggregateVersion('user-1')).resolves.toBe(3);
+    expect((await repository.load('user-1'))?.preferences).toEqual({
+      theme: 'dark',
+      lang: 'en',
+    });
+  });
+
+  it('should keep failing when the events do not commute', async () => {
+    const repository = new PreferencesRepository(
+      eventStore,
+      undefined,
+      differentKeys,
+    );
+    const [first, second] = await loadTwice(repository);
+    first.set('theme', 'dark');
+    second.set('theme', 'solarized');
+
+    await repository.save('user-1', first);
+
+    await expect(repository.save('user-1', second)).rejects.toBeInstanceOf(
+      ConcurrencyConflictError,
+    );
+    expect(second.version).toBe(1);
+  });
+
+  it('should require a rule for every event pair', () => {
+    const resolver = new CommutingEventsConflictResolver().register(
+      'TenantTagAddedEvent',
+      'UserPreferencesUpdatedEvent',
+    );
+    const tag = { eventType: 'TenantTagAddedEvent' } as DomainEvent;
+    const preference = {
+      eventType: 'UserPreferencesUpdatedEvent',
+    } as DomainEvent;
+    const conflict = {
+      aggregateId: 'user-1',
+      expectedVersion: 1,
+      currentVersion: 2,
+    };
+
+    expect(
+      resolver.canResolve({
+        ...conflict,
+        attemptedEvents: [preference],
+        conflictingEvents: [tag],
+      }),
+    ).toBe(true);
+    expect(
+      resolver.canResolve({
+        ...conflict,
+        attemptedEvents: [preference, tag],
+        conflictingEvents: [tag],
+      }),
+    ).toBe(false);
+  });
+
+  describe('command retry policy', () => {
+    class SetPreferenceCommandHandler extends BaseCommandHandler<
+      { key: string; value: string },
+      void
+    > {
+      public executions = 0;
+
+      constructor(
+        private readonly repository: PreferencesRepository,
+        private readonly retryPolicy?: ICommandRetryPolicy,
+        private readonly concurrentEdit?: () => Promise<void>,
+      ) {
+        super();
+      }
+
+      protected getRetryPolicy(): ICommandRetryPolicy | undefined {
+        return this.retryPolicy;
+      }
+
+      protected async execute(command: {
+        key: string;
+        value: string;
+      }): Promise<void> {
+        this.executions++;
+        const aggregate = (await this.repository.load('user-1'))!;
+        aggregate.set(command.key, command.value);
+        if (this.executions === 1) {
+          await this.concurrentEdit?.();
+        }
+        await this.repository.save('user-1', aggregate);
+      }
+    }
+
+    let repository: PreferencesRepository;
+    const concurrentEdit = async (): Promise<void> => {
+      const other = (await repository.load('user-1'))!;
+      other.set('theme', 'dark');
+      await repository.save('user-1', other);
+    };
+
+    beforeEach(() => {
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      repository = new PreferencesRepository(eventStore);
+    });
+
+    it('should re-execute the command after a concurrency conflict', async () => {
+      const handler = new SetPreferenceCommandHandler(
+        repository,
+        new ConcurrencyRetryPolicy({ delayMs: 0 }),
+        concurrentEdit,
+      );
+
+      await handler.handle({ key: 'theme', value: 'solarized' });
+
+      expect(handler.executions).toBe(2);
+      expect((await repository.load('user-1'))?.preferences).toEqual({
+        theme: 'solarized',
+      });
+    });
+
+    it('should fail hard without a retry policy', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      const handler = new SetPreferenceCommandHandler(
+        repository,
+        undefined,
+        concurrentEdit,
+      );
+
+      await expect(
+        handler.handle({ key: 'theme', value: 'solarized' }),
+      ).rejects.toBeInstanceOf(ConcurrencyConflictError);
+      expect(handler.executions).toBe(1);
+    });
+  });
+
+  it('should back off exponentially up to the maximum delay', () => {
+    const policy = new ConcurrencyRetryPolicy({
+      delayMs: 100,
+      backoffMultiplier: 3,
+      maxDelayMs: 500,
+    });
+
+    expect([1, 2, 3].map(attempt => policy.getDelay(attempt))).toEqual([
+      100, 300, 500,
+    ]);
+    expect(policy.shouldRetry(new Error('boom'))).toBe(false);
+  });
+});
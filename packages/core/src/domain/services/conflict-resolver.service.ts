@@ -0,0 +1,96 @@
+import { DomainEvent } from '../domain-event';
+import {
+  EventConflict,
+  IConflictResolver,
+} from '../interfaces/conflict-resolver.interface';
+
+/**
+ * @class ConcurrencyConflictError
+ * @description 保存事件时期望版本与当前版本不一致抛出的错误，携带冲突上下文
+ */
+export class ConcurrencyConflictError extends Error implements EventConflict {
+  constructor(
+    public readonly aggregateId: string,
+    public readonly expectedVersion: number,
+    public readonly currentVersion: number,
+    public readonly attemptedEvents: readonly DomainEvent[],
+    public readonly conflictingEvents: readonly DomainEvent[],
+  ) {
+    super(
+      `Version conflict for aggregate ${aggregateId}: expected ${expectedVersion}, but current version is ${currentVersion}`,
+    );
+    this.name = 'ConcurrencyConflictError';
+  }
+}
+
+/**
+ * 判断两个事件是否可交换
+ */
+export type CommutePredicate = (
+  attempted: DomainEvent,
+  committed: DomainEvent,
+) => boolean;
+
+/**
+ * @class CommutingEventsConflictResolver
+ * @description
+ * 基于规则的冲突解决器，按事件类型对声明可交换的条件。
+ *
+ * 判断规则：
+ * 1. 每个尝试写入的事件与每个已提交的事件都必须有对应的规则
+ * 2. 规则是对称的，注册(A, B)同时覆盖(B, A)
+ * 3. 任一事件对没有规则或规则返回false时视为冲突
+ *
+ * @example
+ * ```typescript
+ * const resolver = new CommutingEventsConflictResolver().register(
+ *   'UserPreferencesUpdatedEvent',
+ *   'UserPreferencesUpdatedEvent',
+ *   (a, b) =>
+ *     (a as UserPreferencesUpdatedEvent).key !==
+ *     (b as UserPreferencesUpdatedEvent).key,
+ * );
+ * ```
+ * @since 1.0.0
+ */
+export class CommutingEventsConflictResolver implements IConflictResolver {
+  private readonly rules: Map<string, CommutePredicate> = new Map();
+
+  /**
+   * @method register
+   * @description 声明两种事件类型在满足条件时可交换
+   * @param {string} eventType 事件类型
+   * @param {string} otherEventType 另一事件类型，可与eventType相同
+   * @param {CommutePredicate} [commutes] 可交换条件，默认总是可交换
+   * @returns {this} 当前解决器，支持链式调用
+   */
+  register(
+    eventType: string,
+    otherEventType: string,
+    commutes: CommutePredicate = (): boolean => true,
+  ): this {
+    this.rules.set(this.key(eventType, otherEventType), commutes);
+    if (eventType !== otherEventType) {
+      this.rules.set(
+        this.key(otherEventType, eventType),
+        (attempted, committed) => commutes(committed, attempted),
+      );
+    }
+    return this;
+  }
+
+  canResolve(conflict: EventConflict): boolean {
+    return conflict.attemptedEvents.every(attempted =>
+      conflict.conflictingEvents.every(committed => {
+        const commutes = this.rules.get(
+          this.key(attempted.eventType, committed.eventType),
+        );
+        return commutes?.(attempted, committed) ?? false;
+      }),
+    );
+  }
+
+  private key(eventType: string, otherEventType: string): string {
+    return `${eventType}|${otherEventType}`;
+  }
+}
@@ -1,8 +1,57 @@
 import { DomainEvent, EventMetadata } from '../domain-event';
-import { IEventStore } from '../interfaces/event-store.interface';
+import {
+  IAggregateSnapshot,
+  IEventStore,
+} from '../interfaces/event-store.interface';
 
 // 使用接口中定义的StoredEvent和EventStream
-import { StoredEvent, EventStream } from '../interfaces/event-store.interface';
+import {
+  StoredEvent,
+  EventStream,
+  EventStoreQuery,
+  EventStoreResult,
+  EventStreamOptions,
+} from '../interfaces/event-store.interface';
+import { IEventArchive } from '../interfaces/event-archive.interface';
+import {
+  EventTypeRegistry,
+  eventTypeRegistry,
+} from './event-type-registry.service';
+import {
+  EventUpcasterChain,
+  eventUpcasterChain,
+} from './event-upcaster.service';
+import { ConcurrencyConflictError } from './conflict-resolver.service';
+
+/**
+ * @interface InMemoryEventStoreOptions
+ * @description 内存事件存储配置选项
+ */
+export interface InMemoryEventStoreOptions {
+  /**
+   * 每个聚合根保留的快照数量上限，超出时丢弃最旧的快照
+   * 默认为3
+   */
+  readonly maxSnapshotsPerAggregate?: number;
+
+  /**
+   * 用于还原具体领域事件的事件类型注册表
+   * 默认使用全局注册表
+   */
+  readonly eventTypeRegistry?: EventTypeRegistry;
+
+  /**
+   * 读取事件时将旧结构版本升级到当前版本的升级器链
+   * 默认使用全局升级器链
+   */
+  readonly eventUpcasterChain?: EventUpcasterChain;
+
+  /**
+   * 归档后端，archiveEvents将旧事件移入此后端
+   * 未配置时archiveEvents会抛出错误
+   */
+  readonly eventArchive?: IEventArchive;
+}
 
 /**
  * @interface EventStoreStatistics
@@ -38,6 +87,7 @@ export interface EventStoreStatistics {
  * @param {Map<string, StoredEvent>} eventsById 事件ID索引
  * @param {Map<string, StoredEvent[]>} eventsByType 事件类型索引
  * @param {Map<string, StoredEvent[]>} eventsByTenant 租户事件索引
+ * @param {Map<string, IAggregateSnapshot[]>} snapshots 聚合根快照（按版本升序）
  *
  * @example
  * ```typescript
@@ -57,6 +107,23 @@ export class InMemoryEventStore implements IEventStore {
   private readonly eventsByType: Map<string, StoredEvent[]> = new Map();
   private readonly eventsByTenant: Map<string, StoredEvent[]> = new Map();
   private readonly aggregateVersions: Map<string, number> = new Map();
+  private readonly snapshots: Map<string, IAggregateSnapshot[]> = new Map();
+  private readonly maxSnapshotsPerAggregate: number;
+  private readonly eventTypeRegistry: EventTypeRegistry;
+  private readonly eventUpcasterChain: EventUpcasterChain;
+  private readonly eventArchive?: IEventArchive;
+  private readonly archivedThroughVersions: Map<string, number> = new Map();
+  private lastGlobalPosition = 0;
+
+  constructor(options: InMemoryEventStoreOptions = {}) {
+    this.maxSnapshotsPerAggregate = options.maxSnapshotsPerAggregate ?? 3;
+    this.eventTypeRegistry = options.eventTypeRegistry ?? eventTypeRegistry;
+    this.eventUpcasterChain = options.eventUpcasterChain ?? eventUpcasterChain;
+    this.eventArchive = options.eventArchive;
+    if (this.maxSnapshotsPerAggregate < 1) {
+      throw new Error('maxSnapshotsPerAggregate must be at least 1');
+    }
+  }
 
   /**
    * @method saveEvents
@@ -65,7 +132,7 @@ export class InMemoryEventStore implements IEventStore {
    * @param {DomainEvent[]} events 领域事件列表
    * @param {number} expectedVersion 期望的版本号，用于乐观并发控制
    * @returns {Promise<void>}
-   * @throws {ConcurrencyError} 当版本冲突时抛出
+   * @throws {ConcurrencyConflictError} 当版本冲突时抛出，携带当前版本和冲突的事件
    * @throws {ValidationError} 当事件无效时抛出
    *
    * 保存流程：
@@ -86,7 +153,7 @@ export class InMemoryEventStore implements IEventStore {
       this.validateSaveEventsInput(aggregateId, events, expectedVersion);
 
       // 2. 检查版本一致性
-      await this.checkVersionConsistency(aggregateId, expectedVersion);
+      await this.checkVersionConsistency(aggregateId, events, expectedVersion);
 
       // 3. 转换事件为存储格式
       const storedEvents = events.map((event, index) =>
@@ -104,6 +171,9 @@ export class InMemoryEventStore implements IEventStore {
         `Saved ${events.length} events for aggregate ${aggregateId} from version ${expectedVersion}`,
       );
     } catch (error) {
+      if (error instanceof ConcurrencyConflictError) {
+        throw error;
+      }
       const errorMessage =
         error instanceof Error ? error.message : String(error);
       throw new Error(
@@ -114,7 +184,7 @@ export class InMemoryEventStore implements IEventStore {
 
   /**
    * @method getEvents
-   * @description 获取聚合根的事件历史
+   * @description 获取聚合根的事件历史，已归档的事件会从归档后端透明读取
    * @param {string} aggregateId 聚合根ID
    * @param {number} fromVersion 起始版本号
    * @param {number} toVersion 结束版本号，可选
@@ -127,22 +197,13 @@ export class InMemoryEventStore implements IEventStore {
     toVersion?: number,
   ): Promise<DomainEvent[]> {
     try {
-      // 1. 获取事件流
-      const eventStream = this.eventStreams.get(aggregateId);
-      if (!eventStream) {
-        return [];
-      }
+      // 1. 获取事件流（包含已归档部分，保证重放完整）
+      const eventStream = await this.loadStream(aggregateId, fromVersion, true);
 
       // 2. 过滤版本范围
-      const filteredEvents = eventStream.filter(event => {
-        if (event.eventVersion < fromVersion) {
-          return false;
-        }
-        if (toVersion !== undefined && event.eventVersion > toVersion) {
-          return false;
-        }
-        return true;
-      });
+      const filteredEvents = eventStream.filter(
+        event => toVersion === undefined || event.eventVersion <= toVersion,
+      );
 
       // 3. 转换为领域事件
       return filteredEvents.map(storedEvent =>
@@ -160,17 +221,23 @@ export class InMemoryEventStore implements IEventStore {
    * @description 获取完整的事件流
    * @param {string} aggregateId 聚合根ID
    * @param {number} fromVersion 起始版本号
-   * @param {number} toVersion 结束版本号，可选
+   * @param {number} limit 限制数量
+   * @param {EventStreamOptions} [options] 读取选项，includeArchived为true时包含已归档事件
    * @returns {Promise<EventStream>} 事件流
    */
   async getEventStream(
     aggregateId: string,
     fromVersion: number = 0,
     limit: number = 100,
+    options: EventStreamOptions = {},
   ): Promise<EventStream> {
     try {
-      const eventStream = this.eventStreams.get(aggregateId);
-      if (!eventStream) {
+      const eventStream = await this.loadStream(
+        aggregateId,
+        fromVersion,
+        options.includeArchived ?? false,
+      );
+      if (eventStream.length === 0) {
         return {
           aggregateId,
           events: [],
@@ -181,8 +248,8 @@ export class InMemoryEventStore implements IEventStore {
       }
 
       const filteredEvents = eventStream
-        .filter(event => event.eventVersion >= fromVersion)
-        .slice(0, limit);
+        .slice(0, limit)
+        .map(event => this.upcastStoredEvent(event));
 
       const toVersion =
         filteredEvents.length > 0
@@ -365,19 +432,47 @@ export class InMemoryEventStore implements IEventStore {
 
   /**
    * @method queryEvents
-   * @description 查询事件
+   * @description 查询事件，返回的事件已升级到当前结构版本
    * @param {EventStoreQuery} query 查询条件
    * @returns {Promise<EventStoreResult>} 查询结果
    */
-  async queryEvents(
-    _query: unknown,
-  ): Promise<{ events: StoredEvent[]; totalCount: number; hasMore: boolean }> {
-    // 简化实现，返回空结果
-    return {
-      events: [],
-      totalCount: 0,
-      hasMore: false,
-    };
+  async queryEvents(query: EventStoreQuery): Promise<EventStoreResult> {
+    try {
+      const candidates = query.aggregateId
+        ? (this.eventStreams.get(query.aggregateId) ?? [])
+        : query.eventType
+          ? (this.eventsByType.get(query.eventType) ?? [])
+          : query.tenantId
+            ? (this.eventsByTenant.get(query.tenantId) ?? [])
+            : Array.from(this.eventsById.values());
+
+      const matched = candidates
+        .filter(event => this.matchesQuery(event, query))
+        .sort(
+          (a, b) =>
+            (a.globalPosition ?? 0) - (b.globalPosition ?? 0) ||
+            a.storedAt.getTime() - b.storedAt.getTime() ||
+            a.eventVersion - b.eventVersion,
+        );
+
+      const offset = query.offset ?? 0;
+      const limit = query.limit ?? 100;
+      const page = matched
+        .slice(offset, offset + limit)
+        .map(event => this.upcastStoredEvent(event));
+      const hasMore = offset + page.length < matched.length;
+
+      return {
+        events: page,
+        totalCount: matched.length,
+        hasMore,
+        nextOffset: hasMore ? offset + page.length : undefined,
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to query events: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
   }
 
   /**
@@ -386,16 +481,50 @@ export class InMemoryEventStore implements IEventStore {
    * @param {string} aggregateId 聚合根ID
    * @param {any} aggregateState 聚合根状态
    * @param {number} version 版本号
+   * @param {string} [aggregateType] 聚合根类型，可选
    * @returns {Promise<void>}
+   * @throws {Error} 当版本号无效或超出聚合根当前版本时抛出
+   *
+   * 快照按版本号升序保存，同一版本的快照会被覆盖，
+   * 超出保留数量上限时丢弃最旧的快照。
    */
   async createSnapshot(
     aggregateId: string,
     aggregateState: unknown,
     version: number,
+    aggregateType: string = 'unknown',
   ): Promise<void> {
-    // 简化实现，仅记录日志
-    console.log(
-      `Snapshot created for aggregate ${aggregateId} at version ${version}`,
+    if (!aggregateId) {
+      throw new Error('Aggregate ID cannot be empty');
+    }
+
+    if (!Number.isInteger(version) || version < 1) {
+      throw new Error('Snapshot version must be a positive integer');
+    }
+
+    const currentVersion = this.aggregateVersions.get(aggregateId) ?? 0;
+    if (version > currentVersion) {
+      throw new Error(
+        `Cannot snapshot aggregate ${aggregateId} at version ${version}: current version is ${currentVersion}`,
+      );
+    }
+
+    const snapshot: IAggregateSnapshot = {
+      aggregateId,
+      aggregateType,
+      version,
+      data: this.cloneSnapshotData(aggregateState),
+      createdAt: new Date(),
+    };
+
+    const history = (this.snapshots.get(aggregateId) ?? []).filter(
+      existing => existing.version !== version,
+    );
+    history.push(snapshot);
+    history.sort((a, b) => a.version - b.version);
+    this.snapshots.set(
+      aggregateId,
+      history.slice(-this.maxSnapshotsPerAggregate),
     );
   }
 
@@ -403,22 +532,46 @@ export class InMemoryEventStore implements IEventStore {
    * @method getSnapshot
    * @description 获取聚合根的最新快照
    * @param {string} aggregateId 聚合根ID
-   * @returns {Promise<any>} 快照或null
+   * @param {number} [maxVersion] 快照版本上限，可选
+   * @returns {Promise<IAggregateSnapshot | null>} 快照或null
    */
-  async getSnapshot(_aggregateId: string): Promise<null> {
-    // 简化实现，返回null
+  async getSnapshot(
+    aggregateId: string,
+    maxVersion?: number,
+  ): Promise<IAggregateSnapshot | null> {
+    const history = this.snapshots.get(aggregateId) ?? [];
+    for (let i = history.length - 1; i >= 0; i--) {
+      const snapshot = history[i];
+      if (maxVersion === undefined || snapshot.version <= maxVersion) {
+        return {
+          ...snapshot,
+          data: this.cloneSnapshotData(snapshot.data),
+        };
+      }
+    }
     return null;
   }
 
+  /**
+   * @method getSnapshotVersions
+   * @description 获取聚合根已保存的快照版本号列表
+   * @param {string} aggregateId 聚合根ID
+   * @returns {Promise<number[]>} 升序排列的快照版本号
+   */
+  async getSnapshotVersions(aggregateId: string): Promise<number[]> {
+    return (this.snapshots.get(aggregateId) ?? []).map(
+      snapshot => snapshot.version,
+    );
+  }
+
   /**
    * @method deleteSnapshot
-   * @description 删除聚合根的快照
+   * @description 删除聚合根的所有快照
    * @param {string} aggregateId 聚合根ID
    * @returns {Promise<void>}
    */
   async deleteSnapshot(aggregateId: string): Promise<void> {
-    // 简化实现，仅记录日志
-    console.log(`Snapshot deleted for aggregate ${aggregateId}`);
+    this.snapshots.delete(aggregateId);
   }
 
   /**
@@ -433,14 +586,56 @@ export class InMemoryEventStore implements IEventStore {
 
   /**
    * @method archiveEvents
-   * @description 归档事件
-   * @param {Date} beforeDate 日期
+   * @description 将指定日期之前的事件从热存储移入归档后端
+   * @param {Date} beforeDate 归档此日期之前发生的事件
    * @returns {Promise<number>} 归档的事件数量
+   * @throws {Error} 当未配置归档后端时抛出
+   *
+   * 归档流程：
+   * 1. 对每个事件流取出发生时间早于截止日期的连续前缀
+   * 2. 将这些事件作为一个归档段写入归档后端
+   * 3. 写入成功后才从热存储和索引中移除
+   * 4. 记录每个聚合根已归档到的版本号，供读取时合并
    */
   async archiveEvents(beforeDate: Date): Promise<number> {
-    // 简化实现，仅记录日志
-    console.log(`Events archived before date ${beforeDate.toISOString()}`);
-    return 0;
+    if (!this.eventArchive) {
+      throw new Error('No event archive configured for this event store');
+    }
+
+    const toArchive: StoredEvent[] = [];
+    for (const eventStream of this.eventStreams.values()) {
+      for (const event of eventStream) {
+        if (event.occurredOn >= beforeDate) {
+          break;
+        }
+        toArchive.push(event);
+      }
+    }
+
+    if (toArchive.length === 0) {
+      return 0;
+    }
+
+    await this.eventArchive.writeSegment(toArchive);
+    this.removeArchivedEvents(toArchive);
+
+    console.log(
+      `Archived ${toArchive.length} events before date ${beforeDate.toISOString()}`,
+    );
+    return toArchive.length;
+  }
+
+  /**
+   * @method hasArchivedEvents
+   * @description 是否有事件已移入归档后端，以归档清单为准
+   * @returns {Promise<boolean>} 是否存在已归档的事件
+   */
+  async hasArchivedEvents(): Promise<boolean> {
+    if (!this.eventArchive) {
+      return false;
+    }
+    const manifest = await this.eventArchive.getManifest();
+    return manifest.segments.length > 0;
   }
 
   /**
@@ -483,6 +678,8 @@ export class InMemoryEventStore implements IEventStore {
     this.eventsByType.clear();
     this.eventsByTenant.clear();
     this.aggregateVersions.clear();
+    this.snapshots.clear();
+    this.archivedThroughVersions.clear();
     console.log('Event store cleared');
   }
 
@@ -511,38 +708,183 @@ export class InMemoryEventStore implements IEventStore {
       occurredOn: event.occurredOn,
       storedAt: new Date(),
       streamVersion: version,
+      schemaVersion:
+        this.eventTypeRegistry.getSchemaVersion(event.getEventType()) ?? 1,
+      globalPosition: ++this.lastGlobalPosition,
     };
   }
 
   /**
    * @method convertToDomainEvent
-   * @description 将存储的事件转换为领域事件
+   * @description 将存储的事件升级到当前结构版本，并通过事件类型注册表还原为具体的领域事件
    * @param {StoredEvent} storedEvent 存储的事件
    * @returns {DomainEvent} 领域事件
+   * @throws {UnknownEventTypeError} 当事件类型未注册时抛出
    * @private
    */
-  private convertToDomainEvent(storedEvent: StoredEvent): DomainEvent {
-    // 这里需要根据事件类型创建相应的领域事件实例
-    // 为了简化，我们创建一个通用的领域事件
-    const event = new (class extends DomainEvent {
-      constructor() {
-        super(
-          storedEvent.aggregateId,
-          storedEvent.eventVersion,
-          storedEvent.metadata,
-        );
-      }
+  private convertToDomainEvent(event: StoredEvent): DomainEvent {
+    const storedEvent = this.upcastStoredEvent(event);
+    return this.eventTypeRegistry.deserialize({
+      eventId: storedEvent.eventId,
+      eventType: storedEvent.eventType,
+      schemaVersion: storedEvent.schemaVersion ?? 1,
+      aggregateId: storedEvent.aggregateId,
+      occurredOn: storedEvent.occurredOn,
+      metadata: storedEvent.metadata,
+      data: storedEvent.eventData,
+    });
+  }
 
-      getEventType(): string {
-        return storedEvent.eventType;
-      }
+  /**
+   * @method loadStream
+   * @description 读取聚合根的存储事件，可选合并归档后端中的事件
+   * @param {string} aggregateId 聚合根ID
+   * @param {number} fromVersion 起始版本号
+   * @param {boolean} includeArchived 是否包含已归档事件
+   * @returns {Promise<StoredEvent[]>} 按版本号升序排列的存储事件
+   * @private
+   */
+  private async loadStream(
+    aggregateId: string,
+    fromVersion: number,
+    includeArchived: boolean,
+  ): Promise<StoredEvent[]> {
+    const hotEvents = (this.eventStreams.get(aggregateId) ?? []).filter(
+      event => event.eventVersion >= fromVersion,
+    );
+
+    const archivedThrough = this.archivedThroughVersions.get(aggregateId) ?? 0;
+    if (
+      !includeArchived ||
+      !this.eventArchive ||
+      archivedThrough === 0 ||
+      fromVersion > archivedThrough
+    ) {
+      return hotEvents;
+    }
+
+    const hotVersions = new Set(hotEvents.map(event => event.eventVersion));
+    const archivedEvents = (
+      await this.eventArchive.readStream(aggregateId, fromVersion)
+    ).filter(event => !hotVersions.has(event.eventVersion));
+
+    return [...archivedEvents, ...hotEvents].sort(
+      (a, b) => a.eventVersion - b.eventVersion,
+    );
+  }
+
+  /**
+   * @method removeArchivedEvents
+   * @description 从热存储和索引中移除已归档的事件
+   * @param {StoredEvent[]} archived 已归档的事件
+   * @returns {void}
+   * @private
+   */
+  private removeArchivedEvents(archived: StoredEvent[]): void {
+    const archivedIds = new Set(archived.map(event => event.eventId));
+    const isHot = (event: StoredEvent): boolean =>
+      !archivedIds.has(event.eventId);
+
+    for (const event of archived) {
+      this.eventsById.delete(event.eventId);
+      this.archivedThroughVersions.set(
+        event.aggregateId,
+        Math.max(
+          this.archivedThroughVersions.get(event.aggregateId) ?? 0,
+          event.eventVersion,
+        ),
+      );
+    }
 
-      toJSON(): Record<string, unknown> {
-        return storedEvent.eventData;
+    for (const index of [
+      this.eventStreams,
+      this.eventsByType,
+      this.eventsByTenant,
+    ]) {
+      for (const [key, events] of index.entries()) {
+        index.set(key, events.filter(isHot));
       }
-    })();
+    }
+  }
 
-    return event;
+  /**
+   * @method upcastStoredEvent
+   * @description 将存储的事件升级到事件类型注册表中的当前结构版本
+   * @param {StoredEvent} storedEvent 存储的事件
+   * @returns {StoredEvent} 升级后的事件，未注册的事件类型原样返回
+   * @throws {MissingUpcasterError} 当缺少中间版本的升级器时抛出
+   * @private
+   */
+  private upcastStoredEvent(storedEvent: StoredEvent): StoredEvent {
+    const targetVersion = this.eventTypeRegistry.getSchemaVersion(
+      storedEvent.eventType,
+    );
+    if (targetVersion === undefined) {
+      return storedEvent;
+    }
+    return this.eventUpcasterChain.upcast(storedEvent, targetVersion);
+  }
+
+  /**
+   * @method matchesQuery
+   * @description 检查存储的事件是否满足查询条件
+   * @param {StoredEvent} event 存储的事件
+   * @param {EventStoreQuery} query 查询条件
+   * @returns {boolean} 是否满足
+   * @private
+   */
+  private matchesQuery(event: StoredEvent, query: EventStoreQuery): boolean {
+    if (query.aggregateId && event.aggregateId !== query.aggregateId) {
+      return false;
+    }
+    if (query.eventType && event.eventType !== query.eventType) {
+      return false;
+    }
+    if (query.eventTypes && !query.eventTypes.includes(event.eventType)) {
+      return false;
+    }
+    if (
+      query.afterPosition !== undefined &&
+      (event.globalPosition ?? 0) <= query.afterPosition
+    ) {
+      return false;
+    }
+    if (query.tenantId && event.metadata.tenantId !== query.tenantId) {
+      return false;
+    }
+    if (query.userId && event.metadata.userId !== query.userId) {
+      return false;
+    }
+    if (query.fromDate && event.occurredOn < query.fromDate) {
+      return false;
+    }
+    if (query.toDate && event.occurredOn > query.toDate) {
+      return false;
+    }
+    if (
+      query.fromVersion !== undefined &&
+      event.eventVersion < query.fromVersion
+    ) {
+      return false;
+    }
+    if (query.toVersion !== undefined && event.eventVersion > query.toVersion) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * @method cloneSnapshotData
+   * @description 深拷贝快照数据，避免外部修改影响已存储的快照
+   * @param {unknown} state 聚合根状态
+   * @returns {Record<string, unknown>} 快照数据副本
+   * @private
+   */
+  private cloneSnapshotData(state: unknown): Record<string, unknown> {
+    if (state === null || typeof state !== 'object' || Array.isArray(state)) {
+      throw new Error('Snapshot state must be a plain object');
+    }
+    return structuredClone(state as Record<string, unknown>);
   }
 
   /**
@@ -599,21 +941,31 @@ export class InMemoryEventStore implements IEventStore {
 
   /**
    * @method checkVersionConsistency
-   * @description 检查版本一致性
+   * @description 检查版本一致性，冲突时读取期望版本之后已提交的事件
    * @param {string} aggregateId 聚合根ID
+   * @param {DomainEvent[]} events 尝试写入的事件
    * @param {number} expectedVersion 期望版本号
    * @returns {Promise<void>}
-   * @throws {ConcurrencyError} 当版本冲突时抛出
+   * @throws {ConcurrencyConflictError} 当版本冲突时抛出
    * @private
    */
   private async checkVersionConsistency(
     aggregateId: string,
+    events: DomainEvent[],
     expectedVersion: number,
   ): Promise<void> {
     const currentVersion = this.aggregateVersions.get(aggregateId) ?? 0;
     if (currentVersion !== expectedVersion) {
-      throw new Error(
-        `Version conflict for aggregate ${aggregateId}: expected ${expectedVersion}, but current version is ${currentVersion}`,
+      const conflictingEvents = (
+        await this.loadStream(aggregateId, expectedVersion + 1, true)
+      ).map(storedEvent => this.convertToDomainEvent(storedEvent));
+
+      throw new ConcurrencyConflictError(
+        aggregateId,
+        expectedVersion,
+        currentVersion,
+        events,
+        conflictingEvents,
       );
     }
   }
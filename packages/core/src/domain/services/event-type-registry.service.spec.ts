@@ -0,0 +1,178 @@
+import { describe, it, beforeEach, expect, jest } from '@jest/globals';
+import { DomainEvent } from '../domain-event';
+import { InMemoryEventStore } from './event-store.service';
+import {
+  EventDeserializationError,
+  EventTypeRegistry,
+  UnknownEventTypeError,
+} from './event-type-registry.service';
+
+class AccountOpenedEvent extends DomainEvent {
+  constructor(
+    aggregateId: string,
+    public readonly owner: string,
+  ) {
+    super(aggregateId, 1, { tenantId: 'tenant-1' });
+  }
+
+  describe(): string {
+    return `${this.owner} opened ${this.aggregateId}`;
+  }
+
+  toJSON(): Record<string, unknown> {
+    return { owner: this.owner };
+  }
+}
+
+class AccountClosedEvent extends DomainEvent {
+  toJSON(): Record<string, unknown> {
+    return {};
+  }
+}
+
+class LedgerAccountOpenedEvent extends DomainEvent {
+  static readonly eventTypeName = 'LedgerAccountOpened';
+
+  toJSON(): Record<string, unknown> {
+    return {};
+  }
+}
+
+describe('EventTypeRegistry', () => {
+  let registry: EventTypeRegistry;
+
+  beforeEach(() => {
+    registry = new EventTypeRegistry();
+    registry.register(AccountOpenedEvent, {
+      schemaVersion: 2,
+      deserialize: ({ aggregateId, data }) =>
+        new AccountOpenedEvent(aggregateId, data.owner as string),
+    });
+  });
+
+  it('should default the event type to the class name', () => {
+    expect(registry.isRegistered('AccountOpenedEvent')).toBe(true);
+    expect(registry.getSchemaVersion('AccountOpenedEvent')).toBe(2);
+    expect(registry.getRegisteredEventTypes()).toEqual(['AccountOpenedEvent']);
+  });
+
+  it('should round-trip events into real instances with their identity', () => {
+    const original = new AccountOpenedEvent('account-1', 'alice');
+
+    const serialized = registry.serialize(original);
+    const restored = registry.deserialize(
+      JSON.parse(JSON.stringify(serialized)),
+    );
+
+    expect(restored).toBeInstanceOf(AccountOpenedEvent);
+    expect((restored as AccountOpenedEvent).describe()).toBe(
+      'alice opened account-1',
+    );
+    expect(restored.eventId).toBe(original.eventId);
+    expect(restored.occurredOn).toEqual(original.occurredOn);
+    expect(restored.getTenantId()).toBe('tenant-1');
+    expect(serialized.schemaVersion).toBe(2);
+  });
+
+  it('should keep the identity only for the restored event', () => {
+    const original = new AccountOpenedEvent('account-1', 'alice');
+    const restored = registry.deserialize(registry.serialize(original));
+    const fresh = new AccountOpenedEvent('account-1', 'alice');
+
+    expect(restored.eventId).toBe(original.eventId);
+    expect(fresh.eventId).not.toBe(original.eventId);
+  });
+
+  it('should reject deserializers that return an existing instance', () => {
+    const existing = new AccountOpenedEvent('account-1', 'alice');
+    registry.register(AccountOpenedEvent, {
+      deserialize: () => existing,
+    });
+    const serialized = registry.serialize(
+      new AccountOpenedEvent('account-1', 'alice'),
+    );
+
+    expect(() => registry.deserialize(serialized)).toThrow(
+      'must construct a new event instance',
+    );
+  });
+
+  it('should use the eventTypeName declared by the event class', () => {
+    registry.register(LedgerAccountOpenedEvent, {
+      deserialize: ({ aggregateId }) =>
+        new LedgerAccountOpenedEvent(aggregateId),
+    });
+    const event = new LedgerAccountOpenedEvent('account-1');
+
+    expect(event.getEventType()).toBe('LedgerAccountOpened');
+    expect(registry.isRegistered('LedgerAccountOpened')).toBe(true);
+    expect(registry.deserialize(registry.serialize(event))).toBeInstanceOf(
+      LedgerAccountOpenedEvent,
+    );
+  });
+
+  it('should fail loudly for unknown event types', () => {
+    const serialized = new EventTypeRegistry().serialize(
+      new AccountClosedEvent('account-1'),
+    );
+
+    expect(() => registry.deserialize(serialized)).toThrow(
+      UnknownEventTypeError,
+    );
+  });
+
+  it('should reject deserializers that return the wrong class', () => {
+    registry.register(AccountClosedEvent, {
+      deserialize: ({ aggregateId }) =>
+        new AccountOpenedEvent(aggregateId, 'bob') as never,
+    });
+    const serialized = registry.serialize(new AccountClosedEvent('account-1'));
+
+    expect(() => registry.deserialize(serialized)).toThrow(
+      EventDeserializationError,
+    );
+  });
+
+  it('should reject registering a type name for a different class', () => {
+    expect(() =>
+      registry.register(AccountClosedEvent, {
+        eventType: 'AccountOpenedEvent',
+        deserialize: ({ aggregateId }) => new AccountClosedEvent(aggregateId),
+      }),
+    ).toThrow('already registered');
+  });
+
+  describe('with InMemoryEventStore', () => {
+    let eventStore: InMemoryEventStore;
+
+    beforeEach(() => {
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      eventStore = new InMemoryEventStore({ eventTypeRegistry: registry });
+    });
+
+    it('should return registered event classes from getEvents', async () => {
+      await eventStore.saveEvents(
+        'account-1',
+        [new AccountOpenedEvent('account-1', 'alice')],
+        0,
+      );
+
+      const [event] = await eventStore.getEvents('account-1');
+
+      expect(event).toBeInstanceOf(AccountOpenedEvent);
+      expect((event as AccountOpenedEvent).owner).toBe('alice');
+    });
+
+    it('should fail reads of unregistered event types', async () => {
+      await eventStore.saveEvents(
+        'account-1',
+        [new AccountClosedEvent('account-1')],
+        0,
+      );
+
+      await expect(eventStore.getEvents('account-1')).rejects.toThrow(
+        'Unknown event type "AccountClosedEvent"',
+      );
+    });
+  });
+});
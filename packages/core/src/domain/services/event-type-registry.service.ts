@@ -0,0 +1,300 @@
+import { DomainEvent, EventMetadata } from '../domain-event';
+
+/**
+ * @interface SerializedDomainEvent
+ * @description 序列化后的领域事件，事件存储和消息队列之间传递的统一格式
+ */
+export interface SerializedDomainEvent {
+  readonly eventId: string;
+  readonly eventType: string;
+  readonly schemaVersion: number;
+  readonly aggregateId: string;
+  readonly occurredOn: Date | string;
+  readonly metadata: EventMetadata;
+  readonly data: Record<string, unknown>;
+}
+
+/**
+ * @type EventClass
+ * @description 领域事件类构造函数类型
+ */
+export type EventClass<T extends DomainEvent = DomainEvent> = (abstract new (
+  ...args: never[]
+) => T) & { readonly eventTypeName?: string };
+
+/**
+ * @type EventDeserializer
+ * @description 事件反序列化函数，根据序列化数据重建具体的领域事件实例
+ */
+export type EventDeserializer<T extends DomainEvent = DomainEvent> = (
+  serialized: SerializedDomainEvent,
+) => T;
+
+/**
+ * @interface EventTypeRegistrationOptions
+ * @description 事件类型注册选项
+ */
+export interface EventTypeRegistrationOptions<
+  T extends DomainEvent = DomainEvent,
+> {
+  /**
+   * 事件类型名称，默认为事件类的eventTypeName或类名（与DomainEvent.eventType一致）
+   */
+  readonly eventType?: string;
+  /**
+   * 事件结构版本号，默认为1
+   */
+  readonly schemaVersion?: number;
+  /**
+   * 反序列化函数
+   */
+  readonly deserialize: EventDeserializer<T>;
+}
+
+/**
+ * @interface EventTypeRegistration
+ * @description 已注册的事件类型信息
+ */
+export interface EventTypeRegistration<T extends DomainEvent = DomainEvent> {
+  readonly eventType: string;
+  readonly schemaVersion: number;
+  readonly eventClass: EventClass<T>;
+  readonly deserialize: EventDeserializer<T>;
+}
+
+/**
+ * @class UnknownEventTypeError
+ * @description 事件类型未注册时抛出的错误
+ */
+export class UnknownEventTypeError extends Error {
+  constructor(public readonly eventType: string) {
+    super(
+      `Unknown event type "${eventType}": register it with the EventTypeRegistry before reading it back`,
+    );
+    this.name = 'UnknownEventTypeError';
+  }
+}
+
+/**
+ * @class EventDeserializationError
+ * @description 事件反序列化失败时抛出的错误
+ */
+export class EventDeserializationError extends Error {
+  constructor(
+    public readonly eventType: string,
+    public readonly eventId: string,
+    message: string,
+  ) {
+    super(
+      `Failed to deserialize event ${eventId} of type ${eventType}: ${message}`,
+    );
+    this.name = 'EventDeserializationError';
+  }
+}
+
+/**
+ * @class EventTypeRegistry
+ * @description
+ * 领域事件类型注册表，负责事件类型与具体事件类之间的映射。
+ *
+ * 注册表职责：
+ * 1. 记录事件类型名称、结构版本和反序列化函数
+ * 2. 将领域事件序列化为统一的存储格式
+ * 3. 将存储数据还原为具体的领域事件实例，保留事件ID、发生时间和元数据
+ * 4. 遇到未注册的事件类型时立即失败，避免处理器收到匿名事件
+ *
+ * @example
+ * ```typescript
+ * eventTypeRegistry.register(UserCreatedEvent, {
+ *   schemaVersion: 1,
+ *   deserialize: ({ data }) =>
+ *     new UserCreatedEvent(new UserId(data.userId as string), ...),
+ * });
+ *
+ * const event = eventTypeRegistry.deserialize(serialized);
+ * event instanceof UserCreatedEvent; // true
+ * ```
+ * @since 1.0.0
+ */
+export class EventTypeRegistry {
+  private readonly registrations: Map<string, EventTypeRegistration> =
+    new Map();
+
+  /**
+   * @method register
+   * @description 注册事件类型
+   * @param {EventClass<T>} eventClass 事件类
+   * @param {EventTypeRegistrationOptions<T>} options 注册选项
+   * @returns {this} 注册表本身，便于链式调用
+   * @throws {Error} 当同名事件类型已注册为其他事件类时抛出
+   */
+  register<T extends DomainEvent>(
+    eventClass: EventClass<T>,
+    options: EventTypeRegistrationOptions<T>,
+  ): this {
+    const eventType =
+      options.eventType ?? eventClass.eventTypeName ?? eventClass.name;
+    const schemaVersion = options.schemaVersion ?? 1;
+
+    if (!eventType) {
+      throw new Error('Event type cannot be empty');
+    }
+
+    if (!Number.isInteger(schemaVersion) || schemaVersion < 1) {
+      throw new Error(
+        `Schema version of event type ${eventType} must be a positive integer`,
+      );
+    }
+
+    const existing = this.registrations.get(eventType);
+    if (existing && existing.eventClass !== eventClass) {
+      throw new Error(
+        `Event type ${eventType} is already registered to ${existing.eventClass.name}`,
+      );
+    }
+
+    this.registrations.set(eventType, {
+      eventType,
+      schemaVersion,
+      eventClass,
+      deserialize: options.deserialize,
+    });
+    return this;
+  }
+
+  /**
+   * @method unregister
+   * @description 取消注册事件类型
+   * @param {string} eventType 事件类型
+   * @returns {boolean} 是否存在并已移除
+   */
+  unregister(eventType: string): boolean {
+    return this.registrations.delete(eventType);
+  }
+
+  /**
+   * @method isRegistered
+   * @description 检查事件类型是否已注册
+   * @param {string} eventType 事件类型
+   * @returns {boolean} 是否已注册
+   */
+  isRegistered(eventType: string): boolean {
+    return this.registrations.has(eventType);
+  }
+
+  /**
+   * @method getRegistration
+   * @description 获取事件类型注册信息
+   * @param {string} eventType 事件类型
+   * @returns {EventTypeRegistration} 注册信息
+   * @throws {UnknownEventTypeError} 当事件类型未注册时抛出
+   */
+  getRegistration(eventType: string): EventTypeRegistration {
+    const registration = this.registrations.get(eventType);
+    if (!registration) {
+      throw new UnknownEventTypeError(eventType);
+    }
+    return registration;
+  }
+
+  /**
+   * @method getSchemaVersion
+   * @description 获取事件类型的当前结构版本，未注册时返回undefined
+   * @param {string} eventType 事件类型
+   * @returns {number | undefined} 结构版本号
+   */
+  getSchemaVersion(eventType: string): number | undefined {
+    return this.registrations.get(eventType)?.schemaVersion;
+  }
+
+  /**
+   * @method getRegisteredEventTypes
+   * @description 获取所有已注册的事件类型
+   * @returns {string[]} 事件类型列表
+   */
+  getRegisteredEventTypes(): string[] {
+    return Array.from(this.registrations.keys());
+  }
+
+  /**
+   * @method serialize
+   * @description 将领域事件序列化为统一格式
+   * @param {DomainEvent} event 领域事件
+   * @returns {SerializedDomainEvent} 序列化后的事件
+   */
+  serialize(event: DomainEvent): SerializedDomainEvent {
+    const eventType = event.getEventType();
+    return {
+      eventId: event.eventId,
+      eventType,
+      schemaVersion: this.getSchemaVersion(eventType) ?? 1,
+      aggregateId: event.aggregateId,
+      occurredOn: event.occurredOn,
+      metadata: event.getMetadata(),
+      data: event.toJSON(),
+    };
+  }
+
+  /**
+   * @method deserialize
+   * @description 将序列化数据还原为具体的领域事件实例
+   * @param {SerializedDomainEvent} serialized 序列化后的事件
+   * @returns {DomainEvent} 领域事件实例
+   * @throws {UnknownEventTypeError} 当事件类型未注册时抛出
+   * @throws {EventDeserializationError} 当反序列化失败时抛出
+   */
+  deserialize(serialized: SerializedDomainEvent): DomainEvent {
+    const registration = this.getRegistration(serialized.eventType);
+
+    let event: DomainEvent;
+    try {
+      // 通过restore沿用事件的原始身份信息，而不是使用构造函数新生成的值
+      event = DomainEvent.restore(
+        {
+          eventId: serialized.eventId,
+          occurredOn: new Date(serialized.occurredOn),
+          metadata: serialized.metadata,
+        },
+        () => registration.deserialize(serialized),
+      );
+    } catch (error) {
+      throw new EventDeserializationError(
+        serialized.eventType,
+        serialized.eventId,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+
+    if (!(event instanceof registration.eventClass)) {
+      throw new EventDeserializationError(
+        serialized.eventType,
+        serialized.eventId,
+        `deserializer did not return an instance of ${registration.eventClass.name}`,
+      );
+    }
+
+    if (event.eventId !== serialized.eventId) {
+      throw new EventDeserializationError(
+        serialized.eventType,
+        serialized.eventId,
+        'deserializer must construct a new event instance',
+      );
+    }
+    return event;
+  }
+
+  /**
+   * @method clear
+   * @description 清空所有注册信息（仅用于测试）
+   * @returns {void}
+   */
+  clear(): void {
+    this.registrations.clear();
+  }
+}
+
+/**
+ * 默认的全局事件类型注册表
+ * 事件类在定义时注册到此注册表，事件存储和消息队列默认使用它
+ */
+export const eventTypeRegistry = new EventTypeRegistry();
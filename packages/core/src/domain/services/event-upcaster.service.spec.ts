@@ -0,0 +1,223 @@
+import { describe, it, beforeEach, expect, jest } from '@jest/globals';
+import { DomainEvent } from '../domain-event';
+import { StoredEvent } from '../interfaces/event-store.interface';
+import { InMemoryEventStore } from './event-store.service';
+import { EventTypeRegistry } from './event-type-registry.service';
+import {
+  EventUpcasterChain,
+  IncompleteUpcasterChainError,
+  MissingUpcasterError,
+} from './event-upcaster.service';
+
+/**
+ * 版本1: { name }
+ * 版本2: { firstName, lastName }
+ * 版本3: { firstName, lastName, locale }
+ */
+class ProfileChangedEvent extends DomainEvent {
+  constructor(
+    aggregateId: string,
+    public readonly payload: Record<string, unknown>,
+  ) {
+    super(aggregateId);
+  }
+
+  toJSON(): Record<string, unknown> {
+    return this.payload;
+  }
+}
+
+const splitName = {
+  eventType: 'ProfileChangedEvent',
+  fromVersion: 1,
+  upcast: (data: Record<string, unknown>): Record<string, unknown> => {
+    const [firstName, lastName] = String(data.name).split(' ');
+    return { firstName, lastName };
+  },
+};
+
+const addLocale = {
+  eventType: 'ProfileChangedEvent',
+  fromVersion: 2,
+  upcast: (data: Record<string, unknown>): Record<string, unknown> => ({
+    ...data,
+    locale: 'zh-CN',
+  }),
+};
+
+function registerProfileEvent(
+  registry: EventTypeRegistry,
+  schemaVersion: number,
+): void {
+  registry.register(ProfileChangedEvent, {
+    schemaVersion,
+    deserialize: ({ aggregateId, data }) =>
+      new ProfileChangedEvent(aggregateId, data),
+  });
+}
+
+function storedEvent(
+  eventData: Record<string, unknown>,
+  schemaVersion?: number,
+): StoredEvent {
+  return {
+    eventId: 'profile-1-1',
+    aggregateId: 'profile-1',
+    eventType: 'ProfileChangedEvent',
+    eventVersion: 1,
+    eventData,
+    metadata: { timestamp: new Date(), source: 'test', version: '1.0.0' },
+    occurredOn: new Date(),
+    storedAt: new Date(),
+    streamVersion: 1,
+    schemaVersion,
+  };
+}
+
+describe('EventUpcasterChain', () => {
+  let chain: EventUpcasterChain;
+
+  beforeEach(() => {
+    chain = new EventUpcasterChain().register(splitName).register(addLocale);
+  });
+
+  it('should upcast step by step to the target version', () => {
+    const result = chain.upcast(storedEvent({ name: 'Ada Lovelace' }, 1), 3);
+
+    expect(result.schemaVersion).toBe(3);
+    expect(result.eventData).toEqual({
+      firstName: 'Ada',
+      lastName: 'Lovelace',
+      locale: 'zh-CN',
+    });
+  });
+
+  it('should treat events without a schema version as version 1', () => {
+    const result = chain.upcast(storedEvent({ name: 'Ada Lovelace' }), 2);
+
+    expect(result.eventData).toEqual({
+      firstName: 'Ada',
+      lastName: 'Lovelace',
+    });
+  });
+
+  it('should not mutate the stored event data', () => {
+    const original = storedEvent({ firstName: 'Ada', lastName: 'L' }, 2);
+
+    chain.upcast(original, 3);
+
+    expect(original.eventData).toEqual({ firstName: 'Ada', lastName: 'L' });
+    expect(original.schemaVersion).toBe(2);
+  });
+
+  it('should fail when an intermediate upcaster is missing', () => {
+    const partial = new EventUpcasterChain().register(addLocale);
+
+    expect(() => partial.upcast(storedEvent({ name: 'Ada' }, 1), 3)).toThrow(
+      MissingUpcasterError,
+    );
+  });
+
+  it('should reject stored versions newer than the target version', () => {
+    expect(() => chain.upcast(storedEvent({}, 4), 3)).toThrow(
+      'newer than the known version',
+    );
+  });
+
+  it('should reject duplicate upcasters for the same version step', () => {
+    expect(() => chain.register(splitName)).toThrow('already registered');
+  });
+
+  describe('chain completeness', () => {
+    it('should pass when every registered type reaches its latest version', () => {
+      const registry = new EventTypeRegistry();
+      registerProfileEvent(registry, 3);
+
+      expect(chain.validate(registry)).toEqual([]);
+      expect(() => chain.assertComplete(registry)).not.toThrow();
+    });
+
+    it('should report gaps, unregistered types and stale upcasters', () => {
+      const registry = new EventTypeRegistry();
+      registerProfileEvent(registry, 4);
+      chain.register({
+        eventType: 'OrphanEvent',
+        fromVersion: 1,
+        upcast: data => data,
+      });
+
+      expect(chain.validate(registry).map(issue => issue.kind)).toEqual([
+        'missing',
+        'unregistered',
+      ]);
+
+      const downgraded = new EventTypeRegistry();
+      registerProfileEvent(downgraded, 2);
+      expect(() => chain.assertComplete(downgraded)).toThrow(
+        IncompleteUpcasterChainError,
+      );
+    });
+  });
+
+  describe('with InMemoryEventStore', () => {
+    let registry: EventTypeRegistry;
+    let eventStore: InMemoryEventStore;
+
+    beforeEach(async () => {
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      registry = new EventTypeRegistry();
+      registerProfileEvent(registry, 1);
+      eventStore = new InMemoryEventStore({
+        eventTypeRegistry: registry,
+        eventUpcasterChain: chain,
+      });
+      await eventStore.saveEvents(
+        'profile-1',
+        [new ProfileChangedEvent('profile-1', { name: 'Ada Lovelace' })],
+        0,
+      );
+      // 事件结构演进到版本3，历史数据保持不变
+      registerProfileEvent(registry, 3);
+    });
+
+    const expected = {
+      firstName: 'Ada',
+      lastName: 'Lovelace',
+      locale: 'zh-CN',
+    };
+
+    it('should upcast events returned by getEvents', async () => {
+      const [event] = await eventStore.getEvents('profile-1');
+
+      expect(event.toJSON()).toEqual(expected);
+    });
+
+    it('should upcast events returned by getEventStream', async () => {
+      const stream = await eventStore.getEventStream('profile-1');
+
+      expect(stream.events[0].schemaVersion).toBe(3);
+      expect(stream.events[0].eventData).toEqual(expected);
+    });
+
+    it('should upcast events returned by queryEvents', async () => {
+      const result = await eventStore.queryEvents({
+        eventType: 'ProfileChangedEvent',
+      });
+
+      expect(result.totalCount).toBe(1);
+      expect(result.events[0].eventData).toEqual(expected);
+    });
+
+    it('should store new events with the current schema version', async () => {
+      await eventStore.saveEvents(
+        'profile-1',
+        [new ProfileChangedEvent('profile-1', expected)],
+        1,
+      );
+
+      const stream = await eventStore.getEventStream('profile-1', 2);
+      expect(stream.events[0].schemaVersion).toBe(3);
+      expect(stream.events[0].eventData).toEqual(expected);
+    });
+  });
+});
@@ -0,0 +1,267 @@
+import { StoredEvent } from '../interfaces/event-store.interface';
+import { EventTypeRegistry } from './event-type-registry.service';
+
+/**
+ * @interface IEventUpcaster
+ * @description
+ * 事件升级器接口，负责将某个事件类型的存储数据从一个结构版本升级到下一个版本。
+ * 每个升级器只负责相邻两个版本之间的转换（fromVersion → fromVersion + 1）。
+ */
+export interface IEventUpcaster {
+  /**
+   * 事件类型
+   */
+  readonly eventType: string;
+
+  /**
+   * 源结构版本号，升级后的版本为fromVersion + 1
+   */
+  readonly fromVersion: number;
+
+  /**
+   * @method upcast
+   * @description 将事件数据升级到下一个结构版本
+   * @param {Record<string, unknown>} data 源版本的事件数据
+   * @param {StoredEvent} storedEvent 原始存储事件，用于读取元数据等上下文
+   * @returns {Record<string, unknown>} 下一个版本的事件数据
+   */
+  upcast(
+    data: Record<string, unknown>,
+    storedEvent: StoredEvent,
+  ): Record<string, unknown>;
+}
+
+/**
+ * @interface UpcasterChainIssue
+ * @description 升级器链检查发现的问题
+ */
+export interface UpcasterChainIssue {
+  readonly eventType: string;
+  readonly kind: 'missing' | 'unregistered' | 'beyond-latest';
+  readonly fromVersion?: number;
+  readonly message: string;
+}
+
+/**
+ * @class MissingUpcasterError
+ * @description 无法将事件升级到目标版本时抛出的错误
+ */
+export class MissingUpcasterError extends Error {
+  constructor(
+    public readonly eventType: string,
+    public readonly fromVersion: number,
+    public readonly targetVersion: number,
+  ) {
+    super(
+      `No upcaster registered for ${eventType} from schema version ${fromVersion} (target version ${targetVersion})`,
+    );
+    this.name = 'MissingUpcasterError';
+  }
+}
+
+/**
+ * @class IncompleteUpcasterChainError
+ * @description 升级器链不完整时抛出的错误，包含所有发现的问题
+ */
+export class IncompleteUpcasterChainError extends Error {
+  constructor(public readonly issues: UpcasterChainIssue[]) {
+    super(
+      `Upcaster chains are incomplete:\n${issues.map(issue => `  - ${issue.message}`).join('\n')}`,
+    );
+    this.name = 'IncompleteUpcasterChainError';
+  }
+}
+
+/**
+ * @class EventUpcasterChain
+ * @description
+ * 事件升级器链，在读取事件时将旧结构版本的存储数据逐级升级到当前版本。
+ *
+ * 升级机制：
+ * 1. 每个事件类型可以注册多个升级器，每个负责一个版本跨度
+ * 2. 读取时从事件的存储版本开始，依次应用升级器直到目标版本
+ * 3. 升级只作用于读取结果，不修改已存储的历史数据
+ * 4. 缺少中间版本的升级器时立即失败
+ *
+ * 链完整性检查：
+ * validate/assertComplete会对照EventTypeRegistry中的当前版本，
+ * 检查每个事件类型从版本1到当前版本的升级器是否齐全，
+ * 适合在测试中调用以保证所有历史事件都能被读取。
+ *
+ * @example
+ * ```typescript
+ * eventUpcasterChain.register({
+ *   eventType: 'UserProfileUpdatedEvent',
+ *   fromVersion: 1,
+ *   upcast: data => ({ ...data, displayName: data.nickname }),
+ * });
+ *
+ * // 测试中检查所有升级器链
+ * eventUpcasterChain.assertComplete(eventTypeRegistry);
+ * ```
+ * @since 1.0.0
+ */
+export class EventUpcasterChain {
+  private readonly upcasters: Map<string, Map<number, IEventUpcaster>> =
+    new Map();
+
+  /**
+   * @method register
+   * @description 注册事件升级器
+   * @param {IEventUpcaster} upcaster 事件升级器
+   * @returns {this} 升级器链本身，便于链式调用
+   * @throws {Error} 当同一版本跨度已注册升级器时抛出
+   */
+  register(upcaster: IEventUpcaster): this {
+    if (!Number.isInteger(upcaster.fromVersion) || upcaster.fromVersion < 1) {
+      throw new Error(
+        `Upcaster for ${upcaster.eventType} must start from a positive integer version`,
+      );
+    }
+
+    const byVersion =
+      this.upcasters.get(upcaster.eventType) ??
+      new Map<number, IEventUpcaster>();
+    if (byVersion.has(upcaster.fromVersion)) {
+      throw new Error(
+        `Upcaster for ${upcaster.eventType} from version ${upcaster.fromVersion} is already registered`,
+      );
+    }
+
+    byVersion.set(upcaster.fromVersion, upcaster);
+    this.upcasters.set(upcaster.eventType, byVersion);
+    return this;
+  }
+
+  /**
+   * @method hasUpcasters
+   * @description 检查事件类型是否注册了升级器
+   * @param {string} eventType 事件类型
+   * @returns {boolean} 是否存在升级器
+   */
+  hasUpcasters(eventType: string): boolean {
+    return (this.upcasters.get(eventType)?.size ?? 0) > 0;
+  }
+
+  /**
+   * @method upcast
+   * @description 将存储事件升级到目标结构版本，返回新的存储事件对象
+   * @param {StoredEvent} storedEvent 存储事件
+   * @param {number} targetVersion 目标结构版本
+   * @returns {StoredEvent} 升级后的存储事件
+   * @throws {MissingUpcasterError} 当缺少中间版本的升级器时抛出
+   * @throws {Error} 当存储版本高于目标版本时抛出
+   */
+  upcast(storedEvent: StoredEvent, targetVersion: number): StoredEvent {
+    let version = storedEvent.schemaVersion ?? 1;
+
+    if (version > targetVersion) {
+      throw new Error(
+        `Stored event ${storedEvent.eventId} of type ${storedEvent.eventType} has schema version ${version}, newer than the known version ${targetVersion}`,
+      );
+    }
+
+    if (version === targetVersion) {
+      return storedEvent;
+    }
+
+    const byVersion = this.upcasters.get(storedEvent.eventType);
+    let data = structuredClone(storedEvent.eventData);
+    while (version < targetVersion) {
+      const upcaster = byVersion?.get(version);
+      if (!upcaster) {
+        throw new MissingUpcasterError(
+          storedEvent.eventType,
+          version,
+          targetVersion,
+        );
+      }
+      data = upcaster.upcast(data, storedEvent);
+      version++;
+    }
+
+    return {
+      ...storedEvent,
+      eventData: data,
+      schemaVersion: version,
+    };
+  }
+
+  /**
+   * @method validate
+   * @description 对照事件类型注册表检查升级器链的完整性
+   * @param {EventTypeRegistry} registry 事件类型注册表
+   * @returns {UpcasterChainIssue[]} 发现的问题，为空表示链完整
+   */
+  validate(registry: EventTypeRegistry): UpcasterChainIssue[] {
+    const issues: UpcasterChainIssue[] = [];
+
+    for (const eventType of registry.getRegisteredEventTypes()) {
+      const latest = registry.getSchemaVersion(eventType) ?? 1;
+      const byVersion = this.upcasters.get(eventType);
+      for (let version = 1; version < latest; version++) {
+        if (!byVersion?.has(version)) {
+          issues.push({
+            eventType,
+            kind: 'missing',
+            fromVersion: version,
+            message: `${eventType} has no upcaster from version ${version} to ${version + 1} (latest is ${latest})`,
+          });
+        }
+      }
+    }
+
+    for (const [eventType, byVersion] of this.upcasters.entries()) {
+      const latest = registry.getSchemaVersion(eventType);
+      if (latest === undefined) {
+        issues.push({
+          eventType,
+          kind: 'unregistered',
+          message: `${eventType} has upcasters but is not registered in the event type registry`,
+        });
+        continue;
+      }
+
+      for (const fromVersion of byVersion.keys()) {
+        if (fromVersion >= latest) {
+          issues.push({
+            eventType,
+            kind: 'beyond-latest',
+            fromVersion,
+            message: `${eventType} has an upcaster from version ${fromVersion}, but the latest version is ${latest}`,
+          });
+        }
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * @method assertComplete
+   * @description 断言所有已注册事件类型的升级器链都能到达最新版本
+   * @param {EventTypeRegistry} registry 事件类型注册表
+   * @returns {void}
+   * @throws {IncompleteUpcasterChainError} 当升级器链不完整时抛出
+   */
+  assertComplete(registry: EventTypeRegistry): void {
+    const issues = this.validate(registry);
+    if (issues.length > 0) {
+      throw new IncompleteUpcasterChainError(issues);
+    }
+  }
+
+  /**
+   * @method clear
+   * @description 清空所有升级器（仅用于测试）
+   * @returns {void}
+   */
+  clear(): void {
+    this.upcasters.clear();
+  }
+}
+
+/**
+ * 默认的全局事件升级器链，InMemoryEventStore默认使用它
+ */
+export const eventUpcasterChain = new EventUpcasterChain();
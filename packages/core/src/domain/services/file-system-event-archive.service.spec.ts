@@ -0,0 +1,240 @@
+import {
+  describe,
+  it,
+  beforeEach,
+  afterEach,
+  expect,
+  jest,
+} from '@jest/globals';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DomainEvent } from '../domain-event';
+import { InMemoryEventStore } from './event-store.service';
+import { EventTypeRegistry } from './event-type-registry.service';
+import {
+  ArchiveIntegrityError,
+  FileSystemEventArchive,
+} from './file-system-event-archive.service';
+
+/**
+ * @class LedgerEntryRecordedEvent
+ * @description 测试用账目记录事件
+ */
+class LedgerEntryRecordedEvent extends DomainEvent {
+  constructor(
+    aggregateId: string,
+    public readonly amount: number,
+  ) {
+    super(aggregateId);
+  }
+
+  toJSON(): Record<string, unknown> {
+    return { amount: this.amount };
+  }
+}
+
+const registry = new EventTypeRegistry().register(LedgerEntryRecordedEvent, {
+  deserialize: ({ aggregateId, data }) =>
+    new LedgerEntryRecordedEvent(aggregateId, data.amount as number),
+});
+
+const createEvent = (
+  aggregateId: string,
+  amount: number,
+  occurredOn: Date,
+): LedgerEntryRecordedEvent => {
+  const event = new LedgerEntryRecordedEvent(aggregateId, amount);
+  Object.assign(event, { occurredOn });
+  return event;
+};
+
+describe('InMemoryEventStore archival', () => {
+  const cutoff = new Date('2024-01-01T00:00:00Z');
+  const old = new Date('2023-06-01T00:00:00Z');
+  const recent = new Date('2024-06-01T00:00:00Z');
+
+  let directory: string;
+  let archive: FileSystemEventArchive;
+  let eventStore: InMemoryEventStore;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'event-archive-'));
+    archive = new FileSystemEventArchive(directory);
+    eventStore = new InMemoryEventStore({
+      eventTypeRegistry: registry,
+      eventArchive: archive,
+    });
+
+    await eventStore.saveEvents(
+      'ledger-1',
+      [
+        createEvent('ledger-1', 10, old),
+        createEvent('ledger-1', 20, old),
+        createEvent('ledger-1', 30, recent),
+      ],
+      0,
+    );
+    await eventStore.saveEvents(
+      'ledger-2',
+      [createEvent('ledger-2', 5, old)],
+      0,
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should move events older than the cutoff into the archive', async () => {
+    await expect(eventStore.hasArchivedEvents()).resolves.toBe(false);
+    await expect(eventStore.archiveEvents(cutoff)).resolves.toBe(3);
+    await expect(eventStore.hasArchivedEvents()).resolves.toBe(true);
+
+    const hot = await eventStore.getEventStream('ledger-1');
+    expect(hot.events.map(event => event.eventVersion)).toEqual([3]);
+    await expect(
+      eventStore.getEventById(hot.events[0].eventId),
+    ).resolves.not.toBeNull();
+    await expect(eventStore.getAggregateVersion('ledger-1')).resolves.toBe(3);
+
+    const manifest = await archive.getManifest();
+    expect(manifest.segments).toHaveLength(1);
+    expect(manifest.segments[0]).toMatchObject({
+      eventCount: 3,
+      aggregates: {
+        'ledger-1': { fromVersion: 1, toVersion: 2 },
+        'ledger-2': { fromVersion: 1, toVersion: 1 },
+      },
+    });
+  });
+
+  it('should merge archived events when includeArchived is set', async () => {
+    await eventStore.archiveEvents(cutoff);
+
+    const stream = await eventStore.getEventStream('ledger-1', 0, 100, {
+      includeArchived: true,
+    });
+
+    expect(stream.events.map(event => event.eventVersion)).toEqual([1, 2, 3]);
+    expect(stream.events[0].occurredOn).toEqual(old);
+    expect(stream.toVersion).toBe(3);
+    expect(stream.hasMore).toBe(false);
+  });
+
+  it('should replay archived events transparently through getEvents', async () => {
+    await eventStore.archiveEvents(cutoff);
+
+    const events = await eventStore.getEvents('ledger-1');
+
+    expect(events).toHaveLength(3);
+    expect(events[0]).toBeInstanceOf(LedgerEntryRecordedEvent);
+    expect(
+      events.map(event => (event as LedgerEntryRecordedEvent).amount),
+    ).toEqual([10, 20, 30]);
+  });
+
+  it('should keep appending after the archived prefix', async () => {
+    await eventStore.archiveEvents(cutoff);
+
+    await eventStore.saveEvents(
+      'ledger-1',
+      [createEvent('ledger-1', 40, recent)],
+      3,
+    );
+
+    const events = await eventStore.getEvents('ledger-1', 2);
+    expect(
+      events.map(event => (event as LedgerEntryRecordedEvent).amount),
+    ).toEqual([20, 30, 40]);
+  });
+
+  it('should skip the archive for aggregates that were never archived', async () => {
+    const readStream = jest.spyOn(archive, 'readStream');
+
+    const events = await eventStore.getEvents('ledger-1', 0);
+
+    expect(events).toHaveLength(3);
+    expect(readStream).not.toHaveBeenCalled();
+  });
+
+  it('should return zero when nothing is older than the cutoff', async () => {
+    await expect(eventStore.archiveEvents(old)).resolves.toBe(0);
+    await expect(archive.getManifest()).resolves.toMatchObject({
+      segments: [],
+    });
+  });
+
+  it('should require an archive backend', async () => {
+    const store = new InMemoryEventStore({ eventTypeRegistry: registry });
+
+    await expect(store.archiveEvents(cutoff)).rejects.toThrow(
+      'No event archive configured',
+    );
+  });
+});
+
+describe('FileSystemEventArchive', () => {
+  let directory: string;
+  let archive: FileSystemEventArchive;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'event-archive-'));
+    archive = new FileSystemEventArchive(directory);
+
+    const eventStore = new InMemoryEventStore({
+      eventTypeRegistry: registry,
+      eventArchive: archive,
+    });
+    await eventStore.saveEvents(
+      'ledger-1',
+      [createEvent('ledger-1', 10, new Date('2023-01-01T00:00:00Z'))],
+      0,
+    );
+    await eventStore.archiveEvents(new Date('2024-01-01T00:00:00Z'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should verify intact segments', async () => {
+    await expect(archive.verify()).resolves.toEqual({
+      valid: true,
+      checkedSegments: 1,
+      corruptedSegments: [],
+      missingSegments: [],
+    });
+  });
+
+  it('should detect tampered segments', async () => {
+    const [segment] = (await archive.getManifest()).segments;
+    const file = path.join(directory, `${segment.segmentId}.ndjson`);
+    const content = await fs.readFile(file, 'utf8');
+    await fs.writeFile(file, content.replace('10', '99'), 'utf8');
+
+    await expect(archive.verify()).resolves.toMatchObject({
+      valid: false,
+      corruptedSegments: [segment.segmentId],
+    });
+    await expect(archive.readStream('ledger-1')).rejects.toBeInstanceOf(
+      ArchiveIntegrityError,
+    );
+  });
+
+  it('should report missing segments', async () => {
+    const [segment] = (await archive.getManifest()).segments;
+    await fs.rm(path.join(directory, `${segment.segmentId}.ndjson`));
+
+    await expect(archive.verify()).resolves.toMatchObject({
+      valid: false,
+      missingSegments: [segment.segmentId],
+    });
+  });
+
+  it('should reject empty batches', async () => {
+    await expect(archive.writeSegment([])).rejects.toThrow('empty batch');
+  });
+});
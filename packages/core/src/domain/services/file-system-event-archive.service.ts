@@ -0,0 +1,356 @@
+/// <reference types="node" />
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { EventMetadata } from '../domain-event';
+import {
+  ArchiveManifest,
+  ArchiveSegment,
+  ArchiveVerificationResult,
+  IEventArchive,
+} from '../interfaces/event-archive.interface';
+import { StoredEvent } from '../interfaces/event-store.interface';
+
+const MANIFEST_FILE = 'manifest.json';
+const MANIFEST_FORMAT_VERSION = 1;
+
+/**
+ * @class ArchiveIntegrityError
+ * @description 归档段缺失或校验和不匹配时抛出的错误
+ */
+export class ArchiveIntegrityError extends Error {
+  constructor(
+    public readonly segmentId: string,
+    message: string,
+  ) {
+    super(`Archive segment ${segmentId} failed integrity check: ${message}`);
+    this.name = 'ArchiveIntegrityError';
+  }
+}
+
+/**
+ * @class FileSystemEventArchive
+ * @description
+ * 基于本地磁盘的事件归档实现，每个归档段是一个NDJSON文件（每行一个事件）。
+ *
+ * 存储布局：
+ * 1. manifest.json：归档清单，记录每个段的事件数量、时间范围、聚合根版本范围和sha256校验和
+ * 2. segment-*.ndjson：归档段文件，每行一个序列化后的StoredEvent
+ *
+ * 可靠性保证：
+ * 1. 段文件和清单都先写入临时文件再原子重命名
+ * 2. 只有清单记录的段才被视为已归档
+ * 3. 读取段时校验sha256，不匹配时抛出ArchiveIntegrityError
+ * 4. 同一实例内的写入串行执行
+ *
+ * @example
+ * ```typescript
+ * const archive = new FileSystemEventArchive('/var/lib/aiofix/event-archive');
+ * const segment = await archive.writeSegment(events);
+ * const archived = await archive.readStream('user-123');
+ * ```
+ * @since 1.0.0
+ */
+export class FileSystemEventArchive implements IEventArchive {
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly directory: string) {
+    if (!directory) {
+      throw new Error('Archive directory cannot be empty');
+    }
+  }
+
+  /**
+   * @method writeSegment
+   * @description 将一批事件写入新的归档段，并更新清单
+   * @param {StoredEvent[]} events 要归档的事件
+   * @returns {Promise<ArchiveSegment>} 写入的归档段信息
+   */
+  async writeSegment(events: StoredEvent[]): Promise<ArchiveSegment> {
+    if (events.length === 0) {
+      throw new Error('Cannot archive an empty batch of events');
+    }
+
+    const write = this.writeQueue.then(() => this.doWriteSegment(events));
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+
+  /**
+   * @method readStream
+   * @description 读取聚合根已归档的事件
+   * @param {string} aggregateId 聚合根ID
+   * @param {number} [fromVersion=0] 起始版本号
+   * @returns {Promise<StoredEvent[]>} 按版本号升序排列的事件
+   */
+  async readStream(
+    aggregateId: string,
+    fromVersion: number = 0,
+  ): Promise<StoredEvent[]> {
+    const manifest = await this.getManifest();
+    const events: StoredEvent[] = [];
+
+    for (const segment of manifest.segments) {
+      const range = segment.aggregates[aggregateId] as
+        | ArchiveSegment['aggregates'][string]
+        | undefined;
+      if (!range || range.toVersion < fromVersion) {
+        continue;
+      }
+
+      const segmentEvents = await this.readSegment(segment);
+      events.push(
+        ...segmentEvents.filter(
+          event =>
+            event.aggregateId === aggregateId &&
+            event.eventVersion >= fromVersion,
+        ),
+      );
+    }
+
+    return events.sort((a, b) => a.eventVersion - b.eventVersion);
+  }
+
+  /**
+   * @method getManifest
+   * @description 读取归档清单，清单不存在时返回空清单
+   * @returns {Promise<ArchiveManifest>} 归档清单
+   */
+  async getManifest(): Promise<ArchiveManifest> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.resolve(MANIFEST_FILE), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { formatVersion: MANIFEST_FORMAT_VERSION, segments: [] };
+      }
+      throw error;
+    }
+
+    const raw = JSON.parse(content) as {
+      formatVersion: number;
+      segments: (Omit<ArchiveSegment, 'createdAt' | 'fromDate' | 'toDate'> & {
+        createdAt: string;
+        fromDate: string;
+        toDate: string;
+      })[];
+    };
+
+    return {
+      formatVersion: raw.formatVersion,
+      segments: raw.segments.map(segment => ({
+        ...segment,
+        createdAt: new Date(segment.createdAt),
+        fromDate: new Date(segment.fromDate),
+        toDate: new Date(segment.toDate),
+      })),
+    };
+  }
+
+  /**
+   * @method verify
+   * @description 校验清单中所有归档段的存在性和校验和
+   * @returns {Promise<ArchiveVerificationResult>} 校验结果
+   */
+  async verify(): Promise<ArchiveVerificationResult> {
+    const manifest = await this.getManifest();
+    const corruptedSegments: string[] = [];
+    const missingSegments: string[] = [];
+
+    for (const segment of manifest.segments) {
+      try {
+        await this.readSegmentContent(segment);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          missingSegments.push(segment.segmentId);
+        } else {
+          corruptedSegments.push(segment.segmentId);
+        }
+      }
+    }
+
+    return {
+      valid: corruptedSegments.length === 0 && missingSegments.length === 0,
+      checkedSegments: manifest.segments.length,
+      corruptedSegments,
+      missingSegments,
+    };
+  }
+
+  /**
+   * @method doWriteSegment
+   * @description 写入归档段文件并追加到清单
+   * @param {StoredEvent[]} events 要归档的事件
+   * @returns {Promise<ArchiveSegment>} 归档段信息
+   * @private
+   */
+  private async doWriteSegment(events: StoredEvent[]): Promise<ArchiveSegment> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const manifest = await this.getManifest();
+    const createdAt = new Date();
+    const segmentId = `segment-${createdAt.getTime()}-${String(manifest.segments.length + 1).padStart(6, '0')}`;
+    const content =
+      events.map(event => JSON.stringify(event)).join('\n') + '\n';
+
+    await this.writeAtomically(`${segmentId}.ndjson`, content);
+
+    const aggregates: Record<
+      string,
+      { fromVersion: number; toVersion: number }
+    > = {};
+    let fromDate = events[0].occurredOn;
+    let toDate = events[0].occurredOn;
+    for (const event of events) {
+      const range = aggregates[event.aggregateId] as
+        | { fromVersion: number; toVersion: number }
+        | undefined;
+      aggregates[event.aggregateId] = {
+        fromVersion: Math.min(
+          range?.fromVersion ?? event.eventVersion,
+          event.eventVersion,
+        ),
+        toVersion: Math.max(
+          range?.toVersion ?? event.eventVersion,
+          event.eventVersion,
+        ),
+      };
+      if (event.occurredOn < fromDate) {
+        fromDate = event.occurredOn;
+      }
+      if (event.occurredOn > toDate) {
+        toDate = event.occurredOn;
+      }
+    }
+
+    const segment: ArchiveSegment = {
+      segmentId,
+      createdAt,
+      eventCount: events.length,
+      byteSize: Buffer.byteLength(content, 'utf8'),
+      checksum: this.checksum(content),
+      fromDate,
+      toDate,
+      aggregates,
+    };
+
+    await this.writeAtomically(
+      MANIFEST_FILE,
+      JSON.stringify(
+        {
+          formatVersion: MANIFEST_FORMAT_VERSION,
+          segments: [...manifest.segments, segment],
+        },
+        null,
+        2,
+      ),
+    );
+
+    return segment;
+  }
+
+  /**
+   * @method readSegment
+   * @description 读取并解析归档段中的事件
+   * @param {ArchiveSegment} segment 归档段信息
+   * @returns {Promise<StoredEvent[]>} 段内事件
+   * @private
+   */
+  private async readSegment(segment: ArchiveSegment): Promise<StoredEvent[]> {
+    const content = await this.readSegmentContent(segment);
+    return content
+      .split('\n')
+      .filter(line => line.length > 0)
+      .map(line => this.reviveEvent(line));
+  }
+
+  /**
+   * @method readSegmentContent
+   * @description 读取归档段内容并校验大小和校验和
+   * @param {ArchiveSegment} segment 归档段信息
+   * @returns {Promise<string>} 段内容
+   * @throws {ArchiveIntegrityError} 当校验失败时抛出
+   * @private
+   */
+  private async readSegmentContent(segment: ArchiveSegment): Promise<string> {
+    const content = await fs.readFile(
+      this.resolve(`${segment.segmentId}.ndjson`),
+      'utf8',
+    );
+
+    if (Buffer.byteLength(content, 'utf8') !== segment.byteSize) {
+      throw new ArchiveIntegrityError(segment.segmentId, 'size mismatch');
+    }
+
+    if (this.checksum(content) !== segment.checksum) {
+      throw new ArchiveIntegrityError(segment.segmentId, 'checksum mismatch');
+    }
+
+    return content;
+  }
+
+  /**
+   * @method reviveEvent
+   * @description 将NDJSON行还原为StoredEvent，恢复日期字段
+   * @param {string} line NDJSON行
+   * @returns {StoredEvent} 存储的事件
+   * @private
+   */
+  private reviveEvent(line: string): StoredEvent {
+    const raw = JSON.parse(line) as StoredEvent & {
+      occurredOn: string;
+      storedAt: string;
+      metadata: EventMetadata & { timestamp: string };
+    };
+
+    return {
+      ...raw,
+      occurredOn: new Date(raw.occurredOn),
+      storedAt: new Date(raw.storedAt),
+      metadata: {
+        ...raw.metadata,
+        timestamp: new Date(raw.metadata.timestamp),
+      },
+    };
+  }
+
+  /**
+   * @method writeAtomically
+   * @description 先写入临时文件再重命名，避免留下写了一半的文件
+   * @param {string} fileName 文件名
+   * @param {string} content 文件内容
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async writeAtomically(
+    fileName: string,
+    content: string,
+  ): Promise<void> {
+    const target = this.resolve(fileName);
+    const temp = `${target}.tmp`;
+    await fs.writeFile(temp, content, 'utf8');
+    await fs.rename(temp, target);
+  }
+
+  /**
+   * @method checksum
+   * @description 计算内容的sha256校验和
+   * @param {string} content 内容
+   * @returns {string} 十六进制校验和
+   * @private
+   */
+  private checksum(content: string): string {
+    return createHash('sha256').update(content, 'utf8').digest('hex');
+  }
+
+  /**
+   * @method resolve
+   * @description 解析归档目录下的文件路径
+   * @param {string} fileName 文件名
+   * @returns {string} 绝对路径
+   * @private
+   */
+  private resolve(fileName: string): string {
+    return path.join(this.directory, fileName);
+  }
+}
@@ -0,0 +1,167 @@
+import {
+  describe,
+  it,
+  beforeEach,
+  afterEach,
+  expect,
+  jest,
+} from '@jest/globals';
+import { DomainEvent } from '../domain-event';
+import { QueueConfig } from '../interfaces/message-queue.interface';
+import { EventTypeRegistry } from './event-type-registry.service';
+import {
+  DeadLetterNotFoundError,
+  InMemoryMessageQueue,
+} from './message-queue.service';
+import { describeMessageQueueContract } from '../../../../../tests/utils/message-queue.contract';
+
+/**
+ * @class NotificationRequestedEvent
+ * @description 测试用通知事件
+ */
+class NotificationRequestedEvent extends DomainEvent {
+  constructor(
+    aggregateId: string,
+    public readonly recipient: string,
+  ) {
+    super(aggregateId);
+  }
+
+  toJSON(): Record<string, unknown> {
+    return { recipient: this.recipient };
+  }
+}
+
+const queueConfig: QueueConfig = {
+  name: 'domain-events',
+  concurrency: 1,
+  retryAttempts: 3,
+  retryDelay: 0,
+  backoffMultiplier: 2,
+  maxRetryDelay: 0,
+  removeOnComplete: 10,
+  removeOnFail: 5,
+  delay: 0,
+  priority: 1,
+};
+
+describe('InMemoryMessageQueue dead-letter queue', () => {
+  let registry: EventTypeRegistry;
+  let queue: InMemoryMessageQueue;
+  let delivered: string[];
+  let failingRecipients: Set<string>;
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ doNotFake: ['Date'] });
+    registry = new EventTypeRegistry().register(NotificationRequestedEvent, {
+      deserialize: ({ aggregateId, data }) =>
+        new NotificationRequestedEvent(aggregateId, data.recipient as string),
+    });
+    queue = new InMemoryMessageQueue(registry);
+    delivered = [];
+    failingRecipients = new Set();
+
+    await queue.createQueue(queueConfig);
+    await queue.consumeEvents('domain-events', async event => {
+      const { recipient } = event as NotificationRequestedEvent;
+      if (failingRecipients.has(recipient)) {
+        throw new Error(`mailbox ${recipient} unavailable`);
+      }
+      delivered.push(recipient);
+    });
+    await queue.start();
+  });
+
+  afterEach(async () => {
+    await queue.stop();
+    jest.useRealTimers();
+  });
+
+  const tick = async (): Promise<void> => {
+    await jest.advanceTimersByTimeAsync(1000);
+  };
+
+  it('should dead-letter a message once its attempts are exhausted', async () => {
+    failingRecipients.add('bob');
+    await queue.publishEvent(new NotificationRequestedEvent('user-1', 'bob'));
+    await queue.publishEvent(new NotificationRequestedEvent('user-2', 'amy'));
+
+    await tick();
+
+    expect(delivered).toEqual(['amy']);
+    const [deadLetter] = await queue.getDeadLetters('domain-events');
+    expect(deadLetter).toMatchObject({
+      queueName: 'domain-events',
+      reason: 'mailbox bob unavailable',
+      poison: false,
+    });
+    expect(deadLetter.stack).toContain('mailbox bob unavailable');
+    expect(deadLetter.message.attempts).toBe(3);
+    expect(deadLetter.message.failures?.map(f => f.attempt)).toEqual([1, 2, 3]);
+
+    const statistics = await queue.getQueueStatistics('domain-events');
+    expect(statistics.deadLettered).toBe(1);
+    expect(statistics.oldestDeadLetteredAt).toEqual(deadLetter.deadLetteredAt);
+    expect(statistics.waiting).toBe(0);
+  });
+
+  it('should dead-letter poison messages without retrying', async () => {
+    // 消费端未注册该事件类型，消息无法还原
+    const poisonQueue = new InMemoryMessageQueue(new EventTypeRegistry());
+    let calls = 0;
+    await poisonQueue.createQueue(queueConfig);
+    await poisonQueue.consumeEvents('domain-events', async () => {
+      calls++;
+    });
+    await poisonQueue.start();
+    await poisonQueue.publishEvent(
+      new NotificationRequestedEvent('user-1', 'bob'),
+    );
+
+    await tick();
+    await poisonQueue.stop();
+
+    expect(calls).toBe(0);
+    const [deadLetter] = await poisonQueue.getDeadLetters('domain-events');
+    expect(deadLetter.poison).toBe(true);
+    expect(deadLetter.message.attempts).toBe(1);
+    expect(deadLetter.reason).toContain('NotificationRequestedEvent');
+  });
+
+  it('should requeue an edited dead letter to its original queue', async () => {
+    failingRecipients.add('bob');
+    await queue.publishEvent(new NotificationRequestedEvent('user-1', 'bob'));
+    await tick();
+    const [deadLetter] = await queue.getDeadLetters('domain-events');
+
+    await queue.requeueDeadLetter('domain-events', deadLetter.id, {
+      data: { recipient: 'bob-fixed' },
+    });
+    await tick();
+
+    expect(delivered).toEqual(['bob-fixed']);
+    await expect(queue.getDeadLetters('domain-events')).resolves.toEqual([]);
+  });
+
+  it('should discard dead letters and reject unknown ids', async () => {
+    failingRecipients.add('bob');
+    await queue.publishEvent(new NotificationRequestedEvent('user-1', 'bob'));
+    await tick();
+    const [deadLetter] = await queue.getDeadLetters('domain-events');
+
+    await queue.discardDeadLetter('domain-events', deadLetter.id);
+
+    await expect(queue.getDeadLetters('domain-events')).resolves.toEqual([]);
+    await expect(
+      queue.discardDeadLetter('domain-events', deadLetter.id),
+    ).rejects.toBeInstanceOf(DeadLetterNotFoundError);
+    await expect(
+      queue.requeueDeadLetter('domain-events', 'missing'),
+    ).rejects.toBeInstanceOf(DeadLetterNotFoundError);
+  });
+});
+
+describeMessageQueueContract(
+  'InMemoryMessageQueue',
+  async registry => new InMemoryMessageQueue(registry),
+);
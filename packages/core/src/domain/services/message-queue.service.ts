@@ -7,8 +7,293 @@ import {
   JobOptions,
   QueueStatistics,
   FailedJob,
+  DeadLetter,
+  DeadLetterEdit,
+  MessageFailure,
 } from '../interfaces/message-queue.interface';
 import { v4 as uuidv4 } from 'uuid';
+import {
+  EventTypeRegistry,
+  eventTypeRegistry as defaultEventTypeRegistry,
+  SerializedDomainEvent,
+} from './event-type-registry.service';
+
+/**
+ * @class DeadLetterNotFoundError
+ * @description 死信不存在时抛出的错误
+ */
+export class DeadLetterNotFoundError extends Error {
+  constructor(
+    public readonly queueName: string,
+    public readonly deadLetterId: string,
+  ) {
+    super(`Dead letter ${deadLetterId} not found in queue ${queueName}`);
+    this.name = 'DeadLetterNotFoundError';
+  }
+}
+
+/**
+ * @class PoisonMessageError
+ * @description 消息无法被还原（如事件类型未注册）时抛出的错误，此类消息不重试，直接进入死信队列
+ */
+export class PoisonMessageError extends Error {
+  constructor(
+    public readonly messageId: string,
+    public readonly cause: unknown,
+  ) {
+    super(
+      `Message ${messageId} cannot be processed: ${cause instanceof Error ? cause.message : String(cause)}`,
+    );
+    this.name = 'PoisonMessageError';
+  }
+}
+
+/**
+ * @function createDefaultQueueConfig
+ * @description 创建队列的默认配置，发布消息时队列不存在则使用该配置自动创建
+ * @param {string} name 队列名称
+ * @returns {QueueConfig} 队列配置
+ */
+export function createDefaultQueueConfig(name: string): QueueConfig {
+  return {
+    name,
+    concurrency: 1,
+    retryAttempts: 3,
+    retryDelay: 1000,
+    backoffMultiplier: 2,
+    maxRetryDelay: 10000,
+    removeOnComplete: 10,
+    removeOnFail: 5,
+    delay: 0,
+    priority: 1,
+  };
+}
+
+/**
+ * @function createQueueMessage
+ * @description 创建消息，领域事件通过事件类型注册表序列化
+ * @param {IMessage['type']} type 消息类型
+ * @param {object} data 消息数据，领域事件消息为DomainEvent
+ * @param {JobOptions} [options] 任务选项
+ * @param {EventTypeRegistry} [registry] 事件类型注册表，默认使用全局注册表
+ * @returns {IMessage} 消息对象
+ */
+export function createQueueMessage(
+  type: IMessage['type'],
+  data: object,
+  options?: JobOptions,
+  registry: EventTypeRegistry = defaultEventTypeRegistry,
+): IMessage {
+  if (type === 'DOMAIN_EVENT') {
+    return createDomainEventMessage(
+      registry.serialize(data as DomainEvent),
+      options,
+    );
+  }
+
+  const now = new Date();
+  const metadata: MessageMetadata = {
+    source: 'message-queue',
+    version: '1.0.0',
+    timestamp: now,
+    retryCount: 0,
+    originalTimestamp: now,
+  };
+
+  return {
+    id: uuidv4(),
+    type,
+    commandType: type === 'COMMAND' ? data.constructor.name : undefined,
+    queryType: type === 'QUERY' ? data.constructor.name : undefined,
+    data: data as Record<string, unknown>,
+    metadata,
+    timestamp: now,
+    priority: options?.priority || 1,
+    delay: options?.delay,
+    attempts: 0,
+    maxAttempts: options?.attempts || 3,
+    backoff: options?.backoff,
+  };
+}
+
+/**
+ * @function createDomainEventMessage
+ * @description 由序列化的领域事件创建消息，保留原始事件ID、结构版本和元数据
+ * @param {SerializedDomainEvent} serialized 序列化的领域事件
+ * @param {JobOptions} [options] 任务选项
+ * @returns {IMessage} 消息对象
+ */
+export function createDomainEventMessage(
+  serialized: SerializedDomainEvent,
+  options?: JobOptions,
+): IMessage {
+  const now = new Date();
+  return {
+    id: uuidv4(),
+    type: 'DOMAIN_EVENT',
+    eventType: serialized.eventType,
+    aggregateId: serialized.aggregateId,
+    eventId: serialized.eventId,
+    schemaVersion: serialized.schemaVersion,
+    occurredOn: new Date(serialized.occurredOn),
+    eventMetadata: serialized.metadata,
+    data: serialized.data,
+    metadata: {
+      source: 'message-queue',
+      version: '1.0.0',
+      timestamp: now,
+      retryCount: 0,
+      originalTimestamp: now,
+      tenantId: serialized.metadata.tenantId,
+      userId: serialized.metadata.userId,
+      correlationId: serialized.metadata.correlationId,
+      causationId: serialized.metadata.causationId,
+    },
+    timestamp: now,
+    priority: options?.priority ?? 1,
+    delay: options?.delay,
+    attempts: 0,
+    maxAttempts: options?.attempts ?? 3,
+    backoff: options?.backoff,
+  };
+}
+
+/**
+ * @function restoreDomainEvent
+ * @description 通过事件类型注册表将消息还原为具体的领域事件
+ * @param {IMessage} message 消息
+ * @param {EventTypeRegistry} [registry] 事件类型注册表，默认使用全局注册表
+ * @returns {DomainEvent} 领域事件
+ * @throws {UnknownEventTypeError} 当事件类型未注册时抛出
+ */
+export function restoreDomainEvent(
+  message: IMessage,
+  registry: EventTypeRegistry = defaultEventTypeRegistry,
+): DomainEvent {
+  if (!message.eventType || !message.aggregateId) {
+    throw new Error(
+      `Message ${message.id} is missing event type or aggregate ID`,
+    );
+  }
+
+  return registry.deserialize({
+    eventId: message.eventId ?? message.id,
+    eventType: message.eventType,
+    schemaVersion: message.schemaVersion ?? 1,
+    aggregateId: message.aggregateId,
+    occurredOn: message.occurredOn ?? message.timestamp,
+    metadata: message.eventMetadata ?? {
+      tenantId: message.metadata.tenantId,
+      userId: message.metadata.userId,
+      correlationId: message.metadata.correlationId,
+      causationId: message.metadata.causationId,
+      timestamp: message.metadata.originalTimestamp,
+      source: message.metadata.source,
+      version: message.metadata.version,
+    },
+    data: message.data,
+  });
+}
+
+/**
+ * @function recordMessageFailure
+ * @description 在消息上追加一次失败记录（原因、堆栈、尝试次数、时间）
+ * @param {IMessage} message 消息
+ * @param {unknown} error 错误
+ * @returns {IMessage} 追加失败记录后的消息
+ */
+export function recordMessageFailure(
+  message: IMessage,
+  error: unknown,
+): IMessage {
+  const failure: MessageFailure = {
+    attempt: message.attempts + 1,
+    error: error instanceof Error ? error.message : String(error),
+    stack: error instanceof Error ? error.stack : undefined,
+    failedAt: new Date(Date.now()),
+  };
+
+  return {
+    ...message,
+    attempts: failure.attempt,
+    failures: [...(message.failures ?? []), failure],
+    metadata: { ...message.metadata, retryCount: failure.attempt },
+  };
+}
+
+/**
+ * @function calculateRetryDelay
+ * @description 计算失败消息的重试延迟，消息的backoff选项优先于队列配置
+ * @param {IMessage} message 已记录失败的消息
+ * @param {QueueConfig} [config] 队列配置
+ * @returns {number} 延迟（毫秒）
+ */
+export function calculateRetryDelay(
+  message: IMessage,
+  config?: QueueConfig,
+): number {
+  const exponent = Math.max(message.attempts - 1, 0);
+  const delay = message.backoff
+    ? message.backoff.type === 'fixed'
+      ? message.backoff.delay
+      : message.backoff.delay * Math.pow(2, exponent)
+    : config
+      ? config.retryDelay * Math.pow(config.backoffMultiplier, exponent)
+      : 0;
+
+  return config ? Math.min(delay, config.maxRetryDelay) : delay;
+}
+
+/**
+ * @function toFailedJob
+ * @description 将死信转换为失败任务视图
+ * @param {DeadLetter} deadLetter 死信
+ * @returns {FailedJob} 失败任务
+ */
+export function toFailedJob(deadLetter: DeadLetter): FailedJob {
+  const { message } = deadLetter;
+  return {
+    id: deadLetter.id,
+    name:
+      message.eventType ??
+      message.commandType ??
+      message.queryType ??
+      message.type,
+    data: message.data,
+    error: deadLetter.reason,
+    stack: deadLetter.stack ?? '',
+    failedAt: deadLetter.deadLetteredAt,
+    attempts: message.attempts,
+    maxAttempts: message.maxAttempts,
+  };
+}
+
+/**
+ * @function prepareRequeue
+ * @description 生成死信重新入队时的消息，尝试次数清零，失败记录保留
+ * @param {DeadLetter} deadLetter 死信
+ * @param {DeadLetterEdit} [edit] 对消息的修改
+ * @returns {IMessage} 重新入队的消息
+ */
+export function prepareRequeue(
+  deadLetter: DeadLetter,
+  edit: DeadLetterEdit = {},
+): IMessage {
+  const { message } = deadLetter;
+  return {
+    ...message,
+    data: edit.data ?? message.data,
+    priority: edit.priority ?? message.priority,
+    maxAttempts: edit.maxAttempts ?? message.maxAttempts,
+    delay: undefined,
+    attempts: 0,
+    metadata: {
+      ...message.metadata,
+      timestamp: new Date(Date.now()),
+      retryCount: message.metadata.retryCount + 1,
+    },
+  };
+}
 
 /**
  * @class InMemoryMessageQueue
@@ -33,9 +318,15 @@ import { v4 as uuidv4 } from 'uuid';
  * 3. 失败重试策略
  * 4. 死信队列处理
  *
+ * 失败处理：
+ * 1. 处理失败的消息记录失败原因、堆栈和尝试次数，按任务或队列配置的退避策略重试
+ * 2. 重试次数耗尽后进入该队列的死信队列，getFailedJobs和retryFailedJobs作用于死信队列
+ * 3. 无法还原的毒消息（PoisonMessageError）不重试，直接进入死信队列
+ * 4. 死信可以检查、修改后重新入队或丢弃
+ *
  * @param {Map<string, IMessage[]>} queues 队列存储
  * @param {Map<string, QueueConfig>} queueConfigs 队列配置
- * @param {Map<string, FailedJob[]>} failedJobs 失败任务存储
+ * @param {Map<string, DeadLetter[]>} deadLetters 死信存储
  *
  * @example
  * ```typescript
@@ -47,17 +338,26 @@ import { v4 as uuidv4 } from 'uuid';
 export class InMemoryMessageQueue implements IMessageQueue {
   private readonly queues: Map<string, IMessage[]> = new Map();
   private readonly queueConfigs: Map<string, QueueConfig> = new Map();
-  private readonly failedJobs: Map<string, FailedJob[]> = new Map();
+  private readonly deadLetters: Map<string, DeadLetter[]> = new Map();
+  private readonly consumers: Map<
+    string,
+    (message: IMessage) => Promise<void>
+  > = new Map();
   private readonly processingJobs: Map<string, Set<string>> = new Map();
   private readonly delayedJobs: Map<
     string,
     { message: IMessage; executeAt: Date }[]
   > = new Map();
+  private readonly pausedQueues: Set<string> = new Set();
 
   private isStarted = false;
   private processingInterval: any = null;
   private delayedJobsInterval: any = null;
 
+  constructor(
+    private readonly eventTypeRegistry: EventTypeRegistry = defaultEventTypeRegistry,
+  ) {}
+
   /**
    * @method publishEvent
    * @description 发布领域事件到消息队列
@@ -73,9 +373,26 @@ export class InMemoryMessageQueue implements IMessageQueue {
    * 4. 记录发布日志
    */
   async publishEvent(event: DomainEvent, options?: JobOptions): Promise<void> {
-    const message = this.createMessage('DOMAIN_EVENT', event, options);
+    await this.publishSerializedEvent(
+      this.eventTypeRegistry.serialize(event),
+      options,
+    );
+  }
+
+  /**
+   * @method publishSerializedEvent
+   * @description 发布已序列化的领域事件，原样转发载荷
+   * @param {SerializedDomainEvent} event 序列化的领域事件
+   * @param {JobOptions} [options] 任务选项
+   * @returns {Promise<void>}
+   */
+  async publishSerializedEvent(
+    event: SerializedDomainEvent,
+    options?: JobOptions,
+  ): Promise<void> {
+    const message = createDomainEventMessage(event, options);
     await this.enqueueMessage('domain-events', message);
-    console.log(`Published domain event: ${event.getEventType()}`);
+    console.log(`Published domain event: ${event.eventType}`);
   }
 
   /**
@@ -87,7 +404,7 @@ export class InMemoryMessageQueue implements IMessageQueue {
    * @throws {MessagePublishError} 当消息发布失败时抛出
    */
   async publishCommand(command: any, options?: JobOptions): Promise<void> {
-    const message = this.createMessage('COMMAND', command, options);
+    const message = createQueueMessage('COMMAND', command, options);
     await this.enqueueMessage('commands', message);
     console.log(`Published command: ${command.constructor?.name || 'Unknown'}`);
   }
@@ -101,7 +418,7 @@ export class InMemoryMessageQueue implements IMessageQueue {
    * @throws {MessagePublishError} 当消息发布失败时抛出
    */
   async publishQuery(query: any, options?: JobOptions): Promise<void> {
-    const message = this.createMessage('QUERY', query, options);
+    const message = createQueueMessage('QUERY', query, options);
     await this.enqueueMessage('queries', message);
     console.log(`Published query: ${query.constructor?.name || 'Unknown'}`);
   }
@@ -118,7 +435,7 @@ export class InMemoryMessageQueue implements IMessageQueue {
     integrationEvent: any,
     options?: JobOptions,
   ): Promise<void> {
-    const message = this.createMessage(
+    const message = createQueueMessage(
       'INTEGRATION_EVENT',
       integrationEvent,
       options,
@@ -148,7 +465,12 @@ export class InMemoryMessageQueue implements IMessageQueue {
   ): Promise<void> {
     await this.consumeMessages(queueName, async (message: IMessage) => {
       if (message.type === 'DOMAIN_EVENT') {
-        const event = this.deserializeDomainEvent(message);
+        let event: DomainEvent;
+        try {
+          event = restoreDomainEvent(message, this.eventTypeRegistry);
+        } catch (error) {
+          throw new PoisonMessageError(message.id, error);
+        }
         await processor(event);
       }
     });
@@ -199,7 +521,7 @@ export class InMemoryMessageQueue implements IMessageQueue {
   async createQueue(config: QueueConfig): Promise<void> {
     this.queues.set(config.name, []);
     this.queueConfigs.set(config.name, config);
-    this.failedJobs.set(config.name, []);
+    this.deadLetters.set(config.name, []);
     this.processingJobs.set(config.name, new Set());
     this.delayedJobs.set(config.name, []);
     console.log(`Created queue: ${config.name}`);
@@ -214,7 +536,9 @@ export class InMemoryMessageQueue implements IMessageQueue {
   async deleteQueue(queueName: string): Promise<void> {
     this.queues.delete(queueName);
     this.queueConfigs.delete(queueName);
-    this.failedJobs.delete(queueName);
+    this.pausedQueues.delete(queueName);
+    this.deadLetters.delete(queueName);
+    this.consumers.delete(queueName);
     this.processingJobs.delete(queueName);
     this.delayedJobs.delete(queueName);
     console.log(`Deleted queue: ${queueName}`);
@@ -229,18 +553,20 @@ export class InMemoryMessageQueue implements IMessageQueue {
   async getQueueStatistics(queueName: string): Promise<QueueStatistics> {
     const queue = this.queues.get(queueName) || [];
     const config = this.queueConfigs.get(queueName);
-    const failed = this.failedJobs.get(queueName) || [];
     const processing = this.processingJobs.get(queueName) || new Set();
     const delayed = this.delayedJobs.get(queueName) || [];
+    const deadLetters = this.deadLetters.get(queueName) ?? [];
 
     return {
       name: queueName,
       waiting: queue.length,
       active: processing.size,
       completed: 0, // 简化实现，不跟踪完成的任务
-      failed: failed.length,
+      failed: deadLetters.length,
       delayed: delayed.length,
-      paused: false, // 简化实现，不支持暂停
+      deadLettered: deadLetters.length,
+      oldestDeadLetteredAt: deadLetters[0]?.deadLetteredAt,
+      paused: this.pausedQueues.has(queueName),
       concurrency: config?.concurrency || 1,
       averageProcessingTime: 0, // 简化实现，不计算平均处理时间
       throughput: 0, // 简化实现，不计算吞吐量
@@ -254,7 +580,7 @@ export class InMemoryMessageQueue implements IMessageQueue {
    * @returns {Promise<void>}
    */
   async pauseQueue(queueName: string): Promise<void> {
-    // 简化实现，仅记录日志
+    this.pausedQueues.add(queueName);
     console.log(`Queue paused: ${queueName}`);
   }
 
@@ -265,8 +591,9 @@ export class InMemoryMessageQueue implements IMessageQueue {
    * @returns {Promise<void>}
    */
   async resumeQueue(queueName: string): Promise<void> {
-    // 简化实现，仅记录日志
+    this.pausedQueues.delete(queueName);
     console.log(`Queue resumed: ${queueName}`);
+    this.drainQueue(queueName);
   }
 
   /**
@@ -277,7 +604,7 @@ export class InMemoryMessageQueue implements IMessageQueue {
    */
   async clearQueue(queueName: string): Promise<void> {
     this.queues.set(queueName, []);
-    this.failedJobs.set(queueName, []);
+    this.deadLetters.set(queueName, []);
     this.processingJobs.set(queueName, new Set());
     this.delayedJobs.set(queueName, []);
     console.log(`Cleared queue: ${queueName}`);
@@ -285,45 +612,27 @@ export class InMemoryMessageQueue implements IMessageQueue {
 
   /**
    * @method retryFailedJobs
-   * @description 重试失败的任务
+   * @description 重试失败的任务，即将死信队列中的全部消息重新入队
    * @param {string} queueName 队列名称
    * @returns {Promise<number>} 重试的任务数量
    */
   async retryFailedJobs(queueName: string): Promise<number> {
-    const failed = this.failedJobs.get(queueName) || [];
-    const queue = this.queues.get(queueName) || [];
-
-    let retryCount = 0;
-    for (const failedJob of failed) {
-      const message: IMessage = {
-        id: uuidv4(),
-        type: 'DOMAIN_EVENT',
-        data: failedJob.data,
-        metadata: {
-          source: 'retry',
-          version: '1.0.0',
-          timestamp: new Date(),
-          retryCount: failedJob.attempts + 1,
-          originalTimestamp: failedJob.failedAt,
-        },
-        timestamp: new Date(),
-        priority: 1,
-        attempts: failedJob.attempts + 1,
-        maxAttempts: failedJob.maxAttempts,
-      };
+    const deadLetters = this.deadLetters.get(queueName) ?? [];
+    this.deadLetters.set(queueName, []);
 
-      queue.push(message);
-      retryCount++;
+    for (const deadLetter of deadLetters) {
+      await this.enqueueMessage(queueName, prepareRequeue(deadLetter));
     }
 
-    this.failedJobs.set(queueName, []);
-    console.log(`Retried ${retryCount} failed jobs in queue: ${queueName}`);
-    return retryCount;
+    console.log(
+      `Retried ${deadLetters.length} failed jobs in queue: ${queueName}`,
+    );
+    return deadLetters.length;
   }
 
   /**
    * @method getFailedJobs
-   * @description 获取失败的任务
+   * @description 获取失败的任务，即死信队列中的消息
    * @param {string} queueName 队列名称
    * @param {number} [limit=100] 限制数量
    * @returns {Promise<FailedJob[]>} 失败的任务列表
@@ -332,8 +641,60 @@ export class InMemoryMessageQueue implements IMessageQueue {
     queueName: string,
     limit: number = 100,
   ): Promise<FailedJob[]> {
-    const failed = this.failedJobs.get(queueName) || [];
-    return failed.slice(0, limit);
+    const deadLetters = this.deadLetters.get(queueName) ?? [];
+    return deadLetters.slice(0, limit).map(toFailedJob);
+  }
+
+  /**
+   * @method getDeadLetters
+   * @description 获取死信队列中的消息，按进入死信队列的顺序排列
+   * @param {string} queueName 队列名称
+   * @param {number} [limit=100] 限制数量
+   * @returns {Promise<DeadLetter[]>} 死信列表
+   */
+  async getDeadLetters(
+    queueName: string,
+    limit: number = 100,
+  ): Promise<DeadLetter[]> {
+    const deadLetters = this.deadLetters.get(queueName) ?? [];
+    return deadLetters.slice(0, limit);
+  }
+
+  /**
+   * @method requeueDeadLetter
+   * @description 将死信（可先修改）重新放回原队列，尝试次数清零，失败记录保留
+   * @param {string} queueName 队列名称
+   * @param {string} deadLetterId 死信ID
+   * @param {DeadLetterEdit} [edit] 对消息的修改
+   * @returns {Promise<void>}
+   * @throws {DeadLetterNotFoundError} 当死信不存在时抛出
+   */
+  async requeueDeadLetter(
+    queueName: string,
+    deadLetterId: string,
+    edit: DeadLetterEdit = {},
+  ): Promise<void> {
+    const deadLetter = this.takeDeadLetter(queueName, deadLetterId);
+    await this.enqueueMessage(queueName, prepareRequeue(deadLetter, edit));
+    console.log(`Requeued dead letter ${deadLetterId} to queue: ${queueName}`);
+  }
+
+  /**
+   * @method discardDeadLetter
+   * @description 丢弃死信
+   * @param {string} queueName 队列名称
+   * @param {string} deadLetterId 死信ID
+   * @returns {Promise<void>}
+   * @throws {DeadLetterNotFoundError} 当死信不存在时抛出
+   */
+  async discardDeadLetter(
+    queueName: string,
+    deadLetterId: string,
+  ): Promise<void> {
+    this.takeDeadLetter(queueName, deadLetterId);
+    console.log(
+      `Discarded dead letter ${deadLetterId} from queue: ${queueName}`,
+    );
   }
 
   /**
@@ -395,46 +756,6 @@ export class InMemoryMessageQueue implements IMessageQueue {
     return this.isStarted;
   }
 
-  /**
-   * @method createMessage
-   * @description 创建消息
-   * @param {string} type 消息类型
-   * @param {any} data 消息数据
-   * @param {JobOptions} [options] 任务选项
-   * @returns {IMessage} 消息对象
-   * @private
-   */
-  private createMessage(
-    type: string,
-    data: any,
-    options?: JobOptions,
-  ): IMessage {
-    const now = new Date();
-    const metadata: MessageMetadata = {
-      source: 'message-queue',
-      version: '1.0.0',
-      timestamp: now,
-      retryCount: 0,
-      originalTimestamp: now,
-    };
-
-    return {
-      id: uuidv4(),
-      type: type as any,
-      eventType: type === 'DOMAIN_EVENT' ? data.getEventType?.() : undefined,
-      commandType: type === 'COMMAND' ? data.constructor?.name : undefined,
-      queryType: type === 'QUERY' ? data.constructor?.name : undefined,
-      aggregateId: type === 'DOMAIN_EVENT' ? data.aggregateId : undefined,
-      data: type === 'DOMAIN_EVENT' ? data.toJSON() : data,
-      metadata,
-      timestamp: now,
-      priority: options?.priority || 1,
-      delay: options?.delay,
-      attempts: 0,
-      maxAttempts: options?.attempts || 3,
-    };
-  }
-
   /**
    * @method enqueueMessage
    * @description 将消息加入队列
@@ -449,18 +770,7 @@ export class InMemoryMessageQueue implements IMessageQueue {
   ): Promise<void> {
     // 确保队列存在
     if (!this.queues.has(queueName)) {
-      await this.createQueue({
-        name: queueName,
-        concurrency: 1,
-        retryAttempts: 3,
-        retryDelay: 1000,
-        backoffMultiplier: 2,
-        maxRetryDelay: 10000,
-        removeOnComplete: 10,
-        removeOnFail: 5,
-        delay: 0,
-        priority: 1,
-      });
+      await this.createQueue(createDefaultQueueConfig(queueName));
     }
 
     const queue = this.queues.get(queueName)!;
@@ -482,6 +792,8 @@ export class InMemoryMessageQueue implements IMessageQueue {
     } else {
       queue.splice(insertIndex, 0, message);
     }
+
+    this.drainQueue(queueName);
   }
 
   /**
@@ -496,18 +808,139 @@ export class InMemoryMessageQueue implements IMessageQueue {
     queueName: string,
     processor: (message: IMessage) => Promise<void>,
   ): Promise<void> {
-    // 简化实现，仅记录日志
+    this.consumers.set(queueName, processor);
     console.log(`Started consuming messages from queue: ${queueName}`);
   }
 
   /**
    * @method processMessages
-   * @description 处理消息
+   * @description 处理所有已注册消费者的队列
    * @private
    */
   private processMessages(): void {
-    // 简化实现，仅记录日志
-    // 在实际实现中，这里会处理队列中的消息
+    for (const queueName of this.consumers.keys()) {
+      this.drainQueue(queueName);
+    }
+  }
+
+  /**
+   * @method drainQueue
+   * @description 在并发上限内取出消息交给消费者处理，每完成一条继续取下一条
+   * @param {string} queueName 队列名称
+   * @private
+   */
+  private drainQueue(queueName: string): void {
+    const queue = this.queues.get(queueName);
+    const processing = this.processingJobs.get(queueName);
+    const processor = this.consumers.get(queueName);
+    if (
+      !this.isStarted ||
+      this.pausedQueues.has(queueName) ||
+      !queue ||
+      !processing ||
+      !processor
+    ) {
+      return;
+    }
+
+    const concurrency = this.queueConfigs.get(queueName)?.concurrency ?? 1;
+    while (processing.size < concurrency && queue.length > 0) {
+      const message = queue.shift()!;
+      processing.add(message.id);
+
+      void this.processMessage(queueName, message, processor).finally(() => {
+        processing.delete(message.id);
+        this.drainQueue(queueName);
+      });
+    }
+  }
+
+  /**
+   * @method processMessage
+   * @description 处理单条消息，失败时交由失败处理流程
+   * @param {string} queueName 队列名称
+   * @param {IMessage} message 消息
+   * @param {Function} processor 处理器函数
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async processMessage(
+    queueName: string,
+    message: IMessage,
+    processor: (message: IMessage) => Promise<void>,
+  ): Promise<void> {
+    try {
+      await processor(message);
+    } catch (error) {
+      await this.handleFailure(queueName, message, error);
+    }
+  }
+
+  /**
+   * @method handleFailure
+   * @description 记录失败并决定重试或进入死信队列
+   * @param {string} queueName 队列名称
+   * @param {IMessage} message 消息
+   * @param {unknown} error 错误
+   * @returns {Promise<void>}
+   * @private
+   *
+   * 处理流程：
+   * 1. 在消息上追加失败记录（原因、堆栈、尝试次数、时间）
+   * 2. 毒消息或重试次数耗尽时进入死信队列
+   * 3. 否则按退避延迟重新入队
+   */
+  private async handleFailure(
+    queueName: string,
+    message: IMessage,
+    error: unknown,
+  ): Promise<void> {
+    const failedMessage = recordMessageFailure(message, error);
+    const failure = failedMessage.failures![failedMessage.failures!.length - 1];
+
+    const poison = error instanceof PoisonMessageError;
+    if (poison || failedMessage.attempts >= failedMessage.maxAttempts) {
+      this.deadLetters.get(queueName)?.push({
+        id: message.id,
+        queueName,
+        message: failedMessage,
+        reason: failure.error,
+        stack: failure.stack,
+        poison,
+        deadLetteredAt: failure.failedAt,
+      });
+      console.error(
+        `Message ${message.id} moved to dead-letter queue of ${queueName} after ${failedMessage.attempts} attempt(s): ${failure.error}`,
+      );
+      return;
+    }
+
+    await this.enqueueMessage(queueName, {
+      ...failedMessage,
+      delay: calculateRetryDelay(
+        failedMessage,
+        this.queueConfigs.get(queueName),
+      ),
+    });
+  }
+
+  /**
+   * @method takeDeadLetter
+   * @description 从死信队列中移除并返回指定死信
+   * @param {string} queueName 队列名称
+   * @param {string} deadLetterId 死信ID
+   * @returns {DeadLetter} 死信
+   * @throws {DeadLetterNotFoundError} 当死信不存在时抛出
+   * @private
+   */
+  private takeDeadLetter(queueName: string, deadLetterId: string): DeadLetter {
+    const deadLetters = this.deadLetters.get(queueName) ?? [];
+    const index = deadLetters.findIndex(d => d.id === deadLetterId);
+    if (index === -1) {
+      throw new DeadLetterNotFoundError(queueName, deadLetterId);
+    }
+
+    return deadLetters.splice(index, 1)[0];
   }
 
   /**
@@ -531,38 +964,10 @@ export class InMemoryMessageQueue implements IMessageQueue {
       // 移除已处理的任务
       const remainingJobs = delayed.filter(job => job.executeAt > now);
       this.delayedJobs.set(queueName, remainingJobs);
-    }
-  }
 
-  /**
-   * @method deserializeDomainEvent
-   * @description 反序列化领域事件
-   * @param {IMessage} message 消息
-   * @returns {DomainEvent} 领域事件
-   * @private
-   */
-  private deserializeDomainEvent(message: IMessage): DomainEvent {
-    // 简化实现，创建一个通用的领域事件
-    return new (class extends DomainEvent {
-      constructor() {
-        super(
-          message.aggregateId || 'unknown',
-          message.metadata.retryCount + 1,
-          {
-            tenantId: message.metadata.tenantId,
-            userId: message.metadata.userId,
-            source: message.metadata.source,
-          },
-        );
+      if (readyJobs.length > 0) {
+        this.drainQueue(queueName);
       }
-
-      getEventType(): string {
-        return message.eventType || 'Unknown';
-      }
-
-      toJSON(): Record<string, unknown> {
-        return message.data;
-      }
-    })();
+    }
   }
 }
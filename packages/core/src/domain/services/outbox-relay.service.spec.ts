@@ -0,0 +1,171 @@
+import { describe, it, beforeEach, expect, jest } from '@jest/globals';
+import { DomainEvent } from '../domain-event';
+import { IMessageQueue } from '../interfaces/message-queue.interface';
+import {
+  EventTypeRegistry,
+  SerializedDomainEvent,
+} from './event-type-registry.service';
+import {
+  createOutboxMessages,
+  InMemoryOutboxStore,
+  OutboxRelay,
+} from './outbox-relay.service';
+
+/**
+ * @class OrderPlacedEvent
+ * @description 测试用下单事件
+ */
+class OrderPlacedEvent extends DomainEvent {
+  constructor(
+    aggregateId: string,
+    public readonly sku: string,
+  ) {
+    super(aggregateId, 1, { tenantId: 'tenant-1' });
+  }
+
+  toJSON(): Record<string, unknown> {
+    return { sku: this.sku };
+  }
+}
+
+const registry = new EventTypeRegistry().register(OrderPlacedEvent, {
+  deserialize: ({ aggregateId, data }) =>
+    new OrderPlacedEvent(aggregateId, data.sku as string),
+});
+
+describe('OutboxRelay', () => {
+  let outboxStore: InMemoryOutboxStore;
+  let published: SerializedDomainEvent[];
+  let failingSkus: Set<string>;
+  let relay: OutboxRelay;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    outboxStore = new InMemoryOutboxStore();
+    published = [];
+    failingSkus = new Set();
+
+    const messageQueue = {
+      publishSerializedEvent: async (
+        event: SerializedDomainEvent,
+      ): Promise<void> => {
+        const sku = event.data.sku as string;
+        if (failingSkus.has(sku)) {
+          throw new Error(`broker rejected ${sku}`);
+        }
+        published.push(event);
+      },
+    } as unknown as IMessageQueue;
+
+    relay = new OutboxRelay(outboxStore, messageQueue, {
+      retryDelayMs: 60000,
+    });
+  });
+
+  const append = async (...events: OrderPlacedEvent[]): Promise<void> => {
+    await outboxStore.append(createOutboxMessages(events, undefined, registry));
+  };
+
+  it('should publish pending messages with their original event ids', async () => {
+    const event = new OrderPlacedEvent('order-1', 'sku-a');
+    await append(event);
+
+    await expect(relay.drainOnce()).resolves.toBe(1);
+
+    expect(published).toHaveLength(1);
+    expect(published[0]).toMatchObject({
+      eventId: event.eventId,
+      eventType: 'OrderPlacedEvent',
+      data: { sku: 'sku-a' },
+    });
+    expect(outboxStore.getPending()).toHaveLength(0);
+  });
+
+  it('should relay event types that are not registered in this process', async () => {
+    const [message] = createOutboxMessages(
+      [new OrderPlacedEvent('order-1', 'sku-a')],
+      undefined,
+      registry,
+    );
+    await outboxStore.append([
+      {
+        ...message,
+        eventType: 'RetiredOrderEvent',
+        payload: { ...message.payload, eventType: 'RetiredOrderEvent' },
+      },
+    ]);
+
+    await expect(relay.drainOnce()).resolves.toBe(1);
+
+    expect(published[0].eventType).toBe('RetiredOrderEvent');
+    expect(outboxStore.getPending()).toHaveLength(0);
+  });
+
+  it('should take the tenant from the event metadata', () => {
+    const [message] = createOutboxMessages(
+      [new OrderPlacedEvent('order-1', 'sku-a')],
+      undefined,
+      registry,
+    );
+
+    expect(message.tenantId).toBe('tenant-1');
+  });
+
+  it('should ignore duplicate appends of the same event', async () => {
+    const event = new OrderPlacedEvent('order-1', 'sku-a');
+    await append(event);
+    await append(event);
+
+    expect(outboxStore.getPending()).toHaveLength(1);
+  });
+
+  it('should hold back later messages of an aggregate after a failure', async () => {
+    failingSkus.add('sku-a');
+    await append(
+      new OrderPlacedEvent('order-1', 'sku-a'),
+      new OrderPlacedEvent('order-1', 'sku-b'),
+      new OrderPlacedEvent('order-2', 'sku-c'),
+    );
+
+    await expect(relay.drainOnce()).resolves.toBe(1);
+    expect(published.map(e => e.data.sku)).toEqual(['sku-c']);
+
+    const [failed, waiting] = outboxStore.getPending();
+    expect(failed).toMatchObject({
+      attempts: 1,
+      lastError: 'broker rejected sku-a',
+    });
+    expect(waiting.payload.data).toEqual({ sku: 'sku-b' });
+
+    // 第一条消息仍在退避中，后续消息不能越过它
+    await expect(relay.drainOnce()).resolves.toBe(0);
+  });
+
+  it('should retry failed messages once their backoff elapses', async () => {
+    failingSkus.add('sku-a');
+    await append(
+      new OrderPlacedEvent('order-1', 'sku-a'),
+      new OrderPlacedEvent('order-1', 'sku-b'),
+    );
+    await relay.drainOnce();
+
+    failingSkus.clear();
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + 120000);
+
+    await expect(relay.drainOnce()).resolves.toBe(2);
+    expect(published.map(e => e.data.sku)).toEqual(['sku-a', 'sku-b']);
+  });
+
+  it('should drain in the background until stopped', async () => {
+    await append(new OrderPlacedEvent('order-1', 'sku-a'));
+
+    relay.start();
+    await new Promise(resolve => setTimeout(resolve, 20));
+    await relay.stop();
+
+    expect(published).toHaveLength(1);
+    expect(relay.isRunning()).toBe(false);
+  });
+});
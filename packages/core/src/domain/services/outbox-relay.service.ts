@@ -0,0 +1,323 @@
+import { DomainEvent } from '../domain-event';
+import { IMessageQueue } from '../interfaces/message-queue.interface';
+import { IOutboxStore, OutboxMessage } from '../interfaces/outbox.interface';
+import {
+  EventTypeRegistry,
+  eventTypeRegistry as defaultEventTypeRegistry,
+} from './event-type-registry.service';
+
+/**
+ * @function createOutboxMessages
+ * @description 将领域事件转换为发件箱消息，供仓储在保存聚合根的事务中写入
+ * @param {DomainEvent[]} events 领域事件列表
+ * @param {string} [tenantId] 租户ID，缺省时使用事件元数据中的租户ID
+ * @param {EventTypeRegistry} [registry] 事件类型注册表，默认使用全局注册表
+ * @returns {OutboxMessage[]} 发件箱消息列表
+ */
+export function createOutboxMessages(
+  events: DomainEvent[],
+  tenantId?: string,
+  registry: EventTypeRegistry = defaultEventTypeRegistry,
+): OutboxMessage[] {
+  const now = new Date(Date.now());
+  return events.map(event => {
+    const payload = registry.serialize(event);
+    return {
+      messageId: payload.eventId,
+      aggregateId: payload.aggregateId,
+      eventType: payload.eventType,
+      tenantId: tenantId ?? payload.metadata.tenantId,
+      payload,
+      attempts: 0,
+      createdAt: now,
+      availableAt: now,
+    };
+  });
+}
+
+/**
+ * @class InMemoryOutboxStore
+ * @description 内存发件箱存储，适用于测试和单进程场景
+ */
+export class InMemoryOutboxStore implements IOutboxStore {
+  private readonly messages: OutboxMessage[] = [];
+  private readonly published: Set<string> = new Set();
+  private readonly leases: Map<string, number> = new Map();
+
+  /**
+   * @method append
+   * @description 写入消息，已存在的消息ID会被忽略
+   * @param {OutboxMessage[]} messages 消息列表
+   * @returns {Promise<void>}
+   */
+  async append(messages: OutboxMessage[]): Promise<void> {
+    for (const message of messages) {
+      if (!this.messages.some(m => m.messageId === message.messageId)) {
+        this.messages.push({ ...message });
+      }
+    }
+  }
+
+  async claimPending(limit: number, leaseMs: number): Promise<OutboxMessage[]> {
+    const now = Date.now();
+    const blockedAggregates = new Set<string>();
+    const claimed: OutboxMessage[] = [];
+
+    for (const message of this.messages) {
+      if (this.published.has(message.messageId)) {
+        continue;
+      }
+
+      const leasedUntil = this.leases.get(message.messageId) ?? 0;
+      const available =
+        message.availableAt.getTime() <= now && leasedUntil <= now;
+
+      if (!available || blockedAggregates.has(message.aggregateId)) {
+        blockedAggregates.add(message.aggregateId);
+        continue;
+      }
+
+      if (claimed.length < limit) {
+        claimed.push(message);
+        this.leases.set(message.messageId, now + leaseMs);
+      }
+    }
+
+    return claimed;
+  }
+
+  async markPublished(messageIds: string[]): Promise<void> {
+    for (const messageId of messageIds) {
+      this.published.add(messageId);
+      this.leases.delete(messageId);
+    }
+  }
+
+  async markFailed(
+    messageId: string,
+    error: string,
+    retryAt: Date,
+  ): Promise<void> {
+    const index = this.messages.findIndex(m => m.messageId === messageId);
+    if (index === -1) {
+      return;
+    }
+
+    const message = this.messages[index];
+    this.messages[index] = {
+      ...message,
+      attempts: message.attempts + 1,
+      availableAt: retryAt,
+      lastError: error,
+    };
+    this.leases.delete(messageId);
+  }
+
+  /**
+   * @method getPending
+   * @description 获取尚未投递的消息（仅用于测试和监控）
+   * @returns {OutboxMessage[]} 待投递消息
+   */
+  getPending(): OutboxMessage[] {
+    return this.messages.filter(m => !this.published.has(m.messageId));
+  }
+}
+
+/**
+ * @interface OutboxRelayOptions
+ * @description 发件箱中继配置选项
+ */
+export interface OutboxRelayOptions {
+  readonly batchSize?: number; // 每次占用的消息数量，默认100
+  readonly pollIntervalMs?: number; // 没有消息时的轮询间隔，默认1000
+  readonly leaseMs?: number; // 消息占用时长，默认30000
+  readonly retryDelayMs?: number; // 首次失败后的重试延迟，默认1000
+  readonly maxRetryDelayMs?: number; // 最大重试延迟，默认60000
+}
+
+/**
+ * @class OutboxRelay
+ * @description
+ * 发件箱中继，将发件箱中的消息投递到消息队列。
+ *
+ * 投递语义：
+ * 1. 至少一次：消息投递成功后才标记为已投递，进程在两步之间退出会导致重复投递
+ * 2. 幂等键：消息队列中的事件保留原始事件ID，消费者按事件ID去重
+ * 3. 聚合根内有序：同一聚合根的消息依次投递，某条失败后该聚合根之后的消息等待重试
+ * 4. 失败退避：失败的消息按指数退避延迟重新投递
+ * 5. 原样转发：投递存储的序列化载荷，不反序列化事件，中继进程无需加载事件类
+ *
+ * @param {IOutboxStore} outboxStore 发件箱存储
+ * @param {IMessageQueue} messageQueue 消息队列
+ * @param {OutboxRelayOptions} options 配置选项
+ *
+ * @example
+ * ```typescript
+ * const relay = new OutboxRelay(outboxStore, messageQueue);
+ * relay.start();
+ * // 关闭时
+ * await relay.stop();
+ * ```
+ * @since 1.0.0
+ */
+export class OutboxRelay {
+  private readonly batchSize: number;
+  private readonly pollIntervalMs: number;
+  private readonly leaseMs: number;
+  private readonly retryDelayMs: number;
+  private readonly maxRetryDelayMs: number;
+
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private currentDrain: Promise<unknown> = Promise.resolve();
+  private running = false;
+
+  constructor(
+    private readonly outboxStore: IOutboxStore,
+    private readonly messageQueue: IMessageQueue,
+    options: OutboxRelayOptions = {},
+  ) {
+    this.batchSize = options.batchSize ?? 100;
+    this.pollIntervalMs = options.pollIntervalMs ?? 1000;
+    this.leaseMs = options.leaseMs ?? 30000;
+    this.retryDelayMs = options.retryDelayMs ?? 1000;
+    this.maxRetryDelayMs = options.maxRetryDelayMs ?? 60000;
+  }
+
+  /**
+   * @method start
+   * @description 开始轮询发件箱
+   * @returns {void}
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.scheduleNext(0);
+    console.log('Outbox relay started');
+  }
+
+  /**
+   * @method stop
+   * @description 停止轮询，等待进行中的投递完成
+   * @returns {Promise<void>}
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await this.currentDrain;
+    console.log('Outbox relay stopped');
+  }
+
+  /**
+   * @method isRunning
+   * @description 检查中继是否正在运行
+   * @returns {boolean} 是否正在运行
+   */
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * @method drainOnce
+   * @description 占用一批消息并投递
+   * @returns {Promise<number>} 成功投递的消息数量
+   */
+  async drainOnce(): Promise<number> {
+    const messages = await this.outboxStore.claimPending(
+      this.batchSize,
+      this.leaseMs,
+    );
+    if (messages.length === 0) {
+      return 0;
+    }
+
+    const byAggregate = new Map<string, OutboxMessage[]>();
+    for (const message of messages) {
+      const group = byAggregate.get(message.aggregateId) ?? [];
+      group.push(message);
+      byAggregate.set(message.aggregateId, group);
+    }
+
+    const results = await Promise.all(
+      Array.from(byAggregate.values()).map(group => this.publishInOrder(group)),
+    );
+    return results.reduce((sum, count) => sum + count, 0);
+  }
+
+  /**
+   * @method publishInOrder
+   * @description 依次投递同一聚合根的消息，遇到失败即停止
+   * @param {OutboxMessage[]} messages 同一聚合根的消息
+   * @returns {Promise<number>} 成功投递的消息数量
+   * @private
+   */
+  private async publishInOrder(messages: OutboxMessage[]): Promise<number> {
+    let published = 0;
+
+    for (const message of messages) {
+      try {
+        await this.messageQueue.publishSerializedEvent(message.payload);
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        await this.outboxStore.markFailed(
+          message.messageId,
+          errorMessage,
+          new Date(Date.now() + this.getRetryDelay(message.attempts)),
+        );
+        console.error(
+          `Failed to relay outbox message ${message.messageId} (attempt ${message.attempts + 1}): ${errorMessage}`,
+        );
+        break;
+      }
+
+      await this.outboxStore.markPublished([message.messageId]);
+      published++;
+    }
+
+    return published;
+  }
+
+  /**
+   * @method scheduleNext
+   * @description 安排下一次投递，上一批满载时立即继续
+   * @param {number} delay 延迟（毫秒）
+   * @returns {void}
+   * @private
+   */
+  private scheduleNext(delay: number): void {
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.currentDrain = this.drainOnce()
+        .catch((error: unknown) => {
+          console.error('Outbox relay drain failed:', error);
+          return 0;
+        })
+        .then(published => {
+          if (this.running) {
+            this.scheduleNext(
+              published >= this.batchSize ? 0 : this.pollIntervalMs,
+            );
+          }
+        });
+    }, delay);
+  }
+
+  /**
+   * @method getRetryDelay
+   * @description 计算指数退避的重试延迟
+   * @param {number} attempts 已失败次数
+   * @returns {number} 重试延迟（毫秒）
+   * @private
+   */
+  private getRetryDelay(attempts: number): number {
+    return Math.min(
+      this.retryDelayMs * Math.pow(2, attempts),
+      this.maxRetryDelayMs,
+    );
+  }
+}
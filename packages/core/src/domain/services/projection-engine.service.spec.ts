@@ -0,0 +1,228 @@
+import { describe, it, beforeEach, expect, jest } from '@jest/globals';
+import { DomainEvent } from '../domain-event';
+import { IProjection } from '../interfaces/projection.interface';
+import { EventBusService } from './event-bus.service';
+import { InMemoryEventStore } from './event-store.service';
+import { EventTypeRegistry } from './event-type-registry.service';
+import {
+  InMemoryProjectionCheckpointStore,
+  ProjectionEngine,
+  ProjectionFailedError,
+} from './projection-engine.service';
+
+/**
+ * @class AccountOpenedEvent
+ * @description 测试用账户开立事件
+ */
+class AccountOpenedEvent extends DomainEvent {
+  constructor(
+    aggregateId: string,
+    public readonly owner: string,
+  ) {
+    super(aggregateId);
+  }
+
+  toJSON(): Record<string, unknown> {
+    return { owner: this.owner };
+  }
+}
+
+/**
+ * @class AccountClosedEvent
+ * @description 测试用账户关闭事件
+ */
+class AccountClosedEvent extends DomainEvent {
+  toJSON(): Record<string, unknown> {
+    return {};
+  }
+}
+
+const registry = new EventTypeRegistry()
+  .register(AccountOpenedEvent, {
+    deserialize: ({ aggregateId, data }) =>
+      new AccountOpenedEvent(aggregateId, data.owner as string),
+  })
+  .register(AccountClosedEvent, {
+    deserialize: ({ aggregateId }) => new AccountClosedEvent(aggregateId),
+  });
+
+/**
+ * @class OpenAccountsProjection
+ * @description 测试用读模型：当前开立的账户
+ */
+class OpenAccountsProjection implements IProjection {
+  readonly name = 'open-accounts';
+  readonly eventTypes = ['AccountOpenedEvent', 'AccountClosedEvent'];
+  readonly accounts = new Map<string, string>();
+  failOn?: string;
+
+  async handle(event: DomainEvent): Promise<void> {
+    if (event.aggregateId === this.failOn) {
+      throw new Error(`cannot project ${event.aggregateId}`);
+    }
+    if (event instanceof AccountOpenedEvent) {
+      this.accounts.set(event.aggregateId, event.owner);
+    } else {
+      this.accounts.delete(event.aggregateId);
+    }
+  }
+
+  async reset(): Promise<void> {
+    this.accounts.clear();
+  }
+}
+
+describe('ProjectionEngine', () => {
+  let eventStore: InMemoryEventStore;
+  let checkpointStore: InMemoryProjectionCheckpointStore;
+  let projection: OpenAccountsProjection;
+  let engine: ProjectionEngine;
+
+  const openAccount = async (id: string, owner: string): Promise<void> => {
+    await eventStore.saveEvents(id, [new AccountOpenedEvent(id, owner)], 0);
+  };
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    eventStore = new InMemoryEventStore({ eventTypeRegistry: registry });
+    checkpointStore = new InMemoryProjectionCheckpointStore();
+    projection = new OpenAccountsProjection();
+    engine = new ProjectionEngine(eventStore, checkpointStore, {
+      batchSize: 2,
+      eventTypeRegistry: registry,
+    }).register(projection);
+
+    await openAccount('account-1', 'alice');
+    await openAccount('account-2', 'bob');
+    await openAccount('account-3', 'carol');
+  });
+
+  it('should process events in batches and store the checkpoint', async () => {
+    await expect(engine.catchUp('open-accounts')).resolves.toBe(3);
+
+    expect(Array.from(projection.accounts.values())).toEqual([
+      'alice',
+      'bob',
+      'carol',
+    ]);
+    await expect(checkpointStore.load('open-accounts')).resolves.toMatchObject({
+      position: 3,
+    });
+  });
+
+  it('should resume from the stored checkpoint after a restart', async () => {
+    await engine.catchUp('open-accounts');
+    await eventStore.saveEvents(
+      'account-1',
+      [new AccountClosedEvent('account-1')],
+      1,
+    );
+
+    const restartedProjection = new OpenAccountsProjection();
+    const restarted = new ProjectionEngine(eventStore, checkpointStore, {
+      eventTypeRegistry: registry,
+    }).register(restartedProjection);
+
+    await expect(restarted.catchUp('open-accounts')).resolves.toBe(1);
+    expect(restartedProjection.accounts.size).toBe(0);
+  });
+
+  it('should rebuild a projection from zero', async () => {
+    await engine.catchUp('open-accounts');
+    projection.accounts.set('stale', 'mallory');
+
+    await expect(engine.rebuild('open-accounts')).resolves.toBe(3);
+
+    expect(projection.accounts.has('stale')).toBe(false);
+    expect(projection.accounts.size).toBe(3);
+  });
+
+  it('should refuse to rebuild when events have been archived', async () => {
+    await engine.catchUp('open-accounts');
+    jest.spyOn(eventStore, 'hasArchivedEvents').mockResolvedValue(true);
+
+    await expect(engine.rebuild('open-accounts')).rejects.toThrow(
+      'Cannot rebuild projection open-accounts: the event store has archived events',
+    );
+
+    expect(projection.accounts.size).toBe(3);
+    await expect(checkpointStore.load('open-accounts')).resolves.toMatchObject({
+      position: 3,
+    });
+    await expect(engine.getStatus('open-accounts')).resolves.toMatchObject({
+      state: 'idle',
+    });
+  });
+
+  it('should report lag until the projection catches up', async () => {
+    await expect(engine.getStatus('open-accounts')).resolves.toMatchObject({
+      state: 'idle',
+      position: 0,
+      lag: 3,
+    });
+
+    await engine.catchUp('open-accounts');
+
+    await expect(engine.getStatus('open-accounts')).resolves.toMatchObject({
+      state: 'idle',
+      position: 3,
+      lag: 0,
+      eventsProcessed: 3,
+    });
+  });
+
+  it('should keep the checkpoint at the last successful event on failure', async () => {
+    projection.failOn = 'account-2';
+
+    await expect(engine.catchUp('open-accounts')).rejects.toBeInstanceOf(
+      ProjectionFailedError,
+    );
+    await expect(engine.getStatus('open-accounts')).resolves.toMatchObject({
+      state: 'failed',
+      position: 1,
+      lag: 2,
+      lastError: 'cannot project account-2',
+    });
+
+    projection.failOn = undefined;
+    await expect(engine.catchUp('open-accounts')).resolves.toBe(2);
+    expect(projection.accounts.size).toBe(3);
+  });
+
+  it('should follow new events published on the event bus', async () => {
+    const eventBus = new EventBusService(eventStore, {
+      maxConcurrentHandlers: 1,
+      defaultRetryPolicy: {
+        maxRetries: 0,
+        retryDelay: 0,
+        backoffMultiplier: 1,
+        maxRetryDelay: 0,
+      },
+      enableDeadLetterQueue: false,
+      deadLetterQueueRetentionDays: 1,
+      enableEventOrdering: true,
+      enableEventDeduplication: false,
+    });
+    await eventBus.start();
+    await engine.start(eventBus);
+    expect(projection.accounts.size).toBe(3);
+
+    await eventBus.publish(new AccountOpenedEvent('account-4', 'dave'));
+
+    expect(projection.accounts.get('account-4')).toBe('dave');
+    await expect(engine.getStatus('open-accounts')).resolves.toMatchObject({
+      live: true,
+      lag: 0,
+    });
+
+    await engine.stop();
+    await expect(eventBus.getSubscriptions()).resolves.toHaveLength(0);
+  });
+
+  it('should reject duplicate projection names', () => {
+    expect(() => engine.register(new OpenAccountsProjection())).toThrow(
+      'already registered',
+    );
+  });
+});
@@ -0,0 +1,489 @@
+import { DomainEvent } from '../domain-event';
+import { IEventBus } from '../interfaces/event-bus.interface';
+import { IEventHandler } from '../interfaces/event-handler.interface';
+import { IEventStore, StoredEvent } from '../interfaces/event-store.interface';
+import {
+  IProjection,
+  IProjectionCheckpointStore,
+  ProjectionCheckpoint,
+  ProjectionState,
+  ProjectionStatus,
+} from '../interfaces/projection.interface';
+import {
+  EventTypeRegistry,
+  eventTypeRegistry as defaultEventTypeRegistry,
+} from './event-type-registry.service';
+
+/**
+ * @class ProjectionFailedError
+ * @description 投影处理事件失败时抛出的错误，检查点停留在最后一个成功处理的事件
+ */
+export class ProjectionFailedError extends Error {
+  constructor(
+    public readonly projectionName: string,
+    public readonly position: number,
+    public readonly cause: unknown,
+  ) {
+    super(
+      `Projection ${projectionName} failed after position ${position}: ${cause instanceof Error ? cause.message : String(cause)}`,
+    );
+    this.name = 'ProjectionFailedError';
+  }
+}
+
+/**
+ * @class InMemoryProjectionCheckpointStore
+ * @description 内存检查点存储，适用于测试和单进程场景
+ */
+export class InMemoryProjectionCheckpointStore
+  implements IProjectionCheckpointStore
+{
+  private readonly checkpoints: Map<string, ProjectionCheckpoint> = new Map();
+
+  async load(projectionName: string): Promise<ProjectionCheckpoint | null> {
+    return this.checkpoints.get(projectionName) ?? null;
+  }
+
+  async save(checkpoint: ProjectionCheckpoint): Promise<void> {
+    this.checkpoints.set(checkpoint.projectionName, { ...checkpoint });
+  }
+
+  async delete(projectionName: string): Promise<void> {
+    this.checkpoints.delete(projectionName);
+  }
+}
+
+/**
+ * @interface ProjectionEngineOptions
+ * @description 投影引擎配置选项
+ */
+export interface ProjectionEngineOptions {
+  /**
+   * 每批读取的事件数量，每批处理后保存一次检查点，默认100
+   */
+  readonly batchSize?: number;
+
+  /**
+   * 事件类型注册表，默认使用全局注册表
+   */
+  readonly eventTypeRegistry?: EventTypeRegistry;
+}
+
+/**
+ * @interface ProjectionRuntime
+ * @description 投影在本进程内的运行信息
+ */
+interface ProjectionRuntime {
+  readonly projection: IProjection;
+  state: ProjectionState;
+  eventsProcessed: number;
+  lastProcessedAt?: Date;
+  lastError?: string;
+  run: Promise<unknown>;
+}
+
+/**
+ * @class ProjectionEngine
+ * @description
+ * 投影引擎，从事件存储按全局位置读取事件，驱动已注册的投影构建读模型。
+ *
+ * 运行机制：
+ * 1. 每个投影按名称保存检查点（已处理到的全局位置）
+ * 2. 追赶时从检查点之后分批读取订阅的事件类型，每批处理后保存检查点
+ * 3. 重启后从检查点继续，重建时清空读模型和检查点后从零开始
+ * 4. 启动后订阅事件总线，新事件发布后触发增量追赶
+ *
+ * 一致性保证：
+ * 1. 同一投影的追赶串行执行，事件按全局位置顺序处理
+ * 2. 处理失败时检查点停留在最后一个成功的事件，之后的事件不会被跳过
+ * 3. 总线通知只作为触发信号，事件总是从事件存储读取
+ *
+ * 注意：只读取热存储中的事件。事件存储中有已归档的事件时拒绝重建，
+ * 否则重建后的读模型会缺少归档事件的影响。
+ *
+ * @param {IEventStore} eventStore 事件存储
+ * @param {IProjectionCheckpointStore} checkpointStore 检查点存储
+ * @param {ProjectionEngineOptions} options 配置选项
+ *
+ * @example
+ * ```typescript
+ * const engine = new ProjectionEngine(eventStore, checkpointStore);
+ * engine.register(new TenantListProjection(readModel));
+ *
+ * await engine.start(eventBus);
+ * const status = await engine.getStatus('tenant-list');
+ * ```
+ * @since 1.0.0
+ */
+export class ProjectionEngine {
+  private readonly projections: Map<string, ProjectionRuntime> = new Map();
+  private readonly subscriptionIds: string[] = [];
+  private readonly batchSize: number;
+  private readonly eventTypeRegistry: EventTypeRegistry;
+  private eventBus: IEventBus | null = null;
+
+  constructor(
+    private readonly eventStore: IEventStore,
+    private readonly checkpointStore: IProjectionCheckpointStore,
+    options: ProjectionEngineOptions = {},
+  ) {
+    this.batchSize = options.batchSize ?? 100;
+    this.eventTypeRegistry =
+      options.eventTypeRegistry ?? defaultEventTypeRegistry;
+    if (this.batchSize < 1) {
+      throw new Error('batchSize must be at least 1');
+    }
+  }
+
+  /**
+   * @method register
+   * @description 注册投影，需在start之前调用
+   * @param {IProjection} projection 投影
+   * @returns {this} 投影引擎本身，便于链式调用
+   * @throws {Error} 当投影名称重复或引擎已启动时抛出
+   */
+  register(projection: IProjection): this {
+    if (this.eventBus) {
+      throw new Error('Cannot register projections after the engine started');
+    }
+    if (this.projections.has(projection.name)) {
+      throw new Error(`Projection ${projection.name} is already registered`);
+    }
+    if (projection.eventTypes.length === 0) {
+      throw new Error(
+        `Projection ${projection.name} must subscribe to at least one event type`,
+      );
+    }
+
+    this.projections.set(projection.name, {
+      projection,
+      state: 'idle',
+      eventsProcessed: 0,
+      run: Promise.resolve(),
+    });
+    return this;
+  }
+
+  /**
+   * @method start
+   * @description 追赶所有投影并订阅事件总线，之后新发布的事件会触发增量追赶
+   * @param {IEventBus} eventBus 事件总线
+   * @returns {Promise<void>}
+   */
+  async start(eventBus: IEventBus): Promise<void> {
+    if (this.eventBus) {
+      return;
+    }
+    this.eventBus = eventBus;
+
+    const eventTypes = new Set(
+      Array.from(this.projections.values()).flatMap(
+        runtime => runtime.projection.eventTypes,
+      ),
+    );
+    for (const eventType of eventTypes) {
+      this.subscriptionIds.push(
+        await eventBus.subscribe(eventType, this.createTrigger(eventType)),
+      );
+    }
+
+    await this.catchUpAll();
+    console.log(
+      `Projection engine started with ${this.projections.size} projections`,
+    );
+  }
+
+  /**
+   * @method stop
+   * @description 取消事件总线订阅，等待进行中的追赶完成
+   * @returns {Promise<void>}
+   */
+  async stop(): Promise<void> {
+    if (!this.eventBus) {
+      return;
+    }
+
+    for (const subscriptionId of this.subscriptionIds.splice(0)) {
+      await this.eventBus.unsubscribe(subscriptionId);
+    }
+    this.eventBus = null;
+
+    await Promise.allSettled(
+      Array.from(this.projections.values()).map(runtime => runtime.run),
+    );
+    console.log('Projection engine stopped');
+  }
+
+  /**
+   * @method catchUp
+   * @description 处理投影检查点之后的所有事件
+   * @param {string} projectionName 投影名称
+   * @returns {Promise<number>} 本次处理的事件数量
+   * @throws {ProjectionFailedError} 当投影处理事件失败时抛出
+   */
+  async catchUp(projectionName: string): Promise<number> {
+    const runtime = this.getRuntime(projectionName);
+    return this.schedule(runtime, () => this.processPending(runtime));
+  }
+
+  /**
+   * @method catchUpAll
+   * @description 追赶所有已注册的投影，单个投影失败不影响其他投影
+   * @returns {Promise<void>}
+   */
+  async catchUpAll(): Promise<void> {
+    const results = await Promise.allSettled(
+      Array.from(this.projections.keys()).map(name => this.catchUp(name)),
+    );
+    for (const result of results) {
+      if (result.status === 'rejected') {
+        console.error('Projection catch-up failed:', result.reason);
+      }
+    }
+  }
+
+  /**
+   * @method rebuild
+   * @description 清空读模型和检查点，从零开始重建投影
+   * @param {string} projectionName 投影名称
+   * @returns {Promise<number>} 重建时处理的事件数量
+   * @throws {ProjectionFailedError} 当投影处理事件失败时抛出
+   * @throws {Error} 当事件存储中有已归档的事件时抛出，读模型和检查点保持不变
+   */
+  async rebuild(projectionName: string): Promise<number> {
+    const runtime = this.getRuntime(projectionName);
+    return this.schedule(runtime, async () => {
+      if (await this.eventStore.hasArchivedEvents()) {
+        throw new Error(
+          `Cannot rebuild projection ${projectionName}: the event store has archived events that rebuilds do not replay`,
+        );
+      }
+
+      runtime.state = 'rebuilding';
+      await runtime.projection.reset();
+      await this.checkpointStore.delete(projectionName);
+      runtime.eventsProcessed = 0;
+      runtime.lastError = undefined;
+      return this.processPending(runtime);
+    });
+  }
+
+  /**
+   * @method getStatus
+   * @description 获取投影的状态和延迟
+   * @param {string} projectionName 投影名称
+   * @returns {Promise<ProjectionStatus>} 投影状态
+   */
+  async getStatus(projectionName: string): Promise<ProjectionStatus> {
+    const runtime = this.getRuntime(projectionName);
+    const position = await this.loadPosition(projectionName);
+    const pending = await this.eventStore.queryEvents({
+      eventTypes: runtime.projection.eventTypes,
+      afterPosition: position,
+      limit: 0,
+    });
+
+    return {
+      name: projectionName,
+      state: runtime.state,
+      position,
+      lag: pending.totalCount,
+      eventsProcessed: runtime.eventsProcessed,
+      live: this.eventBus !== null,
+      lastProcessedAt: runtime.lastProcessedAt,
+      lastError: runtime.lastError,
+    };
+  }
+
+  /**
+   * @method getStatuses
+   * @description 获取所有投影的状态
+   * @returns {Promise<ProjectionStatus[]>} 投影状态列表
+   */
+  async getStatuses(): Promise<ProjectionStatus[]> {
+    return Promise.all(
+      Array.from(this.projections.keys()).map(name => this.getStatus(name)),
+    );
+  }
+
+  /**
+   * @method processPending
+   * @description 分批处理检查点之后的事件，每批处理后保存检查点
+   * @param {ProjectionRuntime} runtime 投影运行信息
+   * @returns {Promise<number>} 处理的事件数量
+   * @private
+   */
+  private async processPending(runtime: ProjectionRuntime): Promise<number> {
+    const { projection } = runtime;
+    let position = await this.loadPosition(projection.name);
+    let processed = 0;
+
+    if (runtime.state !== 'rebuilding') {
+      runtime.state = 'catching-up';
+    }
+
+    try {
+      for (;;) {
+        const batch = await this.eventStore.queryEvents({
+          eventTypes: projection.eventTypes,
+          afterPosition: position,
+          limit: this.batchSize,
+        });
+        if (batch.events.length === 0) {
+          break;
+        }
+
+        try {
+          for (const storedEvent of batch.events) {
+            const eventPosition = this.getPosition(storedEvent);
+            await projection.handle(
+              this.deserialize(storedEvent),
+              eventPosition,
+            );
+            position = eventPosition;
+            processed++;
+            runtime.eventsProcessed++;
+            runtime.lastProcessedAt = new Date();
+          }
+        } finally {
+          await this.saveCheckpoint(projection.name, position);
+        }
+
+        if (!batch.hasMore) {
+          break;
+        }
+      }
+    } catch (error) {
+      runtime.state = 'failed';
+      runtime.lastError =
+        error instanceof Error ? error.message : String(error);
+      throw new ProjectionFailedError(projection.name, position, error);
+    }
+
+    runtime.state = 'idle';
+    runtime.lastError = undefined;
+    return processed;
+  }
+
+  /**
+   * @method schedule
+   * @description 将任务追加到投影的执行队列，保证同一投影串行处理
+   * @param {ProjectionRuntime} runtime 投影运行信息
+   * @param {() => Promise<number>} task 任务
+   * @returns {Promise<number>} 任务结果
+   * @private
+   */
+  private schedule(
+    runtime: ProjectionRuntime,
+    task: () => Promise<number>,
+  ): Promise<number> {
+    const run = runtime.run.then(task);
+    runtime.run = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * @method createTrigger
+   * @description 创建事件总线处理器，收到事件后追赶订阅了该类型的投影
+   * @param {string} eventType 事件类型
+   * @returns {IEventHandler} 事件处理器
+   * @private
+   */
+  private createTrigger(eventType: string): IEventHandler {
+    const projectionNames = Array.from(this.projections.values())
+      .filter(runtime => runtime.projection.eventTypes.includes(eventType))
+      .map(runtime => runtime.projection.name);
+
+    return {
+      handle: async (): Promise<void> => {
+        await Promise.all(projectionNames.map(name => this.catchUp(name)));
+      },
+      canHandle: (type: string): boolean => type === eventType,
+      getEventType: (): string => eventType,
+      getHandlerName: (): string => `ProjectionEngine:${eventType}`,
+    };
+  }
+
+  /**
+   * @method loadPosition
+   * @description 读取投影的检查点位置，没有检查点时为0
+   * @param {string} projectionName 投影名称
+   * @returns {Promise<number>} 检查点位置
+   * @private
+   */
+  private async loadPosition(projectionName: string): Promise<number> {
+    const checkpoint = await this.checkpointStore.load(projectionName);
+    return checkpoint?.position ?? 0;
+  }
+
+  /**
+   * @method saveCheckpoint
+   * @description 保存投影检查点
+   * @param {string} projectionName 投影名称
+   * @param {number} position 全局位置
+   * @returns {Promise<void>}
+   * @private
+   */
+  private async saveCheckpoint(
+    projectionName: string,
+    position: number,
+  ): Promise<void> {
+    await this.checkpointStore.save({
+      projectionName,
+      position,
+      updatedAt: new Date(),
+    });
+  }
+
+  /**
+   * @method getPosition
+   * @description 读取存储事件的全局位置
+   * @param {StoredEvent} storedEvent 存储事件
+   * @returns {number} 全局位置
+   * @throws {Error} 当事件存储没有分配全局位置时抛出
+   * @private
+   */
+  private getPosition(storedEvent: StoredEvent): number {
+    if (storedEvent.globalPosition === undefined) {
+      throw new Error(
+        `Event ${storedEvent.eventId} has no global position; the event store must assign positions to support projections`,
+      );
+    }
+    return storedEvent.globalPosition;
+  }
+
+  /**
+   * @method deserialize
+   * @description 将存储事件还原为领域事件
+   * @param {StoredEvent} storedEvent 存储事件
+   * @returns {DomainEvent} 领域事件
+   * @private
+   */
+  private deserialize(storedEvent: StoredEvent): DomainEvent {
+    return this.eventTypeRegistry.deserialize({
+      eventId: storedEvent.eventId,
+      eventType: storedEvent.eventType,
+      schemaVersion: storedEvent.schemaVersion ?? 1,
+      aggregateId: storedEvent.aggregateId,
+      occurredOn: storedEvent.occurredOn,
+      metadata: storedEvent.metadata,
+      data: storedEvent.eventData,
+    });
+  }
+
+  /**
+   * @method getRuntime
+   * @description 获取投影运行信息
+   * @param {string} projectionName 投影名称
+   * @returns {ProjectionRuntime} 投影运行信息
+   * @throws {Error} 当投影未注册时抛出
+   * @private
+   */
+  private getRuntime(projectionName: string): ProjectionRuntime {
+    const runtime = this.projections.get(projectionName);
+    if (!runtime) {
+      throw new Error(`Projection not found: ${projectionName}`);
+    }
+    return runtime;
+  }
+}
@@ -20,7 +20,7 @@ export { EventSourcedAggregateRoot } from './domain/base/event-sourced-aggregate
 export { BaseEventHandler } from './domain/base/base-event-handler';
 
 // 领域事件
-export { DomainEvent } from './domain/domain-event';
+export { DomainEvent, DomainEventIdentity } from './domain/domain-event';
 
 // 通用值对象
 export { ValueObject } from './domain/value-object';
@@ -29,9 +29,35 @@ export { generateUUID, validateUUID } from './domain/utils/uuid';
 // 事件驱动架构接口
 export * from './domain/interfaces';
 
+// 事件类型注册表与升级器链
+export * from './domain/services/event-type-registry.service';
+export * from './domain/services/event-upcaster.service';
+
+// 乐观并发冲突
+export * from './domain/services/conflict-resolver.service';
+
+// 消息队列
+export * from './domain/services/message-queue.service';
+
+// 事件归档、投影与发件箱
+export * from './domain/services/file-system-event-archive.service';
+export * from './domain/services/projection-engine.service';
+export * from './domain/services/outbox-relay.service';
+
+// 事件溯源仓储
+export * from './domain/repositories/event-sourced.repository';
+
 // 应用层接口和基类
 export { IUseCase } from './application/use-cases/use-case.interface';
 export { ICommandHandler } from './application/handlers/command-handler.interface';
 export { IQueryHandler } from './application/handlers/query-handler.interface';
 export { BaseCommandHandler } from './application/handlers/base-command-handler';
+export * from './application/handlers/command-retry-policy';
 export { BaseQueryHandler } from './application/handlers/base-query-handler';
+export {
+  CommandDispatcher,
+  CommandHandlerNotFoundError,
+} from './application/handlers/command-dispatcher';
+
+// Saga（流程管理器）
+export * from './application/sagas';
@@ -0,0 +1,6 @@
+-- 租户隔离策略分配（TenantStrategyStore）
+CREATE TABLE IF NOT EXISTS tenant_isolation_strategies (
+    tenant_id TEXT PRIMARY KEY,
+    strategy TEXT NOT NULL,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
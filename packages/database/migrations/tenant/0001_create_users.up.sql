@@ -0,0 +1,32 @@
+-- 用户表（UserPostgreSQLEntity）
+-- 已由初始化脚本创建的环境只补齐缺少的列和索引
+CREATE TABLE IF NOT EXISTS users (
+    id UUID PRIMARY KEY,
+    email VARCHAR(255) NOT NULL,
+    password_hash VARCHAR(255) NOT NULL,
+    first_name VARCHAR(100) NOT NULL,
+    last_name VARCHAR(100) NOT NULL,
+    status VARCHAR(20) NOT NULL,
+    tenant_id UUID,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    created_by VARCHAR(255),
+    updated_by VARCHAR(255)
+);
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS phone_number VARCHAR(20);
+ALTER TABLE users ADD COLUMN IF NOT EXISTS avatar VARCHAR(500);
+ALTER TABLE users ADD COLUMN IF NOT EXISTS platform_id UUID;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS organization_id UUID;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS department_id UUID;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS theme VARCHAR(50) NOT NULL DEFAULT 'light';
+ALTER TABLE users ADD COLUMN IF NOT EXISTS language VARCHAR(10) NOT NULL DEFAULT 'zh-CN';
+ALTER TABLE users ADD COLUMN IF NOT EXISTS timezone VARCHAR(50) NOT NULL DEFAULT 'Asia/Shanghai';
+ALTER TABLE users ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+CREATE UNIQUE INDEX IF NOT EXISTS users_email_tenant_id_unique ON users (email, tenant_id);
+CREATE INDEX IF NOT EXISTS users_tenant_id_status_created_at_index ON users (tenant_id, status, created_at);
+CREATE INDEX IF NOT EXISTS users_platform_id_status_index ON users (platform_id, status);
+CREATE INDEX IF NOT EXISTS users_organization_id_status_index ON users (organization_id, status);
+CREATE INDEX IF NOT EXISTS users_department_id_status_index ON users (department_id, status);
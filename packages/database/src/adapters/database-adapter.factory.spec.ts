@@ -19,6 +19,8 @@ const MockedPostgreSQLAdapter = PostgreSQLAdapter as jest.MockedClass<
 describe('DatabaseAdapterFactory', () => {
   let factory: DatabaseAdapterFactory;
   let isolationConfig: IsolationConfigService;
+  const eventEmitter = { emit: jest.fn() } as any;
+  const logger = { debug: jest.fn(), error: jest.fn() } as any;
 
   beforeEach(async () => {
     // 创建mock ConfigService
@@ -28,19 +30,14 @@ describe('DatabaseAdapterFactory', () => {
 
     // 直接实例化服务以避免循环依赖
     isolationConfig = new IsolationConfigService(mockConfigService as any);
-    factory = new DatabaseAdapterFactory(isolationConfig);
+    factory = new DatabaseAdapterFactory(isolationConfig, eventEmitter, logger);
 
     // 重置 mock
     MockedPostgreSQLAdapter.mockClear();
   });
 
   describe('createAdapter', () => {
-    it('should create database level adapter', () => {
-      const mockAdapter = {
-        setTenantContext: jest.fn(),
-      } as any;
-      MockedPostgreSQLAdapter.mockImplementation(() => mockAdapter);
-
+    it('should require the tenant pool registry for database level isolation', () => {
       jest
         .spyOn(isolationConfig, 'getStrategy')
         .mockReturnValue(IsolationStrategy.DATABASE_LEVEL);
@@ -49,28 +46,42 @@ describe('DatabaseAdapterFactory', () => {
         tenantId: 'tenant-123',
       });
 
-      const adapter = factory.createAdapter('tenant-123');
+      expect(() => factory.createAdapter('tenant-123')).toThrow(
+        'requires a TenantDatabaseRegistry',
+      );
+      expect(MockedPostgreSQLAdapter).not.toHaveBeenCalled();
+    });
 
-      expect(MockedPostgreSQLAdapter).toHaveBeenCalledWith(
-        expect.objectContaining({
-          type: 'postgresql',
-          host: 'localhost',
-          port: 5432,
-          database: 'tenant_db',
-          username: 'aiofix_user',
-          password: 'aiofix_password',
-        }),
-        null,
-        null,
-        null,
+    it('should reuse tenant pools from the registry for database level isolation', () => {
+      const pooledAdapter = { name: 'tenant-db:tenant-123' } as any;
+      const registry = { get: jest.fn().mockReturnValue(pooledAdapter) };
+      factory = new DatabaseAdapterFactory(
+        isolationConfig,
+        eventEmitter,
+        logger,
+        registry as any,
       );
-      expect(adapter).toBe(mockAdapter);
+
+      jest
+        .spyOn(isolationConfig, 'getStrategy')
+        .mockReturnValue(IsolationStrategy.DATABASE_LEVEL);
+      jest.spyOn(isolationConfig, 'getConnectionConfig').mockReturnValue({
+        database: 'tenant_db',
+        tenantId: 'tenant-123',
+      });
+
+      expect(factory.createAdapter('tenant-123')).toBe(pooledAdapter);
+      expect(registry.get).toHaveBeenCalledWith('tenant-123');
+      expect(MockedPostgreSQLAdapter).not.toHaveBeenCalled();
     });
 
-    it('should create schema level adapter', () => {
+    it('should create schema level adapters sharing one pool per database', () => {
+      const views = [{ name: 'view-1' }, { name: 'view-2' }];
       const mockAdapter = {
-        setDefaultSchema: jest.fn(),
-        setTenantContext: jest.fn(),
+        withTenantContext: jest
+          .fn()
+          .mockReturnValueOnce(views[0])
+          .mockReturnValueOnce(views[1]),
       } as any;
       MockedPostgreSQLAdapter.mockImplementation(() => mockAdapter);
 
@@ -84,57 +95,60 @@ describe('DatabaseAdapterFactory', () => {
       });
 
       const adapter = factory.createAdapter('tenant-123');
+      const again = factory.createAdapter('tenant-123');
 
+      expect(MockedPostgreSQLAdapter).toHaveBeenCalledTimes(1);
       expect(MockedPostgreSQLAdapter).toHaveBeenCalledWith(
         expect.objectContaining({
           type: 'postgresql',
           database: 'platform_db',
         }),
-        null,
-        null,
-        null,
-      );
-      expect(mockAdapter.setDefaultSchema).toHaveBeenCalledWith(
-        'tenant_schema',
+        'platform_db',
+        eventEmitter,
+        logger,
       );
-      expect(mockAdapter.setTenantContext).toHaveBeenCalledWith('tenant-123');
+      expect(mockAdapter.withTenantContext).toHaveBeenCalledWith({
+        schema: 'tenant_schema',
+        tenantId: 'tenant-123',
+      });
+      expect(adapter).toBe(views[0]);
+      expect(again).toBe(views[1]);
     });
 
-    it('should create table level adapter', () => {
+    it('should create table level adapters sharing one pool per database', () => {
       const mockAdapter = {
-        setTenantContext: jest.fn(),
-        enableRowLevelSecurity: jest.fn(),
+        withTenantContext: jest.fn().mockReturnValue({ name: 'view' }),
       } as any;
       MockedPostgreSQLAdapter.mockImplementation(() => mockAdapter);
 
       jest
         .spyOn(isolationConfig, 'getStrategy')
         .mockReturnValue(IsolationStrategy.TABLE_LEVEL);
-      jest.spyOn(isolationConfig, 'getConnectionConfig').mockReturnValue({
-        database: 'platform_db',
-        tenantId: 'tenant-123',
-      });
+      jest
+        .spyOn(isolationConfig, 'getConnectionConfig')
+        .mockImplementation((tenantId?: string) => ({
+          database: 'platform_db',
+          tenantId,
+        }));
       jest.spyOn(isolationConfig, 'shouldEnableRLS').mockReturnValue(true);
 
-      const adapter = factory.createAdapter('tenant-123');
+      factory.createAdapter('tenant-123');
+      factory.createAdapter('tenant-456');
 
-      expect(MockedPostgreSQLAdapter).toHaveBeenCalledWith(
-        expect.objectContaining({
-          type: 'postgresql',
-          database: 'platform_db',
-        }),
-        null,
-        null,
-        null,
-      );
-      expect(mockAdapter.setTenantContext).toHaveBeenCalledWith('tenant-123');
-      expect(mockAdapter.enableRowLevelSecurity).toHaveBeenCalled();
+      expect(MockedPostgreSQLAdapter).toHaveBeenCalledTimes(1);
+      expect(mockAdapter.withTenantContext).toHaveBeenNthCalledWith(1, {
+        tenantId: 'tenant-123',
+        rowLevelSecurity: true,
+      });
+      expect(mockAdapter.withTenantContext).toHaveBeenNthCalledWith(2, {
+        tenantId: 'tenant-456',
+        rowLevelSecurity: true,
+      });
     });
 
     it('should not enable RLS when configured to disable', () => {
       const mockAdapter = {
-        setTenantContext: jest.fn(),
-        enableRowLevelSecurity: jest.fn(),
+        withTenantContext: jest.fn().mockReturnValue({ name: 'view' }),
       } as any;
       MockedPostgreSQLAdapter.mockImplementation(() => mockAdapter);
 
@@ -149,8 +163,10 @@ describe('DatabaseAdapterFactory', () => {
 
       factory.createAdapter('tenant-123');
 
-      expect(mockAdapter.setTenantContext).toHaveBeenCalledWith('tenant-123');
-      expect(mockAdapter.enableRowLevelSecurity).not.toHaveBeenCalled();
+      expect(mockAdapter.withTenantContext).toHaveBeenCalledWith({
+        tenantId: 'tenant-123',
+        rowLevelSecurity: false,
+      });
     });
 
     it('should throw error for unsupported strategy', () => {
@@ -184,9 +200,9 @@ describe('DatabaseAdapterFactory', () => {
           username: 'aiofix_user',
           password: 'aiofix_password',
         }),
-        null,
-        null,
-        null,
+        'platform_db',
+        eventEmitter,
+        logger,
       );
       expect(adapter).toBe(mockAdapter);
     });
@@ -212,9 +228,9 @@ describe('DatabaseAdapterFactory', () => {
           username: 'aiofix_user',
           password: 'aiofix_password',
         }),
-        null,
-        null,
-        null,
+        'events_db',
+        eventEmitter,
+        logger,
       );
       expect(adapter).toBe(mockAdapter);
     });
@@ -240,9 +256,9 @@ describe('DatabaseAdapterFactory', () => {
           username: 'aiofix_user',
           password: 'aiofix_password',
         }),
-        null,
-        null,
-        null,
+        'ai_vectors_db',
+        eventEmitter,
+        logger,
       );
       expect(adapter).toBe(mockAdapter);
     });
@@ -272,9 +288,9 @@ describe('DatabaseAdapterFactory', () => {
           username: 'ai_user',
           password: 'ai_password',
         }),
-        null,
-        null,
-        null,
+        'ai_vectors_db',
+        eventEmitter,
+        logger,
       );
 
       // 清理环境变量
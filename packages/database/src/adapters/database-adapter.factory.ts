@@ -3,19 +3,42 @@
  * @description 根据隔离策略配置动态创建数据库适配器
  */
 
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { PinoLoggerService } from '@aiofix/logging';
 import {
   IsolationConfigService,
   IsolationStrategy,
 } from '../config/isolation.config';
 import { PostgreSQLAdapter } from './postgresql.adapter';
-import { IDatabaseAdapter } from '../interfaces/database.interface';
+import {
+  DatabaseConfig,
+  IDatabaseAdapter,
+} from '../interfaces/database.interface';
+import type { TenantDatabaseRegistry } from '../tenancy/tenant-database.registry';
 
 /**
  * @class DatabaseAdapterFactory
  * @description 数据库适配器工厂类
+ *
+ * 创建的适配器使用注入的事件发射器和日志服务。
+ *
+ * 数据库级隔离的租户适配器必须从租户连接池注册表获取：同一租户复用同一个连接池，
+ * 所有租户的连接总数受注册表限制。未提供注册表时创建租户适配器会抛出错误，
+ * 避免每次调用都新建连接池。
+ *
+ * Schema级和表级隔离的租户共用平台数据库：每个数据库只创建一个适配器（连接池），
+ * 每个租户得到共享该连接池的适配器视图，视图带有租户自己的默认Schema、租户上下文和RLS设置。
  */
 export class DatabaseAdapterFactory {
-  constructor(private readonly isolationConfig: IsolationConfigService) {}
+  /** 按数据库名缓存的共享适配器 */
+  private readonly sharedAdapters = new Map<string, PostgreSQLAdapter>();
+
+  constructor(
+    private readonly isolationConfig: IsolationConfigService,
+    private readonly eventEmitter: EventEmitter2,
+    private readonly logger: PinoLoggerService,
+    private readonly tenantDatabases?: TenantDatabaseRegistry,
+  ) {}
 
   /**
    * @method createAdapter
@@ -24,7 +47,7 @@ export class DatabaseAdapterFactory {
    * @returns {IDatabaseAdapter} 数据库适配器实例
    */
   createAdapter(tenantId?: string): IDatabaseAdapter {
-    const strategy = this.isolationConfig.getStrategy();
+    const strategy = this.isolationConfig.getStrategy(tenantId);
     const connectionConfig = this.isolationConfig.getConnectionConfig(tenantId);
 
     switch (strategy) {
@@ -47,32 +70,23 @@ export class DatabaseAdapterFactory {
    * @description 创建数据库级隔离适配器
    * @param {object} connectionConfig 连接配置
    * @returns {IDatabaseAdapter} 数据库适配器
+   * @throws {Error} 创建租户适配器但未提供租户连接池注册表时抛出
    * @private
    */
   private createDatabaseLevelAdapter(connectionConfig: {
     database: string;
     tenantId?: string;
   }): IDatabaseAdapter {
-    const adapter = new PostgreSQLAdapter(
-      {
-        type: 'postgresql',
-        host: process.env.POSTGRES_HOST ?? 'localhost',
-        port: parseInt(process.env.POSTGRES_PORT ?? '5432'),
-        database: connectionConfig.database,
-        username: process.env.POSTGRES_USER ?? 'aiofix_user',
-        password: process.env.POSTGRES_PASSWORD ?? 'aiofix_password',
-      },
-      null as any,
-      null as any,
-      null as any,
-    );
-
-    // 为数据库级隔离添加租户上下文
     if (connectionConfig.tenantId) {
-      adapter.setTenantContext(connectionConfig.tenantId);
+      if (!this.tenantDatabases) {
+        throw new Error(
+          'Database-level isolation requires a TenantDatabaseRegistry to create tenant adapters',
+        );
+      }
+      return this.tenantDatabases.get(connectionConfig.tenantId);
     }
 
-    return adapter;
+    return this.sharedAdapter(connectionConfig.database);
   }
 
   /**
@@ -87,31 +101,11 @@ export class DatabaseAdapterFactory {
     schema?: string;
     tenantId?: string;
   }): IDatabaseAdapter {
-    const adapter = new PostgreSQLAdapter(
-      {
-        type: 'postgresql',
-        host: process.env.POSTGRES_HOST ?? 'localhost',
-        port: parseInt(process.env.POSTGRES_PORT ?? '5432'),
-        database: connectionConfig.database,
-        username: process.env.POSTGRES_USER ?? 'aiofix_user',
-        password: process.env.POSTGRES_PASSWORD ?? 'aiofix_password',
-      },
-      null as any,
-      null as any,
-      null as any,
-    );
-
-    // 为Schema级隔离设置默认Schema
-    if (connectionConfig.schema) {
-      adapter.setDefaultSchema(connectionConfig.schema);
-    }
-
-    // 设置租户上下文
-    if (connectionConfig.tenantId) {
-      adapter.setTenantContext(connectionConfig.tenantId);
-    }
-
-    return adapter;
+    // 为Schema级隔离设置默认Schema和租户上下文
+    return this.tenantView(connectionConfig.database, {
+      schema: connectionConfig.schema,
+      tenantId: connectionConfig.tenantId,
+    });
   }
 
   /**
@@ -125,30 +119,15 @@ export class DatabaseAdapterFactory {
     database: string;
     tenantId?: string;
   }): IDatabaseAdapter {
-    const adapter = new PostgreSQLAdapter(
-      {
-        type: 'postgresql',
-        host: process.env.POSTGRES_HOST ?? 'localhost',
-        port: parseInt(process.env.POSTGRES_PORT ?? '5432'),
-        database: connectionConfig.database,
-        username: process.env.POSTGRES_USER ?? 'aiofix_user',
-        password: process.env.POSTGRES_PASSWORD ?? 'aiofix_password',
-      },
-      null as any,
-      null as any,
-      null as any,
-    );
-
-    // 为表级隔离设置租户上下文和RLS
-    if (connectionConfig.tenantId) {
-      adapter.setTenantContext(connectionConfig.tenantId);
-
-      if (this.isolationConfig.shouldEnableRLS()) {
-        adapter.enableRowLevelSecurity();
-      }
+    if (!connectionConfig.tenantId) {
+      return this.sharedAdapter(connectionConfig.database);
     }
 
-    return adapter;
+    // 为表级隔离设置租户上下文和RLS
+    return this.tenantView(connectionConfig.database, {
+      tenantId: connectionConfig.tenantId,
+      rowLevelSecurity: this.isolationConfig.shouldEnableRLS(),
+    });
   }
 
   /**
@@ -157,19 +136,14 @@ export class DatabaseAdapterFactory {
    * @returns {IDatabaseAdapter} 数据库适配器
    */
   createPlatformAdapter(): IDatabaseAdapter {
-    return new PostgreSQLAdapter(
-      {
-        type: 'postgresql',
-        host: process.env.POSTGRES_HOST ?? 'localhost',
-        port: parseInt(process.env.POSTGRES_PORT ?? '5432'),
-        database: this.isolationConfig.getPlatformDatabaseName(),
-        username: process.env.POSTGRES_USER ?? 'aiofix_user',
-        password: process.env.POSTGRES_PASSWORD ?? 'aiofix_password',
-      },
-      null as any,
-      null as any,
-      null as any,
-    );
+    return this.newAdapter({
+      type: 'postgresql',
+      host: process.env.POSTGRES_HOST ?? 'localhost',
+      port: parseInt(process.env.POSTGRES_PORT ?? '5432'),
+      database: this.isolationConfig.getPlatformDatabaseName(),
+      username: process.env.POSTGRES_USER ?? 'aiofix_user',
+      password: process.env.POSTGRES_PASSWORD ?? 'aiofix_password',
+    });
   }
 
   /**
@@ -178,50 +152,92 @@ export class DatabaseAdapterFactory {
    * @returns {IDatabaseAdapter} 数据库适配器
    */
   createEventsAdapter(): IDatabaseAdapter {
-    return new PostgreSQLAdapter(
-      {
+    return this.newAdapter({
+      type: 'postgresql',
+      host: process.env.POSTGRES_HOST ?? 'localhost',
+      port: parseInt(process.env.POSTGRES_PORT ?? '5432'),
+      database: this.isolationConfig.getEventsDatabaseName(),
+      username: process.env.POSTGRES_USER ?? 'aiofix_user',
+      password: process.env.POSTGRES_PASSWORD ?? 'aiofix_password',
+    });
+  }
+
+  /**
+   * @method createAiVectorsAdapter
+   * @description 创建AI向量存储适配器
+   * @returns {IDatabaseAdapter} 数据库适配器
+   */
+  createAiVectorsAdapter(): IDatabaseAdapter {
+    return this.newAdapter({
+      type: 'postgresql',
+      host:
+        process.env.AI_VECTORS_HOST ?? process.env.POSTGRES_HOST ?? 'localhost',
+      port: parseInt(
+        process.env.AI_VECTORS_PORT ?? process.env.POSTGRES_PORT ?? '5432',
+      ),
+      database: this.isolationConfig.getAiVectorsDatabaseName(),
+      username:
+        process.env.AI_VECTORS_USER ??
+        process.env.POSTGRES_USER ??
+        'aiofix_user',
+      password:
+        process.env.AI_VECTORS_PASSWORD ??
+        process.env.POSTGRES_PASSWORD ??
+        'aiofix_password',
+    });
+  }
+
+  /**
+   * @method sharedAdapter
+   * @description 获取数据库的共享适配器，不存在时创建
+   * @param {string} database 数据库名称
+   * @returns {PostgreSQLAdapter} 数据库适配器
+   * @private
+   */
+  private sharedAdapter(database: string): PostgreSQLAdapter {
+    let adapter = this.sharedAdapters.get(database);
+    if (!adapter) {
+      adapter = this.newAdapter({
         type: 'postgresql',
         host: process.env.POSTGRES_HOST ?? 'localhost',
         port: parseInt(process.env.POSTGRES_PORT ?? '5432'),
-        database: this.isolationConfig.getEventsDatabaseName(),
+        database,
         username: process.env.POSTGRES_USER ?? 'aiofix_user',
         password: process.env.POSTGRES_PASSWORD ?? 'aiofix_password',
-      },
-      null as any,
-      null as any,
-      null as any,
-    );
+      });
+      this.sharedAdapters.set(database, adapter);
+    }
+    return adapter;
   }
 
   /**
-   * @method createAiVectorsAdapter
-   * @description 创建AI向量存储适配器
-   * @returns {IDatabaseAdapter} 数据库适配器
+   * @method tenantView
+   * @description 创建共享数据库连接池的租户适配器视图，视图不持有连接，每次调用新建
+   * @param {string} database 数据库名称
+   * @param {object} context 租户上下文
+   * @returns {PostgreSQLAdapter} 适配器视图
+   * @private
    */
-  createAiVectorsAdapter(): IDatabaseAdapter {
+  private tenantView(
+    database: string,
+    context: { tenantId?: string; schema?: string; rowLevelSecurity?: boolean },
+  ): PostgreSQLAdapter {
+    return this.sharedAdapter(database).withTenantContext(context);
+  }
+
+  /**
+   * @method newAdapter
+   * @description 创建使用注入的事件发射器和日志服务的PostgreSQL适配器，以数据库名命名
+   * @param {DatabaseConfig} config 连接配置
+   * @returns {PostgreSQLAdapter} 数据库适配器
+   * @private
+   */
+  private newAdapter(config: DatabaseConfig): PostgreSQLAdapter {
     return new PostgreSQLAdapter(
-      {
-        type: 'postgresql',
-        host:
-          process.env.AI_VECTORS_HOST ??
-          process.env.POSTGRES_HOST ??
-          'localhost',
-        port: parseInt(
-          process.env.AI_VECTORS_PORT ?? process.env.POSTGRES_PORT ?? '5432',
-        ),
-        database: this.isolationConfig.getAiVectorsDatabaseName(),
-        username:
-          process.env.AI_VECTORS_USER ??
-          process.env.POSTGRES_USER ??
-          'aiofix_user',
-        password:
-          process.env.AI_VECTORS_PASSWORD ??
-          process.env.POSTGRES_PASSWORD ??
-          'aiofix_password',
-      },
-      null as any,
-      null as any,
-      null as any,
+      config,
+      config.database,
+      this.eventEmitter,
+      this.logger,
     );
   }
 }
@@ -450,6 +450,224 @@ describe('PostgreSQLAdapter', () => {
     });
   });
 
+  describe('行级安全', () => {
+    let mockClient: { query: any; release: any; escapeLiteral: any };
+
+    beforeEach(() => {
+      mockClient = {
+        query: (jest.fn() as any).mockResolvedValue({ rows: [{ id: 1 }] }),
+        release: jest.fn() as any,
+        escapeLiteral: (value: string) => `'${value.replace(/'/g, "''")}'`,
+      };
+      (adapter as any).pool.connect.mockResolvedValue(mockClient);
+    });
+
+    it('启用RLS后应该在查询所在的事务中绑定租户', async () => {
+      adapter.setTenantContext('tenant-1');
+      adapter.enableRowLevelSecurity();
+
+      const result = await adapter.query('SELECT * FROM users');
+
+      expect(result).toEqual({ rows: [{ id: 1 }] });
+      expect(mockClient.query.mock.calls.map((call: any[]) => call[0])).toEqual(
+        [
+          "BEGIN; SELECT set_config('app.current_tenant', 'tenant-1', true)",
+          expect.objectContaining({ text: 'SELECT * FROM users' }),
+          'COMMIT',
+        ],
+      );
+      expect(mockClient.release).toHaveBeenCalled();
+      expect((adapter as any).pool.query).not.toHaveBeenCalled();
+    });
+
+    it('查询失败时应该回滚并归还连接', async () => {
+      adapter.setTenantContext('tenant-1');
+      adapter.enableRowLevelSecurity();
+      mockClient.query.mockImplementation(async (sql: unknown) => {
+        if (typeof sql === 'object') {
+          throw new Error('permission denied');
+        }
+        return { rows: [] };
+      });
+
+      await expect(adapter.query('SELECT * FROM users')).rejects.toThrow(
+        'permission denied',
+      );
+      expect(mockClient.query).toHaveBeenLastCalledWith('ROLLBACK');
+      expect(mockClient.release).toHaveBeenCalled();
+    });
+
+    it('未启用RLS时应该直接使用连接池', async () => {
+      adapter.setTenantContext('tenant-1');
+      (adapter as any).pool.query.mockResolvedValue({ rows: [] });
+
+      await adapter.query('SELECT 1');
+
+      expect((adapter as any).pool.query).toHaveBeenCalled();
+      expect(mockClient.query).not.toHaveBeenCalled();
+    });
+
+    it('设置默认Schema后应该在每次查询时绑定search_path', async () => {
+      adapter.setDefaultSchema('tenant_acme');
+
+      await adapter.query('SELECT * FROM users');
+
+      expect(mockClient.query).toHaveBeenCalledWith(
+        `BEGIN; SELECT set_config('search_path', '"tenant_acme", public', true)`,
+      );
+      expect(mockClient.release).toHaveBeenCalled();
+    });
+
+    it('应该在事务开始时绑定租户', async () => {
+      adapter.setTenantContext('tenant-1');
+      adapter.enableRowLevelSecurity();
+      const trx = { raw: (jest.fn() as any).mockResolvedValue(undefined) };
+      (adapter as any).knexInstance.transaction.mockImplementation(
+        async (callback: any) => callback(trx),
+      );
+
+      await adapter.transaction(async () => 'done', {
+        isolationLevel: 'serializable',
+      });
+
+      expect(trx.raw.mock.calls).toEqual([
+        ['SET TRANSACTION ISOLATION LEVEL SERIALIZABLE'],
+        ['SELECT set_config(?, ?, true)', ['app.current_tenant', 'tenant-1']],
+      ]);
+    });
+
+    it('租户视图应该共用连接池并各自绑定租户', async () => {
+      const alpha = adapter.withTenantContext({
+        tenantId: 'alpha',
+        rowLevelSecurity: true,
+      });
+      const beta = adapter.withTenantContext({
+        tenantId: 'beta',
+        rowLevelSecurity: true,
+      });
+
+      await alpha.query('SELECT * FROM users');
+      await beta.query('SELECT * FROM users');
+
+      expect(alpha.getPool()).toBe(adapter.getPool());
+      expect(beta.getPool()).toBe(adapter.getPool());
+      expect(adapter.getTenantContext()).toBeUndefined();
+      expect(adapter.isRowLevelSecurityEnabled()).toBe(false);
+      expect(mockClient.query.mock.calls.map((call: any[]) => call[0])).toEqual(
+        [
+          "BEGIN; SELECT set_config('app.current_tenant', 'alpha', true)",
+          expect.objectContaining({ text: 'SELECT * FROM users' }),
+          'COMMIT',
+          "BEGIN; SELECT set_config('app.current_tenant', 'beta', true)",
+          expect.objectContaining({ text: 'SELECT * FROM users' }),
+          'COMMIT',
+        ],
+      );
+    });
+
+    it('应该在一次往返中绑定全部会话变量', async () => {
+      adapter.setTenantContext("o'brien");
+      adapter.enableRowLevelSecurity();
+      adapter.setDefaultSchema('tenant_acme');
+
+      await adapter.query('SELECT * FROM users');
+
+      expect(mockClient.query).toHaveBeenCalledTimes(3);
+      expect(mockClient.query.mock.calls[0][0]).toBe(
+        "BEGIN; SELECT set_config('search_path', '\"tenant_acme\", public', true), " +
+          "set_config('app.current_tenant', 'o''brien', true)",
+      );
+    });
+  });
+
+  describe('只读副本', () => {
+    let replicated: PostgreSQLAdapter;
+    let primary: any;
+    let replica: any;
+
+    beforeEach(() => {
+      replicated = new PostgreSQLAdapter(
+        {
+          ...mockConfig,
+          replication: {
+            replicas: [{ host: 'replica-1' }],
+            readYourWritesWindowMs: 60000,
+          },
+        },
+        'test-postgresql',
+        mockEventEmitter,
+        mockLogger,
+      );
+      primary = (replicated as any).pool;
+      replica = (replicated as any).replicaRouter.getReplicas()[0].target;
+      primary.query.mockResolvedValue({ rows: [], rowCount: 1 });
+      replica.query.mockResolvedValue({ rows: [{ id: 1 }], rowCount: 1 });
+    });
+
+    it('应该由副本执行只读查询，由主库执行写入', async () => {
+      await expect(replicated.query('SELECT * FROM users')).resolves.toEqual({
+        rows: [{ id: 1 }],
+        rowCount: 1,
+      });
+      await replicated.query('SELECT * FROM users', [], { intent: 'write' });
+
+      expect(replica.query).toHaveBeenCalledTimes(1);
+      expect(primary.query).toHaveBeenCalledTimes(1);
+    });
+
+    it('写入后的时间窗口内应该由主库执行读取', async () => {
+      await replicated.execute('UPDATE users SET name = $1', ['test']);
+      await replicated.query('SELECT * FROM users');
+
+      expect(replica.query).not.toHaveBeenCalled();
+      expect(primary.query).toHaveBeenCalledTimes(2);
+    });
+
+    it('副本不可用时应该改由主库执行并在ping成功后恢复', async () => {
+      replica.query.mockRejectedValueOnce(new Error('Connection terminated'));
+
+      await replicated.query('SELECT * FROM users');
+
+      expect(primary.query).toHaveBeenCalledTimes(1);
+      expect(mockEventEmitter.emit).toHaveBeenCalledWith(
+        'database.replica_unavailable',
+        expect.objectContaining({ replica: 'replica-1:5432' }),
+      );
+      await replicated.query('SELECT * FROM users');
+      expect(primary.query).toHaveBeenCalledTimes(2);
+
+      await expect(replicated.pingReplicas()).resolves.toEqual({
+        'replica-1:5432': true,
+      });
+      await replicated.query('SELECT * FROM users');
+      expect(primary.query).toHaveBeenCalledTimes(2);
+    });
+
+    it('副本拒绝写入时应该由主库重试且不标记副本不可用', async () => {
+      replica.query.mockRejectedValueOnce(
+        Object.assign(new Error('read-only transaction'), { code: '25006' }),
+      );
+
+      await replicated.query('SELECT archive_user($1)', ['user-1']);
+
+      expect(primary.query).toHaveBeenCalledTimes(1);
+      await expect(replicated.getHealth()).resolves.toMatchObject({
+        replicas: { 'replica-1:5432': true },
+      });
+    });
+
+    it('SQL错误不应该由主库重试', async () => {
+      replica.query.mockRejectedValueOnce(
+        Object.assign(new Error('relation does not exist'), { code: '42P01' }),
+      );
+
+      await expect(replicated.query('SELECT * FROM missing')).rejects.toThrow(
+        'relation does not exist',
+      );
+      expect(primary.query).not.toHaveBeenCalled();
+    });
+  });
+
   describe('事件通知', () => {
     it('应该在查询执行时发出事件', async () => {
       const mockPool = (adapter as any).pool;
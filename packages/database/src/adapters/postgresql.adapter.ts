@@ -9,6 +9,8 @@
  * - 健康检查
  * - 统计监控
  * - 事件通知
+ * - 行级安全（RLS）租户绑定和Schema搜索路径
+ * - 只读副本路由和写后读一致性
  *
  * 遵循DDD和Clean Architecture原则，提供统一的数据库操作接口。
  */
@@ -16,21 +18,40 @@
 import { Injectable, Inject } from '@nestjs/common';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import { v4 as uuidv4 } from 'uuid';
-import { Pool, QueryResult } from 'pg';
+import { Pool, PoolClient, QueryConfig, QueryResult } from 'pg';
 import { Knex, knex } from 'knex';
 import { PinoLoggerService, LogContext } from '@aiofix/logging';
 import type {
   IDatabaseAdapter,
   DatabaseConfig,
   DatabaseConnection,
+  DatabaseReplicaConfig,
   DatabaseHealth,
   DatabaseStats,
+  QueryIntent,
   QueryOptions,
+  RlsVerificationReport,
+  TenantTableInfo,
   TransactionOptions,
 } from '../interfaces/database.interface';
+import {
+  RowLevelSecurityManager,
+  TENANT_CONTEXT_SETTING,
+} from '../rls/row-level-security';
+import {
+  inferQueryIntent,
+  isReplicaUnavailableError,
+  ReadReplica,
+  ReadReplicaRouter,
+} from '../replication/read-replica.router';
 import type { Connection } from 'pg';
 import type { Connection as MikroOrmConnection } from '@mikro-orm/core';
 
+/**
+ * 副本执行失败后改由主库重试的错误码：只读事务中的写入（意图推断错误）、与恢复冲突被取消的查询
+ */
+const RETRY_ON_PRIMARY_CODES = ['25006', '40001'];
+
 /**
  * @class PostgreSQLAdapter
  * @description PostgreSQL数据库适配器
@@ -43,6 +64,15 @@ import type { Connection as MikroOrmConnection } from '@mikro-orm/core';
  * - 性能监控
  * - 事件通知
  *
+ * 启用RLS且设置了租户上下文时绑定app.current_tenant，设置了默认Schema时绑定search_path。
+ * 每次查询都在独立事务中先绑定这些会话变量，事务回调开始时同样绑定，
+ * 连接归还连接池后不会残留租户信息或其他租户的search_path。
+ *
+ * 配置了只读副本（config.replication）时：
+ * 1. query按意图路由，只读查询在可用副本间轮询，写入由主库执行；意图未指定时根据SQL推断
+ * 2. execute和transaction始终由主库执行，并开始写后读时间窗口，窗口内同一请求上下文的读取由主库执行
+ * 3. 副本连接失败时标记为不可用并改由主库执行，定期ping副本，恢复后重新参与路由
+ *
  * @implements {IDatabaseAdapter}
  */
 @Injectable()
@@ -57,6 +87,8 @@ export class PostgreSQLAdapter implements IDatabaseAdapter {
 
   private readonly logger: PinoLoggerService;
   private pool: Pool = {} as Pool;
+  private replicaRouter?: ReadReplicaRouter<Pool>;
+  private replicaHealthCheckTimer?: NodeJS.Timeout;
   private knexInstance: Knex = {} as Knex;
   private isConnectedFlag = false;
   private stats: DatabaseStats;
@@ -75,6 +107,7 @@ export class PostgreSQLAdapter implements IDatabaseAdapter {
     this.connectionId = uuidv4();
     this.stats = this.initializeStats();
     this.initializePool();
+    this.initializeReplicas();
     this.initializeKnex();
 
     // 自动连接数据库
@@ -115,6 +148,7 @@ export class PostgreSQLAdapter implements IDatabaseAdapter {
       client.release();
 
       this.isConnectedFlag = true;
+      this.startReplicaHealthChecks();
 
       this.logger.info(
         `Successfully connected to PostgreSQL database: ${this.config.database}`,
@@ -159,7 +193,12 @@ export class PostgreSQLAdapter implements IDatabaseAdapter {
         { adapter: this.name },
       );
 
+      clearInterval(this.replicaHealthCheckTimer);
+      this.replicaHealthCheckTimer = undefined;
       await this.pool.end();
+      for (const replica of this.replicaRouter?.getReplicas() ?? []) {
+        await replica.target.end();
+      }
       await this.knexInstance.destroy();
 
       this.isConnectedFlag = false;
@@ -194,7 +233,7 @@ export class PostgreSQLAdapter implements IDatabaseAdapter {
 
   /**
    * @method query
-   * @description 执行查询
+   * @description 执行查询，只读查询在配置了副本时由副本执行
    * @param sql SQL语句
    * @param params 查询参数
    * @param options 查询选项
@@ -223,7 +262,10 @@ export class PostgreSQLAdapter implements IDatabaseAdapter {
         name: options.tag ?? 'unnamed',
       };
 
-      const result = await this.pool.query(queryConfig);
+      const result = await this.runRoutedQuery(
+        queryConfig,
+        options.intent ?? inferQueryIntent(sql),
+      );
       const responseTime = Date.now() - startTime;
 
       this.updateStats(responseTime, true);
@@ -277,7 +319,7 @@ export class PostgreSQLAdapter implements IDatabaseAdapter {
 
   /**
    * @method execute
-   * @description 执行命令
+   * @description 执行命令，始终由主库执行
    * @param sql SQL语句
    * @param params 参数
    * @param options 执行选项
@@ -288,12 +330,16 @@ export class PostgreSQLAdapter implements IDatabaseAdapter {
     params: unknown[] = [],
     options: QueryOptions = {},
   ): Promise<QueryResult> {
-    return this.query(sql, params, { ...options, logQuery: true });
+    return this.query(sql, params, {
+      ...options,
+      intent: 'write',
+      logQuery: true,
+    });
   }
 
   /**
    * @method transaction
-   * @description 执行事务
+   * @description 执行事务，始终由主库执行
    * @param callback 事务回调函数
    * @param options 事务选项
    * @returns {Promise<T>} 事务结果
@@ -321,9 +367,20 @@ export class PostgreSQLAdapter implements IDatabaseAdapter {
           await trx.raw('SET TRANSACTION READ ONLY');
         }
 
+        const settings = this.getSessionSettings();
+        if (settings.length > 0) {
+          await trx.raw(
+            `SELECT ${settings.map(() => 'set_config(?, ?, true)').join(', ')}`,
+            settings.flat(),
+          );
+        }
+
         return await callback(trx);
       });
 
+      if (!options.readOnly) {
+        this.replicaRouter?.recordWrite();
+      }
       const responseTime = Date.now() - startTime;
 
       this.logger.debug(`Transaction completed`, LogContext.DATABASE, {
@@ -376,8 +433,11 @@ export class PostgreSQLAdapter implements IDatabaseAdapter {
     const startTime = Date.now();
 
     try {
-      // 执行健康检查查询
-      await this.query('SELECT 1 as health_check', [], { tag: 'health_check' });
+      // 执行健康检查查询（主库）
+      await this.query('SELECT 1 as health_check', [], {
+        tag: 'health_check',
+        intent: 'write',
+      });
 
       const responseTime = Date.now() - startTime;
 
@@ -394,6 +454,7 @@ export class PostgreSQLAdapter implements IDatabaseAdapter {
         responseTime,
         lastCheck: new Date(),
         poolStatus,
+        replicas: this.replicaRouter?.getStatus(),
       };
     } catch (error) {
       const responseTime = Date.now() - startTime;
@@ -452,18 +513,42 @@ export class PostgreSQLAdapter implements IDatabaseAdapter {
 
   /**
    * @method ping
-   * @description 数据库连接测试
+   * @description 主库连接测试
    * @returns {Promise<boolean>} 测试结果
    */
   async ping(): Promise<boolean> {
     try {
-      await this.query('SELECT 1', [], { tag: 'ping_test' });
+      await this.query('SELECT 1', [], { tag: 'ping_test', intent: 'write' });
       return true;
     } catch {
       return false;
     }
   }
 
+  /**
+   * @method pingReplicas
+   * @description 测试所有只读副本并更新其可用状态，不可用的副本不再参与路由
+   * @returns {Promise<Record<string, boolean>>} 副本名称 -> 是否可用
+   */
+  async pingReplicas(): Promise<Record<string, boolean>> {
+    const router = this.replicaRouter;
+    if (!router) {
+      return {};
+    }
+
+    await Promise.all(
+      router.getReplicas().map(async replica => {
+        try {
+          await replica.target.query('SELECT 1');
+          this.setReplicaHealth(replica, true);
+        } catch (error) {
+          this.setReplicaHealth(replica, false, error as Error);
+        }
+      }),
+    );
+    return router.getStatus();
+  }
+
   /**
    * @method getKnex
    * @description 获取Knex实例
@@ -482,39 +567,234 @@ export class PostgreSQLAdapter implements IDatabaseAdapter {
     return this.pool;
   }
 
+  /**
+   * @private
+   * @method runRoutedQuery
+   * @description 按查询意图选择主库或副本执行查询，副本执行失败时按错误类型改由主库重试
+   * @param queryConfig 查询配置
+   * @param intent 查询意图
+   * @returns {Promise<QueryResult>} 查询结果
+   */
+  private async runRoutedQuery(
+    queryConfig: QueryConfig,
+    intent: QueryIntent,
+  ): Promise<QueryResult> {
+    const replica = this.replicaRouter?.select(intent);
+    if (!replica) {
+      const result = await this.runQuery(this.pool, queryConfig);
+      if (intent === 'write') {
+        this.replicaRouter?.recordWrite();
+      }
+      return result;
+    }
+
+    try {
+      return await this.runQuery(replica.target, queryConfig);
+    } catch (error) {
+      if (isReplicaUnavailableError(error)) {
+        this.setReplicaHealth(replica, false, error as Error);
+      } else if (
+        !RETRY_ON_PRIMARY_CODES.includes((error as { code: string }).code)
+      ) {
+        throw error;
+      }
+      return this.runQuery(this.pool, queryConfig);
+    }
+  }
+
+  /**
+   * @private
+   * @method runQuery
+   * @description 执行查询，需要时在同一连接的事务内先绑定会话变量
+   * @param pool 主库或副本连接池
+   * @param queryConfig 查询配置
+   * @returns {Promise<QueryResult>} 查询结果
+   *
+   * 会话变量以SET LOCAL语义绑定，连接归还后不残留。代价是每次查询3次往返：
+   * BEGIN与全部set_config合并为一条简单查询发送，随后是查询本身和COMMIT；
+   * 未设置租户（RLS）和默认Schema时为1次。批量操作应放在transaction中，只绑定一次。
+   */
+  private async runQuery(
+    pool: Pool,
+    queryConfig: QueryConfig,
+  ): Promise<QueryResult> {
+    const settings = this.getSessionSettings();
+    if (settings.length === 0) {
+      return pool.query(queryConfig);
+    }
+
+    const client = await pool.connect();
+    try {
+      await client.query(this.buildBeginSql(client, settings));
+      const result = await client.query(queryConfig);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * @private
+   * @method buildBeginSql
+   * @description 生成开启事务并绑定会话变量的语句，多条语句通过简单查询协议一次发送
+   * @param client 连接
+   * @param settings 变量名和值
+   * @returns {string} SQL语句，值由驱动按字面量转义
+   */
+  private buildBeginSql(
+    client: PoolClient,
+    settings: Array<[string, string]>,
+  ): string {
+    const assignments = settings.map(
+      ([setting, value]) =>
+        `set_config(${client.escapeLiteral(setting)}, ${client.escapeLiteral(value)}, true)`,
+    );
+    return `BEGIN; SELECT ${assignments.join(', ')}`;
+  }
+
+  /**
+   * @private
+   * @method getSessionSettings
+   * @description 获取需要在每个事务内绑定的会话变量
+   * @returns {Array<[string, string]>} 变量名和值
+   */
+  private getSessionSettings(): Array<[string, string]> {
+    const settings: Array<[string, string]> = [];
+    if (this.defaultSchema) {
+      settings.push([
+        'search_path',
+        `"${this.defaultSchema.replace(/"/g, '""')}", public`,
+      ]);
+    }
+    if (this.rlsEnabled && this.tenantId) {
+      settings.push([TENANT_CONTEXT_SETTING, this.tenantId]);
+    }
+    return settings;
+  }
+
   /**
    * @private
    * @method initializePool
    * @description 初始化连接池
    */
   private initializePool(): void {
-    this.pool = new Pool({
-      host: this.config.host,
-      port: this.config.port,
-      user: this.config.username,
-      password: this.config.password,
-      database: this.config.database,
+    this.pool = this.createPool();
+  }
+
+  /**
+   * @private
+   * @method initializeReplicas
+   * @description 为配置的只读副本创建连接池和路由器
+   */
+  private initializeReplicas(): void {
+    const replication = this.config.replication;
+    if (!replication?.replicas.length) {
+      return;
+    }
+
+    this.replicaRouter = new ReadReplicaRouter(
+      replication.replicas.map(replica => ({
+        name: `${replica.host}:${replica.port ?? this.config.port}`,
+        target: this.createPool(replica),
+      })),
+      { readYourWritesWindowMs: replication.readYourWritesWindowMs },
+    );
+  }
+
+  /**
+   * @private
+   * @method createPool
+   * @description 创建主库或副本连接池，副本未配置的连接参数沿用主库
+   * @param replica 副本配置
+   * @returns {Pool} 连接池
+   */
+  private createPool(replica?: DatabaseReplicaConfig): Pool {
+    const pool = new Pool({
+      host: replica?.host ?? this.config.host,
+      port: replica?.port ?? this.config.port,
+      user: replica?.username ?? this.config.username,
+      password: replica?.password ?? this.config.password,
+      database: replica?.database ?? this.config.database,
       ssl: this.config.ssl ? { rejectUnauthorized: false } : false,
-      max: this.config.pool?.max ?? 20,
+      max: replica?.maxConnections ?? this.config.pool?.max ?? 20,
       min: this.config.pool?.min ?? 2,
       idleTimeoutMillis: this.config.pool?.idleTimeoutMillis ?? 30000,
     });
 
     // 监听连接池事件
-    this.pool.on('connect', () => {
+    pool.on('connect', () => {
       this.logger.debug('New client connected to pool', LogContext.DATABASE, {
         adapter: this.name,
+        replica: replica?.host,
       });
     });
 
-    this.pool.on('error', err => {
+    pool.on('error', err => {
       this.logger.error(
         'Unexpected error on idle client',
         LogContext.DATABASE,
-        { adapter: this.name },
+        { adapter: this.name, replica: replica?.host },
         err,
       );
     });
+
+    return pool;
+  }
+
+  /**
+   * @private
+   * @method startReplicaHealthChecks
+   * @description 启动副本定期健康检查
+   */
+  private startReplicaHealthChecks(): void {
+    if (!this.replicaRouter || this.replicaHealthCheckTimer) {
+      return;
+    }
+    this.replicaHealthCheckTimer = setInterval(() => {
+      void this.pingReplicas();
+    }, this.config.replication?.healthCheckIntervalMs ?? 10000);
+    this.replicaHealthCheckTimer.unref();
+  }
+
+  /**
+   * @private
+   * @method setReplicaHealth
+   * @description 更新副本可用状态，状态变化时记录日志并发出事件
+   * @param replica 副本
+   * @param healthy 是否可用
+   * @param error 不可用的原因
+   */
+  private setReplicaHealth(
+    replica: ReadReplica<Pool>,
+    healthy: boolean,
+    error?: Error,
+  ): void {
+    if (!this.replicaRouter?.setHealthy(replica.name, healthy)) {
+      return;
+    }
+
+    if (healthy) {
+      this.logger.info('Read replica recovered', LogContext.DATABASE, {
+        adapter: this.name,
+        replica: replica.name,
+      });
+    } else {
+      this.logger.warn(
+        'Read replica unavailable, reads fall back to primary',
+        LogContext.DATABASE,
+        { adapter: this.name, replica: replica.name, error: error?.message },
+      );
+    }
+
+    this.emitEvent(healthy ? 'replica_recovered' : 'replica_unavailable', {
+      replica: replica.name,
+      error: error?.message,
+      timestamp: new Date(),
+    });
   }
 
   /**
@@ -675,4 +955,64 @@ export class PostgreSQLAdapter implements IDatabaseAdapter {
   isRowLevelSecurityEnabled(): boolean {
     return this.rlsEnabled;
   }
+
+  /**
+   * @method withTenantContext
+   * @description 创建共享当前连接池的适配器视图，视图有独立的租户上下文、默认Schema和RLS设置。
+   * 多个租户可以通过各自的视图共用同一个数据库的连接池；视图断开时会关闭共享的连接池
+   * @param {object} context 租户上下文
+   * @param {string} [context.tenantId] 租户ID
+   * @param {string} [context.schema] 默认Schema
+   * @param {boolean} [context.rowLevelSecurity] 是否启用行级安全策略
+   * @returns {PostgreSQLAdapter} 适配器视图
+   */
+  withTenantContext(context: {
+    tenantId?: string;
+    schema?: string;
+    rowLevelSecurity?: boolean;
+  }): PostgreSQLAdapter {
+    const scoped = Object.create(this) as PostgreSQLAdapter;
+    scoped.tenantId = context.tenantId;
+    scoped.defaultSchema = context.schema;
+    scoped.rlsEnabled = context.rowLevelSecurity ?? false;
+    return scoped;
+  }
+
+  /**
+   * @method applyRowLevelSecurityPolicies
+   * @description 为所有包含租户字段的表启用RLS并创建缺失的租户隔离策略
+   * @param {string} [tenantIdField] 租户字段名称，默认tenant_id
+   * @returns {Promise<TenantTableInfo[]>} 本次修改过的表
+   */
+  async applyRowLevelSecurityPolicies(
+    tenantIdField?: string,
+  ): Promise<TenantTableInfo[]> {
+    const tables = await new RowLevelSecurityManager(
+      this,
+      tenantIdField,
+    ).applyPolicies();
+
+    this.logger.info(
+      'Row level security policies applied',
+      LogContext.DATABASE,
+      {
+        adapter: this.name,
+        tables: tables.map(table => `${table.schema}.${table.table}`),
+      },
+    );
+
+    return tables;
+  }
+
+  /**
+   * @method verifyRowLevelSecurity
+   * @description 检查所有包含租户字段的表是否都受RLS保护
+   * @param {string} [tenantIdField] 租户字段名称，默认tenant_id
+   * @returns {Promise<RlsVerificationReport>} 校验报告
+   */
+  async verifyRowLevelSecurity(
+    tenantIdField?: string,
+  ): Promise<RlsVerificationReport> {
+    return new RowLevelSecurityManager(this, tenantIdField).verify();
+  }
 }
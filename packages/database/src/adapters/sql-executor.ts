@@ -0,0 +1,94 @@
+/**
+ * @file sql-executor.ts
+ * @description 事务句柄到SQL执行器的转换
+ *
+ * IDatabaseAdapter.transaction的回调收到的是底层驱动的事务句柄：
+ * - PostgreSQLAdapter传入Knex事务（通过raw执行，占位符为?）
+ * - 原生pg客户端直接支持$1占位符
+ *
+ * createSqlExecutor屏蔽这些差异，仓储代码统一使用$1、$2占位符。
+ * 不传参数时语句按原样执行，迁移脚本中plpgsql函数体内的$1、jsonb的?运算符都不会被改写。
+ */
+
+import type { QueryResult } from 'pg';
+import type { ISqlExecutor } from '../interfaces/database.interface';
+
+interface RawCapable {
+  raw(sql: string, bindings?: unknown[]): PromiseLike<unknown>;
+}
+
+interface QueryCapable {
+  query(sql: string, params?: unknown[]): Promise<QueryResult>;
+}
+
+/**
+ * @function createSqlExecutor
+ * @description 根据事务句柄创建SQL执行器
+ * @param {unknown} trx 事务句柄（Knex事务或pg客户端）
+ * @returns {ISqlExecutor} SQL执行器
+ * @throws {Error} 当事务句柄类型不受支持时抛出
+ */
+export function createSqlExecutor(trx: unknown): ISqlExecutor {
+  if (isRawCapable(trx)) {
+    return {
+      query: async (sql: string, params?: unknown[]) => {
+        if (params === undefined) {
+          // Knex会把未转义的?替换为位置参数
+          return (await trx.raw(sql.replace(/\?/g, '\\?'))) as QueryResult;
+        }
+        const { text, bindings } = toKnexBindings(sql, params);
+        return (await trx.raw(text, bindings)) as QueryResult;
+      },
+    };
+  }
+
+  if (isQueryCapable(trx)) {
+    return {
+      query: (sql: string, params?: unknown[]) => trx.query(sql, params),
+    };
+  }
+
+  throw new Error('Unsupported transaction handle: expected Knex or pg client');
+}
+
+/**
+ * @function toKnexBindings
+ * @description 将$n占位符转换为Knex的?占位符，按出现顺序展开参数
+ * @param {string} sql SQL语句
+ * @param {unknown[]} params 查询参数
+ * @returns {{ text: string; bindings: unknown[] }} 转换后的语句和参数
+ */
+export function toKnexBindings(
+  sql: string,
+  params: unknown[],
+): { text: string; bindings: unknown[] } {
+  const bindings: unknown[] = [];
+  const text = sql
+    .replace(/\?/g, '\\?')
+    .replace(/\$(\d+)/g, (_match, index: string) => {
+      const position = Number(index) - 1;
+      if (position < 0 || position >= params.length) {
+        throw new Error(`Missing value for SQL parameter $${index}`);
+      }
+      bindings.push(params[position]);
+      return '?';
+    });
+
+  return { text, bindings };
+}
+
+function isRawCapable(trx: unknown): trx is RawCapable {
+  return (
+    (typeof trx === 'object' || typeof trx === 'function') &&
+    trx !== null &&
+    typeof (trx as Partial<RawCapable>).raw === 'function'
+  );
+}
+
+function isQueryCapable(trx: unknown): trx is QueryCapable {
+  return (
+    typeof trx === 'object' &&
+    trx !== null &&
+    typeof (trx as Partial<QueryCapable>).query === 'function'
+  );
+}
@@ -1,6 +1,7 @@
 import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@aiofix/config';
 import { PinoLoggerService } from '@aiofix/logging';
+import type { DatabaseReplicationConfig } from '../interfaces/database.interface';
 
 /**
  * @class DatabaseConfig
@@ -45,8 +46,9 @@ export class DatabaseConfig {
    * 配置包含：
    * 1. 数据库连接信息
    * 2. 连接池配置
-   * 3. 多租户数据库支持
-   * 4. 性能优化配置
+   * 3. 只读副本配置
+   * 4. 多租户数据库支持
+   * 5. 性能优化配置
    */
   getPostgresConfig() {
     return {
@@ -72,6 +74,9 @@ export class DatabaseConfig {
         createRetryIntervalMillis: 200,
       },
 
+      // 只读副本配置
+      replication: this.getReplicationConfig(),
+
       // 多租户数据库配置
       tenantDatabases: {
         'tenant-1': 'aiofix_tenant_1',
@@ -96,6 +101,39 @@ export class DatabaseConfig {
     };
   }
 
+  /**
+   * @method getReplicationConfig
+   * @description 获取PostgreSQL只读副本配置
+   * @returns {DatabaseReplicationConfig | undefined} 未配置副本时返回undefined
+   *
+   * POSTGRES_REPLICA_HOSTS为逗号分隔的host或host:port，
+   * 其余连接参数沿用主库。
+   */
+  getReplicationConfig(): DatabaseReplicationConfig | undefined {
+    const hosts = (this._configService.get('POSTGRES_REPLICA_HOSTS') ?? '')
+      .split(',')
+      .map((host: string) => host.trim())
+      .filter(Boolean);
+    if (hosts.length === 0) {
+      return undefined;
+    }
+
+    return {
+      replicas: hosts.map((entry: string) => {
+        const [host, port] = entry.split(':');
+        return port ? { host, port: parseInt(port) } : { host };
+      }),
+      readYourWritesWindowMs: parseInt(
+        this._configService.get('POSTGRES_READ_YOUR_WRITES_WINDOW_MS') ??
+          '5000',
+      ),
+      healthCheckIntervalMs: parseInt(
+        this._configService.get('POSTGRES_REPLICA_HEALTH_CHECK_INTERVAL_MS') ??
+          '10000',
+      ),
+    };
+  }
+
   /**
    * @method getMongoDBConfig
    * @description 获取MongoDB数据库配置
@@ -206,4 +206,67 @@ describe('IsolationConfigService', () => {
       expect(result).toBe(false);
     });
   });
+
+  describe('per-tenant strategies', () => {
+    beforeEach(() => {
+      jest.spyOn(configService, 'get').mockImplementation((key: string) => {
+        const defaults: Record<string, string> = {
+          PLATFORM_DB_NAME: 'aiofix_platform',
+          TENANT_DB_PREFIX: 'aiofix_tenant_',
+          TENANT_SCHEMA_PREFIX: 'tenant_',
+        };
+        return defaults[key];
+      });
+    });
+
+    it('should route assigned tenants by their own strategy', () => {
+      service.setTenantStrategies({
+        enterprise: IsolationStrategy.DATABASE_LEVEL,
+        shared: IsolationStrategy.TABLE_LEVEL,
+      });
+
+      expect(service.getTenantStrategies()).toEqual({
+        enterprise: IsolationStrategy.DATABASE_LEVEL,
+      });
+      expect(service.getStrategy()).toBe(IsolationStrategy.TABLE_LEVEL);
+      expect(service.isDatabaseLevel('enterprise')).toBe(true);
+      expect(service.getConnectionConfig('enterprise')).toEqual({
+        database: 'aiofix_tenant_enterprise',
+        tenantId: 'enterprise',
+      });
+      expect(service.getConnectionConfig('shared')).toEqual({
+        database: 'aiofix_platform',
+        tenantId: 'shared',
+      });
+      expect(service.getDedicatedSchemaName('shared')).toBe('tenant_shared');
+    });
+
+    it('should only switch a tenant from the expected strategy', () => {
+      service.switchTenantStrategy(
+        'acme',
+        IsolationStrategy.TABLE_LEVEL,
+        IsolationStrategy.SCHEMA_LEVEL,
+      );
+      expect(service.getConnectionConfig('acme')).toEqual({
+        database: 'aiofix_platform',
+        schema: 'tenant_acme',
+        tenantId: 'acme',
+      });
+
+      expect(() =>
+        service.switchTenantStrategy(
+          'acme',
+          IsolationStrategy.TABLE_LEVEL,
+          IsolationStrategy.DATABASE_LEVEL,
+        ),
+      ).toThrow('Tenant acme uses schema_level, expected table_level');
+
+      service.switchTenantStrategy(
+        'acme',
+        IsolationStrategy.SCHEMA_LEVEL,
+        IsolationStrategy.TABLE_LEVEL,
+      );
+      expect(service.getTenantStrategies()).toEqual({});
+    });
+  });
 });
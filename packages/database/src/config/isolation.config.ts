@@ -60,10 +60,14 @@ export interface IsolationConfig {
 /**
  * @class IsolationConfigService
  * @description 数据隔离配置服务
+ *
+ * 全局策略由DATA_ISOLATION_STRATEGY决定，单个租户可以分配不同的策略
+ * （如企业租户使用独立数据库）。带tenantId参数的方法按租户的实际策略路由。
  */
 @Injectable()
 export class IsolationConfigService {
   private config: IsolationConfig | null = null;
+  private tenantStrategies: Map<string, IsolationStrategy> = new Map();
 
   constructor(private readonly configService: ConfigService) {}
 
@@ -131,84 +135,149 @@ export class IsolationConfigService {
 
   /**
    * @method getStrategy
-   * @description 获取当前隔离策略
+   * @description 获取隔离策略
+   * @param {string} [tenantId] 租户ID，提供时返回该租户的实际策略
    * @returns {IsolationStrategy} 隔离策略
    */
-  getStrategy(): IsolationStrategy {
+  getStrategy(tenantId?: string): IsolationStrategy {
     if (!this.config) {
       this.config = this.loadConfig();
     }
-    return this.config.strategy;
+    return (
+      (tenantId && this.tenantStrategies.get(tenantId)) || this.config.strategy
+    );
+  }
+
+  /**
+   * @method getTenantStrategies
+   * @description 获取与全局策略不同的租户策略分配
+   * @returns {Record<string, IsolationStrategy>} 按租户ID索引的策略
+   */
+  getTenantStrategies(): Record<string, IsolationStrategy> {
+    return Object.fromEntries(this.tenantStrategies);
+  }
+
+  /**
+   * @method setTenantStrategies
+   * @description 替换全部租户策略分配（如启动时从平台数据库加载）
+   * @param {Record<string, IsolationStrategy>} assignments 按租户ID索引的策略
+   * @throws {Error} 当策略值无效时抛出
+   */
+  setTenantStrategies(assignments: Record<string, IsolationStrategy>): void {
+    const strategies = new Map<string, IsolationStrategy>();
+    for (const [tenantId, strategy] of Object.entries(assignments)) {
+      this.assertStrategy(strategy);
+      if (strategy !== this.getStrategy()) {
+        strategies.set(tenantId, strategy);
+      }
+    }
+    this.tenantStrategies = strategies;
+  }
+
+  /**
+   * @method switchTenantStrategy
+   * @description 切换租户的隔离策略，只有当前策略与预期一致时才切换
+   * @param {string} tenantId 租户ID
+   * @param {IsolationStrategy} expected 预期的当前策略
+   * @param {IsolationStrategy} strategy 新策略
+   * @throws {Error} 当租户当前策略与预期不一致时抛出
+   */
+  switchTenantStrategy(
+    tenantId: string,
+    expected: IsolationStrategy,
+    strategy: IsolationStrategy,
+  ): void {
+    this.assertStrategy(strategy);
+    const current = this.getStrategy(tenantId);
+    if (current !== expected) {
+      throw new Error(
+        `Tenant ${tenantId} uses ${current}, expected ${expected}`,
+      );
+    }
+
+    if (strategy === this.getStrategy()) {
+      this.tenantStrategies.delete(tenantId);
+    } else {
+      this.tenantStrategies.set(tenantId, strategy);
+    }
   }
 
   /**
    * @method isDatabaseLevel
    * @description 是否为数据库级隔离
+   * @param {string} [tenantId] 租户ID，提供时按该租户的策略判断
    * @returns {boolean} 是否为数据库级隔离
    */
-  isDatabaseLevel(): boolean {
-    if (!this.config) {
-      this.config = this.loadConfig();
-    }
-    return this.config.strategy === IsolationStrategy.DATABASE_LEVEL;
+  isDatabaseLevel(tenantId?: string): boolean {
+    return this.getStrategy(tenantId) === IsolationStrategy.DATABASE_LEVEL;
   }
 
   /**
    * @method isSchemaLevel
    * @description 是否为Schema级隔离
+   * @param {string} [tenantId] 租户ID，提供时按该租户的策略判断
    * @returns {boolean} 是否为Schema级隔离
    */
-  isSchemaLevel(): boolean {
-    if (!this.config) {
-      this.config = this.loadConfig();
-    }
-    return this.config.strategy === IsolationStrategy.SCHEMA_LEVEL;
+  isSchemaLevel(tenantId?: string): boolean {
+    return this.getStrategy(tenantId) === IsolationStrategy.SCHEMA_LEVEL;
   }
 
   /**
    * @method isTableLevel
    * @description 是否为表级隔离
+   * @param {string} [tenantId] 租户ID，提供时按该租户的策略判断
    * @returns {boolean} 是否为表级隔离
    */
-  isTableLevel(): boolean {
-    if (!this.config) {
-      this.config = this.loadConfig();
-    }
-    return this.config.strategy === IsolationStrategy.TABLE_LEVEL;
+  isTableLevel(tenantId?: string): boolean {
+    return this.getStrategy(tenantId) === IsolationStrategy.TABLE_LEVEL;
   }
 
   /**
    * @method getTenantDatabaseName
-   * @description 获取租户数据库名称
+   * @description 获取租户数据所在的数据库名称
    * @param {string} tenantId 租户ID
    * @returns {string} 数据库名称
    */
   getTenantDatabaseName(tenantId: string): string {
-    if (!this.config) {
-      this.config = this.loadConfig();
-    }
-    if (this.isDatabaseLevel()) {
-      return `${this.config.databaseLevel.tenantDbPrefix}${tenantId}`;
+    if (this.isDatabaseLevel(tenantId)) {
+      return this.getDedicatedDatabaseName(tenantId);
     }
-    return this.config.databaseLevel.platformDbName;
+    return this.getPlatformDatabaseName();
   }
 
   /**
    * @method getTenantSchemaName
-   * @description 获取租户Schema名称
+   * @description 获取租户数据所在的Schema名称
    * @param {string} tenantId 租户ID
    * @returns {string} Schema名称
    */
   getTenantSchemaName(tenantId: string): string {
-    if (!this.config) {
-      this.config = this.loadConfig();
-    }
-    if (this.isSchemaLevel()) {
-      return `${this.config.schemaLevel.tenantSchemaPrefix}${tenantId}`;
+    if (this.isSchemaLevel(tenantId)) {
+      return this.getDedicatedSchemaName(tenantId);
     }
     return 'public';
   }
 
+  /**
+   * @method getDedicatedDatabaseName
+   * @description 获取租户独立数据库的名称，与租户当前策略无关
+   * @param {string} tenantId 租户ID
+   * @returns {string} 数据库名称
+   */
+  getDedicatedDatabaseName(tenantId: string): string {
+    return `${this.getConfig().databaseLevel.tenantDbPrefix}${tenantId}`;
+  }
+
+  /**
+   * @method getDedicatedSchemaName
+   * @description 获取租户独立Schema的名称，与租户当前策略无关
+   * @param {string} tenantId 租户ID
+   * @returns {string} Schema名称
+   */
+  getDedicatedSchemaName(tenantId: string): string {
+    return `${this.getConfig().schemaLevel.tenantSchemaPrefix}${tenantId}`;
+  }
+
   /**
    * @method getPlatformDatabaseName
    * @description 获取平台数据库名称
@@ -342,10 +411,10 @@ export class IsolationConfigService {
   } {
     const config: any = {};
 
-    if (this.isDatabaseLevel() && tenantId) {
+    if (tenantId && this.isDatabaseLevel(tenantId)) {
       config.database = this.getTenantDatabaseName(tenantId);
       config.tenantId = tenantId;
-    } else if (this.isSchemaLevel() && tenantId) {
+    } else if (tenantId && this.isSchemaLevel(tenantId)) {
       config.database = this.getPlatformDatabaseName();
       config.schema = this.getTenantSchemaName(tenantId);
       config.tenantId = tenantId;
@@ -373,8 +442,8 @@ export class IsolationConfigService {
     return {
       addTenantCondition: (query: string, tableName: string) => {
         if (
-          this.isTableLevel() &&
           tenantId &&
+          this.isTableLevel(tenantId) &&
           this.shouldAutoAddTenantCondition()
         ) {
           const tenantIdField = this.getTenantIdField();
@@ -387,17 +456,23 @@ export class IsolationConfigService {
         return query;
       },
       setTenantContext: () => {
-        if (this.isTableLevel() && tenantId && this.shouldEnableRLS()) {
-          return `SET app.current_tenant_id = '${tenantId}'`;
+        if (tenantId && this.isTableLevel(tenantId) && this.shouldEnableRLS()) {
+          return `SET app.current_tenant = '${tenantId.replace(/'/g, "''")}'`;
         }
         return '';
       },
       getTablePrefix: () => {
-        if (this.isSchemaLevel() && tenantId) {
+        if (tenantId && this.isSchemaLevel(tenantId)) {
           return `${this.getTenantSchemaName(tenantId)}.`;
         }
         return '';
       },
     };
   }
+
+  private assertStrategy(strategy: IsolationStrategy): void {
+    if (!Object.values(IsolationStrategy).includes(strategy)) {
+      throw new Error(`Invalid isolation strategy: ${String(strategy)}`);
+    }
+  }
 }
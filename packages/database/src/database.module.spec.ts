@@ -7,6 +7,7 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { ConfigModule } from '@nestjs/config';
 import { DatabaseModule } from './database.module';
 import { DatabaseConfig } from './config/database.config';
+import { DatabaseRequestContextMiddleware } from './replication/database-request-context';
 
 // Mock the adapters to avoid actual database connections
 jest.mock('./adapters/postgresql.adapter');
@@ -59,5 +60,17 @@ describe('DatabaseModule', () => {
       expect(dynamicModule.providers).toBeDefined();
       expect(dynamicModule.exports).toBeDefined();
     });
+
+    it('should create a database request context for every route', () => {
+      const forRoutes = jest.fn();
+      const consumer = { apply: jest.fn(() => ({ forRoutes })) };
+
+      new DatabaseModule().configure(consumer as any);
+
+      expect(consumer.apply).toHaveBeenCalledWith(
+        DatabaseRequestContextMiddleware,
+      );
+      expect(forRoutes).toHaveBeenCalledWith('*');
+    });
   });
 });
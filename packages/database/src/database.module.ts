@@ -5,11 +5,17 @@
  * 该模块整合了所有数据库相关的服务，包括：
  * - PostgreSQL适配器
  * - 数据库配置管理
+ * - 请求级的数据库上下文（只读副本的写后读一致性）
  *
  * 遵循DDD和Clean Architecture原则，提供统一的数据库管理功能。
  */
 
-import { DynamicModule, Module } from '@nestjs/common';
+import {
+  DynamicModule,
+  MiddlewareConsumer,
+  Module,
+  NestModule,
+} from '@nestjs/common';
 import { EventEmitterModule, EventEmitter2 } from '@nestjs/event-emitter';
 import { ConfigModule } from '@nestjs/config';
 import { ConfigService } from '@aiofix/config';
@@ -20,6 +26,7 @@ import { DatabaseConfig } from './config/database.config';
 
 // 导入适配器
 import { PostgreSQLAdapter } from './adapters/postgresql.adapter';
+import { DatabaseRequestContextMiddleware } from './replication/database-request-context';
 
 /**
  * @interface DatabaseModuleOptions
@@ -40,9 +47,14 @@ export interface DatabaseModuleOptions {
  * - PostgreSQL数据库支持
  * - 连接池管理
  * - 事件通知
+ * - 为所有路由注册DatabaseRequestContextMiddleware，写后读时间窗口只作用于写入的请求
  */
 @Module({})
-export class DatabaseModule {
+export class DatabaseModule implements NestModule {
+  configure(consumer: MiddlewareConsumer): void {
+    consumer.apply(DatabaseRequestContextMiddleware).forRoutes('*');
+  }
+
   static register(options: DatabaseModuleOptions = {}): DynamicModule {
     const { global = false, postgresql = true } = options;
 
@@ -9,6 +9,10 @@
  * - 数据库工厂
  * - 配置管理
  * - 健康检查服务
+ * - 事务性发件箱
+ * - 行级安全策略
+ * - 租户Schema管理
+ * - 只读副本路由
  *
  * 遵循DDD和Clean Architecture原则，提供统一的数据库抽象层。
  */
@@ -27,7 +31,24 @@ export {
 // 导出适配器
 export * from './adapters/postgresql.adapter';
 export { DatabaseAdapterFactory } from './adapters/database-adapter.factory';
+export { createSqlExecutor } from './adapters/sql-executor';
 export { TenantAwareRepository } from './repositories/tenant-aware.repository';
+export * from './repositories/tenant-query-builder';
+
+// 导出发件箱
+export * from './outbox';
+
+// 导出读写分离
+export * from './replication';
+
+// 导出行级安全
+export * from './rls';
+
+// 导出租户管理
+export * from './tenancy';
+
+// 导出数据库迁移
+export * from './migrations';
 
 // 导出模块
 export * from './database.module';
@@ -256,6 +256,15 @@ describe('Database Interfaces', () => {
         getConnection: jest.fn() as any,
         ping: jest.fn() as any,
         resetStats: jest.fn() as any,
+        setTenantContext: jest.fn() as any,
+        getTenantContext: jest.fn() as any,
+        setDefaultSchema: jest.fn() as any,
+        getDefaultSchema: jest.fn() as any,
+        enableRowLevelSecurity: jest.fn() as any,
+        disableRowLevelSecurity: jest.fn() as any,
+        isRowLevelSecurityEnabled: jest.fn() as any,
+        applyRowLevelSecurityPolicies: jest.fn() as any,
+        verifyRowLevelSecurity: jest.fn() as any,
       };
 
       expect(adapter.name).toBeDefined();
@@ -68,10 +68,44 @@ export interface DatabaseConfig {
     reapIntervalMillis: number;
     createRetryIntervalMillis: number;
   };
+  /** 读写分离配置，未配置时所有操作都使用主库 */
+  replication?: DatabaseReplicationConfig;
   /** 其他配置选项 */
   options?: Record<string, unknown>;
 }
 
+/**
+ * @interface DatabaseReplicaConfig
+ * @description 只读副本配置，未配置的连接参数沿用主库
+ */
+export interface DatabaseReplicaConfig {
+  /** 主机地址 */
+  host: string;
+  /** 端口 */
+  port?: number;
+  /** 用户名 */
+  username?: string;
+  /** 密码 */
+  password?: string;
+  /** 数据库名 */
+  database?: string;
+  /** 连接池最大连接数 */
+  maxConnections?: number;
+}
+
+/**
+ * @interface DatabaseReplicationConfig
+ * @description 读写分离配置
+ */
+export interface DatabaseReplicationConfig {
+  /** 只读副本 */
+  replicas: DatabaseReplicaConfig[];
+  /** 写入后同一请求上下文的读取继续使用主库的时间窗口（毫秒），默认5000 */
+  readYourWritesWindowMs?: number;
+  /** 副本健康检查间隔（毫秒），默认10000 */
+  healthCheckIntervalMs?: number;
+}
+
 /**
  * @interface DatabaseHealth
  * @description 数据库健康状态接口
@@ -94,6 +128,8 @@ export interface DatabaseHealth {
     active: number;
     waiting: number;
   };
+  /** 只读副本可用状态（副本名称 -> 是否可用） */
+  replicas?: Record<string, boolean>;
 }
 
 /**
@@ -121,11 +157,18 @@ export interface DatabaseStats {
   lastReset: Date;
 }
 
+/**
+ * 查询意图：read可以由只读副本执行，write必须由主库执行
+ */
+export type QueryIntent = 'read' | 'write';
+
 /**
  * @interface QueryOptions
  * @description 查询选项接口
  */
 export interface QueryOptions {
+  /** 查询意图，未指定时query根据SQL推断，execute始终为write */
+  intent?: QueryIntent;
   /** 查询超时时间 */
   timeout?: number;
   /** 是否使用事务 */
@@ -157,6 +200,61 @@ export interface TransactionOptions {
   tag?: string;
 }
 
+/**
+ * @interface ISqlExecutor
+ * @description SQL执行器接口
+ *
+ * 统一普通连接和事务句柄的查询方式，参数使用PostgreSQL的$1、$2占位符。
+ * 在事务回调中通过createSqlExecutor创建，保证多条语句在同一事务内执行。
+ */
+export interface ISqlExecutor {
+  /**
+   * @method query
+   * @description 执行查询，只读查询在配置了副本时由副本执行
+   * @param sql SQL语句
+   * @param params 查询参数，省略时语句按原样执行（可包含多条语句）
+   * @returns {Promise<QueryResult>} 查询结果
+   */
+  query(sql: string, params?: unknown[]): Promise<QueryResult>;
+}
+
+/**
+ * @interface TenantTableInfo
+ * @description 包含租户字段的表及其行级安全状态
+ */
+export interface TenantTableInfo {
+  /** Schema名称 */
+  schema: string;
+  /** 表名 */
+  table: string;
+  /** 租户字段类型 */
+  columnType: string;
+  /** 是否启用RLS */
+  rlsEnabled: boolean;
+  /** 是否对表所有者强制RLS */
+  rlsForced: boolean;
+  /** 是否存在租户隔离策略 */
+  hasPolicy: boolean;
+}
+
+/**
+ * 租户表的RLS问题
+ */
+export type RlsIssue = 'rls_disabled' | 'rls_not_forced' | 'policy_missing';
+
+/**
+ * @interface RlsVerificationReport
+ * @description 行级安全校验报告
+ */
+export interface RlsVerificationReport {
+  /** 所有租户表是否都受保护 */
+  ok: boolean;
+  /** 检查过的租户表 */
+  tables: TenantTableInfo[];
+  /** 未受保护的表及问题 */
+  unprotected: Array<{ schema: string; table: string; issues: RlsIssue[] }>;
+}
+
 /**
  * @interface IDatabaseAdapter
  * @description 数据库适配器接口
@@ -211,7 +309,7 @@ export interface IDatabaseAdapter {
 
   /**
    * @method execute
-   * @description 执行命令
+   * @description 执行命令，始终由主库执行
    * @param sql SQL语句
    * @param params 参数
    * @param options 执行选项
@@ -225,7 +323,7 @@ export interface IDatabaseAdapter {
 
   /**
    * @method transaction
-   * @description 执行事务
+   * @description 执行事务，始终由主库执行
    * @param callback 事务回调函数
    * @param options 事务选项
    * @returns {Promise<T>} 事务结果
@@ -316,6 +414,26 @@ export interface IDatabaseAdapter {
    * @returns {boolean} 是否启用
    */
   isRowLevelSecurityEnabled(): boolean;
+
+  /**
+   * @method applyRowLevelSecurityPolicies
+   * @description 为所有包含租户字段的表创建行级安全策略
+   * @param tenantIdField 租户字段名称
+   * @returns {Promise<TenantTableInfo[]>} 本次修改过的表
+   */
+  applyRowLevelSecurityPolicies(
+    tenantIdField?: string,
+  ): Promise<TenantTableInfo[]>;
+
+  /**
+   * @method verifyRowLevelSecurity
+   * @description 检查租户表是否都有行级安全策略
+   * @param tenantIdField 租户字段名称
+   * @returns {Promise<RlsVerificationReport>} 校验报告
+   */
+  verifyRowLevelSecurity(
+    tenantIdField?: string,
+  ): Promise<RlsVerificationReport>;
 }
 
 /**
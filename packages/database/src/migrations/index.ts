@@ -0,0 +1,7 @@
+/**
+ * @file index.ts
+ * @description 数据库迁移模块导出
+ */
+
+export * from './migration-runner';
+export * from './sql-migration.loader';
@@ -0,0 +1,253 @@
+/**
+ * @file migrate.cli.ts
+ * @description 数据库迁移命令
+ *
+ * 用法：pnpm --filter @aiofix/database build && pnpm --filter @aiofix/database migrate <status|up|down> [选项]
+ *
+ * 选项：
+ * - --target platform|events|tenant  迁移集合，默认platform
+ * - --tenant <租户ID>                 tenant集合执行到该租户的独立数据库，可重复
+ * - --shared                          tenant集合执行到平台数据库中表级隔离共享的租户表
+ * - --to <版本>                       up时最高执行到该版本，down时回滚到该版本
+ * - --steps <数量>                    down回滚的迁移数量，默认1
+ *
+ * tenant集合必须指定--tenant或--shared。Schema级隔离的租户Schema由TenantSchemaManager迁移，
+ * 迁移历史记录在各Schema的schema_migrations表中，本命令拒绝为这些租户执行。
+ *
+ * 迁移文件位于MIGRATIONS_DIR（默认为包目录下的migrations）的<target>子目录，目录不存在时报错；
+ * 连接参数读取POSTGRES_*、PLATFORM_DB_NAME、EVENTS_DB_NAME、TENANT_DB_PREFIX、DATA_ISOLATION_STRATEGY环境变量。
+ */
+
+import { existsSync } from 'fs';
+import { join, resolve } from 'path';
+import { Pool } from 'pg';
+import { MigrationDatabase, MigrationRunner } from './migration-runner';
+import { loadSqlMigrations } from './sql-migration.loader';
+
+const TARGETS = ['platform', 'events', 'tenant'] as const;
+type MigrationTarget = (typeof TARGETS)[number];
+
+interface CommandLine {
+  command: 'status' | 'up' | 'down';
+  target: MigrationTarget;
+  tenants: string[];
+  shared: boolean;
+  to?: string;
+  steps?: number;
+}
+
+function parseArgs(argv: string[]): CommandLine {
+  const [command, ...rest] = argv;
+  if (command !== 'status' && command !== 'up' && command !== 'down') {
+    throw new Error(
+      'Usage: migrate <status|up|down> [--target platform|events|tenant] [--tenant id | --shared] [--to version] [--steps n]',
+    );
+  }
+
+  const args: CommandLine = {
+    command,
+    target: 'platform',
+    tenants: [],
+    shared: false,
+  };
+  for (let i = 0; i < rest.length; i++) {
+    const option = rest[i];
+    if (option === '--shared') {
+      args.shared = true;
+      continue;
+    }
+    const value = rest[++i];
+    if (value === undefined) {
+      throw new Error(`Missing value for ${option}`);
+    }
+    switch (option) {
+      case '--target':
+        if (!TARGETS.includes(value as MigrationTarget)) {
+          throw new Error(`Unknown migration target: ${value}`);
+        }
+        args.target = value as MigrationTarget;
+        break;
+      case '--tenant':
+        args.tenants.push(value);
+        break;
+      case '--to':
+        args.to = value;
+        break;
+      case '--steps':
+        args.steps = parseInt(value);
+        break;
+      default:
+        throw new Error(`Unknown option: ${option}`);
+    }
+  }
+
+  if (args.target === 'tenant') {
+    if (args.tenants.length === 0 && !args.shared) {
+      throw new Error(
+        '--target tenant requires --tenant <id> for tenant databases or --shared for the shared tenant tables',
+      );
+    }
+    if (args.tenants.length > 0 && args.shared) {
+      throw new Error('--tenant and --shared cannot be combined');
+    }
+  } else if (args.tenants.length > 0 || args.shared) {
+    throw new Error('--tenant and --shared only apply to --target tenant');
+  }
+  return args;
+}
+
+async function resolveDatabases(args: CommandLine): Promise<string[]> {
+  const platformDb = process.env.PLATFORM_DB_NAME ?? 'aiofix_platform';
+  switch (args.target) {
+    case 'events':
+      return [process.env.EVENTS_DB_NAME ?? 'aiofix_events'];
+    case 'tenant': {
+      if (args.shared) {
+        return [platformDb];
+      }
+      await assertDatabaseLevelTenants(platformDb, args.tenants);
+      const prefix = process.env.TENANT_DB_PREFIX ?? 'aiofix_tenant_';
+      return args.tenants.map(tenantId => `${prefix}${tenantId}`);
+    }
+    default:
+      return [platformDb];
+  }
+}
+
+/**
+ * 租户策略以平台库tenant_isolation_strategies中的分配为准，未分配的租户使用全局策略
+ */
+async function assertDatabaseLevelTenants(
+  platformDb: string,
+  tenants: string[],
+): Promise<void> {
+  const pool = createPool(platformDb);
+  try {
+    const { rows } = await pool.query<{ exists: boolean }>(
+      "SELECT to_regclass('tenant_isolation_strategies') IS NOT NULL AS exists",
+    );
+    const assigned = new Map<string, string>();
+    if (rows[0]?.exists) {
+      const result = await pool.query<{ tenant_id: string; strategy: string }>(
+        'SELECT tenant_id, strategy FROM tenant_isolation_strategies WHERE tenant_id = ANY($1)',
+        [tenants],
+      );
+      for (const row of result.rows) {
+        assigned.set(row.tenant_id, row.strategy);
+      }
+    }
+
+    const fallback = process.env.DATA_ISOLATION_STRATEGY ?? 'table_level';
+    for (const tenantId of tenants) {
+      const strategy = assigned.get(tenantId) ?? fallback;
+      if (strategy !== 'database_level') {
+        throw new Error(
+          `Tenant ${tenantId} uses ${strategy}, not a tenant database: ${
+            strategy === 'schema_level'
+              ? 'its schema is migrated by TenantSchemaManager'
+              : 'migrate the shared tables with --shared'
+          }`,
+        );
+      }
+    }
+  } finally {
+    await pool.end();
+  }
+}
+
+function createPool(database: string): Pool {
+  return new Pool({
+    host: process.env.POSTGRES_HOST ?? 'localhost',
+    port: parseInt(process.env.POSTGRES_PORT ?? '5432'),
+    user: process.env.POSTGRES_USER ?? 'aiofix_user',
+    password: process.env.POSTGRES_PASSWORD ?? 'aiofix_password',
+    database,
+    max: 1,
+  });
+}
+
+function resolveMigrationsDirectory(target: MigrationTarget): string {
+  const directory = join(
+    process.env.MIGRATIONS_DIR ?? resolve(__dirname, '../../../../migrations'),
+    target,
+  );
+  if (!existsSync(directory)) {
+    throw new Error(
+      `No migrations for target ${target}: ${directory} does not exist`,
+    );
+  }
+  return directory;
+}
+
+function createDatabase(pool: Pool): MigrationDatabase {
+  return {
+    query: (sql, params) => pool.query(sql, params),
+    execute: (sql, params) => pool.query(sql, params),
+    transaction: async callback => {
+      const client = await pool.connect();
+      try {
+        await client.query('BEGIN');
+        const result = await callback(client);
+        await client.query('COMMIT');
+        return result;
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      } finally {
+        client.release();
+      }
+    },
+  };
+}
+
+async function migrate(
+  database: string,
+  directory: string,
+  args: CommandLine,
+): Promise<void> {
+  const pool = createPool(database);
+
+  try {
+    const runner = new MigrationRunner(
+      createDatabase(pool),
+      loadSqlMigrations(directory),
+      { scope: args.target },
+    );
+
+    if (args.command === 'up') {
+      const applied = await runner.up({ to: args.to });
+      console.log(
+        `${database}: applied ${applied.length} migration(s) ${applied.join(' ')}`,
+      );
+    } else if (args.command === 'down') {
+      const reverted = await runner.down({ to: args.to, steps: args.steps });
+      console.log(
+        `${database}: reverted ${reverted.length} migration(s) ${reverted.join(' ')}`,
+      );
+    } else {
+      console.log(`${database} (${args.target}):`);
+      for (const status of await runner.status()) {
+        console.log(
+          `  ${status.version} ${status.name} ${status.state}${
+            status.appliedAt ? ` ${status.appliedAt.toISOString()}` : ''
+          }`,
+        );
+      }
+    }
+  } finally {
+    await pool.end();
+  }
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+  const directory = resolveMigrationsDirectory(args.target);
+  for (const database of await resolveDatabases(args)) {
+    await migrate(database, directory, args);
+  }
+}
+
+main().catch((error: unknown) => {
+  console.error('Migration failed:', error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,260 @@
+/**
+ * @file migration-runner.spec.ts
+ * @description 版本化SQL迁移执行器单元测试
+ */
+
+import { knex } from 'knex';
+import {
+  defineSqlMigration,
+  MigrationHistoryError,
+  MigrationRunner,
+  SqlMigration,
+} from './migration-runner';
+
+interface HistoryEntry {
+  scope: string;
+  version: string;
+  name: string;
+  checksum: string;
+  applied_at: Date;
+}
+
+/**
+ * 内存数据库：记录迁移历史和执行过的迁移SQL，事务失败时回滚
+ */
+class FakeDatabase {
+  history: HistoryEntry[] = [];
+  executed: string[] = [];
+  locks: string[] = [];
+  failOn?: string;
+
+  async run(sql: string, params: unknown[] = []): Promise<any> {
+    if (sql.startsWith('CREATE TABLE IF NOT EXISTS "database_migrations"')) {
+      return { rows: [] };
+    }
+    if (sql.startsWith('SELECT pg_advisory_xact_lock')) {
+      this.locks.push(params[0] as string);
+      return { rows: [] };
+    }
+    if (sql.startsWith('SELECT version, name, checksum, applied_at')) {
+      return {
+        rows: this.history
+          .filter(row => row.scope === params[0])
+          .sort((a, b) => a.version.localeCompare(b.version)),
+      };
+    }
+    if (sql.startsWith('INSERT INTO "database_migrations"')) {
+      const [scope, version, name, checksum] = params as string[];
+      this.history.push({
+        scope,
+        version,
+        name,
+        checksum,
+        applied_at: new Date(0),
+      });
+      return { rows: [], rowCount: 1 };
+    }
+    if (sql.startsWith('DELETE FROM "database_migrations"')) {
+      this.history = this.history.filter(
+        row => row.scope !== params[0] || row.version !== params[1],
+      );
+      return { rows: [], rowCount: 1 };
+    }
+    if (this.failOn && sql.includes(this.failOn)) {
+      throw new Error(`failed: ${this.failOn}`);
+    }
+    this.executed.push(sql);
+    return { rows: [] };
+  }
+
+  /** PostgreSQLAdapter的事务句柄是Knex事务，语句经Knex编译后执行 */
+  knexAdapter(): any {
+    const client = knex({ client: 'pg' });
+    const raw = (sql: string, bindings?: unknown[]): Promise<any> => {
+      const native = client
+        .raw(sql, bindings as any)
+        .toSQL()
+        .toNative();
+      return this.run(native.sql, [...native.bindings]);
+    };
+    return {
+      ...this.adapter(),
+      transaction: jest.fn(async callback => callback({ raw })),
+    };
+  }
+
+  adapter(): any {
+    const run = (sql: string, params?: unknown[]): Promise<any> =>
+      this.run(sql, params);
+    return {
+      query: jest.fn(run),
+      execute: jest.fn(run),
+      transaction: jest.fn(async callback => {
+        const history = [...this.history];
+        const executed = [...this.executed];
+        try {
+          return await callback({ query: run });
+        } catch (error) {
+          this.history = history;
+          this.executed = executed;
+          throw error;
+        }
+      }),
+    };
+  }
+}
+
+const migrations: SqlMigration[] = [
+  defineSqlMigration(
+    '0002',
+    'add_avatar',
+    'ALTER TABLE users ADD COLUMN avatar TEXT',
+    'ALTER TABLE users DROP COLUMN avatar',
+  ),
+  defineSqlMigration(
+    '0001',
+    'create_users',
+    'CREATE TABLE users (id UUID PRIMARY KEY)',
+    'DROP TABLE users',
+  ),
+  defineSqlMigration(
+    '0003',
+    'seed',
+    'INSERT INTO users VALUES (gen_random_uuid())',
+  ),
+];
+
+describe('MigrationRunner', () => {
+  let db: FakeDatabase;
+  let runner: MigrationRunner;
+
+  beforeEach(() => {
+    db = new FakeDatabase();
+    runner = new MigrationRunner(db.adapter(), migrations, {
+      scope: 'platform',
+    });
+  });
+
+  it('should apply pending migrations in version order under the advisory lock', async () => {
+    await expect(runner.up({ to: '0002' })).resolves.toEqual(['0001', '0002']);
+
+    expect(db.executed).toEqual([
+      'CREATE TABLE users (id UUID PRIMARY KEY)',
+      'ALTER TABLE users ADD COLUMN avatar TEXT',
+    ]);
+    expect(db.locks).toEqual([
+      'database_migrations:platform',
+      'database_migrations:platform',
+    ]);
+    await expect(runner.up()).resolves.toEqual(['0003']);
+    await expect(runner.up()).resolves.toEqual([]);
+  });
+
+  it('should report the status of every migration', async () => {
+    await runner.up({ to: '0001' });
+
+    const status = await runner.status();
+
+    expect(status.map(s => [s.version, s.state])).toEqual([
+      ['0001', 'applied'],
+      ['0002', 'pending'],
+      ['0003', 'pending'],
+    ]);
+    expect(status[0].appliedAt).toEqual(new Date(0));
+  });
+
+  it('should refuse to run when an applied migration was edited or removed', async () => {
+    await runner.up({ to: '0002' });
+    const edited = new MigrationRunner(
+      db.adapter(),
+      [
+        defineSqlMigration('0001', 'create_users', 'CREATE TABLE users ()'),
+        migrations[2],
+      ],
+      { scope: 'platform' },
+    );
+
+    await expect(edited.status()).resolves.toEqual([
+      expect.objectContaining({ version: '0001', state: 'changed' }),
+      expect.objectContaining({ version: '0002', state: 'missing' }),
+      expect.objectContaining({ version: '0003', state: 'pending' }),
+    ]);
+    await expect(edited.up()).rejects.toBeInstanceOf(MigrationHistoryError);
+    expect(db.executed).toHaveLength(2);
+  });
+
+  it('should skip migrations applied by a concurrent runner while waiting for the lock', async () => {
+    const adapter = db.adapter();
+    const concurrent = new MigrationRunner(adapter, migrations, {
+      scope: 'platform',
+    });
+    const transaction = adapter.transaction.getMockImplementation();
+    adapter.transaction.mockImplementationOnce(async (callback: any) => {
+      // 另一个执行器在本执行器拿到锁之前完成了0001
+      await runner.up({ to: '0001' });
+      return transaction(callback);
+    });
+
+    await expect(concurrent.up({ to: '0002' })).resolves.toEqual(['0002']);
+    expect(db.executed.filter(sql => sql.startsWith('CREATE'))).toHaveLength(1);
+  });
+
+  it('should keep the history unchanged when a migration fails', async () => {
+    db.failOn = 'avatar';
+
+    await expect(runner.up()).rejects.toThrow('failed: avatar');
+
+    const status = await runner.status();
+    expect(status.map(s => s.state)).toEqual(['applied', 'pending', 'pending']);
+  });
+
+  it('should revert migrations in reverse order', async () => {
+    await runner.up({ to: '0002' });
+
+    await expect(runner.down()).resolves.toEqual(['0002']);
+    await runner.up({ to: '0002' });
+    await expect(runner.down({ to: '0' })).resolves.toEqual(['0002', '0001']);
+    expect(db.executed.slice(-2)).toEqual([
+      'ALTER TABLE users DROP COLUMN avatar',
+      'DROP TABLE users',
+    ]);
+  });
+
+  it('should not revert anything when a migration has no down SQL', async () => {
+    await runner.up();
+
+    await expect(runner.down({ steps: 2 })).rejects.toThrow(
+      'Migration 0003 cannot be reverted',
+    );
+    expect(db.history).toHaveLength(3);
+  });
+
+  it('should keep migration histories of different scopes apart', async () => {
+    await runner.up();
+    const events = new MigrationRunner(db.adapter(), migrations.slice(0, 1), {
+      scope: 'events',
+    });
+
+    await expect(events.status()).resolves.toEqual([
+      expect.objectContaining({ version: '0002', state: 'pending' }),
+    ]);
+  });
+
+  it('should run migration SQL verbatim inside Knex transactions', async () => {
+    const up = `CREATE FUNCTION has_key(doc JSONB, key TEXT) RETURNS BOOLEAN AS $$
+      BEGIN RETURN doc ? $2; END;
+    $$ LANGUAGE plpgsql;
+    CREATE INDEX users_profile ON users USING GIN (profile);`;
+    const knexRunner = new MigrationRunner(
+      db.knexAdapter(),
+      [defineSqlMigration('0001', 'has_key', up)],
+      { scope: 'platform' },
+    );
+
+    await expect(knexRunner.up()).resolves.toEqual(['0001']);
+    expect(db.executed).toEqual([up]);
+    expect(db.history).toEqual([
+      expect.objectContaining({ scope: 'platform', version: '0001' }),
+    ]);
+  });
+});
@@ -0,0 +1,395 @@
+/**
+ * @file migration-runner.ts
+ * @description 版本化SQL迁移执行器
+ *
+ * 对任意数据库适配器（平台库、事件库、租户库）执行版本化的SQL迁移：
+ * - 迁移历史记录每个版本的校验和，已执行的迁移内容被修改时拒绝继续
+ * - 每个迁移在独立事务中执行，并持有事务级advisory锁，多个执行器并发运行时互斥
+ * - 支持回滚（down）和状态报告
+ */
+
+import { createHash } from 'crypto';
+import type {
+  IDatabaseAdapter,
+  ISqlExecutor,
+} from '../interfaces/database.interface';
+import { createSqlExecutor } from '../adapters/sql-executor';
+
+/**
+ * @interface SqlMigration
+ * @description SQL迁移
+ */
+export interface SqlMigration {
+  /** 版本号，按字典序执行，如'0001' */
+  version: string;
+  /** 迁移名称 */
+  name: string;
+  /** 升级SQL */
+  up: string;
+  /** 回滚SQL，未提供时该迁移不能回滚 */
+  down?: string;
+  /** 升级SQL的校验和 */
+  checksum: string;
+}
+
+/**
+ * @type MigrationState
+ * @description 迁移状态
+ * - applied：已执行
+ * - pending：待执行
+ * - changed：已执行但迁移内容已被修改
+ * - missing：已执行但迁移文件已不存在
+ */
+export type MigrationState = 'applied' | 'pending' | 'changed' | 'missing';
+
+/**
+ * @interface MigrationStatus
+ * @description 单个迁移的状态
+ */
+export interface MigrationStatus {
+  /** 版本号 */
+  version: string;
+  /** 迁移名称 */
+  name: string;
+  /** 状态 */
+  state: MigrationState;
+  /** 当前迁移内容的校验和（missing时为空） */
+  checksum?: string;
+  /** 执行时记录的校验和 */
+  appliedChecksum?: string;
+  /** 执行时间 */
+  appliedAt?: Date;
+}
+
+/**
+ * @interface MigrationRunnerOptions
+ * @description 迁移执行器选项
+ */
+export interface MigrationRunnerOptions {
+  /** 迁移范围，同一数据库中不同的迁移集合使用不同的范围，默认default */
+  scope?: string;
+  /** 迁移历史表名，默认database_migrations */
+  historyTable?: string;
+}
+
+/**
+ * @class MigrationHistoryError
+ * @description 迁移历史与迁移文件不一致（已执行的迁移被修改或删除）
+ */
+export class MigrationHistoryError extends Error {
+  constructor(
+    public readonly scope: string,
+    public readonly conflicts: MigrationStatus[],
+  ) {
+    super(
+      `Migration history of scope ${scope} does not match the migrations: ${conflicts
+        .map(conflict => `${conflict.version} ${conflict.state}`)
+        .join(', ')}`,
+    );
+    this.name = 'MigrationHistoryError';
+  }
+}
+
+/**
+ * @function defineSqlMigration
+ * @description 创建SQL迁移并计算校验和
+ * @param {string} version 版本号
+ * @param {string} name 迁移名称
+ * @param {string} up 升级SQL
+ * @param {string} [down] 回滚SQL
+ * @returns {SqlMigration} SQL迁移
+ */
+export function defineSqlMigration(
+  version: string,
+  name: string,
+  up: string,
+  down?: string,
+): SqlMigration {
+  const normalized = up.replace(/\r\n/g, '\n').trim();
+  return {
+    version,
+    name,
+    up,
+    down,
+    checksum: createHash('sha256').update(normalized).digest('hex'),
+  };
+}
+
+/**
+ * 迁移执行器所需的数据库操作，IDatabaseAdapter或命令行使用的pg连接
+ */
+export type MigrationDatabase = Pick<
+  IDatabaseAdapter,
+  'query' | 'execute' | 'transaction'
+>;
+
+interface HistoryRow {
+  version: string;
+  name: string;
+  checksum: string;
+  applied_at: Date;
+}
+
+/**
+ * @class MigrationRunner
+ * @description
+ * 版本化SQL迁移执行器。
+ *
+ * 升级流程：
+ * 1. 比对迁移历史和迁移内容，存在changed或missing时抛出MigrationHistoryError
+ * 2. 按版本顺序逐个执行待执行的迁移，每个迁移一个事务
+ * 3. 事务内先获取该范围的advisory锁，再次检查历史，已被其他执行器执行的版本跳过
+ * 4. 执行升级SQL并在同一事务中写入历史
+ *
+ * 回滚按版本倒序逐个执行down并删除历史，同样在锁内进行。
+ *
+ * @example
+ * ```typescript
+ * const runner = new MigrationRunner(
+ *   factory.createPlatformAdapter(),
+ *   loadSqlMigrations('migrations/platform'),
+ *   { scope: 'platform' },
+ * );
+ * await runner.up();
+ * console.table(await runner.status());
+ * ```
+ */
+export class MigrationRunner {
+  private readonly migrations: SqlMigration[];
+  private readonly scope: string;
+  private readonly historyTable: string;
+
+  constructor(
+    private readonly adapter: MigrationDatabase,
+    migrations: SqlMigration[],
+    options: MigrationRunnerOptions = {},
+  ) {
+    this.scope = options.scope ?? 'default';
+    this.historyTable = options.historyTable ?? 'database_migrations';
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(this.historyTable)) {
+      throw new Error(`Invalid migration history table: ${this.historyTable}`);
+    }
+
+    this.migrations = [...migrations].sort((a, b) =>
+      a.version.localeCompare(b.version),
+    );
+    const versions = new Set(this.migrations.map(m => m.version));
+    if (versions.size !== this.migrations.length) {
+      throw new Error('Duplicate migration version');
+    }
+  }
+
+  /**
+   * @method status
+   * @description 获取所有迁移的状态，按版本排序
+   * @returns {Promise<MigrationStatus[]>} 迁移状态
+   */
+  async status(): Promise<MigrationStatus[]> {
+    await this.ensureHistoryTable();
+    const history = await this.readHistory(this.adapter);
+
+    const statuses: MigrationStatus[] = this.migrations.map(migration => {
+      const applied = history.get(migration.version);
+      if (!applied) {
+        return {
+          version: migration.version,
+          name: migration.name,
+          state: 'pending',
+          checksum: migration.checksum,
+        };
+      }
+      return {
+        version: migration.version,
+        name: migration.name,
+        state: applied.checksum === migration.checksum ? 'applied' : 'changed',
+        checksum: migration.checksum,
+        appliedChecksum: applied.checksum,
+        appliedAt: applied.applied_at,
+      };
+    });
+
+    const known = new Set(this.migrations.map(m => m.version));
+    for (const applied of history.values()) {
+      if (!known.has(applied.version)) {
+        statuses.push({
+          version: applied.version,
+          name: applied.name,
+          state: 'missing',
+          appliedChecksum: applied.checksum,
+          appliedAt: applied.applied_at,
+        });
+      }
+    }
+
+    return statuses.sort((a, b) => a.version.localeCompare(b.version));
+  }
+
+  /**
+   * @method up
+   * @description 执行待执行的迁移
+   * @param {object} [options] 升级选项
+   * @param {string} [options.to] 最高执行到该版本（含）
+   * @returns {Promise<string[]>} 本次执行的版本
+   * @throws {MigrationHistoryError} 当已执行的迁移被修改或删除时抛出
+   */
+  async up(options: { to?: string } = {}): Promise<string[]> {
+    const statuses = await this.status();
+    this.assertHistoryIntact(statuses);
+
+    const pending = new Set(
+      statuses.filter(s => s.state === 'pending').map(s => s.version),
+    );
+    const applied: string[] = [];
+    for (const migration of this.migrations) {
+      if (!pending.has(migration.version)) {
+        continue;
+      }
+      if (options.to && migration.version > options.to) {
+        break;
+      }
+
+      const executed = await this.inLockedTransaction(async executor => {
+        const history = await this.readHistory(executor);
+        const existing = history.get(migration.version);
+        if (existing) {
+          if (existing.checksum !== migration.checksum) {
+            throw new MigrationHistoryError(this.scope, [
+              {
+                version: migration.version,
+                name: migration.name,
+                state: 'changed',
+                checksum: migration.checksum,
+                appliedChecksum: existing.checksum,
+              },
+            ]);
+          }
+          return false;
+        }
+
+        await executor.query(migration.up);
+        await executor.query(
+          `INSERT INTO ${this.historyTableName()} (scope, version, name, checksum)
+           VALUES ($1, $2, $3, $4)`,
+          [this.scope, migration.version, migration.name, migration.checksum],
+        );
+        return true;
+      });
+
+      if (executed) {
+        applied.push(migration.version);
+      }
+    }
+
+    return applied;
+  }
+
+  /**
+   * @method down
+   * @description 按版本倒序回滚已执行的迁移
+   * @param {object} [options] 回滚选项
+   * @param {number} [options.steps] 回滚的迁移数量，默认1；指定to时忽略
+   * @param {string} [options.to] 回滚到该版本（该版本保留），'0'表示全部回滚
+   * @returns {Promise<string[]>} 本次回滚的版本
+   * @throws {MigrationHistoryError} 当已执行的迁移被修改或删除时抛出
+   * @throws {Error} 当迁移没有回滚SQL时抛出
+   */
+  async down(options: { steps?: number; to?: string } = {}): Promise<string[]> {
+    const statuses = await this.status();
+    this.assertHistoryIntact(statuses);
+
+    const applied = statuses
+      .filter(s => s.state === 'applied')
+      .map(s => s.version)
+      .reverse();
+    const targets =
+      options.to !== undefined
+        ? applied.filter(version => version > options.to!)
+        : applied.slice(0, options.steps ?? 1);
+
+    const byVersion = new Map(this.migrations.map(m => [m.version, m]));
+    for (const version of targets) {
+      if (!byVersion.get(version)!.down) {
+        throw new Error(`Migration ${version} cannot be reverted: no down SQL`);
+      }
+    }
+
+    const reverted: string[] = [];
+    for (const version of targets) {
+      const migration = byVersion.get(version)!;
+      const executed = await this.inLockedTransaction(async executor => {
+        const history = await this.readHistory(executor);
+        if (!history.has(version)) {
+          return false;
+        }
+        await executor.query(migration.down!);
+        await executor.query(
+          `DELETE FROM ${this.historyTableName()} WHERE scope = $1 AND version = $2`,
+          [this.scope, version],
+        );
+        return true;
+      });
+
+      if (executed) {
+        reverted.push(version);
+      }
+    }
+
+    return reverted;
+  }
+
+  /**
+   * @method ensureHistoryTable
+   * @description 创建迁移历史表（已存在时跳过）
+   * @returns {Promise<void>}
+   */
+  async ensureHistoryTable(): Promise<void> {
+    await this.adapter.execute(
+      `CREATE TABLE IF NOT EXISTS ${this.historyTableName()} (
+         scope TEXT NOT NULL,
+         version TEXT NOT NULL,
+         name TEXT NOT NULL,
+         checksum TEXT NOT NULL,
+         applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+         PRIMARY KEY (scope, version)
+       )`,
+    );
+  }
+
+  private async inLockedTransaction<T>(
+    callback: (executor: ISqlExecutor) => Promise<T>,
+  ): Promise<T> {
+    return this.adapter.transaction(async trx => {
+      const executor = createSqlExecutor(trx);
+      await executor.query('SELECT pg_advisory_xact_lock(hashtext($1))', [
+        `${this.historyTable}:${this.scope}`,
+      ]);
+      return callback(executor);
+    });
+  }
+
+  private async readHistory(
+    executor: ISqlExecutor,
+  ): Promise<Map<string, HistoryRow>> {
+    const result = await executor.query(
+      `SELECT version, name, checksum, applied_at FROM ${this.historyTableName()}
+       WHERE scope = $1 ORDER BY version`,
+      [this.scope],
+    );
+    return new Map(
+      (result.rows as HistoryRow[]).map(row => [row.version, row]),
+    );
+  }
+
+  private assertHistoryIntact(statuses: MigrationStatus[]): void {
+    const conflicts = statuses.filter(
+      s => s.state === 'changed' || s.state === 'missing',
+    );
+    if (conflicts.length > 0) {
+      throw new MigrationHistoryError(this.scope, conflicts);
+    }
+  }
+
+  private historyTableName(): string {
+    return `"${this.historyTable}"`;
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * @file sql-migration.loader.spec.ts
+ * @description SQL迁移文件加载单元测试
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { loadSqlMigrations } from './sql-migration.loader';
+
+describe('loadSqlMigrations', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'migrations-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  const write = (file: string, content: string): void =>
+    writeFileSync(join(directory, file), content);
+
+  it('should pair up and down files by version', () => {
+    write('0002_add_avatar.up.sql', 'ALTER TABLE users ADD COLUMN avatar TEXT');
+    write('0001_create_users.up.sql', 'CREATE TABLE users ()\r\n');
+    write('0001_create_users.down.sql', 'DROP TABLE users');
+    write('README.md', 'ignored');
+
+    const migrations = loadSqlMigrations(directory);
+
+    expect(migrations.map(m => [m.version, m.name, m.down])).toEqual([
+      ['0001', 'create_users', 'DROP TABLE users'],
+      ['0002', 'add_avatar', undefined],
+    ]);
+    expect(migrations[0].checksum).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('should ignore line ending differences in checksums', () => {
+    write('0001_create_users.up.sql', 'CREATE TABLE users ()\r\n');
+    const windows = loadSqlMigrations(directory)[0].checksum;
+    write('0001_create_users.up.sql', 'CREATE TABLE users ()\n');
+
+    expect(loadSqlMigrations(directory)[0].checksum).toBe(windows);
+  });
+
+  it('should reject conflicting or incomplete migrations', () => {
+    write('0001_create_users.down.sql', 'DROP TABLE users');
+    expect(() => loadSqlMigrations(directory)).toThrow('has no up file');
+
+    write('0001_create_accounts.up.sql', 'CREATE TABLE accounts ()');
+    expect(() => loadSqlMigrations(directory)).toThrow(
+      'Migration version 0001 is used by',
+    );
+  });
+
+  it('should reject files that do not follow the naming scheme', () => {
+    write('create_users.sql', 'CREATE TABLE users ()');
+
+    expect(() => loadSqlMigrations(directory)).toThrow(
+      'Invalid migration file name: create_users.sql',
+    );
+  });
+
+  it('should return no migrations for a missing directory', () => {
+    expect(loadSqlMigrations(join(directory, 'events'))).toEqual([]);
+  });
+});
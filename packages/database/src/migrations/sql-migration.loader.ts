@@ -0,0 +1,60 @@
+/**
+ * @file sql-migration.loader.ts
+ * @description 从目录加载SQL迁移文件
+ *
+ * 文件命名：<版本>_<名称>.up.sql 与可选的 <版本>_<名称>.down.sql，如：
+ * - 0001_create_users.up.sql
+ * - 0001_create_users.down.sql
+ */
+
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { defineSqlMigration, SqlMigration } from './migration-runner';
+
+const MIGRATION_FILE = /^(\d+)_([A-Za-z0-9_-]+)\.(up|down)\.sql$/;
+
+/**
+ * @function loadSqlMigrations
+ * @description 加载目录中的SQL迁移，目录不存在时返回空列表
+ * @param {string} directory 迁移目录
+ * @returns {SqlMigration[]} 按版本排序的迁移
+ * @throws {Error} 当文件名不合法、版本重复或只有回滚文件时抛出
+ */
+export function loadSqlMigrations(directory: string): SqlMigration[] {
+  if (!existsSync(directory)) {
+    return [];
+  }
+
+  const files = new Map<string, { name: string; up?: string; down?: string }>();
+  for (const file of readdirSync(directory).sort()) {
+    if (!file.endsWith('.sql')) {
+      continue;
+    }
+    const match = MIGRATION_FILE.exec(file);
+    if (!match) {
+      throw new Error(`Invalid migration file name: ${file}`);
+    }
+
+    const [, version, name, direction] = match;
+    const entry = files.get(version) ?? { name };
+    if (entry.name !== name) {
+      throw new Error(
+        `Migration version ${version} is used by ${entry.name} and ${name}`,
+      );
+    }
+    entry[direction as 'up' | 'down'] = readFileSync(
+      join(directory, file),
+      'utf8',
+    );
+    files.set(version, entry);
+  }
+
+  return [...files.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([version, entry]) => {
+      if (entry.up === undefined) {
+        throw new Error(`Migration ${version}_${entry.name} has no up file`);
+      }
+      return defineSqlMigration(version, entry.name, entry.up, entry.down);
+    });
+}
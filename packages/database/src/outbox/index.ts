@@ -0,0 +1,6 @@
+/**
+ * @file index.ts
+ * @description 事务性发件箱模块导出
+ */
+
+export { PostgreSQLOutboxStore } from './postgresql-outbox.store';
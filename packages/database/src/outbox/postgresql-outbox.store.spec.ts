@@ -0,0 +1,241 @@
+/**
+ * @file postgresql-outbox.store.spec.ts
+ * @description PostgreSQL发件箱存储单元测试
+ */
+
+import { DomainEvent } from '@aiofix/core';
+import { PostgreSQLOutboxStore } from './postgresql-outbox.store';
+import { createSqlExecutor, toKnexBindings } from '../adapters/sql-executor';
+import { TenantAwareRepository } from '../repositories/tenant-aware.repository';
+import {
+  IsolationConfigService,
+  IsolationStrategy,
+} from '../config/isolation.config';
+import { DatabaseAdapterFactory } from '../adapters/database-adapter.factory';
+import { IDatabaseAdapter } from '../interfaces/database.interface';
+
+class OrderPlacedEvent extends DomainEvent {
+  constructor(aggregateId: string) {
+    super(aggregateId);
+  }
+
+  toJSON(): Record<string, unknown> {
+    return {};
+  }
+}
+
+interface OrderEntity {
+  id: string;
+  total: number;
+}
+
+class OrderRepository extends TenantAwareRepository<OrderEntity> {
+  protected getTableName(): string {
+    return 'orders';
+  }
+
+  protected mapRowToEntity(row: any): OrderEntity {
+    return row;
+  }
+
+  protected mapEntityToRow(entity: OrderEntity): any {
+    return entity;
+  }
+}
+
+describe('PostgreSQLOutboxStore', () => {
+  let trx: { raw: jest.Mock };
+  let adapter: jest.Mocked<IDatabaseAdapter>;
+  let store: PostgreSQLOutboxStore;
+
+  beforeEach(() => {
+    trx = { raw: jest.fn().mockResolvedValue({ rows: [], rowCount: 0 }) };
+    adapter = {
+      query: jest.fn().mockResolvedValue({ rows: [], rowCount: 0 }),
+      transaction: jest.fn(async callback => callback(trx)),
+    } as any;
+    store = new PostgreSQLOutboxStore(adapter);
+  });
+
+  it('should reject unsafe table names', () => {
+    expect(
+      () => new PostgreSQLOutboxStore(adapter, 'outbox; DROP TABLE x'),
+    ).toThrow('Invalid outbox table name');
+  });
+
+  it('should append messages idempotently through the given executor', async () => {
+    const executor = { query: jest.fn().mockResolvedValue({ rows: [] }) };
+    const createdAt = new Date('2024-01-01T00:00:00Z');
+
+    await store.append(executor, [
+      {
+        messageId: 'event-1',
+        aggregateId: 'order-1',
+        eventType: 'OrderPlacedEvent',
+        tenantId: 'tenant-1',
+        payload: { eventId: 'event-1' } as any,
+        attempts: 0,
+        createdAt,
+        availableAt: createdAt,
+      },
+    ]);
+
+    const [sql, params] = executor.query.mock.calls[0];
+    expect(sql).toContain('INSERT INTO outbox_messages');
+    expect(sql).toContain('ON CONFLICT (message_id) DO NOTHING');
+    expect(params).toEqual([
+      'event-1',
+      'order-1',
+      'OrderPlacedEvent',
+      'tenant-1',
+      JSON.stringify({ eventId: 'event-1' }),
+      createdAt,
+      createdAt,
+    ]);
+  });
+
+  it('should claim messages under an advisory lock in position order', async () => {
+    trx.raw.mockResolvedValueOnce({ rows: [] }).mockResolvedValueOnce({
+      rows: [
+        {
+          position: '2',
+          message_id: 'event-2',
+          aggregate_id: 'order-1',
+          event_type: 'OrderPlacedEvent',
+          tenant_id: null,
+          payload: {},
+          attempts: 0,
+          created_at: new Date(),
+          available_at: new Date(),
+          last_error: null,
+        },
+        {
+          position: '1',
+          message_id: 'event-1',
+          aggregate_id: 'order-1',
+          event_type: 'OrderPlacedEvent',
+          tenant_id: 'tenant-1',
+          payload: {},
+          attempts: 1,
+          created_at: new Date(),
+          available_at: new Date(),
+          last_error: 'timeout',
+        },
+      ],
+    });
+
+    const messages = await store.claimPending(10, 30000);
+
+    expect(adapter.transaction).toHaveBeenCalledTimes(1);
+    expect(trx.raw.mock.calls[0]).toEqual([
+      'SELECT pg_advisory_xact_lock(hashtext(?))',
+      ['outbox_messages'],
+    ]);
+    // Knex按占位符出现顺序绑定参数
+    expect(trx.raw.mock.calls[1][1]).toEqual([30000, 10]);
+    expect(messages.map(m => m.messageId)).toEqual(['event-1', 'event-2']);
+    expect(messages[0]).toMatchObject({ tenantId: 'tenant-1', attempts: 1 });
+    expect(messages[1].tenantId).toBeUndefined();
+  });
+
+  it('should mark messages as published and failed', async () => {
+    const retryAt = new Date('2024-01-01T00:01:00Z');
+
+    await store.markPublished(['event-1']);
+    await store.markFailed('event-2', 'broker down', retryAt);
+
+    expect(adapter.query.mock.calls[0][1]).toEqual([['event-1']]);
+    expect(adapter.query.mock.calls[1][1]).toEqual([
+      'event-2',
+      'broker down',
+      retryAt,
+    ]);
+  });
+});
+
+describe('createSqlExecutor', () => {
+  it('should convert positional parameters for knex transactions', () => {
+    expect(
+      toKnexBindings('SELECT * FROM t WHERE a = $2 AND b = $1 AND c ? $2', [
+        'x',
+        'y',
+      ]),
+    ).toEqual({
+      text: 'SELECT * FROM t WHERE a = ? AND b = ? AND c \\? ?',
+      bindings: ['y', 'x', 'y'],
+    });
+  });
+
+  it('should pass queries straight through to pg clients', async () => {
+    const client = { query: jest.fn().mockResolvedValue({ rows: [] }) };
+
+    await createSqlExecutor(client).query('SELECT $1', [1]);
+
+    expect(client.query).toHaveBeenCalledWith('SELECT $1', [1]);
+  });
+
+  it('should reject unsupported transaction handles', () => {
+    expect(() => createSqlExecutor({})).toThrow(
+      'Unsupported transaction handle',
+    );
+  });
+});
+
+describe('TenantAwareRepository outbox integration', () => {
+  let trx: { raw: jest.Mock };
+  let adapter: jest.Mocked<IDatabaseAdapter>;
+  let repository: OrderRepository;
+
+  beforeEach(() => {
+    trx = {
+      raw: jest.fn().mockResolvedValue({ rows: [{ id: 'order-1' }] }),
+    };
+    adapter = {
+      query: jest.fn(),
+      transaction: jest.fn(async callback => callback(trx)),
+    } as any;
+    const adapterFactory = {
+      createAdapter: jest.fn().mockReturnValue(adapter),
+    } as unknown as DatabaseAdapterFactory;
+    const isolationConfig = {
+      getStrategy: jest.fn().mockReturnValue(IsolationStrategy.TABLE_LEVEL),
+      isTableLevel: jest.fn().mockReturnValue(false),
+      isSchemaLevel: jest.fn().mockReturnValue(false),
+      isDatabaseLevel: jest.fn().mockReturnValue(false),
+      getDefaultTenantId: jest.fn().mockReturnValue('default'),
+    } as unknown as IsolationConfigService;
+
+    repository = new OrderRepository(
+      adapterFactory,
+      isolationConfig,
+      'tenant-1',
+    );
+  });
+
+  it('should write the record and the outbox in the same transaction', async () => {
+    repository.setOutboxStore(new PostgreSQLOutboxStore(adapter));
+    const event = new OrderPlacedEvent('order-1');
+
+    const created = await repository.createWithEvents(
+      { id: 'order-1', total: 10 },
+      [event],
+    );
+
+    expect(created).toEqual({ id: 'order-1' });
+    expect(adapter.transaction).toHaveBeenCalledTimes(1);
+    expect(adapter.query).not.toHaveBeenCalled();
+    expect(trx.raw).toHaveBeenCalledTimes(2);
+    expect(trx.raw.mock.calls[0][0]).toContain('INSERT INTO orders');
+    expect(trx.raw.mock.calls[1][0]).toContain('INSERT INTO outbox_messages');
+    expect(trx.raw.mock.calls[1][1]).toEqual(
+      expect.arrayContaining([event.eventId, 'order-1', 'tenant-1']),
+    );
+  });
+
+  it('should fail when no outbox store is configured', async () => {
+    await expect(
+      repository.createWithEvents({ id: 'order-1', total: 10 }, []),
+    ).rejects.toThrow('Outbox store is not configured');
+    expect(adapter.transaction).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * @file postgresql-outbox.store.ts
+ * @description 基于PostgreSQL的事务性发件箱存储
+ *
+ * 发件箱表与业务表位于同一数据库，仓储在保存聚合根的事务中写入发件箱，
+ * 由OutboxRelay异步投递到消息队列，避免"数据已保存但事件丢失"或"事件已发布但数据回滚"。
+ */
+
+import type { IOutboxStore, OutboxMessage } from '@aiofix/core';
+import type {
+  IDatabaseAdapter,
+  ISqlExecutor,
+} from '../interfaces/database.interface';
+import { createSqlExecutor } from '../adapters/sql-executor';
+
+/**
+ * @interface OutboxRow
+ * @description 发件箱表的行结构
+ */
+interface OutboxRow {
+  position: string;
+  message_id: string;
+  aggregate_id: string;
+  event_type: string;
+  tenant_id: string | null;
+  payload: OutboxMessage['payload'];
+  attempts: number;
+  created_at: Date;
+  available_at: Date;
+  last_error: string | null;
+}
+
+/**
+ * @class PostgreSQLOutboxStore
+ * @description PostgreSQL发件箱存储
+ *
+ * 表结构：
+ * - position：自增序号，决定投递顺序
+ * - message_id：幂等键（领域事件ID），重复写入会被忽略
+ * - available_at / locked_until：失败退避和中继占用
+ * - published_at：投递完成时间
+ *
+ * 并发中继：
+ * 占用消息时在事务内获取advisory锁，多个中继进程串行占用，
+ * 同一聚合根中存在退避中或已被占用的更早消息时，之后的消息不会被占用。
+ *
+ * @implements {IOutboxStore}
+ */
+export class PostgreSQLOutboxStore implements IOutboxStore {
+  constructor(
+    private readonly adapter: IDatabaseAdapter,
+    private readonly tableName: string = 'outbox_messages',
+  ) {
+    if (
+      !/^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)?$/.test(tableName)
+    ) {
+      throw new Error(`Invalid outbox table name: ${tableName}`);
+    }
+  }
+
+  /**
+   * @method getCreateTableSql
+   * @description 获取创建发件箱表的DDL，供迁移脚本使用
+   * @returns {string} DDL语句
+   */
+  getCreateTableSql(): string {
+    const indexName = `${this.tableName.replace('.', '_')}_pending_idx`;
+    return `
+      CREATE TABLE IF NOT EXISTS ${this.tableName} (
+        position BIGSERIAL PRIMARY KEY,
+        message_id VARCHAR(255) NOT NULL UNIQUE,
+        aggregate_id VARCHAR(255) NOT NULL,
+        event_type VARCHAR(255) NOT NULL,
+        tenant_id VARCHAR(255),
+        payload JSONB NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        last_error TEXT,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        available_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        locked_until TIMESTAMPTZ,
+        published_at TIMESTAMPTZ
+      );
+      CREATE INDEX IF NOT EXISTS ${indexName}
+        ON ${this.tableName} (aggregate_id, position)
+        WHERE published_at IS NULL;
+    `;
+  }
+
+  /**
+   * @method append
+   * @description 在调用方的事务中写入发件箱消息
+   * @param {ISqlExecutor} executor 事务内的SQL执行器
+   * @param {OutboxMessage[]} messages 发件箱消息
+   * @returns {Promise<void>}
+   */
+  async append(
+    executor: ISqlExecutor,
+    messages: OutboxMessage[],
+  ): Promise<void> {
+    if (messages.length === 0) {
+      return;
+    }
+
+    const values: unknown[] = [];
+    const rows = messages.map(message => {
+      const offset = values.length;
+      values.push(
+        message.messageId,
+        message.aggregateId,
+        message.eventType,
+        message.tenantId ?? null,
+        JSON.stringify(message.payload),
+        message.createdAt,
+        message.availableAt,
+      );
+      return `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${offset + 5}, $${offset + 6}, $${offset + 7})`;
+    });
+
+    await executor.query(
+      `INSERT INTO ${this.tableName} (message_id, aggregate_id, event_type, tenant_id, payload, created_at, available_at)
+      VALUES ${rows.join(', ')}
+      ON CONFLICT (message_id) DO NOTHING`,
+      values,
+    );
+  }
+
+  async claimPending(limit: number, leaseMs: number): Promise<OutboxMessage[]> {
+    const rows = await this.adapter.transaction(async trx => {
+      const executor = createSqlExecutor(trx);
+      await executor.query('SELECT pg_advisory_xact_lock(hashtext($1))', [
+        this.tableName,
+      ]);
+
+      const result = await executor.query(
+        `UPDATE ${this.tableName}
+      SET locked_until = NOW() + ($2::int * INTERVAL '1 millisecond')
+      WHERE position IN (
+        SELECT o.position FROM ${this.tableName} o
+        WHERE o.published_at IS NULL
+          AND o.available_at <= NOW()
+          AND (o.locked_until IS NULL OR o.locked_until <= NOW())
+          AND NOT EXISTS (
+            SELECT 1 FROM ${this.tableName} e
+            WHERE e.aggregate_id = o.aggregate_id
+              AND e.published_at IS NULL
+              AND e.position < o.position
+              AND (e.available_at > NOW() OR e.locked_until > NOW())
+          )
+        ORDER BY o.position
+        LIMIT $1
+      )
+      RETURNING *`,
+        [limit, leaseMs],
+      );
+      return result.rows as OutboxRow[];
+    });
+
+    return rows
+      .sort((a, b) => Number(a.position) - Number(b.position))
+      .map(row => this.mapRow(row));
+  }
+
+  async markPublished(messageIds: string[]): Promise<void> {
+    if (messageIds.length === 0) {
+      return;
+    }
+
+    await this.adapter.query(
+      `UPDATE ${this.tableName} SET published_at = NOW(), locked_until = NULL WHERE message_id = ANY($1)`,
+      [messageIds],
+    );
+  }
+
+  async markFailed(
+    messageId: string,
+    error: string,
+    retryAt: Date,
+  ): Promise<void> {
+    await this.adapter.query(
+      `UPDATE ${this.tableName}
+      SET attempts = attempts + 1, last_error = $2, available_at = $3, locked_until = NULL
+      WHERE message_id = $1`,
+      [messageId, error, retryAt],
+    );
+  }
+
+  /**
+   * @method purgePublished
+   * @description 删除指定时间之前已投递的消息
+   * @param {Date} before 截止时间
+   * @returns {Promise<number>} 删除的消息数量
+   */
+  async purgePublished(before: Date): Promise<number> {
+    const result = await this.adapter.query(
+      `DELETE FROM ${this.tableName} WHERE published_at IS NOT NULL AND published_at < $1`,
+      [before],
+    );
+    return result.rowCount ?? 0;
+  }
+
+  /**
+   * @private
+   * @method mapRow
+   * @description 将表行转换为发件箱消息
+   * @param {OutboxRow} row 表行
+   * @returns {OutboxMessage} 发件箱消息
+   */
+  private mapRow(row: OutboxRow): OutboxMessage {
+    return {
+      messageId: row.message_id,
+      aggregateId: row.aggregate_id,
+      eventType: row.event_type,
+      tenantId: row.tenant_id ?? undefined,
+      payload: row.payload,
+      attempts: row.attempts,
+      createdAt: new Date(row.created_at),
+      availableAt: new Date(row.available_at),
+      lastError: row.last_error ?? undefined,
+    };
+  }
+}
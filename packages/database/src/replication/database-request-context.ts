@@ -0,0 +1,53 @@
+/**
+ * @file database-request-context.ts
+ * @description 数据库请求上下文
+ *
+ * 记录当前请求内各数据库的最后写入时间，用于写后读一致性：
+ * 同一请求写入后，在时间窗口内的读取继续由主库执行，避免读到副本上尚未同步的数据。
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { Injectable, NestMiddleware } from '@nestjs/common';
+
+/**
+ * 请求上下文：只读副本路由器 -> 该请求最后一次写入的时间
+ */
+export type DatabaseRequestContext = Map<object, number>;
+
+const storage = new AsyncLocalStorage<DatabaseRequestContext>();
+
+/**
+ * @function runInDatabaseRequestContext
+ * @description 在新的数据库请求上下文中执行回调，回调内的写入互不影响其他请求
+ * @param {Function} callback 回调函数
+ * @returns {T} 回调结果
+ */
+export function runInDatabaseRequestContext<T>(callback: () => T): T {
+  return storage.run(new Map(), callback);
+}
+
+/**
+ * @function getDatabaseRequestContext
+ * @description 获取当前数据库请求上下文
+ * @returns {DatabaseRequestContext | undefined} 不在请求上下文中时返回undefined
+ */
+export function getDatabaseRequestContext():
+  | DatabaseRequestContext
+  | undefined {
+  return storage.getStore();
+}
+
+/**
+ * @class DatabaseRequestContextMiddleware
+ * @description
+ * 为每个HTTP请求创建数据库请求上下文，DatabaseModule为所有路由注册该中间件。
+ *
+ * 不在请求上下文中时（如定时任务、消息消费者），写后读时间窗口对整个适配器生效，
+ * 这类入口可以用runInDatabaseRequestContext包裹每个任务。
+ */
+@Injectable()
+export class DatabaseRequestContextMiddleware implements NestMiddleware {
+  use(_req: unknown, _res: unknown, next: () => void): void {
+    runInDatabaseRequestContext(next);
+  }
+}
@@ -0,0 +1,7 @@
+/**
+ * @file index.ts
+ * @description 读写分离模块导出
+ */
+
+export * from './database-request-context';
+export * from './read-replica.router';
@@ -0,0 +1,142 @@
+/**
+ * @file read-replica.router.spec.ts
+ * @description 只读副本路由单元测试
+ */
+
+import {
+  DatabaseRequestContextMiddleware,
+  runInDatabaseRequestContext,
+} from './database-request-context';
+import {
+  inferQueryIntent,
+  isReplicaUnavailableError,
+  ReadReplicaRouter,
+} from './read-replica.router';
+
+describe('inferQueryIntent', () => {
+  it.each([
+    'SELECT * FROM users WHERE tenant_id = $1',
+    '  select count(*) from users',
+    'WITH recent AS (SELECT * FROM users) SELECT * FROM recent',
+    '(SELECT 1) UNION (SELECT 2)',
+    'SELECT updated_at FROM users',
+  ])('should treat %s as a read', sql => {
+    expect(inferQueryIntent(sql)).toBe('read');
+  });
+
+  it.each([
+    'INSERT INTO users (id) VALUES ($1) RETURNING *',
+    'UPDATE users SET name = $1',
+    'SELECT * FROM outbox FOR UPDATE SKIP LOCKED',
+    'SELECT * FROM users FOR SHARE',
+    'WITH moved AS (DELETE FROM users RETURNING *) SELECT * FROM moved',
+    'SELECT * INTO users_copy FROM users',
+    "SELECT nextval('users_seq')",
+    'SELECT pg_advisory_xact_lock(1)',
+    'CREATE TABLE users ()',
+  ])('should treat %s as a write', sql => {
+    expect(inferQueryIntent(sql)).toBe('write');
+  });
+});
+
+describe('isReplicaUnavailableError', () => {
+  it('should treat connection failures as unavailable and SQL errors as not', () => {
+    expect(isReplicaUnavailableError(new Error('Connection terminated'))).toBe(
+      true,
+    );
+    expect(isReplicaUnavailableError({ code: 'ECONNREFUSED' })).toBe(true);
+    expect(isReplicaUnavailableError({ code: '08006' })).toBe(true);
+    expect(isReplicaUnavailableError({ code: '57P01' })).toBe(true);
+    expect(isReplicaUnavailableError({ code: '42P01' })).toBe(false);
+  });
+});
+
+describe('ReadReplicaRouter', () => {
+  let now: number;
+  let router: ReadReplicaRouter<string>;
+
+  beforeEach(() => {
+    now = 0;
+    router = new ReadReplicaRouter(
+      [
+        { name: 'replica-1', target: 'r1' },
+        { name: 'replica-2', target: 'r2' },
+      ],
+      { readYourWritesWindowMs: 1000, clock: () => now },
+    );
+  });
+
+  it('should balance reads across replicas and send writes to the primary', () => {
+    expect(router.select('read')?.target).toBe('r1');
+    expect(router.select('read')?.target).toBe('r2');
+    expect(router.select('read')?.target).toBe('r1');
+    expect(router.select('write')).toBeUndefined();
+  });
+
+  it('should skip unavailable replicas and fall back to the primary when none is left', () => {
+    expect(router.setHealthy('replica-1', false)).toBe(true);
+    expect(router.setHealthy('replica-1', false)).toBe(false);
+    expect(router.select('read')?.target).toBe('r2');
+    expect(router.select('read')?.target).toBe('r2');
+
+    router.setHealthy('replica-2', false);
+    expect(router.select('read')).toBeUndefined();
+    expect(router.getStatus()).toEqual({
+      'replica-1': false,
+      'replica-2': false,
+    });
+
+    router.setHealthy('replica-1', true);
+    expect(router.select('read')?.target).toBe('r1');
+  });
+
+  it('should read from the primary within the window after a write', () => {
+    router.recordWrite();
+    now = 999;
+    expect(router.select('read')).toBeUndefined();
+    now = 1000;
+    expect(router.select('read')).toBeDefined();
+  });
+
+  it('should keep the read-your-writes window to the request that wrote', async () => {
+    let resumeWriter!: () => void;
+    const writerPaused = new Promise<void>(resolve => {
+      resumeWriter = resolve;
+    });
+
+    const writer = runInDatabaseRequestContext(async () => {
+      router.recordWrite();
+      await writerPaused;
+      return router.select('read');
+    });
+    const reader = runInDatabaseRequestContext(async () =>
+      router.select('read'),
+    );
+
+    await expect(reader).resolves.toBeDefined();
+    resumeWriter();
+    await expect(writer).resolves.toBeUndefined();
+    // 请求上下文之外不受影响
+    expect(router.select('read')).toBeDefined();
+  });
+
+  it('should not pin reads of other requests after a write through the middleware', async () => {
+    const middleware = new DatabaseRequestContextMiddleware();
+    const handle = (callback: () => Promise<unknown>): Promise<unknown> =>
+      new Promise((resolve, reject) =>
+        middleware.use({}, {}, () => {
+          callback().then(resolve, reject);
+        }),
+      );
+
+    await handle(async () => {
+      router.recordWrite();
+      expect(router.select('read')).toBeUndefined();
+    });
+
+    await expect(handle(async () => router.select('read'))).resolves.toEqual(
+      expect.objectContaining({ name: 'replica-1' }),
+    );
+    expect(router.select('read')).toBeDefined();
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * @file read-replica.router.ts
+ * @description 只读副本路由
+ *
+ * 根据查询意图、副本健康状态和写后读时间窗口，决定查询由主库还是某个只读副本执行。
+ */
+
+import type { QueryIntent } from '../interfaces/database.interface';
+import { getDatabaseRequestContext } from './database-request-context';
+
+/**
+ * 可能只读的语句
+ */
+const READ_STATEMENT = /^\s*\(*\s*(?:select|with|show|explain|values|table)\b/i;
+
+/**
+ * 使只读语句产生写入或加锁的子句：数据修改CTE、SELECT INTO、行锁
+ */
+const WRITE_CLAUSE =
+  /\b(?:insert|update|delete|merge|truncate|into|for\s+share|for\s+key\s+share)\b/i;
+
+/**
+ * 有副作用、不能在副本上执行的函数
+ */
+const WRITE_FUNCTION =
+  /\b(?:nextval|setval|set_config|pg_notify|pg_(?:try_)?advisory_\w+)\s*\(/i;
+
+/**
+ * PostgreSQL错误码（SQLSTATE）
+ */
+const SQLSTATE = /^[0-9A-Z]{5}$/;
+
+/**
+ * @function inferQueryIntent
+ * @description 根据SQL推断查询意图，无法确定时视为写入
+ * @param {string} sql SQL语句
+ * @returns {QueryIntent} 查询意图
+ */
+export function inferQueryIntent(sql: string): QueryIntent {
+  if (!READ_STATEMENT.test(sql)) {
+    return 'write';
+  }
+  return WRITE_CLAUSE.test(sql) || WRITE_FUNCTION.test(sql) ? 'write' : 'read';
+}
+
+/**
+ * @function isReplicaUnavailableError
+ * @description 判断副本错误是否表示副本不可用（连接失败、连接中断、副本关闭），而不是SQL本身的错误
+ * @param {unknown} error 错误
+ * @returns {boolean} 副本是否不可用
+ */
+export function isReplicaUnavailableError(error: unknown): boolean {
+  const code = (error as { code?: unknown } | undefined)?.code;
+  if (typeof code !== 'string' || !SQLSTATE.test(code)) {
+    return true;
+  }
+  return code.startsWith('08') || code.startsWith('57P');
+}
+
+/**
+ * @interface ReadReplica
+ * @description 只读副本及其健康状态
+ */
+export interface ReadReplica<T> {
+  /** 副本名称 */
+  name: string;
+  /** 执行查询的目标（如连接池） */
+  target: T;
+  /** 是否可用 */
+  healthy: boolean;
+}
+
+/**
+ * @interface ReadReplicaRouterOptions
+ * @description 只读副本路由选项
+ */
+export interface ReadReplicaRouterOptions {
+  /** 写入后读取继续使用主库的时间窗口（毫秒），默认5000 */
+  readYourWritesWindowMs?: number;
+  /** 时钟，用于测试 */
+  clock?: () => number;
+}
+
+/**
+ * @class ReadReplicaRouter
+ * @description
+ * 只读副本路由器。
+ *
+ * 路由规则：
+ * 1. 写入意图始终由主库执行
+ * 2. 当前请求上下文（或不在请求上下文时的整个路由器）在时间窗口内有过写入时，读取由主库执行
+ * 3. 其余读取在可用副本间轮询，没有可用副本时由主库执行
+ *
+ * select返回undefined表示使用主库。
+ */
+export class ReadReplicaRouter<T> {
+  private readonly replicas: Array<ReadReplica<T>>;
+  private readonly readYourWritesWindowMs: number;
+  private readonly clock: () => number;
+  private lastWriteAt?: number;
+  private cursor = 0;
+
+  constructor(
+    replicas: Array<{ name: string; target: T }>,
+    options: ReadReplicaRouterOptions = {},
+  ) {
+    this.replicas = replicas.map(replica => ({ ...replica, healthy: true }));
+    this.readYourWritesWindowMs = options.readYourWritesWindowMs ?? 5000;
+    this.clock = options.clock ?? Date.now;
+  }
+
+  /**
+   * @method select
+   * @description 为查询选择副本
+   * @param {QueryIntent} intent 查询意图
+   * @returns {ReadReplica<T> | undefined} 选中的副本，undefined表示使用主库
+   */
+  select(intent: QueryIntent): ReadReplica<T> | undefined {
+    if (intent === 'write' || this.isWithinReadYourWritesWindow()) {
+      return undefined;
+    }
+
+    const healthy = this.replicas.filter(replica => replica.healthy);
+    if (healthy.length === 0) {
+      return undefined;
+    }
+    return healthy[this.cursor++ % healthy.length];
+  }
+
+  /**
+   * @method recordWrite
+   * @description 记录一次写入，开始写后读时间窗口
+   */
+  recordWrite(): void {
+    const context = getDatabaseRequestContext();
+    if (context) {
+      context.set(this, this.clock());
+    } else {
+      this.lastWriteAt = this.clock();
+    }
+  }
+
+  /**
+   * @method setHealthy
+   * @description 更新副本健康状态
+   * @param {string} name 副本名称
+   * @param {boolean} healthy 是否可用
+   * @returns {boolean} 状态是否发生变化
+   */
+  setHealthy(name: string, healthy: boolean): boolean {
+    const replica = this.replicas.find(r => r.name === name);
+    if (!replica || replica.healthy === healthy) {
+      return false;
+    }
+    replica.healthy = healthy;
+    return true;
+  }
+
+  /**
+   * @method getReplicas
+   * @description 获取所有副本
+   * @returns {Array<ReadReplica<T>>} 副本列表
+   */
+  getReplicas(): Array<ReadReplica<T>> {
+    return [...this.replicas];
+  }
+
+  /**
+   * @method getStatus
+   * @description 获取副本可用状态
+   * @returns {Record<string, boolean>} 副本名称 -> 是否可用
+   */
+  getStatus(): Record<string, boolean> {
+    return Object.fromEntries(
+      this.replicas.map(replica => [replica.name, replica.healthy]),
+    );
+  }
+
+  private isWithinReadYourWritesWindow(): boolean {
+    const context = getDatabaseRequestContext();
+    const lastWriteAt = context ? context.get(this) : this.lastWriteAt;
+    return (
+      lastWriteAt !== undefined &&
+      this.clock() - lastWriteAt < this.readYourWritesWindowMs
+    );
+  }
+}
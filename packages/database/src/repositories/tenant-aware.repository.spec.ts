@@ -3,6 +3,8 @@
  * @description 租户感知仓储单元测试
  */
 
+import { InvalidCursorError } from '@aiofix/shared';
+
 import { TenantAwareRepository } from './tenant-aware.repository';
 import {
   IsolationConfigService,
@@ -35,6 +37,8 @@ const mockDatabaseAdapter: jest.Mocked<IDatabaseAdapter> = {
   enableRowLevelSecurity: jest.fn(),
   disableRowLevelSecurity: jest.fn(),
   isRowLevelSecurityEnabled: jest.fn(),
+  applyRowLevelSecurityPolicies: jest.fn(),
+  verifyRowLevelSecurity: jest.fn(),
 };
 
 // Mock database adapter factory
@@ -59,8 +63,9 @@ class TestTenantAwareRepository extends TenantAwareRepository<TestEntity> {
   constructor(
     adapterFactory: DatabaseAdapterFactory,
     isolationConfig: IsolationConfigService,
+    tenantId = 'tenant-123',
   ) {
-    super(adapterFactory, isolationConfig, 'tenant-123');
+    super(adapterFactory, isolationConfig, tenantId);
   }
 
   protected getTableName(): string {
@@ -143,7 +148,8 @@ describe('TenantAwareRepository', () => {
       const result = await repository.findAll();
 
       expect(mockDatabaseAdapter.query).toHaveBeenCalledWith(
-        "SELECT * FROM test_entities WHERE tenant_id = 'tenant-123'",
+        'SELECT * FROM test_entities WHERE tenant_id = $1',
+        ['tenant-123'],
       );
       expect(result).toHaveLength(2);
       expect(result[0].id).toBe('1');
@@ -177,6 +183,7 @@ describe('TenantAwareRepository', () => {
 
       expect(mockDatabaseAdapter.query).toHaveBeenCalledWith(
         'SELECT * FROM test_entities',
+        [],
       );
       expect(result).toHaveLength(2);
     });
@@ -206,8 +213,8 @@ describe('TenantAwareRepository', () => {
       const result = await repository.findById('1');
 
       expect(mockDatabaseAdapter.query).toHaveBeenCalledWith(
-        "SELECT * FROM test_entities WHERE id = $1 AND tenant_id = 'tenant-123'",
-        ['1'],
+        'SELECT * FROM test_entities WHERE id = $1 AND tenant_id = $2',
+        ['1', 'tenant-123'],
       );
       expect(result).toBeDefined();
       expect(result?.id).toBe('1');
@@ -286,19 +293,16 @@ describe('TenantAwareRepository', () => {
 
       const result = await repository.update('1', entity);
 
+      // 租户字段不会被更新，租户条件以参数绑定
       expect(mockDatabaseAdapter.query).toHaveBeenCalledWith(
-        `
-      UPDATE test_entities
-      SET id = $2, name = $3, tenant_id = $4, created_at = $5, updated_at = $6, updated_at = NOW()
-      WHERE id = $1
-     AND tenant_id = 'tenant-123'`,
+        'UPDATE test_entities SET id = $1, name = $2, created_at = $3, updated_at = $4 WHERE id = $5 AND tenant_id = $6 RETURNING *',
         [
-          '1',
           '1',
           'Updated Entity',
-          'tenant-123',
           entity.created_at,
           entity.updated_at,
+          '1',
+          'tenant-123',
         ],
       );
       expect(result).toBeDefined();
@@ -321,8 +325,8 @@ describe('TenantAwareRepository', () => {
       const result = await repository.delete('1');
 
       expect(mockDatabaseAdapter.query).toHaveBeenCalledWith(
-        "DELETE FROM test_entities WHERE id = $1 AND tenant_id = 'tenant-123'",
-        ['1'],
+        'DELETE FROM test_entities WHERE id = $1 AND tenant_id = $2',
+        ['1', 'tenant-123'],
       );
       expect(result).toBe(true);
     });
@@ -363,13 +367,212 @@ describe('TenantAwareRepository', () => {
       const result = await repository.count();
 
       expect(mockDatabaseAdapter.query).toHaveBeenCalledWith(
-        "SELECT COUNT(*) as count FROM test_entities WHERE tenant_id = 'tenant-123'",
-        [],
+        'SELECT COUNT(*) as count FROM test_entities WHERE tenant_id = $1',
+        ['tenant-123'],
       );
       expect(result).toBe(5);
     });
   });
 
+  describe('parameterized isolation', () => {
+    beforeEach(() => {
+      mockDatabaseAdapter.query.mockResolvedValue({
+        rows: [{ count: '0' }],
+      } as any);
+      jest
+        .spyOn(isolationConfig, 'getStrategy')
+        .mockReturnValue(IsolationStrategy.TABLE_LEVEL);
+      jest
+        .spyOn(isolationConfig, 'getTenantIdField')
+        .mockReturnValue('tenant_id');
+      jest
+        .spyOn(isolationConfig, 'shouldAutoAddTenantCondition')
+        .mockReturnValue(true);
+    });
+
+    it('should bind injected tenant ids instead of splicing them', async () => {
+      const tenantRepo =
+        repository.createTenantSpecificRepository("tenant' OR '1'='1");
+
+      await tenantRepo.count({ name: 'Entity 1' });
+
+      expect(mockDatabaseAdapter.query).toHaveBeenCalledWith(
+        'SELECT COUNT(*) as count FROM test_entities WHERE name = $1 AND tenant_id = $2',
+        ['Entity 1', "tenant' OR '1'='1"],
+      );
+    });
+
+    it('should place the tenant predicate before ORDER BY and LIMIT', async () => {
+      await repository.findAll({
+        orderBy: 'created_at desc, name',
+        limit: 10,
+        offset: 20,
+      });
+
+      expect(mockDatabaseAdapter.query).toHaveBeenCalledWith(
+        'SELECT * FROM test_entities WHERE tenant_id = $1 ORDER BY created_at DESC, name ASC LIMIT $2 OFFSET $3',
+        ['tenant-123', 10, 20],
+      );
+    });
+
+    it('should reject unsafe orderBy clauses', async () => {
+      await expect(
+        repository.findAll({ orderBy: 'name; DROP TABLE test_entities' }),
+      ).rejects.toThrow();
+      expect(mockDatabaseAdapter.query).not.toHaveBeenCalled();
+    });
+
+    it('should filter findByTenantId by the requested tenant', async () => {
+      jest.spyOn(isolationConfig, 'isDatabaseLevel').mockReturnValue(false);
+      jest.spyOn(isolationConfig, 'isSchemaLevel').mockReturnValue(false);
+
+      await repository.findByTenantId('tenant-456', { limit: 5 });
+
+      expect(mockDatabaseAdapter.query).toHaveBeenCalledWith(
+        'SELECT * FROM test_entities WHERE tenant_id = $1 LIMIT $2',
+        ['tenant-456', 5],
+      );
+    });
+  });
+
+  describe('cursor pagination', () => {
+    const originalSecret = process.env.PAGINATION_CURSOR_SECRET;
+
+    beforeEach(() => {
+      process.env.PAGINATION_CURSOR_SECRET = 'test-secret';
+      jest
+        .spyOn(isolationConfig, 'getStrategy')
+        .mockReturnValue(IsolationStrategy.TABLE_LEVEL);
+      jest
+        .spyOn(isolationConfig, 'getTenantIdField')
+        .mockReturnValue('tenant_id');
+      jest
+        .spyOn(isolationConfig, 'shouldAutoAddTenantCondition')
+        .mockReturnValue(true);
+    });
+
+    afterAll(() => {
+      process.env.PAGINATION_CURSOR_SECRET = originalSecret;
+    });
+
+    it('should fetch one extra row and return a cursor for the next page', async () => {
+      mockDatabaseAdapter.query.mockResolvedValueOnce({
+        rows: [
+          { id: '3', name: 'c', __sort_key: 'c' },
+          { id: '2', name: 'b', __sort_key: 'b' },
+          { id: '1', name: 'a', __sort_key: 'a' },
+        ],
+      } as any);
+
+      const page = await repository.findPage({
+        limit: 2,
+        orderBy: 'name DESC',
+      });
+
+      expect(mockDatabaseAdapter.query).toHaveBeenCalledWith(
+        'SELECT *, name::text AS __sort_key FROM test_entities WHERE tenant_id = $1 ORDER BY name DESC, id DESC LIMIT $2',
+        ['tenant-123', 3],
+      );
+      expect(page.items).toEqual([
+        { id: '3', name: 'c' },
+        { id: '2', name: 'b' },
+      ]);
+      expect(page.hasNext).toBe(true);
+      expect(page.nextCursor).toEqual(expect.any(String));
+
+      mockDatabaseAdapter.query.mockResolvedValueOnce({
+        rows: [{ id: '1', name: 'a', __sort_key: 'a' }],
+      } as any);
+
+      const next = await repository.findPage({
+        limit: 2,
+        orderBy: 'name DESC',
+        cursor: page.nextCursor,
+      });
+
+      expect(mockDatabaseAdapter.query).toHaveBeenLastCalledWith(
+        'SELECT *, name::text AS __sort_key FROM test_entities WHERE (name, id) < ($1, $2) AND tenant_id = $3 ORDER BY name DESC, id DESC LIMIT $4',
+        ['b', '2', 'tenant-123', 3],
+      );
+      expect(next.hasNext).toBe(false);
+      expect(next.nextCursor).toBeUndefined();
+    });
+
+    it('should seek from the cursor in findAll and ignore offset', async () => {
+      mockDatabaseAdapter.query.mockResolvedValue({
+        rows: [
+          { id: '1', name: 'a', __sort_key: '1' },
+          { id: '2', name: 'b', __sort_key: '2' },
+        ],
+      } as any);
+      const { nextCursor } = await repository.findPage({
+        limit: 1,
+        orderBy: 'id ASC',
+      });
+
+      await repository.findAll({
+        limit: 10,
+        offset: 50,
+        orderBy: 'id ASC',
+        cursor: nextCursor,
+      });
+
+      expect(mockDatabaseAdapter.query).toHaveBeenLastCalledWith(
+        'SELECT *, id::text AS __sort_key FROM test_entities WHERE id > $1 AND tenant_id = $2 ORDER BY id ASC LIMIT $3',
+        ['1', 'tenant-123', 10],
+      );
+    });
+
+    it('should keep the microseconds of timestamp sort keys in the cursor', async () => {
+      mockDatabaseAdapter.query.mockResolvedValueOnce({
+        rows: [
+          {
+            id: '2',
+            created_at: new Date('2024-01-01T00:00:00.123Z'),
+            __sort_key: '2024-01-01 00:00:00.123456+00',
+          },
+          {
+            id: '1',
+            created_at: new Date('2024-01-01T00:00:00.123Z'),
+            __sort_key: '2024-01-01 00:00:00.123001+00',
+          },
+        ],
+      } as any);
+      const page = await repository.findPage({ limit: 1 });
+
+      mockDatabaseAdapter.query.mockResolvedValueOnce({ rows: [] } as any);
+      await repository.findPage({ limit: 1, cursor: page.nextCursor });
+
+      expect(mockDatabaseAdapter.query).toHaveBeenLastCalledWith(
+        'SELECT *, created_at::text AS __sort_key FROM test_entities WHERE (created_at, id) < ($1, $2) AND tenant_id = $3 ORDER BY created_at DESC, id DESC LIMIT $4',
+        ['2024-01-01 00:00:00.123456+00', '2', 'tenant-123', 2],
+      );
+    });
+
+    it('should reject cursors issued for a different order', async () => {
+      mockDatabaseAdapter.query.mockResolvedValue({
+        rows: [
+          { id: '2', name: 'b' },
+          { id: '1', name: 'a' },
+        ],
+      } as any);
+      const { nextCursor } = await repository.findPage({ limit: 1 });
+      mockDatabaseAdapter.query.mockClear();
+
+      await expect(
+        repository.findPage({
+          limit: 1,
+          orderBy: 'name ASC',
+          cursor: nextCursor,
+        }),
+      ).rejects.toThrow(InvalidCursorError);
+      await expect(
+        repository.findPage({ limit: 1, orderBy: 'name, id' }),
+      ).rejects.toThrow('Invalid cursor pagination orderBy');
+      expect(mockDatabaseAdapter.query).not.toHaveBeenCalled();
+    });
+  });
+
   describe('exists', () => {
     it('should return true when entity exists', async () => {
       mockDatabaseAdapter.query.mockResolvedValue({
@@ -388,8 +591,8 @@ describe('TenantAwareRepository', () => {
       const result = await repository.exists('1');
 
       expect(mockDatabaseAdapter.query).toHaveBeenCalledWith(
-        "SELECT * FROM test_entities WHERE id = $1 AND tenant_id = 'tenant-123'",
-        ['1'],
+        'SELECT * FROM test_entities WHERE id = $1 AND tenant_id = $2',
+        ['1', 'tenant-123'],
       );
       expect(result).toBe(true);
     });
@@ -7,8 +7,19 @@ import {
   IsolationConfigService,
   IsolationStrategy,
 } from '../config/isolation.config';
+import { createOutboxMessages, DomainEvent } from '@aiofix/core';
+import { PaginationCursor, PaginationResult } from '@aiofix/shared';
 import { DatabaseAdapterFactory } from '../adapters/database-adapter.factory';
-import { IDatabaseAdapter } from '../interfaces/database.interface';
+import { createSqlExecutor } from '../adapters/sql-executor';
+import {
+  IDatabaseAdapter,
+  ISqlExecutor,
+} from '../interfaces/database.interface';
+import { PostgreSQLOutboxStore } from '../outbox/postgresql-outbox.store';
+import { TenantQueryBuilder, TenantScope } from './tenant-query-builder';
+
+/** 游标分页时排序字段文本值的结果列名 */
+const SORT_KEY_COLUMN = '__sort_key';
 
 /**
  * @class TenantAwareRepository
@@ -17,6 +28,8 @@ import { IDatabaseAdapter } from '../interfaces/database.interface';
  */
 export abstract class TenantAwareRepository<T> {
   protected adapter: IDatabaseAdapter;
+  protected outboxStore?: PostgreSQLOutboxStore;
+  private paginationCursor?: PaginationCursor;
 
   constructor(
     protected readonly adapterFactory: DatabaseAdapterFactory,
@@ -30,35 +43,87 @@ export abstract class TenantAwareRepository<T> {
    * @method findAll
    * @description 查找所有记录
    * @param {object} [options] 查询选项
+   * @param {string} [options.orderBy] 排序，如 "created_at DESC, name"；游标分页时只能指定一个字段
+   * @param {string} [options.cursor] findPage返回的游标，指定时从游标位置之后读取并忽略offset
    * @returns {Promise<T[]>} 记录列表
+   * @throws {InvalidCursorError} 当游标无效或与排序不一致时抛出
    */
   async findAll(options?: {
     limit?: number;
     offset?: number;
     orderBy?: string;
+    cursor?: string;
   }): Promise<T[]> {
-    let query = `SELECT * FROM ${this.getTableName()}`;
+    if (options?.cursor !== undefined) {
+      const entries = await this.findAfter(
+        options.cursor,
+        options.limit,
+        options.orderBy,
+      );
+      return entries.map(entry => entry.row);
+    }
 
-    // 根据隔离策略添加条件
-    query = this.addIsolationConditions(query);
+    const builder = this.createQueryBuilder();
 
     // 添加排序
     if (options?.orderBy) {
-      query += ` ORDER BY ${options.orderBy}`;
+      this.applyOrderBy(builder, options.orderBy);
     }
 
     // 添加分页
     if (options?.limit) {
-      query += ` LIMIT ${options.limit}`;
-      if (options?.offset) {
-        query += ` OFFSET ${options.offset}`;
-      }
+      builder.limit(options.limit, options.offset);
     }
 
-    const result = await this.adapter.query(query);
+    const { query, values } = builder.toSelectQuery();
+    const result = await this.adapter.query(query, values);
     return result.rows;
   }
 
+  /**
+   * @method findPage
+   * @description 游标分页查询，按排序字段和ID排序，返回下一页的游标
+   * @param {object} options 分页选项
+   * @param {number} options.limit 每页数量
+   * @param {string} [options.cursor] 上一页返回的游标，第一页不指定
+   * @param {string} [options.orderBy] 排序字段和方向，如 "email ASC"，默认 "created_at DESC"
+   * @returns {Promise<Pick<PaginationResult<T>, 'items' | 'limit' | 'hasNext' | 'nextCursor'>>} 当前页
+   * @throws {InvalidCursorError} 当游标无效或与排序不一致时抛出
+   */
+  async findPage(options: {
+    limit: number;
+    cursor?: string;
+    orderBy?: string;
+  }): Promise<
+    Pick<PaginationResult<T>, 'items' | 'limit' | 'hasNext' | 'nextCursor'>
+  > {
+    const entries = await this.findAfter(
+      options.cursor,
+      options.limit + 1,
+      options.orderBy,
+    );
+    const page = entries.slice(0, options.limit);
+    const items = page.map(entry => entry.row);
+    const hasNext = entries.length > options.limit;
+    if (!hasNext) {
+      return { items, limit: options.limit, hasNext };
+    }
+
+    const { field, direction } = this.parseKeysetOrder(options.orderBy);
+    const last = page[page.length - 1];
+    return {
+      items,
+      limit: options.limit,
+      hasNext,
+      nextCursor: this.getPaginationCursor().encode({
+        sortBy: field,
+        sortOrder: direction === 'ASC' ? 'asc' : 'desc',
+        value: last.sortKey,
+        id: String((last.row as Record<string, unknown>).id),
+      }),
+    };
+  }
+
   /**
    * @method findById
    * @description 根据ID查找记录
@@ -66,12 +131,11 @@ export abstract class TenantAwareRepository<T> {
    * @returns {Promise<T | null>} 记录或null
    */
   async findById(id: string): Promise<T | null> {
-    let query = `SELECT * FROM ${this.getTableName()} WHERE id = $1`;
-
-    // 根据隔离策略添加条件
-    query = this.addIsolationConditions(query);
+    const { query, values } = this.createQueryBuilder()
+      .where('id', 'eq', id)
+      .toSelectQuery();
 
-    const result = await this.adapter.query(query, [id]);
+    const result = await this.adapter.query(query, values);
     return result.rows[0] || null;
   }
 
@@ -86,40 +150,27 @@ export abstract class TenantAwareRepository<T> {
     tenantId: string,
     options?: { limit?: number; offset?: number },
   ): Promise<T[]> {
-    let query = `SELECT * FROM ${this.getTableName()}`;
-
-    // 添加租户条件
-    if (this.isolationConfig.isTableLevel()) {
-      const tenantIdField = this.isolationConfig.getTenantIdField();
-      query += ` WHERE ${tenantIdField} = $1`;
-    } else if (
-      this.isolationConfig.isDatabaseLevel() ||
-      this.isolationConfig.isSchemaLevel()
-    ) {
-      // 对于数据库级和Schema级隔离，需要创建新的适配器
-      const tenantAdapter = this.adapterFactory.createAdapter(tenantId);
-      query = `SELECT * FROM ${this.getTableName()}`;
-
-      if (options?.limit) {
-        query += ` LIMIT ${options.limit}`;
-        if (options?.offset) {
-          query += ` OFFSET ${options.offset}`;
-        }
-      }
-
-      const result = await tenantAdapter.query(query);
-      return result.rows;
-    }
+    // 数据库级和Schema级隔离由租户适配器定位数据，表级隔离按租户字段过滤
+    const separated =
+      this.isolationConfig.isDatabaseLevel(tenantId) ||
+      this.isolationConfig.isSchemaLevel(tenantId);
+    const builder = new TenantQueryBuilder<T>(
+      this.getTableName(),
+      separated
+        ? undefined
+        : { tenantId, tenantIdField: this.isolationConfig.getTenantIdField() },
+    );
 
     // 添加分页
     if (options?.limit) {
-      query += ` LIMIT ${options.limit}`;
-      if (options?.offset) {
-        query += ` OFFSET ${options.offset}`;
-      }
+      builder.limit(options.limit, options.offset);
     }
 
-    const result = await this.adapter.query(query, [tenantId]);
+    const adapter = separated
+      ? this.adapterFactory.createAdapter(tenantId)
+      : this.adapter;
+    const { query, values } = builder.toSelectQuery();
+    const result = await adapter.query(query, values);
     return result.rows;
   }
 
@@ -130,52 +181,39 @@ export abstract class TenantAwareRepository<T> {
    * @returns {Promise<T>} 创建的记录
    */
   async create(data: Partial<T>): Promise<T> {
-    const tenantId = this.tenantId || this.isolationConfig.getDefaultTenantId();
-
-    // 为表级隔离添加tenant_id
-    if (this.isolationConfig.isTableLevel()) {
-      const tenantIdField = this.isolationConfig.getTenantIdField();
-      (data as any)[tenantIdField] = tenantId;
-    }
-
-    const fields = Object.keys(data);
-    const values = Object.values(data);
-    const placeholders = fields.map((_, index) => `$${index + 1}`).join(', ');
-
-    const query = `
-      INSERT INTO ${this.getTableName()} (${fields.join(', ')})
-      VALUES (${placeholders})
-      RETURNING *
-    `;
-
+    const { query, values } = this.buildInsertQuery(data);
     const result = await this.adapter.query(query, values);
     return result.rows[0];
   }
 
+  /**
+   * @method createWithEvents
+   * @description 创建新记录，并在同一事务中将领域事件写入发件箱
+   * @param {Partial<T>} data 记录数据
+   * @param {DomainEvent[]} events 领域事件列表
+   * @returns {Promise<T>} 创建的记录
+   */
+  async createWithEvents(data: Partial<T>, events: DomainEvent[]): Promise<T> {
+    return this.saveWithEvents(events, async executor => {
+      const { query, values } = this.buildInsertQuery(data);
+      const result = await executor.query(query, values);
+      return result.rows[0];
+    });
+  }
+
   /**
    * @method update
-   * @description 更新记录
+   * @description 更新记录，租户字段不会被修改
    * @param {string} id 记录ID
    * @param {Partial<T>} data 更新数据
    * @returns {Promise<T | null>} 更新后的记录
    */
   async update(id: string, data: Partial<T>): Promise<T | null> {
-    const fields = Object.keys(data);
-    const values = Object.values(data);
-    const setClause = fields
-      .map((field, index) => `${field} = $${index + 2}`)
-      .join(', ');
-
-    let query = `
-      UPDATE ${this.getTableName()}
-      SET ${setClause}, updated_at = NOW()
-      WHERE id = $1
-    `;
+    const { query, values } = this.createQueryBuilder()
+      .where('id', 'eq', id)
+      .toUpdateQuery(data as Record<string, unknown>);
 
-    // 根据隔离策略添加条件
-    query = this.addIsolationConditions(query);
-
-    const result = await this.adapter.query(query, [id, ...values]);
+    const result = await this.adapter.query(query, values);
     return result.rows[0] || null;
   }
 
@@ -186,43 +224,29 @@ export abstract class TenantAwareRepository<T> {
    * @returns {Promise<boolean>} 是否删除成功
    */
   async delete(id: string): Promise<boolean> {
-    let query = `DELETE FROM ${this.getTableName()} WHERE id = $1`;
+    const { query, values } = this.createQueryBuilder()
+      .where('id', 'eq', id)
+      .toDeleteQuery();
 
-    // 根据隔离策略添加条件
-    query = this.addIsolationConditions(query);
-
-    const result = await this.adapter.query(query, [id]);
+    const result = await this.adapter.query(query, values);
     return (result.rowCount ?? 0) > 0;
   }
 
   /**
    * @method count
    * @description 统计记录数量
-   * @param {object} [conditions] 查询条件
+   * @param {object} [conditions] 查询条件，字段与值按相等比较
    * @returns {Promise<number>} 记录数量
    */
-  async count(conditions?: Record<string, any>): Promise<number> {
-    let query = `SELECT COUNT(*) as count FROM ${this.getTableName()}`;
-    const values: any[] = [];
-    let paramIndex = 1;
+  async count(conditions?: Record<string, unknown>): Promise<number> {
+    const builder = this.createQueryBuilder();
 
     // 添加查询条件
-    if (conditions) {
-      const whereConditions = Object.entries(conditions).map(([key, value]) => {
-        query += ` WHERE ${key} = $${paramIndex}`;
-        values.push(value);
-        paramIndex++;
-        return `${key} = $${paramIndex}`;
-      });
-
-      if (whereConditions.length > 0) {
-        query += ` WHERE ${whereConditions.join(' AND ')}`;
-      }
+    for (const [field, value] of Object.entries(conditions ?? {})) {
+      builder.where(field, 'eq', value);
     }
 
-    // 根据隔离策略添加条件
-    query = this.addIsolationConditions(query);
-
+    const { query, values } = builder.toCountQuery();
     const result = await this.adapter.query(query, values);
     return parseInt(result.rows[0]?.count) || 0;
   }
@@ -239,41 +263,199 @@ export abstract class TenantAwareRepository<T> {
   }
 
   /**
-   * @method addIsolationConditions
-   * @description 根据隔离策略添加隔离条件
-   * @param {string} query 原始查询
-   * @returns {string} 修改后的查询
+   * @method setOutboxStore
+   * @description 设置发件箱存储，启用事务性事件发布
+   * @param {PostgreSQLOutboxStore} outboxStore 发件箱存储
+   */
+  setOutboxStore(outboxStore: PostgreSQLOutboxStore): void {
+    this.outboxStore = outboxStore;
+  }
+
+  /**
+   * @method saveWithEvents
+   * @description 在一个事务中执行写操作并写入发件箱，两者同时提交或同时回滚
+   * @param {DomainEvent[]} events 领域事件列表
+   * @param {Function} work 写操作，必须使用传入的执行器执行SQL
+   * @returns {Promise<R>} 写操作的结果
+   * @throws {Error} 当未设置发件箱存储时抛出
    * @protected
    */
-  protected addIsolationConditions(query: string): string {
-    if (!this.tenantId) {
-      return query;
+  protected async saveWithEvents<R>(
+    events: DomainEvent[],
+    work: (executor: ISqlExecutor) => Promise<R>,
+  ): Promise<R> {
+    const outboxStore = this.outboxStore;
+    if (!outboxStore) {
+      throw new Error(
+        `Outbox store is not configured for ${this.getTableName()} repository`,
+      );
     }
 
-    const strategy = this.isolationConfig.getStrategy();
-
-    switch (strategy) {
-      case IsolationStrategy.TABLE_LEVEL:
-        if (this.isolationConfig.shouldAutoAddTenantCondition()) {
-          const tenantIdField = this.isolationConfig.getTenantIdField();
-          if (!query.toLowerCase().includes('where')) {
-            return `${query} WHERE ${tenantIdField} = '${this.tenantId}'`;
-          } else {
-            return `${query} AND ${tenantIdField} = '${this.tenantId}'`;
-          }
-        }
-        break;
-
-      case IsolationStrategy.SCHEMA_LEVEL:
-        // Schema级隔离通过适配器处理，这里不需要修改查询
-        break;
-
-      case IsolationStrategy.DATABASE_LEVEL:
-        // 数据库级隔离通过适配器处理，这里不需要修改查询
-        break;
+    return this.adapter.transaction(async trx => {
+      const executor = createSqlExecutor(trx);
+      const result = await work(executor);
+      await outboxStore.append(
+        executor,
+        createOutboxMessages(events, this.tenantId),
+      );
+      return result;
+    });
+  }
+
+  /**
+   * @method buildInsertQuery
+   * @description 构建插入语句，表级隔离时自动补充租户ID
+   * @param {Partial<T>} data 记录数据
+   * @returns {{ query: string; values: unknown[] }} 插入语句和参数
+   * @protected
+   */
+  protected buildInsertQuery(data: Partial<T>): {
+    query: string;
+    values: unknown[];
+  } {
+    const tenantId = this.tenantId || this.isolationConfig.getDefaultTenantId();
+
+    // 为表级隔离添加tenant_id
+    if (this.isolationConfig.isTableLevel(tenantId)) {
+      const tenantIdField = this.isolationConfig.getTenantIdField();
+      (data as any)[tenantIdField] = tenantId;
     }
 
-    return query;
+    const fields = Object.keys(data);
+    const values = Object.values(data);
+    const placeholders = fields.map((_, index) => `$${index + 1}`).join(', ');
+
+    const query = `
+      INSERT INTO ${this.getTableName()} (${fields.join(', ')})
+      VALUES (${placeholders})
+      RETURNING *
+    `;
+
+    return { query, values };
+  }
+
+  /**
+   * @method createQueryBuilder
+   * @description 创建当前表的查询构建器，表级隔离时自动附带租户条件
+   * @returns {TenantQueryBuilder<T>} 查询构建器
+   * @protected
+   */
+  protected createQueryBuilder(): TenantQueryBuilder<T> {
+    return new TenantQueryBuilder<T>(
+      this.getTableName(),
+      this.getTenantScope(),
+    );
+  }
+
+  /**
+   * @method getTenantScope
+   * @description 获取租户范围，Schema级和数据库级隔离由适配器处理，不需要租户条件
+   * @returns {TenantScope | undefined} 租户范围
+   * @protected
+   */
+  protected getTenantScope(): TenantScope | undefined {
+    if (
+      !this.tenantId ||
+      this.isolationConfig.getStrategy(this.tenantId) !==
+        IsolationStrategy.TABLE_LEVEL ||
+      !this.isolationConfig.shouldAutoAddTenantCondition()
+    ) {
+      return undefined;
+    }
+
+    return {
+      tenantId: this.tenantId,
+      tenantIdField: this.isolationConfig.getTenantIdField(),
+    };
+  }
+
+  /**
+   * @method getPaginationCursor
+   * @description 获取游标编解码器，默认使用PAGINATION_CURSOR_SECRET签名
+   * @returns {PaginationCursor} 游标编解码器
+   * @protected
+   */
+  protected getPaginationCursor(): PaginationCursor {
+    this.paginationCursor ??= PaginationCursor.fromEnv();
+    return this.paginationCursor;
+  }
+
+  /**
+   * @method findAfter
+   * @description
+   * 按 (排序字段, id) 从游标位置之后读取，同时返回排序字段的文本值。
+   * 游标保存文本值而不是驱动转换后的值，时间戳的微秒在JS Date中会丢失，导致翻页跳过或重复行
+   * @private
+   */
+  private async findAfter(
+    cursor: string | undefined,
+    limit: number | undefined,
+    orderBy: string | undefined,
+  ): Promise<{ row: T; sortKey: unknown }[]> {
+    const { field, direction } = this.parseKeysetOrder(orderBy);
+    const builder = this.createQueryBuilder().selectText(
+      field,
+      SORT_KEY_COLUMN,
+    );
+
+    if (cursor) {
+      const position = this.getPaginationCursor().decode(
+        cursor,
+        field,
+        direction === 'ASC' ? 'asc' : 'desc',
+      );
+      builder.seekAfter(field, 'id', direction, position.value, position.id);
+    }
+
+    builder.orderBy(field, direction);
+    if (field !== 'id') {
+      builder.orderBy('id', direction);
+    }
+    if (limit) {
+      builder.limit(limit);
+    }
+
+    const { query, values } = builder.toSelectQuery();
+    const result = await this.adapter.query(query, values);
+    return result.rows.map((record: Record<string, unknown>) => {
+      const { [SORT_KEY_COLUMN]: sortKey, ...row } = record;
+      return { row: row as T, sortKey };
+    });
+  }
+
+  /**
+   * @method parseKeysetOrder
+   * @description 解析游标分页的排序，只允许一个字段，默认 created_at DESC
+   * @private
+   */
+  private parseKeysetOrder(orderBy = 'created_at DESC'): {
+    field: string;
+    direction: 'ASC' | 'DESC';
+  } {
+    const [field, direction = 'ASC', ...rest] = orderBy.trim().split(/\s+/);
+    const normalized = direction.toUpperCase();
+    if (rest.length > 0 || (normalized !== 'ASC' && normalized !== 'DESC')) {
+      throw new Error(`Invalid cursor pagination orderBy: ${orderBy}`);
+    }
+    return { field, direction: normalized as 'ASC' | 'DESC' };
+  }
+
+  /**
+   * @method applyOrderBy
+   * @description 解析 "field [ASC|DESC], ..." 形式的排序并加入构建器
+   * @param {TenantQueryBuilder<T>} builder 查询构建器
+   * @param {string} orderBy 排序
+   * @private
+   */
+  private applyOrderBy(builder: TenantQueryBuilder<T>, orderBy: string): void {
+    for (const part of orderBy.split(',')) {
+      const [field, direction = 'ASC', ...rest] = part.trim().split(/\s+/);
+      const normalized = direction.toUpperCase();
+      if (rest.length > 0 || (normalized !== 'ASC' && normalized !== 'DESC')) {
+        throw new Error(`Invalid orderBy clause: ${part.trim()}`);
+      }
+      builder.orderBy(field, normalized);
+    }
   }
 
   /**
@@ -316,10 +498,14 @@ export abstract class TenantAwareRepository<T> {
       tenantId?: string,
     ) => TenantAwareRepository<T>;
 
-    return new RepositoryClass(
+    const repository = new RepositoryClass(
       this.adapterFactory,
       this.isolationConfig,
       tenantId,
     );
+    if (this.outboxStore) {
+      repository.setOutboxStore(this.outboxStore);
+    }
+    return repository;
   }
 }
@@ -0,0 +1,171 @@
+/**
+ * @file tenant-query-builder.spec.ts
+ * @description 租户查询构建器单元测试
+ */
+
+import { TenantQueryBuilder } from './tenant-query-builder';
+
+interface OrderEntity {
+  id: string;
+  user_id: string;
+  total: number;
+}
+
+const scope = { tenantId: 'tenant-1', tenantIdField: 'tenant_id' };
+
+describe('TenantQueryBuilder', () => {
+  it('should bind the tenant predicate after the user conditions', () => {
+    const { query, values } = new TenantQueryBuilder<OrderEntity>(
+      'orders',
+      scope,
+    )
+      .where('status', 'in', ['paid', 'shipped'])
+      .where('total', 'between', [10, 100])
+      .orderBy('created_at', 'DESC')
+      .paginate(3, 20)
+      .toSelectQuery();
+
+    expect(query).toBe(
+      'SELECT * FROM orders WHERE status = ANY($1) AND total BETWEEN $2 AND $3 AND tenant_id = $4 ORDER BY created_at DESC LIMIT $5 OFFSET $6',
+    );
+    expect(values).toEqual([['paid', 'shipped'], 10, 100, 'tenant-1', 20, 40]);
+  });
+
+  it('should keep OR conditions from escaping the tenant predicate', () => {
+    const { query } = new TenantQueryBuilder('orders', scope)
+      .where('status', 'eq', 'paid')
+      .orWhere('status', 'eq', 'refunded')
+      .search('acme', ['customer_name', 'note'])
+      .toSelectQuery();
+
+    expect(query).toBe(
+      'SELECT * FROM orders WHERE (status = $1 OR status = $2) AND (customer_name ILIKE $3 OR note ILIKE $3) AND tenant_id = $4',
+    );
+  });
+
+  it('should select the text form of fields next to the selected columns', () => {
+    const { query } = new TenantQueryBuilder<OrderEntity>('orders', scope)
+      .select(['id', 'total'])
+      .selectText('created_at', 'created_at_text')
+      .toSelectQuery();
+
+    expect(query).toBe(
+      'SELECT id, total, created_at::text AS created_at_text FROM orders WHERE tenant_id = $1',
+    );
+    expect(() =>
+      new TenantQueryBuilder('orders').selectText('created_at', 'x; --'),
+    ).toThrow('Invalid SQL identifier');
+  });
+
+  it('should scope joined tables and subqueries to the tenant', () => {
+    const vipUsers = new TenantQueryBuilder('users', scope)
+      .select(['id'])
+      .where('tier', 'eq', 'vip');
+
+    const { query, values } = new TenantQueryBuilder('orders', scope, 'o')
+      .join('users', ['u.id', 'o.user_id'], { alias: 'u', type: 'LEFT' })
+      .join('currencies', ['currencies.code', 'o.currency'], {
+        tenantScoped: false,
+      })
+      .whereIn('o.user_id', vipUsers)
+      .toSelectQuery();
+
+    expect(query).toBe(
+      'SELECT * FROM orders o ' +
+        'LEFT JOIN users u ON u.id = o.user_id AND u.tenant_id = $1 ' +
+        'INNER JOIN currencies ON currencies.code = o.currency ' +
+        'WHERE o.user_id IN (SELECT id FROM users WHERE tier = $2 AND tenant_id = $3) ' +
+        'AND o.tenant_id = $4',
+    );
+    expect(values).toEqual(['tenant-1', 'vip', 'tenant-1', 'tenant-1']);
+  });
+
+  it('should scope unscoped subqueries to the parent tenant', () => {
+    const vipUsers = new TenantQueryBuilder('users')
+      .select(['id'])
+      .where('tier', 'eq', 'vip');
+
+    const { query, values } = new TenantQueryBuilder('orders', scope)
+      .whereIn('user_id', vipUsers)
+      .toSelectQuery();
+
+    expect(query).toBe(
+      'SELECT * FROM orders WHERE user_id IN (SELECT id FROM users WHERE tier = $1 AND tenant_id = $2) AND tenant_id = $3',
+    );
+    expect(values).toEqual(['vip', 'tenant-1', 'tenant-1']);
+  });
+
+  it('should refuse subqueries scoped to another tenant', () => {
+    const otherUsers = new TenantQueryBuilder('users', {
+      tenantId: 'tenant-2',
+      tenantIdField: 'tenant_id',
+    }).select(['id']);
+
+    expect(() =>
+      new TenantQueryBuilder('orders', scope)
+        .whereIn('user_id', otherUsers)
+        .toSelectQuery(),
+    ).toThrow('Subquery on users is scoped to tenant tenant-2, not tenant-1');
+  });
+
+  it('should treat malicious tenant ids as plain values', () => {
+    const tenantId = "x' OR '1'='1";
+    const { query, values } = new TenantQueryBuilder('orders', {
+      tenantId,
+      tenantIdField: 'tenant_id',
+    }).toCountQuery();
+
+    expect(query).toBe(
+      'SELECT COUNT(*) as count FROM orders WHERE tenant_id = $1',
+    );
+    expect(values).toEqual([tenantId]);
+  });
+
+  it('should reject identifiers that cannot be bound as parameters', () => {
+    const builder = new TenantQueryBuilder('orders', scope);
+
+    expect(() => builder.where('id = 1 OR 1', 'eq', 1)).toThrow(
+      'Invalid SQL identifier',
+    );
+    expect(() =>
+      builder.orderBy('created_at; DROP TABLE orders', 'ASC'),
+    ).toThrow('Invalid SQL identifier');
+    expect(() => new TenantQueryBuilder('orders o')).toThrow(
+      'Invalid SQL identifier',
+    );
+  });
+
+  it('should never update the tenant column', () => {
+    const { query, values } = new TenantQueryBuilder('orders', scope)
+      .where('id', 'eq', 'order-1')
+      .toUpdateQuery({ total: 5, tenant_id: 'tenant-2' });
+
+    expect(query).toBe(
+      'UPDATE orders SET total = $1, updated_at = NOW() WHERE id = $2 AND tenant_id = $3 RETURNING *',
+    );
+    expect(values).toEqual([5, 'order-1', 'tenant-1']);
+    expect(() =>
+      new TenantQueryBuilder('orders', scope)
+        .join('users', ['users.id', 'orders.user_id'])
+        .toDeleteQuery(),
+    ).toThrow('DELETE does not support joins');
+  });
+
+  it('should describe the query through the shared QueryOptions shape', () => {
+    const options = new TenantQueryBuilder<OrderEntity>('orders', scope)
+      .select(['id', 'total'])
+      .where('total', 'gt', 10)
+      .orderBy('total', 'DESC')
+      .paginate(2, 10)
+      .build();
+
+    expect(options).toEqual({
+      pagination: { page: 2, limit: 10 },
+      sort: [{ field: 'total', direction: 'DESC' }],
+      filters: [{ field: 'total', operator: 'gt', value: 10 }],
+      select: ['id', 'total'],
+      search: undefined,
+      searchFields: undefined,
+    });
+  });
+});
@@ -0,0 +1,619 @@
+/**
+ * @fileoverview 租户范围的参数化查询构建器
+ * @description 以结构化方式为每个表引用添加租户条件，所有值均通过参数绑定
+ */
+
+import {
+  FilterOperator,
+  QueryBuilder,
+  QueryOptions,
+  SortOptions,
+} from '@aiofix/shared';
+
+/**
+ * 合法的SQL标识符：列名、表名，或以点号限定的 表.列
+ */
+const IDENTIFIER_PATTERN =
+  /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)?$/;
+
+/**
+ * @function assertIdentifier
+ * @description 校验SQL标识符，标识符无法参数化，只允许字母、数字和下划线
+ * @param {string} identifier 标识符
+ * @returns {string} 校验通过的标识符
+ * @throws {Error} 标识符不合法时抛出
+ */
+export function assertIdentifier(identifier: string): string {
+  if (!IDENTIFIER_PATTERN.test(identifier)) {
+    throw new Error(`Invalid SQL identifier: ${identifier}`);
+  }
+  return identifier;
+}
+
+/**
+ * @interface TenantScope
+ * @description 租户范围，构建器为每个表引用添加 tenantIdField = tenantId 条件
+ */
+export interface TenantScope {
+  readonly tenantId: string;
+  readonly tenantIdField: string;
+}
+
+/**
+ * @function isSameScope
+ * @description 判断两个租户范围是否相同
+ * @param {TenantScope} a 租户范围
+ * @param {TenantScope} b 租户范围
+ * @returns {boolean} 是否相同
+ */
+function isSameScope(a: TenantScope, b: TenantScope): boolean {
+  return a.tenantId === b.tenantId && a.tenantIdField === b.tenantIdField;
+}
+
+/**
+ * @interface SqlQuery
+ * @description 构建结果，query中的 $n 占位符与values一一对应
+ */
+export interface SqlQuery {
+  readonly query: string;
+  readonly values: unknown[];
+}
+
+/**
+ * @interface JoinOptions
+ * @description 关联选项
+ */
+export interface JoinOptions {
+  readonly type?: 'INNER' | 'LEFT';
+  readonly alias?: string;
+  /**
+   * 是否为关联表添加租户条件，默认true；仅平台共享表（如字典表）应设置为false
+   */
+  readonly tenantScoped?: boolean;
+}
+
+interface JoinClause {
+  readonly table: string;
+  readonly alias?: string;
+  readonly type: 'INNER' | 'LEFT';
+  readonly on: readonly [string, string];
+  readonly tenantScoped: boolean;
+}
+
+interface FilterCondition {
+  readonly field: string;
+  readonly operator: FilterOperator;
+  readonly value: unknown;
+  readonly combine?: 'AND' | 'OR';
+}
+
+interface SeekCondition {
+  readonly field: string;
+  readonly idField: string;
+  readonly direction: 'ASC' | 'DESC';
+  readonly value: unknown;
+  readonly id: unknown;
+}
+
+interface SubqueryCondition {
+  readonly field: string;
+  readonly negate: boolean;
+  readonly compile: (values: unknown[], scope?: TenantScope) => string;
+}
+
+/**
+ * @class TenantQueryBuilder
+ * @description
+ * 租户范围的参数化查询构建器，实现 @aiofix/shared 的 QueryBuilder 接口。
+ *
+ * 隔离规则：
+ * 1. 租户条件以结构化方式加入WHERE，与用户条件以AND连接，用户条件中的OR被括号限定
+ * 2. 关联的表在ON子句中添加各自的租户条件
+ * 3. 子查询由各自的构建器添加租户条件，参数统一编号；没有租户范围的子查询继承外层查询的租户范围，
+ *    与外层查询的租户范围不同时拒绝生成
+ * 4. 所有值都通过 $n 参数绑定；无法参数化的标识符（表名、列名、排序字段）按白名单校验
+ *
+ * 游标（keyset）分页：seekAfter 添加 (排序字段, ID) 的行值比较，配合按排序字段和ID排序，
+ * 每页都沿索引从上一页最后一行之后读取，不受页深影响，翻页期间插入或删除数据也不会重复或跳过。
+ *
+ * @template T 实体类型
+ *
+ * @example
+ * ```typescript
+ * const { query, values } = new TenantQueryBuilder<User>('users', {
+ *   tenantId: 'tenant-1',
+ *   tenantIdField: 'tenant_id',
+ * })
+ *   .where('status', 'eq', 'active')
+ *   .orderBy('created_at', 'DESC')
+ *   .paginate(1, 20)
+ *   .toSelectQuery();
+ * // SELECT * FROM users WHERE status = $1 AND tenant_id = $2
+ * //   ORDER BY created_at DESC LIMIT $3 OFFSET $4
+ * ```
+ * @since 1.0.0
+ */
+export class TenantQueryBuilder<T = Record<string, unknown>>
+  implements QueryBuilder<T>
+{
+  private readonly filters: FilterCondition[] = [];
+  private readonly subqueries: SubqueryCondition[] = [];
+  private readonly sorts: SortOptions[] = [];
+  private readonly joins: JoinClause[] = [];
+  private seek?: SeekCondition;
+  private fields?: (keyof T)[];
+  private readonly textFields: { field: string; alias: string }[] = [];
+  private searchKeyword?: string;
+  private searchFields: string[] = [];
+  private limitValue?: number;
+  private offsetValue?: number;
+  private page?: number;
+
+  constructor(
+    private readonly table: string,
+    private readonly scope?: TenantScope,
+    private readonly alias?: string,
+  ) {
+    assertIdentifier(table);
+    if (alias) {
+      assertIdentifier(alias);
+    }
+    if (scope) {
+      assertIdentifier(scope.tenantIdField);
+    }
+  }
+
+  where(field: string, operator: FilterOperator, value: unknown): this {
+    this.filters.push({ field: assertIdentifier(field), operator, value });
+    return this;
+  }
+
+  /**
+   * @method orWhere
+   * @description 添加以OR连接的过滤条件，不会绕过租户条件
+   */
+  orWhere(field: string, operator: FilterOperator, value: unknown): this {
+    this.filters.push({
+      field: assertIdentifier(field),
+      operator,
+      value,
+      combine: 'OR',
+    });
+    return this;
+  }
+
+  /**
+   * @method whereIn
+   * @description
+   * 添加子查询条件 field IN (子查询)。子查询没有租户范围时继承当前构建器的租户范围，
+   * 否则其租户范围必须与当前构建器一致，生成语句时校验
+   * @param {string} field 字段
+   * @param {TenantQueryBuilder} subquery 子查询，需通过select选择单列
+   * @param {boolean} [negate] 为true时生成NOT IN
+   * @returns {this} 当前构建器
+   */
+  whereIn<S>(
+    field: string,
+    subquery: TenantQueryBuilder<S>,
+    negate = false,
+  ): this {
+    this.subqueries.push({
+      field: assertIdentifier(field),
+      negate,
+      compile: (values, scope) => {
+        if (scope && subquery.scope && !isSameScope(scope, subquery.scope)) {
+          throw new Error(
+            `Subquery on ${subquery.table} is scoped to tenant ${subquery.scope.tenantId}, not ${scope.tenantId}`,
+          );
+        }
+        return subquery.compileSelect(values, subquery.scope ?? scope);
+      },
+    });
+    return this;
+  }
+
+  /**
+   * @method seekAfter
+   * @description 只返回排序位置在上一页最后一行 (value, id) 之后的行，用于游标分页
+   * @param {string} field 排序字段
+   * @param {string} idField ID字段，排序键相同时按ID区分先后
+   * @param {'ASC' | 'DESC'} direction 排序方向，排序字段和ID使用同一方向
+   * @param {unknown} value 上一页最后一行的排序键
+   * @param {unknown} id 上一页最后一行的ID
+   * @returns {this} 当前构建器
+   */
+  seekAfter(
+    field: string,
+    idField: string,
+    direction: 'ASC' | 'DESC',
+    value: unknown,
+    id: unknown,
+  ): this {
+    if (direction !== 'ASC' && direction !== 'DESC') {
+      throw new Error(`Invalid sort direction: ${String(direction)}`);
+    }
+    this.seek = {
+      field: assertIdentifier(field),
+      idField: assertIdentifier(idField),
+      direction,
+      value,
+      id,
+    };
+    return this;
+  }
+
+  orderBy(field: string, direction: 'ASC' | 'DESC'): this {
+    if (direction !== 'ASC' && direction !== 'DESC') {
+      throw new Error(`Invalid sort direction: ${String(direction)}`);
+    }
+    this.sorts.push({ field: assertIdentifier(field), direction });
+    return this;
+  }
+
+  paginate(page: number, limit: number): this {
+    if (!Number.isInteger(page) || page < 1) {
+      throw new Error('Page must be a positive integer');
+    }
+    this.page = page;
+    return this.limit(limit, (page - 1) * limit);
+  }
+
+  /**
+   * @method limit
+   * @description 设置返回数量和偏移量
+   * @param {number} limit 返回数量
+   * @param {number} [offset] 偏移量
+   * @returns {this} 当前构建器
+   */
+  limit(limit: number, offset?: number): this {
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new Error('Limit must be a positive integer');
+    }
+    if (offset !== undefined && (!Number.isInteger(offset) || offset < 0)) {
+      throw new Error('Offset must be a non-negative integer');
+    }
+    this.limitValue = limit;
+    this.offsetValue = offset || undefined;
+    return this;
+  }
+
+  select(fields: (keyof T)[]): this {
+    fields.forEach(field => assertIdentifier(String(field)));
+    this.fields = fields;
+    return this;
+  }
+
+  /**
+   * @method selectText
+   * @description 额外选择字段的文本形式，保留数据库中的原始值（如微秒精度的时间戳）
+   * @param {string} field 字段
+   * @param {string} alias 结果列名
+   * @returns {this} 当前构建器
+   */
+  selectText(field: string, alias: string): this {
+    this.textFields.push({
+      field: assertIdentifier(field),
+      alias: assertIdentifier(alias),
+    });
+    return this;
+  }
+
+  search(keyword: string, fields: string[]): this {
+    fields.forEach(assertIdentifier);
+    this.searchKeyword = keyword;
+    this.searchFields = fields;
+    return this;
+  }
+
+  /**
+   * @method join
+   * @description 关联另一张表，默认在ON子句中为关联表添加租户条件
+   * @param {string} table 关联表
+   * @param {[string, string]} on 关联字段对，如 ['orders.user_id', 'users.id']
+   * @param {JoinOptions} [options] 关联选项
+   * @returns {this} 当前构建器
+   */
+  join(table: string, on: [string, string], options: JoinOptions = {}): this {
+    assertIdentifier(table);
+    on.forEach(assertIdentifier);
+    if (options.alias) {
+      assertIdentifier(options.alias);
+    }
+    this.joins.push({
+      table,
+      alias: options.alias,
+      type: options.type ?? 'INNER',
+      on,
+      tenantScoped: options.tenantScoped ?? true,
+    });
+    return this;
+  }
+
+  build(): QueryOptions<T> {
+    return {
+      pagination:
+        this.limitValue !== undefined
+          ? { page: this.page ?? 1, limit: this.limitValue }
+          : undefined,
+      sort: this.sorts.length > 0 ? [...this.sorts] : undefined,
+      filters: this.filters.length > 0 ? [...this.filters] : undefined,
+      select: this.fields ? [...this.fields] : undefined,
+      search: this.searchKeyword,
+      searchFields:
+        this.searchFields.length > 0 ? [...this.searchFields] : undefined,
+    };
+  }
+
+  /**
+   * @method toSelectQuery
+   * @description 生成SELECT语句
+   * @returns {SqlQuery} 语句和参数
+   */
+  toSelectQuery(): SqlQuery {
+    const values: unknown[] = [];
+    return { query: this.compileSelect(values), values };
+  }
+
+  /**
+   * @method toCountQuery
+   * @description 生成COUNT语句，忽略排序和分页
+   * @returns {SqlQuery} 语句和参数
+   */
+  toCountQuery(): SqlQuery {
+    const values: unknown[] = [];
+    const query = [
+      `SELECT COUNT(*) as count FROM ${this.tableReference()}`,
+      this.compileJoins(values),
+      this.compileWhere(values),
+    ]
+      .filter(Boolean)
+      .join(' ');
+    return { query, values };
+  }
+
+  /**
+   * @method toUpdateQuery
+   * @description 生成UPDATE语句，租户字段不会被更新
+   * @param {Record<string, unknown>} data 更新数据
+   * @returns {SqlQuery} 语句和参数
+   * @throws {Error} 没有可更新字段或存在关联时抛出
+   */
+  toUpdateQuery(data: Record<string, unknown>): SqlQuery {
+    this.assertSingleTable('UPDATE');
+    const entries = Object.entries(data).filter(
+      ([field]) => field !== this.scope?.tenantIdField,
+    );
+    if (entries.length === 0) {
+      throw new Error(`No columns to update in ${this.table}`);
+    }
+
+    const values: unknown[] = [];
+    const assignments = entries.map(([field, value]) => {
+      values.push(value);
+      return `${assertIdentifier(field)} = $${values.length}`;
+    });
+    if (!entries.some(([field]) => field === 'updated_at')) {
+      assignments.push('updated_at = NOW()');
+    }
+
+    const query = [
+      `UPDATE ${this.tableReference()} SET ${assignments.join(', ')}`,
+      this.compileWhere(values),
+      'RETURNING *',
+    ]
+      .filter(Boolean)
+      .join(' ');
+    return { query, values };
+  }
+
+  /**
+   * @method toDeleteQuery
+   * @description 生成DELETE语句
+   * @returns {SqlQuery} 语句和参数
+   * @throws {Error} 存在关联时抛出
+   */
+  toDeleteQuery(): SqlQuery {
+    this.assertSingleTable('DELETE');
+    const values: unknown[] = [];
+    const query = [
+      `DELETE FROM ${this.tableReference()}`,
+      this.compileWhere(values),
+    ]
+      .filter(Boolean)
+      .join(' ');
+    return { query, values };
+  }
+
+  /**
+   * @method compileSelect
+   * @description 生成SELECT语句，参数追加到共享的values中，供子查询复用编号
+   * @param {unknown[]} values 参数
+   * @param {TenantScope} [scope] 租户范围，子查询传入继承的范围
+   * @private
+   */
+  private compileSelect(
+    values: unknown[],
+    scope: TenantScope | undefined = this.scope,
+  ): string {
+    const columns = [
+      this.fields ? this.fields.map(field => String(field)).join(', ') : '*',
+      ...this.textFields.map(
+        ({ field, alias }) => `${field}::text AS ${alias}`,
+      ),
+    ].join(', ');
+    const parts = [
+      `SELECT ${columns} FROM ${this.tableReference()}`,
+      this.compileJoins(values, scope),
+      this.compileWhere(values, scope),
+    ];
+
+    if (this.sorts.length > 0) {
+      parts.push(
+        `ORDER BY ${this.sorts.map(s => `${s.field} ${s.direction}`).join(', ')}`,
+      );
+    }
+    if (this.limitValue !== undefined) {
+      values.push(this.limitValue);
+      parts.push(`LIMIT $${values.length}`);
+      if (this.offsetValue !== undefined) {
+        values.push(this.offsetValue);
+        parts.push(`OFFSET $${values.length}`);
+      }
+    }
+
+    return parts.filter(Boolean).join(' ');
+  }
+
+  private compileJoins(
+    values: unknown[],
+    scope: TenantScope | undefined = this.scope,
+  ): string {
+    return this.joins
+      .map(join => {
+        const reference = join.alias
+          ? `${join.table} ${join.alias}`
+          : join.table;
+        let clause = `${join.type} JOIN ${reference} ON ${join.on[0]} = ${join.on[1]}`;
+        if (join.tenantScoped && scope) {
+          values.push(scope.tenantId);
+          clause += ` AND ${join.alias ?? join.table}.${scope.tenantIdField} = $${values.length}`;
+        }
+        return clause;
+      })
+      .join(' ');
+  }
+
+  /**
+   * @method compileWhere
+   * @description 生成WHERE子句：用户条件（含OR时加括号）、搜索、子查询，最后AND租户条件
+   * @private
+   */
+  private compileWhere(
+    values: unknown[],
+    scope: TenantScope | undefined = this.scope,
+  ): string {
+    const clauses: string[] = [];
+
+    if (this.filters.length > 0) {
+      const filterSql = this.filters
+        .map((filter, index) => {
+          const condition = this.compileFilter(filter, values);
+          return index === 0
+            ? condition
+            : `${filter.combine ?? 'AND'} ${condition}`;
+        })
+        .join(' ');
+      const hasOr = this.filters.some(
+        (filter, index) => index > 0 && filter.combine === 'OR',
+      );
+      clauses.push(hasOr ? `(${filterSql})` : filterSql);
+    }
+
+    if (this.searchKeyword && this.searchFields.length > 0) {
+      values.push(`%${this.searchKeyword}%`);
+      const placeholder = `$${values.length}`;
+      clauses.push(
+        `(${this.searchFields.map(field => `${field} ILIKE ${placeholder}`).join(' OR ')})`,
+      );
+    }
+
+    for (const subquery of this.subqueries) {
+      const sql = subquery.compile(values, scope);
+      clauses.push(
+        `${subquery.field} ${subquery.negate ? 'NOT IN' : 'IN'} (${sql})`,
+      );
+    }
+
+    if (this.seek) {
+      const { field, idField, direction } = this.seek;
+      const operator = direction === 'ASC' ? '>' : '<';
+      if (field === idField) {
+        values.push(this.seek.id);
+        clauses.push(`${idField} ${operator} $${values.length}`);
+      } else {
+        values.push(this.seek.value, this.seek.id);
+        clauses.push(
+          `(${field}, ${idField}) ${operator} ($${values.length - 1}, $${values.length})`,
+        );
+      }
+    }
+
+    if (scope) {
+      values.push(scope.tenantId);
+      const qualifier =
+        this.joins.length > 0 ? `${this.alias ?? this.table}.` : '';
+      clauses.push(`${qualifier}${scope.tenantIdField} = $${values.length}`);
+    }
+
+    return clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+  }
+
+  private compileFilter(filter: FilterCondition, values: unknown[]): string {
+    const { field, operator, value } = filter;
+    const bind = (bound: unknown): string => {
+      values.push(bound);
+      return `$${values.length}`;
+    };
+
+    switch (operator) {
+      case 'eq':
+        return value === null
+          ? `${field} IS NULL`
+          : `${field} = ${bind(value)}`;
+      case 'ne':
+        return value === null
+          ? `${field} IS NOT NULL`
+          : `${field} <> ${bind(value)}`;
+      case 'gt':
+        return `${field} > ${bind(value)}`;
+      case 'gte':
+        return `${field} >= ${bind(value)}`;
+      case 'lt':
+        return `${field} < ${bind(value)}`;
+      case 'lte':
+        return `${field} <= ${bind(value)}`;
+      case 'in':
+        return `${field} = ANY(${bind(this.asArray(filter))})`;
+      case 'nin':
+        return `${field} <> ALL(${bind(this.asArray(filter))})`;
+      case 'like':
+        return `${field} LIKE ${bind(value)}`;
+      case 'ilike':
+        return `${field} ILIKE ${bind(value)}`;
+      case 'regex':
+        return `${field} ~ ${bind(value)}`;
+      case 'between': {
+        const [from, to] = this.asArray(filter);
+        return `${field} BETWEEN ${bind(from)} AND ${bind(to)}`;
+      }
+      case 'isNull':
+        return `${field} IS NULL`;
+      case 'isNotNull':
+        return `${field} IS NOT NULL`;
+      case 'exists':
+        return value === false ? `${field} IS NULL` : `${field} IS NOT NULL`;
+      default:
+        throw new Error(`Unsupported filter operator: ${String(operator)}`);
+    }
+  }
+
+  private asArray(filter: FilterCondition): unknown[] {
+    const { value } = filter;
+    if (!Array.isArray(value)) {
+      throw new Error(
+        `Filter ${filter.operator} on ${filter.field} requires an array value`,
+      );
+    }
+    return value as unknown[];
+  }
+
+  private tableReference(): string {
+    return this.alias ? `${this.table} ${this.alias}` : this.table;
+  }
+
+  private assertSingleTable(statement: string): void {
+    if (this.joins.length > 0) {
+      throw new Error(`${statement} does not support joins`);
+    }
+  }
+}
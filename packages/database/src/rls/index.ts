@@ -0,0 +1,6 @@
+/**
+ * @file index.ts
+ * @description 行级安全模块导出
+ */
+
+export * from './row-level-security';
@@ -0,0 +1,144 @@
+/**
+ * @file row-level-security.spec.ts
+ * @description 行级安全策略管理器单元测试
+ */
+
+import { RowLevelSecurityManager } from './row-level-security';
+import { IDatabaseAdapter } from '../interfaces/database.interface';
+
+const tableRow = (
+  table: string,
+  overrides: Record<string, unknown> = {},
+): Record<string, unknown> => ({
+  schema_name: 'public',
+  table_name: table,
+  column_type: 'uuid',
+  rls_enabled: false,
+  rls_forced: false,
+  has_policy: false,
+  ...overrides,
+});
+
+describe('RowLevelSecurityManager', () => {
+  let trx: { raw: jest.Mock };
+  let adapter: jest.Mocked<IDatabaseAdapter>;
+  let manager: RowLevelSecurityManager;
+
+  beforeEach(() => {
+    trx = { raw: jest.fn().mockResolvedValue({ rows: [], rowCount: 0 }) };
+    adapter = {
+      query: jest.fn().mockResolvedValue({ rows: [] }),
+      transaction: jest.fn(async callback => callback(trx)),
+    } as any;
+    manager = new RowLevelSecurityManager(adapter);
+  });
+
+  it('should reject unsafe tenant id fields', () => {
+    expect(
+      () => new RowLevelSecurityManager(adapter, 'tenant_id; DROP TABLE x'),
+    ).toThrow('Invalid tenant id field');
+  });
+
+  it('should discover tenant tables by the tenant column', async () => {
+    adapter.query.mockResolvedValue({
+      rows: [tableRow('users', { rls_enabled: true })],
+    } as any);
+
+    await expect(manager.findTenantTables()).resolves.toEqual([
+      {
+        schema: 'public',
+        table: 'users',
+        columnType: 'uuid',
+        rlsEnabled: true,
+        rlsForced: false,
+        hasPolicy: false,
+      },
+    ]);
+    expect(adapter.query).toHaveBeenCalledWith(
+      expect.stringContaining('FROM pg_class c'),
+      ['tenant_id', 'tenant_isolation_policy'],
+    );
+  });
+
+  it('should create a fail-closed policy bound to app.current_tenant', async () => {
+    adapter.query.mockResolvedValue({ rows: [tableRow('orders')] } as any);
+
+    const applied = await manager.applyPolicies();
+
+    const condition = `"tenant_id" = NULLIF(current_setting('app.current_tenant', true), '')::uuid`;
+    expect(trx.raw.mock.calls.map(([sql]) => sql as string)).toEqual([
+      'ALTER TABLE "public"."orders" ENABLE ROW LEVEL SECURITY',
+      'ALTER TABLE "public"."orders" FORCE ROW LEVEL SECURITY',
+      `CREATE POLICY "tenant_isolation_policy" ON "public"."orders" FOR ALL USING (${condition}) WITH CHECK (${condition})`,
+    ]);
+    expect(applied).toEqual([
+      expect.objectContaining({
+        table: 'orders',
+        rlsEnabled: true,
+        rlsForced: true,
+        hasPolicy: true,
+      }),
+    ]);
+  });
+
+  it('should only fill in what is missing and keep existing policies', async () => {
+    adapter.query.mockResolvedValue({
+      rows: [
+        tableRow('audit_logs', { rls_enabled: true, has_policy: true }),
+        tableRow('users', {
+          rls_enabled: true,
+          rls_forced: true,
+          has_policy: true,
+        }),
+      ],
+    } as any);
+
+    const applied = await manager.applyPolicies();
+
+    expect(trx.raw).toHaveBeenCalledTimes(1);
+    expect(trx.raw).toHaveBeenCalledWith(
+      'ALTER TABLE "public"."audit_logs" FORCE ROW LEVEL SECURITY',
+    );
+    expect(applied.map(table => table.table)).toEqual(['audit_logs']);
+  });
+
+  it('should not open a transaction when every table is protected', async () => {
+    adapter.query.mockResolvedValue({
+      rows: [
+        tableRow('users', {
+          rls_enabled: true,
+          rls_forced: true,
+          has_policy: true,
+        }),
+      ],
+    } as any);
+
+    await expect(manager.applyPolicies()).resolves.toEqual([]);
+    expect(adapter.transaction).not.toHaveBeenCalled();
+  });
+
+  it('should report tenant tables without a policy', async () => {
+    adapter.query.mockResolvedValue({
+      rows: [
+        tableRow('users', {
+          rls_enabled: true,
+          rls_forced: true,
+          has_policy: true,
+        }),
+        tableRow('invoices', { rls_enabled: true }),
+      ],
+    } as any);
+
+    const report = await manager.verify();
+
+    expect(report.ok).toBe(false);
+    expect(report.tables).toHaveLength(2);
+    expect(report.unprotected).toEqual([
+      {
+        schema: 'public',
+        table: 'invoices',
+        issues: ['rls_not_forced', 'policy_missing'],
+      },
+    ]);
+  });
+});
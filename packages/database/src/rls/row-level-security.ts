@@ -0,0 +1,190 @@
+/**
+ * @file row-level-security.ts
+ * @description PostgreSQL行级安全策略（RLS）的生成、应用和校验
+ *
+ * 表级隔离下应用层查询会自动添加tenant_id条件，RLS在数据库层再加一道防线：
+ * - 每个包含租户字段的表启用并强制RLS（表所有者同样受策略约束）
+ * - 策略只允许访问租户字段等于会话变量app.current_tenant的行
+ * - 会话变量由适配器在每次查询和事务中通过SET LOCAL语义绑定，事务结束即失效
+ */
+
+import type {
+  IDatabaseAdapter,
+  ISqlExecutor,
+  RlsVerificationReport,
+  TenantTableInfo,
+} from '../interfaces/database.interface';
+import { createSqlExecutor } from '../adapters/sql-executor';
+
+/** 保存当前租户ID的会话变量 */
+export const TENANT_CONTEXT_SETTING = 'app.current_tenant';
+
+/** 生成的租户隔离策略名称 */
+export const TENANT_ISOLATION_POLICY = 'tenant_isolation_policy';
+
+/**
+ * RLS管理器所需的数据库操作，IDatabaseAdapter或基于pg连接池的轻量实现均可
+ */
+export type RlsDatabase = Pick<IDatabaseAdapter, 'query' | 'transaction'>;
+
+/**
+ * @interface TenantTableRow
+ * @description 租户表查询结果的行结构
+ */
+interface TenantTableRow {
+  schema_name: string;
+  table_name: string;
+  column_type: string;
+  rls_enabled: boolean;
+  rls_forced: boolean;
+  has_policy: boolean;
+}
+
+/**
+ * @class RowLevelSecurityManager
+ * @description
+ * 行级安全策略管理器。
+ *
+ * 职责：
+ * 1. 从系统目录中找出包含租户字段的普通表和分区表
+ * 2. 为每个租户表生成ENABLE/FORCE ROW LEVEL SECURITY和CREATE POLICY语句
+ * 3. 在同一事务中应用所有语句，只补齐缺失的部分，已有的同名策略（如审计日志允许NULL租户）保持不变
+ * 4. 报告未启用RLS或缺少租户策略的表
+ *
+ * 会话变量未设置时策略条件为NULL，查询不返回任何行（默认拒绝）。
+ */
+export class RowLevelSecurityManager {
+  constructor(
+    private readonly adapter: RlsDatabase,
+    private readonly tenantIdField: string = 'tenant_id',
+  ) {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(tenantIdField)) {
+      throw new Error(`Invalid tenant id field: ${tenantIdField}`);
+    }
+  }
+
+  /**
+   * @method findTenantTables
+   * @description 查找包含租户字段的表及其RLS状态
+   * @returns {Promise<TenantTableInfo[]>} 租户表列表，按Schema和表名排序
+   */
+  async findTenantTables(): Promise<TenantTableInfo[]> {
+    const result = await this.adapter.query(
+      `SELECT n.nspname AS schema_name,
+              c.relname AS table_name,
+              format_type(a.atttypid, a.atttypmod) AS column_type,
+              c.relrowsecurity AS rls_enabled,
+              c.relforcerowsecurity AS rls_forced,
+              EXISTS (
+                SELECT 1 FROM pg_policy p
+                WHERE p.polrelid = c.oid AND p.polname = $2
+              ) AS has_policy
+       FROM pg_class c
+       JOIN pg_namespace n ON n.oid = c.relnamespace
+       JOIN pg_attribute a
+         ON a.attrelid = c.oid AND a.attname = $1 AND NOT a.attisdropped
+       WHERE c.relkind IN ('r', 'p')
+         AND n.nspname NOT IN ('pg_catalog', 'information_schema')
+         AND n.nspname NOT LIKE 'pg_toast%'
+       ORDER BY n.nspname, c.relname`,
+      [this.tenantIdField, TENANT_ISOLATION_POLICY],
+    );
+
+    return (result.rows as TenantTableRow[]).map(row => ({
+      schema: row.schema_name,
+      table: row.table_name,
+      columnType: row.column_type,
+      rlsEnabled: row.rls_enabled,
+      rlsForced: row.rls_forced,
+      hasPolicy: row.has_policy,
+    }));
+  }
+
+  /**
+   * @method buildPolicyStatements
+   * @description 生成单个租户表缺失的RLS语句
+   * @param {TenantTableInfo} table 租户表
+   * @returns {string[]} 按执行顺序排列的SQL语句，已受保护的表返回空数组
+   */
+  buildPolicyStatements(table: TenantTableInfo): string[] {
+    const qualified = `${quoteIdentifier(table.schema)}.${quoteIdentifier(table.table)}`;
+    const condition = `${quoteIdentifier(this.tenantIdField)} = NULLIF(current_setting('${TENANT_CONTEXT_SETTING}', true), '')::${table.columnType}`;
+    const statements: string[] = [];
+
+    if (!table.rlsEnabled) {
+      statements.push(`ALTER TABLE ${qualified} ENABLE ROW LEVEL SECURITY`);
+    }
+    if (!table.rlsForced) {
+      statements.push(`ALTER TABLE ${qualified} FORCE ROW LEVEL SECURITY`);
+    }
+    if (!table.hasPolicy) {
+      statements.push(
+        `CREATE POLICY ${quoteIdentifier(TENANT_ISOLATION_POLICY)} ON ${qualified} FOR ALL USING (${condition}) WITH CHECK (${condition})`,
+      );
+    }
+
+    return statements;
+  }
+
+  /**
+   * @method applyPolicies
+   * @description 为所有租户表启用RLS并创建缺失的租户隔离策略
+   * @returns {Promise<TenantTableInfo[]>} 本次修改过的表
+   */
+  async applyPolicies(): Promise<TenantTableInfo[]> {
+    const tables = (await this.findTenantTables()).filter(
+      table => this.buildPolicyStatements(table).length > 0,
+    );
+    if (tables.length === 0) {
+      return [];
+    }
+
+    await this.adapter.transaction(async trx => {
+      const executor: ISqlExecutor = createSqlExecutor(trx);
+      for (const table of tables) {
+        for (const statement of this.buildPolicyStatements(table)) {
+          await executor.query(statement);
+        }
+      }
+    });
+
+    return tables.map(table => ({
+      ...table,
+      rlsEnabled: true,
+      rlsForced: true,
+      hasPolicy: true,
+    }));
+  }
+
+  /**
+   * @method verify
+   * @description 校验所有租户表都受RLS保护
+   * @returns {Promise<RlsVerificationReport>} 校验报告
+   */
+  async verify(): Promise<RlsVerificationReport> {
+    const tables = await this.findTenantTables();
+    const unprotected = tables
+      .map(table => ({
+        schema: table.schema,
+        table: table.table,
+        issues: [
+          ...(table.rlsEnabled ? [] : ['rls_disabled' as const]),
+          ...(table.rlsForced ? [] : ['rls_not_forced' as const]),
+          ...(table.hasPolicy ? [] : ['policy_missing' as const]),
+        ],
+      }))
+      .filter(table => table.issues.length > 0);
+
+    return { ok: unprotected.length === 0, tables, unprotected };
+  }
+}
+
+/**
+ * @function quoteIdentifier
+ * @description 按PostgreSQL规则为标识符加双引号
+ * @param {string} identifier 标识符
+ * @returns {string} 加引号后的标识符
+ */
+function quoteIdentifier(identifier: string): string {
+  return `"${identifier.replace(/"/g, '""')}"`;
+}
@@ -0,0 +1,52 @@
+/**
+ * @file verify-rls.cli.ts
+ * @description 行级安全校验命令
+ *
+ * 用法：pnpm --filter @aiofix/database build && pnpm --filter @aiofix/database rls:verify
+ *
+ * 连接参数读取POSTGRES_*环境变量（数据库名默认为PLATFORM_DB_NAME），租户字段读取TENANT_ID_FIELD。
+ * 逐表输出未受保护的租户表，存在问题时以退出码1结束，可用于部署流水线。
+ */
+
+import { Pool } from 'pg';
+import { RowLevelSecurityManager } from './row-level-security';
+
+async function main(): Promise<number> {
+  const pool = new Pool({
+    host: process.env.POSTGRES_HOST ?? 'localhost',
+    port: parseInt(process.env.POSTGRES_PORT ?? '5432'),
+    user: process.env.POSTGRES_USER ?? 'aiofix_user',
+    password: process.env.POSTGRES_PASSWORD ?? 'aiofix_password',
+    database: process.env.PLATFORM_DB_NAME ?? 'aiofix_platform',
+    max: 1,
+  });
+
+  try {
+    const manager = new RowLevelSecurityManager(
+      {
+        query: (sql, params) => pool.query(sql, params),
+        transaction: () =>
+          Promise.reject(new Error('rls:verify does not modify the database')),
+      },
+      process.env.TENANT_ID_FIELD ?? 'tenant_id',
+    );
+    const report = await manager.verify();
+
+    console.log(`Checked ${report.tables.length} tenant table(s)`);
+    for (const { schema, table, issues } of report.unprotected) {
+      console.error(`  ${schema}.${table}: ${issues.join(', ')}`);
+    }
+    return report.ok ? 0 : 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+main()
+  .then(code => {
+    process.exitCode = code;
+  })
+  .catch((error: unknown) => {
+    console.error('Row level security verification failed:', error);
+    process.exitCode = 2;
+  });
@@ -0,0 +1,9 @@
+/**
+ * @file index.ts
+ * @description 租户Schema、租户数据库与租户隔离策略管理模块导出
+ */
+
+export * from './tenant-schema.manager';
+export * from './tenant-database.registry';
+export * from './tenant-strategy.store';
+export * from './tenant-strategy.migrator';
@@ -0,0 +1,216 @@
+/**
+ * @file tenant-database.registry.spec.ts
+ * @description 租户连接池注册表单元测试
+ */
+
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import {
+  PooledDatabaseAdapter,
+  TenantDatabaseRegistry,
+  TenantPoolExhaustedError,
+} from './tenant-database.registry';
+import { IsolationConfigService } from '../config/isolation.config';
+import { DatabaseConfig } from '../interfaces/database.interface';
+
+type FakeAdapter = PooledDatabaseAdapter & {
+  pool: { totalCount: number; idleCount: number };
+};
+
+describe('TenantDatabaseRegistry', () => {
+  let now: number;
+  let eventEmitter: EventEmitter2;
+  let created: Map<string, FakeAdapter>;
+  let registry: TenantDatabaseRegistry;
+  let logger: { info: jest.Mock; error: jest.Mock };
+
+  const createRegistry = (
+    options: { maxTotalConnections?: number } = {},
+  ): TenantDatabaseRegistry =>
+    new TenantDatabaseRegistry(
+      {
+        getDedicatedDatabaseName: (tenantId: string) => `tenant_${tenantId}`,
+      } as unknown as IsolationConfigService,
+      eventEmitter,
+      logger as any,
+      {
+        maxConnectionsPerTenant: 10,
+        maxTotalConnections: options.maxTotalConnections ?? 20,
+        idleTimeoutMs: 60_000,
+        connection: {
+          host: 'db',
+          port: 5432,
+          username: 'app',
+          password: 'secret',
+        },
+        clock: () => now,
+        createAdapter: (tenantId: string, config: DatabaseConfig) => {
+          const pool = { totalCount: 0, idleCount: 0 };
+          const adapter = {
+            name: `tenant-db:${tenantId}`,
+            config,
+            pool,
+            getPool: () => pool,
+            setTenantContext: jest.fn(),
+            query: jest.fn().mockResolvedValue({ rows: [{ tenantId }] }),
+            transaction: jest.fn((callback: (trx: unknown) => unknown) =>
+              callback({}),
+            ),
+            disconnect: jest.fn().mockResolvedValue(undefined),
+            getHealth: jest.fn().mockResolvedValue({ status: 'healthy' }),
+            getStats: jest.fn().mockResolvedValue({ totalQueries: 3 }),
+          } as unknown as FakeAdapter;
+          created.set(tenantId, adapter);
+          return adapter;
+        },
+      },
+    );
+
+  beforeEach(() => {
+    now = 0;
+    eventEmitter = new EventEmitter2();
+    created = new Map();
+    logger = { info: jest.fn(), error: jest.fn() };
+    registry = createRegistry();
+  });
+
+  it('should cache one adapter per tenant database', async () => {
+    const first = await registry.acquire('acme');
+    const second = registry.get('acme');
+
+    expect(second).toBe(first);
+    expect(created.size).toBe(1);
+    expect(first.config).toMatchObject({
+      host: 'db',
+      database: 'tenant_acme',
+      pool: { min: 0, max: 5 },
+    });
+    expect(created.get('acme')!.setTenantContext).toHaveBeenCalledWith('acme');
+  });
+
+  it('should reopen the pool behind a held handle after it was evicted', async () => {
+    registry = createRegistry({ maxTotalConnections: 100 });
+    const adapter = await registry.acquire('alpha');
+    const evicted = created.get('alpha')!;
+    now = 70_000;
+
+    await expect(registry.evictIdle()).resolves.toEqual(['alpha']);
+    expect(evicted.disconnect).toHaveBeenCalled();
+
+    await expect(adapter.query('SELECT 1')).resolves.toEqual({
+      rows: [{ tenantId: 'alpha' }],
+    });
+    expect(created.get('alpha')).not.toBe(evicted);
+    expect(evicted.query).not.toHaveBeenCalled();
+    expect(registry.has('alpha')).toBe(true);
+  });
+
+  it('should not evict a pool in the middle of a transaction', async () => {
+    const adapter = await registry.acquire('alpha');
+    await registry.acquire('beta');
+    let evictions: string[] = [];
+
+    await adapter.transaction(async () => {
+      now = 70_000;
+      evictions = await registry.evictIdle();
+    });
+
+    expect(evictions).toEqual(['beta']);
+    expect(created.get('alpha')!.disconnect).not.toHaveBeenCalled();
+  });
+
+  it('should log pools that fail to close when evicted for capacity', async () => {
+    await registry.acquire('alpha');
+    await registry.acquire('beta');
+    const failure = new Error('pool end failed');
+    (created.get('alpha')!.disconnect as jest.Mock).mockRejectedValue(failure);
+
+    registry.get('gamma');
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(registry.has('alpha')).toBe(false);
+    expect(logger.error).toHaveBeenCalledWith(
+      'Failed to close tenant connection pool',
+      expect.anything(),
+      { tenantId: 'alpha' },
+      failure,
+    );
+  });
+
+  it('should evict the least recently used idle pool when the budget is full', async () => {
+    await registry.acquire('alpha');
+    now = 1000;
+    await registry.acquire('beta');
+    now = 2000;
+    // 适配器执行查询也会刷新最近使用时间
+    eventEmitter.emit('database.query_executed', {
+      adapter: 'tenant-db:alpha',
+    });
+
+    await registry.acquire('gamma');
+
+    expect(registry.has('alpha')).toBe(true);
+    expect(registry.has('beta')).toBe(false);
+    expect(created.get('beta')!.disconnect).toHaveBeenCalled();
+    expect(registry.getCapacity()).toEqual({
+      tenants: 2,
+      reservedConnections: 20,
+      maxTotalConnections: 20,
+      connectionsPerTenant: 10,
+      evictions: 1,
+    });
+  });
+
+  it('should never evict pools with checked-out connections', async () => {
+    await registry.acquire('alpha');
+    await registry.acquire('beta');
+    created.get('alpha')!.pool.totalCount = 2;
+    created.get('beta')!.pool.totalCount = 1;
+
+    await expect(registry.acquire('gamma')).rejects.toBeInstanceOf(
+      TenantPoolExhaustedError,
+    );
+    expect(() => registry.get('gamma')).toThrow(TenantPoolExhaustedError);
+
+    created.get('alpha')!.pool.idleCount = 2;
+    await registry.acquire('gamma');
+    expect(registry.has('alpha')).toBe(false);
+  });
+
+  it('should close pools that stay idle past the timeout', async () => {
+    registry = createRegistry({ maxTotalConnections: 100 });
+    await registry.acquire('alpha');
+    await registry.acquire('beta');
+    now = 50_000;
+    await registry.acquire('beta');
+    now = 70_000;
+
+    await expect(registry.evictIdle()).resolves.toEqual(['alpha']);
+    expect(registry.has('beta')).toBe(true);
+  });
+
+  it('should report health and stats per tenant', async () => {
+    await registry.acquire('alpha');
+    now = 5000;
+    await registry.acquire('beta');
+
+    await expect(registry.getHealth()).resolves.toEqual({
+      alpha: { status: 'healthy' },
+      beta: { status: 'healthy' },
+    });
+    await expect(registry.getStats()).resolves.toEqual({
+      alpha: {
+        totalQueries: 3,
+        database: 'tenant_alpha',
+        lastUsedAt: new Date(0),
+      },
+      beta: {
+        totalQueries: 3,
+        database: 'tenant_beta',
+        lastUsedAt: new Date(5000),
+      },
+    });
+
+    await registry.stop();
+    expect(registry.getCapacity().tenants).toBe(0);
+  });
+});
@@ -0,0 +1,701 @@
+/**
+ * @file tenant-database.registry.ts
+ * @description 数据库级隔离的租户连接池注册表
+ *
+ * DATABASE_LEVEL策略下每个租户使用独立数据库，每个租户数据库需要自己的连接池。
+ * 注册表为每个租户数据库缓存一个适配器，并限制所有租户连接池的连接总数：
+ * - 同一租户重复获取返回同一个适配器句柄，句柄每次调用时从注册表解析当前的连接池
+ * - 连接预算不足时按最近最少使用（LRU）关闭空闲的租户连接池
+ * - 定期关闭长时间未使用的租户连接池
+ */
+
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import type { Pool, QueryResult } from 'pg';
+import { PinoLoggerService, LogContext } from '@aiofix/logging';
+import type {
+  DatabaseConfig,
+  DatabaseConnection,
+  DatabaseHealth,
+  DatabaseStats,
+  IDatabaseAdapter,
+  QueryOptions,
+  RlsVerificationReport,
+  TenantTableInfo,
+  TransactionOptions,
+} from '../interfaces/database.interface';
+import { IsolationConfigService } from '../config/isolation.config';
+import { PostgreSQLAdapter } from '../adapters/postgresql.adapter';
+
+/**
+ * 注册表管理的适配器，需要暴露连接池以判断是否有正在使用的连接
+ */
+export type PooledDatabaseAdapter = IDatabaseAdapter & {
+  getPool(): Pick<Pool, 'totalCount' | 'idleCount'>;
+};
+
+/**
+ * @interface TenantDatabaseRegistryOptions
+ * @description 租户连接池注册表选项
+ */
+export interface TenantDatabaseRegistryOptions {
+  /** 所有租户连接池的连接总数上限，默认200 */
+  maxTotalConnections?: number;
+  /** 单个租户的连接数（查询连接池和事务连接池各占一半），默认10 */
+  maxConnectionsPerTenant?: number;
+  /** 租户连接池空闲多久后关闭（毫秒），默认5分钟 */
+  idleTimeoutMs?: number;
+  /** 空闲检查间隔（毫秒），默认1分钟 */
+  evictionIntervalMs?: number;
+  /** 租户数据库的连接参数，默认读取POSTGRES_*环境变量 */
+  connection?: Pick<
+    DatabaseConfig,
+    'host' | 'port' | 'username' | 'password' | 'ssl'
+  >;
+  /** 创建适配器的函数，默认创建PostgreSQLAdapter */
+  createAdapter?: (
+    tenantId: string,
+    config: DatabaseConfig,
+  ) => PooledDatabaseAdapter;
+  /** 时钟，测试时可注入 */
+  clock?: () => number;
+}
+
+/**
+ * @interface TenantPoolStats
+ * @description 单个租户连接池的统计信息
+ */
+export interface TenantPoolStats extends DatabaseStats {
+  /** 租户数据库名称 */
+  database: string;
+  /** 最近使用时间 */
+  lastUsedAt: Date;
+}
+
+/**
+ * @interface TenantPoolCapacity
+ * @description 租户连接池注册表的连接预算使用情况
+ */
+export interface TenantPoolCapacity {
+  /** 当前缓存的租户连接池数量 */
+  tenants: number;
+  /** 已分配的连接预算 */
+  reservedConnections: number;
+  /** 连接总数上限 */
+  maxTotalConnections: number;
+  /** 每个租户占用的连接预算 */
+  connectionsPerTenant: number;
+  /** 累计关闭的租户连接池数量 */
+  evictions: number;
+}
+
+/**
+ * @class TenantPoolExhaustedError
+ * @description 连接预算已满且没有可关闭的空闲租户连接池时抛出
+ */
+export class TenantPoolExhaustedError extends Error {
+  constructor(
+    public readonly tenantId: string,
+    public readonly reservedConnections: number,
+    public readonly maxTotalConnections: number,
+  ) {
+    super(
+      `Cannot open a connection pool for tenant ${tenantId}: ${reservedConnections}/${maxTotalConnections} connections reserved by busy tenant pools`,
+    );
+    this.name = 'TenantPoolExhaustedError';
+  }
+}
+
+interface TenantPoolEntry {
+  tenantId: string;
+  adapter: PooledDatabaseAdapter;
+  lastUsedAt: number;
+  /** 通过句柄正在执行的查询和事务数量 */
+  active: number;
+}
+
+/** 适配器名称前缀，用于从适配器事件中识别租户 */
+const ADAPTER_NAME_PREFIX = 'tenant-db:';
+
+/**
+ * @class TenantDatabaseRegistry
+ * @description
+ * 租户连接池注册表。
+ *
+ * 职责：
+ * 1. 为每个租户数据库缓存一个适配器，适配器由注册表注入真实的事件发射器和日志服务，
+ *    调用方拿到的是TenantAdapterHandle，连接池被关闭后下一次调用自动重新打开
+ * 2. 每个租户占用固定的连接预算，预算总和不超过maxTotalConnections
+ * 3. 获取适配器以及适配器执行查询、事务时更新租户的最近使用时间
+ * 4. 预算不足时按LRU顺序关闭没有活动连接、也没有通过句柄执行中的查询和事务的租户连接池
+ * 5. 通过getHealth/getStats报告每个租户连接池的状态，通过getCapacity报告连接预算
+ *
+ * @example
+ * ```typescript
+ * const registry = new TenantDatabaseRegistry(isolationConfig, eventEmitter, logger, {
+ *   maxTotalConnections: 300,
+ * });
+ * registry.start();
+ * const factory = new DatabaseAdapterFactory(
+ *   isolationConfig,
+ *   eventEmitter,
+ *   logger,
+ *   registry,
+ * );
+ * const adapter = factory.createAdapter('tenant-123');
+ * ```
+ */
+export class TenantDatabaseRegistry {
+  private readonly entries: Map<string, TenantPoolEntry> = new Map();
+  private readonly handles: Map<string, TenantAdapterHandle> = new Map();
+  private readonly maxTotalConnections: number;
+  private readonly poolSize: number;
+  private readonly idleTimeoutMs: number;
+  private readonly evictionIntervalMs: number;
+  private readonly clock: () => number;
+  private evictions = 0;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly isolationConfig: IsolationConfigService,
+    private readonly eventEmitter: EventEmitter2,
+    private readonly logger: PinoLoggerService,
+    private readonly options: TenantDatabaseRegistryOptions = {},
+  ) {
+    this.maxTotalConnections = options.maxTotalConnections ?? 200;
+    this.poolSize = Math.max(
+      1,
+      Math.floor((options.maxConnectionsPerTenant ?? 10) / 2),
+    );
+    this.idleTimeoutMs = options.idleTimeoutMs ?? 5 * 60 * 1000;
+    this.evictionIntervalMs = options.evictionIntervalMs ?? 60 * 1000;
+    this.clock = options.clock ?? ((): number => Date.now());
+
+    if (this.connectionsPerTenant > this.maxTotalConnections) {
+      throw new Error(
+        'maxConnectionsPerTenant must not exceed maxTotalConnections',
+      );
+    }
+
+    for (const event of [
+      'database.query_executed',
+      'database.transaction_completed',
+    ]) {
+      this.eventEmitter.on(event, (payload: { adapter?: string }) =>
+        this.touchAdapter(payload.adapter),
+      );
+    }
+  }
+
+  /**
+   * 每个租户占用的连接预算：PostgreSQLAdapter的查询连接池和事务连接池各poolSize个
+   */
+  private get connectionsPerTenant(): number {
+    return this.poolSize * 2;
+  }
+
+  /**
+   * @method acquire
+   * @description 获取租户数据库的适配器句柄，连接池不存在时创建
+   * @param {string} tenantId 租户ID
+   * @returns {Promise<IDatabaseAdapter>} 租户数据库适配器句柄
+   * @throws {TenantPoolExhaustedError} 当连接预算已满且所有租户连接池都在使用时抛出
+   */
+  async acquire(tenantId: string): Promise<IDatabaseAdapter> {
+    const existing = this.entries.get(tenantId);
+    if (existing) {
+      this.touch(existing);
+      return this.handle(tenantId);
+    }
+
+    await this.reserveCapacity(tenantId);
+    // 等待关闭连接池期间其他调用可能已经创建了该租户的连接池
+    const created = this.entries.get(tenantId) ?? this.create(tenantId);
+    this.touch(created);
+    return this.handle(tenantId);
+  }
+
+  /**
+   * @method get
+   * @description 同步获取租户适配器句柄；预算已满时先关闭最久未使用的空闲连接池
+   * @param {string} tenantId 租户ID
+   * @returns {IDatabaseAdapter} 租户数据库适配器句柄
+   * @throws {TenantPoolExhaustedError} 当连接预算已满且所有租户连接池都在使用时抛出
+   */
+  get(tenantId: string): IDatabaseAdapter {
+    this.resolveEntry(tenantId);
+    return this.handle(tenantId);
+  }
+
+  /**
+   * @method resolve
+   * @description 获取租户当前的适配器，连接池已被关闭时重新创建
+   * @param {string} tenantId 租户ID
+   * @returns {PooledDatabaseAdapter} 租户数据库适配器
+   * @throws {TenantPoolExhaustedError} 当连接预算已满且所有租户连接池都在使用时抛出
+   */
+  resolve(tenantId: string): PooledDatabaseAdapter {
+    return this.resolveEntry(tenantId).adapter;
+  }
+
+  /**
+   * @method use
+   * @description 用租户当前的适配器执行操作，执行期间连接池不会被关闭
+   * @param {string} tenantId 租户ID
+   * @param {Function} operation 操作
+   * @returns {Promise<T>} 操作结果
+   * @throws {TenantPoolExhaustedError} 当连接预算已满且所有租户连接池都在使用时抛出
+   */
+  async use<T>(
+    tenantId: string,
+    operation: (adapter: PooledDatabaseAdapter) => Promise<T>,
+  ): Promise<T> {
+    const entry = this.resolveEntry(tenantId);
+    entry.active++;
+    try {
+      return await operation(entry.adapter);
+    } finally {
+      entry.active--;
+    }
+  }
+
+  /**
+   * @method has
+   * @description 检查租户连接池是否已缓存
+   * @param {string} tenantId 租户ID
+   * @returns {boolean} 是否已缓存
+   */
+  has(tenantId: string): boolean {
+    return this.entries.has(tenantId);
+  }
+
+  /**
+   * @method release
+   * @description 关闭租户连接池（如租户被删除）
+   * @param {string} tenantId 租户ID
+   * @returns {Promise<boolean>} 连接池是否存在
+   */
+  async release(tenantId: string): Promise<boolean> {
+    const entry = this.entries.get(tenantId);
+    if (!entry) {
+      return false;
+    }
+    await this.evict(entry, 'released');
+    return true;
+  }
+
+  /**
+   * @method evictIdle
+   * @description 关闭超过空闲时间且没有活动连接的租户连接池
+   * @returns {Promise<string[]>} 被关闭的租户ID
+   */
+  async evictIdle(): Promise<string[]> {
+    const now = this.clock();
+    const idle = Array.from(this.entries.values()).filter(
+      entry =>
+        now - entry.lastUsedAt >= this.idleTimeoutMs && !this.isBusy(entry),
+    );
+    for (const entry of idle) {
+      await this.evict(entry, 'idle');
+    }
+    return idle.map(entry => entry.tenantId);
+  }
+
+  /**
+   * @method start
+   * @description 启动定期空闲检查
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      this.evictIdle().catch(error =>
+        this.logger.error(
+          'Tenant pool eviction failed',
+          LogContext.DATABASE,
+          {},
+          error as Error,
+        ),
+      );
+    }, this.evictionIntervalMs);
+    this.timer.unref();
+  }
+
+  /**
+   * @method stop
+   * @description 停止空闲检查并关闭所有租户连接池
+   * @returns {Promise<void>}
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await Promise.allSettled(
+      Array.from(this.entries.values()).map(entry =>
+        this.evict(entry, 'released'),
+      ),
+    );
+    this.handles.clear();
+  }
+
+  /**
+   * @method getHealth
+   * @description 获取每个已缓存租户连接池的健康状态
+   * @returns {Promise<Record<string, DatabaseHealth>>} 按租户ID索引的健康状态
+   */
+  async getHealth(): Promise<Record<string, DatabaseHealth>> {
+    const entries = Array.from(this.entries.values());
+    const health = await Promise.all(
+      entries.map(entry => entry.adapter.getHealth()),
+    );
+    return Object.fromEntries(
+      entries.map((entry, index) => [entry.tenantId, health[index]]),
+    );
+  }
+
+  /**
+   * @method getStats
+   * @description 获取每个已缓存租户连接池的统计信息
+   * @returns {Promise<Record<string, TenantPoolStats>>} 按租户ID索引的统计信息
+   */
+  async getStats(): Promise<Record<string, TenantPoolStats>> {
+    const entries = Array.from(this.entries.values());
+    const stats = await Promise.all(
+      entries.map(entry => entry.adapter.getStats()),
+    );
+    return Object.fromEntries(
+      entries.map((entry, index) => [
+        entry.tenantId,
+        {
+          ...stats[index],
+          database: entry.adapter.config.database,
+          lastUsedAt: new Date(entry.lastUsedAt),
+        },
+      ]),
+    );
+  }
+
+  /**
+   * @method getCapacity
+   * @description 获取连接预算的使用情况
+   * @returns {TenantPoolCapacity} 连接预算使用情况
+   */
+  getCapacity(): TenantPoolCapacity {
+    return {
+      tenants: this.entries.size,
+      reservedConnections: this.reservedConnections(),
+      maxTotalConnections: this.maxTotalConnections,
+      connectionsPerTenant: this.connectionsPerTenant,
+      evictions: this.evictions,
+    };
+  }
+
+  private resolveEntry(tenantId: string): TenantPoolEntry {
+    const existing = this.entries.get(tenantId);
+    if (existing) {
+      this.touch(existing);
+      return existing;
+    }
+
+    for (const victim of this.selectVictims(tenantId)) {
+      this.evict(victim, 'capacity').catch(error =>
+        this.logger.error(
+          'Failed to close tenant connection pool',
+          LogContext.DATABASE,
+          { tenantId: victim.tenantId },
+          error as Error,
+        ),
+      );
+    }
+    const created = this.create(tenantId);
+    this.touch(created);
+    return created;
+  }
+
+  private handle(tenantId: string): TenantAdapterHandle {
+    let handle = this.handles.get(tenantId);
+    if (!handle) {
+      handle = new TenantAdapterHandle(this, tenantId);
+      this.handles.set(tenantId, handle);
+    }
+    return handle;
+  }
+
+  private async reserveCapacity(tenantId: string): Promise<void> {
+    for (const victim of this.selectVictims(tenantId)) {
+      await this.evict(victim, 'capacity');
+    }
+  }
+
+  /**
+   * 按LRU顺序选出需要关闭的空闲连接池，使新租户的连接预算不超过上限
+   */
+  private selectVictims(tenantId: string): TenantPoolEntry[] {
+    let reserved = this.reservedConnections() + this.connectionsPerTenant;
+    const victims: TenantPoolEntry[] = [];
+
+    for (const entry of this.entries.values()) {
+      if (reserved <= this.maxTotalConnections) {
+        break;
+      }
+      if (!this.isBusy(entry)) {
+        victims.push(entry);
+        reserved -= this.connectionsPerTenant;
+      }
+    }
+
+    if (reserved > this.maxTotalConnections) {
+      throw new TenantPoolExhaustedError(
+        tenantId,
+        this.reservedConnections(),
+        this.maxTotalConnections,
+      );
+    }
+    return victims;
+  }
+
+  private create(tenantId: string): TenantPoolEntry {
+    const config = this.buildConfig(tenantId);
+    const adapter = this.options.createAdapter
+      ? this.options.createAdapter(tenantId, config)
+      : new PostgreSQLAdapter(
+          config,
+          `${ADAPTER_NAME_PREFIX}${tenantId}`,
+          this.eventEmitter,
+          this.logger,
+        );
+    adapter.setTenantContext(tenantId);
+
+    const entry = { tenantId, adapter, lastUsedAt: this.clock(), active: 0 };
+    this.entries.set(tenantId, entry);
+
+    this.logger.info('Tenant connection pool opened', LogContext.DATABASE, {
+      tenantId,
+      database: config.database,
+      tenants: this.entries.size,
+      reservedConnections: this.reservedConnections(),
+    });
+    return entry;
+  }
+
+  private async evict(
+    entry: TenantPoolEntry,
+    reason: 'idle' | 'capacity' | 'released',
+  ): Promise<void> {
+    if (this.entries.get(entry.tenantId) !== entry) {
+      return;
+    }
+    this.entries.delete(entry.tenantId);
+    this.evictions++;
+
+    this.logger.info('Tenant connection pool closed', LogContext.DATABASE, {
+      tenantId: entry.tenantId,
+      reason,
+      tenants: this.entries.size,
+    });
+    await entry.adapter.disconnect();
+  }
+
+  private buildConfig(tenantId: string): DatabaseConfig {
+    const connection = this.options.connection ?? {
+      host: process.env.POSTGRES_HOST ?? 'localhost',
+      port: parseInt(process.env.POSTGRES_PORT ?? '5432'),
+      username: process.env.POSTGRES_USER ?? 'aiofix_user',
+      password: process.env.POSTGRES_PASSWORD ?? 'aiofix_password',
+    };
+
+    return {
+      type: 'postgresql',
+      ...connection,
+      database: this.isolationConfig.getDedicatedDatabaseName(tenantId),
+      pool: {
+        min: 0,
+        max: this.poolSize,
+        acquireTimeoutMillis: 30000,
+        createTimeoutMillis: 30000,
+        destroyTimeoutMillis: 5000,
+        idleTimeoutMillis: Math.min(this.idleTimeoutMs, 30000),
+        reapIntervalMillis: 1000,
+        createRetryIntervalMillis: 200,
+      },
+    };
+  }
+
+  /**
+   * 移到Map末尾，Map的迭代顺序即LRU顺序
+   */
+  private touch(entry: TenantPoolEntry): void {
+    entry.lastUsedAt = this.clock();
+    this.entries.delete(entry.tenantId);
+    this.entries.set(entry.tenantId, entry);
+  }
+
+  private touchAdapter(adapterName?: string): void {
+    if (!adapterName?.startsWith(ADAPTER_NAME_PREFIX)) {
+      return;
+    }
+    const entry = this.entries.get(
+      adapterName.slice(ADAPTER_NAME_PREFIX.length),
+    );
+    if (entry) {
+      this.touch(entry);
+    }
+  }
+
+  /**
+   * 句柄执行中的查询和事务覆盖了查询连接池和事务连接池，连接池检查覆盖直接取出的连接
+   */
+  private isBusy(entry: TenantPoolEntry): boolean {
+    if (entry.active > 0) {
+      return true;
+    }
+    const pool = entry.adapter.getPool();
+    return pool.totalCount - pool.idleCount > 0;
+  }
+
+  private reservedConnections(): number {
+    return this.entries.size * this.connectionsPerTenant;
+  }
+}
+
+/**
+ * @class TenantAdapterHandle
+ * @description
+ * 租户数据库适配器句柄，调用方（如仓储）可以长期持有。
+ *
+ * 每次调用时从注册表解析租户当前的适配器，连接池因空闲或预算不足被关闭后，
+ * 下一次调用自动重新打开。查询、执行和事务期间注册表不会关闭该连接池。
+ * 关闭句柄会释放租户连接池。
+ */
+export class TenantAdapterHandle implements IDatabaseAdapter {
+  constructor(
+    private readonly registry: TenantDatabaseRegistry,
+    readonly tenantId: string,
+  ) {}
+
+  get name(): string {
+    return `${ADAPTER_NAME_PREFIX}${this.tenantId}`;
+  }
+
+  get type(): string {
+    return this.current.type;
+  }
+
+  get isConnected(): boolean {
+    return this.registry.has(this.tenantId) && this.current.isConnected;
+  }
+
+  get config(): DatabaseConfig {
+    return this.current.config;
+  }
+
+  get eventEmitter(): EventEmitter2 {
+    return this.current.eventEmitter;
+  }
+
+  private get current(): PooledDatabaseAdapter {
+    return this.registry.resolve(this.tenantId);
+  }
+
+  async connect(): Promise<void> {
+    await this.registry.use(this.tenantId, adapter => adapter.connect());
+  }
+
+  async disconnect(): Promise<void> {
+    await this.registry.release(this.tenantId);
+  }
+
+  query(
+    sql: string,
+    params?: unknown[],
+    options?: QueryOptions,
+  ): Promise<QueryResult> {
+    return this.registry.use(this.tenantId, adapter =>
+      adapter.query(sql, params, options),
+    );
+  }
+
+  execute(
+    sql: string,
+    params?: unknown[],
+    options?: QueryOptions,
+  ): Promise<QueryResult> {
+    return this.registry.use(this.tenantId, adapter =>
+      adapter.execute(sql, params, options),
+    );
+  }
+
+  transaction<T>(
+    callback: (_trx: unknown) => Promise<T>,
+    options?: TransactionOptions,
+  ): Promise<T> {
+    return this.registry.use(this.tenantId, adapter =>
+      adapter.transaction(callback, options),
+    );
+  }
+
+  getHealth(): Promise<DatabaseHealth> {
+    return this.current.getHealth();
+  }
+
+  getStats(): Promise<DatabaseStats> {
+    return this.current.getStats();
+  }
+
+  resetStats(): Promise<void> {
+    return this.current.resetStats();
+  }
+
+  getConnection(): Promise<DatabaseConnection> {
+    return this.current.getConnection();
+  }
+
+  ping(): Promise<boolean> {
+    return this.registry.use(this.tenantId, adapter => adapter.ping());
+  }
+
+  setTenantContext(tenantId: string): void {
+    this.current.setTenantContext(tenantId);
+  }
+
+  getTenantContext(): string | undefined {
+    return this.current.getTenantContext();
+  }
+
+  setDefaultSchema(schemaName: string): void {
+    this.current.setDefaultSchema(schemaName);
+  }
+
+  getDefaultSchema(): string | undefined {
+    return this.current.getDefaultSchema();
+  }
+
+  enableRowLevelSecurity(): void {
+    this.current.enableRowLevelSecurity();
+  }
+
+  disableRowLevelSecurity(): void {
+    this.current.disableRowLevelSecurity();
+  }
+
+  isRowLevelSecurityEnabled(): boolean {
+    return this.current.isRowLevelSecurityEnabled();
+  }
+
+  applyRowLevelSecurityPolicies(
+    tenantIdField?: string,
+  ): Promise<TenantTableInfo[]> {
+    return this.registry.use(this.tenantId, adapter =>
+      adapter.applyRowLevelSecurityPolicies(tenantIdField),
+    );
+  }
+
+  verifyRowLevelSecurity(
+    tenantIdField?: string,
+  ): Promise<RlsVerificationReport> {
+    return this.registry.use(this.tenantId, adapter =>
+      adapter.verifyRowLevelSecurity(tenantIdField),
+    );
+  }
+}
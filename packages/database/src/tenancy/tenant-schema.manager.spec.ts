@@ -0,0 +1,315 @@
+/**
+ * @file tenant-schema.manager.spec.ts
+ * @description 租户Schema管理器单元测试
+ */
+
+import { PassThrough } from 'stream';
+import { DomainEvent, IEventBus, IEventHandler } from '@aiofix/core';
+import {
+  TenantMigrationProgress,
+  TenantSchemaManager,
+  TenantSchemaMigration,
+} from './tenant-schema.manager';
+import { IsolationConfigService } from '../config/isolation.config';
+import { IDatabaseAdapter } from '../interfaces/database.interface';
+
+/**
+ * 内存中的Schema目录，按SQL语句模拟PostgreSQL的行为
+ */
+class FakeCatalog {
+  readonly schemas = new Map<string, Map<string, string>>();
+  readonly statements: string[] = [];
+  failOn?: string;
+
+  async run(sql: string, params: unknown[] = []): Promise<{ rows: any[] }> {
+    this.statements.push(sql);
+    let match: RegExpMatchArray | null;
+
+    if ((match = /^CREATE SCHEMA IF NOT EXISTS "(.+)"$/.exec(sql))) {
+      if (!this.schemas.has(match[1])) {
+        this.schemas.set(match[1], new Map());
+      }
+      return { rows: [] };
+    }
+    if ((match = /^DROP SCHEMA IF EXISTS "(.+)" CASCADE$/.exec(sql))) {
+      this.schemas.delete(match[1]);
+      return { rows: [] };
+    }
+    if (sql.includes('FROM pg_namespace WHERE nspname = $1')) {
+      return { rows: this.schemas.has(params[0] as string) ? [{}] : [] };
+    }
+    if (sql.includes('FROM pg_namespace')) {
+      const prefix = params[0] as string;
+      return {
+        rows: [...this.schemas.keys()]
+          .filter(name => name.startsWith(prefix))
+          .sort()
+          .map(nspname => ({ nspname })),
+      };
+    }
+    if (
+      (match = /CREATE TABLE IF NOT EXISTS "(.+?)"\."schema_migrations"/.exec(
+        sql,
+      ))
+    ) {
+      if (!this.schemas.has(match[1])) {
+        throw new Error(`schema "${match[1]}" does not exist`);
+      }
+      return { rows: [] };
+    }
+    if ((match = /^SELECT version FROM "(.+?)"\./.exec(sql))) {
+      return {
+        rows: [...this.history(match[1]).keys()]
+          .sort()
+          .map(version => ({ version })),
+      };
+    }
+    if ((match = /^SELECT 1 FROM "(.+?)"\.\S+ WHERE version/.exec(sql))) {
+      return {
+        rows: this.history(match[1]).has(params[0] as string) ? [{}] : [],
+      };
+    }
+    if ((match = /^INSERT INTO "(.+?)"\./.exec(sql))) {
+      this.history(match[1]).set(params[0] as string, params[1] as string);
+      return { rows: [] };
+    }
+    if (this.failOn && sql.includes(this.failOn)) {
+      throw new Error(`failed: ${this.failOn}`);
+    }
+    return { rows: [] };
+  }
+
+  private history(schema: string): Map<string, string> {
+    const history = this.schemas.get(schema);
+    if (!history) {
+      throw new Error(`schema "${schema}" does not exist`);
+    }
+    return history;
+  }
+}
+
+const migrations: TenantSchemaMigration[] = [
+  {
+    version: '0002',
+    description: 'create orders',
+    up: 'CREATE TABLE orders (id UUID PRIMARY KEY)',
+  },
+  {
+    version: '0001',
+    description: 'create users',
+    up: 'CREATE TABLE users (id UUID PRIMARY KEY)',
+  },
+];
+
+describe('TenantSchemaManager', () => {
+  let catalog: FakeCatalog;
+  let adapter: jest.Mocked<IDatabaseAdapter>;
+  let manager: TenantSchemaManager;
+
+  beforeEach(() => {
+    catalog = new FakeCatalog();
+    const run = (sql: string, params?: unknown[]) => catalog.run(sql, params);
+    adapter = {
+      query: jest.fn(run),
+      execute: jest.fn(run),
+      transaction: jest.fn(async callback => callback({ query: jest.fn(run) })),
+    } as any;
+    const isolationConfig = {
+      getConfig: () => ({ schemaLevel: { tenantSchemaPrefix: 'tenant_' } }),
+    } as unknown as IsolationConfigService;
+    manager = new TenantSchemaManager(adapter, isolationConfig, migrations);
+  });
+
+  it('should reject tenant ids that cannot form a schema name', () => {
+    expect(() => manager.getSchemaName('acme"; DROP SCHEMA public;--')).toThrow(
+      'Invalid tenant id',
+    );
+    expect(manager.getSchemaName('00000000-0000-0000-0000-000000000001')).toBe(
+      'tenant_00000000-0000-0000-0000-000000000001',
+    );
+  });
+
+  it('should provision a schema and apply migrations in version order', async () => {
+    await expect(manager.provisionTenant('acme')).resolves.toEqual([
+      '0001',
+      '0002',
+    ]);
+
+    const migrationStatements = catalog.statements.filter(
+      sql =>
+        sql.startsWith('CREATE TABLE ') && !sql.includes('schema_migrations'),
+    );
+    expect(migrationStatements).toEqual([
+      'CREATE TABLE users (id UUID PRIMARY KEY)',
+      'CREATE TABLE orders (id UUID PRIMARY KEY)',
+    ]);
+    expect(adapter.transaction).toHaveBeenCalledTimes(2);
+    await expect(manager.getAppliedMigrations('acme')).resolves.toEqual([
+      '0001',
+      '0002',
+    ]);
+    await expect(manager.provisionTenant('acme')).resolves.toEqual([]);
+  });
+
+  it('should run each migration with the tenant schema on the search path', async () => {
+    const queries: Array<[string, unknown[] | undefined]> = [];
+    adapter.transaction.mockImplementation(async callback =>
+      callback({
+        query: async (sql: string, params?: unknown[]) => {
+          queries.push([sql, params]);
+          return catalog.run(sql, params);
+        },
+      }),
+    );
+
+    await manager.provisionTenant('acme');
+
+    expect(queries.slice(0, 4)).toEqual([
+      ['SELECT pg_advisory_xact_lock(hashtext($1))', ['tenant_acme']],
+      [expect.stringContaining('WHERE version = $1'), ['0001']],
+      ["SELECT set_config('search_path', $1, true)", ['"tenant_acme", public']],
+      ['CREATE TABLE users (id UUID PRIMARY KEY)', undefined],
+    ]);
+  });
+
+  it('should migrate every tenant schema, report progress and resume after a failure', async () => {
+    for (const tenantId of ['alpha', 'beta', 'gamma']) {
+      catalog.schemas.set(`tenant_${tenantId}`, new Map());
+    }
+    catalog.schemas.get('tenant_alpha')!.set('0001', 'create users');
+    catalog.failOn = 'orders';
+
+    const progress: TenantMigrationProgress[] = [];
+    const first = await manager.migrateAll({
+      onProgress: p => progress.push(p),
+    });
+
+    expect(first.total).toBe(3);
+    expect(first.failed.map(f => f.tenantId)).toEqual([
+      'alpha',
+      'beta',
+      'gamma',
+    ]);
+    expect(progress.map(p => [p.index, p.total, p.status])).toEqual([
+      [1, 3, 'failed'],
+      [2, 3, 'failed'],
+      [3, 3, 'failed'],
+    ]);
+    await expect(manager.getAppliedMigrations('beta')).resolves.toEqual([
+      '0001',
+    ]);
+
+    catalog.failOn = undefined;
+    const second = await manager.migrateAll();
+
+    expect(second.migrated).toEqual(['alpha', 'beta', 'gamma']);
+    await expect(manager.getPendingMigrations('gamma')).resolves.toEqual([]);
+  });
+
+  it('should stop at the first failure when asked to', async () => {
+    catalog.schemas.set('tenant_alpha', new Map());
+    catalog.schemas.set('tenant_beta', new Map());
+    catalog.failOn = 'users';
+
+    const result = await manager.migrateAll({ stopOnError: true });
+
+    expect(result.failed).toEqual([
+      { tenantId: 'alpha', schema: 'tenant_alpha', error: 'failed: users' },
+    ]);
+    expect(result.migrated).toEqual([]);
+  });
+
+  it('should stream tables through a cursor and drop the schema', async () => {
+    await manager.provisionTenant('acme');
+    const orders = [{ id: 'order-1' }, { id: 'order-2' }, { id: 'order-3' }];
+    let fetched = 0;
+    const cursorSql: string[] = [];
+    adapter.transaction.mockImplementation(async (callback, options) => {
+      expect(options).toEqual({
+        isolationLevel: 'repeatable read',
+        readOnly: true,
+      });
+      return callback({
+        query: async (sql: string, params?: unknown[]) => {
+          if (sql.includes('information_schema.tables')) {
+            return {
+              rows: [
+                { table_name: 'orders' },
+                { table_name: 'schema_migrations' },
+              ],
+            };
+          }
+          if (/^(DECLARE|FETCH|CLOSE)/.test(sql)) {
+            cursorSql.push(sql);
+            const rows = sql.startsWith('FETCH')
+              ? orders.slice(fetched, fetched + 2)
+              : [];
+            fetched += rows.length;
+            return { rows };
+          }
+          return catalog.run(sql, params);
+        },
+      });
+    });
+    const output = new PassThrough();
+    const chunks: string[] = [];
+    output.on('data', (chunk: Buffer) => chunks.push(chunk.toString()));
+
+    const exported = await manager.exportTenant('acme', output, {
+      batchSize: 2,
+    });
+
+    expect(exported).toMatchObject({
+      tenantId: 'acme',
+      schema: 'tenant_acme',
+      migrations: ['0001', '0002'],
+      tables: [{ name: 'orders', rowCount: 3 }],
+    });
+    expect(cursorSql).toEqual([
+      'DECLARE tenant_export NO SCROLL CURSOR FOR SELECT * FROM "tenant_acme"."orders"',
+      'FETCH FORWARD 2 FROM tenant_export',
+      'FETCH FORWARD 2 FROM tenant_export',
+      'CLOSE tenant_export',
+    ]);
+    const records = chunks
+      .join('')
+      .trim()
+      .split('\n')
+      .map(line => JSON.parse(line) as Record<string, unknown>);
+    expect(records).toEqual([
+      expect.objectContaining({
+        type: 'schema',
+        schema: 'tenant_acme',
+        migrations: ['0001', '0002'],
+      }),
+      { type: 'table', name: 'orders' },
+      ...orders.map(row => ({ type: 'row', table: 'orders', row })),
+    ]);
+
+    await expect(manager.dropTenant('acme')).resolves.toBe(true);
+    await expect(manager.dropTenant('acme')).resolves.toBe(false);
+    await expect(manager.exportTenant('acme', output)).rejects.toThrow(
+      'Tenant schema not found',
+    );
+  });
+
+  it('should provision schemas when tenants are created', async () => {
+    const handlers = new Map<string, IEventHandler>();
+    const eventBus = {
+      subscribe: jest.fn(async (eventType: string, handler: IEventHandler) => {
+        handlers.set(eventType, handler);
+        return `sub-${eventType}`;
+      }),
+      unsubscribe: jest.fn(async () => undefined),
+    } as unknown as IEventBus;
+
+    await manager.start(eventBus);
+    await handlers
+      .get('TenantCreatedEvent')!
+      .handle({ aggregateId: 'acme' } as DomainEvent);
+    await manager.stop();
+
+    expect(catalog.schemas.has('tenant_acme')).toBe(true);
+    expect(eventBus.unsubscribe).toHaveBeenCalledWith('sub-TenantCreatedEvent');
+  });
+});
@@ -0,0 +1,594 @@
+/**
+ * @file tenant-schema.manager.ts
+ * @description Schema级隔离的租户Schema生命周期管理
+ *
+ * SCHEMA_LEVEL策略下每个租户使用独立Schema（名称为tenantSchemaPrefix + 租户ID），
+ * 该文件负责：
+ * - 租户创建时创建Schema并执行全部迁移
+ * - 对所有租户Schema执行待执行的迁移，报告进度，中断后可继续
+ * - 导出和删除租户Schema
+ */
+
+import { once } from 'events';
+import type { Writable } from 'stream';
+import type { DomainEvent, IEventBus, IEventHandler } from '@aiofix/core';
+import type {
+  IDatabaseAdapter,
+  ISqlExecutor,
+} from '../interfaces/database.interface';
+import { createSqlExecutor } from '../adapters/sql-executor';
+import { IsolationConfigService } from '../config/isolation.config';
+
+/**
+ * @interface TenantSchemaMigration
+ * @description 租户Schema迁移
+ */
+export interface TenantSchemaMigration {
+  /** 版本号，按字典序执行，如'0001' */
+  version: string;
+  /** 迁移说明 */
+  description: string;
+  /** 迁移SQL或迁移函数，执行时search_path指向租户Schema */
+  up: string | ((executor: ISqlExecutor) => Promise<void>);
+}
+
+/**
+ * @interface TenantMigrationProgress
+ * @description 单个租户Schema的迁移进度
+ */
+export interface TenantMigrationProgress {
+  /** 租户ID */
+  tenantId: string;
+  /** Schema名称 */
+  schema: string;
+  /** 当前是第几个租户（从1开始） */
+  index: number;
+  /** 租户总数 */
+  total: number;
+  /** 迁移结果 */
+  status: 'migrated' | 'up_to_date' | 'failed';
+  /** 本次执行的迁移版本 */
+  applied: string[];
+  /** 失败原因 */
+  error?: string;
+}
+
+/**
+ * @interface MigrateTenantsOptions
+ * @description 批量迁移选项
+ */
+export interface MigrateTenantsOptions {
+  /** 只迁移指定租户，默认迁移所有已创建Schema的租户 */
+  tenantIds?: string[];
+  /** 进度回调，每个租户处理完成后调用 */
+  onProgress?: (progress: TenantMigrationProgress) => void;
+  /** 遇到失败时是否停止，默认继续迁移其他租户 */
+  stopOnError?: boolean;
+}
+
+/**
+ * @interface MigrateTenantsResult
+ * @description 批量迁移结果
+ */
+export interface MigrateTenantsResult {
+  /** 租户总数 */
+  total: number;
+  /** 本次执行了迁移的租户 */
+  migrated: string[];
+  /** 已是最新版本的租户 */
+  upToDate: string[];
+  /** 迁移失败的租户 */
+  failed: Array<{ tenantId: string; schema: string; error: string }>;
+}
+
+/**
+ * @interface TenantSchemaExport
+ * @description 租户Schema导出摘要，数据行写入导出流，不保存在摘要中
+ */
+export interface TenantSchemaExport {
+  /** 租户ID */
+  tenantId: string;
+  /** Schema名称 */
+  schema: string;
+  /** 导出时间 */
+  exportedAt: Date;
+  /** 已执行的迁移版本 */
+  migrations: string[];
+  /** 各表导出的行数，按表名排序 */
+  tables: Array<{ name: string; rowCount: number }>;
+}
+
+/**
+ * @type TenantSchemaExportRecord
+ * @description 导出流中的一条记录，每条记录占一行JSON（NDJSON）
+ */
+export type TenantSchemaExportRecord =
+  | {
+      type: 'schema';
+      tenantId: string;
+      schema: string;
+      exportedAt: Date;
+      migrations: string[];
+    }
+  | { type: 'table'; name: string }
+  | { type: 'row'; table: string; row: Record<string, unknown> };
+
+/**
+ * @interface ExportTenantOptions
+ * @description 导出选项
+ */
+export interface ExportTenantOptions {
+  /** 每次从游标读取的行数，默认1000 */
+  batchSize?: number;
+}
+
+/**
+ * @interface TenantSchemaManagerOptions
+ * @description 租户Schema管理器选项
+ */
+export interface TenantSchemaManagerOptions {
+  /** 每个租户Schema内的迁移历史表名，默认schema_migrations */
+  historyTable?: string;
+}
+
+/**
+ * @class TenantSchemaManager
+ * @description
+ * 租户Schema管理器，使用平台数据库适配器（未设置默认Schema）管理所有租户Schema。
+ *
+ * 迁移流程（每个迁移一个事务）：
+ * 1. 获取该Schema的事务级advisory锁，防止多个进程同时迁移同一租户
+ * 2. 在锁内检查迁移历史表，已执行的版本直接跳过
+ * 3. 将search_path设为租户Schema后执行迁移
+ * 4. 在同一事务中写入迁移历史
+ *
+ * 已提交的迁移记录在租户Schema内，批量迁移中断后重新执行即从断点继续。
+ *
+ * @example
+ * ```typescript
+ * const manager = new TenantSchemaManager(platformAdapter, isolationConfig, [
+ *   { version: '0001', description: 'create users', up: 'CREATE TABLE users (...)' },
+ * ]);
+ * await manager.start(eventBus); // 租户创建时自动创建Schema
+ * await manager.migrateAll({ onProgress: p => console.log(p.index, p.total, p.status) });
+ * ```
+ */
+export class TenantSchemaManager {
+  private readonly migrations: TenantSchemaMigration[];
+  private readonly historyTable: string;
+  private eventBus: IEventBus | null = null;
+  private subscriptionIds: string[] = [];
+
+  constructor(
+    private readonly adapter: IDatabaseAdapter,
+    private readonly isolationConfig: IsolationConfigService,
+    migrations: TenantSchemaMigration[],
+    options: TenantSchemaManagerOptions = {},
+  ) {
+    this.historyTable = options.historyTable ?? 'schema_migrations';
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(this.historyTable)) {
+      throw new Error(`Invalid migration history table: ${this.historyTable}`);
+    }
+
+    this.migrations = [...migrations].sort((a, b) =>
+      a.version.localeCompare(b.version),
+    );
+    const versions = new Set(this.migrations.map(m => m.version));
+    if (versions.size !== this.migrations.length) {
+      throw new Error('Duplicate tenant schema migration version');
+    }
+  }
+
+  /**
+   * @method getSchemaName
+   * @description 获取租户Schema名称
+   * @param {string} tenantId 租户ID
+   * @returns {string} Schema名称
+   * @throws {Error} 当租户ID不能构成合法的Schema名称时抛出
+   */
+  getSchemaName(tenantId: string): string {
+    const schema = `${this.getSchemaPrefix()}${tenantId}`;
+    if (!/^[A-Za-z0-9_-]+$/.test(tenantId) || schema.length > 63) {
+      throw new Error(`Invalid tenant id for schema name: ${tenantId}`);
+    }
+    return schema;
+  }
+
+  /**
+   * @method listTenants
+   * @description 列出已创建Schema的租户
+   * @returns {Promise<string[]>} 租户ID列表，按Schema名称排序
+   */
+  async listTenants(): Promise<string[]> {
+    const prefix = this.getSchemaPrefix();
+    const result = await this.adapter.query(
+      `SELECT nspname FROM pg_namespace
+       WHERE left(nspname, length($1)) = $1
+       ORDER BY nspname`,
+      [prefix],
+    );
+    return (result.rows as Array<{ nspname: string }>).map(row =>
+      row.nspname.slice(prefix.length),
+    );
+  }
+
+  /**
+   * @method provisionTenant
+   * @description 创建租户Schema和迁移历史表，并执行全部迁移；重复调用是安全的
+   * @param {string} tenantId 租户ID
+   * @returns {Promise<string[]>} 本次执行的迁移版本
+   */
+  async provisionTenant(tenantId: string): Promise<string[]> {
+    const schema = this.getSchemaName(tenantId);
+    await this.adapter.execute(`CREATE SCHEMA IF NOT EXISTS ${quote(schema)}`);
+    return this.migrateTenant(tenantId);
+  }
+
+  /**
+   * @method getAppliedMigrations
+   * @description 获取租户Schema已执行的迁移版本
+   * @param {string} tenantId 租户ID
+   * @returns {Promise<string[]>} 已执行的版本，按版本排序
+   */
+  async getAppliedMigrations(tenantId: string): Promise<string[]> {
+    const schema = this.getSchemaName(tenantId);
+    await this.ensureHistoryTable(schema);
+    const result = await this.adapter.query(
+      `SELECT version FROM ${this.historyTableOf(schema)} ORDER BY version`,
+    );
+    return (result.rows as Array<{ version: string }>).map(row => row.version);
+  }
+
+  /**
+   * @method getPendingMigrations
+   * @description 获取租户Schema待执行的迁移
+   * @param {string} tenantId 租户ID
+   * @returns {Promise<TenantSchemaMigration[]>} 待执行的迁移
+   */
+  async getPendingMigrations(
+    tenantId: string,
+  ): Promise<TenantSchemaMigration[]> {
+    const applied = new Set(await this.getAppliedMigrations(tenantId));
+    return this.migrations.filter(m => !applied.has(m.version));
+  }
+
+  /**
+   * @method migrateTenant
+   * @description 对单个租户Schema执行待执行的迁移
+   * @param {string} tenantId 租户ID
+   * @returns {Promise<string[]>} 本次执行的迁移版本
+   */
+  async migrateTenant(tenantId: string): Promise<string[]> {
+    const schema = this.getSchemaName(tenantId);
+    const applied: string[] = [];
+
+    for (const migration of await this.getPendingMigrations(tenantId)) {
+      const executed = await this.adapter.transaction(async trx => {
+        const executor = createSqlExecutor(trx);
+        await executor.query('SELECT pg_advisory_xact_lock(hashtext($1))', [
+          schema,
+        ]);
+
+        const existing = await executor.query(
+          `SELECT 1 FROM ${this.historyTableOf(schema)} WHERE version = $1`,
+          [migration.version],
+        );
+        if (existing.rows.length > 0) {
+          return false;
+        }
+
+        await executor.query("SELECT set_config('search_path', $1, true)", [
+          `${quote(schema)}, public`,
+        ]);
+        if (typeof migration.up === 'string') {
+          await executor.query(migration.up);
+        } else {
+          await migration.up(executor);
+        }
+        await executor.query(
+          `INSERT INTO ${this.historyTableOf(schema)} (version, description) VALUES ($1, $2)`,
+          [migration.version, migration.description],
+        );
+        return true;
+      });
+
+      if (executed) {
+        applied.push(migration.version);
+      }
+    }
+
+    return applied;
+  }
+
+  /**
+   * @method migrateAll
+   * @description 依次迁移所有租户Schema
+   * @param {MigrateTenantsOptions} options 批量迁移选项
+   * @returns {Promise<MigrateTenantsResult>} 批量迁移结果
+   */
+  async migrateAll(
+    options: MigrateTenantsOptions = {},
+  ): Promise<MigrateTenantsResult> {
+    const tenantIds = options.tenantIds ?? (await this.listTenants());
+    const result: MigrateTenantsResult = {
+      total: tenantIds.length,
+      migrated: [],
+      upToDate: [],
+      failed: [],
+    };
+
+    for (const [position, tenantId] of tenantIds.entries()) {
+      const schema = this.getSchemaName(tenantId);
+      const progress = {
+        tenantId,
+        schema,
+        index: position + 1,
+        total: tenantIds.length,
+      };
+
+      try {
+        const applied = await this.migrateTenant(tenantId);
+        (applied.length > 0 ? result.migrated : result.upToDate).push(tenantId);
+        options.onProgress?.({
+          ...progress,
+          status: applied.length > 0 ? 'migrated' : 'up_to_date',
+          applied,
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        result.failed.push({ tenantId, schema, error: message });
+        options.onProgress?.({
+          ...progress,
+          status: 'failed',
+          applied: [],
+          error: message,
+        });
+        if (options.stopOnError) {
+          break;
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * @method exportTenant
+   * @description 在只读的可重复读事务中将租户Schema的所有表数据以NDJSON写入导出流
+   * @param {string} tenantId 租户ID
+   * @param {Writable} output 导出流，导出完成后不会关闭，由调用方负责
+   * @param {ExportTenantOptions} [options] 导出选项
+   * @returns {Promise<TenantSchemaExport>} 导出摘要
+   * @throws {Error} 当租户Schema不存在时抛出
+   *
+   * 每张表通过服务端游标分批读取，并遵循导出流的背压，内存占用与表大小无关。
+   * 导出流依次包含：一条schema记录，每张表一条table记录及其全部row记录。
+   */
+  async exportTenant(
+    tenantId: string,
+    output: Writable,
+    options: ExportTenantOptions = {},
+  ): Promise<TenantSchemaExport> {
+    const batchSize = options.batchSize ?? 1000;
+    if (!Number.isInteger(batchSize) || batchSize < 1) {
+      throw new Error('Export batch size must be a positive integer');
+    }
+
+    const schema = this.getSchemaName(tenantId);
+    if (!(await this.schemaExists(schema))) {
+      throw new Error(`Tenant schema not found: ${schema}`);
+    }
+
+    return this.adapter.transaction(
+      async trx => {
+        const executor = createSqlExecutor(trx);
+        const tableResult = await executor.query(
+          `SELECT table_name FROM information_schema.tables
+           WHERE table_schema = $1 AND table_type = 'BASE TABLE'
+           ORDER BY table_name`,
+          [schema],
+        );
+        const tableNames = (
+          tableResult.rows as Array<{ table_name: string }>
+        ).map(row => row.table_name);
+
+        let migrations: string[] = [];
+        if (tableNames.includes(this.historyTable)) {
+          const history = await executor.query(
+            `SELECT version FROM ${this.historyTableOf(schema)} ORDER BY version`,
+          );
+          migrations = (history.rows as Array<{ version: string }>).map(
+            row => row.version,
+          );
+        }
+
+        const exportedAt = new Date();
+        await writeRecord(output, {
+          type: 'schema',
+          tenantId,
+          schema,
+          exportedAt,
+          migrations,
+        });
+
+        const tables: TenantSchemaExport['tables'] = [];
+        for (const name of tableNames) {
+          if (name === this.historyTable) {
+            continue;
+          }
+
+          await writeRecord(output, { type: 'table', name });
+          const rowCount = await this.streamTable(
+            executor,
+            schema,
+            name,
+            batchSize,
+            row => writeRecord(output, { type: 'row', table: name, row }),
+          );
+          tables.push({ name, rowCount });
+        }
+
+        return { tenantId, schema, exportedAt, migrations, tables };
+      },
+      { isolationLevel: 'repeatable read', readOnly: true },
+    );
+  }
+
+  /**
+   * @method streamTable
+   * @description 通过服务端游标分批读取一张表的所有行
+   * @param {ISqlExecutor} executor 事务内的执行器
+   * @param {string} schema Schema名称
+   * @param {string} table 表名
+   * @param {number} batchSize 每批行数
+   * @param {Function} onRow 行处理函数，返回的Promise完成后才处理下一行
+   * @returns {Promise<number>} 行数
+   * @private
+   */
+  private async streamTable(
+    executor: ISqlExecutor,
+    schema: string,
+    table: string,
+    batchSize: number,
+    onRow: (row: Record<string, unknown>) => Promise<void>,
+  ): Promise<number> {
+    await executor.query(
+      `DECLARE tenant_export NO SCROLL CURSOR FOR SELECT * FROM ${quote(schema)}.${quote(table)}`,
+    );
+
+    let rowCount = 0;
+    for (;;) {
+      const batch = await executor.query(
+        `FETCH FORWARD ${batchSize} FROM tenant_export`,
+      );
+      for (const row of batch.rows as Record<string, unknown>[]) {
+        await onRow(row);
+      }
+      rowCount += batch.rows.length;
+      if (batch.rows.length < batchSize) {
+        break;
+      }
+    }
+
+    await executor.query('CLOSE tenant_export');
+    return rowCount;
+  }
+
+  /**
+   * @method dropTenant
+   * @description 删除租户Schema及其中的所有对象
+   * @param {string} tenantId 租户ID
+   * @returns {Promise<boolean>} Schema是否存在并已删除
+   */
+  async dropTenant(tenantId: string): Promise<boolean> {
+    const schema = this.getSchemaName(tenantId);
+    if (!(await this.schemaExists(schema))) {
+      return false;
+    }
+    await this.adapter.execute(
+      `DROP SCHEMA IF EXISTS ${quote(schema)} CASCADE`,
+    );
+    return true;
+  }
+
+  /**
+   * @method start
+   * @description 订阅租户创建事件，事件的聚合根ID即租户ID
+   * @param {IEventBus} eventBus 事件总线
+   * @param {string[]} [eventTypes] 触发创建Schema的事件类型
+   * @returns {Promise<void>}
+   */
+  async start(
+    eventBus: IEventBus,
+    eventTypes: string[] = ['TenantCreatedEvent'],
+  ): Promise<void> {
+    if (this.eventBus) {
+      return;
+    }
+    this.eventBus = eventBus;
+
+    for (const eventType of eventTypes) {
+      this.subscriptionIds.push(
+        await eventBus.subscribe(eventType, this.createHandler(eventType)),
+      );
+    }
+  }
+
+  /**
+   * @method stop
+   * @description 取消订阅租户创建事件
+   * @returns {Promise<void>}
+   */
+  async stop(): Promise<void> {
+    if (!this.eventBus) {
+      return;
+    }
+    for (const subscriptionId of this.subscriptionIds.splice(0)) {
+      await this.eventBus.unsubscribe(subscriptionId);
+    }
+    this.eventBus = null;
+  }
+
+  private createHandler(eventType: string): IEventHandler {
+    return {
+      handle: async (event: DomainEvent): Promise<void> => {
+        await this.provisionTenant(event.aggregateId);
+      },
+      canHandle: (type: string): boolean => type === eventType,
+      getEventType: (): string => eventType,
+      getHandlerName: (): string => `TenantSchemaManager:${eventType}`,
+    };
+  }
+
+  private async ensureHistoryTable(schema: string): Promise<void> {
+    await this.adapter.execute(
+      `CREATE TABLE IF NOT EXISTS ${this.historyTableOf(schema)} (
+         version TEXT PRIMARY KEY,
+         description TEXT NOT NULL,
+         applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+       )`,
+    );
+  }
+
+  private async schemaExists(schema: string): Promise<boolean> {
+    const result = await this.adapter.query(
+      'SELECT 1 FROM pg_namespace WHERE nspname = $1',
+      [schema],
+    );
+    return result.rows.length > 0;
+  }
+
+  private historyTableOf(schema: string): string {
+    return `${quote(schema)}.${quote(this.historyTable)}`;
+  }
+
+  private getSchemaPrefix(): string {
+    return this.isolationConfig.getConfig().schemaLevel.tenantSchemaPrefix;
+  }
+}
+
+/**
+ * @function quote
+ * @description 按PostgreSQL规则为标识符加双引号
+ * @param {string} identifier 标识符
+ * @returns {string} 加引号后的标识符
+ */
+function quote(identifier: string): string {
+  return `"${identifier.replace(/"/g, '""')}"`;
+}
+
+/**
+ * @function writeRecord
+ * @description 向导出流写入一行JSON记录，缓冲区已满时等待drain
+ * @param {Writable} output 导出流
+ * @param {TenantSchemaExportRecord} record 导出记录
+ * @returns {Promise<void>}
+ */
+async function writeRecord(
+  output: Writable,
+  record: TenantSchemaExportRecord,
+): Promise<void> {
+  if (!output.write(`${JSON.stringify(record)}\n`)) {
+    await once(output, 'drain');
+  }
+}
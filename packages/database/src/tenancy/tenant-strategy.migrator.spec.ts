@@ -0,0 +1,579 @@
+/**
+ * @file tenant-strategy.migrator.spec.ts
+ * @description 租户策略迁移器单元测试
+ */
+
+import { EventEmitter } from 'events';
+import { Pool } from 'pg';
+import { TenantStrategyMigrator } from './tenant-strategy.migrator';
+import {
+  PgTenantStrategyNotifier,
+  TenantStrategyNotifier,
+  TenantStrategyStore,
+} from './tenant-strategy.store';
+import {
+  IsolationConfigService,
+  IsolationStrategy,
+} from '../config/isolation.config';
+import { IDatabaseAdapter } from '../interfaces/database.interface';
+
+type Row = Record<string, unknown>;
+
+/**
+ * 内存数据库，按迁移器发出的SQL语句模拟PostgreSQL的行为
+ */
+class FakeDatabase {
+  readonly tables = new Map<string, Row[]>();
+  readonly columns = new Map<string, string[]>();
+  readonly fences = new Map<string, Set<string>>();
+  readonly statements: string[] = [];
+  readonly strategies = new Map<string, string>();
+  /** 表的序列列，值为序列名 */
+  readonly serials = new Map<string, { column: string; sequence: string }>();
+  readonly sequences = new Map<string, number>();
+  /** 子表到父表的外键 */
+  readonly references = new Map<string, string>();
+  private readonly listeners = new Map<
+    string,
+    Set<(payload: string) => void>
+  >();
+  private pending: Array<[string, string]> = [];
+  beforeFence?: () => void;
+  dropInserts = false;
+
+  createTable(qualified: string, columns: string[], rows: Row[] = []): void {
+    this.tables.set(qualified, rows);
+    this.columns.set(qualified, columns);
+  }
+
+  adapter(): IDatabaseAdapter {
+    const run = (sql: string, params?: unknown[]): Promise<any> =>
+      this.run(sql, params ?? []);
+    return {
+      query: jest.fn(run),
+      transaction: jest.fn(async callback => {
+        const result = await callback({ query: run });
+        this.commit();
+        return result;
+      }),
+    } as unknown as IDatabaseAdapter;
+  }
+
+  /** 与PostgreSQL相同，通知在事务提交后才投递 */
+  notifier(): TenantStrategyNotifier {
+    return {
+      listen: async (channel, onNotify) => {
+        const listeners = this.listeners.get(channel) ?? new Set();
+        listeners.add(onNotify);
+        this.listeners.set(channel, listeners);
+        return async () => {
+          listeners.delete(onNotify);
+        };
+      },
+    };
+  }
+
+  private commit(): void {
+    const pending = this.pending;
+    this.pending = [];
+    for (const [channel, payload] of pending) {
+      this.listeners.get(channel)?.forEach(listener => listener(payload));
+    }
+  }
+
+  async run(sql: string, params: unknown[]): Promise<any> {
+    this.statements.push(sql);
+    let match: RegExpExecArray | null;
+
+    if (sql.startsWith('SELECT set_config')) {
+      return { rows: [] };
+    }
+    if (sql.startsWith('SELECT pg_notify')) {
+      this.pending.push([params[0] as string, params[1] as string]);
+      return { rows: [] };
+    }
+    if (sql.startsWith('SELECT tenant_id, strategy FROM')) {
+      const rows = [...this.strategies.entries()].map(
+        ([tenant_id, strategy]) => ({ tenant_id, strategy }),
+      );
+      return { rows };
+    }
+    if (sql.includes('pg_get_serial_sequence($1, a.attname) IS NOT NULL')) {
+      const serial = this.serials.get(params[0] as string);
+      return {
+        rows: serial
+          ? [{ column_name: serial.column, sequence_name: serial.sequence }]
+          : [],
+      };
+    }
+    if (
+      (match = /^SELECT setval\(.*max\("(\w+)"\).*\s+FROM (\S+)$/s.exec(sql))
+    ) {
+      const sequence = params[0] as string;
+      const next = (this.sequences.get(sequence) ?? 0) + 1;
+      const max = Math.max(
+        0,
+        ...this.tables.get(match[2])!.map(row => Number(row[match![1]])),
+      );
+      this.sequences.set(sequence, Math.max(max, next));
+      return { rows: [] };
+    }
+    if (sql.includes('FROM information_schema.columns')) {
+      const rows = [...this.columns.entries()]
+        .filter(
+          ([name, columns]) =>
+            name.startsWith(`"${params[0] as string}".`) &&
+            columns.includes(params[1] as string),
+        )
+        .map(([name, columns]) => ({
+          table_name: name.split('.')[1].replace(/"/g, ''),
+          columns,
+        }));
+      return { rows };
+    }
+    if ((match = /^CREATE OR REPLACE FUNCTION/.exec(sql))) {
+      this.beforeFence?.();
+      return { rows: [] };
+    }
+    if ((match = /^DROP TRIGGER IF EXISTS "(.+?)" ON (\S+)$/.exec(sql))) {
+      this.fences.get(match[2])?.delete(match[1]);
+      return { rows: [] };
+    }
+    if ((match = /^CREATE TRIGGER "(.+?)" .* ON (\S+)\s/.exec(sql))) {
+      const fences = this.fences.get(match[2]) ?? new Set<string>();
+      fences.add(match[1]);
+      this.fences.set(match[2], fences);
+      return { rows: [] };
+    }
+    if ((match = /^DELETE FROM (\S+) WHERE "tenant_id" = \$1$/.exec(sql))) {
+      this.assertWritable(match[1]);
+      for (const [child, parent] of this.references) {
+        if (
+          parent === match[1] &&
+          this.rowsOf(child, params[0]).some(row =>
+            this.rowsOf(parent, params[0]).some(p => p.id === row.parent_id),
+          )
+        ) {
+          throw new Error(`delete on ${parent} violates foreign key`);
+        }
+      }
+      const table = this.tables.get(match[1])!;
+      this.tables.set(
+        match[1],
+        table.filter(row => row.tenant_id !== params[0]),
+      );
+      return { rows: [], rowCount: table.length };
+    }
+    if ((match = /FROM (\S+)\s+WHERE "tenant_id" = \$1$/.exec(sql))) {
+      const rows = this.rowsOf(match[1], params[0]);
+      const columns = /md5\(ROW\((.+?)\)::text\)/.exec(sql)![1];
+      const values = rows
+        .map(row =>
+          JSON.stringify(
+            columns.split(', ').map(c => row[c.replace(/"/g, '')] ?? null),
+          ),
+        )
+        .sort();
+      return {
+        rows: [{ row_count: rows.length, checksum: values.join('|') }],
+      };
+    }
+    if ((match = /FROM (\S+) s\s+WHERE s\."tenant_id" = \$1/.exec(sql))) {
+      const after = Number(/\(0,(\d+)\)/.exec(params[1] as string)![1]);
+      const rows = this.tables
+        .get(match[1])!
+        .map((data, index) => ({ position: `(0,${index + 1})`, data }))
+        .filter(
+          (row, index) => row.data.tenant_id === params[0] && index + 1 > after,
+        )
+        .slice(0, params[2] as number);
+      return { rows };
+    }
+    if ((match = /^INSERT INTO (\S+) /.exec(sql))) {
+      if (match[1].includes('tenant_isolation_strategies')) {
+        const current = this.strategies.get(params[0] as string);
+        if (current !== undefined && current !== params[2]) {
+          return { rows: [], rowCount: 0 };
+        }
+        this.strategies.set(params[0] as string, params[1] as string);
+        return { rows: [], rowCount: 1 };
+      }
+      this.assertWritable(match[1]);
+      const rows = JSON.parse(params[0] as string) as Row[];
+      if (!this.dropInserts) {
+        this.tables.get(match[1])!.push(...rows);
+      }
+      return { rows: [], rowCount: rows.length };
+    }
+    throw new Error(`Unexpected SQL: ${sql}`);
+  }
+
+  private rowsOf(table: string, tenantId: unknown): Row[] {
+    return this.tables.get(table)!.filter(row => row.tenant_id === tenantId);
+  }
+
+  private assertWritable(table: string): void {
+    if ((this.fences.get(table)?.size ?? 0) > 0) {
+      throw new Error('tenant is being migrated');
+    }
+  }
+}
+
+const COLUMNS = ['id', 'tenant_id', 'name'];
+
+describe('TenantStrategyMigrator', () => {
+  let platform: FakeDatabase;
+  let tenantDb: FakeDatabase;
+  let isolationConfig: IsolationConfigService;
+  let store: TenantStrategyStore;
+  let migrator: TenantStrategyMigrator;
+
+  beforeEach(() => {
+    platform = new FakeDatabase();
+    tenantDb = new FakeDatabase();
+    platform.createTable('"public"."orders"', COLUMNS, [
+      { id: 1, tenant_id: 'acme', name: 'a' },
+      { id: 2, tenant_id: 'other', name: 'x' },
+      { id: 3, tenant_id: 'acme', name: 'b' },
+      { id: 4, tenant_id: 'acme', name: 'c' },
+    ]);
+    platform.createTable('"public"."tenant_isolation_strategies"', [
+      'tenant_id',
+      'strategy',
+    ]);
+    tenantDb.createTable('"public"."orders"', COLUMNS);
+
+    isolationConfig = new IsolationConfigService({
+      get: jest.fn().mockReturnValue(undefined),
+    } as any);
+    const platformAdapter = platform.adapter();
+    const tenantAdapter = tenantDb.adapter();
+    store = new TenantStrategyStore(platformAdapter);
+    migrator = new TenantStrategyMigrator(
+      platformAdapter,
+      isolationConfig,
+      { get: () => tenantAdapter },
+      store,
+      { batchSize: 2 },
+    );
+  });
+
+  it('should report the plan without writing on dry run', async () => {
+    const report = await migrator.migrate(
+      'acme',
+      IsolationStrategy.DATABASE_LEVEL,
+      { dryRun: true },
+    );
+
+    expect(report).toMatchObject({
+      from: IsolationStrategy.TABLE_LEVEL,
+      to: IsolationStrategy.DATABASE_LEVEL,
+      dryRun: true,
+      switched: false,
+      issues: [],
+      source: { database: 'aiofix_platform', schema: 'public' },
+      target: { database: 'aiofix_tenant_acme', schema: 'public' },
+      tables: [
+        { table: 'orders', columns: COLUMNS, sourceRows: 3, targetRows: 0 },
+      ],
+    });
+    expect(tenantDb.tables.get('"public"."orders"')).toEqual([]);
+    expect(isolationConfig.getStrategy('acme')).toBe(
+      IsolationStrategy.TABLE_LEVEL,
+    );
+  });
+
+  it('should copy the tenant rows in batches, fence the source and switch routing', async () => {
+    const report = await migrator.migrate(
+      'acme',
+      IsolationStrategy.DATABASE_LEVEL,
+    );
+
+    expect(report.switched).toBe(true);
+    expect(report.tables[0]).toMatchObject({ sourceRows: 3, targetRows: 3 });
+    expect(report.tables[0].checksum).toBeDefined();
+    expect(
+      tenantDb.tables.get('"public"."orders"')!.map(row => row.id),
+    ).toEqual([1, 3, 4]);
+    expect(
+      tenantDb.statements.filter(sql => sql.startsWith('INSERT INTO')),
+    ).toHaveLength(2);
+    expect(platform.fences.get('"public"."orders"')?.size).toBe(1);
+    expect(isolationConfig.getStrategy('acme')).toBe(
+      IsolationStrategy.DATABASE_LEVEL,
+    );
+    expect(isolationConfig.getStrategy('other')).toBe(
+      IsolationStrategy.TABLE_LEVEL,
+    );
+    expect(platform.statements).toContainEqual(
+      expect.stringContaining('INSERT INTO "tenant_isolation_strategies"'),
+    );
+  });
+
+  it('should advance the target sequences past the copied ids', async () => {
+    tenantDb.serials.set('"public"."orders"', {
+      column: 'id',
+      sequence: 'public.orders_id_seq',
+    });
+    platform.serials.set('"public"."orders"', {
+      column: 'id',
+      sequence: 'public.orders_id_seq',
+    });
+    platform.sequences.set('public.orders_id_seq', 10);
+
+    await migrator.migrate('acme', IsolationStrategy.DATABASE_LEVEL);
+    expect(tenantDb.sequences.get('public.orders_id_seq')).toBe(4);
+
+    await migrator.migrate('acme', IsolationStrategy.TABLE_LEVEL);
+    // 共享表的序列已经超过复制回来的ID，不能倒退
+    expect(platform.sequences.get('public.orders_id_seq')).toBe(11);
+  });
+
+  it('should clear child tables before parent tables when migrating back', async () => {
+    const lineColumns = ['id', 'tenant_id', 'parent_id'];
+    platform.createTable('"public"."order_lines"', lineColumns, [
+      { id: 10, tenant_id: 'acme', parent_id: 1 },
+      { id: 11, tenant_id: 'other', parent_id: 2 },
+    ]);
+    tenantDb.createTable('"public"."order_lines"', lineColumns);
+    for (const database of [platform, tenantDb]) {
+      database.references.set('"public"."order_lines"', '"public"."orders"');
+    }
+    const tables = ['orders', 'order_lines'];
+
+    await migrator.migrate('acme', IsolationStrategy.DATABASE_LEVEL, {
+      tables,
+    });
+    const report = await migrator.migrate(
+      'acme',
+      IsolationStrategy.TABLE_LEVEL,
+      { tables },
+    );
+
+    expect(report.switched).toBe(true);
+    expect(
+      platform.tables
+        .get('"public"."order_lines"')!
+        .map(row => row.id)
+        .sort(),
+    ).toEqual([10, 11]);
+  });
+
+  it('should recopy tables that changed before the fence was installed', async () => {
+    platform.beforeFence = () => {
+      platform.tables
+        .get('"public"."orders"')!
+        .push({ id: 5, tenant_id: 'acme', name: 'late write' });
+    };
+
+    const report = await migrator.migrate(
+      'acme',
+      IsolationStrategy.DATABASE_LEVEL,
+    );
+
+    expect(report.tables[0]).toMatchObject({ sourceRows: 4, targetRows: 4 });
+    expect(
+      tenantDb.tables.get('"public"."orders"')!.map(row => row.id),
+    ).toEqual([1, 3, 4, 5]);
+  });
+
+  it('should keep routing and lift the fence when verification fails', async () => {
+    tenantDb.dropInserts = true;
+
+    await expect(
+      migrator.migrate('acme', IsolationStrategy.DATABASE_LEVEL),
+    ).rejects.toThrow('Verification failed for orders');
+
+    expect(isolationConfig.getStrategy('acme')).toBe(
+      IsolationStrategy.TABLE_LEVEL,
+    );
+    expect(platform.fences.get('"public"."orders"')?.size).toBe(0);
+  });
+
+  it('should refuse to migrate when the target tables are missing', async () => {
+    const report = await migrator.migrate(
+      'acme',
+      IsolationStrategy.SCHEMA_LEVEL,
+      { dryRun: true },
+    );
+    expect(report.issues).toEqual([
+      'target table tenant_acme.orders not found',
+    ]);
+
+    await expect(
+      migrator.migrate('acme', IsolationStrategy.SCHEMA_LEVEL),
+    ).rejects.toThrow('Cannot migrate tenant acme');
+    expect(platform.statements).not.toContainEqual(
+      expect.stringContaining('DELETE FROM'),
+    );
+  });
+
+  it('should migrate back to shared tables', async () => {
+    await migrator.migrate('acme', IsolationStrategy.DATABASE_LEVEL);
+    tenantDb.tables
+      .get('"public"."orders"')!
+      .push({ id: 6, tenant_id: 'acme', name: 'new' });
+
+    const report = await migrator.migrate(
+      'acme',
+      IsolationStrategy.TABLE_LEVEL,
+    );
+
+    expect(report.switched).toBe(true);
+    expect(platform.fences.get('"public"."orders"')?.size).toBe(0);
+    expect(tenantDb.fences.get('"public"."orders"')?.size).toBe(1);
+    expect(
+      platform.tables
+        .get('"public"."orders"')!
+        .map(row => row.id)
+        .sort(),
+    ).toEqual([1, 2, 3, 4, 6]);
+    expect(isolationConfig.getTenantStrategies()).toEqual({});
+  });
+
+  it('should propagate the switch to other instances watching the store', async () => {
+    const otherInstance = new IsolationConfigService({
+      get: jest.fn().mockReturnValue(undefined),
+    } as any);
+    const stop = await store.watch(otherInstance, platform.notifier());
+    await store.watch(isolationConfig, platform.notifier());
+
+    await migrator.migrate('acme', IsolationStrategy.DATABASE_LEVEL);
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(otherInstance.getStrategy('acme')).toBe(
+      IsolationStrategy.DATABASE_LEVEL,
+    );
+    expect(isolationConfig.getStrategy('acme')).toBe(
+      IsolationStrategy.DATABASE_LEVEL,
+    );
+
+    await migrator.migrate('acme', IsolationStrategy.TABLE_LEVEL);
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(otherInstance.getTenantStrategies()).toEqual({});
+
+    await stop();
+    await migrator.migrate('acme', IsolationStrategy.DATABASE_LEVEL);
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(otherInstance.getStrategy('acme')).toBe(
+      IsolationStrategy.TABLE_LEVEL,
+    );
+  });
+});
+
+describe('PgTenantStrategyNotifier', () => {
+  class FakeClient extends EventEmitter {
+    readonly query = jest.fn().mockResolvedValue({ rows: [] });
+    readonly release = jest.fn();
+  }
+
+  const flush = () => new Promise(resolve => setTimeout(resolve, 5));
+
+  it('should listen again on a new connection after the connection fails', async () => {
+    const clients = [new FakeClient(), new FakeClient()];
+    const pool = {
+      connect: jest
+        .fn()
+        .mockResolvedValueOnce(clients[0])
+        .mockResolvedValueOnce(clients[1]),
+    };
+    const onNotify = jest.fn();
+    const onReconnect = jest.fn();
+    const onError = jest.fn();
+    const notifier = new PgTenantStrategyNotifier(pool as unknown as Pool, 0);
+
+    const unlisten = await notifier.listen('strategies_changed', onNotify, {
+      onReconnect,
+      onError,
+    });
+    const failure = new Error('Connection terminated unexpectedly');
+    clients[0].emit('error', failure);
+    await flush();
+
+    expect(clients[0].release).toHaveBeenCalledWith(failure);
+    expect(clients[0].listenerCount('notification')).toBe(0);
+    expect(onError).toHaveBeenCalledWith(failure);
+    expect(clients[1].query).toHaveBeenCalledWith(
+      'LISTEN "strategies_changed"',
+    );
+    expect(onReconnect).toHaveBeenCalledTimes(1);
+
+    clients[1].emit('notification', {
+      channel: 'strategies_changed',
+      payload: 'acme',
+    });
+    expect(onNotify).toHaveBeenCalledWith('acme');
+
+    await unlisten();
+    expect(clients[1].query).toHaveBeenCalledWith(
+      'UNLISTEN "strategies_changed"',
+    );
+    expect(clients[1].release).toHaveBeenCalledWith();
+  });
+
+  it('should keep retrying while no connection is available', async () => {
+    const client = new FakeClient();
+    const failing = new FakeClient();
+    const pool = {
+      connect: jest
+        .fn()
+        .mockResolvedValueOnce(failing)
+        .mockRejectedValueOnce(new Error('too many clients'))
+        .mockResolvedValueOnce(client),
+    };
+    const onReconnect = jest.fn();
+    const onError = jest.fn();
+    const notifier = new PgTenantStrategyNotifier(pool as unknown as Pool, 0);
+
+    const unlisten = await notifier.listen('strategies_changed', jest.fn(), {
+      onReconnect,
+      onError,
+    });
+    failing.emit('error', new Error('Connection terminated unexpectedly'));
+    await flush();
+    await flush();
+
+    expect(pool.connect).toHaveBeenCalledTimes(3);
+    expect(onError).toHaveBeenCalledTimes(2);
+    expect(onReconnect).toHaveBeenCalledTimes(1);
+
+    await unlisten();
+    expect(client.release).toHaveBeenCalled();
+  });
+
+  it('should reload the strategies after reconnecting', async () => {
+    const platform = new FakeDatabase();
+    platform.createTable('"public"."tenant_isolation_strategies"', [
+      'tenant_id',
+      'strategy',
+    ]);
+    const store = new TenantStrategyStore(platform.adapter());
+    const isolationConfig = new IsolationConfigService({
+      get: jest.fn().mockReturnValue(undefined),
+    } as any);
+    let reconnect: (() => void) | undefined;
+    const notifier: TenantStrategyNotifier = {
+      listen: async (_channel, _onNotify, events) => {
+        reconnect = events?.onReconnect;
+        return async () => undefined;
+      },
+    };
+    await store.watch(isolationConfig, notifier);
+
+    // 断线期间提交的切换收不到通知
+    await store.save(
+      platform.adapter(),
+      'acme',
+      IsolationStrategy.TABLE_LEVEL,
+      IsolationStrategy.DATABASE_LEVEL,
+    );
+    reconnect?.();
+    await flush();
+
+    expect(isolationConfig.getStrategy('acme')).toBe(
+      IsolationStrategy.DATABASE_LEVEL,
+    );
+  });
+});
@@ -0,0 +1,659 @@
+/**
+ * @file tenant-strategy.migrator.ts
+ * @description 租户在隔离策略之间的在线迁移
+ *
+ * 将单个租户的数据在TABLE_LEVEL、SCHEMA_LEVEL、DATABASE_LEVEL之间迁移：
+ * - 在线复制：租户正常读写的同时按快照复制数据
+ * - 写入屏障：源表对该租户的写入被触发器拒绝，读取不受影响
+ * - 校验：逐表比对行数和校验和，不一致的表在屏障内重新复制
+ * - 切换：持久化新策略并原子地切换IsolationConfigService中的路由
+ */
+
+import { createHash } from 'crypto';
+import type {
+  IDatabaseAdapter,
+  ISqlExecutor,
+} from '../interfaces/database.interface';
+import { createSqlExecutor } from '../adapters/sql-executor';
+import {
+  IsolationConfigService,
+  IsolationStrategy,
+} from '../config/isolation.config';
+import { TENANT_CONTEXT_SETTING } from '../rls/row-level-security';
+import type { TenantDatabaseRegistry } from './tenant-database.registry';
+import type { TenantStrategyStore } from './tenant-strategy.store';
+
+/** 写入屏障触发器函数 */
+const FENCE_FUNCTION = 'tenant_migration_fence';
+
+/** 写入屏障拒绝写入时的错误码（object_in_use），调用方可重试 */
+export const TENANT_FENCE_ERROR_CODE = '55006';
+
+/**
+ * @interface TenantDataLocation
+ * @description 租户数据在某种隔离策略下的位置
+ */
+export interface TenantDataLocation {
+  /** 隔离策略 */
+  strategy: IsolationStrategy;
+  /** 数据库名称 */
+  database: string;
+  /** Schema名称 */
+  schema: string;
+}
+
+/**
+ * @interface TenantTableMigration
+ * @description 单张表的迁移结果
+ */
+export interface TenantTableMigration {
+  /** 表名 */
+  table: string;
+  /** 复制的列 */
+  columns: string[];
+  /** 源表中该租户的行数 */
+  sourceRows: number;
+  /** 目标表中该租户的行数（迁移前或校验时） */
+  targetRows: number;
+  /** 校验通过时的校验和 */
+  checksum?: string;
+}
+
+/**
+ * @interface TenantStrategyMigrationReport
+ * @description 租户策略迁移报告
+ */
+export interface TenantStrategyMigrationReport {
+  /** 租户ID */
+  tenantId: string;
+  /** 迁移前的策略 */
+  from: IsolationStrategy;
+  /** 目标策略 */
+  to: IsolationStrategy;
+  /** 是否为演练 */
+  dryRun: boolean;
+  /** 源位置 */
+  source: TenantDataLocation;
+  /** 目标位置 */
+  target: TenantDataLocation;
+  /** 各表的迁移结果，按复制顺序 */
+  tables: TenantTableMigration[];
+  /** 阻止迁移的问题，如目标表不存在 */
+  issues: string[];
+  /** 路由是否已切换 */
+  switched: boolean;
+}
+
+/**
+ * @interface MigrateTenantStrategyOptions
+ * @description 租户策略迁移选项
+ */
+export interface MigrateTenantStrategyOptions {
+  /** 只检查并报告，不复制数据也不切换路由 */
+  dryRun?: boolean;
+  /** 要迁移的表，按复制顺序（被引用的表在前）；默认迁移源位置所有包含租户字段的表 */
+  tables?: string[];
+}
+
+/**
+ * @interface TenantStrategyMigratorOptions
+ * @description 租户策略迁移器选项
+ */
+export interface TenantStrategyMigratorOptions {
+  /** 每批复制的行数，默认1000 */
+  batchSize?: number;
+  /** 自动发现表时排除的表，默认排除迁移历史表 */
+  excludeTables?: string[];
+}
+
+interface ResolvedLocation extends TenantDataLocation {
+  adapter: IDatabaseAdapter;
+}
+
+/**
+ * @class TenantStrategyMigrator
+ * @description
+ * 租户策略迁移器。
+ *
+ * 迁移流程：
+ * 1. 检查源表和目标表：目标表必须已存在（由TenantSchemaManager或迁移脚本创建）且包含源表的所有列
+ * 2. 移除目标位置上残留的该租户写入屏障（反向迁移时目标即上次迁移的源）
+ * 3. 在线复制：先在一个事务中按复制顺序的逆序删除目标中该租户的旧数据（子表先于父表），
+ *    再逐表在源库的可重复读快照中按ctid分批读取并写入目标
+ * 4. 在源表上为该租户创建写入屏障，此后该租户在源位置的写入以55006错误失败
+ * 5. 逐表比对行数和校验和，有不一致时在屏障内重新复制全部表后再次比对
+ * 6. 把目标表的自增和标识列序列推进到已有的最大值之后
+ * 7. 持久化新策略并切换路由；任一步骤失败都会移除写入屏障，路由保持不变
+ *
+ * 切换后源数据和写入屏障保留，仍持有旧路由的进程无法再写入源位置，需要时可再迁移回去。
+ * 其他进程通过TenantStrategyStore.watch收到通知后重新加载路由。
+ * 租户只在第4到第7步之间不能写入，读取始终可用。
+ *
+ * @example
+ * ```typescript
+ * const migrator = new TenantStrategyMigrator(platformAdapter, isolationConfig, registry, store);
+ * const plan = await migrator.migrate(tenantId, IsolationStrategy.DATABASE_LEVEL, { dryRun: true });
+ * if (plan.issues.length === 0) {
+ *   await migrator.migrate(tenantId, IsolationStrategy.DATABASE_LEVEL);
+ * }
+ * ```
+ */
+export class TenantStrategyMigrator {
+  private readonly batchSize: number;
+  private readonly excludeTables: Set<string>;
+  private readonly migrating: Set<string> = new Set();
+
+  constructor(
+    private readonly platformAdapter: IDatabaseAdapter,
+    private readonly isolationConfig: IsolationConfigService,
+    private readonly tenantDatabases: Pick<TenantDatabaseRegistry, 'get'>,
+    private readonly store?: TenantStrategyStore,
+    options: TenantStrategyMigratorOptions = {},
+  ) {
+    this.batchSize = options.batchSize ?? 1000;
+    this.excludeTables = new Set(
+      options.excludeTables ?? ['schema_migrations'],
+    );
+    if (store) {
+      this.excludeTables.add(store.getTableName());
+    }
+  }
+
+  /**
+   * @method migrate
+   * @description 将租户迁移到目标隔离策略
+   * @param {string} tenantId 租户ID
+   * @param {IsolationStrategy} to 目标策略
+   * @param {MigrateTenantStrategyOptions} options 迁移选项
+   * @returns {Promise<TenantStrategyMigrationReport>} 迁移报告
+   * @throws {Error} 当存在阻止迁移的问题、校验不一致或该租户正在迁移时抛出
+   */
+  async migrate(
+    tenantId: string,
+    to: IsolationStrategy,
+    options: MigrateTenantStrategyOptions = {},
+  ): Promise<TenantStrategyMigrationReport> {
+    const from = this.isolationConfig.getStrategy(tenantId);
+    if (from === to) {
+      throw new Error(`Tenant ${tenantId} already uses ${to}`);
+    }
+    if (this.migrating.has(tenantId)) {
+      throw new Error(`Tenant ${tenantId} is already being migrated`);
+    }
+
+    this.migrating.add(tenantId);
+    try {
+      const source = this.resolveLocation(tenantId, from);
+      const target = this.resolveLocation(tenantId, to);
+      const report = await this.plan(tenantId, source, target, options.tables);
+
+      if (options.dryRun) {
+        return { ...report, dryRun: true };
+      }
+      if (report.issues.length > 0) {
+        throw new Error(
+          `Cannot migrate tenant ${tenantId}: ${report.issues.join('; ')}`,
+        );
+      }
+
+      await this.removeFence(target, report.tables, tenantId);
+      await this.copyTables(tenantId, source, target, report.tables);
+
+      await this.installFence(source, report.tables, tenantId);
+      try {
+        await this.verifyTables(tenantId, source, target, report.tables);
+        await this.syncSequences(tenantId, target, report.tables);
+        await this.switchStrategy(tenantId, from, to);
+      } catch (error) {
+        await this.removeFence(source, report.tables, tenantId);
+        throw error;
+      }
+
+      return { ...report, switched: true };
+    } finally {
+      this.migrating.delete(tenantId);
+    }
+  }
+
+  private resolveLocation(
+    tenantId: string,
+    strategy: IsolationStrategy,
+  ): ResolvedLocation {
+    switch (strategy) {
+      case IsolationStrategy.DATABASE_LEVEL: {
+        const tenantDatabases = this.tenantDatabases;
+        return {
+          strategy,
+          // 每次使用时从注册表获取，连接池在迁移过程中被关闭后会重新打开
+          get adapter(): IDatabaseAdapter {
+            return tenantDatabases.get(tenantId);
+          },
+          database: this.isolationConfig.getDedicatedDatabaseName(tenantId),
+          schema: 'public',
+        };
+      }
+      case IsolationStrategy.SCHEMA_LEVEL:
+        return {
+          strategy,
+          adapter: this.platformAdapter,
+          database: this.isolationConfig.getPlatformDatabaseName(),
+          schema: this.isolationConfig.getDedicatedSchemaName(tenantId),
+        };
+      case IsolationStrategy.TABLE_LEVEL:
+        return {
+          strategy,
+          adapter: this.platformAdapter,
+          database: this.isolationConfig.getPlatformDatabaseName(),
+          schema: 'public',
+        };
+      default:
+        throw new Error(`Unsupported isolation strategy: ${String(strategy)}`);
+    }
+  }
+
+  /**
+   * 检查源表和目标表，统计两边该租户的行数
+   */
+  private async plan(
+    tenantId: string,
+    source: ResolvedLocation,
+    target: ResolvedLocation,
+    tables?: string[],
+  ): Promise<TenantStrategyMigrationReport> {
+    const report: TenantStrategyMigrationReport = {
+      tenantId,
+      from: source.strategy,
+      to: target.strategy,
+      dryRun: false,
+      source: this.describe(source),
+      target: this.describe(target),
+      tables: [],
+      issues: [],
+      switched: false,
+    };
+
+    const sourceTables = await this.findTenantTables(source);
+    let targetTables: Map<string, string[]>;
+    try {
+      targetTables = await this.findTenantTables(target);
+    } catch (error) {
+      report.issues.push(
+        `target ${target.database} is unavailable: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
+      return report;
+    }
+
+    const names =
+      tables ??
+      [...sourceTables.keys()].filter(name => !this.excludeTables.has(name));
+    for (const name of names) {
+      const columns = sourceTables.get(name);
+      if (!columns) {
+        report.issues.push(`source table ${source.schema}.${name} not found`);
+        continue;
+      }
+      const targetColumns = targetTables.get(name);
+      if (!targetColumns) {
+        report.issues.push(`target table ${target.schema}.${name} not found`);
+        continue;
+      }
+      const missing = columns.filter(column => !targetColumns.includes(column));
+      if (missing.length > 0) {
+        report.issues.push(
+          `target table ${target.schema}.${name} is missing columns: ${missing.join(', ')}`,
+        );
+        continue;
+      }
+
+      const [sourceSummary, targetSummary] = await Promise.all([
+        this.summarize(source, tenantId, name, columns),
+        this.summarize(target, tenantId, name, columns),
+      ]);
+      report.tables.push({
+        table: name,
+        columns,
+        sourceRows: sourceSummary.rows,
+        targetRows: targetSummary.rows,
+      });
+    }
+
+    return report;
+  }
+
+  /**
+   * 查找包含租户字段的表及其可写入的列（排除生成列）
+   */
+  private async findTenantTables(
+    location: ResolvedLocation,
+  ): Promise<Map<string, string[]>> {
+    const result = await location.adapter.query(
+      `SELECT c.table_name, array_agg(c.column_name::text ORDER BY c.ordinal_position) AS columns
+       FROM information_schema.columns c
+       JOIN information_schema.tables t
+         ON t.table_schema = c.table_schema AND t.table_name = c.table_name
+       WHERE c.table_schema = $1
+         AND t.table_type = 'BASE TABLE'
+         AND c.is_generated = 'NEVER'
+         AND EXISTS (
+           SELECT 1 FROM information_schema.columns tc
+           WHERE tc.table_schema = c.table_schema
+             AND tc.table_name = c.table_name
+             AND tc.column_name = $2
+         )
+       GROUP BY c.table_name
+       ORDER BY c.table_name`,
+      [location.schema, this.tenantIdField()],
+    );
+    return new Map(
+      (result.rows as Array<{ table_name: string; columns: string[] }>).map(
+        row => [row.table_name, row.columns],
+      ),
+    );
+  }
+
+  /**
+   * 复制全部表：先在一个事务中按逆序删除目标中该租户的旧数据，避免删除父表行时违反子表的外键，再按顺序逐表复制
+   */
+  private async copyTables(
+    tenantId: string,
+    source: ResolvedLocation,
+    target: ResolvedLocation,
+    tables: TenantTableMigration[],
+  ): Promise<void> {
+    const tenantColumn = quote(this.tenantIdField());
+    await target.adapter.transaction(async trx => {
+      const writer = await this.bindTenant(trx, tenantId);
+      for (const table of [...tables].reverse()) {
+        await writer.query(
+          `DELETE FROM ${this.qualify(target, table.table)} WHERE ${tenantColumn} = $1`,
+          [tenantId],
+        );
+      }
+    });
+
+    for (const table of tables) {
+      await this.copyTable(tenantId, source, target, table);
+    }
+  }
+
+  /**
+   * 复制一张表中该租户的全部数据，源数据在可重复读快照中按ctid分批读取
+   */
+  private async copyTable(
+    tenantId: string,
+    source: ResolvedLocation,
+    target: ResolvedLocation,
+    table: TenantTableMigration,
+  ): Promise<void> {
+    const sourceTable = this.qualify(source, table.table);
+    const targetTable = this.qualify(target, table.table);
+    const columnList = table.columns.map(quote).join(', ');
+    const tenantColumn = quote(this.tenantIdField());
+
+    await source.adapter.transaction(
+      async sourceTrx => {
+        const reader = await this.bindTenant(sourceTrx, tenantId);
+        await target.adapter.transaction(async targetTrx => {
+          const writer = await this.bindTenant(targetTrx, tenantId);
+          let position = '(0,0)';
+          for (;;) {
+            const batch = await reader.query(
+              `SELECT s.ctid::text AS position, to_jsonb(s) AS data
+               FROM ${sourceTable} s
+               WHERE s.${tenantColumn} = $1 AND s.ctid > $2::tid
+               ORDER BY s.ctid
+               LIMIT $3`,
+              [tenantId, position, this.batchSize],
+            );
+            const rows = batch.rows as Array<{
+              position: string;
+              data: Record<string, unknown>;
+            }>;
+            if (rows.length === 0) {
+              break;
+            }
+
+            await writer.query(
+              `INSERT INTO ${targetTable} (${columnList}) OVERRIDING SYSTEM VALUE
+               SELECT ${columnList} FROM jsonb_populate_recordset(NULL::${targetTable}, $1::jsonb)`,
+              [JSON.stringify(rows.map(row => row.data))],
+            );
+            position = rows[rows.length - 1].position;
+            if (rows.length < this.batchSize) {
+              break;
+            }
+          }
+        });
+      },
+      { isolationLevel: 'repeatable read', readOnly: true },
+    );
+  }
+
+  /**
+   * 逐表比对行数和校验和，有不一致时重新复制全部表并再次比对
+   */
+  private async verifyTables(
+    tenantId: string,
+    source: ResolvedLocation,
+    target: ResolvedLocation,
+    tables: TenantTableMigration[],
+  ): Promise<void> {
+    for (let attempt = 0; ; attempt++) {
+      let mismatch: string | undefined;
+      for (const table of tables) {
+        const [expected, actual] = await Promise.all([
+          this.summarize(source, tenantId, table.table, table.columns),
+          this.summarize(target, tenantId, table.table, table.columns),
+        ]);
+        table.sourceRows = expected.rows;
+        table.targetRows = actual.rows;
+
+        if (
+          expected.rows === actual.rows &&
+          expected.checksum === actual.checksum
+        ) {
+          table.checksum = expected.checksum;
+        } else {
+          mismatch ??= `Verification failed for ${table.table}: source has ${expected.rows} rows (${expected.checksum}), target has ${actual.rows} rows (${actual.checksum})`;
+        }
+      }
+
+      if (mismatch === undefined) {
+        return;
+      }
+      if (attempt > 0) {
+        throw new Error(mismatch);
+      }
+      await this.copyTables(tenantId, source, target, tables);
+    }
+  }
+
+  /**
+   * 复制时显式写入了自增和标识列的值，把目标表的序列推进到列的最大值之后，
+   * 序列已经更大时（如表级隔离的共享表）只前进一步
+   */
+  private async syncSequences(
+    tenantId: string,
+    target: ResolvedLocation,
+    tables: TenantTableMigration[],
+  ): Promise<void> {
+    await target.adapter.transaction(async trx => {
+      const writer = await this.bindTenant(trx, tenantId);
+      for (const table of tables) {
+        const qualified = this.qualify(target, table.table);
+        const result = await writer.query(
+          `SELECT a.attname::text AS column_name,
+                  pg_get_serial_sequence($1, a.attname) AS sequence_name
+           FROM pg_attribute a
+           WHERE a.attrelid = $1::regclass
+             AND a.attnum > 0
+             AND NOT a.attisdropped
+             AND pg_get_serial_sequence($1, a.attname) IS NOT NULL`,
+          [qualified],
+        );
+        for (const row of result.rows as Array<{
+          column_name: string;
+          sequence_name: string;
+        }>) {
+          await writer.query(
+            `SELECT setval($1::regclass, GREATEST(coalesce(max(${quote(row.column_name)}), 0), nextval($1::regclass)))
+             FROM ${qualified}`,
+            [row.sequence_name],
+          );
+        }
+      }
+    });
+  }
+
+  /**
+   * 统计该租户在表中的行数和校验和（各行md5排序后再取md5，与物理顺序无关）
+   */
+  private async summarize(
+    location: ResolvedLocation,
+    tenantId: string,
+    table: string,
+    columns: string[],
+  ): Promise<{ rows: number; checksum: string }> {
+    const row = `md5(ROW(${columns.map(quote).join(', ')})::text)`;
+    return location.adapter.transaction(
+      async trx => {
+        const executor = await this.bindTenant(trx, tenantId);
+        const result = await executor.query(
+          `SELECT count(*)::int AS row_count,
+                  coalesce(md5(string_agg(${row}, '' ORDER BY ${row})), '') AS checksum
+           FROM ${this.qualify(location, table)}
+           WHERE ${quote(this.tenantIdField())} = $1`,
+          [tenantId],
+        );
+        const summary = result.rows[0] as {
+          row_count: number;
+          checksum: string;
+        };
+        return { rows: Number(summary.row_count), checksum: summary.checksum };
+      },
+      { readOnly: true },
+    );
+  }
+
+  /**
+   * 在源表上创建只拒绝该租户写入的触发器
+   */
+  private async installFence(
+    location: ResolvedLocation,
+    tables: TenantTableMigration[],
+    tenantId: string,
+  ): Promise<void> {
+    const trigger = fenceTriggerName(tenantId);
+    const args = [tenantId, this.tenantIdField()].map(literal).join(', ');
+
+    await location.adapter.transaction(async trx => {
+      const executor = createSqlExecutor(trx);
+      await executor.query(
+        `CREATE OR REPLACE FUNCTION public.${FENCE_FUNCTION}() RETURNS trigger AS $fence$
+         BEGIN
+           IF coalesce(to_jsonb(NEW) ->> TG_ARGV[1], to_jsonb(OLD) ->> TG_ARGV[1]) = TG_ARGV[0] THEN
+             RAISE EXCEPTION 'tenant % is being migrated', TG_ARGV[0]
+               USING ERRCODE = '${TENANT_FENCE_ERROR_CODE}';
+           END IF;
+           RETURN coalesce(NEW, OLD);
+         END
+         $fence$ LANGUAGE plpgsql`,
+      );
+      for (const table of tables) {
+        const qualified = this.qualify(location, table.table);
+        await executor.query(
+          `DROP TRIGGER IF EXISTS ${quote(trigger)} ON ${qualified}`,
+        );
+        await executor.query(
+          `CREATE TRIGGER ${quote(trigger)} BEFORE INSERT OR UPDATE OR DELETE ON ${qualified}
+           FOR EACH ROW EXECUTE FUNCTION public.${FENCE_FUNCTION}(${args})`,
+        );
+      }
+    });
+  }
+
+  private async removeFence(
+    location: ResolvedLocation,
+    tables: TenantTableMigration[],
+    tenantId: string,
+  ): Promise<void> {
+    const trigger = quote(fenceTriggerName(tenantId));
+    await location.adapter.transaction(async trx => {
+      const executor = createSqlExecutor(trx);
+      for (const table of tables) {
+        await executor.query(
+          `DROP TRIGGER IF EXISTS ${trigger} ON ${this.qualify(location, table.table)}`,
+        );
+      }
+    });
+  }
+
+  /**
+   * 持久化新策略后切换内存中的路由，本进程的订阅可能已先通过重新加载完成切换
+   */
+  private async switchStrategy(
+    tenantId: string,
+    from: IsolationStrategy,
+    to: IsolationStrategy,
+  ): Promise<void> {
+    if (this.store) {
+      await this.platformAdapter.transaction(async trx => {
+        await this.store!.save(createSqlExecutor(trx), tenantId, from, to);
+      });
+    }
+    if (this.isolationConfig.getStrategy(tenantId) !== to) {
+      this.isolationConfig.switchTenantStrategy(tenantId, from, to);
+    }
+  }
+
+  /**
+   * 表级隔离的表启用了RLS，读写前在事务内绑定租户
+   */
+  private async bindTenant(
+    trx: unknown,
+    tenantId: string,
+  ): Promise<ISqlExecutor> {
+    const executor = createSqlExecutor(trx);
+    await executor.query('SELECT set_config($1, $2, true)', [
+      TENANT_CONTEXT_SETTING,
+      tenantId,
+    ]);
+    return executor;
+  }
+
+  private describe(location: ResolvedLocation): TenantDataLocation {
+    return {
+      strategy: location.strategy,
+      database: location.database,
+      schema: location.schema,
+    };
+  }
+
+  private qualify(location: TenantDataLocation, table: string): string {
+    return `${quote(location.schema)}.${quote(table)}`;
+  }
+
+  private tenantIdField(): string {
+    return this.isolationConfig.getTenantIdField();
+  }
+}
+
+/**
+ * @function fenceTriggerName
+ * @description 租户写入屏障触发器名称，租户ID取哈希以满足标识符长度限制
+ * @param {string} tenantId 租户ID
+ * @returns {string} 触发器名称
+ */
+function fenceTriggerName(tenantId: string): string {
+  return `tenant_fence_${createHash('md5').update(tenantId).digest('hex').slice(0, 16)}`;
+}
+
+function quote(identifier: string): string {
+  return `"${identifier.replace(/"/g, '""')}"`;
+}
+
+function literal(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
@@ -0,0 +1,325 @@
+/**
+ * @file tenant-strategy.store.ts
+ * @description 租户隔离策略分配的持久化
+ *
+ * 租户策略分配保存在平台数据库中，应用启动时加载到IsolationConfigService，
+ * 迁移工具切换租户策略时先写入该表再切换内存中的路由。
+ * 写入时在同一事务中发出NOTIFY，其他进程订阅后重新加载，使多实例的路由保持一致。
+ */
+
+import type { Pool, PoolClient, Notification } from 'pg';
+import type {
+  IDatabaseAdapter,
+  ISqlExecutor,
+} from '../interfaces/database.interface';
+import {
+  IsolationConfigService,
+  IsolationStrategy,
+} from '../config/isolation.config';
+
+/**
+ * @interface TenantStrategyNotifierEvents
+ * @description 通知通道的连接事件回调
+ */
+export interface TenantStrategyNotifierEvents {
+  /** 连接中断后重新订阅成功，期间的通知可能已丢失 */
+  onReconnect?: () => void;
+  /** 连接中断或重新订阅失败 */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * @interface TenantStrategyNotifier
+ * @description 租户策略变更通知通道
+ */
+export interface TenantStrategyNotifier {
+  /**
+   * 订阅通知频道
+   * @param {string} channel 频道名称
+   * @param {(payload: string) => void} onNotify 收到通知时的回调，参数为租户ID
+   * @param {TenantStrategyNotifierEvents} [events] 连接事件回调
+   * @returns {Promise<() => Promise<void>>} 取消订阅函数
+   */
+  listen(
+    channel: string,
+    onNotify: (payload: string) => void,
+    events?: TenantStrategyNotifierEvents,
+  ): Promise<() => Promise<void>>;
+}
+
+interface ListenConnection {
+  client: PoolClient;
+  onError: (error: Error) => void;
+}
+
+/**
+ * @class PgTenantStrategyNotifier
+ * @description
+ * 基于PostgreSQL LISTEN/NOTIFY的通知通道，每个订阅占用连接池中的一个专用连接。
+ * 专用连接出错时释放该连接，按reconnectDelayMs间隔重新获取连接并重新LISTEN，成功后回调onReconnect。
+ *
+ * @example
+ * ```typescript
+ * const notifier = new PgTenantStrategyNotifier(platformAdapter.getPool());
+ * ```
+ */
+export class PgTenantStrategyNotifier implements TenantStrategyNotifier {
+  constructor(
+    private readonly pool: Pool,
+    private readonly reconnectDelayMs: number = 1000,
+  ) {}
+
+  async listen(
+    channel: string,
+    onNotify: (payload: string) => void,
+    events: TenantStrategyNotifierEvents = {},
+  ): Promise<() => Promise<void>> {
+    let current: ListenConnection | null = null;
+    let stopped = false;
+    let retry: NodeJS.Timeout | undefined;
+
+    const handler = (message: Notification): void => {
+      if (message.channel === channel) {
+        onNotify(message.payload ?? '');
+      }
+    };
+    const detach = (connection: ListenConnection): void => {
+      connection.client.removeListener('notification', handler);
+      connection.client.removeListener('error', connection.onError);
+    };
+
+    const scheduleReconnect = (): void => {
+      if (stopped) {
+        return;
+      }
+      retry = setTimeout(() => {
+        subscribe().then(
+          () => {
+            if (!stopped) {
+              events.onReconnect?.();
+            }
+          },
+          error => {
+            events.onError?.(error);
+            scheduleReconnect();
+          },
+        );
+      }, this.reconnectDelayMs);
+      retry.unref();
+    };
+
+    const subscribe = async (): Promise<void> => {
+      const client = await this.pool.connect();
+      const connection: ListenConnection = {
+        client,
+        onError: (error: Error): void => {
+          // 取消订阅期间的错误由取消订阅函数处理
+          if (stopped || current !== connection) {
+            return;
+          }
+          current = null;
+          detach(connection);
+          client.release(error);
+          events.onError?.(error);
+          scheduleReconnect();
+        },
+      };
+      client.on('notification', handler);
+      client.on('error', connection.onError);
+      try {
+        await client.query(`LISTEN "${channel}"`);
+      } catch (error) {
+        detach(connection);
+        client.release(error as Error);
+        throw error;
+      }
+
+      if (stopped) {
+        detach(connection);
+        client.release(true);
+        return;
+      }
+      current = connection;
+    };
+
+    await subscribe();
+
+    return async () => {
+      stopped = true;
+      clearTimeout(retry);
+      const connection = current;
+      current = null;
+      if (!connection) {
+        return;
+      }
+      try {
+        await connection.client.query(`UNLISTEN "${channel}"`);
+      } catch (error) {
+        detach(connection);
+        connection.client.release(error as Error);
+        throw error;
+      }
+      detach(connection);
+      connection.client.release();
+    };
+  }
+}
+
+/**
+ * @class TenantStrategyStore
+ * @description
+ * 租户策略存储，表中只记录与全局策略不同的租户（以及切换回全局策略的租户）。
+ *
+ * @example
+ * ```typescript
+ * const store = new TenantStrategyStore(platformAdapter);
+ * await store.ensureTable();
+ * await store.loadInto(isolationConfig);
+ * await store.watch(isolationConfig, new PgTenantStrategyNotifier(platformAdapter.getPool()));
+ * ```
+ */
+export class TenantStrategyStore {
+  constructor(
+    private readonly adapter: IDatabaseAdapter,
+    private readonly table: string = 'tenant_isolation_strategies',
+  ) {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+      throw new Error(`Invalid tenant strategy table: ${table}`);
+    }
+  }
+
+  /**
+   * @method getTableName
+   * @description 获取存储表名
+   * @returns {string} 表名
+   */
+  getTableName(): string {
+    return this.table;
+  }
+
+  /**
+   * @method getChannel
+   * @description 获取策略变更的通知频道名称
+   * @returns {string} 频道名称
+   */
+  getChannel(): string {
+    return `${this.table}_changed`;
+  }
+
+  /**
+   * @method ensureTable
+   * @description 创建存储表（已存在时跳过）
+   * @returns {Promise<void>}
+   */
+  async ensureTable(): Promise<void> {
+    await this.adapter.execute(
+      `CREATE TABLE IF NOT EXISTS "${this.table}" (
+         tenant_id TEXT PRIMARY KEY,
+         strategy TEXT NOT NULL,
+         updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+       )`,
+    );
+  }
+
+  /**
+   * @method load
+   * @description 加载全部租户策略分配
+   * @returns {Promise<Record<string, IsolationStrategy>>} 按租户ID索引的策略
+   */
+  async load(): Promise<Record<string, IsolationStrategy>> {
+    const result = await this.adapter.query(
+      `SELECT tenant_id, strategy FROM "${this.table}"`,
+    );
+    return Object.fromEntries(
+      (result.rows as Array<{ tenant_id: string; strategy: string }>).map(
+        row => [row.tenant_id, row.strategy as IsolationStrategy],
+      ),
+    );
+  }
+
+  /**
+   * @method loadInto
+   * @description 加载租户策略分配并应用到隔离配置
+   * @param {IsolationConfigService} isolationConfig 隔离配置服务
+   * @returns {Promise<void>}
+   */
+  async loadInto(isolationConfig: IsolationConfigService): Promise<void> {
+    isolationConfig.setTenantStrategies(await this.load());
+  }
+
+  /**
+   * @method watch
+   * @description
+   * 订阅策略变更通知，收到通知后重新加载到隔离配置。
+   * 重新加载按通知顺序串行执行，订阅建立后先加载一次，避免遗漏订阅前提交的切换；
+   * 通知连接中断并重新订阅后同样重新加载一次，补上中断期间的切换。
+   * @param {IsolationConfigService} isolationConfig 隔离配置服务
+   * @param {TenantStrategyNotifier} notifier 通知通道
+   * @param {(error: unknown) => void} [onError] 重新加载失败或通知连接中断时的回调
+   * @returns {Promise<() => Promise<void>>} 取消订阅函数
+   */
+  async watch(
+    isolationConfig: IsolationConfigService,
+    notifier: TenantStrategyNotifier,
+    onError: (error: unknown) => void = () => undefined,
+  ): Promise<() => Promise<void>> {
+    let reloading = Promise.resolve();
+    const reload = (): Promise<void> =>
+      (reloading = reloading
+        .then(() => this.loadInto(isolationConfig))
+        .catch(onError));
+
+    const unlisten = await notifier.listen(
+      this.getChannel(),
+      () => {
+        void reload();
+      },
+      {
+        onReconnect: () => {
+          void reload();
+        },
+        onError,
+      },
+    );
+    await reload();
+
+    return async () => {
+      await unlisten();
+      await reloading;
+    };
+  }
+
+  /**
+   * @method save
+   * @description 保存租户策略，只有存储中的策略与预期一致时才更新，提交后通知其他进程
+   * @param {ISqlExecutor} executor SQL执行器
+   * @param {string} tenantId 租户ID
+   * @param {IsolationStrategy} expected 预期的当前策略
+   * @param {IsolationStrategy} strategy 新策略
+   * @returns {Promise<void>}
+   * @throws {Error} 当存储中的策略已被其他进程修改时抛出
+   */
+  async save(
+    executor: ISqlExecutor,
+    tenantId: string,
+    expected: IsolationStrategy,
+    strategy: IsolationStrategy,
+  ): Promise<void> {
+    const result = await executor.query(
+      `INSERT INTO "${this.table}" AS s (tenant_id, strategy) VALUES ($1, $2)
+       ON CONFLICT (tenant_id) DO UPDATE
+         SET strategy = EXCLUDED.strategy, updated_at = NOW()
+         WHERE s.strategy = $3`,
+      [tenantId, strategy, expected],
+    );
+    if (result.rowCount === 0) {
+      throw new Error(
+        `Isolation strategy of tenant ${tenantId} was changed concurrently`,
+      );
+    }
+    await executor.query('SELECT pg_notify($1, $2)', [
+      this.getChannel(),
+      tenantId,
+    ]);
+  }
+}
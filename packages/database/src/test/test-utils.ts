@@ -39,6 +39,12 @@ export interface MockDatabaseAdapter extends Partial<IDatabaseAdapter> {
   isRowLevelSecurityEnabled: jest.MockedFunction<
     IDatabaseAdapter['isRowLevelSecurityEnabled']
   >;
+  applyRowLevelSecurityPolicies: jest.MockedFunction<
+    IDatabaseAdapter['applyRowLevelSecurityPolicies']
+  >;
+  verifyRowLevelSecurity: jest.MockedFunction<
+    IDatabaseAdapter['verifyRowLevelSecurity']
+  >;
 }
 
 /**
@@ -70,6 +76,8 @@ export function createMockDatabaseAdapter(): MockDatabaseAdapter {
     enableRowLevelSecurity: jest.fn(),
     disableRowLevelSecurity: jest.fn(),
     isRowLevelSecurityEnabled: jest.fn(),
+    applyRowLevelSecurityPolicies: jest.fn(),
+    verifyRowLevelSecurity: jest.fn(),
   };
 }
 
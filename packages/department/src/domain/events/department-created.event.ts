@@ -1,4 +1,4 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { DepartmentId } from '@aiofix/shared';
 import { DepartmentName, DepartmentDescription } from '@aiofix/shared';
 import { DepartmentSettings } from '../value-objects/department-settings.vo';
@@ -227,3 +227,8 @@ export class DepartmentCreatedEvent extends DomainEvent {
     };
   }
 }
+
+eventTypeRegistry.register(DepartmentCreatedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) => DepartmentCreatedEvent.fromJSON(data),
+});
@@ -1,4 +1,4 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { DepartmentId } from '@aiofix/shared';
 import { DepartmentStatus } from '../enums/department-status.enum';
 import { TenantId } from '@aiofix/shared';
@@ -198,3 +198,8 @@ export class DepartmentDeletedEvent extends DomainEvent {
     return 'MOVE_TO_PARENT'; // 移动到父部门
   }
 }
+
+eventTypeRegistry.register(DepartmentDeletedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) => DepartmentDeletedEvent.fromJSON(data),
+});
@@ -1,4 +1,4 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { DepartmentId } from '@aiofix/shared';
 import { TenantId } from '@aiofix/shared';
 import { OrganizationId } from '@aiofix/shared';
@@ -246,3 +246,8 @@ export class DepartmentMovedEvent extends DomainEvent {
     return 'SAME_LEVEL';
   }
 }
+
+eventTypeRegistry.register(DepartmentMovedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) => DepartmentMovedEvent.fromJSON(data),
+});
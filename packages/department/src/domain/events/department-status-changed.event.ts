@@ -1,4 +1,4 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { DepartmentId } from '@aiofix/shared';
 import { DepartmentStatus } from '../enums/department-status.enum';
 import { TenantId } from '@aiofix/shared';
@@ -197,3 +197,8 @@ export class DepartmentStatusChangedEvent extends DomainEvent {
     return wasOperational !== isOperational;
   }
 }
+
+eventTypeRegistry.register(DepartmentStatusChangedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) => DepartmentStatusChangedEvent.fromJSON(data),
+});
@@ -1,4 +1,4 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 
 /**
  * @interface NotifAnalyticsCreatedEventProps
@@ -271,3 +271,8 @@ export class InvalidNotifAnalyticsEventError extends Error {
     this.name = 'InvalidNotifAnalyticsEventError';
   }
 }
+
+eventTypeRegistry.register(NotifAnalyticsCreatedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) => NotifAnalyticsCreatedEvent.fromJSON(data),
+});
@@ -1,4 +1,4 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 
 /**
  * @interface NotifAnalyticsDataProcessedEventProps
@@ -293,3 +293,8 @@ export class InvalidNotifAnalyticsEventError extends Error {
     this.name = 'InvalidNotifAnalyticsEventError';
   }
 }
+
+eventTypeRegistry.register(NotifAnalyticsDataProcessedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) => NotifAnalyticsDataProcessedEvent.fromJSON(data),
+});
@@ -1,4 +1,4 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 
 /**
  * @interface NotifAnalyticsReportFailedEventProps
@@ -274,3 +274,8 @@ export class InvalidNotifAnalyticsEventError extends Error {
     this.name = 'InvalidNotifAnalyticsEventError';
   }
 }
+
+eventTypeRegistry.register(NotifAnalyticsReportFailedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) => NotifAnalyticsReportFailedEvent.fromJSON(data),
+});
@@ -1,4 +1,4 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 
 /**
  * @interface NotifAnalyticsReportGeneratedEventProps
@@ -275,3 +275,8 @@ export class InvalidNotifAnalyticsEventError extends Error {
     this.name = 'InvalidNotifAnalyticsEventError';
   }
 }
+
+eventTypeRegistry.register(NotifAnalyticsReportGeneratedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) => NotifAnalyticsReportGeneratedEvent.fromJSON(data),
+});
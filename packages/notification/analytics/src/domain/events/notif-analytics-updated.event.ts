@@ -1,4 +1,4 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 
 /**
  * @interface NotifAnalyticsUpdatedEventProps
@@ -240,3 +240,8 @@ export class InvalidNotifAnalyticsEventError extends Error {
     this.name = 'InvalidNotifAnalyticsEventError';
   }
 }
+
+eventTypeRegistry.register(NotifAnalyticsUpdatedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) => NotifAnalyticsUpdatedEvent.fromJSON(data),
+});
@@ -1,9 +1,12 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { NotifId, TenantId, UserId, Email, NotifStatus } from '@aiofix/shared';
 import { EmailContent } from '../value-objects/email-content.vo';
 import { EmailProvider } from '../value-objects/email-provider.vo';
 import { TemplateId } from '../value-objects/template-id.vo';
-import { EmailPriority } from '../value-objects/email-priority.vo';
+import {
+  EmailPriority,
+  EmailPriorityType,
+} from '../value-objects/email-priority.vo';
 
 /**
  * @class EmailNotifCreatedEvent
@@ -98,3 +101,25 @@ export class EmailNotifCreatedEvent extends DomainEvent {
     };
   }
 }
+
+eventTypeRegistry.register(EmailNotifCreatedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) => {
+    const content = data.content as Record<string, string>;
+    return new EmailNotifCreatedEvent(
+      new NotifId(data.notifId as string),
+      new TenantId(data.tenantId as string),
+      new UserId(data.recipientId as string),
+      new Email(data.recipientEmail as string),
+      new EmailContent(
+        content.subject,
+        content.htmlContent,
+        content.textContent,
+      ),
+      new TemplateId(data.templateId as string),
+      data.provider as EmailProvider,
+      new EmailPriority(data.priority as EmailPriorityType),
+      data.metadata as Record<string, unknown>,
+    );
+  },
+});
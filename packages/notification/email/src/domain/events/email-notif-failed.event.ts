@@ -1,4 +1,4 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { NotifId, TenantId, UserId, Email } from '@aiofix/shared';
 import { EmailProvider } from '../value-objects/email-provider.vo';
 
@@ -82,3 +82,17 @@ export class EmailNotifFailedEvent extends DomainEvent {
     };
   }
 }
+
+eventTypeRegistry.register(EmailNotifFailedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) =>
+    new EmailNotifFailedEvent(
+      new NotifId(data.notifId as string),
+      new TenantId(data.tenantId as string),
+      new UserId(data.recipientId as string),
+      new Email(data.recipientEmail as string),
+      data.provider as EmailProvider,
+      data.errorMessage as string,
+      data.retryCount as number,
+    ),
+});
@@ -1,4 +1,4 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { NotifId, TenantId, UserId, Email } from '@aiofix/shared';
 import { EmailProvider } from '../value-objects/email-provider.vo';
 
@@ -83,3 +83,17 @@ export class EmailNotifPermanentlyFailedEvent extends DomainEvent {
     };
   }
 }
+
+eventTypeRegistry.register(EmailNotifPermanentlyFailedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) =>
+    new EmailNotifPermanentlyFailedEvent(
+      new NotifId(data.notifId as string),
+      new TenantId(data.tenantId as string),
+      new UserId(data.recipientId as string),
+      new Email(data.recipientEmail as string),
+      data.provider as EmailProvider,
+      data.errorMessage as string,
+      data.retryCount as number,
+    ),
+});
@@ -1,4 +1,4 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { NotifId, TenantId, UserId, Email } from '@aiofix/shared';
 import { EmailProvider } from '../value-objects/email-provider.vo';
 
@@ -74,3 +74,15 @@ export class EmailNotifSendingEvent extends DomainEvent {
     };
   }
 }
+
+eventTypeRegistry.register(EmailNotifSendingEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) =>
+    new EmailNotifSendingEvent(
+      new NotifId(data.notifId as string),
+      new TenantId(data.tenantId as string),
+      new UserId(data.recipientId as string),
+      new Email(data.recipientEmail as string),
+      data.provider as EmailProvider,
+    ),
+});
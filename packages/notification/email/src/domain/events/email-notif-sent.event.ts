@@ -1,4 +1,4 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { NotifId, TenantId, UserId, Email } from '@aiofix/shared';
 import { EmailProvider } from '../value-objects/email-provider.vo';
 
@@ -77,3 +77,16 @@ export class EmailNotifSentEvent extends DomainEvent {
     };
   }
 }
+
+eventTypeRegistry.register(EmailNotifSentEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) =>
+    new EmailNotifSentEvent(
+      new NotifId(data.notifId as string),
+      new TenantId(data.tenantId as string),
+      new UserId(data.recipientId as string),
+      new Email(data.recipientEmail as string),
+      data.provider as EmailProvider,
+      new Date(data.sentAt as string),
+    ),
+});
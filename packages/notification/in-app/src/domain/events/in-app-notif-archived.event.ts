@@ -1,4 +1,4 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { NotifId } from '@aiofix/shared';
 import { TenantId } from '@aiofix/shared';
 import { UserId } from '@aiofix/shared';
@@ -129,3 +129,15 @@ export class InvalidEventDataError extends Error {
     this.name = 'InvalidEventDataError';
   }
 }
+
+eventTypeRegistry.register(InAppNotifArchivedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) =>
+    new InAppNotifArchivedEvent(
+      new NotifId(data.notifId as string),
+      new TenantId(data.tenantId as string),
+      new UserId(data.recipientId as string),
+      data.oldStatus as ReadStatus,
+      new Date(data.archivedAt as string),
+    ),
+});
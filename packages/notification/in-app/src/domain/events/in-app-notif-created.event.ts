@@ -1,4 +1,4 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { NotifId } from '@aiofix/shared';
 import { TenantId } from '@aiofix/shared';
 import { UserId } from '@aiofix/shared';
@@ -150,3 +150,18 @@ export class InvalidEventDataError extends Error {
     this.name = 'InvalidEventDataError';
   }
 }
+
+eventTypeRegistry.register(InAppNotifCreatedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) =>
+    new InAppNotifCreatedEvent(
+      new NotifId(data.notifId as string),
+      new TenantId(data.tenantId as string),
+      new UserId(data.recipientId as string),
+      data.type as NotifType,
+      data.title as string,
+      data.content as string,
+      data.priority as NotifPriority,
+      data.metadata as Record<string, unknown>,
+    ),
+});
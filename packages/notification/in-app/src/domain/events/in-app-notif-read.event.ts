@@ -1,4 +1,4 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { NotifId } from '@aiofix/shared';
 import { TenantId } from '@aiofix/shared';
 import { UserId } from '@aiofix/shared';
@@ -139,3 +139,16 @@ export class InvalidEventDataError extends Error {
     this.name = 'InvalidEventDataError';
   }
 }
+
+eventTypeRegistry.register(InAppNotifReadEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) =>
+    new InAppNotifReadEvent(
+      new NotifId(data.notifId as string),
+      new TenantId(data.tenantId as string),
+      new UserId(data.recipientId as string),
+      data.oldStatus as ReadStatus,
+      data.newStatus as ReadStatus,
+      new Date(data.readAt as string),
+    ),
+});
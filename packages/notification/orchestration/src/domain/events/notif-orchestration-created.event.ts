@@ -1,4 +1,4 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { NotifChannel } from '../value-objects/notif-channel.vo';
 import { NotifStrategy } from '../value-objects/notif-strategy.vo';
 
@@ -57,10 +57,27 @@ export class NotifOrchestrationCreatedEvent extends DomainEvent {
       tenantId: this.tenantId,
       userId: this.userId,
       notificationId: this.notificationId,
-      strategy: this.strategy.getSummary(),
-      channels: this.channels.map(c => c.getSummary()),
+      strategy: this.strategy.toJSON(),
+      channels: this.channels.map(c => c.toJSON()),
       context: this.context,
       createdBy: this.createdBy,
     };
   }
 }
+
+eventTypeRegistry.register(NotifOrchestrationCreatedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) =>
+    new NotifOrchestrationCreatedEvent(
+      data.orchestrationId as string,
+      data.tenantId as string,
+      data.userId as string,
+      data.notificationId as string,
+      NotifStrategy.fromJSON(data.strategy as Record<string, unknown>),
+      (data.channels as Record<string, unknown>[]).map(channel =>
+        NotifChannel.fromJSON(channel),
+      ),
+      data.context as Record<string, unknown>,
+      data.createdBy as string,
+    ),
+});
@@ -296,6 +296,27 @@ export class NotifChannel extends ValueObject<{
       enabled: this.value.enabled,
     };
   }
+
+  /**
+   * 转换为可序列化的完整数据
+   */
+  toJSON(): Record<string, unknown> {
+    return { ...this.value };
+  }
+
+  /**
+   * 从序列化数据还原渠道
+   */
+  static fromJSON(data: Record<string, unknown>): NotifChannel {
+    return new NotifChannel({
+      type: data.type as NotifChannelType,
+      name: data.name as string,
+      priority: data.priority as ChannelPriority,
+      enabled: data.enabled as boolean,
+      config: data.config as Record<string, unknown>,
+      conditions: data.conditions as Record<string, unknown> | undefined,
+    });
+  }
 }
 
 /**
@@ -395,6 +395,45 @@ export class NotifStrategy extends ValueObject<{
       scheduledAt: this.value.scheduledAt,
     };
   }
+
+  /**
+   * 转换为可序列化的完整数据
+   */
+  toJSON(): Record<string, unknown> {
+    return {
+      ...this.value,
+      channels: this.value.channels.map(channel => channel.toJSON()),
+      fallbackChannels: this.value.fallbackChannels?.map(channel =>
+        channel.toJSON(),
+      ),
+      scheduledAt: this.value.scheduledAt?.toISOString(),
+    };
+  }
+
+  /**
+   * 从序列化数据还原策略
+   */
+  static fromJSON(data: Record<string, unknown>): NotifStrategy {
+    const toChannels = (value: unknown): NotifChannel[] | undefined =>
+      (value as Record<string, unknown>[] | undefined)?.map(channel =>
+        NotifChannel.fromJSON(channel),
+      );
+
+    return new NotifStrategy({
+      strategyId: data.strategyId as string,
+      name: data.name as string,
+      type: data.type as NotifStrategyType,
+      channels: toChannels(data.channels) ?? [],
+      conditions: data.conditions as Record<string, unknown> | undefined,
+      fallbackChannels: toChannels(data.fallbackChannels),
+      maxRetries: data.maxRetries as number | undefined,
+      retryDelay: data.retryDelay as number | undefined,
+      batchSize: data.batchSize as number | undefined,
+      scheduledAt: data.scheduledAt
+        ? new Date(data.scheduledAt as string)
+        : undefined,
+    });
+  }
 }
 
 /**
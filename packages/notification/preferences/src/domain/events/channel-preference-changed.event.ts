@@ -1,4 +1,4 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 
 /**
  * @class ChannelPreferenceChangedEvent
@@ -130,3 +130,15 @@ export interface ChannelPreferenceChangeData {
   priority: string;
   config: Record<string, unknown>;
 }
+
+eventTypeRegistry.register(ChannelPreferenceChangedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) =>
+    new ChannelPreferenceChangedEvent(
+      data.userId as string,
+      data.tenantId as string,
+      data.channel as string,
+      data.changeData as ChannelPreferenceChangeData,
+      data.changedBy as string,
+    ),
+});
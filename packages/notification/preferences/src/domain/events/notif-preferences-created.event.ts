@@ -1,4 +1,4 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { ChannelPreference } from '../value-objects/channel-preference.vo';
 import { TimePreference } from '../value-objects/time-preference.vo';
 import { ContentPreference } from '../value-objects/content-preference.vo';
@@ -113,3 +113,48 @@ export class NotifPreferencesCreatedEvent extends DomainEvent {
     };
   }
 }
+
+// 偏好以getSummary()形式存储，其字段与值对象的公开属性一致
+eventTypeRegistry.register(NotifPreferencesCreatedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) =>
+    new NotifPreferencesCreatedEvent(
+      data.userId as string,
+      data.tenantId as string,
+      (data.channelPreferences as ChannelPreference[]).map(
+        p =>
+          new ChannelPreference(p.channelType, p.enabled, p.priority, p.config),
+      ),
+      (data.timePreferences as TimePreference[]).map(
+        p =>
+          new TimePreference(
+            p.startTime,
+            p.endTime,
+            p.workDays,
+            p.timezone,
+            p.doNotDisturb,
+          ),
+      ),
+      (data.contentPreferences as ContentPreference[]).map(
+        p =>
+          new ContentPreference(
+            p.interestedTypes,
+            p.filterKeywords,
+            p.language,
+            p.contentLength,
+            p.personalization,
+          ),
+      ),
+      (data.frequencyPreferences as FrequencyPreference[]).map(
+        p =>
+          new FrequencyPreference(
+            p.maxFrequency,
+            p.frequencyType,
+            p.allowBatching,
+            p.emergencyException,
+            p.resetTime,
+          ),
+      ),
+      data.createdBy as string,
+    ),
+});
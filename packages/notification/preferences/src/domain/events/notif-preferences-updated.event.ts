@@ -1,4 +1,4 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 
 /**
  * 用户通知偏好更新事件
@@ -103,3 +103,15 @@ export class NotifPreferencesUpdatedEvent extends DomainEvent {
     };
   }
 }
+
+eventTypeRegistry.register(NotifPreferencesUpdatedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) =>
+    new NotifPreferencesUpdatedEvent(
+      data.userId as string,
+      data.tenantId as string,
+      data.preferenceType as string,
+      data.newValue,
+      data.updatedBy as string,
+    ),
+});
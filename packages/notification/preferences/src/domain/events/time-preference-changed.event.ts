@@ -1,4 +1,4 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 
 /**
  * @class TimePreferenceChangedEvent
@@ -128,3 +128,14 @@ export interface TimePreferenceChangeData {
   timezone: string;
   doNotDisturb: boolean;
 }
+
+eventTypeRegistry.register(TimePreferenceChangedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) =>
+    new TimePreferenceChangedEvent(
+      data.userId as string,
+      data.tenantId as string,
+      data.changeData as TimePreferenceChangeData,
+      data.changedBy as string,
+    ),
+});
@@ -1,4 +1,4 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { NotifId, TenantId, UserId } from '@aiofix/shared';
 import { PushToken } from '../value-objects/push-token.vo';
 import { PushContent } from '../value-objects/push-content.vo';
@@ -105,3 +105,17 @@ export class PushNotifCreatedEvent extends DomainEvent {
     return `PushNotifCreatedEvent: ${this.pushNotifId.value} for user ${this.userId.value} in tenant ${this.tenantId.value}`;
   }
 }
+
+eventTypeRegistry.register(PushNotifCreatedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) =>
+    new PushNotifCreatedEvent(
+      new NotifId(data.pushNotifId as string),
+      new TenantId(data.tenantId as string),
+      new UserId(data.userId as string),
+      PushToken.fromString(data.pushToken as string),
+      PushContent.fromPlainObject(data.content as Record<string, unknown>),
+      data.priority as PushPriorityLevel,
+      data.scheduledAt ? new Date(data.scheduledAt as string) : undefined,
+    ),
+});
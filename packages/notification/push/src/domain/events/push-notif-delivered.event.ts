@@ -1,4 +1,4 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { NotifId, TenantId, UserId } from '@aiofix/shared';
 import { PushToken } from '../value-objects/push-token.vo';
 import { PushContent } from '../value-objects/push-content.vo';
@@ -111,7 +111,7 @@ export class PushNotifDeliveredEvent extends DomainEvent {
    */
   getEventData(): Record<string, any> {
     return {
-      pushNotifId: this.pushNotifId,
+      pushNotifId: this.pushNotifId.value,
       tenantId: this.tenantId.value,
       userId: this.userId.value,
       pushToken: this.pushToken.toString(),
@@ -153,8 +153,6 @@ export class PushNotifDeliveredEvent extends DomainEvent {
     };
   }
 
-
-
   /**
 
 
@@ -166,3 +164,17 @@ export class PushNotifDeliveredEvent extends DomainEvent {
     return `PushNotifDeliveredEvent: ${this.pushNotifId} for user ${this.userId} in tenant ${this.tenantId} at ${this.deliveredAt}`;
   }
 }
+
+eventTypeRegistry.register(PushNotifDeliveredEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) =>
+    new PushNotifDeliveredEvent(
+      new NotifId(data.pushNotifId as string),
+      new TenantId(data.tenantId as string),
+      new UserId(data.userId as string),
+      PushToken.fromString(data.pushToken as string),
+      PushContent.fromPlainObject(data.content as Record<string, unknown>),
+      data.priority as PushPriorityLevel,
+      new Date(data.deliveredAt as string),
+    ),
+});
@@ -1,4 +1,4 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { NotifId, TenantId, UserId } from '@aiofix/shared';
 import { PushToken } from '../value-objects/push-token.vo';
 import { PushContent } from '../value-objects/push-content.vo';
@@ -114,7 +114,7 @@ export class PushNotifRetryingEvent extends DomainEvent {
    */
   getEventData(): Record<string, any> {
     return {
-      pushNotifId: this.pushNotifId,
+      pushNotifId: this.pushNotifId.value,
       tenantId: this.tenantId.value,
       userId: this.userId.value,
       pushToken: this.pushToken.toString(),
@@ -158,8 +158,6 @@ export class PushNotifRetryingEvent extends DomainEvent {
     };
   }
 
-
-
   /**
 
 
@@ -171,3 +169,18 @@ export class PushNotifRetryingEvent extends DomainEvent {
     return `PushNotifRetryingEvent: ${this.pushNotifId} for user ${this.userId} in tenant ${this.tenantId} (retry ${this.retryCount})`;
   }
 }
+
+eventTypeRegistry.register(PushNotifRetryingEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) =>
+    new PushNotifRetryingEvent(
+      new NotifId(data.pushNotifId as string),
+      new TenantId(data.tenantId as string),
+      new UserId(data.userId as string),
+      PushToken.fromString(data.pushToken as string),
+      PushContent.fromPlainObject(data.content as Record<string, unknown>),
+      data.priority as PushPriorityLevel,
+      data.retryCount as number,
+      data.nextRetryTime ? new Date(data.nextRetryTime as string) : undefined,
+    ),
+});
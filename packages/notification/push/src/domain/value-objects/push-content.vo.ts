@@ -303,6 +303,24 @@ export class PushContent extends ValueObject<{
     };
   }
 
+  /**
+   * @method fromPlainObject
+   * @description 从toPlainObject()生成的普通对象还原推送内容
+   * @param {Record<string, any>} data 普通对象
+   * @returns {PushContent} 推送内容实例
+   * @static
+   */
+  static fromPlainObject(data: Record<string, any>): PushContent {
+    return new PushContent(
+      data.title,
+      data.body,
+      data.icon,
+      data.image,
+      data.action,
+      data.data,
+    );
+  }
+
   /**
    * @method equals
    * @description 比较两个推送内容是否相等
@@ -193,6 +193,21 @@ export class PushToken extends ValueObject<{
       value.substring(0, 4) + '****' + value.substring(value.length - 4);
     return `${this.value.platform}:${masked}`;
   }
+
+  /**
+   * @method fromString
+   * @description 从toString()生成的字符串还原推送令牌
+   * @param {string} serialized 推送令牌字符串，格式为platform:value
+   * @returns {PushToken} 推送令牌实例
+   * @static
+   */
+  static fromString(serialized: string): PushToken {
+    const separator = serialized.indexOf(':');
+    return new PushToken(
+      serialized.slice(separator + 1),
+      serialized.slice(0, separator) as PushPlatform,
+    );
+  }
 }
 
 /**
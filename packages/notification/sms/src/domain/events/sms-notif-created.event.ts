@@ -1,7 +1,8 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { NotifId, TenantId, UserId, PhoneNumber } from '@aiofix/shared';
 import { SmsContent } from '../value-objects/sms-content.vo';
 import { SmsProvider } from '../value-objects/sms-provider.vo';
+import { restoreSmsNotifEventData } from './sms-notif-event.data';
 
 /**
  * 短信通知创建事件
@@ -104,3 +105,19 @@ export class SmsNotifCreatedEvent extends DomainEvent {
     return `SmsNotifCreatedEvent(smsNotifId=${this.smsNotifId.value}, tenantId=${this.tenantId.value}, userId=${this.userId.value})`;
   }
 }
+
+eventTypeRegistry.register(SmsNotifCreatedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) => {
+    const restored = restoreSmsNotifEventData(data);
+    return new SmsNotifCreatedEvent(
+      restored.smsNotifId,
+      restored.tenantId,
+      restored.userId,
+      restored.phoneNumber,
+      restored.content,
+      restored.provider,
+      data.createdBy as string,
+    );
+  },
+});
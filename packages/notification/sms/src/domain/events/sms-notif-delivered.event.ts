@@ -1,7 +1,8 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { PhoneNumber, NotifId, TenantId, UserId } from '@aiofix/shared';
 import { SmsContent } from '../value-objects/sms-content.vo';
 import { SmsProvider } from '../value-objects/sms-provider.vo';
+import { restoreSmsNotifEventData } from './sms-notif-event.data';
 
 /**
  * 短信通知已送达事件
@@ -87,9 +88,9 @@ export class SmsNotifDeliveredEvent extends DomainEvent {
    */
   getEventData(): object {
     return {
-      smsNotifId: this.smsNotifId,
-      tenantId: this.tenantId,
-      userId: this.userId,
+      smsNotifId: this.smsNotifId.value,
+      tenantId: this.tenantId.value,
+      userId: this.userId.value,
       phoneNumber: {
         number: this.phoneNumber.getNumber(),
         countryCode: this.phoneNumber.getCountryCode(),
@@ -133,8 +134,8 @@ export class SmsNotifDeliveredEvent extends DomainEvent {
       aggregateId: this.getAggregateId(),
       eventVersion: this.getEventVersion(),
       occurredOn: this.occurredOn,
-      tenantId: this.tenantId,
-      userId: this.userId,
+      tenantId: this.tenantId.value,
+      userId: this.userId.value,
     };
   }
 
@@ -150,3 +151,19 @@ export class SmsNotifDeliveredEvent extends DomainEvent {
     };
   }
 }
+
+eventTypeRegistry.register(SmsNotifDeliveredEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) => {
+    const restored = restoreSmsNotifEventData(data);
+    return new SmsNotifDeliveredEvent(
+      restored.smsNotifId,
+      restored.tenantId,
+      restored.userId,
+      restored.phoneNumber,
+      restored.content,
+      restored.provider,
+      new Date(data.deliveredAt as string),
+    );
+  },
+});
@@ -0,0 +1,71 @@
+import {
+  NotifId,
+  TenantId,
+  UserId,
+  PhoneNumber,
+  PhoneRegion,
+} from '@aiofix/shared';
+import { SmsContent, SmsEncoding } from '../value-objects/sms-content.vo';
+import { SmsProvider, SmsProviderType } from '../value-objects/sms-provider.vo';
+
+/**
+ * @interface SmsNotifEventData
+ * @description 短信通知事件共有的数据，由序列化后的事件数据还原
+ */
+export interface SmsNotifEventData {
+  readonly smsNotifId: NotifId;
+  readonly tenantId: TenantId;
+  readonly userId: UserId;
+  readonly phoneNumber: PhoneNumber;
+  readonly content: SmsContent;
+  readonly provider: SmsProvider;
+}
+
+/**
+ * @function restoreSmsNotifEventData
+ * @description
+ * 从短信通知事件的JSON数据还原共有的值对象。
+ *
+ * 提供商配置可能包含密钥，事件中不保存，还原后的提供商配置为空。
+ *
+ * @param {Record<string, unknown>} data 事件的JSON数据
+ * @returns {SmsNotifEventData} 还原后的事件数据
+ */
+export function restoreSmsNotifEventData(
+  data: Record<string, unknown>,
+): SmsNotifEventData {
+  const phoneNumber = data.phoneNumber as Record<string, string>;
+  const content = data.content as Record<string, unknown>;
+  const provider = data.provider as Record<string, unknown>;
+
+  return {
+    smsNotifId: new NotifId(data.smsNotifId as string),
+    tenantId: new TenantId(data.tenantId as string),
+    userId: new UserId(data.userId as string),
+    phoneNumber: new PhoneNumber({
+      number: phoneNumber.number,
+      countryCode: phoneNumber.countryCode,
+      region: phoneNumber.region as PhoneRegion,
+    }),
+    content: new SmsContent({
+      text: content.text as string,
+      templateId: content.templateId as string | undefined,
+      templateParams: content.templateParams as
+        | Record<string, string>
+        | undefined,
+      signature: content.signature as string,
+      encoding: content.encoding as SmsEncoding,
+      language: content.language as string,
+      isTemplate: content.isTemplate as boolean,
+    }),
+    provider: new SmsProvider({
+      providerType: provider.providerType as SmsProviderType,
+      providerName: provider.providerName as string,
+      supportedRegions: provider.supportedRegions as string[],
+      supportedEncodings: provider.supportedEncodings as SmsEncoding[],
+      priority: provider.priority as number,
+      isActive: provider.isActive as boolean,
+      config: {},
+    }),
+  };
+}
@@ -1,7 +1,8 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { PhoneNumber, NotifId, TenantId, UserId } from '@aiofix/shared';
 import { SmsContent } from '../value-objects/sms-content.vo';
 import { SmsProvider } from '../value-objects/sms-provider.vo';
+import { restoreSmsNotifEventData } from './sms-notif-event.data';
 
 /**
  * 短信通知发送失败事件
@@ -88,7 +89,7 @@ export class SmsNotifFailedEvent extends DomainEvent {
    */
   getEventData(): object {
     return {
-      smsNotifId: this.smsNotifId,
+      smsNotifId: this.smsNotifId.value,
       tenantId: this.tenantId.value,
       userId: this.userId.value,
       phoneNumber: {
@@ -152,3 +153,20 @@ export class SmsNotifFailedEvent extends DomainEvent {
     };
   }
 }
+
+eventTypeRegistry.register(SmsNotifFailedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) => {
+    const restored = restoreSmsNotifEventData(data);
+    return new SmsNotifFailedEvent(
+      restored.smsNotifId,
+      restored.tenantId,
+      restored.userId,
+      restored.phoneNumber,
+      restored.content,
+      restored.provider,
+      data.failureReason as string,
+      data.retryCount as number,
+    );
+  },
+});
@@ -1,7 +1,8 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { PhoneNumber, NotifId, TenantId, UserId } from '@aiofix/shared';
 import { SmsContent } from '../value-objects/sms-content.vo';
 import { SmsProvider } from '../value-objects/sms-provider.vo';
+import { restoreSmsNotifEventData } from './sms-notif-event.data';
 
 /**
  * 短信通知重试事件
@@ -87,7 +88,7 @@ export class SmsNotifRetryingEvent extends DomainEvent {
    */
   getEventData(): object {
     return {
-      smsNotifId: this.smsNotifId,
+      smsNotifId: this.smsNotifId.value,
       tenantId: this.tenantId.value,
       userId: this.userId.value,
       phoneNumber: {
@@ -150,3 +151,19 @@ export class SmsNotifRetryingEvent extends DomainEvent {
     };
   }
 }
+
+eventTypeRegistry.register(SmsNotifRetryingEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) => {
+    const restored = restoreSmsNotifEventData(data);
+    return new SmsNotifRetryingEvent(
+      restored.smsNotifId,
+      restored.tenantId,
+      restored.userId,
+      restored.phoneNumber,
+      restored.content,
+      restored.provider,
+      data.retryCount as number,
+    );
+  },
+});
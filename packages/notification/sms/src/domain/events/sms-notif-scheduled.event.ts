@@ -1,7 +1,8 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { PhoneNumber, NotifId, TenantId, UserId } from '@aiofix/shared';
 import { SmsContent } from '../value-objects/sms-content.vo';
 import { SmsProvider } from '../value-objects/sms-provider.vo';
+import { restoreSmsNotifEventData } from './sms-notif-event.data';
 
 /**
  * 短信通知调度事件
@@ -87,7 +88,7 @@ export class SmsNotifScheduledEvent extends DomainEvent {
    */
   getEventData(): object {
     return {
-      smsNotifId: this.smsNotifId,
+      smsNotifId: this.smsNotifId.value,
       tenantId: this.tenantId.value,
       userId: this.userId.value,
       phoneNumber: {
@@ -150,3 +151,19 @@ export class SmsNotifScheduledEvent extends DomainEvent {
     };
   }
 }
+
+eventTypeRegistry.register(SmsNotifScheduledEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) => {
+    const restored = restoreSmsNotifEventData(data);
+    return new SmsNotifScheduledEvent(
+      restored.smsNotifId,
+      restored.tenantId,
+      restored.userId,
+      restored.phoneNumber,
+      restored.content,
+      restored.provider,
+      new Date(data.scheduledAt as string),
+    );
+  },
+});
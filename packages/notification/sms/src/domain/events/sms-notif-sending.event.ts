@@ -1,7 +1,8 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { PhoneNumber, NotifId, TenantId, UserId } from '@aiofix/shared';
 import { SmsContent } from '../value-objects/sms-content.vo';
 import { SmsProvider } from '../value-objects/sms-provider.vo';
+import { restoreSmsNotifEventData } from './sms-notif-event.data';
 
 /**
  * 短信通知发送中事件
@@ -86,9 +87,9 @@ export class SmsNotifSendingEvent extends DomainEvent {
    */
   getEventData(): object {
     return {
-      smsNotifId: this.smsNotifId,
-      tenantId: this.tenantId,
-      userId: this.userId,
+      smsNotifId: this.smsNotifId.value,
+      tenantId: this.tenantId.value,
+      userId: this.userId.value,
       phoneNumber: {
         number: this.phoneNumber.getNumber(),
         countryCode: this.phoneNumber.getCountryCode(),
@@ -131,8 +132,8 @@ export class SmsNotifSendingEvent extends DomainEvent {
       aggregateId: this.getAggregateId(),
       eventVersion: this.getEventVersion(),
       occurredOn: this.occurredOn,
-      tenantId: this.tenantId,
-      userId: this.userId,
+      tenantId: this.tenantId.value,
+      userId: this.userId.value,
     };
   }
 
@@ -148,3 +149,18 @@ export class SmsNotifSendingEvent extends DomainEvent {
     };
   }
 }
+
+eventTypeRegistry.register(SmsNotifSendingEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) => {
+    const restored = restoreSmsNotifEventData(data);
+    return new SmsNotifSendingEvent(
+      restored.smsNotifId,
+      restored.tenantId,
+      restored.userId,
+      restored.phoneNumber,
+      restored.content,
+      restored.provider,
+    );
+  },
+});
@@ -1,4 +1,4 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { TemplateId } from '../value-objects/template-id.vo';
 import { TemplateType } from '../value-objects/template-type.vo';
 import { TenantId, UserId } from '@aiofix/shared';
@@ -115,3 +115,17 @@ export class TemplateDeletedEvent extends DomainEvent {
     };
   }
 }
+
+eventTypeRegistry.register(TemplateDeletedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) =>
+    new TemplateDeletedEvent(
+      new TemplateId(data.templateId as string),
+      new TenantId(data.tenantId as string),
+      data.templateType as TemplateType,
+      data.name as string,
+      data.displayName as string,
+      data.version as number,
+      new UserId(data.deletedBy as string),
+    ),
+});
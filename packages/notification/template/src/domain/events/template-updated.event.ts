@@ -1,7 +1,10 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { TemplateId } from '../value-objects/template-id.vo';
 import { TemplateType } from '../value-objects/template-type.vo';
-import { TemplateVariable } from '../value-objects/template-variable.vo';
+import {
+  TemplateVariable,
+  VariableType,
+} from '../value-objects/template-variable.vo';
 import { TemplateContent } from '../value-objects/template-content.vo';
 import { TenantId, UserId } from '@aiofix/shared';
 
@@ -141,3 +144,49 @@ export class TemplateUpdatedEvent extends DomainEvent {
     };
   }
 }
+
+/**
+ * 从事件JSON数据还原模板变量
+ */
+function toTemplateVariables(data: unknown): TemplateVariable[] {
+  return (data as Record<string, unknown>[]).map(
+    variable =>
+      new TemplateVariable(
+        variable.name as string,
+        variable.type as VariableType,
+        variable.description as string,
+        variable.defaultValue,
+        variable.required as boolean,
+      ),
+  );
+}
+
+/**
+ * 从事件JSON数据还原模板内容
+ */
+function toTemplateContent(data: unknown): TemplateContent {
+  const content = data as Record<string, unknown>;
+  return new TemplateContent(
+    content.title as string,
+    content.htmlContent as string,
+    content.textContent as string,
+    content.jsonContent as string,
+    toTemplateVariables(content.variables),
+  );
+}
+
+eventTypeRegistry.register(TemplateUpdatedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) =>
+    new TemplateUpdatedEvent(
+      new TemplateId(data.templateId as string),
+      new TenantId(data.tenantId as string),
+      data.templateType as TemplateType,
+      data.name as string,
+      data.displayName as string,
+      toTemplateContent(data.content),
+      toTemplateVariables(data.variables),
+      data.version as number,
+      new UserId(data.updatedBy as string),
+    ),
+});
@@ -1,4 +1,4 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { OrganizationId } from '@aiofix/shared';
 import { OrganizationName, OrganizationDescription } from '@aiofix/shared';
 import {
@@ -184,3 +184,8 @@ export class OrganizationCreatedEvent extends DomainEvent {
     ];
   }
 }
+
+eventTypeRegistry.register(OrganizationCreatedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) => OrganizationCreatedEvent.fromJSON(data),
+});
@@ -1,4 +1,4 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { OrganizationId } from '@aiofix/shared';
 import { OrganizationStatus } from '../enums/organization-status.enum';
 import { TenantId } from '@aiofix/shared';
@@ -224,3 +224,8 @@ export class OrganizationDeletedEvent extends DomainEvent {
     return archiveDate;
   }
 }
+
+eventTypeRegistry.register(OrganizationDeletedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) => OrganizationDeletedEvent.fromJSON(data),
+});
@@ -1,4 +1,4 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { OrganizationId } from '@aiofix/shared';
 import { OrganizationStatus } from '../enums/organization-status.enum';
 import { TenantId } from '@aiofix/shared';
@@ -227,3 +227,8 @@ export class OrganizationStatusChangedEvent extends DomainEvent {
     return 'UNKNOWN';
   }
 }
+
+eventTypeRegistry.register(OrganizationStatusChangedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) => OrganizationStatusChangedEvent.fromJSON(data),
+});
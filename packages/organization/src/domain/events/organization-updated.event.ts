@@ -1,4 +1,4 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { OrganizationId } from '@aiofix/shared';
 import { OrganizationName, OrganizationDescription } from '@aiofix/shared';
 import { OrganizationSettings } from '../value-objects/organization-settings.vo';
@@ -186,3 +186,8 @@ export class OrganizationUpdatedEvent extends DomainEvent {
     return ['name', 'description', 'settings'];
   }
 }
+
+eventTypeRegistry.register(OrganizationUpdatedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) => OrganizationUpdatedEvent.fromJSON(data),
+});
@@ -1,4 +1,4 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { PermissionId } from '@aiofix/shared';
 import {
   Resource,
@@ -6,6 +6,9 @@ import {
   PermissionCondition,
   PermissionScope,
   PermissionSettings,
+  PermissionConditionData,
+  PermissionScopeData,
+  PermissionSettingsData,
 } from '../value-objects';
 import { PermissionType } from '../enums';
 import { TenantId } from '@aiofix/shared';
@@ -97,3 +100,21 @@ export class PermissionCreatedEvent extends DomainEvent {
     };
   }
 }
+
+eventTypeRegistry.register(PermissionCreatedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) =>
+    new PermissionCreatedEvent(
+      new PermissionId(data.permissionId as string),
+      new Resource(data.resource as string),
+      new Action(data.action as string),
+      (data.conditions as PermissionConditionData[]).map(
+        condition => new PermissionCondition(condition),
+      ),
+      new PermissionScope(data.scope as PermissionScopeData),
+      data.type as PermissionType,
+      new PermissionSettings(data.settings as PermissionSettingsData),
+      new TenantId(data.tenantId as string),
+      data.createdBy as string,
+    ),
+});
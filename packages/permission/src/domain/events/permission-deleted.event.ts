@@ -1,4 +1,4 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { PermissionId } from '@aiofix/shared';
 
 /**
@@ -60,3 +60,12 @@ export class PermissionDeletedEvent extends DomainEvent {
     };
   }
 }
+
+eventTypeRegistry.register(PermissionDeletedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) =>
+    new PermissionDeletedEvent(
+      new PermissionId(data.permissionId as string),
+      data.deletedBy as string,
+    ),
+});
@@ -1,4 +1,4 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { PermissionId } from '@aiofix/shared';
 import { PermissionStatus } from '../enums';
 
@@ -69,3 +69,14 @@ export class PermissionStatusChangedEvent extends DomainEvent {
     };
   }
 }
+
+eventTypeRegistry.register(PermissionStatusChangedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) =>
+    new PermissionStatusChangedEvent(
+      new PermissionId(data.permissionId as string),
+      data.oldStatus as PermissionStatus,
+      data.newStatus as PermissionStatus,
+      data.changedBy as string,
+    ),
+});
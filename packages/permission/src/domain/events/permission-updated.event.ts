@@ -1,4 +1,4 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { PermissionId } from '@aiofix/shared';
 import {
   Resource,
@@ -6,6 +6,9 @@ import {
   PermissionCondition,
   PermissionScope,
   PermissionSettings,
+  PermissionConditionData,
+  PermissionScopeData,
+  PermissionSettingsData,
 } from '../value-objects';
 
 /**
@@ -107,3 +110,26 @@ export class PermissionUpdatedEvent extends DomainEvent {
     };
   }
 }
+
+eventTypeRegistry.register(PermissionUpdatedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) =>
+    new PermissionUpdatedEvent(
+      new PermissionId(data.permissionId as string),
+      new Resource(data.oldResource as string),
+      new Action(data.oldAction as string),
+      (data.oldConditions as PermissionConditionData[]).map(
+        condition => new PermissionCondition(condition),
+      ),
+      new PermissionScope(data.oldScope as PermissionScopeData),
+      new PermissionSettings(data.oldSettings as PermissionSettingsData),
+      new Resource(data.newResource as string),
+      new Action(data.newAction as string),
+      (data.newConditions as PermissionConditionData[]).map(
+        condition => new PermissionCondition(condition),
+      ),
+      new PermissionScope(data.newScope as PermissionScopeData),
+      new PermissionSettings(data.newSettings as PermissionSettingsData),
+      data.updatedBy as string,
+    ),
+});
@@ -1,4 +1,4 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 
 /**
  * @class PlatformUserAssignedEvent
@@ -91,3 +91,8 @@ export class PlatformUserAssignedEvent extends DomainEvent {
     );
   }
 }
+
+eventTypeRegistry.register(PlatformUserAssignedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) => PlatformUserAssignedEvent.fromJSON(data),
+});
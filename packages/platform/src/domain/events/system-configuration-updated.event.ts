@@ -1,4 +1,4 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { SystemConfiguration } from '../value-objects/system-configuration.vo';
 
 /**
@@ -89,3 +89,8 @@ export class SystemConfigurationUpdatedEvent extends DomainEvent {
     );
   }
 }
+
+eventTypeRegistry.register(SystemConfigurationUpdatedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) => SystemConfigurationUpdatedEvent.fromJSON(data),
+});
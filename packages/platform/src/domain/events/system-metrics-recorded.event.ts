@@ -1,4 +1,4 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { SystemMetrics } from '../value-objects/system-metrics.vo';
 
 /**
@@ -82,3 +82,8 @@ export class SystemMetricsRecordedEvent extends DomainEvent {
     );
   }
 }
+
+eventTypeRegistry.register(SystemMetricsRecordedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) => SystemMetricsRecordedEvent.fromJSON(data),
+});
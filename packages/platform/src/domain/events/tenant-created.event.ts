@@ -1,4 +1,4 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { TenantId } from '@aiofix/shared';
 import { TenantQuota } from '../value-objects/tenant-quota.vo';
 
@@ -49,6 +49,11 @@ import { TenantQuota } from '../value-objects/tenant-quota.vo';
  * @since 1.0.0
  */
 export class TenantCreatedEvent extends DomainEvent {
+  /**
+   * 与租户子领域的同名事件区分事件类型
+   */
+  static readonly eventTypeName = 'PlatformTenantCreatedEvent';
+
   constructor(
     public readonly tenantId: string,
     public readonly tenantName: string,
@@ -97,3 +102,8 @@ export class TenantCreatedEvent extends DomainEvent {
     );
   }
 }
+
+eventTypeRegistry.register(TenantCreatedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) => TenantCreatedEvent.fromJSON(data),
+});
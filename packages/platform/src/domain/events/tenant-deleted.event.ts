@@ -1,4 +1,4 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 
 /**
  * @class TenantDeletedEvent
@@ -46,6 +46,11 @@ import { DomainEvent } from '@aiofix/core';
  * @since 1.0.0
  */
 export class TenantDeletedEvent extends DomainEvent {
+  /**
+   * 与租户子领域的同名事件区分事件类型
+   */
+  static readonly eventTypeName = 'PlatformTenantDeletedEvent';
+
   constructor(
     public readonly tenantId: string,
     public readonly tenantName: string,
@@ -91,3 +96,8 @@ export class TenantDeletedEvent extends DomainEvent {
     );
   }
 }
+
+eventTypeRegistry.register(TenantDeletedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) => TenantDeletedEvent.fromJSON(data),
+});
@@ -1,4 +1,4 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { TenantQuota } from '../value-objects/tenant-quota.vo';
 
 /**
@@ -46,6 +46,11 @@ import { TenantQuota } from '../value-objects/tenant-quota.vo';
  * @since 1.0.0
  */
 export class TenantUpdatedEvent extends DomainEvent {
+  /**
+   * 与租户子领域的同名事件区分事件类型
+   */
+  static readonly eventTypeName = 'PlatformTenantUpdatedEvent';
+
   constructor(
     public readonly tenantId: string,
     public readonly tenantName: string,
@@ -91,3 +96,8 @@ export class TenantUpdatedEvent extends DomainEvent {
     );
   }
 }
+
+eventTypeRegistry.register(TenantUpdatedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) => TenantUpdatedEvent.fromJSON(data),
+});
@@ -1,4 +1,4 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { RoleId } from '@aiofix/shared';
 import { Permission } from '../value-objects/permission.vo';
 import { TenantId } from '@aiofix/shared';
@@ -158,3 +158,8 @@ export class PermissionAddedEvent extends DomainEvent {
     return this.permission.toString();
   }
 }
+
+eventTypeRegistry.register(PermissionAddedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) => PermissionAddedEvent.fromJSON(data),
+});
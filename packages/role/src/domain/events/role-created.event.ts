@@ -1,4 +1,4 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { RoleId } from '@aiofix/shared';
 import { RoleName, RoleDescription } from '@aiofix/shared';
 import { RoleSettings } from '../value-objects/role-settings.vo';
@@ -196,3 +196,8 @@ export class RoleCreatedEvent extends DomainEvent {
     return this.permissions.some(p => p.matches(resource, action));
   }
 }
+
+eventTypeRegistry.register(RoleCreatedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) => RoleCreatedEvent.fromJSON(data),
+});
@@ -1,4 +1,4 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { RoleId } from '@aiofix/shared';
 import { RoleStatus } from '../enums/role-status.enum';
 import { TenantId } from '@aiofix/shared';
@@ -197,3 +197,8 @@ export class RoleDeletedEvent extends DomainEvent {
     return `角色在${statusName}状态下被删除${reasonText}${deletedByText}`;
   }
 }
+
+eventTypeRegistry.register(RoleDeletedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) => RoleDeletedEvent.fromJSON(data),
+});
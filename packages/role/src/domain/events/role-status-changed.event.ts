@@ -1,4 +1,4 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { RoleId } from '@aiofix/shared';
 import { RoleStatus } from '../enums/role-status.enum';
 import { TenantId } from '@aiofix/shared';
@@ -236,3 +236,8 @@ export class RoleStatusChangedEvent extends DomainEvent {
     return this.changedBy.trim().length > 0;
   }
 }
+
+eventTypeRegistry.register(RoleStatusChangedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) => RoleStatusChangedEvent.fromJSON(data),
+});
@@ -1,4 +1,4 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { RoleId } from '@aiofix/shared';
 import { RoleName, RoleDescription } from '@aiofix/shared';
 import {
@@ -203,3 +203,8 @@ export class RoleUpdatedEvent extends DomainEvent {
     return this.settings.isAutoAssign();
   }
 }
+
+eventTypeRegistry.register(RoleUpdatedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) => RoleUpdatedEvent.fromJSON(data),
+});
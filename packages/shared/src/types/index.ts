@@ -32,4 +32,7 @@ export type {
   PaginationResult,
   SortOptions,
   FilterOptions,
+  FilterOperator,
+  QueryOptions,
+  QueryBuilder,
 } from './pagination.types';
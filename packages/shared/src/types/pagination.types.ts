@@ -12,7 +12,7 @@
  * 定义分页查询的选项
  */
 export interface PaginationOptions {
-  /** 页码（从1开始） */
+  /** 页码（从1开始），游标分页时忽略 */
   page: number;
   /** 每页数量 */
   limit: number;
@@ -20,6 +20,8 @@ export interface PaginationOptions {
   includeTotal?: boolean;
   /** 是否返回分页信息 */
   includePagination?: boolean;
+  /** 上一页返回的游标，指定时从游标位置之后读取（游标分页） */
+  cursor?: string;
 }
 
 /**
@@ -47,6 +49,8 @@ export interface PaginationResult<T = any> {
   nextPage?: number;
   /** 上一页页码 */
   prevPage?: number;
+  /** 下一页的游标，游标分页且有下一页时返回 */
+  nextCursor?: string;
 }
 
 /**
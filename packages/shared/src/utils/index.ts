@@ -16,6 +16,10 @@ export {
   PasswordValidator,
 } from './validation.util';
 
+// 分页游标
+export { PaginationCursor, InvalidCursorError } from './pagination-cursor.util';
+export type { CursorPosition } from './pagination-cursor.util';
+
 // 暂时注释，待后续实现
 // 格式化工具
 // export {
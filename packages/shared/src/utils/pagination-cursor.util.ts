@@ -0,0 +1,167 @@
+/**
+ * @file pagination-cursor.util.ts
+ * @description 游标分页的游标编码
+ *
+ * 游标记录上一页最后一行的排序键和ID，下一页从该位置之后继续读取（keyset分页）。
+ * 游标对客户端不透明，并用HMAC签名，被篡改或用于其他排序的游标会被拒绝。
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * @interface CursorPosition
+ * @description 游标位置
+ */
+export interface CursorPosition {
+  /** 排序字段 */
+  sortBy: string;
+  /** 排序方向 */
+  sortOrder: 'asc' | 'desc';
+  /** 上一页最后一行的排序键 */
+  value: unknown;
+  /** 上一页最后一行的ID */
+  id: string;
+}
+
+/**
+ * @class InvalidCursorError
+ * @description 游标无效：格式错误、签名不匹配或与当前排序不一致
+ */
+export class InvalidCursorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+interface EncodedPosition {
+  s: string;
+  o: 'asc' | 'desc';
+  v: unknown;
+  d?: 1;
+  i: string;
+}
+
+/**
+ * @class PaginationCursor
+ * @description
+ * 游标编解码器。
+ *
+ * 游标格式为 base64url(位置JSON).base64url(HMAC-SHA256签名)，Date类型的排序键会被还原为Date。
+ * Date只精确到毫秒，PostgreSQL的时间戳精确到微秒：排序键应使用数据库返回的文本值（如 created_at::text），
+ * 或者查询时按截断到毫秒的值排序和比较，否则同一毫秒内的行在翻页时会被跳过或重复。
+ *
+ * @example
+ * ```typescript
+ * const cursors = PaginationCursor.fromEnv();
+ * const cursor = cursors.encode({
+ *   sortBy: 'createdAt',
+ *   sortOrder: 'desc',
+ *   value: lastUser.createdAt,
+ *   id: lastUser.id,
+ * });
+ * const position = cursors.decode(cursor, 'createdAt', 'desc');
+ * ```
+ * @since 1.0.0
+ */
+export class PaginationCursor {
+  constructor(private readonly secret: string) {
+    if (!secret) {
+      throw new Error('Pagination cursor secret must not be empty');
+    }
+  }
+
+  /**
+   * @method fromEnv
+   * @description 使用PAGINATION_CURSOR_SECRET环境变量创建编解码器
+   * @returns {PaginationCursor} 游标编解码器
+   * @throws {Error} 当未配置PAGINATION_CURSOR_SECRET时抛出
+   */
+  public static fromEnv(): PaginationCursor {
+    const secret = process.env.PAGINATION_CURSOR_SECRET;
+    if (!secret) {
+      throw new Error('PAGINATION_CURSOR_SECRET is not configured');
+    }
+    return new PaginationCursor(secret);
+  }
+
+  /**
+   * @method encode
+   * @description 编码游标
+   * @param {CursorPosition} position 游标位置
+   * @returns {string} 签名后的游标
+   */
+  public encode(position: CursorPosition): string {
+    const encoded: EncodedPosition = {
+      s: position.sortBy,
+      o: position.sortOrder,
+      v:
+        position.value instanceof Date
+          ? position.value.toISOString()
+          : position.value,
+      i: position.id,
+    };
+    if (position.value instanceof Date) {
+      encoded.d = 1;
+    }
+
+    const payload = Buffer.from(JSON.stringify(encoded)).toString('base64url');
+    return `${payload}.${this.sign(payload)}`;
+  }
+
+  /**
+   * @method decode
+   * @description 解码并校验游标
+   * @param {string} cursor 游标
+   * @param {string} sortBy 当前排序字段
+   * @param {'asc' | 'desc'} sortOrder 当前排序方向
+   * @returns {CursorPosition} 游标位置
+   * @throws {InvalidCursorError} 当游标无效或与当前排序不一致时抛出
+   */
+  public decode(
+    cursor: string,
+    sortBy: string,
+    sortOrder: 'asc' | 'desc',
+  ): CursorPosition {
+    const [payload, signature, ...rest] = cursor.split('.');
+    if (!payload || !signature || rest.length > 0) {
+      throw new InvalidCursorError('Malformed pagination cursor');
+    }
+
+    const expected = Buffer.from(this.sign(payload));
+    const actual = Buffer.from(signature);
+    if (
+      expected.length !== actual.length ||
+      !timingSafeEqual(expected, actual)
+    ) {
+      throw new InvalidCursorError('Pagination cursor signature mismatch');
+    }
+
+    let encoded: EncodedPosition;
+    try {
+      encoded = JSON.parse(
+        Buffer.from(payload, 'base64url').toString('utf8'),
+      ) as EncodedPosition;
+    } catch {
+      throw new InvalidCursorError('Malformed pagination cursor');
+    }
+    if (encoded.s !== sortBy || encoded.o !== sortOrder) {
+      throw new InvalidCursorError(
+        `Pagination cursor was issued for ${encoded.s} ${encoded.o}, not ${sortBy} ${sortOrder}`,
+      );
+    }
+
+    return {
+      sortBy: encoded.s,
+      sortOrder: encoded.o,
+      value: encoded.d ? new Date(encoded.v as string) : encoded.v,
+      id: encoded.i,
+    };
+  }
+
+  private sign(payload: string): string {
+    return createHmac('sha256', this.secret)
+      .update(payload)
+      .digest('base64url');
+  }
+}
@@ -1,4 +1,8 @@
-import { EventSourcedAggregateRoot, DomainEvent } from '@aiofix/core';
+import {
+  EventSourcedAggregateRoot,
+  DomainEvent,
+  eventTypeRegistry,
+} from '@aiofix/core';
 import { TenantEntity } from '../entities/tenant.entity';
 import { TenantId } from '@aiofix/shared';
 import {
@@ -709,3 +713,37 @@ class TenantDeletedEvent extends DomainEvent {
     };
   }
 }
+
+eventTypeRegistry
+  .register(TenantActivatedEvent, {
+    schemaVersion: 1,
+    deserialize: ({ data }) =>
+      new TenantActivatedEvent(
+        new TenantId(data.tenantId as string),
+        data.activatedBy as string,
+      ),
+  })
+  .register(TenantDeactivatedEvent, {
+    schemaVersion: 1,
+    deserialize: ({ data }) =>
+      new TenantDeactivatedEvent(
+        new TenantId(data.tenantId as string),
+        data.deactivatedBy as string,
+      ),
+  })
+  .register(TenantSuspendedEvent, {
+    schemaVersion: 1,
+    deserialize: ({ data }) =>
+      new TenantSuspendedEvent(
+        new TenantId(data.tenantId as string),
+        data.suspendedBy as string,
+      ),
+  })
+  .register(TenantDeletedEvent, {
+    schemaVersion: 1,
+    deserialize: ({ data }) =>
+      new TenantDeletedEvent(
+        new TenantId(data.tenantId as string),
+        data.deletedBy as string,
+      ),
+  });
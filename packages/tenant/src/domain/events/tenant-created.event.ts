@@ -1,7 +1,10 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { TenantId } from '@aiofix/shared';
-import { TenantQuota } from '../value-objects/tenant-quota.vo';
-import { TenantConfiguration } from '../value-objects/tenant-configuration.vo';
+import { TenantQuota, TenantQuotaData } from '../value-objects/tenant-quota.vo';
+import {
+  TenantConfiguration,
+  TenantConfigurationData,
+} from '../value-objects/tenant-configuration.vo';
 
 /**
  * @class TenantCreatedEvent
@@ -79,3 +82,16 @@ export class TenantCreatedEvent extends DomainEvent {
     };
   }
 }
+
+eventTypeRegistry.register(TenantCreatedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) =>
+    new TenantCreatedEvent(
+      new TenantId(data.tenantId as string),
+      data.name as string,
+      data.type as string,
+      new TenantQuota(data.quota as TenantQuotaData),
+      new TenantConfiguration(data.configuration as TenantConfigurationData),
+      data.createdBy as string,
+    ),
+});
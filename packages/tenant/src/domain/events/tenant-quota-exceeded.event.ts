@@ -1,4 +1,4 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { TenantId } from '@aiofix/shared';
 
 /**
@@ -311,3 +311,16 @@ export class TenantQuotaExceededEvent extends DomainEvent {
     }
   }
 }
+
+eventTypeRegistry.register(TenantQuotaExceededEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) =>
+    new TenantQuotaExceededEvent(
+      new TenantId(data.tenantId as string),
+      data.quotaType as string,
+      data.quotaLimit as number,
+      data.currentUsage as number,
+      data.usagePercentage as number,
+      data.severity as 'warning' | 'critical',
+    ),
+});
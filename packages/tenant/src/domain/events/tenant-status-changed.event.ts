@@ -1,4 +1,4 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { TenantId } from '@aiofix/shared';
 import { TenantStatus } from '../value-objects/tenant-settings.vo';
 
@@ -293,3 +293,15 @@ export class TenantStatusChangedEvent extends DomainEvent {
     return `${baseMessage}。转换类型：${transitionType}，操作者：${changedBy}，时间：${occurredOn}`;
   }
 }
+
+eventTypeRegistry.register(TenantStatusChangedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) =>
+    new TenantStatusChangedEvent(
+      new TenantId(data.tenantId as string),
+      data.oldStatus as TenantStatus,
+      data.newStatus as TenantStatus,
+      data.reason as string,
+      data.changedBy as string,
+    ),
+});
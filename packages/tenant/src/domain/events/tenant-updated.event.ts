@@ -1,4 +1,4 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { TenantId } from '@aiofix/shared';
 
 /**
@@ -116,3 +116,14 @@ export class TenantUpdatedEvent extends DomainEvent {
     return this.updateData[key];
   }
 }
+
+eventTypeRegistry.register(TenantUpdatedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) =>
+    new TenantUpdatedEvent(
+      new TenantId(data.tenantId as string),
+      data.updateType as string,
+      data.updateData as Record<string, unknown>,
+      data.updatedBy as string,
+    ),
+});
@@ -0,0 +1,80 @@
+/**
+ * @fileoverview 用户控制器单元测试
+ * @description 测试用户列表的排序字段校验和分页游标错误映射
+ * @since 1.0.0
+ */
+
+import { BadRequestException } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { InvalidCursorError } from '@aiofix/shared';
+import { UserController } from '../../interfaces/controllers/user.controller';
+import { GetUsersDto } from '../../interfaces/dtos';
+import { UserApplicationService } from '../../application/services/user-application.service';
+
+describe('UserController', () => {
+  const getUsers = jest.fn();
+  let controller: UserController;
+
+  beforeEach(() => {
+    getUsers.mockReset();
+    controller = new UserController({
+      getUsers,
+    } as unknown as UserApplicationService);
+  });
+
+  describe('获取用户列表', () => {
+    it('应该将无效的分页游标映射为400', async () => {
+      getUsers.mockRejectedValue(
+        new InvalidCursorError('Pagination cursor signature mismatch'),
+      );
+
+      await expect(
+        controller.getUsers(
+          plainToInstance(GetUsersDto, { cursor: 'tampered' }),
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('应该保留其他错误', async () => {
+      getUsers.mockRejectedValue(new Error('connection lost'));
+
+      await expect(
+        controller.getUsers(plainToInstance(GetUsersDto, {})),
+      ).rejects.toThrow('connection lost');
+    });
+
+    it('应该返回下一页游标', async () => {
+      getUsers.mockResolvedValue({
+        data: [],
+        total: 0,
+        page: 1,
+        limit: 20,
+        totalPages: 0,
+        nextCursor: 'next',
+      });
+
+      await expect(
+        controller.getUsers(plainToInstance(GetUsersDto, { cursor: '' })),
+      ).resolves.toMatchObject({ nextCursor: 'next' });
+    });
+  });
+
+  describe('排序字段校验', () => {
+    it('应该拒绝白名单之外的排序字段', async () => {
+      const errors = await validate(
+        plainToInstance(GetUsersDto, { sortBy: 'passwordHash' }),
+      );
+
+      expect(errors.map(error => error.property)).toEqual(['sortBy']);
+    });
+
+    it('应该接受白名单中的排序字段', async () => {
+      const errors = await validate(
+        plainToInstance(GetUsersDto, { sortBy: 'email' }),
+      );
+
+      expect(errors).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * @fileoverview 用户仓储单元测试
+ * @description 测试用户列表的排序字段白名单和游标分页的排序键
+ * @since 1.0.0
+ */
+
+import { EntityManager } from '@mikro-orm/core';
+import { UserRepository } from '../../infrastructure/repositories/user.repository';
+
+describe('UserRepository', () => {
+  const entityManager = {
+    find: jest.fn().mockResolvedValue([]),
+    findAndCount: jest.fn().mockResolvedValue([[], 0]),
+    count: jest.fn().mockResolvedValue(0),
+  };
+  let repository: UserRepository;
+
+  beforeAll(() => {
+    process.env.PAGINATION_CURSOR_SECRET = 'test-secret';
+  });
+
+  afterAll(() => {
+    delete process.env.PAGINATION_CURSOR_SECRET;
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    repository = new UserRepository(entityManager as unknown as EntityManager);
+  });
+
+  it('应该拒绝白名单之外的排序字段', async () => {
+    for (const cursor of [undefined, '']) {
+      await expect(
+        repository.findUsers(
+          { tenantId: 'tenant-1' },
+          { page: 1, limit: 20, sortBy: 'passwordHash', cursor },
+        ),
+      ).rejects.toThrow('Unsupported sort field: passwordHash');
+    }
+
+    expect(entityManager.find).not.toHaveBeenCalled();
+    expect(entityManager.findAndCount).not.toHaveBeenCalled();
+  });
+
+  it('应该按白名单中的排序字段和ID排序', async () => {
+    await repository.findUsers(
+      { tenantId: 'tenant-1' },
+      { page: 1, limit: 20, sortBy: 'email', sortOrder: 'asc', cursor: '' },
+    );
+
+    expect(entityManager.find).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.anything(),
+      expect.objectContaining({ orderBy: { email: 'asc', id: 'asc' } }),
+    );
+  });
+
+  it('游标分页应该按截断到毫秒的时间排序和比较，与游标中的Date精度一致', async () => {
+    const createdAt = new Date('2024-01-01T00:00:00.123Z');
+    entityManager.find.mockResolvedValueOnce([
+      { id: 'user-2', createdAt },
+      { id: 'user-1', createdAt },
+    ]);
+    jest
+      .spyOn(repository as any, 'mapToAggregate')
+      .mockImplementation(entity => entity);
+
+    const first = await repository.findUsers(
+      { tenantId: 'tenant-1' },
+      { page: 1, limit: 1, sortBy: 'createdAt', cursor: '' },
+    );
+    await repository.findUsers(
+      { tenantId: 'tenant-1' },
+      { page: 1, limit: 1, sortBy: 'createdAt', cursor: first.nextCursor },
+    );
+
+    const [, where, options] = entityManager.find.mock.calls[1];
+    const truncated =
+      /^\[raw\]: date_trunc\('milliseconds', \[::alias::\]\.created_at\)/;
+    expect(Object.keys(options.orderBy)).toEqual([
+      expect.stringMatching(truncated),
+      'id',
+    ]);
+    const [lower, equal] = where.$and[1].$or;
+    expect(Object.keys(lower)).toEqual([expect.stringMatching(truncated)]);
+    expect(Object.values(lower)).toEqual([{ $lt: createdAt }]);
+    expect(Object.values(equal)).toEqual([createdAt, { $lt: 'user-2' }]);
+  });
+});
@@ -24,6 +24,7 @@
  * @property {number} limit 每页数量，默认20，最大100
  * @property {string} sortBy 排序字段，默认'createdAt'
  * @property {'asc' | 'desc'} sortOrder 排序方向，默认'desc'
+ * @property {string} cursor 分页游标，可选，指定时按游标分页并忽略page
  * @property {string} requestedBy 请求查询的用户ID，用于权限验证
  *
  * @example
@@ -52,6 +53,7 @@ export class GetUsersQuery {
     public readonly limit: number = 20,
     public readonly sortBy: string = 'createdAt',
     public readonly sortOrder: 'asc' | 'desc' = 'desc',
+    public readonly cursor?: string,
   ) {
     this.validate();
   }
@@ -124,6 +126,7 @@ export class GetUsersQuery {
       limit: this.limit,
       sortBy: this.sortBy,
       sortOrder: this.sortOrder,
+      cursor: this.cursor,
     };
 
     return `users:${JSON.stringify(filters)}`;
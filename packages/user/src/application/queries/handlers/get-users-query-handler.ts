@@ -2,6 +2,7 @@ import { Injectable } from '@nestjs/common';
 import { GetUsersQuery } from '../get-users.query';
 import { GetUsersUseCase } from '../../use-cases/get-users.use-case';
 import { BaseQueryHandler } from '@aiofix/core';
+import { USER_SORT_FIELDS } from '../../../domain/repositories/user.repository.interface';
 
 /**
  * @class GetUsersQueryHandler
@@ -169,15 +170,7 @@ export class GetUsersQueryHandler extends BaseQueryHandler<GetUsersQuery, any> {
    * @private
    */
   private isValidSortField(sortField: string): boolean {
-    const validSortFields = [
-      'createdAt',
-      'updatedAt',
-      'email',
-      'firstName',
-      'lastName',
-      'status',
-    ];
-    return validSortFields.includes(sortField);
+    return (USER_SORT_FIELDS as readonly string[]).includes(sortField);
   }
 
   /**
@@ -16,6 +16,8 @@ import {
   UserPreferencesUpdatedEvent,
   UserStatusChangedEvent,
 } from '../../domain/events';
+import { UserAggregate } from '../../domain/aggregates/user.aggregate';
+import { PaginatedResult } from '../../domain/repositories/user.repository.interface';
 
 /**
  * @class UserApplicationService
@@ -76,11 +78,14 @@ export class UserApplicationService {
    * @method getUsers
    * @description 执行获取用户列表用例，协调查询业务流程
    * @param {GetUsersQuery} query 获取用户列表查询
-   * @returns {Promise<GetUsersResult>} 查询结果
+   * @returns {Promise<PaginatedResult<UserAggregate>>} 查询结果
    * @throws {ValidationError} 当查询参数无效时抛出
    * @throws {InsufficientPermissionError} 当权限不足时抛出
+   * @throws {InvalidCursorError} 当游标无效或与排序不一致时抛出
    */
-  async getUsers(query: GetUsersQuery): Promise<any> {
+  async getUsers(
+    query: GetUsersQuery,
+  ): Promise<PaginatedResult<UserAggregate>> {
     return await this.getUsersUseCase.execute(query);
   }
 
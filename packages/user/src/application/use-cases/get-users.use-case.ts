@@ -1,5 +1,7 @@
 import { Injectable } from '@nestjs/common';
 import { GetUsersQuery } from '../queries/get-users.query';
+import { UserAggregate } from '../../domain/aggregates/user.aggregate';
+import { PaginatedResult } from '../../domain/repositories/user.repository.interface';
 
 /**
  * @class GetUsersUseCase
@@ -31,20 +33,18 @@ import { GetUsersQuery } from '../queries/get-users.query';
  */
 @Injectable()
 export class GetUsersUseCase {
-  constructor() // private readonly userReadRepository: IUserReadRepository,
-  // private readonly dataIsolationService: IDataIsolationService,
-  // private readonly permissionService: IPermissionService,
-  {}
+  constructor() {} // private readonly permissionService: IPermissionService, // private readonly dataIsolationService: IDataIsolationService, // private readonly userReadRepository: IUserReadRepository,
 
   /**
    * @method execute
    * @description 执行获取用户列表用例
    * @param {GetUsersQuery} query 获取用户列表查询
-   * @returns {Promise<GetUsersResult>} 查询结果
+   * @returns {Promise<PaginatedResult<UserAggregate>>} 查询结果
    * @throws {ValidationError} 当查询参数无效时抛出
    * @throws {InsufficientPermissionError} 当权限不足时抛出
+   * @throws {InvalidCursorError} 当游标无效或与排序不一致时抛出
    */
-  async execute(query: GetUsersQuery): Promise<any> {
+  async execute(query: GetUsersQuery): Promise<PaginatedResult<UserAggregate>> {
     // 1. 验证查询权限
     // await this.validateQueryPermission(query.requestedBy, query.tenantId);
 
@@ -57,6 +57,7 @@ export class GetUsersUseCase {
     //   limit: query.limit,
     //   sortBy: query.sortBy,
     //   sortOrder: query.sortOrder,
+    //   cursor: query.cursor,
     // });
 
     // 4. 返回结果
@@ -1,4 +1,4 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { UserId } from '@aiofix/shared';
 
 /**
@@ -74,3 +74,16 @@ export class UserAssignedToTenantEvent extends DomainEvent {
     };
   }
 }
+
+eventTypeRegistry.register(UserAssignedToTenantEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) =>
+    new UserAssignedToTenantEvent(
+      new UserId(data.userId as string),
+      data.tenantId as string,
+      data.assignedBy as string,
+      data.organizationId as string | undefined,
+      data.departmentId as string | undefined,
+      data.role as string | undefined,
+    ),
+});
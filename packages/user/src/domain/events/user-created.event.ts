@@ -1,6 +1,6 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { UserId, Email } from '@aiofix/shared';
-import { UserProfile, UserStatus } from '../value-objects';
+import { UserProfile, UserProfileData, UserStatus } from '../value-objects';
 
 /**
  * @class UserCreatedEvent
@@ -79,3 +79,17 @@ export class UserCreatedEvent extends DomainEvent {
     };
   }
 }
+
+eventTypeRegistry.register(UserCreatedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) =>
+    new UserCreatedEvent(
+      new UserId(data.userId as string),
+      new Email(data.email as string),
+      new UserProfile(data.profile as UserProfileData),
+      data.status as UserStatus,
+      data.tenantId as string,
+      data.platformId as string,
+      data.createdBy as string,
+    ),
+});
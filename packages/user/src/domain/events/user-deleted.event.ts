@@ -1,4 +1,4 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { UserId } from '@aiofix/shared';
 
 /**
@@ -94,3 +94,15 @@ export class UserDeletedEvent extends DomainEvent {
     };
   }
 }
+
+eventTypeRegistry.register(UserDeletedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) =>
+    new UserDeletedEvent(
+      new UserId(data.userId as string),
+      data.tenantId as string,
+      data.reason as string | undefined,
+      data.hardDelete as boolean,
+      data.deletedBy as string,
+    ),
+});
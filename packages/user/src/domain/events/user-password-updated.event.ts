@@ -1,4 +1,4 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { UserId } from '@aiofix/shared';
 
 /**
@@ -66,3 +66,14 @@ export class UserPasswordUpdatedEvent extends DomainEvent {
     };
   }
 }
+
+eventTypeRegistry.register(UserPasswordUpdatedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) =>
+    new UserPasswordUpdatedEvent(
+      new UserId(data.userId as string),
+      data.updatedBy as string,
+      data.reason as string | undefined,
+      data.forceLogout as boolean | undefined,
+    ),
+});
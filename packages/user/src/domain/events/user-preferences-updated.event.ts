@@ -1,6 +1,6 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { UserId } from '@aiofix/shared';
-import { UserPreferences } from '../value-objects';
+import { UserPreferences, UserPreferencesData } from '../value-objects';
 
 /**
  * @class UserPreferencesUpdatedEvent
@@ -67,3 +67,14 @@ export class UserPreferencesUpdatedEvent extends DomainEvent {
     };
   }
 }
+
+eventTypeRegistry.register(UserPreferencesUpdatedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) =>
+    new UserPreferencesUpdatedEvent(
+      new UserId(data.userId as string),
+      new UserPreferences(data.oldPreferences as UserPreferencesData),
+      new UserPreferences(data.newPreferences as UserPreferencesData),
+      data.updatedBy as string,
+    ),
+});
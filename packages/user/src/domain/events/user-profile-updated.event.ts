@@ -1,6 +1,6 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { UserId } from '@aiofix/shared';
-import { UserProfile } from '../value-objects';
+import { UserProfile, UserProfileData } from '../value-objects';
 
 /**
  * @class UserProfileUpdatedEvent
@@ -67,3 +67,14 @@ export class UserProfileUpdatedEvent extends DomainEvent {
     };
   }
 }
+
+eventTypeRegistry.register(UserProfileUpdatedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) =>
+    new UserProfileUpdatedEvent(
+      new UserId(data.userId as string),
+      new UserProfile(data.oldProfile as UserProfileData),
+      new UserProfile(data.newProfile as UserProfileData),
+      data.updatedBy as string,
+    ),
+});
@@ -1,4 +1,4 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { UserId } from '@aiofix/shared';
 import { UserStatus } from '../value-objects';
 
@@ -71,3 +71,15 @@ export class UserStatusChangedEvent extends DomainEvent {
     };
   }
 }
+
+eventTypeRegistry.register(UserStatusChangedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) =>
+    new UserStatusChangedEvent(
+      new UserId(data.userId as string),
+      data.oldStatus as UserStatus,
+      data.newStatus as UserStatus,
+      data.changedBy as string,
+      data.reason as string | undefined,
+    ),
+});
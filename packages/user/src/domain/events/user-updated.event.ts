@@ -1,4 +1,4 @@
-import { DomainEvent } from '@aiofix/core';
+import { DomainEvent, eventTypeRegistry } from '@aiofix/core';
 import { UserId } from '@aiofix/shared';
 
 /**
@@ -104,3 +104,14 @@ export class UserUpdatedEvent extends DomainEvent {
     };
   }
 }
+
+eventTypeRegistry.register(UserUpdatedEvent, {
+  schemaVersion: 1,
+  deserialize: ({ data }) =>
+    new UserUpdatedEvent(
+      new UserId(data.userId as string),
+      data.tenantId as string,
+      data.updateData as UserUpdateData,
+      data.updatedBy as string,
+    ),
+});
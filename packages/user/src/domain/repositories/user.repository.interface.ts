@@ -106,6 +106,23 @@ export interface UserFilters {
   searchTerm?: string;
 }
 
+/**
+ * 用户列表允许的排序字段。排序字段的值会写入分页游标返回给客户端，不能包含密码哈希等敏感字段
+ */
+export const USER_SORT_FIELDS = [
+  'createdAt',
+  'updatedAt',
+  'email',
+  'firstName',
+  'lastName',
+] as const;
+
+/**
+ * @type UserSortField
+ * @description 用户列表排序字段
+ */
+export type UserSortField = (typeof USER_SORT_FIELDS)[number];
+
 /**
  * @interface PaginationOptions
  * @description 分页选项接口
@@ -113,8 +130,11 @@ export interface UserFilters {
 export interface PaginationOptions {
   page: number;
   limit: number;
+  /** 排序字段，取值见USER_SORT_FIELDS */
   sortBy?: string;
   sortOrder?: 'asc' | 'desc';
+  /** 上一页返回的游标，指定时按游标分页并忽略page */
+  cursor?: string;
 }
 
 /**
@@ -127,4 +147,6 @@ export interface PaginatedResult<T> {
   page: number;
   limit: number;
   totalPages: number;
+  /** 下一页游标，没有下一页时为空 */
+  nextCursor?: string;
 }
@@ -226,6 +226,7 @@ export class UserDtoMapper {
     limit: number;
     sortBy: string;
     sortOrder: 'asc' | 'desc';
+    cursor?: string;
   } {
     return {
       organizationId: dto.organizationId,
@@ -236,6 +237,7 @@ export class UserDtoMapper {
       limit: dto.limit || 20,
       sortBy: dto.sortBy || 'createdAt',
       sortOrder: dto.sortOrder || 'desc',
+      cursor: dto.cursor,
     };
   }
 
@@ -25,7 +25,7 @@ import { PostgreSqlDriver } from '@mikro-orm/postgresql';
  * 1. 配置连接池参数优化数据库性能
  * 2. 设置查询缓存和结果缓存
  * 3. 优化实体映射和索引配置
- * 4. 支持读写分离和负载均衡
+ * 4. 支持读写分离和负载均衡（DB_REPLICA_HOSTS配置只读副本）
  *
  * @param {ConfigService} configService 配置服务
  *
@@ -59,6 +59,9 @@ export class UserDatabaseConfig {
     return {
       ...baseConfig,
       ...tenantConfig,
+      replicas: this.getReplicas(tenantConfig),
+      // MikroORM默认所有查询都走副本，这里只让显式指定connectionType: 'read'的查询走副本
+      preferReadReplicas: false,
       driver: PostgreSqlDriver,
       entities: this.getEntities(),
       migrations: this.getMigrations(),
@@ -111,6 +114,34 @@ export class UserDatabaseConfig {
     }
   }
 
+  /**
+   * @method getReplicas
+   * @description 获取只读副本配置，只有显式指定connectionType: 'read'的查询由副本执行，其他查询、写入和事务由主库执行
+   * @param {object} tenantConfig 租户特定配置，副本使用相同的数据库和Schema
+   * @returns {object[]} 副本连接配置，DB_REPLICA_HOSTS为逗号分隔的host或host:port
+   * @private
+   */
+  private getReplicas(tenantConfig: { dbName?: string; schema?: string }) {
+    const baseConfig = this.getBaseConfig();
+
+    return (process.env.DB_REPLICA_HOSTS || '')
+      .split(',')
+      .map(entry => entry.trim())
+      .filter(Boolean)
+      .map((entry, index) => {
+        const [host, port] = entry.split(':');
+        return {
+          name: `read-${index + 1}`,
+          host,
+          port: port ? parseInt(port, 10) : baseConfig.port,
+          user: baseConfig.user,
+          password: baseConfig.password,
+          dbName: tenantConfig.dbName ?? baseConfig.dbName,
+          schema: tenantConfig.schema ?? baseConfig.schema,
+        };
+      });
+  }
+
   /**
    * @method getEntities
    * @description 获取实体映射配置
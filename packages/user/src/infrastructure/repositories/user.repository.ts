@@ -1,14 +1,16 @@
 import { Injectable } from '@nestjs/common';
-import { EntityManager } from '@mikro-orm/core';
+import { EntityManager, FilterQuery, raw } from '@mikro-orm/core';
 import { UserAggregate } from '../../domain/aggregates/user.aggregate';
 import {
   IUserRepository,
   UserFilters,
   PaginationOptions,
   PaginatedResult,
+  USER_SORT_FIELDS,
+  UserSortField,
 } from '../../domain/repositories/user.repository.interface';
 import { UserPostgreSQLEntity } from '../adapters/user.postgresql.entity';
-import { UserId, Email } from '@aiofix/shared';
+import { UserId, Email, PaginationCursor } from '@aiofix/shared';
 import {
   Password,
   UserProfile,
@@ -16,6 +18,15 @@ import {
   UserStatus,
 } from '../../domain/value-objects';
 
+/**
+ * 时间类型的排序字段及其列名。数据库中精确到微秒，游标中的Date只精确到毫秒，
+ * 游标分页时按截断到毫秒的值排序和比较
+ */
+const TIMESTAMP_SORT_COLUMNS: Partial<Record<UserSortField, string>> = {
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+};
+
 /**
  * @class UserRepository
  * @description
@@ -50,6 +61,8 @@ import {
  */
 @Injectable()
 export class UserRepository implements IUserRepository {
+  private paginationCursor?: PaginationCursor;
+
   constructor(private readonly entityManager: EntityManager) {}
 
   /**
@@ -130,16 +143,23 @@ export class UserRepository implements IUserRepository {
 
   /**
    * @method findUsers
-   * @description 查找用户列表，支持分页和过滤
+   * @description 查找用户列表，支持分页和过滤，配置了只读副本时由副本执行
    * @param {UserFilters} filters 过滤条件
-   * @param {PaginationOptions} pagination 分页选项
+   * @param {PaginationOptions} pagination 分页选项，指定cursor时按游标分页
    * @returns {Promise<PaginatedResult<UserAggregate>>} 分页的用户列表
+   * @throws {InvalidCursorError} 当游标无效或与排序不一致时抛出
+   * @throws {Error} 当排序字段不在USER_SORT_FIELDS中时抛出
    */
   async findUsers(
     filters: UserFilters,
     pagination: PaginationOptions,
   ): Promise<PaginatedResult<UserAggregate>> {
     const whereClause = this.buildWhereClause(filters);
+    const sortBy = this.resolveSortField(pagination.sortBy);
+
+    if (pagination.cursor !== undefined) {
+      return this.findUsersAfterCursor(whereClause, sortBy, pagination);
+    }
 
     const [entities, total] = await this.entityManager.findAndCount(
       UserPostgreSQLEntity,
@@ -147,8 +167,9 @@ export class UserRepository implements IUserRepository {
       {
         limit: pagination.limit,
         offset: (pagination.page - 1) * pagination.limit,
+        connectionType: 'read',
         orderBy: {
-          [pagination.sortBy || 'createdAt']: pagination.sortOrder || 'DESC',
+          [sortBy]: pagination.sortOrder || 'DESC',
         },
       },
     );
@@ -164,6 +185,121 @@ export class UserRepository implements IUserRepository {
     };
   }
 
+  /**
+   * @method findUsersAfterCursor
+   * @description
+   * 游标分页：从上一页最后一行 (排序键, id) 之后读取，多取一行判断是否有下一页。
+   * 按 (排序键, id) 排序保证排序键相同时翻页不重复、不遗漏，查询深度不影响性能。
+   * @param {FilterQuery<UserPostgreSQLEntity>} whereClause 查询条件
+   * @param {UserSortField} sortBy 排序字段
+   * @param {PaginationOptions} pagination 分页选项
+   * @returns {Promise<PaginatedResult<UserAggregate>>} 分页的用户列表
+   * @private
+   */
+  private async findUsersAfterCursor(
+    whereClause: FilterQuery<UserPostgreSQLEntity>,
+    sortBy: UserSortField,
+    pagination: PaginationOptions,
+  ): Promise<PaginatedResult<UserAggregate>> {
+    const sortOrder = pagination.sortOrder || 'desc';
+    const operator = sortOrder === 'asc' ? '$gt' : '$lt';
+    const cursors = this.getPaginationCursor();
+
+    let where: FilterQuery<UserPostgreSQLEntity> = whereClause;
+    if (pagination.cursor) {
+      const position = cursors.decode(pagination.cursor, sortBy, sortOrder);
+      where = {
+        $and: [
+          whereClause,
+          {
+            $or: [
+              { [this.sortKey(sortBy)]: { [operator]: position.value } },
+              {
+                [this.sortKey(sortBy)]: position.value,
+                id: { [operator]: position.id },
+              },
+            ],
+          },
+        ],
+      };
+    }
+
+    const [entities, total] = await Promise.all([
+      this.entityManager.find(UserPostgreSQLEntity, where, {
+        limit: pagination.limit + 1,
+        connectionType: 'read',
+        orderBy: { [this.sortKey(sortBy)]: sortOrder, id: sortOrder },
+      }),
+      this.entityManager.count(UserPostgreSQLEntity, whereClause, {
+        connectionType: 'read',
+      }),
+    ]);
+
+    const page = entities.slice(0, pagination.limit);
+    const last = page[page.length - 1];
+    const nextCursor =
+      entities.length > pagination.limit
+        ? cursors.encode({
+            sortBy,
+            sortOrder,
+            value: last[sortBy],
+            id: last.id,
+          })
+        : undefined;
+
+    return {
+      data: page.map(entity => this.mapToAggregate(entity)),
+      total,
+      page: pagination.page,
+      limit: pagination.limit,
+      totalPages: Math.ceil(total / pagination.limit),
+      nextCursor,
+    };
+  }
+
+  /**
+   * @method sortKey
+   * @description
+   * 游标分页的排序键。时间字段截断到毫秒，与游标中的Date精度一致，
+   * 否则同一毫秒内的行在翻页时会被跳过或重复；原始SQL片段只能使用一次，每处引用都需重新生成
+   * @param {UserSortField} sortBy 排序字段
+   * @returns {string} 属性名或原始SQL片段
+   * @private
+   */
+  private sortKey(sortBy: UserSortField): string {
+    const column = TIMESTAMP_SORT_COLUMNS[sortBy];
+    return column
+      ? raw(alias => `date_trunc('milliseconds', ${alias}.${column})`)
+      : sortBy;
+  }
+
+  /**
+   * @method resolveSortField
+   * @description 校验排序字段，排序值会写入游标，只允许白名单中的字段
+   * @param {string} [sortBy] 排序字段，默认createdAt
+   * @returns {UserSortField} 排序字段
+   * @throws {Error} 当排序字段不在USER_SORT_FIELDS中时抛出
+   * @private
+   */
+  private resolveSortField(sortBy: string = 'createdAt'): UserSortField {
+    const field = USER_SORT_FIELDS.find(candidate => candidate === sortBy);
+    if (!field) {
+      throw new Error(`Unsupported sort field: ${sortBy}`);
+    }
+    return field;
+  }
+
+  /**
+   * @method getPaginationCursor
+   * @description 获取游标编解码器，使用PAGINATION_CURSOR_SECRET签名
+   * @returns {PaginationCursor} 游标编解码器
+   * @private
+   */
+  private getPaginationCursor(): PaginationCursor {
+    this.paginationCursor ??= PaginationCursor.fromEnv();
+    return this.paginationCursor;
+  }
+
   /**
    * @method transaction
    * @description 在事务中执行操作
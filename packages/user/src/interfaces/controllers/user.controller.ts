@@ -10,7 +10,9 @@ import {
   Param,
   HttpStatus,
   HttpCode,
+  BadRequestException,
 } from '@nestjs/common';
+import { InvalidCursorError } from '@aiofix/shared';
 import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
 import { CreateUserCommand } from '../../application/commands/create-user.command';
 import { GetUsersQuery } from '../../application/queries/get-users.query';
@@ -144,10 +146,11 @@ export class UserController {
 
   /**
    * @method getUsers
-   * @description 获取用户列表，支持多租户数据隔离和分页
+   * @description 获取用户列表，支持多租户数据隔离、页码分页和游标分页
    * @param {GetUsersDto} queryDto 查询参数
    * @returns {Promise<PaginatedUserResponseDto>} 分页的用户列表
    * @throws {ValidationError} 当查询参数无效时抛出
+   * @throws {BadRequestException} 当分页游标无效或与排序不一致时抛出
    * @throws {InsufficientPermissionError} 当权限不足时抛出
    */
   @Get()
@@ -181,10 +184,18 @@ export class UserController {
       queryDto.limit || 20,
       queryDto.sortBy || 'createdAt',
       queryDto.sortOrder || 'desc',
+      queryDto.cursor,
     );
 
-    // 3. 调用应用服务
-    const result = await this.userApplicationService.getUsers(query);
+    // 3. 调用应用服务，游标无效属于请求参数错误
+    const result = await this.userApplicationService
+      .getUsers(query)
+      .catch((error: unknown) => {
+        if (error instanceof InvalidCursorError) {
+          throw new BadRequestException(error.message);
+        }
+        throw error;
+      });
 
     // 4. 返回响应
     return {
@@ -206,6 +217,7 @@ export class UserController {
       page: result.page,
       limit: result.limit,
       totalPages: result.totalPages,
+      nextCursor: result.nextCursor,
     };
   }
 
@@ -5,10 +5,12 @@ import {
   Min,
   Max,
   IsEnum,
+  IsIn,
   MaxLength,
 } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 import { Transform } from 'class-transformer';
+import { USER_SORT_FIELDS } from '../../domain/repositories/user.repository.interface';
 
 /**
  * @enum UserStatus
@@ -37,6 +39,7 @@ export enum UserStatus {
  * 2. 支持状态过滤（status）
  * 3. 支持关键词搜索（searchTerm）
  * 4. 支持排序（sortBy, sortOrder）
+ * 5. 支持游标分页（cursor），大数据量深翻页时代替page
  *
  * 多租户支持：
  * 1. 自动应用租户级数据隔离
@@ -49,6 +52,7 @@ export enum UserStatus {
  * @property {string} [searchTerm] 搜索关键词
  * @property {string} [sortBy='createdAt'] 排序字段
  * @property {'asc' | 'desc'} [sortOrder='desc'] 排序方向
+ * @property {string} [cursor] 上一页返回的nextCursor，指定时忽略page
  * @property {string} [organizationId] 组织ID过滤
  * @property {string} [departmentId] 部门ID过滤
  *
@@ -111,11 +115,11 @@ export class GetUsersDto {
   searchTerm?: string;
 
   @IsOptional()
-  @IsString()
+  @IsIn(USER_SORT_FIELDS, { message: '排序字段无效' })
   @ApiProperty({
     description: '排序字段',
     example: 'createdAt',
-    enum: ['createdAt', 'updatedAt', 'email', 'firstName', 'lastName'],
+    enum: USER_SORT_FIELDS,
     required: false,
   })
   sortBy?: string = 'createdAt';
@@ -130,6 +134,16 @@ export class GetUsersDto {
   })
   sortOrder?: 'asc' | 'desc' = 'desc';
 
+  @IsOptional()
+  @IsString()
+  @MaxLength(1024, { message: '分页游标长度不能超过1024个字符' })
+  @ApiProperty({
+    description:
+      '分页游标，取自上一页响应的nextCursor；首次按游标分页时传空字符串，需与上一页使用相同的排序',
+    required: false,
+  })
+  cursor?: string;
+
   @IsOptional()
   @IsString()
   @ApiProperty({
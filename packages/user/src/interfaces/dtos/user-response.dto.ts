@@ -132,6 +132,7 @@ export class UserResponseDto {
  * @property {number} page 当前页码
  * @property {number} limit 每页数量
  * @property {number} totalPages 总页数
+ * @property {string} [nextCursor] 下一页游标，仅游标分页且有下一页时返回
  *
  * @example
  * ```typescript
@@ -174,4 +175,11 @@ export class PaginatedUserResponseDto {
     example: 5,
   })
   totalPages!: number;
+
+  @ApiProperty({
+    description:
+      '下一页游标，作为下一次请求的cursor参数，仅游标分页且有下一页时返回',
+    required: false,
+  })
+  nextCursor?: string;
 }
@@ -9,6 +9,8 @@ import { GetUserUseCase } from './application/use-cases/get-user.use-case';
 import { GetUsersUseCase } from './application/use-cases/get-users.use-case';
 import { AssignUserToTenantUseCase } from './application/use-cases/assign-user-to-tenant.use-case';
 import { UserController } from './interfaces/controllers/user.controller';
+// 用户领域事件在模块加载时注册事件类型，须先于任何事件读取加载
+import './domain/events';
 
 /**
  * @class UserModule
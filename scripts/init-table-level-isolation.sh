@@ -298,7 +298,7 @@ psql -v ON_ERROR_STOP=1 --username "$POSTGRES_USER" --dbname "$POSTGRES_DB" <<-E
     BEGIN
         -- 这里可以从应用程序上下文中获取当前租户ID
         -- 在实际应用中，可以通过SET命令设置会话变量
-        RETURN current_setting('app.current_tenant_id', true)::UUID;
+        RETURN current_setting('app.current_tenant', true)::UUID;
     EXCEPTION
         WHEN OTHERS THEN
             RETURN NULL;
@@ -0,0 +1,87 @@
+import { describe, it, expect } from '@jest/globals';
+import { readdirSync } from 'fs';
+import { join, relative } from 'path';
+import {
+  DomainEvent,
+  eventTypeRegistry,
+  eventUpcasterChain,
+} from '@aiofix/core';
+
+/**
+ * 各包领域事件注册覆盖测试
+ *
+ * 事件类在模块加载时注册到全局注册表。此测试加载工作区内所有*.event.ts模块，
+ * 确认导出的每个DomainEvent子类都已注册，避免读取时抛出UnknownEventTypeError；
+ * 并确认全局升级器链能将所有已注册事件从版本1升级到当前版本。
+ *
+ * 事件模块会带入各包的依赖（如bcrypt的原生模块），因此作为工作区级的集成测试运行，
+ * 不放在core的单元测试中。
+ */
+
+const PACKAGES_ROOT = join(__dirname, '../packages');
+
+function findEventModules(dir: string, found: string[] = []): string[] {
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    if (entry.name === 'node_modules' || entry.name === 'dist') {
+      continue;
+    }
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      findEventModules(path, found);
+    } else if (entry.name.endsWith('.event.ts')) {
+      found.push(path);
+    }
+  }
+  return found;
+}
+
+type EventClassExport = [string, typeof DomainEvent];
+
+function exportedEventClasses(modulePath: string): EventClassExport[] {
+  const exported = require(modulePath) as Record<string, unknown>;
+  return Object.entries(exported).filter(
+    (entry): entry is EventClassExport =>
+      typeof entry[1] === 'function' &&
+      entry[1].prototype instanceof DomainEvent,
+  );
+}
+
+describe('EventTypeRegistry coverage', () => {
+  const eventModules = findEventModules(PACKAGES_ROOT).map(path => [
+    relative(PACKAGES_ROOT, path),
+    path,
+  ]);
+
+  it('should find the event modules of the workspace', () => {
+    expect(eventModules.length).toBeGreaterThan(0);
+  });
+
+  it.each(eventModules)(
+    'should register every event exported by %s',
+    (_name, modulePath) => {
+      const eventClasses = exportedEventClasses(modulePath);
+
+      expect(eventClasses.length).toBeGreaterThan(0);
+      for (const [exportName, eventClass] of eventClasses) {
+        const eventType = eventClass.eventTypeName ?? eventClass.name;
+        expect({
+          exportName,
+          registered: eventTypeRegistry.isRegistered(eventType),
+        }).toEqual({ exportName, registered: true });
+        expect(eventTypeRegistry.getRegistration(eventType).eventClass).toBe(
+          eventClass,
+        );
+      }
+    },
+  );
+
+  it('should have complete upcaster chains for every registered event', () => {
+    for (const [, modulePath] of eventModules) {
+      exportedEventClasses(modulePath);
+    }
+
+    expect(() =>
+      eventUpcasterChain.assertComplete(eventTypeRegistry),
+    ).not.toThrow();
+  });
+});
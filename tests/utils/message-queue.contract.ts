@@ -0,0 +1,242 @@
+/**
+ * 消息队列契约测试
+ *
+ * 所有IMessageQueue实现共享的行为测试，包括：
+ * - 领域事件的发布和消费
+ * - 任务选项（priority、delay、attempts、backoff）
+ * - 队列暂停和恢复
+ * - 死信队列和失败任务重试
+ *
+ * @fileoverview 消息队列契约测试
+ * @author AI开发团队
+ * @since 1.0.0
+ */
+
+import {
+  DomainEvent,
+  EventTypeRegistry,
+  IMessageQueue,
+  QueueConfig,
+} from '@aiofix/core';
+
+/**
+ * 契约测试用事件
+ */
+class ContractTestEvent extends DomainEvent {
+  constructor(
+    aggregateId: string,
+    public readonly label: string,
+  ) {
+    super(aggregateId);
+  }
+
+  toJSON(): Record<string, unknown> {
+    return { label: this.label };
+  }
+}
+
+const QUEUE_NAME = 'domain-events';
+
+const queueConfig: QueueConfig = {
+  name: QUEUE_NAME,
+  concurrency: 1,
+  retryAttempts: 3,
+  retryDelay: 50,
+  backoffMultiplier: 2,
+  maxRetryDelay: 1000,
+  removeOnComplete: 10,
+  removeOnFail: 5,
+  delay: 0,
+  priority: 1,
+};
+
+/**
+ * 轮询等待条件成立
+ */
+async function waitFor(
+  condition: () => boolean | Promise<boolean>,
+  timeoutMs = 5000,
+): Promise<void> {
+  const deadline = new Date().getTime() + timeoutMs;
+  while (!(await condition())) {
+    if (new Date().getTime() > deadline) {
+      throw new Error(`Condition not met within ${timeoutMs}ms`);
+    }
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+}
+
+/**
+ * 为消息队列实现注册契约测试
+ *
+ * @param name 实现名称
+ * @param createQueue 创建待测队列，每个测试使用新的队列实例
+ */
+export function describeMessageQueueContract(
+  name: string,
+  createQueue: (registry: EventTypeRegistry) => Promise<IMessageQueue>,
+): void {
+  describe(`${name} (IMessageQueue contract)`, () => {
+    let queue: IMessageQueue;
+    let delivered: string[];
+    let deliveredIds: string[];
+    let failingLabels: Set<string>;
+
+    beforeEach(async () => {
+      // 延迟和退避依赖真实时钟
+      jest.spyOn(Date, 'now').mockImplementation(() => new Date().getTime());
+
+      const registry = new EventTypeRegistry().register(ContractTestEvent, {
+        deserialize: ({ aggregateId, data }) =>
+          new ContractTestEvent(aggregateId, data.label as string),
+      });
+      delivered = [];
+      deliveredIds = [];
+      failingLabels = new Set();
+
+      queue = await createQueue(registry);
+      await queue.createQueue(queueConfig);
+      await queue.consumeEvents(QUEUE_NAME, async event => {
+        expect(event).toBeInstanceOf(ContractTestEvent);
+        const { label } = event as ContractTestEvent;
+        if (failingLabels.has(label)) {
+          throw new Error(`cannot handle ${label}`);
+        }
+        delivered.push(label);
+        deliveredIds.push(event.eventId);
+      });
+      await queue.start();
+    });
+
+    afterEach(async () => {
+      await queue.stop();
+      await queue.deleteQueue(QUEUE_NAME);
+    });
+
+    it('should deliver published domain events to the consumer', async () => {
+      await queue.publishEvent(new ContractTestEvent('agg-1', 'first'));
+
+      await waitFor(() => delivered.length === 1);
+      expect(delivered).toEqual(['first']);
+    });
+
+    it('should deliver serialized domain events unchanged', async () => {
+      await queue.publishSerializedEvent({
+        eventId: 'event-1',
+        eventType: 'ContractTestEvent',
+        schemaVersion: 1,
+        aggregateId: 'agg-1',
+        occurredOn: new Date().toISOString(),
+        metadata: {
+          timestamp: new Date(),
+          source: 'outbox',
+          version: '1.0.0',
+        },
+        data: { label: 'relayed' },
+      });
+
+      await waitFor(() => delivered.length === 1);
+      expect(delivered).toEqual(['relayed']);
+      expect(deliveredIds).toEqual(['event-1']);
+    });
+
+    it('should process higher priority messages first', async () => {
+      await queue.pauseQueue(QUEUE_NAME);
+      await queue.publishEvent(new ContractTestEvent('agg-1', 'low'), {
+        priority: 5,
+      });
+      await queue.publishEvent(new ContractTestEvent('agg-2', 'high'), {
+        priority: 1,
+      });
+
+      const paused = await queue.getQueueStatistics(QUEUE_NAME);
+      expect(paused).toMatchObject({ paused: true, waiting: 2 });
+
+      await queue.resumeQueue(QUEUE_NAME);
+      await waitFor(() => delivered.length === 2);
+      expect(delivered).toEqual(['high', 'low']);
+    });
+
+    it('should hold delayed messages until their delay elapses', async () => {
+      await queue.publishEvent(new ContractTestEvent('agg-1', 'later'), {
+        delay: 300,
+      });
+
+      const statistics = await queue.getQueueStatistics(QUEUE_NAME);
+      expect(statistics.delayed).toBe(1);
+      expect(delivered).toEqual([]);
+
+      await waitFor(() => delivered.length === 1);
+      expect(delivered).toEqual(['later']);
+    });
+
+    it('should retry with backoff and dead-letter exhausted messages', async () => {
+      failingLabels.add('broken');
+      await queue.publishEvent(new ContractTestEvent('agg-1', 'broken'), {
+        attempts: 2,
+        backoff: { type: 'exponential', delay: 50 },
+      });
+
+      await waitFor(
+        async () => (await queue.getDeadLetters(QUEUE_NAME)).length === 1,
+      );
+
+      const [deadLetter] = await queue.getDeadLetters(QUEUE_NAME);
+      expect(deadLetter.reason).toBe('cannot handle broken');
+      expect(deadLetter.message.failures?.map(f => f.attempt)).toEqual([1, 2]);
+      expect(deadLetter.deadLetteredAt).toBeInstanceOf(Date);
+
+      await expect(queue.getDeadLetters(QUEUE_NAME, 0)).resolves.toEqual([]);
+
+      const [failedJob] = await queue.getFailedJobs(QUEUE_NAME);
+      expect(failedJob).toMatchObject({ attempts: 2, maxAttempts: 2 });
+
+      const statistics = await queue.getQueueStatistics(QUEUE_NAME);
+      expect(statistics).toMatchObject({ failed: 1, deadLettered: 1 });
+    });
+
+    it('should requeue failed jobs with retryFailedJobs', async () => {
+      failingLabels.add('flaky');
+      await queue.publishEvent(new ContractTestEvent('agg-1', 'flaky'), {
+        attempts: 1,
+      });
+      await waitFor(
+        async () => (await queue.getFailedJobs(QUEUE_NAME)).length === 1,
+      );
+
+      failingLabels.clear();
+      await expect(queue.retryFailedJobs(QUEUE_NAME)).resolves.toBe(1);
+
+      await waitFor(() => delivered.length === 1);
+      expect(delivered).toEqual(['flaky']);
+      await expect(queue.getFailedJobs(QUEUE_NAME)).resolves.toEqual([]);
+    });
+
+    it('should requeue an edited dead letter and discard others', async () => {
+      failingLabels.add('typo');
+      failingLabels.add('spam');
+      await queue.publishEvent(new ContractTestEvent('agg-1', 'typo'), {
+        attempts: 1,
+      });
+      await queue.publishEvent(new ContractTestEvent('agg-2', 'spam'), {
+        attempts: 1,
+      });
+      await waitFor(
+        async () => (await queue.getDeadLetters(QUEUE_NAME)).length === 2,
+      );
+
+      const deadLetters = await queue.getDeadLetters(QUEUE_NAME);
+      const typo = deadLetters.find(d => d.message.data.label === 'typo')!;
+      const spam = deadLetters.find(d => d.message.data.label === 'spam')!;
+
+      await queue.discardDeadLetter(QUEUE_NAME, spam.id);
+      await queue.requeueDeadLetter(QUEUE_NAME, typo.id, {
+        data: { label: 'fixed' },
+      });
+
+      await waitFor(() => delivered.length === 1);
+      expect(delivered).toEqual(['fixed']);
+      await expect(queue.getDeadLetters(QUEUE_NAME)).resolves.toEqual([]);
+    });
+  });
+}